@@ -28,6 +28,7 @@ import Streaks from "./pages/Streaks";
 import BetSimulator from "./pages/BetSimulator";
 import BestBets from "./pages/BestBets";
 import AccuracyTracking from "./pages/AccuracyTracking";
+import Calibration from "./pages/Calibration";
 import FranchiseManagement from "./pages/FranchiseManagement";
 import KalshiDashboard from "./pages/KalshiDashboard";
 import NotFound from "./pages/NotFound";
@@ -66,6 +67,7 @@ const App = () => (
             <Route path="/streaks" element={<Streaks />} />
             <Route path="/simulator" element={<BetSimulator />} />
             <Route path="/accuracy" element={<AccuracyTracking />} />
+            <Route path="/calibration" element={<Calibration />} />
             <Route path="/franchises" element={<FranchiseManagement />} />
             <Route path="/kalshi" element={<KalshiDashboard />} />
             <Route path="*" element={<NotFound />} />
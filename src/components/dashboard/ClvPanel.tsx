@@ -0,0 +1,156 @@
+import { Target } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { ClvRecord } from "@/hooks/useClvRecords";
+import {
+  CLV_SUBJECT_LABELS,
+  EDGE_STRENGTHS,
+  groupClv,
+  summarizeClv,
+  type ClvSummary,
+} from "@shared/clv";
+
+interface ClvPanelProps {
+  records: ClvRecord[];
+  isLoading: boolean;
+  /** Add a breakdown by subject (signals vs parlay legs vs orders) */
+  bySubject?: boolean;
+}
+
+const UNRATED = "Unrated";
+
+// Strong first, unrated last
+function strengthRank(group: string) {
+  const i = (EDGE_STRENGTHS as string[]).indexOf(group);
+  return i === -1 ? EDGE_STRENGTHS.length : i;
+}
+
+function formatSigned(value: number | null, suffix = "") {
+  if (value === null) return "—";
+  return `${value > 0 ? "+" : ""}${value.toFixed(2)}${suffix}`;
+}
+
+function signClass(value: number | null) {
+  if (value === null || value === 0) return "text-muted-foreground";
+  return value > 0 ? "text-status-live" : "text-status-over";
+}
+
+function SummaryTile({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="p-3 rounded-lg bg-muted/50 text-center">
+      <div className={cn("text-xl font-bold", className)}>{value}</div>
+      <div className="text-xs text-muted-foreground">{label}</div>
+    </div>
+  );
+}
+
+function GroupTable({ rows }: { rows: Array<{ group: string } & ClvSummary> }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Group</TableHead>
+          <TableHead className="text-right">N</TableHead>
+          <TableHead className="text-right">Avg pts</TableHead>
+          <TableHead className="text-right">Avg prob</TableHead>
+          <TableHead className="text-right">Beat close</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.group}>
+            <TableCell className="font-medium">{row.group}</TableCell>
+            <TableCell className="text-right">{row.count}</TableCell>
+            <TableCell className={cn("text-right", signClass(row.avg_points))}>
+              {formatSigned(row.avg_points)}
+            </TableCell>
+            <TableCell className={cn("text-right", signClass(row.avg_prob))}>
+              {formatSigned(row.avg_prob, "pp")}
+            </TableCell>
+            <TableCell className="text-right">
+              {row.beat_rate === null ? "—" : `${row.beat_rate.toFixed(1)}%`}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+/**
+ * Closing line value summary: did we get better numbers than the market
+ * closed at? Positive CLV over a large sample is the best early sign of a
+ * real edge, well before win rates settle.
+ */
+export function ClvPanel({ records, isLoading, bySubject = false }: ClvPanelProps) {
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <Skeleton key={i} className="h-10 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (records.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <Target className="h-8 w-8 mx-auto mb-2 opacity-50" />
+        <p>No closing lines recorded yet</p>
+        <p className="text-sm">CLV is scored by refresh-odds once each game starts</p>
+      </div>
+    );
+  }
+
+  const overall = summarizeClv(records);
+  const bySport = groupClv(records, (r) => r.sport_id.toUpperCase());
+  const byStrength = groupClv(records, (r) => r.edge_strength ?? UNRATED).sort(
+    (a, b) => strengthRank(a.group) - strengthRank(b.group)
+  );
+  const bySubjectType = groupClv(records, (r) => CLV_SUBJECT_LABELS[r.subject_type]);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <SummaryTile label="Scored" value={String(overall.count)} />
+        <SummaryTile
+          label="Avg CLV (points)"
+          value={formatSigned(overall.avg_points)}
+          className={signClass(overall.avg_points)}
+        />
+        <SummaryTile
+          label="Avg CLV (prob)"
+          value={formatSigned(overall.avg_prob, "pp")}
+          className={signClass(overall.avg_prob)}
+        />
+        <SummaryTile
+          label="Beat the close"
+          value={overall.beat_rate === null ? "—" : `${overall.beat_rate.toFixed(1)}%`}
+          className={overall.beat_rate !== null && overall.beat_rate >= 50 ? "text-status-live" : undefined}
+        />
+      </div>
+
+      <Tabs defaultValue="sport">
+        <TabsList>
+          <TabsTrigger value="sport">By Sport</TabsTrigger>
+          <TabsTrigger value="strength">By Edge Strength</TabsTrigger>
+          {bySubject && <TabsTrigger value="subject">By Type</TabsTrigger>}
+        </TabsList>
+        <TabsContent value="sport">
+          <GroupTable rows={bySport} />
+        </TabsContent>
+        <TabsContent value="strength">
+          <GroupTable rows={byStrength} />
+        </TabsContent>
+        {bySubject && (
+          <TabsContent value="subject">
+            <GroupTable rows={bySubjectType} />
+          </TabsContent>
+        )}
+      </Tabs>
+    </div>
+  );
+}
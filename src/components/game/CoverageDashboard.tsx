@@ -91,7 +91,7 @@ export function CoverageDashboard({ debug, isFetching }: CoverageDashboardProps)
     const coverage = hasGames ? Math.round((edges_visible / games_in_db) * 100) : 0;
     
     // Segment breakdown
-    const h2hCount = (segments?.h2h_all || 0) + (segments?.h2h_10y || 0) + (segments?.h2h_5y || 0) + (segments?.recency_weighted || 0);
+    const h2hCount = (segments?.h2h_all || 0) + (segments?.h2h_10y || 0) + (segments?.h2h_5y || 0) + (segments?.recency_weighted || 0) + (segments?.era_comparable || 0);
     const formCount = segments?.hybrid_form || 0;
 
     const isHealthy = hasVisible && coverage >= 50;
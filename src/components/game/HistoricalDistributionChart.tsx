@@ -1,4 +1,4 @@
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import {
   ComposedChart,
   Bar,
@@ -10,6 +10,8 @@ import {
   Cell,
 } from "recharts";
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { sketchPercentile, type DistributionSketch } from "@shared/percentiles";
 
 interface HistoricalDistributionChartProps {
   totals: number[];
@@ -17,6 +19,13 @@ interface HistoricalDistributionChartProps {
   p95: number | null;
   median: number | null;
   dkLine?: number | null;
+  distribution?: DistributionSketch | null;
+  /** Same games restated in today's scoring environment; enables the raw / era-adjusted toggle */
+  adjustedTotals?: number[] | null;
+  /** e.g. "Ratio to 2025 league average" */
+  adjustmentLabel?: string | null;
+  /** Open on the adjusted view (when the percentiles were computed from it) */
+  defaultAdjusted?: boolean;
 }
 
 export function HistoricalDistributionChart({
@@ -25,8 +34,17 @@ export function HistoricalDistributionChart({
   p95,
   median,
   dkLine,
+  distribution,
+  adjustedTotals,
+  adjustmentLabel,
+  defaultAdjusted = false,
 }: HistoricalDistributionChartProps) {
+  const canAdjust = !!adjustedTotals && adjustedTotals.length === totals.length;
+  const [view, setView] = useState<"raw" | "adjusted">(defaultAdjusted ? "adjusted" : "raw");
+  const shownTotals = canAdjust && view === "adjusted" ? adjustedTotals : totals;
+
   const chartData = useMemo(() => {
+    const totals = shownTotals;
     if (totals.length === 0) return [];
 
     // Create histogram buckets
@@ -51,7 +69,10 @@ export function HistoricalDistributionChart({
       rangeLabel: `${range}-${Number(range) + bucketSize - 1}`,
       count,
     }));
-  }, [totals]);
+  }, [shownTotals]);
+
+  // Where the DK line sits in the full distribution, not just the P5-P95 band
+  const dkPercentile = distribution && dkLine != null ? sketchPercentile(distribution, dkLine) : null;
 
   if (chartData.length === 0) {
     return (
@@ -68,7 +89,7 @@ export function HistoricalDistributionChart({
     },
   };
 
-  return (
+  const chart = (
     <ChartContainer config={chartConfig} className="h-48 w-full">
       <ResponsiveContainer width="100%" height="100%">
         <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
@@ -143,7 +164,9 @@ export function HistoricalDistributionChart({
               stroke="hsl(var(--chart-5))"
               strokeWidth={2}
               label={{
-                value: `DK: ${dkLine.toFixed(1)}`,
+                value: dkPercentile !== null
+                  ? `DK: ${dkLine.toFixed(1)} (P${Math.round(dkPercentile)})`
+                  : `DK: ${dkLine.toFixed(1)}`,
                 position: "insideTopRight",
                 fill: "hsl(var(--chart-5))",
                 fontSize: 10,
@@ -155,4 +178,26 @@ export function HistoricalDistributionChart({
       </ResponsiveContainer>
     </ChartContainer>
   );
+
+  if (!canAdjust) return chart;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={view}
+          onValueChange={(value) => value && setView(value as "raw" | "adjusted")}
+        >
+          <ToggleGroupItem value="raw" className="h-7 px-2 text-xs">Raw</ToggleGroupItem>
+          <ToggleGroupItem value="adjusted" className="h-7 px-2 text-xs">Era-adjusted</ToggleGroupItem>
+        </ToggleGroup>
+        {view === "adjusted" && adjustmentLabel && (
+          <span className="text-2xs text-muted-foreground">{adjustmentLabel}</span>
+        )}
+      </div>
+      {chart}
+    </div>
+  );
 }
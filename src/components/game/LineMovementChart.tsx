@@ -0,0 +1,264 @@
+import { useMemo } from "react";
+import { format } from "date-fns";
+import {
+  ComposedChart,
+  Line,
+  Area,
+  XAxis,
+  YAxis,
+  ReferenceLine,
+  ReferenceArea,
+  ResponsiveContainer,
+  Tooltip,
+} from "recharts";
+import { Activity, ArrowDownRight, ArrowUpRight, Zap } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { bandAt, type LineMovement } from "@shared/lineMovement";
+
+interface LineMovementChartProps {
+  movement: LineMovement;
+  startTimeUtc: string;
+}
+
+const BOOKMAKER_COLORS = [
+  "hsl(var(--chart-5))",
+  "hsl(var(--chart-1))",
+  "hsl(var(--chart-2))",
+  "hsl(var(--chart-3))",
+  "hsl(var(--chart-4))",
+];
+
+interface TimelineRow {
+  t: number;
+  band: [number, number] | null;
+  median: number | null;
+  [bookmaker: string]: unknown;
+}
+
+function formatPrice(price: number | null | undefined) {
+  if (price === null || price === undefined) return "—";
+  return price > 0 ? `+${price}` : String(price);
+}
+
+function zoneLabel(zone: string | null) {
+  if (zone === "over") return "over zone";
+  if (zone === "under") return "under zone";
+  return "neutral";
+}
+
+export function LineMovementChart({ movement, startTimeUtc }: LineMovementChartProps) {
+  const bookmakers = useMemo(
+    () => Array.from(new Set(movement.points.map((p) => p.bookmaker))),
+    [movement.points]
+  );
+
+  // One row per timestamp; each bookmaker's line carries forward until it changes
+  const rows = useMemo(() => {
+    const times = Array.from(
+      new Set([...movement.points.map((p) => p.at), ...movement.band.map((b) => b.at)])
+    ).sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+
+    const latest: Record<string, (typeof movement.points)[number]> = {};
+    let next = 0;
+    return times.map((at) => {
+      const t = new Date(at).getTime();
+      while (next < movement.points.length && new Date(movement.points[next].at).getTime() <= t) {
+        latest[movement.points[next].bookmaker] = movement.points[next];
+        next++;
+      }
+      const band = bandAt(movement.band, at);
+      const row: TimelineRow = {
+        t,
+        band: band ? [band.p05, band.p95] : null,
+        median: band?.median ?? null,
+      };
+      for (const bookmaker of bookmakers) {
+        const point = latest[bookmaker];
+        row[bookmaker] = point?.line ?? null;
+        row[`${bookmaker}__prices`] = point ? `o${formatPrice(point.over_price)} / u${formatPrice(point.under_price)}` : null;
+      }
+      return row;
+    });
+  }, [movement, bookmakers]);
+
+  if (movement.points.length === 0) {
+    return (
+      <div className="h-48 flex flex-col items-center justify-center text-muted-foreground">
+        <Activity className="h-8 w-8 mb-2 opacity-50" />
+        <p className="text-sm">No odds captured for this game yet</p>
+      </div>
+    );
+  }
+
+  const signalTime = movement.signal ? new Date(movement.signal.at).getTime() : null;
+  const startTime = new Date(startTimeUtc).getTime();
+  const values = rows.flatMap((r) => [
+    ...bookmakers.map((b) => r[b] as number | null),
+    r.band?.[0] ?? null,
+    r.band?.[1] ?? null,
+  ]).filter((v): v is number => v !== null);
+  const yDomain: [number, number] = [Math.floor(Math.min(...values) - 2), Math.ceil(Math.max(...values) + 2)];
+
+  return (
+    <div className="space-y-4">
+      <div className="h-56 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={rows} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+            <XAxis
+              dataKey="t"
+              type="number"
+              scale="time"
+              domain={["dataMin", "dataMax"]}
+              tickLine={false}
+              axisLine={false}
+              tick={{ fontSize: 10, fill: "hsl(var(--muted-foreground))" }}
+              tickFormatter={(t) => format(new Date(t), "MMM d HH:mm")}
+            />
+            <YAxis
+              domain={yDomain}
+              tickLine={false}
+              axisLine={false}
+              tick={{ fontSize: 10, fill: "hsl(var(--muted-foreground))" }}
+            />
+            <Tooltip
+              content={({ active, payload, label }) => {
+                if (!active || !payload?.length) return null;
+                const row = payload[0].payload as TimelineRow;
+                return (
+                  <div className="rounded-lg border bg-background p-2 text-xs shadow-md space-y-1">
+                    <div className="font-medium">{format(new Date(Number(label)), "MMM d, HH:mm")}</div>
+                    {bookmakers.map((b) => row[b] !== null && (
+                      <div key={b} className="flex justify-between gap-3">
+                        <span className="text-muted-foreground">{b}</span>
+                        <span className="tabular-nums">
+                          {String(row[b])} <span className="text-muted-foreground">{String(row[`${b}__prices`])}</span>
+                        </span>
+                      </div>
+                    ))}
+                    {row.band && (
+                      <div className="text-muted-foreground">
+                        P5 {row.band[0].toFixed(1)} · {row.median !== null ? `P50 ${row.median.toFixed(1)} · ` : ""}P95 {row.band[1].toFixed(1)}
+                      </div>
+                    )}
+                  </div>
+                );
+              }}
+            />
+            <Area
+              dataKey="band"
+              type="stepAfter"
+              stroke="none"
+              fill="hsl(var(--primary))"
+              fillOpacity={0.1}
+              isAnimationActive={false}
+            />
+            <Line
+              dataKey="median"
+              type="stepAfter"
+              stroke="hsl(var(--muted-foreground))"
+              strokeDasharray="4 4"
+              strokeWidth={1}
+              dot={false}
+              isAnimationActive={false}
+            />
+            {movement.steam_moves.map((m, i) => (
+              <ReferenceArea
+                key={`steam-${i}`}
+                x1={new Date(m.started_at).getTime()}
+                x2={new Date(m.at).getTime()}
+                fill="hsl(var(--status-edge))"
+                fillOpacity={0.15}
+              />
+            ))}
+            {bookmakers.map((b, i) => (
+              <Line
+                key={b}
+                dataKey={b}
+                name={b}
+                type="stepAfter"
+                stroke={BOOKMAKER_COLORS[i % BOOKMAKER_COLORS.length]}
+                strokeWidth={2}
+                dot={false}
+                connectNulls
+                isAnimationActive={false}
+              />
+            ))}
+            {signalTime !== null && (
+              <ReferenceLine
+                x={signalTime}
+                stroke="hsl(var(--status-live))"
+                strokeDasharray="3 3"
+                label={{ value: "Signal", position: "insideTopLeft", fill: "hsl(var(--status-live))", fontSize: 10 }}
+              />
+            )}
+            {startTime <= rows[rows.length - 1].t && (
+              <ReferenceLine
+                x={startTime}
+                stroke="hsl(var(--muted-foreground))"
+                label={{ value: "Start", position: "insideTopRight", fill: "hsl(var(--muted-foreground))", fontSize: 10 }}
+              />
+            )}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-2xs text-muted-foreground">
+        {bookmakers.map((b, i) => (
+          <span key={b} className="flex items-center gap-1">
+            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: BOOKMAKER_COLORS[i % BOOKMAKER_COLORS.length] }} />
+            {b}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="h-2 w-3 rounded-sm bg-primary/20" />
+          P5–P95 band
+        </span>
+      </div>
+
+      {(movement.crossings.length > 0 || movement.steam_moves.length > 0 || movement.signal) && (
+        <div className="space-y-1.5">
+          {movement.signal && (
+            <div className="flex items-center gap-2 text-xs">
+              <Zap className="h-3.5 w-3.5 text-status-live" />
+              <span>
+                {movement.signal.strength} {movement.signal.side.toUpperCase()} signal fired at {movement.signal.line}
+              </span>
+              <span className="text-muted-foreground ml-auto">{format(new Date(movement.signal.at), "MMM d HH:mm")}</span>
+            </div>
+          )}
+          {movement.steam_moves.map((m, i) => {
+            const before = signalTime !== null && signalTime <= new Date(m.started_at).getTime();
+            const after = signalTime !== null && signalTime > new Date(m.at).getTime();
+            return (
+              <div key={`move-${i}`} className="flex items-center gap-2 text-xs">
+                {m.delta > 0 ? (
+                  <ArrowUpRight className="h-3.5 w-3.5 text-status-over" />
+                ) : (
+                  <ArrowDownRight className="h-3.5 w-3.5 text-status-under" />
+                )}
+                <span>
+                  Steam {m.delta > 0 ? "+" : ""}{m.delta} at {m.bookmaker} ({m.from_line} → {m.to_line})
+                </span>
+                {signalTime !== null && (
+                  <span className={cn("text-2xs", before ? "text-status-live" : "text-muted-foreground")}>
+                    {before ? "signal led" : after ? "signal followed" : "signal during"}
+                  </span>
+                )}
+                <span className="text-muted-foreground ml-auto">{format(new Date(m.at), "MMM d HH:mm")}</span>
+              </div>
+            );
+          })}
+          {movement.crossings.map((c, i) => (
+            <div key={`cross-${i}`} className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Activity className="h-3.5 w-3.5" />
+              <span>
+                {c.bookmaker} {c.line}: {zoneLabel(c.from)} → {zoneLabel(c.to)}
+              </span>
+              <span className="ml-auto">{format(new Date(c.at), "MMM d HH:mm")}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
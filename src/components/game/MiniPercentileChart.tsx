@@ -1,9 +1,12 @@
 import { cn } from "@/lib/utils";
+import { sketchPercentile, type DistributionSketch } from "@shared/percentiles";
 
 interface MiniPercentileChartProps {
   p05: number | null;
   p95: number | null;
   dkLine: number | null;
+  /** When present the zone uses the line's true percentile instead of its position in the P5-P95 band */
+  distribution?: DistributionSketch | null;
   className?: string;
 }
 
@@ -11,6 +14,7 @@ export function MiniPercentileChart({
   p05,
   p95,
   dkLine,
+  distribution,
   className,
 }: MiniPercentileChartProps) {
   if (p05 === null || p95 === null) return null;
@@ -41,7 +45,9 @@ export function MiniPercentileChart({
     if (dkLine === null) return "neutral";
     if (isBeyondLow) return "over-extreme"; // DK line below p05 = strong over value
     if (isBeyondHigh) return "under-extreme"; // DK line above p95 = strong under value
-    const dkPercentile = ((dkLine - p05) / range) * 100;
+    const dkPercentile = distribution
+      ? sketchPercentile(distribution, dkLine)
+      : ((dkLine - p05) / range) * 100;
     if (dkPercentile <= 20) return "over";
     if (dkPercentile >= 80) return "under";
     return "neutral";
@@ -1,5 +1,6 @@
 import { cn } from "@/lib/utils";
 import { TrendingUp, TrendingDown, Minus, AlertTriangle, XCircle } from "lucide-react";
+import { sketchPercentile, type DistributionSketch } from "@shared/percentiles";
 
 interface PickPillProps {
   nH2H: number;
@@ -12,6 +13,7 @@ interface PickPillProps {
   p05UnderLine?: number | null;
   p05?: number | null;
   p95?: number | null;
+  distribution?: DistributionSketch | null;
   isFinal?: boolean;
   compact?: boolean;
   className?: string;
@@ -37,7 +39,8 @@ interface PickData {
  *    - Pick the direction with the stronger edge
  *    - OVER = DK line is LOWER than historical p5 → games usually score MORE
  *    - UNDER = DK line is HIGHER than historical p95 → games usually score LESS
- * 4. Fallback to percentile if no edge data:
+ * 4. Fallback to percentile if no edge data (priced off the stored
+ *    distribution when available, else dkLinePercentile):
  *    - P ≤ 30: DK line below 30% of historical games → LEAN OVER
  *    - P ≥ 70: DK line above 70% of historical games → LEAN UNDER
  * 5. Otherwise: "NO EDGE"
@@ -54,6 +57,7 @@ export function PickPill({
   p05UnderLine,
   p05,
   p95,
+  distribution,
   isFinal = false,
   compact = false,
   className,
@@ -110,7 +114,8 @@ export function PickPill({
     }
 
     // Rule 4: Fallback to percentile-based recommendation
-    const P = dkLinePercentile !== null ? Math.round(dkLinePercentile) : 50;
+    const linePct = distribution ? sketchPercentile(distribution, dkTotalLine) : dkLinePercentile;
+    const P = linePct !== null ? Math.round(linePct) : 50;
 
     if (P <= 30) {
       // DK line is low relative to history → LEAN OVER
@@ -1,5 +1,5 @@
 import { cn } from "@/lib/utils";
-import { Clock, TrendingUp, History } from "lucide-react";
+import { Clock, TrendingUp, History, Filter } from "lucide-react";
 import {
   Tooltip,
   TooltipContent,
@@ -23,6 +23,7 @@ const SEGMENT_LABELS: Record<string, { label: string; description: string; icon:
   h2h_all: { label: "All-time", description: "Based on all historical games between these teams", icon: History },
   recency_weighted: { label: "Recency weighted", description: "Recent games weighted higher (1yr=100%, 2yr=90%, 3yr=70%, 4yr=50%)", icon: TrendingUp },
   hybrid_form: { label: "Team form", description: "Based on each team's recent game totals (no direct H2H)", icon: TrendingUp },
+  era_comparable: { label: "Comparable era", description: "H2H games from eras comparable to today; older rule eras down-weighted or excluded, nothing before a relocation", icon: Filter },
   insufficient: { label: "Insufficient data", description: "Not enough historical data available", icon: Clock },
 };
 
@@ -47,6 +48,8 @@ export function SegmentBadge({ segment, nUsed, className, showTooltip = true }:
           ? "bg-status-live/10 text-status-live"
           : segment === "hybrid_form"
           ? "bg-status-over/10 text-status-over"
+          : segment === "era_comparable"
+          ? "bg-primary/10 text-primary"
           : "bg-muted text-muted-foreground",
         className
       )}
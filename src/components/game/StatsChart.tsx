@@ -58,6 +58,7 @@ function calculateConfidence(nGames: number, segment?: string | null): {
   let recencyScore = 10; // default
   if (segment) {
     if (segment.includes('1y') || segment === 'recency_weighted') recencyScore = 20;
+    else if (segment === 'era_comparable') recencyScore = 17;
     else if (segment.includes('3y')) recencyScore = 17;
     else if (segment.includes('5y')) recencyScore = 14;
     else if (segment.includes('10y')) recencyScore = 10;
@@ -78,6 +79,8 @@ function calculateConfidence(nGames: number, segment?: string | null): {
     ? 'Form-based' 
     : segment === 'recency_weighted' 
       ? 'Recent H2H' 
+      : segment === 'era_comparable'
+        ? 'Era H2H'
       : isH2H 
         ? 'H2H' 
         : 'Mixed';
@@ -25,6 +25,7 @@ import {
   Server,
   Zap,
   Layers,
+  Scale,
 } from "lucide-react";
 import {
   Sheet,
@@ -76,6 +77,7 @@ const moreNavGroups = [
     items: [
       { href: "/analysis", label: "Matchup Analysis", icon: BarChart3 },
       { href: "/accuracy", label: "Accuracy", icon: Crosshair },
+      { href: "/calibration", label: "Calibration", icon: Scale },
       { href: "/matchups", label: "Matchup Finder", icon: Search },
       { href: "/rivalries", label: "Rivalries", icon: Swords },
       { href: "/ou-trends", label: "O/U Trends", icon: LineChart },
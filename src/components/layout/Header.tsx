@@ -21,6 +21,7 @@ import {
   X,
   LayoutDashboard,
   Building2,
+  Scale,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -77,6 +78,7 @@ const analyticsGroup: NavGroup = {
   items: [
     { href: "/analysis", label: "Matchup Analysis", icon: Target },
     { href: "/accuracy", label: "Accuracy Tracking", icon: Target },
+    { href: "/calibration", label: "Calibration", icon: Scale },
     { href: "/matchups", label: "Matchup Finder", icon: Target },
     { href: "/rivalries", label: "Rivalries", icon: Flame },
     { href: "/ou-trends", label: "O/U Trends", icon: TrendingDown },
@@ -4,6 +4,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { cn } from "@/lib/utils";
 import { formatDistanceToNow } from "date-fns";
 import { Progress } from "@/components/ui/progress";
+import type { PlanProgress, UnitStatus } from "@shared/backfillPlan";
 
 interface JobDetails {
   sport?: string;
@@ -19,8 +20,29 @@ interface JobDetails {
   sports?: string[];
   seasons_processed?: number;
   total_seasons?: number;
+  // Plan-based backfill runs
+  plan_id?: number;
+  units?: PlanProgress;
+  current_unit?: string | null;
 }
 
+interface PlanUnit {
+  id: number;
+  plan_id: number;
+  unit_key: string;
+  status: UnitStatus;
+  rows_written: number;
+  attempts: number;
+  last_error: string | null;
+}
+
+const unitStatusStyles: Record<UnitStatus, string> = {
+  pending: "text-muted-foreground",
+  running: "text-status-live",
+  done: "text-status-live",
+  failed: "text-destructive",
+};
+
 interface RunningJob {
   id: number;
   job_name: string;
@@ -34,6 +56,7 @@ export function LiveJobProgress() {
   const [runningJobs, setRunningJobs] = useState<RunningJob[]>([]);
   const [recentJobs, setRecentJobs] = useState<RunningJob[]>([]);
   const [isPolling, setIsPolling] = useState(false);
+  const [planUnits, setPlanUnits] = useState<Record<number, PlanUnit[]>>({});
 
   const fetchJobs = async () => {
     // Fetch running jobs
@@ -54,6 +77,25 @@ export function LiveJobProgress() {
       .order("finished_at", { ascending: false })
       .limit(5);
 
+    // Per-unit status for running backfill plans
+    const planIds = ((running as RunningJob[]) || [])
+      .map((job) => job.details?.plan_id)
+      .filter((id): id is number => typeof id === "number");
+    if (planIds.length > 0) {
+      const { data: units } = await supabase
+        .from("backfill_units")
+        .select("id, plan_id, unit_key, status, rows_written, attempts, last_error")
+        .in("plan_id", planIds)
+        .order("id", { ascending: true });
+      const byPlan: Record<number, PlanUnit[]> = {};
+      for (const unit of (units as PlanUnit[]) || []) {
+        (byPlan[unit.plan_id] ||= []).push(unit);
+      }
+      setPlanUnits(byPlan);
+    } else {
+      setPlanUnits({});
+    }
+
     setRunningJobs((running as RunningJob[]) || []);
     setRecentJobs((recent as RunningJob[]) || []);
     setIsPolling((running?.length ?? 0) > 0);
@@ -84,6 +126,7 @@ export function LiveJobProgress() {
   };
 
   const getProgress = (details: JobDetails | null) => {
+    if (details?.units) return details.units.percent;
     if (!details?.seasons_processed || !details?.total_seasons) return null;
     return Math.round((details.seasons_processed / details.total_seasons) * 100);
   };
@@ -112,6 +155,7 @@ export function LiveJobProgress() {
           const totalGames = getTotalGames(job.details);
           const progress = getProgress(job.details);
           const errors = job.details?.counters?.errors || 0;
+          const units = job.details?.plan_id ? planUnits[job.details.plan_id] : undefined;
 
           return (
             <div
@@ -135,7 +179,11 @@ export function LiveJobProgress() {
               {progress !== null && (
                 <div className="mb-3">
                   <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
-                    <span>Progress</span>
+                    <span>
+                      {job.details?.units
+                        ? `${job.details.units.done + job.details.units.failed}/${job.details.units.total} units`
+                        : "Progress"}
+                    </span>
                     <span>{progress}%</span>
                   </div>
                   <Progress value={progress} className="h-2" />
@@ -157,6 +205,31 @@ export function LiveJobProgress() {
                 </div>
               )}
 
+              {/* Backfill plan units */}
+              {units && units.length > 0 && (
+                <div className="mb-3 max-h-40 overflow-y-auto space-y-1">
+                  {units.map((unit) => (
+                    <div key={unit.id} className="flex items-center justify-between text-xs gap-3">
+                      <span className={cn("font-mono truncate", unit.unit_key === job.details?.current_unit && "font-semibold")}>
+                        {unit.unit_key}
+                      </span>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        {unit.last_error && (
+                          <span className="text-destructive truncate max-w-[16rem]" title={unit.last_error}>
+                            {unit.last_error}
+                          </span>
+                        )}
+                        <span className="text-muted-foreground">{unit.rows_written.toLocaleString()} rows</span>
+                        <span className={cn("uppercase", unitStatusStyles[unit.status])}>
+                          {unit.status}
+                          {unit.attempts > 1 && ` (${unit.attempts})`}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Summary stats */}
               <div className="flex items-center gap-4 text-sm">
                 <div className="flex items-center gap-1">
@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { addDays, format, formatDistanceToNow, parseISO } from "date-fns";
+import { CheckCircle2, ChevronLeft, ChevronRight, Clock, GitBranch, Loader2, MinusCircle, Play, RotateCcw, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { usePipelineStatus } from "@/hooks/useApi";
+import type { PipelineCell, StageKey, StageStatus } from "@shared/pipelineDag";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+
+const API_BASE = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`;
+
+const statusStyles: Record<StageStatus, { className: string; icon: typeof CheckCircle2 }> = {
+  success: { className: "bg-status-live/10 text-status-live border-status-live/30", icon: CheckCircle2 },
+  fail: { className: "bg-destructive/10 text-destructive border-destructive/30", icon: XCircle },
+  skipped: { className: "bg-muted text-muted-foreground border-border", icon: MinusCircle },
+  running: { className: "bg-primary/10 text-primary border-primary/30", icon: Loader2 },
+  pending: { className: "bg-background text-muted-foreground border-dashed border-border", icon: Clock },
+};
+
+function cellTitle(cell: PipelineCell) {
+  const lines = [`${cell.status}${cell.attempts > 1 ? ` after ${cell.attempts} attempts` : ""}`];
+  if (cell.error) lines.push(cell.error);
+  if (cell.status === "pending" && cell.next_attempt_at) {
+    lines.push(`Next attempt ${formatDistanceToNow(new Date(cell.next_attempt_at), { addSuffix: true })}`);
+  }
+  if (cell.finished_at) lines.push(`Finished ${formatDistanceToNow(new Date(cell.finished_at), { addSuffix: true })}`);
+  if (cell.duration_ms !== null) lines.push(`${(cell.duration_ms / 1000).toFixed(1)}s`);
+  return lines;
+}
+
+// Per-date view of the daily DAG: one row per sport, one column per stage
+export function PipelineDagView() {
+  const [date, setDate] = useState(() => new Date());
+  const [busy, setBusy] = useState<string | null>(null);
+  const { data, isLoading, error, refetch } = usePipelineStatus(date);
+  const dateString = format(date, "yyyy-MM-dd");
+
+  const post = async (key: string, body: Record<string, unknown>, success: string) => {
+    setBusy(key);
+    try {
+      const response = await fetch(`${API_BASE}/run-pipeline`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date: dateString, ...body }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+      toast.success(success);
+      setTimeout(() => refetch(), 2000);
+    } catch (err) {
+      toast.error(`Pipeline error: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const retry = (stage: StageKey, sport: string, label: string) =>
+    post(`${stage}:${sport}`, { retry: { stage, sport } }, `Retrying ${label}${sport === "all" ? "" : ` for ${sport.toUpperCase()}`}`);
+
+  const cellFor = (stage: StageKey, sport: string) => data?.cells.find((c) => c.stage === stage && c.sport_id === sport);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <GitBranch className="h-5 w-5" />
+              Daily Pipeline
+            </CardTitle>
+            <CardDescription>
+              Each stage runs once its upstream stages succeed for the date and sport
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setDate((d) => addDays(d, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium w-28 text-center">{format(date, "EEE, MMM d")}</span>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setDate((d) => addDays(d, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2 ml-2"
+              disabled={busy !== null}
+              onClick={() => post("run", {}, `Pipeline started for ${dateString}`)}
+            >
+              {busy === "run" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+              Run
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-48" />
+        ) : error || !data ? (
+          <p className="text-sm text-muted-foreground">Unable to load pipeline status</p>
+        ) : !data.seeded ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            The pipeline hasn't run for {format(parseISO(data.date), "MMM d")} yet
+          </p>
+        ) : (
+          <TooltipProvider delayDuration={150}>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-muted-foreground">
+                    <th className="text-left font-medium py-2 pr-2">Sport</th>
+                    {data.stages.map((stage) => (
+                      <th key={stage.key} className="font-medium py-2 px-1 text-center whitespace-nowrap">{stage.label}</th>
+                    ))}
+                    <th className="text-left font-medium py-2 pl-2">Stuck at</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.progress.map((progress) => (
+                    <tr key={progress.sport} className="border-t border-border">
+                      <td className="py-2 pr-2 font-medium">{progress.sport.toUpperCase()}</td>
+                      {data.stages.map((stage) => {
+                        const sport = stage.scope === "date" ? "all" : progress.sport;
+                        const cell = cellFor(stage.key, sport);
+                        if (!cell) return <td key={stage.key} />;
+                        const style = statusStyles[cell.status];
+                        const Icon = style.icon;
+                        const canRetry = cell.status === "fail" || cell.status === "skipped";
+                        return (
+                          <td key={stage.key} className="py-1 px-1">
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <div className={cn("flex items-center justify-center gap-1 rounded border h-7", style.className)}>
+                                  <Icon className={cn("h-3.5 w-3.5", cell.status === "running" && "animate-spin")} />
+                                  {canRetry && (
+                                    <button
+                                      className="hover:opacity-70 disabled:opacity-40"
+                                      disabled={busy !== null}
+                                      onClick={() => retry(stage.key, sport, stage.label)}
+                                      aria-label={`Retry ${stage.label}`}
+                                    >
+                                      <RotateCcw className="h-3 w-3" />
+                                    </button>
+                                  )}
+                                </div>
+                              </TooltipTrigger>
+                              <TooltipContent className="max-w-xs">
+                                <p className="font-medium">{stage.label}</p>
+                                {cellTitle(cell).map((line, i) => (
+                                  <p key={i} className="text-xs text-muted-foreground break-words">{line}</p>
+                                ))}
+                              </TooltipContent>
+                            </Tooltip>
+                          </td>
+                        );
+                      })}
+                      <td className="py-2 pl-2">
+                        {progress.stuck_at ? (
+                          <span className={cn(progress.stuck_at.status === "fail" ? "text-destructive" : "text-muted-foreground")}>
+                            {data.stages.find((s) => s.key === progress.stuck_at?.stage)?.label}
+                            {progress.stuck_at.status !== "pending" && ` (${progress.stuck_at.status})`}
+                          </span>
+                        ) : (
+                          <span className="text-status-live">Done</span>
+                        )}
+                        <span className="text-muted-foreground"> · {progress.done}/{progress.total}</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </TooltipProvider>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,6 +2,13 @@ import { useQuery } from "@tanstack/react-query";
 import { format } from "date-fns";
 import { toZonedTime } from "date-fns-tz";
 import type { SportId } from "@/types";
+import type { DistributionSketch } from "@shared/percentiles";
+import type { CalibrationReport } from "@shared/calibration";
+import type { LineMovement } from "@shared/lineMovement";
+import type { EraAdjustment } from "@shared/eraAdjustment";
+import type { JobHistory } from "@shared/jobRunner";
+import type { PipelineView } from "@shared/pipelineDag";
+import type { FreshnessBreach } from "@shared/freshness";
 
 const API_BASE = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`;
 
@@ -46,6 +53,10 @@ export interface TodayGame {
   dk_highest_over?: { line: number; odds: number } | null;
   dk_lowest_under?: { line: number; odds: number } | null;
   alternate_lines?: Array<{ point: number; over_price: number; under_price: number }> | null;
+  // Full quantile sketch of the segment used (null for rows computed before it was stored)
+  distribution?: DistributionSketch | null;
+  // Estimator behind p05/p95 (empirical, kde, shrinkage)
+  model?: string | null;
 }
 
 export interface TodayResponse {
@@ -120,6 +131,9 @@ export interface GameDetailResponse {
     best_over_edge?: number | null;
     best_under_edge?: number | null;
     alternate_lines?: Array<{ point: number; over_price: number; under_price: number }> | null;
+    distribution?: DistributionSketch | null;
+    model?: string | null;
+    era_adjustment?: EraAdjustment | null;
   } | null;
   stats: {
     n_games: number;
@@ -128,6 +142,7 @@ export interface GameDetailResponse {
     median: number | null;
     min_total: number | null;
     max_total: number | null;
+    distribution?: DistributionSketch | null;
   } | null;
   segment: string;
   history: Array<{
@@ -138,7 +153,18 @@ export interface GameDetailResponse {
     away_team: string;
     home_score: number | null;
     away_score: number | null;
+    season_year?: number | null;
+    /** Total restated in the reference season's scoring environment */
+    adjusted_total?: number | null;
   }>;
+  era_adjustment?: {
+    method: EraAdjustment;
+    /** Method compute-percentiles uses for this sport */
+    configured: EraAdjustment;
+    season_year: number;
+    league_avg_total: number;
+  } | null;
+  line_movement?: LineMovement;
   error?: string;
 }
 
@@ -162,6 +188,7 @@ export interface StatusResponse {
     by_sport: Record<string, { total: number; with_odds: number }>;
   };
   sample_unmatched: Array<string | { internal: string; internal_normalized?: string; odds?: Array<{ raw: string; normalized: string; time_diff_hrs: string }> }>;
+  freshness_breaches: Array<FreshnessBreach & { id: number; opened_at: string; last_seen_at: string; notified_at: string | null }>;
   database: {
     teams: number;
     games: number;
@@ -203,6 +230,8 @@ export interface CronStatusResponse {
     started_at: string;
     duration_ms: number | null;
   }>;
+  /** job_runs per job over the last 7 days */
+  pipeline_jobs: JobHistory[];
   summary: {
     total_jobs: number;
     active_jobs: number;
@@ -212,6 +241,13 @@ export interface CronStatusResponse {
   error?: string;
 }
 
+export interface CalibrationResponse extends CalibrationReport {
+  success: boolean;
+  generated_at: string;
+  filters: { sport_id: string | null; model: string | null; since: string | null };
+  error?: string;
+}
+
 async function fetchApi<T>(endpoint: string): Promise<T> {
   const response = await fetch(`${API_BASE}/${endpoint}`, {
     headers: {
@@ -279,3 +315,30 @@ export function useCronStatus() {
     retry: 2,
   });
 }
+
+export function usePipelineStatus(date: Date) {
+  const dateString = format(date, 'yyyy-MM-dd');
+
+  return useQuery<PipelineView>({
+    queryKey: ['api-pipeline', dateString],
+    queryFn: () => fetchApi<PipelineView>(`api-pipeline?date=${dateString}`),
+    staleTime: 30000,
+    refetchInterval: 30000,
+    retry: 2,
+  });
+}
+
+export function useCalibration(params: { sportId?: SportId | null; days?: number | null; model?: string | null } = {}) {
+  const search = new URLSearchParams();
+  if (params.sportId) search.set('sport_id', params.sportId);
+  if (params.days) search.set('days', String(params.days));
+  if (params.model) search.set('model', params.model);
+  const query = search.toString();
+
+  return useQuery<CalibrationResponse>({
+    queryKey: ['api-calibration', params.sportId ?? 'all', params.days ?? 'all', params.model ?? 'all'],
+    queryFn: () => fetchApi<CalibrationResponse>(`api-calibration${query ? `?${query}` : ''}`),
+    staleTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+}
@@ -0,0 +1,61 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { ClvSide, ClvSubject } from "@shared/clv";
+
+export interface ClvRecord {
+  subject_type: ClvSubject;
+  subject_id: string;
+  game_id: string;
+  sport_id: string;
+  side: ClvSide;
+  edge_strength: string | null;
+  entry_line: number;
+  closing_line: number;
+  clv_points: number | null;
+  clv_prob: number | null;
+  game_start_utc: string;
+}
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Closing line value rows written by refresh-odds once each game starts.
+ * `startDate` is yyyy-MM-dd, compared against the game start.
+ */
+export function useClvRecords(subjects: ClvSubject[], options: { startDate?: string; sportId?: string } = {}) {
+  const { startDate, sportId } = options;
+
+  return useQuery({
+    queryKey: ["clv-records", subjects, startDate, sportId],
+    queryFn: async (): Promise<ClvRecord[]> => {
+      const rows: ClvRecord[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        let query = supabase
+          .from("closing_line_values")
+          .select("subject_type, subject_id, game_id, sport_id, side, edge_strength, entry_line, closing_line, clv_points, clv_prob, game_start_utc")
+          .in("subject_type", subjects)
+          .order("game_start_utc", { ascending: false })
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (startDate) query = query.gte("game_start_utc", `${startDate}T00:00:00Z`);
+        if (sportId) query = query.eq("sport_id", sportId);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        rows.push(
+          ...(data || []).map((r) => ({
+            ...r,
+            subject_type: r.subject_type as ClvSubject,
+            side: r.side as ClvSide,
+            entry_line: Number(r.entry_line),
+            closing_line: Number(r.closing_line),
+            clv_points: r.clv_points === null ? null : Number(r.clv_points),
+            clv_prob: r.clv_prob === null ? null : Number(r.clv_prob),
+          }))
+        );
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+      return rows;
+    },
+  });
+}
@@ -1,5 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import type { ConfidenceLabel } from "@shared/percentiles";
 
 export interface SegmentStats {
   segment_key: string;
@@ -12,7 +13,7 @@ export interface SegmentStats {
   max_total: number;
   range: number;
   confidence: number;
-  confidence_label: string;
+  confidence_label: ConfidenceLabel;
   is_recommended: boolean;
   recency_weight: number;
   games_breakdown?: {
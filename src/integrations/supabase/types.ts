@@ -14,16 +14,145 @@ export type Database = {
   }
   public: {
     Tables: {
+      backfill_plans: {
+        Row: {
+          created_at: string
+          date_from: string | null
+          date_to: string | null
+          finished_at: string | null
+          id: number
+          job_run_id: number | null
+          scope: string
+          seasons: number[]
+          source: string
+          sport_id: string
+          status: string
+          summary: Json | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          date_from?: string | null
+          date_to?: string | null
+          finished_at?: string | null
+          id?: number
+          job_run_id?: number | null
+          scope: string
+          seasons?: number[]
+          source: string
+          sport_id: string
+          status?: string
+          summary?: Json | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          date_from?: string | null
+          date_to?: string | null
+          finished_at?: string | null
+          id?: number
+          job_run_id?: number | null
+          scope?: string
+          seasons?: number[]
+          source?: string
+          sport_id?: string
+          status?: string
+          summary?: Json | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "backfill_plans_job_run_id_fkey"
+            columns: ["job_run_id"]
+            isOneToOne: false
+            referencedRelation: "job_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      backfill_units: {
+        Row: {
+          attempts: number
+          checkpoint: Json
+          date_from: string | null
+          date_to: string | null
+          finished_at: string | null
+          heartbeat_at: string | null
+          id: number
+          kind: string
+          last_error: string | null
+          plan_id: number
+          rows_written: number
+          season_year: number | null
+          started_at: string | null
+          status: string
+          unit_key: string
+        }
+        Insert: {
+          attempts?: number
+          checkpoint?: Json
+          date_from?: string | null
+          date_to?: string | null
+          finished_at?: string | null
+          heartbeat_at?: string | null
+          id?: number
+          kind: string
+          last_error?: string | null
+          plan_id: number
+          rows_written?: number
+          season_year?: number | null
+          started_at?: string | null
+          status?: string
+          unit_key: string
+        }
+        Update: {
+          attempts?: number
+          checkpoint?: Json
+          date_from?: string | null
+          date_to?: string | null
+          finished_at?: string | null
+          heartbeat_at?: string | null
+          id?: number
+          kind?: string
+          last_error?: string | null
+          plan_id?: number
+          rows_written?: number
+          season_year?: number | null
+          started_at?: string | null
+          status?: string
+          unit_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "backfill_units_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "backfill_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       betting_config: {
         Row: {
+          cancel_before_start_minutes: number | null
           created_at: string | null
+          distribution_models: Json | null
+          era_adjustments: Json | null
           enabled: boolean | null
           enabled_sports: string[] | null
+          execution_policies: Json
           id: string
+          kelly_fraction: number | null
+          ladder_rungs: number | null
+          ladder_step_cents: number | null
+          max_correlated_exposure_cents: number | null
           max_daily_loss_cents: number | null
+          max_date_exposure_cents: number | null
+          max_drawdown_cents: number | null
           max_limit_price: number | null
           max_open_positions: number | null
           max_position_size_cents: number | null
+          max_team_exposure_cents: number | null
           min_edge_confidence: number | null
           min_limit_price: number | null
           moderate_edge_threshold: number | null
@@ -33,21 +162,37 @@ export type Database = {
           omen_fee_bps: number | null
           omen_initial_liquidity_xdai: number | null
           omen_min_edge_strength: string | null
+          paper_balance_cents: number
+          reprice_interval_minutes: number | null
+          reprice_step_cents: number | null
+          sport_exposure_limits: Json
           strong_edge_threshold: number | null
           strong_position_pct: number | null
           updated_at: string | null
+          venue: string | null
           weak_edge_threshold: number | null
           weak_position_pct: number | null
         }
         Insert: {
+          cancel_before_start_minutes?: number | null
           created_at?: string | null
+          distribution_models?: Json | null
+          era_adjustments?: Json | null
           enabled?: boolean | null
           enabled_sports?: string[] | null
+          execution_policies?: Json
           id?: string
+          kelly_fraction?: number | null
+          ladder_rungs?: number | null
+          ladder_step_cents?: number | null
+          max_correlated_exposure_cents?: number | null
           max_daily_loss_cents?: number | null
+          max_date_exposure_cents?: number | null
+          max_drawdown_cents?: number | null
           max_limit_price?: number | null
           max_open_positions?: number | null
           max_position_size_cents?: number | null
+          max_team_exposure_cents?: number | null
           min_edge_confidence?: number | null
           min_limit_price?: number | null
           moderate_edge_threshold?: number | null
@@ -57,21 +202,37 @@ export type Database = {
           omen_fee_bps?: number | null
           omen_initial_liquidity_xdai?: number | null
           omen_min_edge_strength?: string | null
+          paper_balance_cents?: number
+          reprice_interval_minutes?: number | null
+          reprice_step_cents?: number | null
+          sport_exposure_limits?: Json
           strong_edge_threshold?: number | null
           strong_position_pct?: number | null
           updated_at?: string | null
+          venue?: string | null
           weak_edge_threshold?: number | null
           weak_position_pct?: number | null
         }
         Update: {
+          cancel_before_start_minutes?: number | null
           created_at?: string | null
+          distribution_models?: Json | null
+          era_adjustments?: Json | null
           enabled?: boolean | null
           enabled_sports?: string[] | null
+          execution_policies?: Json
           id?: string
+          kelly_fraction?: number | null
+          ladder_rungs?: number | null
+          ladder_step_cents?: number | null
+          max_correlated_exposure_cents?: number | null
           max_daily_loss_cents?: number | null
+          max_date_exposure_cents?: number | null
+          max_drawdown_cents?: number | null
           max_limit_price?: number | null
           max_open_positions?: number | null
           max_position_size_cents?: number | null
+          max_team_exposure_cents?: number | null
           min_edge_confidence?: number | null
           min_limit_price?: number | null
           moderate_edge_threshold?: number | null
@@ -81,28 +242,108 @@ export type Database = {
           omen_fee_bps?: number | null
           omen_initial_liquidity_xdai?: number | null
           omen_min_edge_strength?: string | null
+          paper_balance_cents?: number
+          reprice_interval_minutes?: number | null
+          reprice_step_cents?: number | null
+          sport_exposure_limits?: Json
           strong_edge_threshold?: number | null
           strong_position_pct?: number | null
           updated_at?: string | null
+          venue?: string | null
           weak_edge_threshold?: number | null
           weak_position_pct?: number | null
         }
         Relationships: []
       }
+      closing_line_values: {
+        Row: {
+          closing_line: number
+          closing_probability: number | null
+          closing_snapshot_id: number | null
+          clv_points: number
+          clv_prob: number | null
+          computed_at: string
+          edge_strength: string | null
+          entry_line: number
+          entry_probability: number | null
+          game_id: string
+          game_start_utc: string
+          id: number
+          side: string
+          sport_id: string
+          subject_id: string
+          subject_type: string
+        }
+        Insert: {
+          closing_line: number
+          closing_probability?: number | null
+          closing_snapshot_id?: number | null
+          clv_points: number
+          clv_prob?: number | null
+          computed_at?: string
+          edge_strength?: string | null
+          entry_line: number
+          entry_probability?: number | null
+          game_id: string
+          game_start_utc: string
+          id?: number
+          side: string
+          sport_id: string
+          subject_id: string
+          subject_type: string
+        }
+        Update: {
+          closing_line?: number
+          closing_probability?: number | null
+          closing_snapshot_id?: number | null
+          clv_points?: number
+          clv_prob?: number | null
+          computed_at?: string
+          edge_strength?: string | null
+          entry_line?: number
+          entry_probability?: number | null
+          game_id?: string
+          game_start_utc?: string
+          id?: number
+          side?: string
+          sport_id?: string
+          subject_id?: string
+          subject_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "closing_line_values_closing_snapshot_id_fkey"
+            columns: ["closing_snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "odds_snapshots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "closing_line_values_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       daily_edges: {
         Row: {
           alternate_lines: Json | null
           best_over_edge: number | null
           best_under_edge: number | null
           date_local: string
+          distribution: Json | null
           dk_line_percentile: number | null
           dk_offered: boolean
           dk_total_line: number | null
+          era_adjustment: string | null
           franchise_matchup_id: string | null
           game_id: string
           id: string
           is_visible: boolean
           league_id: string | null
+          model: string | null
           n_h2h: number
           n_used: number | null
           p05: number | null
@@ -120,14 +361,17 @@ export type Database = {
           best_over_edge?: number | null
           best_under_edge?: number | null
           date_local: string
+          distribution?: Json | null
           dk_line_percentile?: number | null
           dk_offered?: boolean
           dk_total_line?: number | null
+          era_adjustment?: string | null
           franchise_matchup_id?: string | null
           game_id: string
           id?: string
           is_visible?: boolean
           league_id?: string | null
+          model?: string | null
           n_h2h?: number
           n_used?: number | null
           p05?: number | null
@@ -145,14 +389,17 @@ export type Database = {
           best_over_edge?: number | null
           best_under_edge?: number | null
           date_local?: string
+          distribution?: Json | null
           dk_line_percentile?: number | null
           dk_offered?: boolean
           dk_total_line?: number | null
+          era_adjustment?: string | null
           franchise_matchup_id?: string | null
           game_id?: string
           id?: string
           is_visible?: boolean
           league_id?: string | null
+          model?: string | null
           n_h2h?: number
           n_used?: number | null
           p05?: number | null
@@ -203,6 +450,7 @@ export type Database = {
           orders_placed: number | null
           orders_won: number | null
           updated_at: string | null
+          venue: string
           win_rate: number | null
         }
         Insert: {
@@ -218,6 +466,7 @@ export type Database = {
           orders_placed?: number | null
           orders_won?: number | null
           updated_at?: string | null
+          venue?: string
           win_rate?: number | null
         }
         Update: {
@@ -233,10 +482,89 @@ export type Database = {
           orders_placed?: number | null
           orders_won?: number | null
           updated_at?: string | null
+          venue?: string
           win_rate?: number | null
         }
         Relationships: []
       }
+      edge_snapshots: {
+        Row: {
+          date_local: string
+          distribution: Json | null
+          dk_line_percentile: number | null
+          dk_offered: boolean
+          dk_over_price: number | null
+          dk_total_line: number | null
+          dk_under_price: number | null
+          game_id: string
+          id: number
+          model: string | null
+          n_used: number | null
+          odds_snapshot_id: number | null
+          p05: number | null
+          p95: number | null
+          segment_used: string | null
+          snapshot_at: string
+          source: string
+          sport_id: string
+        }
+        Insert: {
+          date_local: string
+          distribution?: Json | null
+          dk_line_percentile?: number | null
+          dk_offered?: boolean
+          dk_over_price?: number | null
+          dk_total_line?: number | null
+          dk_under_price?: number | null
+          game_id: string
+          id?: number
+          model?: string | null
+          n_used?: number | null
+          odds_snapshot_id?: number | null
+          p05?: number | null
+          p95?: number | null
+          segment_used?: string | null
+          snapshot_at?: string
+          source: string
+          sport_id: string
+        }
+        Update: {
+          date_local?: string
+          distribution?: Json | null
+          dk_line_percentile?: number | null
+          dk_offered?: boolean
+          dk_over_price?: number | null
+          dk_total_line?: number | null
+          dk_under_price?: number | null
+          game_id?: string
+          id?: number
+          model?: string | null
+          n_used?: number | null
+          odds_snapshot_id?: number | null
+          p05?: number | null
+          p95?: number | null
+          segment_used?: string | null
+          snapshot_at?: string
+          source?: string
+          sport_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "edge_snapshots_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "edge_snapshots_odds_snapshot_id_fkey"
+            columns: ["odds_snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "odds_snapshots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       franchises: {
         Row: {
           canonical_name: string
@@ -282,6 +610,95 @@ export type Database = {
           },
         ]
       }
+      freshness_breaches: {
+        Row: {
+          id: number
+          last_seen_at: string
+          message: string
+          notified_at: string | null
+          observed: Json | null
+          opened_at: string
+          resolved_at: string | null
+          rule_id: string
+          rule_type: string
+          severity: string
+          sport_id: string
+          subjects: string[]
+        }
+        Insert: {
+          id?: number
+          last_seen_at?: string
+          message: string
+          notified_at?: string | null
+          observed?: Json | null
+          opened_at?: string
+          resolved_at?: string | null
+          rule_id: string
+          rule_type: string
+          severity: string
+          sport_id: string
+          subjects?: string[]
+        }
+        Update: {
+          id?: number
+          last_seen_at?: string
+          message?: string
+          notified_at?: string | null
+          observed?: Json | null
+          opened_at?: string
+          resolved_at?: string | null
+          rule_id?: string
+          rule_type?: string
+          severity?: string
+          sport_id?: string
+          subjects?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "freshness_breaches_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "freshness_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      freshness_rules: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          id: string
+          params: Json
+          rule_type: string
+          severity: string
+          sport_id: string
+          table_name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          id: string
+          params?: Json
+          rule_type: string
+          severity?: string
+          sport_id: string
+          table_name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          params?: Json
+          rule_type?: string
+          severity?: string
+          sport_id?: string
+          table_name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       game_eras: {
         Row: {
           created_at: string
@@ -291,6 +708,7 @@ export type Database = {
           id: string
           sport_id: string
           start_date: string
+          weight: number
         }
         Insert: {
           created_at?: string
@@ -300,6 +718,7 @@ export type Database = {
           id?: string
           sport_id: string
           start_date: string
+          weight?: number
         }
         Update: {
           created_at?: string
@@ -309,6 +728,7 @@ export type Database = {
           id?: string
           sport_id?: string
           start_date?: string
+          weight?: number
         }
         Relationships: [
           {
@@ -426,49 +846,168 @@ export type Database = {
           },
         ]
       }
+      job_locks: {
+        Row: {
+          acquired_at: string
+          expires_at: string
+          holder: string
+          job_key: string
+          job_run_id: number | null
+        }
+        Insert: {
+          acquired_at?: string
+          expires_at: string
+          holder: string
+          job_key: string
+          job_run_id?: number | null
+        }
+        Update: {
+          acquired_at?: string
+          expires_at?: string
+          holder?: string
+          job_key?: string
+          job_run_id?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_locks_job_run_id_fkey"
+            columns: ["job_run_id"]
+            isOneToOne: false
+            referencedRelation: "job_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       job_runs: {
         Row: {
           details: Json | null
+          error: string | null
+          failure_class: string | null
           finished_at: string | null
           id: number
+          job_key: string | null
           job_name: string
+          metrics: Json | null
           started_at: string
           status: string
+          steps: Json
         }
         Insert: {
           details?: Json | null
+          error?: string | null
+          failure_class?: string | null
           finished_at?: string | null
           id?: number
+          job_key?: string | null
           job_name: string
+          metrics?: Json | null
           started_at?: string
           status?: string
+          steps?: Json
         }
         Update: {
           details?: Json | null
+          error?: string | null
+          failure_class?: string | null
           finished_at?: string | null
           id?: number
+          job_key?: string | null
           job_name?: string
+          metrics?: Json | null
           started_at?: string
           status?: string
+          steps?: Json
         }
         Relationships: []
       }
+      kalshi_market_map: {
+        Row: {
+          close_time: string | null
+          event_date: string | null
+          event_ticker: string
+          first_seen_at: string
+          game_id: string | null
+          last_seen_at: string
+          line: number | null
+          market_status: string | null
+          market_ticker: string
+          match_status: string
+          sport_id: string
+          title: string
+          unmatched_reason: string | null
+          yes_side: string | null
+        }
+        Insert: {
+          close_time?: string | null
+          event_date?: string | null
+          event_ticker: string
+          first_seen_at?: string
+          game_id?: string | null
+          last_seen_at?: string
+          line?: number | null
+          market_status?: string | null
+          market_ticker: string
+          match_status: string
+          sport_id: string
+          title: string
+          unmatched_reason?: string | null
+          yes_side?: string | null
+        }
+        Update: {
+          close_time?: string | null
+          event_date?: string | null
+          event_ticker?: string
+          first_seen_at?: string
+          game_id?: string | null
+          last_seen_at?: string
+          line?: number | null
+          market_status?: string | null
+          market_ticker?: string
+          match_status?: string
+          sport_id?: string
+          title?: string
+          unmatched_reason?: string | null
+          yes_side?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kalshi_market_map_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       kalshi_orders: {
         Row: {
+          amend_count: number
+          cancel_at: string | null
           count: number
           created_at: string | null
           edge_percentile: number | null
           edge_strength: string | null
+          entry_line: number | null
           error: string | null
+          execution_log: Json
+          execution_policy: string | null
+          fees_cents: number | null
           fill_price: number | null
           filled_count: number | null
           game_id: string | null
           id: string
           is_demo: boolean | null
+          kalshi_status: string | null
+          ladder_group: string | null
+          last_amended_at: string | null
+          max_price: number | null
           order_id: string | null
           order_type: string | null
+          orphan_reason: string | null
+          orphaned_at: string | null
           pnl_cents: number | null
           price: number | null
+          reconciled_at: string | null
           result: string | null
           settled_at: string | null
           side: string
@@ -476,22 +1015,36 @@ export type Database = {
           status: string | null
           success: boolean
           ticker: string
+          venue: string | null
         }
         Insert: {
+          amend_count?: number
+          cancel_at?: string | null
           count: number
           created_at?: string | null
           edge_percentile?: number | null
           edge_strength?: string | null
+          entry_line?: number | null
           error?: string | null
+          execution_log?: Json
+          execution_policy?: string | null
+          fees_cents?: number | null
           fill_price?: number | null
           filled_count?: number | null
           game_id?: string | null
           id?: string
           is_demo?: boolean | null
+          kalshi_status?: string | null
+          ladder_group?: string | null
+          last_amended_at?: string | null
+          max_price?: number | null
           order_id?: string | null
           order_type?: string | null
+          orphan_reason?: string | null
+          orphaned_at?: string | null
           pnl_cents?: number | null
           price?: number | null
+          reconciled_at?: string | null
           result?: string | null
           settled_at?: string | null
           side: string
@@ -499,22 +1052,36 @@ export type Database = {
           status?: string | null
           success?: boolean
           ticker: string
+          venue?: string | null
         }
         Update: {
+          amend_count?: number
+          cancel_at?: string | null
           count?: number
           created_at?: string | null
           edge_percentile?: number | null
           edge_strength?: string | null
+          entry_line?: number | null
           error?: string | null
+          execution_log?: Json
+          execution_policy?: string | null
+          fees_cents?: number | null
           fill_price?: number | null
           filled_count?: number | null
           game_id?: string | null
           id?: string
           is_demo?: boolean | null
+          kalshi_status?: string | null
+          ladder_group?: string | null
+          last_amended_at?: string | null
+          max_price?: number | null
           order_id?: string | null
           order_type?: string | null
+          orphan_reason?: string | null
+          orphaned_at?: string | null
           pnl_cents?: number | null
           price?: number | null
+          reconciled_at?: string | null
           result?: string | null
           settled_at?: string | null
           side?: string
@@ -522,6 +1089,7 @@ export type Database = {
           status?: string | null
           success?: boolean
           ticker?: string
+          venue?: string | null
         }
         Relationships: [
           {
@@ -721,6 +1289,7 @@ export type Database = {
       }
       matchup_stats: {
         Row: {
+          distribution: Json | null
           franchise_high_id: string | null
           franchise_low_id: string | null
           id: number
@@ -738,6 +1307,7 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          distribution?: Json | null
           franchise_high_id?: string | null
           franchise_low_id?: string | null
           id?: number
@@ -755,6 +1325,7 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          distribution?: Json | null
           franchise_high_id?: string | null
           franchise_low_id?: string | null
           id?: number
@@ -845,7 +1416,7 @@ export type Database = {
           {
             foreignKeyName: "odds_event_map_game_id_fkey"
             columns: ["game_id"]
-            isOneToOne: true
+            isOneToOne: false
             referencedRelation: "games"
             referencedColumns: ["id"]
           },
@@ -857,6 +1428,7 @@ export type Database = {
           fetched_at: string
           game_id: string
           id: number
+          is_closing: boolean
           market: string
           raw_payload: Json | null
           total_line: number | null
@@ -866,6 +1438,7 @@ export type Database = {
           fetched_at?: string
           game_id: string
           id?: number
+          is_closing?: boolean
           market?: string
           raw_payload?: Json | null
           total_line?: number | null
@@ -875,6 +1448,7 @@ export type Database = {
           fetched_at?: string
           game_id?: string
           id?: number
+          is_closing?: boolean
           market?: string
           raw_payload?: Json | null
           total_line?: number | null
@@ -1078,6 +1652,146 @@ export type Database = {
           },
         ]
       }
+      paper_orders: {
+        Row: {
+          action: string
+          created_time: string
+          expiration_time: string | null
+          fill_count: number
+          maker_fees: number
+          maker_fill_cost: number
+          maker_fill_count: number
+          no_price: number | null
+          order_id: string
+          payout_cents: number
+          quoted_at: string | null
+          remaining_count: number
+          result: string | null
+          settled_at: string | null
+          side: string
+          status: string
+          taker_fees: number
+          taker_fill_cost: number
+          taker_fill_count: number
+          ticker: string
+          type: string
+          updated_at: string
+          yes_price: number | null
+        }
+        Insert: {
+          action?: string
+          created_time?: string
+          expiration_time?: string | null
+          fill_count?: number
+          maker_fees?: number
+          maker_fill_cost?: number
+          maker_fill_count?: number
+          no_price?: number | null
+          order_id: string
+          payout_cents?: number
+          quoted_at?: string | null
+          remaining_count?: number
+          result?: string | null
+          settled_at?: string | null
+          side: string
+          status: string
+          taker_fees?: number
+          taker_fill_cost?: number
+          taker_fill_count?: number
+          ticker: string
+          type: string
+          updated_at?: string
+          yes_price?: number | null
+        }
+        Update: {
+          action?: string
+          created_time?: string
+          expiration_time?: string | null
+          fill_count?: number
+          maker_fees?: number
+          maker_fill_cost?: number
+          maker_fill_count?: number
+          no_price?: number | null
+          order_id?: string
+          payout_cents?: number
+          quoted_at?: string | null
+          remaining_count?: number
+          result?: string | null
+          settled_at?: string | null
+          side?: string
+          status?: string
+          taker_fees?: number
+          taker_fill_cost?: number
+          taker_fill_count?: number
+          ticker?: string
+          type?: string
+          updated_at?: string
+          yes_price?: number | null
+        }
+        Relationships: []
+      }
+      pipeline_stage_runs: {
+        Row: {
+          attempts: number
+          date_local: string
+          duration_ms: number | null
+          error: string | null
+          failure_class: string | null
+          finished_at: string | null
+          id: number
+          job_run_id: number | null
+          next_attempt_at: string | null
+          output: Json | null
+          sport_id: string
+          stage: string
+          started_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          date_local: string
+          duration_ms?: number | null
+          error?: string | null
+          failure_class?: string | null
+          finished_at?: string | null
+          id?: number
+          job_run_id?: number | null
+          next_attempt_at?: string | null
+          output?: Json | null
+          sport_id: string
+          stage: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          date_local?: string
+          duration_ms?: number | null
+          error?: string | null
+          failure_class?: string | null
+          finished_at?: string | null
+          id?: number
+          job_run_id?: number | null
+          next_attempt_at?: string | null
+          output?: Json | null
+          sport_id?: string
+          stage?: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pipeline_stage_runs_job_run_id_fkey"
+            columns: ["job_run_id"]
+            isOneToOne: false
+            referencedRelation: "job_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       player_injuries: {
         Row: {
           created_at: string
@@ -1212,30 +1926,39 @@ export type Database = {
       }
       provider_raw: {
         Row: {
+          date_from: string | null
+          date_to: string | null
           endpoint: string
           fetched_at: string
           id: number
           params_hash: string
+          params_json: Json
           payload_json: Json
           provider: string
           season_year: number | null
           sport_id: string
         }
         Insert: {
+          date_from?: string | null
+          date_to?: string | null
           endpoint: string
           fetched_at?: string
           id?: never
           params_hash: string
+          params_json?: Json
           payload_json: Json
           provider?: string
           season_year?: number | null
           sport_id: string
         }
         Update: {
+          date_from?: string | null
+          date_to?: string | null
           endpoint?: string
           fetched_at?: string
           id?: never
           params_hash?: string
+          params_json?: Json
           payload_json?: Json
           provider?: string
           season_year?: number | null
@@ -1243,6 +1966,66 @@ export type Database = {
         }
         Relationships: []
       }
+      risk_rejections: {
+        Row: {
+          created_at: string
+          dry_run: boolean
+          edge_percentile: number | null
+          game_id: string | null
+          id: string
+          job_run_id: number | null
+          reasons: Json
+          requested_cents: number
+          signal_type: string | null
+          sport_id: string
+          ticker: string | null
+          venue: string | null
+        }
+        Insert: {
+          created_at?: string
+          dry_run?: boolean
+          edge_percentile?: number | null
+          game_id?: string | null
+          id?: string
+          job_run_id?: number | null
+          reasons?: Json
+          requested_cents: number
+          signal_type?: string | null
+          sport_id: string
+          ticker?: string | null
+          venue?: string | null
+        }
+        Update: {
+          created_at?: string
+          dry_run?: boolean
+          edge_percentile?: number | null
+          game_id?: string | null
+          id?: string
+          job_run_id?: number | null
+          reasons?: Json
+          requested_cents?: number
+          signal_type?: string | null
+          sport_id?: string
+          ticker?: string | null
+          venue?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "risk_rejections_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "risk_rejections_job_run_id_fkey"
+            columns: ["job_run_id"]
+            isOneToOne: false
+            referencedRelation: "job_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       roster_snapshots: {
         Row: {
           continuity_score: number | null
@@ -1718,6 +2501,80 @@ export type Database = {
           },
         ]
       }
+      unresolved_entities: {
+        Row: {
+          best_score: number | null
+          candidates: Json
+          context: Json
+          entity_type: string
+          event_date: string | null
+          first_seen_at: string
+          id: number
+          label: string
+          last_seen_at: string
+          occurrences: number
+          provider: string
+          provider_key: string
+          provider_raw_id: number | null
+          replayed_count: number | null
+          resolved_at: string | null
+          resolved_match_id: string | null
+          source: string
+          sport_id: string
+          status: string
+        }
+        Insert: {
+          best_score?: number | null
+          candidates?: Json
+          context?: Json
+          entity_type: string
+          event_date?: string | null
+          first_seen_at?: string
+          id?: number
+          label: string
+          last_seen_at?: string
+          occurrences?: number
+          provider: string
+          provider_key: string
+          provider_raw_id?: number | null
+          replayed_count?: number | null
+          resolved_at?: string | null
+          resolved_match_id?: string | null
+          source: string
+          sport_id: string
+          status?: string
+        }
+        Update: {
+          best_score?: number | null
+          candidates?: Json
+          context?: Json
+          entity_type?: string
+          event_date?: string | null
+          first_seen_at?: string
+          id?: number
+          label?: string
+          last_seen_at?: string
+          occurrences?: number
+          provider?: string
+          provider_key?: string
+          provider_raw_id?: number | null
+          replayed_count?: number | null
+          resolved_at?: string | null
+          resolved_match_id?: string | null
+          source?: string
+          sport_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "unresolved_entities_provider_raw_id_fkey"
+            columns: ["provider_raw_id"]
+            isOneToOne: false
+            referencedRelation: "provider_raw"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       franchise_matchups: {
@@ -1757,6 +2614,30 @@ export type Database = {
           },
         ]
       }
+      league_season_totals: {
+        Row: {
+          avg_total: number | null
+          n_games: number | null
+          season_year: number | null
+          sport_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "games_sport_id_fkey"
+            columns: ["sport_id"]
+            isOneToOne: false
+            referencedRelation: "sports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      paper_settled_totals: {
+        Row: {
+          net_cents: number | null
+          orders: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
       [_ in never]: never
@@ -1,174 +1,11 @@
-// DraftKings-style team name mappings (short city + team name format)
-export const NFL_TEAMS: Record<string, string> = {
-  'ARI': 'ARI Cardinals',
-  'ATL': 'ATL Falcons',
-  'BAL': 'BAL Ravens',
-  'BUF': 'BUF Bills',
-  'CAR': 'CAR Panthers',
-  'CHI': 'CHI Bears',
-  'CIN': 'CIN Bengals',
-  'CLE': 'CLE Browns',
-  'DAL': 'DAL Cowboys',
-  'DEN': 'DEN Broncos',
-  'DET': 'DET Lions',
-  'GB': 'GB Packers',
-  'HOU': 'HOU Texans',
-  'IND': 'IND Colts',
-  'JAX': 'JAX Jaguars',
-  'KC': 'KC Chiefs',
-  'LV': 'LV Raiders',
-  'LAC': 'LA Chargers',
-  'LAR': 'LA Rams',
-  'MIA': 'MIA Dolphins',
-  'MIN': 'MIN Vikings',
-  'NE': 'NE Patriots',
-  'NO': 'NO Saints',
-  'NYG': 'NY Giants',
-  'NYJ': 'NY Jets',
-  'PHI': 'PHI Eagles',
-  'PIT': 'PIT Steelers',
-  'SF': 'SF 49ers',
-  'SEA': 'SEA Seahawks',
-  'TB': 'TB Buccaneers',
-  'TEN': 'TEN Titans',
-  'WAS': 'WAS Commanders',
-};
-
-export const NBA_TEAMS: Record<string, string> = {
-  'ATL': 'ATL Hawks',
-  'BOS': 'BOS Celtics',
-  'BKN': 'BKN Nets',
-  'CHA': 'CHA Hornets',
-  'CHI': 'CHI Bulls',
-  'CLE': 'CLE Cavaliers',
-  'DAL': 'DAL Mavericks',
-  'DEN': 'DEN Nuggets',
-  'DET': 'DET Pistons',
-  'GS': 'GS Warriors',
-  'GSW': 'GS Warriors',
-  'HOU': 'HOU Rockets',
-  'IND': 'IND Pacers',
-  'LAC': 'LA Clippers',
-  'LAL': 'LA Lakers',
-  'MEM': 'MEM Grizzlies',
-  'MIA': 'MIA Heat',
-  'MIL': 'MIL Bucks',
-  'MIN': 'MIN Timberwolves',
-  'NO': 'NO Pelicans',
-  'NOP': 'NO Pelicans',
-  'NY': 'NY Knicks',
-  'NYK': 'NY Knicks',
-  'OKC': 'OKC Thunder',
-  'ORL': 'ORL Magic',
-  'PHI': 'PHI 76ers',
-  'PHO': 'PHX Suns',
-  'PHX': 'PHX Suns',
-  'POR': 'POR Trail Blazers',
-  'SAC': 'SAC Kings',
-  'SA': 'SA Spurs',
-  'SAS': 'SA Spurs',
-  'TOR': 'TOR Raptors',
-  'UTA': 'UTA Jazz',
-  'WAS': 'WAS Wizards',
-};
-
-export const NHL_TEAMS: Record<string, string> = {
-  'ANA': 'ANA Ducks',
-  'ARI': 'ARI Coyotes',
-  'BOS': 'BOS Bruins',
-  'BUF': 'BUF Sabres',
-  'CGY': 'CGY Flames',
-  'CAR': 'CAR Hurricanes',
-  'CHI': 'CHI Blackhawks',
-  'COL': 'COL Avalanche',
-  'CBJ': 'CBJ Blue Jackets',
-  'DAL': 'DAL Stars',
-  'DET': 'DET Red Wings',
-  'EDM': 'EDM Oilers',
-  'FLA': 'FLA Panthers',
-  'LA': 'LA Kings',
-  'LAK': 'LA Kings',
-  'MIN': 'MIN Wild',
-  'MTL': 'MTL Canadiens',
-  'NSH': 'NSH Predators',
-  'NJ': 'NJ Devils',
-  'NJD': 'NJ Devils',
-  'NYI': 'NY Islanders',
-  'NYR': 'NY Rangers',
-  'OTT': 'OTT Senators',
-  'PHI': 'PHI Flyers',
-  'PIT': 'PIT Penguins',
-  'SJ': 'SJ Sharks',
-  'SJS': 'SJ Sharks',
-  'SEA': 'SEA Kraken',
-  'STL': 'STL Blues',
-  'TB': 'TB Lightning',
-  'TBL': 'TB Lightning',
-  'TOR': 'TOR Maple Leafs',
-  'UTA': 'UTA Hockey Club',
-  'VAN': 'VAN Canucks',
-  'VGK': 'VGS Golden Knights',
-  'WSH': 'WAS Capitals',
-  'WPG': 'WPG Jets',
-};
-
-export const MLB_TEAMS: Record<string, string> = {
-  'ARI': 'ARI Diamondbacks',
-  'ATL': 'ATL Braves',
-  'BAL': 'BAL Orioles',
-  'BOS': 'BOS Red Sox',
-  'CHC': 'CHC Cubs',
-  'CWS': 'CHW White Sox',
-  'CIN': 'CIN Reds',
-  'CLE': 'CLE Guardians',
-  'COL': 'COL Rockies',
-  'DET': 'DET Tigers',
-  'HOU': 'HOU Astros',
-  'KC': 'KC Royals',
-  'LA': 'LAA Angels',
-  'LAA': 'LAA Angels',
-  'LAD': 'LAD Dodgers',
-  'MIA': 'MIA Marlins',
-  'MIL': 'MIL Brewers',
-  'MIN': 'MIN Twins',
-  'NYM': 'NYM Mets',
-  'NYY': 'NYY Yankees',
-  'OAK': 'OAK Athletics',
-  'PHI': 'PHI Phillies',
-  'PIT': 'PIT Pirates',
-  'SD': 'SD Padres',
-  'SF': 'SF Giants',
-  'SEA': 'SEA Mariners',
-  'STL': 'STL Cardinals',
-  'TB': 'TB Rays',
-  'TEX': 'TEX Rangers',
-  'TOR': 'TOR Blue Jays',
-  'WSH': 'WAS Nationals',
-};
-
-const SPORT_TEAM_MAPS: Record<string, Record<string, string>> = {
-  nfl: NFL_TEAMS,
-  nba: NBA_TEAMS,
-  nhl: NHL_TEAMS,
-  mlb: MLB_TEAMS,
-};
+import { identifyTeam } from '@shared/teamRegistry';
 
 /**
- * Expands a team abbreviation to DraftKings-style short name based on sport
- * If no match found, returns the original name
+ * Expands any team key (abbreviation, full or short name) to the DraftKings-style
+ * short name from the team registry. If no match found, returns the original name
  */
 export function expandTeamName(abbrev: string, sportId: string): string {
-  const sportMap = SPORT_TEAM_MAPS[sportId];
-  if (!sportMap) return abbrev;
-  
-  // Try uppercase lookup
-  const upper = abbrev.toUpperCase();
-  if (sportMap[upper]) return sportMap[upper];
-  
-  // Try original case
-  if (sportMap[abbrev]) return sportMap[abbrev];
-  
-  return abbrev;
+  return identifyTeam(sportId, abbrev)?.short_name ?? abbrev;
 }
 
 /**
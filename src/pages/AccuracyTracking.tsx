@@ -6,7 +6,9 @@ import { Layout } from "@/components/layout/Layout";
 import { supabase } from "@/integrations/supabase/client";
 import { calculateConfidence } from "@/lib/confidenceScore";
 import { cn } from "@/lib/utils";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ClvPanel } from "@/components/dashboard/ClvPanel";
+import { useClvRecords } from "@/hooks/useClvRecords";
 import { Button } from "@/components/ui/button";
 import {
   Select,
@@ -47,6 +49,8 @@ import {
   Flame,
 } from "lucide-react";
 import type { SportId } from "@/types";
+import { DISTRIBUTION_MODEL_LABELS, type DistributionModel } from "@shared/distributionModels";
+import { SNAPSHOT_CUTOFFS, pointInTimeEdges, resolveSnapshotCutoff } from "@shared/edgeSnapshots";
 
 const SPORTS: { id: SportId | "all"; label: string }[] = [
   { id: "all", label: "All Sports" },
@@ -63,6 +67,24 @@ const TIME_RANGES = [
   { id: "all", label: "All Time", days: 365 },
 ];
 
+// "latest" reads daily_edges as it is now; the rest replay edge_snapshots
+const AS_OF_LATEST = "latest";
+const SNAPSHOT_CHUNK = 200;
+
+const AS_OF_OPTIONS = [
+  { id: AS_OF_LATEST, label: "Latest (recomputed)" },
+  ...SNAPSHOT_CUTOFFS.map((c) => ({ id: c.key, label: c.label })),
+];
+
+// Line and percentile state of an edge as seen at the chosen decision time
+interface KnownEdge {
+  dk_total_line: number | null;
+  dk_line_percentile: number | null;
+  n_used: number | null;
+  segment_used: string | null;
+  model: string | null;
+}
+
 interface PredictionResult {
   game_id: string;
   date_local: string;
@@ -72,6 +94,7 @@ interface PredictionResult {
   final_total: number;
   n_h2h: number;
   segment_used: string | null;
+  model: string;
   predicted_direction: "over" | "under" | "push";
   actual_direction: "over" | "under" | "push";
   is_correct: boolean;
@@ -113,13 +136,19 @@ export default function AccuracyTracking() {
   const [sportFilter, setSportFilter] = useState<SportId | "all">("all");
   const [timeRange, setTimeRange] = useState("30d");
   const [minConfidence, setMinConfidence] = useState<number | "all">("all");
+  const [asOf, setAsOf] = useState(AS_OF_LATEST);
 
   const selectedRange = TIME_RANGES.find((r) => r.id === timeRange) || TIME_RANGES[1];
   const startDate = format(subDays(startOfDay(new Date()), selectedRange.days), "yyyy-MM-dd");
 
+  const { data: clvRecords, isLoading: clvLoading } = useClvRecords(["signal", "parlay_leg"], {
+    startDate,
+    sportId: sportFilter === "all" ? undefined : sportFilter,
+  });
+
   // Fetch historical predictions with results
   const { data: predictions, isLoading } = useQuery({
-    queryKey: ["accuracy-tracking", startDate, sportFilter],
+    queryKey: ["accuracy-tracking", startDate, sportFilter, asOf],
     queryFn: async () => {
       let query = supabase
         .from("daily_edges")
@@ -131,7 +160,8 @@ export default function AccuracyTracking() {
           dk_line_percentile,
           n_h2h,
           segment_used,
-          games!inner(final_total, status, is_playoff, home_team_id, away_team_id)
+          model,
+          games!inner(final_total, status, is_playoff, home_team_id, away_team_id, start_time_utc)
         `)
         .eq("dk_offered", true)
         .not("dk_line_percentile", "is", null)
@@ -166,6 +196,25 @@ export default function AccuracyTracking() {
         teamDivisionMap[ts.team_id] = { division: ts.division, conference: ts.conference };
       }
 
+      // Point-in-time view: swap in what the edge looked like at the cutoff
+      let knownAtCutoff: Map<string, KnownEdge> | null = null;
+      if (asOf !== AS_OF_LATEST) {
+        const snapshots = [];
+        for (let i = 0; i < gameIds.length; i += SNAPSHOT_CHUNK) {
+          const { data: chunk, error: snapshotError } = await supabase
+            .from("edge_snapshots")
+            .select("id, game_id, snapshot_at, dk_total_line, dk_line_percentile, n_used, segment_used, model")
+            .in("game_id", gameIds.slice(i, i + SNAPSHOT_CHUNK));
+          if (snapshotError) throw snapshotError;
+          snapshots.push(...(chunk || []));
+        }
+        const games = (data || []).map((edge) => ({
+          id: edge.game_id,
+          start_time_utc: (edge.games as unknown as { start_time_utc: string }).start_time_utc,
+        }));
+        knownAtCutoff = pointInTimeEdges(snapshots, games, resolveSnapshotCutoff(asOf).minutesBefore);
+      }
+
       // Process results
       const results: PredictionResult[] = [];
 
@@ -179,9 +228,15 @@ export default function AccuracyTracking() {
         };
         if (game.status !== "final" || game.final_total === null) continue;
 
-        const dkLine = edge.dk_total_line!;
+        const known: KnownEdge | undefined = knownAtCutoff
+          ? knownAtCutoff.get(edge.game_id)
+          : { ...edge, n_used: edge.n_h2h };
+        if (!known || known.dk_total_line === null || known.dk_line_percentile === null) continue;
+
+        const dkLine = Number(known.dk_total_line);
         const finalTotal = game.final_total;
-        const percentile = edge.dk_line_percentile!;
+        const percentile = Number(known.dk_line_percentile);
+        const nH2h = known.n_used ?? 0;
 
         // Determine matchup types
         const homeTeamInfo = teamDivisionMap[game.home_team_id];
@@ -191,7 +246,7 @@ export default function AccuracyTracking() {
           homeTeamInfo.division === awayTeamInfo.division);
         
         // Rivalry detection: same division or historic matchups (n_h2h > 50)
-        const isRivalry = isDivision || edge.n_h2h > 50;
+        const isRivalry = isDivision || nH2h > 50;
 
         // Determine predicted direction based on percentile
         let predictedDirection: "over" | "under" | "push";
@@ -221,8 +276,8 @@ export default function AccuracyTracking() {
 
         // Calculate confidence
         const confidence = calculateConfidence({
-          nGames: edge.n_h2h,
-          segment: edge.segment_used,
+          nGames: nH2h,
+          segment: known.segment_used,
         });
 
         results.push({
@@ -232,8 +287,9 @@ export default function AccuracyTracking() {
           dk_total_line: dkLine,
           dk_line_percentile: percentile,
           final_total: finalTotal,
-          n_h2h: edge.n_h2h,
-          segment_used: edge.segment_used,
+          n_h2h: nH2h,
+          segment_used: known.segment_used,
+          model: known.model ?? "empirical",
           predicted_direction: predictedDirection,
           actual_direction: actualDirection,
           is_correct: isCorrect,
@@ -294,6 +350,23 @@ export default function AccuracyTracking() {
       }
     });
 
+    // Group by distribution model (empirical vs smoothed estimators)
+    const byModel: Record<string, { total: number; correct: number; profit: number }> = {};
+    actionable.forEach((p) => {
+      if (!byModel[p.model]) {
+        byModel[p.model] = { total: 0, correct: 0, profit: 0 };
+      }
+      byModel[p.model].total++;
+      if (p.actual_direction === "push") {
+        // Push
+      } else if (p.is_correct) {
+        byModel[p.model].correct++;
+        byModel[p.model].profit += calculateWinProfit(BET_AMOUNT);
+      } else {
+        byModel[p.model].profit -= BET_AMOUNT;
+      }
+    });
+
     // Group by confidence tier
     const byConfidence: Record<string, { total: number; correct: number; profit: number }> = {
       "80+": { total: 0, correct: 0, profit: 0 },
@@ -354,6 +427,7 @@ export default function AccuracyTracking() {
       strongProfit,
       strongRoi: calculateROI(strongProfit, strongPredictions.length * BET_AMOUNT),
       bySport,
+      byModel,
       byConfidence,
     };
   }, [filteredPredictions]);
@@ -503,7 +577,7 @@ export default function AccuracyTracking() {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                 <div className="space-y-1.5">
                   <label className="text-xs text-muted-foreground">Time Range</label>
                   <Select value={timeRange} onValueChange={setTimeRange}>
@@ -558,6 +632,22 @@ export default function AccuracyTracking() {
                     </SelectContent>
                   </Select>
                 </div>
+
+                <div className="space-y-1.5">
+                  <label className="text-xs text-muted-foreground">As Of</label>
+                  <Select value={asOf} onValueChange={setAsOf}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {AS_OF_OPTIONS.map((o) => (
+                        <SelectItem key={o.id} value={o.id}>
+                          {o.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -959,6 +1049,66 @@ export default function AccuracyTracking() {
             </Card>
           )}
 
+          {/* Model Comparison */}
+          {Object.keys(stats.byModel).length > 1 && (
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm">Accuracy & ROI by Distribution Model</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                  {Object.entries(stats.byModel).map(([model, data]) => {
+                    const accuracy = data.total > 0 ? (data.correct / data.total) * 100 : 0;
+                    const modelRoi = calculateROI(data.profit, data.total * BET_AMOUNT);
+                    return (
+                      <div
+                        key={model}
+                        className="p-3 rounded-xl bg-secondary/30 text-center"
+                      >
+                        <div className="text-xs font-semibold text-muted-foreground mb-1">
+                          {DISTRIBUTION_MODEL_LABELS[model as DistributionModel] ?? model}
+                        </div>
+                        <div
+                          className={cn(
+                            "text-xl font-bold",
+                            accuracy >= 55 ? "text-status-live" : ""
+                          )}
+                        >
+                          {accuracy.toFixed(1)}%
+                        </div>
+                        <div className="text-2xs text-muted-foreground">
+                          {data.correct}/{data.total}
+                        </div>
+                        <div className={cn(
+                          "text-xs mt-1",
+                          modelRoi >= 0 ? "text-status-live" : "text-status-over"
+                        )}>
+                          {modelRoi >= 0 ? "+" : ""}{modelRoi.toFixed(1)}% ROI
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Closing Line Value */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm flex items-center gap-2">
+                <TrendingUp className="h-4 w-4 text-primary" />
+                Closing Line Value
+              </CardTitle>
+              <CardDescription className="text-xs">
+                Signals (as of T-1h) and lock parlay legs against the last line before start
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ClvPanel records={clvRecords ?? []} isLoading={clvLoading} bySubject />
+            </CardContent>
+          </Card>
+
           {/* Disclaimer */}
           <p className="text-xs text-muted-foreground text-center pb-6">
             Past performance does not guarantee future results. For entertainment purposes only.
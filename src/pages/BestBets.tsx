@@ -977,6 +977,7 @@ function TopPickCard({ game, rank }: { game: RankedGame; rank: number }) {
         p05={game.p05}
         p95={game.p95}
         dkLine={game.dk_total_line}
+        distribution={game.distribution}
         className="mb-3"
       />
 
@@ -1066,6 +1067,7 @@ function RankedGameRow({ game, rank }: { game: RankedGame; rank: number }) {
           p05={game.p05}
           p95={game.p95}
           dkLine={game.dk_total_line}
+          distribution={game.distribution}
         />
       </div>
 
@@ -10,15 +10,17 @@ import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
-import { useQuery } from '@tanstack/react-query';
-import { 
-  DollarSign, 
-  TrendingUp, 
-  TrendingDown, 
-  Play, 
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { format, subDays } from 'date-fns';
+import {
+  DollarSign,
+  TrendingUp,
+  TrendingDown,
+  Play,
   RotateCcw,
   Target,
-  Percent,
   AlertTriangle,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
@@ -32,6 +34,15 @@ import {
   ResponsiveContainer,
   ReferenceLine,
 } from 'recharts';
+import { DEFAULT_SNAPSHOT_CUTOFF, SNAPSHOT_CUTOFFS } from '@shared/edgeSnapshots';
+import {
+  DEFAULT_ASSUMED_PRICE,
+  STAKING_METHODS,
+  STAKING_METHOD_LABELS,
+  resolveKellyFraction,
+  type StakingMethod,
+} from '@shared/staking';
+import type { BacktestResult, BacktestStrategy, EntryRule, SideRule } from '@shared/backtest';
 
 type SportId = 'nba' | 'nfl' | 'mlb' | 'nhl';
 
@@ -42,214 +53,150 @@ const SPORT_CONFIG: Record<SportId, { label: string }> = {
   nhl: { label: 'NHL' },
 };
 
-interface SimulationResult {
-  gameNumber: number;
-  bankroll: number;
-  profit: number;
-  won: boolean;
-  betAmount: number;
-  margin: number;
-}
-
-type Strategy = 'always-over' | 'always-under' | 'percentile-edge' | 'fade-public';
+type Strategy = 'percentile-edge' | 'extremes' | 'always-over' | 'always-under';
 
-const STRATEGIES: { id: Strategy; label: string; description: string }[] = [
-  { 
-    id: 'always-over', 
-    label: 'Always Over', 
-    description: 'Bet the over on every game' 
+// Entry presets; the backtest function accepts any combination of these fields
+const STRATEGIES: { id: Strategy; label: string; description: string; side: SideRule; entry: Pick<EntryRule, 'over_max_percentile' | 'under_min_percentile'> }[] = [
+  {
+    id: 'percentile-edge',
+    label: 'Percentile Edge',
+    description: 'Bet over when line ≤ P5, under when line ≥ P95',
+    side: 'both',
+    entry: { over_max_percentile: 0, under_min_percentile: 100 },
   },
-  { 
-    id: 'always-under', 
-    label: 'Always Under', 
-    description: 'Bet the under on every game' 
+  {
+    id: 'extremes',
+    label: 'Outer Quintiles',
+    description: 'Bet over in the bottom 20% of the band, under in the top 20%',
+    side: 'both',
+    entry: { over_max_percentile: 20, under_min_percentile: 80 },
   },
-  { 
-    id: 'percentile-edge', 
-    label: 'Percentile Edge', 
-    description: 'Bet over when line < P5, under when line > P95' 
+  {
+    id: 'always-over',
+    label: 'Always Over',
+    description: 'Bet the over on every game',
+    side: 'over',
+    entry: { over_max_percentile: null, under_min_percentile: null },
   },
-  { 
-    id: 'fade-public', 
-    label: 'Contrarian', 
-    description: 'Bet opposite of high-scoring matchups (fade overs on 60%+ games)' 
+  {
+    id: 'always-under',
+    label: 'Always Under',
+    description: 'Bet the under on every game',
+    side: 'under',
+    entry: { over_max_percentile: null, under_min_percentile: null },
   },
 ];
 
+const DATE_RANGES = [
+  { id: '90d', label: 'Last 90 Days', days: 90 },
+  { id: '365d', label: 'Last Year', days: 365 },
+  { id: 'all', label: 'All Time', days: null },
+];
+
+const LEDGER_ROWS_SHOWN = 50;
+
+interface BacktestResponse extends BacktestResult {
+  success: boolean;
+  decision_cutoff: string;
+  games_scanned: number;
+  games_without_snapshot: number;
+  ledger_truncated: boolean;
+  error?: string;
+}
+
+function longestStreak(results: string[], target: string): number {
+  let best = 0;
+  let current = 0;
+  for (const r of results) {
+    if (r === target) {
+      current++;
+      best = Math.max(best, current);
+    } else if (r !== 'push') {
+      current = 0;
+    }
+  }
+  return best;
+}
+
+function formatPrice(price: number): string {
+  return price > 0 ? `+${price}` : String(price);
+}
+
 export default function BetSimulator() {
   const [sport, setSport] = useState<SportId>('nba');
   const [strategy, setStrategy] = useState<Strategy>('percentile-edge');
   const [startingBankroll, setStartingBankroll] = useState(1000);
   const [betSize, setBetSize] = useState(5); // percentage of bankroll
-  const [useKellyCriterion, setUseKellyCriterion] = useState(false);
-  const [isRunning, setIsRunning] = useState(false);
-  const [results, setResults] = useState<SimulationResult[] | null>(null);
-
-  // Fetch historical game data with odds
-  const { data: gameData, isLoading } = useQuery({
-    queryKey: ['simulator-data', sport],
+  const [stakingMethod, setStakingMethod] = useState<StakingMethod>('percent');
+  const [kellyOverride, setKellyOverride] = useState<number | null>(null);
+  const [useCapturedOdds, setUseCapturedOdds] = useState(true);
+  const [minEdge, setMinEdge] = useState('none');
+  const [dateRange, setDateRange] = useState('all');
+  const [cutoffKey, setCutoffKey] = useState(DEFAULT_SNAPSHOT_CUTOFF);
+
+  // Kelly defaults to the fraction auto-bet trades with
+  const { data: liveKellyFraction } = useQuery({
+    queryKey: ['betting-config-kelly'],
     queryFn: async () => {
-      // Get games with final totals
-      const { data: games } = await supabase
-        .from('games')
-        .select('id, final_total, start_time_utc')
-        .eq('sport_id', sport)
-        .eq('status', 'final')
-        .not('final_total', 'is', null)
-        .order('start_time_utc', { ascending: true })
-        .limit(1000);
-
-      // Get odds for these games
-      const gameIds = games?.map(g => g.id) || [];
-      const { data: odds } = await supabase
-        .from('odds_snapshots')
-        .select('game_id, total_line')
-        .in('game_id', gameIds)
-        .not('total_line', 'is', null);
-
-      // Get daily edges for percentile data
-      const { data: edges } = await supabase
-        .from('daily_edges')
-        .select('game_id, p05, p95, dk_total_line')
-        .in('game_id', gameIds);
-
-      const oddsMap = new Map<string, number>();
-      odds?.forEach(o => {
-        if (!oddsMap.has(o.game_id)) oddsMap.set(o.game_id, Number(o.total_line));
-      });
-
-      const edgesMap = new Map<string, { p05: number; p95: number; line: number }>();
-      edges?.forEach(e => {
-        if (e.p05 && e.p95 && e.dk_total_line) {
-          edgesMap.set(e.game_id, {
-            p05: Number(e.p05),
-            p95: Number(e.p95),
-            line: Number(e.dk_total_line),
-          });
-        }
-      });
-
-      return games?.filter(g => oddsMap.has(g.id)).map(g => ({
-        id: g.id,
-        final_total: Number(g.final_total),
-        line: oddsMap.get(g.id)!,
-        edge: edgesMap.get(g.id),
-        date: g.start_time_utc,
-      })) || [];
+      const { data } = await supabase
+        .from('betting_config')
+        .select('kelly_fraction')
+        .eq('name', 'default')
+        .maybeSingle();
+      return resolveKellyFraction(data?.kelly_fraction);
+    },
+  });
+  const kellyFraction = kellyOverride ?? liveKellyFraction ?? resolveKellyFraction(null);
+
+  const backtest = useMutation({
+    mutationFn: async (): Promise<BacktestResponse> => {
+      const preset = STRATEGIES.find(s => s.id === strategy)!;
+      const range = DATE_RANGES.find(r => r.id === dateRange)!;
+      const body: { sport_id: SportId; start_date?: string; decision_cutoff: string; strategy: BacktestStrategy } = {
+        sport_id: sport,
+        decision_cutoff: cutoffKey,
+        strategy: {
+          side: preset.side,
+          entry: {
+            ...preset.entry,
+            min_edge: minEdge === 'none' ? null : Number(minEdge) / 100,
+            min_confidence: null,
+          },
+          staking: {
+            method: stakingMethod,
+            // Flat stakes are sized off the starting bankroll; Kelly uses the slider as a cap
+            flat_amount: startingBankroll * (betSize / 100),
+            percent: betSize,
+            kelly_fraction: kellyFraction,
+            max_stake_pct: stakingMethod === 'kelly' ? betSize : undefined,
+          },
+          odds_source: useCapturedOdds ? 'captured' : 'assumed',
+          assumed_price: DEFAULT_ASSUMED_PRICE,
+          starting_bankroll: startingBankroll,
+        },
+      };
+      if (range.days) body.start_date = format(subDays(new Date(), range.days), 'yyyy-MM-dd');
+
+      const { data, error } = await supabase.functions.invoke('backtest', { body });
+      if (error) throw new Error(error.message);
+      if (!data?.success) throw new Error(data?.error || 'Backtest failed');
+      return data;
     },
   });
 
-  const runSimulation = () => {
-    if (!gameData?.length) return;
-
-    setIsRunning(true);
-    const results: SimulationResult[] = [];
-    let bankroll = startingBankroll;
-
-    gameData.forEach((game, i) => {
-      let shouldBet = false;
-      let betOver = true;
-
-      // Determine bet based on strategy
-      switch (strategy) {
-        case 'always-over':
-          shouldBet = true;
-          betOver = true;
-          break;
-        case 'always-under':
-          shouldBet = true;
-          betOver = false;
-          break;
-        case 'percentile-edge':
-          if (game.edge) {
-            if (game.line < game.edge.p05) {
-              shouldBet = true;
-              betOver = true;
-            } else if (game.line > game.edge.p95) {
-              shouldBet = true;
-              betOver = false;
-            }
-          }
-          break;
-        case 'fade-public':
-          // Fade high-total games (assume public loves overs)
-          const avgTotal = sport === 'nba' ? 220 : sport === 'nfl' ? 45 : sport === 'mlb' ? 8 : 5.5;
-          if (game.line > avgTotal * 1.05) {
-            shouldBet = true;
-            betOver = false;
-          }
-          break;
-      }
-
-      if (shouldBet && bankroll > 0) {
-        const betAmount = useKellyCriterion 
-          ? Math.min(bankroll * 0.1, bankroll * (betSize / 100))
-          : bankroll * (betSize / 100);
-
-        const margin = game.final_total - game.line;
-        const hitOver = margin > 0;
-        const won = betOver ? hitOver : !hitOver;
-
-        // Standard -110 odds (win $91 on $100 bet)
-        const profit = won ? betAmount * 0.91 : -betAmount;
-        bankroll += profit;
-
-        results.push({
-          gameNumber: results.length + 1,
-          bankroll: Math.round(bankroll * 100) / 100,
-          profit: Math.round(profit * 100) / 100,
-          won,
-          betAmount: Math.round(betAmount * 100) / 100,
-          margin: Math.round(margin * 10) / 10,
-        });
-      }
-    });
-
-    setResults(results);
-    setIsRunning(false);
-  };
-
-  const stats = useMemo(() => {
-    if (!results?.length) return null;
-
-    const wins = results.filter(r => r.won).length;
-    const totalBets = results.length;
-    const finalBankroll = results[results.length - 1].bankroll;
-    const totalProfit = finalBankroll - startingBankroll;
-    const roi = (totalProfit / startingBankroll) * 100;
-    const maxDrawdown = results.reduce((max, r, i) => {
-      const peak = Math.max(...results.slice(0, i + 1).map(x => x.bankroll));
-      const drawdown = ((peak - r.bankroll) / peak) * 100;
-      return Math.max(max, drawdown);
-    }, 0);
-
-    const longestWinStreak = results.reduce((max, r, i) => {
-      if (!r.won) return max;
-      let streak = 1;
-      for (let j = i + 1; j < results.length && results[j].won; j++) streak++;
-      return Math.max(max, streak);
-    }, 0);
-
-    const longestLossStreak = results.reduce((max, r, i) => {
-      if (r.won) return max;
-      let streak = 1;
-      for (let j = i + 1; j < results.length && !results[j].won; j++) streak++;
-      return Math.max(max, streak);
-    }, 0);
+  const result = backtest.data;
+  const reset = () => backtest.reset();
 
+  const streaks = useMemo(() => {
+    if (!result?.ledger.length) return null;
+    const outcomes = result.ledger.map(l => l.result);
     return {
-      wins,
-      losses: totalBets - wins,
-      winRate: (wins / totalBets) * 100,
-      totalBets,
-      finalBankroll,
-      totalProfit,
-      roi,
-      maxDrawdown,
-      longestWinStreak,
-      longestLossStreak,
+      longestWinStreak: longestStreak(outcomes, 'win'),
+      longestLossStreak: longestStreak(outcomes, 'loss'),
     };
-  }, [results, startingBankroll]);
+  }, [result]);
+
+  const summary = result?.summary;
 
   return (
     <Layout>
@@ -283,7 +230,7 @@ export default function BetSimulator() {
               {/* Sport Selection */}
               <div>
                 <Label className="text-sm font-medium mb-2 block">Sport</Label>
-                <Tabs value={sport} onValueChange={(v) => { setSport(v as SportId); setResults(null); }}>
+                <Tabs value={sport} onValueChange={(v) => { setSport(v as SportId); reset(); }}>
                   <TabsList className="grid w-full grid-cols-4">
                     {(['nba', 'nfl', 'mlb', 'nhl'] as SportId[]).map((s) => (
                       <TabsTrigger key={s} value={s}>
@@ -294,6 +241,40 @@ export default function BetSimulator() {
                 </Tabs>
               </div>
 
+              {/* Date Range */}
+              <div>
+                <Label className="text-sm font-medium mb-2 block">Date Range</Label>
+                <Select value={dateRange} onValueChange={(v) => { setDateRange(v); reset(); }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_RANGES.map((r) => (
+                      <SelectItem key={r.id} value={r.id}>
+                        {r.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Decision Time */}
+              <div>
+                <Label className="text-sm font-medium mb-2 block">Decision Time</Label>
+                <Tabs value={cutoffKey} onValueChange={(v) => { setCutoffKey(v); reset(); }}>
+                  <TabsList className="grid w-full grid-cols-4">
+                    {SNAPSHOT_CUTOFFS.map((c) => (
+                      <TabsTrigger key={c.key} value={c.key}>
+                        {c.label}
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+                </Tabs>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Bets only use the line, odds and percentiles recorded before this point.
+                </p>
+              </div>
+
               {/* Strategy Selection */}
               <div>
                 <Label className="text-sm font-medium mb-2 block">Strategy</Label>
@@ -301,7 +282,7 @@ export default function BetSimulator() {
                   {STRATEGIES.map((s) => (
                     <button
                       key={s.id}
-                      onClick={() => { setStrategy(s.id); setResults(null); }}
+                      onClick={() => { setStrategy(s.id); reset(); }}
                       className={cn(
                         "w-full p-3 rounded-lg border text-left transition-colors",
                         strategy === s.id
@@ -316,6 +297,22 @@ export default function BetSimulator() {
                 </div>
               </div>
 
+              {/* Minimum Edge */}
+              <div>
+                <Label className="text-sm font-medium mb-2 block">Minimum Model Edge</Label>
+                <Select value={minEdge} onValueChange={(v) => { setMinEdge(v); reset(); }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    <SelectItem value="2">+2% over break-even</SelectItem>
+                    <SelectItem value="5">+5% over break-even</SelectItem>
+                    <SelectItem value="10">+10% over break-even</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
               {/* Bankroll */}
               <div>
                 <Label className="text-sm font-medium mb-2 block">
@@ -323,58 +320,89 @@ export default function BetSimulator() {
                 </Label>
                 <Slider
                   value={[startingBankroll]}
-                  onValueChange={([v]) => { setStartingBankroll(v); setResults(null); }}
+                  onValueChange={([v]) => { setStartingBankroll(v); reset(); }}
                   min={100}
                   max={10000}
                   step={100}
                 />
               </div>
 
+              {/* Staking */}
+              <div>
+                <Label className="text-sm font-medium mb-2 block">Staking</Label>
+                <Tabs value={stakingMethod} onValueChange={(v) => { setStakingMethod(v as StakingMethod); reset(); }}>
+                  <TabsList className="grid w-full grid-cols-3">
+                    {STAKING_METHODS.map((m) => (
+                      <TabsTrigger key={m} value={m} className="text-xs">
+                        {STAKING_METHOD_LABELS[m]}
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+                </Tabs>
+              </div>
+
               {/* Bet Size */}
               <div>
                 <Label className="text-sm font-medium mb-2 block">
-                  Bet Size: {betSize}% of bankroll
+                  {stakingMethod === 'flat' && `Bet Size: $${Math.round(startingBankroll * (betSize / 100))} per bet`}
+                  {stakingMethod === 'percent' && `Bet Size: ${betSize}% of bankroll`}
+                  {stakingMethod === 'kelly' && `Max Bet: ${betSize}% of bankroll`}
                 </Label>
                 <Slider
                   value={[betSize]}
-                  onValueChange={([v]) => { setBetSize(v); setResults(null); }}
+                  onValueChange={([v]) => { setBetSize(v); reset(); }}
                   min={1}
                   max={25}
                   step={1}
                 />
               </div>
 
-              {/* Kelly Criterion */}
+              {stakingMethod === 'kelly' && (
+                <div>
+                  <Label className="text-sm font-medium mb-2 block">
+                    Kelly Fraction: {kellyFraction.toFixed(2)}×
+                    {kellyOverride === null && liveKellyFraction !== undefined && (
+                      <span className="text-xs text-muted-foreground font-normal"> (live setting)</span>
+                    )}
+                  </Label>
+                  <Slider
+                    value={[kellyFraction]}
+                    onValueChange={([v]) => { setKellyOverride(v); reset(); }}
+                    min={0.05}
+                    max={1}
+                    step={0.05}
+                  />
+                </div>
+              )}
+
+              {/* Odds Source */}
               <div className="flex items-center justify-between">
-                <Label className="text-sm font-medium">Use Kelly Criterion</Label>
+                <div>
+                  <Label className="text-sm font-medium">Use Captured Prices</Label>
+                  <p className="text-xs text-muted-foreground">Off = assume {DEFAULT_ASSUMED_PRICE} on every bet</p>
+                </div>
                 <Switch
-                  checked={useKellyCriterion}
-                  onCheckedChange={(v) => { setUseKellyCriterion(v); setResults(null); }}
+                  checked={useCapturedOdds}
+                  onCheckedChange={(v) => { setUseCapturedOdds(v); reset(); }}
                 />
               </div>
 
               {/* Run Button */}
               <div className="flex gap-2">
-                <Button 
-                  onClick={runSimulation} 
-                  disabled={isLoading || isRunning}
+                <Button
+                  onClick={() => backtest.mutate()}
+                  disabled={backtest.isPending}
                   className="flex-1"
                 >
                   <Play className="h-4 w-4 mr-2" />
                   Run Simulation
                 </Button>
-                {results && (
-                  <Button variant="outline" onClick={() => setResults(null)}>
+                {result && (
+                  <Button variant="outline" onClick={reset}>
                     <RotateCcw className="h-4 w-4" />
                   </Button>
                 )}
               </div>
-
-              {isLoading && (
-                <p className="text-sm text-muted-foreground text-center">
-                  Loading historical games...
-                </p>
-              )}
             </CardContent>
           </Card>
 
@@ -382,18 +410,38 @@ export default function BetSimulator() {
           <Card className="lg:col-span-2">
             <CardHeader>
               <CardTitle>Simulation Results</CardTitle>
-              {stats && (
+              {result && summary && (
                 <CardDescription>
-                  {stats.totalBets} bets placed over historical data
+                  {summary.bets} bets over {summary.games_considered} games with a snapshot
+                  {result.games_without_snapshot > 0 && ` (${result.games_without_snapshot} skipped: nothing recorded by the cutoff)`}
                 </CardDescription>
               )}
             </CardHeader>
             <CardContent>
-              {!results ? (
+              {backtest.isPending ? (
+                <div className="space-y-4">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {[...Array(4)].map((_, i) => (
+                      <Skeleton key={i} className="h-20" />
+                    ))}
+                  </div>
+                  <Skeleton className="h-64" />
+                </div>
+              ) : backtest.isError ? (
+                <div className="py-16 text-center text-muted-foreground">
+                  <AlertTriangle className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                  <p>{backtest.error.message}</p>
+                </div>
+              ) : !result || !summary ? (
                 <div className="py-16 text-center text-muted-foreground">
                   <Target className="h-12 w-12 mx-auto mb-4 opacity-50" />
                   <p>Configure your strategy and click "Run Simulation"</p>
                 </div>
+              ) : summary.bets === 0 ? (
+                <div className="py-16 text-center text-muted-foreground">
+                  <Target className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                  <p>No bets matched this strategy</p>
+                </div>
               ) : (
                 <div className="space-y-6">
                   {/* Stats Grid */}
@@ -402,27 +450,30 @@ export default function BetSimulator() {
                       <div className="text-sm text-muted-foreground">Final Bankroll</div>
                       <div className={cn(
                         "text-2xl font-bold",
-                        stats!.totalProfit >= 0 ? "text-status-over" : "text-status-under"
+                        summary.profit >= 0 ? "text-status-over" : "text-status-under"
                       )}>
-                        ${stats!.finalBankroll.toLocaleString()}
+                        ${summary.final_bankroll.toLocaleString()}
                       </div>
                     </div>
                     <div className="p-4 rounded-lg bg-muted/30">
                       <div className="text-sm text-muted-foreground">ROI</div>
                       <div className={cn(
                         "text-2xl font-bold",
-                        stats!.roi >= 0 ? "text-status-over" : "text-status-under"
+                        (summary.roi ?? 0) >= 0 ? "text-status-over" : "text-status-under"
                       )}>
-                        {stats!.roi >= 0 ? '+' : ''}{stats!.roi.toFixed(1)}%
+                        {(summary.roi ?? 0) >= 0 ? '+' : ''}{(summary.roi ?? 0).toFixed(1)}%
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        on ${summary.total_staked.toLocaleString()} staked
                       </div>
                     </div>
                     <div className="p-4 rounded-lg bg-muted/30">
                       <div className="text-sm text-muted-foreground">Win Rate</div>
                       <div className="text-2xl font-bold">
-                        {stats!.winRate.toFixed(1)}%
+                        {summary.win_rate === null ? '—' : `${summary.win_rate.toFixed(1)}%`}
                       </div>
                       <div className="text-xs text-muted-foreground">
-                        {stats!.wins}W - {stats!.losses}L
+                        {summary.wins}W - {summary.losses}L{summary.pushes > 0 && ` - ${summary.pushes}P`}
                       </div>
                     </div>
                     <div className="p-4 rounded-lg bg-muted/30">
@@ -431,7 +482,7 @@ export default function BetSimulator() {
                         Max Drawdown
                       </div>
                       <div className="text-2xl font-bold text-status-under">
-                        -{stats!.maxDrawdown.toFixed(1)}%
+                        -{summary.max_drawdown.toFixed(1)}%
                       </div>
                     </div>
                   </div>
@@ -439,14 +490,14 @@ export default function BetSimulator() {
                   {/* Bankroll Chart */}
                   <div className="h-64">
                     <ResponsiveContainer width="100%" height="100%">
-                      <LineChart data={results}>
+                      <LineChart data={result.equity_curve}>
                         <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
-                        <XAxis 
-                          dataKey="gameNumber" 
+                        <XAxis
+                          dataKey="bet"
                           className="text-xs"
                           label={{ value: 'Bets', position: 'insideBottom', offset: -5 }}
                         />
-                        <YAxis 
+                        <YAxis
                           className="text-xs"
                           domain={['auto', 'auto']}
                         />
@@ -458,16 +509,16 @@ export default function BetSimulator() {
                           }}
                           formatter={(value: number) => [`$${value}`, 'Bankroll']}
                         />
-                        <ReferenceLine 
-                          y={startingBankroll} 
-                          stroke="hsl(var(--muted-foreground))" 
+                        <ReferenceLine
+                          y={summary.starting_bankroll}
+                          stroke="hsl(var(--muted-foreground))"
                           strokeDasharray="5 5"
                           label={{ value: 'Start', position: 'right' }}
                         />
                         <Line
                           type="monotone"
                           dataKey="bankroll"
-                          stroke={stats!.totalProfit >= 0 ? 'hsl(var(--status-over))' : 'hsl(var(--status-under))'}
+                          stroke={summary.profit >= 0 ? 'hsl(var(--status-over))' : 'hsl(var(--status-under))'}
                           strokeWidth={2}
                           dot={false}
                         />
@@ -479,16 +530,65 @@ export default function BetSimulator() {
                   <div className="flex flex-wrap gap-4 text-sm">
                     <Badge variant="outline" className="gap-1">
                       <TrendingUp className="h-3 w-3 text-status-over" />
-                      Best Streak: {stats!.longestWinStreak}W
+                      Best Streak: {streaks?.longestWinStreak ?? 0}W
                     </Badge>
                     <Badge variant="outline" className="gap-1">
                       <TrendingDown className="h-3 w-3 text-status-under" />
-                      Worst Streak: {stats!.longestLossStreak}L
+                      Worst Streak: {streaks?.longestLossStreak ?? 0}L
+                    </Badge>
+                    <Badge variant="outline">
+                      Sharpe (daily): {summary.sharpe === null ? '—' : summary.sharpe.toFixed(2)}
                     </Badge>
                     <Badge variant="outline">
-                      Total Bets: {stats!.totalBets}
+                      Avg CLV: {summary.avg_clv === null ? '—' : `${summary.avg_clv >= 0 ? '+' : ''}${summary.avg_clv.toFixed(2)} pts`}
+                      {summary.clv_beat_rate !== null && ` (${summary.clv_beat_rate.toFixed(0)}% beat close)`}
                     </Badge>
                   </div>
+
+                  {/* Ledger */}
+                  <div>
+                    <div className="text-sm font-medium mb-2">
+                      Last {Math.min(LEDGER_ROWS_SHOWN, result.ledger.length)} Bets
+                    </div>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Bet</TableHead>
+                          <TableHead className="text-right">Price</TableHead>
+                          <TableHead className="text-right">Stake</TableHead>
+                          <TableHead className="text-right">Final</TableHead>
+                          <TableHead className="text-right">P/L</TableHead>
+                          <TableHead className="text-right">CLV</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {result.ledger.slice(-LEDGER_ROWS_SHOWN).reverse().map((bet) => (
+                          <TableRow key={bet.game_id}>
+                            <TableCell className="text-xs">{bet.date}</TableCell>
+                            <TableCell className="text-xs font-medium">
+                              {bet.side === 'over' ? 'O' : 'U'} {bet.line}
+                            </TableCell>
+                            <TableCell className={cn("text-right text-xs tabular-nums", bet.price_assumed && "text-muted-foreground")}>
+                              {formatPrice(bet.price)}
+                            </TableCell>
+                            <TableCell className="text-right text-xs tabular-nums">${bet.stake.toFixed(2)}</TableCell>
+                            <TableCell className="text-right text-xs tabular-nums">{bet.final_total}</TableCell>
+                            <TableCell className={cn(
+                              "text-right text-xs tabular-nums font-medium",
+                              bet.result === 'win' && "text-status-over",
+                              bet.result === 'loss' && "text-status-under"
+                            )}>
+                              {bet.result === 'push' ? 'Push' : `${bet.profit >= 0 ? '+' : ''}$${bet.profit.toFixed(2)}`}
+                            </TableCell>
+                            <TableCell className="text-right text-xs tabular-nums text-muted-foreground">
+                              {bet.clv === null ? '—' : `${bet.clv >= 0 ? '+' : ''}${bet.clv}`}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
                 </div>
               )}
             </CardContent>
@@ -501,8 +601,8 @@ export default function BetSimulator() {
             <div className="flex items-start gap-3">
               <AlertTriangle className="h-5 w-5 text-amber-500 flex-shrink-0 mt-0.5" />
               <div className="text-sm">
-                <strong>Disclaimer:</strong> This simulator uses historical data and does not account for 
-                juice/vig variability, line movement, or market efficiency. Past performance does not 
+                <strong>Disclaimer:</strong> This simulator replays only what was recorded before each game,
+                but cannot account for bet limits, fill quality or market impact. Past performance does not
                 guarantee future results. Gambling involves risk. Please bet responsibly.
               </div>
             </div>
@@ -0,0 +1,503 @@
+import { useState } from "react";
+import { Helmet } from "react-helmet-async";
+import { Layout } from "@/components/layout/Layout";
+import { useCalibration } from "@/hooks/useApi";
+import { getSegmentLabel } from "@/components/game/SegmentBadge";
+import { cn } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ComposedChart,
+  Scatter,
+  ErrorBar,
+  XAxis,
+  YAxis,
+  ZAxis,
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+} from "recharts";
+import { Scale, Filter, Target, Activity, Percent } from "lucide-react";
+import { DISTRIBUTION_MODELS, DISTRIBUTION_MODEL_LABELS } from "@shared/distributionModels";
+import type { CalibrationSummary } from "@shared/calibration";
+import type { SportId } from "@/types";
+
+const SPORTS: { id: SportId | "all"; label: string }[] = [
+  { id: "all", label: "All Sports" },
+  { id: "nfl", label: "NFL" },
+  { id: "nba", label: "NBA" },
+  { id: "mlb", label: "MLB" },
+  { id: "nhl", label: "NHL" },
+];
+
+const TIME_RANGES = [
+  { id: "30d", label: "Last 30 Days", days: 30 },
+  { id: "90d", label: "Last 90 Days", days: 90 },
+  { id: "365d", label: "Last Year", days: 365 },
+  { id: "all", label: "All Time", days: null },
+];
+
+// Scores of a model that always says 50%
+const COIN_FLIP_BRIER = 0.25;
+const COIN_FLIP_LOG_LOSS = Math.LN2;
+
+type Dimension = "by_sport" | "by_segment" | "by_sample_band";
+
+const DIMENSIONS: { id: Dimension; label: string }[] = [
+  { id: "by_sport", label: "Sport" },
+  { id: "by_segment", label: "Segment" },
+  { id: "by_sample_band", label: "Sample Size" },
+];
+
+function formatPct(value: number | null | undefined, digits = 1): string {
+  return value === null || value === undefined ? "—" : `${(value * 100).toFixed(digits)}%`;
+}
+
+function formatScore(value: number | null | undefined): string {
+  return value === null || value === undefined ? "—" : value.toFixed(4);
+}
+
+function groupLabel(dimension: Dimension, key: string): string {
+  if (dimension === "by_sport") return key.toUpperCase();
+  if (dimension === "by_segment") return getSegmentLabel(key) || key;
+  return key;
+}
+
+export default function Calibration() {
+  const [sportFilter, setSportFilter] = useState<SportId | "all">("all");
+  const [timeRange, setTimeRange] = useState("all");
+  const [modelFilter, setModelFilter] = useState("all");
+  const [dimension, setDimension] = useState<Dimension>("by_sport");
+  const [selectedGroup, setSelectedGroup] = useState<string | null>(null);
+
+  const selectedRange = TIME_RANGES.find((r) => r.id === timeRange) || TIME_RANGES[3];
+  const { data, isLoading, error } = useCalibration({
+    sportId: sportFilter === "all" ? null : sportFilter,
+    days: selectedRange.days,
+    model: modelFilter === "all" ? null : modelFilter,
+  });
+
+  const groups = data ? data[dimension] : {};
+  const activeSummary: CalibrationSummary | undefined =
+    selectedGroup && groups[selectedGroup] ? groups[selectedGroup] : data?.overall;
+  const activeLabel = selectedGroup && groups[selectedGroup] ? groupLabel(dimension, selectedGroup) : "All settled edges";
+
+  return (
+    <>
+      <Helmet>
+        <title>Model Calibration | Game Percentiles</title>
+        <meta
+          name="description"
+          content="Check whether percentile lines are exceeded as often as the model predicts, with reliability diagrams and Brier / log-loss scores."
+        />
+      </Helmet>
+
+      <Layout>
+        <div className="max-w-5xl mx-auto space-y-6 animate-fade-in px-4 py-6">
+          {/* Header */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-xl bg-primary/10">
+                <Scale className="h-6 w-6 text-primary" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold">Model Calibration</h1>
+                <p className="text-muted-foreground text-sm">
+                  Are P95 lines actually exceeded 5% of the time?
+                </p>
+              </div>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm flex items-center gap-2">
+                <Filter className="h-4 w-4" />
+                Filters
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-1.5">
+                  <label className="text-xs text-muted-foreground">Time Range</label>
+                  <Select value={timeRange} onValueChange={setTimeRange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TIME_RANGES.map((r) => (
+                        <SelectItem key={r.id} value={r.id}>
+                          {r.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-1.5">
+                  <label className="text-xs text-muted-foreground">Sport</label>
+                  <Select
+                    value={sportFilter}
+                    onValueChange={(v) => {
+                      setSportFilter(v as SportId | "all");
+                      setSelectedGroup(null);
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SPORTS.map((s) => (
+                        <SelectItem key={s.id} value={s.id}>
+                          {s.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-1.5">
+                  <label className="text-xs text-muted-foreground">Distribution Model</label>
+                  <Select value={modelFilter} onValueChange={setModelFilter}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Models</SelectItem>
+                      {DISTRIBUTION_MODELS.map((m) => (
+                        <SelectItem key={m} value={m}>
+                          {DISTRIBUTION_MODEL_LABELS[m]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {isLoading ? (
+            <div className="grid gap-4 md:grid-cols-4">
+              {[...Array(4)].map((_, i) => (
+                <Skeleton key={i} className="h-28" />
+              ))}
+              <Skeleton className="h-80 md:col-span-4" />
+            </div>
+          ) : error ? (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                Failed to load calibration report: {(error as Error).message}
+              </CardContent>
+            </Card>
+          ) : !data || data.overall.n === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                No settled edges with a DK line for these filters yet.
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              {/* Summary Stats */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <StatCard
+                  icon={Target}
+                  label="Settled Edges"
+                  value={data.overall.n.toLocaleString()}
+                  subValue={`${data.overall.pushes} pushes excluded`}
+                />
+                <StatCard
+                  icon={Activity}
+                  label="Brier Score"
+                  value={formatScore(data.overall.brier)}
+                  subValue={`Coin flip = ${COIN_FLIP_BRIER.toFixed(2)}`}
+                  good={(data.overall.brier ?? 1) < COIN_FLIP_BRIER}
+                />
+                <StatCard
+                  icon={Activity}
+                  label="Log-Loss"
+                  value={formatScore(data.overall.log_loss)}
+                  subValue={`Coin flip = ${COIN_FLIP_LOG_LOSS.toFixed(3)}`}
+                  good={(data.overall.log_loss ?? 1) < COIN_FLIP_LOG_LOSS}
+                />
+                <StatCard
+                  icon={Percent}
+                  label="Over Rate"
+                  value={formatPct(data.overall.realized_over_rate)}
+                  subValue={`Predicted ${formatPct(data.overall.mean_predicted)}`}
+                />
+              </div>
+
+              {/* Reliability Diagram */}
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm">Reliability Diagram</CardTitle>
+                  <CardDescription className="text-xs">
+                    {activeLabel} · one point per dk_line_percentile bucket, sized by games, with 95% intervals.
+                    Points on the diagonal are perfectly calibrated.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ReliabilityDiagram summary={activeSummary} />
+                </CardContent>
+              </Card>
+
+              {/* Bucket Table */}
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm">Predicted vs Realized by Bucket</CardTitle>
+                  <CardDescription className="text-xs">{activeLabel}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <BucketTable summary={activeSummary} />
+                </CardContent>
+              </Card>
+
+              {/* Breakdown */}
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm">Breakdown</CardTitle>
+                  <CardDescription className="text-xs">
+                    Click a row to plot it above
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Tabs
+                    value={dimension}
+                    onValueChange={(v) => {
+                      setDimension(v as Dimension);
+                      setSelectedGroup(null);
+                    }}
+                  >
+                    <TabsList>
+                      {DIMENSIONS.map((d) => (
+                        <TabsTrigger key={d.id} value={d.id}>
+                          {d.label}
+                        </TabsTrigger>
+                      ))}
+                    </TabsList>
+                    {DIMENSIONS.map((d) => (
+                      <TabsContent key={d.id} value={d.id}>
+                        <GroupTable
+                          dimension={d.id}
+                          groups={data[d.id]}
+                          selected={selectedGroup}
+                          onSelect={(key) => setSelectedGroup(key === selectedGroup ? null : key)}
+                        />
+                      </TabsContent>
+                    ))}
+                  </Tabs>
+                </CardContent>
+              </Card>
+            </>
+          )}
+
+          <p className="text-xs text-muted-foreground text-center pb-6">
+            Predicted over-rate comes from each edge's stored distribution, or from its dk_line_percentile for older rows.
+          </p>
+        </div>
+      </Layout>
+    </>
+  );
+}
+
+function ReliabilityDiagram({ summary }: { summary: CalibrationSummary | undefined }) {
+  const points = (summary?.buckets || []).map((b) => ({
+    key: b.key,
+    predicted: b.predicted * 100,
+    realized: b.realized * 100,
+    error: [(b.realized - b.realized_lo) * 100, (b.realized_hi - b.realized) * 100],
+    n: b.n,
+  }));
+
+  if (points.length === 0) {
+    return (
+      <div className="h-72 flex items-center justify-center text-muted-foreground text-sm">
+        No data for this selection
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-72 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart margin={{ top: 10, right: 10, left: -10, bottom: 10 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+          <XAxis
+            type="number"
+            dataKey="predicted"
+            domain={[0, 100]}
+            tickLine={false}
+            tick={{ fontSize: 10, fill: "hsl(var(--muted-foreground))" }}
+            label={{ value: "Predicted over %", position: "insideBottom", offset: -5, fontSize: 10 }}
+          />
+          <YAxis
+            type="number"
+            dataKey="realized"
+            domain={[0, 100]}
+            tickLine={false}
+            tick={{ fontSize: 10, fill: "hsl(var(--muted-foreground))" }}
+          />
+          <ZAxis type="number" dataKey="n" range={[30, 300]} />
+          <ReferenceLine
+            segment={[{ x: 0, y: 0 }, { x: 100, y: 100 }]}
+            stroke="hsl(var(--muted-foreground))"
+            strokeDasharray="4 4"
+          />
+          <Tooltip
+            cursor={{ strokeDasharray: "3 3" }}
+            content={({ active, payload }) => {
+              if (!active || !payload?.length) return null;
+              const p = payload[0].payload as (typeof points)[number];
+              return (
+                <div className="rounded-lg border bg-background px-3 py-2 text-xs shadow-md">
+                  <div className="font-semibold mb-1">Percentile {p.key}</div>
+                  <div>Predicted: {p.predicted.toFixed(1)}%</div>
+                  <div>Realized: {p.realized.toFixed(1)}%</div>
+                  <div className="text-muted-foreground">{p.n} games</div>
+                </div>
+              );
+            }}
+          />
+          <Scatter data={points} fill="hsl(var(--primary))">
+            <ErrorBar dataKey="error" direction="y" width={4} stroke="hsl(var(--primary))" />
+          </Scatter>
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+function BucketTable({ summary }: { summary: CalibrationSummary | undefined }) {
+  const buckets = summary?.buckets || [];
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>DK Percentile</TableHead>
+          <TableHead className="text-right">Games</TableHead>
+          <TableHead className="text-right">Predicted Over</TableHead>
+          <TableHead className="text-right">Realized Over</TableHead>
+          <TableHead className="text-right">95% Interval</TableHead>
+          <TableHead className="text-right">Gap</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {buckets.map((b) => {
+          const gap = b.realized - b.predicted;
+          // Flag buckets whose interval misses the prediction entirely
+          const miscalibrated = b.predicted < b.realized_lo || b.predicted > b.realized_hi;
+          return (
+            <TableRow key={b.key}>
+              <TableCell className="font-mono text-xs">{b.key}</TableCell>
+              <TableCell className="text-right tabular-nums">{b.n}</TableCell>
+              <TableCell className="text-right tabular-nums">{formatPct(b.predicted)}</TableCell>
+              <TableCell className="text-right tabular-nums">{formatPct(b.realized)}</TableCell>
+              <TableCell className="text-right tabular-nums text-muted-foreground">
+                {formatPct(b.realized_lo, 0)}–{formatPct(b.realized_hi, 0)}
+              </TableCell>
+              <TableCell
+                className={cn(
+                  "text-right tabular-nums font-medium",
+                  miscalibrated ? "text-status-over" : "text-muted-foreground"
+                )}
+              >
+                {gap >= 0 ? "+" : ""}{(gap * 100).toFixed(1)}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
+
+function GroupTable({
+  dimension,
+  groups,
+  selected,
+  onSelect,
+}: {
+  dimension: Dimension;
+  groups: Record<string, CalibrationSummary>;
+  selected: string | null;
+  onSelect: (key: string) => void;
+}) {
+  const rows = Object.entries(groups).sort((a, b) => b[1].n - a[1].n);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Group</TableHead>
+          <TableHead className="text-right">Games</TableHead>
+          <TableHead className="text-right">Brier</TableHead>
+          <TableHead className="text-right">Log-Loss</TableHead>
+          <TableHead className="text-right">Predicted Over</TableHead>
+          <TableHead className="text-right">Realized Over</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(([key, summary]) => (
+          <TableRow
+            key={key}
+            onClick={() => onSelect(key)}
+            className={cn("cursor-pointer", selected === key && "bg-primary/5")}
+          >
+            <TableCell className="font-medium">{groupLabel(dimension, key)}</TableCell>
+            <TableCell className="text-right tabular-nums">{summary.n}</TableCell>
+            <TableCell
+              className={cn(
+                "text-right tabular-nums",
+                summary.brier !== null && summary.brier < COIN_FLIP_BRIER && "text-status-live"
+              )}
+            >
+              {formatScore(summary.brier)}
+            </TableCell>
+            <TableCell className="text-right tabular-nums">{formatScore(summary.log_loss)}</TableCell>
+            <TableCell className="text-right tabular-nums">{formatPct(summary.mean_predicted)}</TableCell>
+            <TableCell className="text-right tabular-nums">{formatPct(summary.realized_over_rate)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function StatCard({
+  icon: Icon,
+  label,
+  value,
+  subValue,
+  good = false,
+}: {
+  icon: typeof Target;
+  label: string;
+  value: string | number;
+  subValue?: string;
+  good?: boolean;
+}) {
+  return (
+    <Card className={cn(good && "border-status-live/30 bg-status-live/5")}>
+      <CardContent className="pt-4">
+        <div className="flex items-center gap-2 mb-2">
+          <Icon className={cn("h-4 w-4", good ? "text-status-live" : "text-muted-foreground")} />
+          <span className="text-xs text-muted-foreground">{label}</span>
+        </div>
+        <div className={cn("text-2xl font-bold", good && "text-status-live")}>{value}</div>
+        {subValue && <div className="text-xs text-muted-foreground mt-1">{subValue}</div>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -14,7 +14,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
-import { Building2, GitBranch, MapPin, Calendar, Edit2, Plus, Search, RefreshCw, Link2, Unlink } from "lucide-react";
+import { Building2, GitBranch, MapPin, Calendar, Edit2, Plus, Search, RefreshCw, Link2, Unlink, AlertTriangle, Check, X } from "lucide-react";
 import type { SportId } from "@/types";
 
 const sportOptions: { value: SportId; label: string }[] = [
@@ -53,6 +53,26 @@ interface Team {
   provider_team_key: string;
 }
 
+interface MatchCandidate {
+  id: string;
+  label: string;
+  score: number;
+}
+
+interface UnresolvedEntity {
+  id: number;
+  entity_type: "team" | "event";
+  source: string;
+  provider: string;
+  provider_key: string;
+  label: string;
+  event_date: string | null;
+  candidates: MatchCandidate[];
+  best_score: number | null;
+  occurrences: number;
+  last_seen_at: string;
+}
+
 interface VersionMapping {
   id: string;
   sport_id: string;
@@ -518,6 +538,8 @@ export default function FranchiseManagement() {
                 </Card>
               </div>
 
+              <ReviewQueue sportId={activeSport} />
+
               {/* Provider Team Mappings */}
               <Card className="mt-6">
                 <CardHeader className="pb-3">
@@ -624,6 +646,135 @@ export default function FranchiseManagement() {
   );
 }
 
+// Provider teams and events the ingestors couldn't match, with their candidates
+function ReviewQueue({ sportId }: { sportId: SportId }) {
+  const queryClient = useQueryClient();
+
+  const { data: entities, isLoading } = useQuery({
+    queryKey: ["unresolved_entities", sportId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("unresolved_entities")
+        .select("id, entity_type, source, provider, provider_key, label, event_date, candidates, best_score, occurrences, last_seen_at")
+        .eq("sport_id", sportId)
+        .eq("status", "open")
+        .order("last_seen_at", { ascending: false })
+        .limit(100);
+      if (error) throw error;
+      return data as unknown as UnresolvedEntity[];
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async (body: { id: number; action: "confirm" | "ignore"; match_id?: string }) => {
+      const { data, error } = await supabase.functions.invoke("resolve-entity", { body });
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || "Resolve failed");
+      return data as { status: string; replayed?: number };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["unresolved_entities"] });
+      queryClient.invalidateQueries({ queryKey: ["team_version_map"] });
+      toast.success(data.status === "ignored" ? "Ignored" : `Match confirmed, ${data.replayed ?? 0} records replayed`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to resolve: ${error.message}`);
+    },
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4" />
+              Review Queue
+            </CardTitle>
+            <CardDescription>
+              Provider teams and events ingestion couldn't match. Confirming saves the alias and replays the records.
+            </CardDescription>
+          </div>
+          <Badge variant={entities?.length ? "secondary" : "outline"} className="text-xs">
+            {entities?.length || 0} open
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : !entities?.length ? (
+          <div className="text-center py-6 text-muted-foreground text-sm">
+            Nothing waiting for review
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {entities.map((entity) => (
+              <div key={entity.id} className="p-3 rounded-lg border border-border/60 bg-secondary/20">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="font-medium text-sm truncate">{entity.label}</div>
+                    <div className="text-xs text-muted-foreground flex flex-wrap items-center gap-1.5 mt-0.5">
+                      <Badge variant="outline" className="text-2xs">{entity.entity_type}</Badge>
+                      <span>{entity.provider}</span>
+                      <span>•</span>
+                      <span className="font-mono">{entity.provider_key}</span>
+                      {entity.event_date && (
+                        <>
+                          <span>•</span>
+                          <span>{entity.event_date}</span>
+                        </>
+                      )}
+                      <span>•</span>
+                      <span>seen {entity.occurrences}× via {entity.source}</span>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs shrink-0"
+                    disabled={resolveMutation.isPending}
+                    onClick={() => resolveMutation.mutate({ id: entity.id, action: "ignore" })}
+                  >
+                    <X className="h-3 w-3 mr-1" />
+                    Ignore
+                  </Button>
+                </div>
+                {entity.candidates.length === 0 ? (
+                  <div className="mt-2 text-xs text-muted-foreground">No candidates found</div>
+                ) : (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {entity.candidates.map((candidate) => (
+                      <Button
+                        key={candidate.id}
+                        variant="outline"
+                        size="sm"
+                        className="h-7 text-xs"
+                        disabled={resolveMutation.isPending}
+                        onClick={() => resolveMutation.mutate({ id: entity.id, action: "confirm", match_id: candidate.id })}
+                      >
+                        <Check className="h-3 w-3 mr-1" />
+                        {candidate.label}
+                        <span className="ml-1.5 text-muted-foreground tabular-nums">
+                          {Math.round(candidate.score * 100)}%
+                        </span>
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 // Add Franchise Form
 function AddFranchiseForm({
   sportId,
@@ -3,7 +3,7 @@ import { useParams, Link } from "react-router-dom";
 import { Helmet } from "react-helmet-async";
 import { format } from "date-fns";
 import { useQuery } from "@tanstack/react-query";
-import { ArrowLeft, Calendar, Clock, History, BarChart3, Star, Shield } from "lucide-react";
+import { ArrowLeft, Calendar, Clock, History, BarChart3, Star, Shield, LineChart } from "lucide-react";
 import { GamesPerYearChart } from "@/components/game/GamesPerYearChart";
 import { Layout } from "@/components/layout/Layout";
 import { useGameDetail } from "@/hooks/useApi";
@@ -26,10 +26,12 @@ import { InjuryCard } from "@/components/game/InjuryCard";
 import { ParlayFAB } from "@/components/game/ParlayFAB";
 import { Button } from "@/components/ui/button";
 import { HistoricalDistributionChart } from "@/components/game/HistoricalDistributionChart";
+import { LineMovementChart } from "@/components/game/LineMovementChart";
 import { useFavoriteMatchups } from "@/hooks/useFavoriteMatchups";
 import { cn } from "@/lib/utils";
 import { getTeamDisplayName, formatDateTimeET } from "@/lib/teamNames";
 import type { SportId } from "@/types";
+import { ERA_ADJUSTMENT_LABELS } from "@shared/eraAdjustment";
 
 const sportColors: Record<SportId, { bg: string; text: string }> = {
   nfl: { bg: "bg-sport-nfl/10", text: "text-sport-nfl" },
@@ -139,7 +141,7 @@ export default function GameDetail() {
     );
   }
 
-  const { game, edge, stats, history } = data;
+  const { game, edge, stats, history, line_movement: lineMovement, era_adjustment: eraAdjustment } = data;
   const nH2H = stats?.n_games || edge?.n_h2h || 0;
   const hasEnoughData = nH2H >= 5;
 
@@ -380,6 +382,7 @@ export default function GameDetail() {
                 p05UnderLine={edge?.p05_under_line ?? null}
                 p05={edge?.p05 ?? null}
                 p95={edge?.p95 ?? null}
+                distribution={edge?.distribution ?? null}
                 isFinal={isFinal}
                 className="text-base px-6 py-3"
               />
@@ -577,6 +580,20 @@ export default function GameDetail() {
             />
           )}
 
+          {/* Line Movement */}
+          {lineMovement && lineMovement.points.length > 0 && (
+            <div className="bg-card rounded-2xl border border-border/60 p-5">
+              <div className="flex items-center gap-2 mb-4">
+                <LineChart className="h-4 w-4 text-muted-foreground" />
+                <h2 className="text-sm font-semibold">Line Movement</h2>
+                <span className="text-xs text-muted-foreground ml-auto">
+                  {lineMovement.points.length} snapshots
+                </span>
+              </div>
+              <LineMovementChart movement={lineMovement} startTimeUtc={game.start_time_utc} />
+            </div>
+          )}
+
           {/* Distribution Chart */}
           {history.length >= 3 && (
             <div className="bg-card rounded-2xl border border-border/60 p-5">
@@ -593,6 +610,16 @@ export default function GameDetail() {
                 p95={stats?.p95 ?? null}
                 median={stats?.median ?? null}
                 dkLine={edge?.dk_total_line ?? null}
+                distribution={stats?.distribution ?? null}
+                adjustedTotals={
+                  eraAdjustment ? history.map((g) => g.adjusted_total ?? g.total) : null
+                }
+                adjustmentLabel={
+                  eraAdjustment
+                    ? `${ERA_ADJUSTMENT_LABELS[eraAdjustment.method]} (${eraAdjustment.season_year})`
+                    : null
+                }
+                defaultAdjusted={!!edge?.era_adjustment && edge.era_adjustment !== "none"}
               />
             </div>
           )}
@@ -11,7 +11,10 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
+import { ClvPanel } from "@/components/dashboard/ClvPanel";
+import { useClvRecords } from "@/hooks/useClvRecords";
 import { toast } from "sonner";
 import { format } from "date-fns";
 import { 
@@ -28,9 +31,35 @@ import {
   Clock,
   Zap,
   Target,
-  AlertTriangle
+  AlertTriangle,
+  Link2
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import {
+  DEFAULT_DISTRIBUTION_MODEL,
+  DISTRIBUTION_MODELS,
+  DISTRIBUTION_MODEL_LABELS,
+  resolveDistributionModel,
+} from "@shared/distributionModels";
+import {
+  DEFAULT_ERA_ADJUSTMENT,
+  ERA_ADJUSTMENTS,
+  ERA_ADJUSTMENT_LABELS,
+  resolveEraAdjustment,
+} from "@shared/eraAdjustment";
+import { KALSHI_VENUES, KALSHI_VENUE_LABELS } from "@shared/kalshiClient";
+import { RISK_REASON_LABELS, type RiskReason, type RiskRejection } from "@shared/portfolioRisk";
+import {
+  DEFAULT_EXECUTION_POLICY,
+  EDGE_STRENGTHS,
+  EXECUTION_POLICIES,
+  EXECUTION_POLICY_LABELS,
+  resolveExecutionPolicy,
+  type ExecutionLogEntry,
+} from "@shared/executionStrategy";
+
+// betting_config.venue unset: KALSHI_USE_DEMO picks live or demo
+const VENUE_FROM_ENV = "env";
 
 // Types
 interface KalshiOrder {
@@ -54,6 +83,16 @@ interface KalshiOrder {
   result: string | null;
   pnl_cents: number | null;
   settled_at: string | null;
+  kalshi_status: string | null;
+  fees_cents: number | null;
+  orphan_reason: string | null;
+  orphaned_at: string | null;
+  venue: string | null;
+  execution_policy: string | null;
+  max_price: number | null;
+  cancel_at: string | null;
+  amend_count: number;
+  execution_log: ExecutionLogEntry[];
 }
 
 interface BettingConfig {
@@ -64,20 +103,39 @@ interface BettingConfig {
   moderate_edge_threshold: number | null;
   weak_edge_threshold: number | null;
   max_position_size_cents: number | null;
-  strong_position_pct: number | null;
-  moderate_position_pct: number | null;
-  weak_position_pct: number | null;
+  kelly_fraction: number | null;
   max_daily_loss_cents: number | null;
   max_open_positions: number | null;
   min_edge_confidence: number | null;
   max_limit_price: number | null;
   min_limit_price: number | null;
   enabled_sports: string[] | null;
+  distribution_models: Record<string, string> | null;
+  era_adjustments: Record<string, string> | null;
+  venue: string | null;
+  paper_balance_cents: number;
+  sport_exposure_limits: Record<string, number>;
+  max_date_exposure_cents: number | null;
+  max_team_exposure_cents: number | null;
+  max_correlated_exposure_cents: number | null;
+  max_drawdown_cents: number | null;
+  execution_policies: Record<string, string>;
+  ladder_rungs: number | null;
+  ladder_step_cents: number | null;
+  reprice_step_cents: number | null;
+  reprice_interval_minutes: number | null;
+  cancel_before_start_minutes: number | null;
 }
 
+// betting_config fields edited as plain numbers
+type NumericConfigKey = {
+  [K in keyof BettingConfig]: BettingConfig[K] extends number | null ? K : never;
+}[keyof BettingConfig];
+
 interface DailyPnl {
   id: string;
   date_local: string;
+  venue: string;
   orders_placed: number | null;
   orders_filled: number | null;
   orders_won: number | null;
@@ -89,6 +147,34 @@ interface DailyPnl {
   avg_edge_percentile: number | null;
 }
 
+interface RiskRejectionRow {
+  id: string;
+  created_at: string;
+  sport_id: string;
+  venue: string | null;
+  ticker: string | null;
+  signal_type: string | null;
+  edge_percentile: number | null;
+  requested_cents: number;
+  reasons: RiskRejection[];
+  dry_run: boolean;
+}
+
+interface KalshiMarketMapping {
+  market_ticker: string;
+  event_ticker: string;
+  sport_id: string;
+  game_id: string | null;
+  event_date: string | null;
+  line: number | null;
+  yes_side: string | null;
+  title: string;
+  market_status: string | null;
+  match_status: string;
+  unmatched_reason: string | null;
+  last_seen_at: string;
+}
+
 // Hooks
 function useKalshiOrders() {
   return useQuery({
@@ -100,7 +186,7 @@ function useKalshiOrders() {
         .order('created_at', { ascending: false })
         .limit(100);
       if (error) throw error;
-      return data as KalshiOrder[];
+      return data as unknown as KalshiOrder[];
     },
     refetchInterval: 30000,
   });
@@ -121,13 +207,16 @@ function useBettingConfig() {
   });
 }
 
-function useDailyPnl() {
+// daily_pnl rows for one venue; with betting_config.venue unset the live rows
+function useDailyPnl(venue: string | null | undefined, enabled: boolean) {
   return useQuery({
-    queryKey: ['daily-pnl'],
+    queryKey: ['daily-pnl', venue ?? 'live'],
+    enabled,
     queryFn: async () => {
       const { data, error } = await supabase
         .from('daily_pnl')
         .select('*')
+        .eq('venue', venue ?? 'live')
         .order('date_local', { ascending: false })
         .limit(30);
       if (error) throw error;
@@ -136,6 +225,41 @@ function useDailyPnl() {
   });
 }
 
+// Markets seen by discovery in the last two days
+function useKalshiMarketMap() {
+  return useQuery({
+    queryKey: ['kalshi-market-map'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('kalshi_market_map')
+        .select('market_ticker, event_ticker, sport_id, game_id, event_date, line, yes_side, title, market_status, match_status, unmatched_reason, last_seen_at')
+        .gte('last_seen_at', new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString())
+        .order('last_seen_at', { ascending: false })
+        .limit(1000);
+      if (error) throw error;
+      return data as KalshiMarketMapping[];
+    },
+    refetchInterval: 60000,
+  });
+}
+
+// Signals auto-bet turned down for portfolio limits
+function useRiskRejections() {
+  return useQuery({
+    queryKey: ['risk-rejections'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('risk_rejections')
+        .select('id, created_at, sport_id, venue, ticker, signal_type, edge_percentile, requested_cents, reasons, dry_run')
+        .order('created_at', { ascending: false })
+        .limit(100);
+      if (error) throw error;
+      return data as unknown as RiskRejectionRow[];
+    },
+    refetchInterval: 60000,
+  });
+}
+
 // Components
 function StatCard({ 
   title, 
@@ -205,6 +329,11 @@ function ResultBadge({ result, pnl }: { result: string | null; pnl: number | nul
   if (!result || result === 'pending') {
     return <span className="text-muted-foreground text-sm">-</span>;
   }
+
+  // Voided market: contracts and fees refunded
+  if (result === 'push') {
+    return <Badge variant="secondary" className="text-xs">PUSH</Badge>;
+  }
   
   const isWin = result === 'win';
   const pnlDollars = pnl !== null ? (pnl / 100).toFixed(2) : '0.00';
@@ -227,6 +356,12 @@ function ResultBadge({ result, pnl }: { result: string | null; pnl: number | nul
   );
 }
 
+const ORPHAN_REASON_LABELS: Record<string, string> = {
+  missing_order_id: "Placed without an exchange order id",
+  missing_at_exchange: "Order id not found on Kalshi",
+  not_in_db: "Kalshi order placed outside auto-bet",
+};
+
 function OrdersTable({ orders, isLoading }: { orders: KalshiOrder[]; isLoading: boolean }) {
   if (isLoading) {
     return (
@@ -271,6 +406,9 @@ function OrdersTable({ orders, isLoading }: { orders: KalshiOrder[]; isLoading:
               </TableCell>
               <TableCell className="font-mono text-sm">
                 {order.ticker.length > 20 ? order.ticker.slice(0, 20) + '...' : order.ticker}
+                {order.venue && order.venue !== 'live' && (
+                  <Badge variant="outline" className="text-xs ml-2 uppercase">{order.venue}</Badge>
+                )}
               </TableCell>
               <TableCell>
                 {order.signal_type && (
@@ -302,9 +440,42 @@ function OrdersTable({ orders, isLoading }: { orders: KalshiOrder[]; isLoading:
                     (filled @ {order.fill_price}¢)
                   </span>
                 )}
+                {!!order.fees_cents && (
+                  <span className="text-muted-foreground text-xs ml-1">
+                    +{order.fees_cents}¢ fees
+                  </span>
+                )}
+                {order.execution_policy && order.execution_policy !== 'single' && (
+                  <Badge
+                    variant="outline"
+                    className="text-xs ml-2"
+                    title={order.execution_log?.map((e) => `${format(new Date(e.at), 'HH:mm')} ${e.action}${e.to_price ? ` → ${e.to_price}¢` : ''}${e.error ? ' (failed)' : ''}`).join('\n') || undefined}
+                  >
+                    {order.execution_policy === 'reprice'
+                      ? `↑${order.max_price ?? '-'}¢ · ${order.amend_count} amends`
+                      : 'ladder'}
+                  </Badge>
+                )}
               </TableCell>
               <TableCell>
-                <OrderStatusBadge status={order.status} success={order.success} />
+                <div className="flex items-center gap-1">
+                  <OrderStatusBadge status={order.status} success={order.success} />
+                  {order.execution_log?.some((e) => e.action === 'cancel' && !e.error) && (
+                    <Badge variant="outline" className="text-xs" title={order.cancel_at ? `Canceled unfilled at ${format(new Date(order.cancel_at), 'MMM d, HH:mm')}` : undefined}>
+                      pre-start cancel
+                    </Badge>
+                  )}
+                  {order.orphan_reason && (
+                    <Badge
+                      variant="outline"
+                      className="text-xs gap-1 border-amber-500 text-amber-500"
+                      title={ORPHAN_REASON_LABELS[order.orphan_reason] ?? order.orphan_reason}
+                    >
+                      <AlertTriangle className="h-3 w-3" />
+                      orphan
+                    </Badge>
+                  )}
+                </div>
               </TableCell>
               <TableCell>
                 <ResultBadge result={order.result} pnl={order.pnl_cents} />
@@ -317,6 +488,156 @@ function OrdersTable({ orders, isLoading }: { orders: KalshiOrder[]; isLoading:
   );
 }
 
+const UNMATCHED_REASON_LABELS: Record<string, string> = {
+  unparsed_teams: "Teams not recognized in ticker",
+  no_game: "No game on that date",
+  unparsed_strike: "Strike not recognized",
+};
+
+function MarketMatchingPanel({ markets, isLoading }: { markets: KalshiMarketMapping[]; isLoading: boolean }) {
+  if (isLoading) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  if (markets.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <Link2 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+        <p>No Kalshi totals markets discovered yet</p>
+        <p className="text-sm">Discover markets to map them to games</p>
+      </div>
+    );
+  }
+
+  const sports = Array.from(new Set(markets.map((m) => m.sport_id))).sort();
+  const unmatched = markets.filter((m) => m.match_status === 'unmatched');
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-3 grid-cols-2 sm:grid-cols-4">
+        {sports.map((sport) => {
+          const forSport = markets.filter((m) => m.sport_id === sport);
+          const matched = forSport.filter((m) => m.match_status === 'matched');
+          return (
+            <div key={sport} className="rounded-lg border p-3">
+              <p className="text-sm text-muted-foreground">{sport.toUpperCase()}</p>
+              <p className="text-xl font-bold">{matched.length}/{forSport.length}</p>
+              <p className="text-xs text-muted-foreground">
+                strikes matched · {new Set(matched.map((m) => m.game_id)).size} games
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      {unmatched.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">Every discovered market is matched</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <p className="text-sm font-medium mb-2">Unmatched markets ({unmatched.length})</p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sport</TableHead>
+                <TableHead>Market</TableHead>
+                <TableHead>Title</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Last Seen</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {unmatched.map((market) => (
+                <TableRow key={market.market_ticker}>
+                  <TableCell className="text-sm">{market.sport_id.toUpperCase()}</TableCell>
+                  <TableCell className="font-mono text-sm">{market.market_ticker}</TableCell>
+                  <TableCell className="text-sm">{market.title}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="text-xs">
+                      {UNMATCHED_REASON_LABELS[market.unmatched_reason || ''] || market.unmatched_reason || 'Unknown'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">{format(new Date(market.last_seen_at), 'MMM d, HH:mm')}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <p className="text-xs text-muted-foreground mt-2">
+            Events with unrecognized teams or no game are also queued for review in Franchise Management
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+function RiskRejectionsPanel({ rejections, isLoading }: { rejections: RiskRejectionRow[]; isLoading: boolean }) {
+  if (isLoading) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  if (rejections.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <CheckCircle2 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+        <p>No signals rejected by portfolio limits</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Time</TableHead>
+            <TableHead>Market</TableHead>
+            <TableHead>Signal</TableHead>
+            <TableHead className="text-right">Requested</TableHead>
+            <TableHead>Reasons</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rejections.map((rejection) => (
+            <TableRow key={rejection.id}>
+              <TableCell className="text-sm">{format(new Date(rejection.created_at), 'MMM d, HH:mm')}</TableCell>
+              <TableCell>
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-sm">{rejection.ticker || rejection.sport_id.toUpperCase()}</span>
+                  {rejection.dry_run && <Badge variant="outline" className="text-xs">Dry run</Badge>}
+                </div>
+              </TableCell>
+              <TableCell className="text-sm">
+                {rejection.signal_type || '—'}
+                {rejection.edge_percentile !== null && (
+                  <span className="text-muted-foreground"> · P{Number(rejection.edge_percentile).toFixed(0)}</span>
+                )}
+              </TableCell>
+              <TableCell className="text-right font-mono text-sm">{formatCents(rejection.requested_cents)}</TableCell>
+              <TableCell>
+                <div className="flex flex-wrap gap-1">
+                  {rejection.reasons.map((reason) => (
+                    <Badge
+                      key={`${reason.reason}:${reason.scope}`}
+                      variant="outline"
+                      className="text-xs border-amber-500/50 text-amber-600"
+                      title={`${formatCents(reason.exposure_cents)} of ${formatCents(reason.limit_cents)}`}
+                    >
+                      {RISK_REASON_LABELS[reason.reason as RiskReason] || reason.reason}
+                      {reason.scope !== 'portfolio' && ` · ${reason.scope}`}
+                    </Badge>
+                  ))}
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
 function PnlChart({ data }: { data: DailyPnl[] }) {
   if (data.length === 0) {
     return (
@@ -443,7 +764,7 @@ function ConfigPanel({ config, isLoading }: { config: BettingConfig | undefined;
     reverseTransform = (v: number) => v
   }: { 
     label: string; 
-    configKey: keyof BettingConfig; 
+    configKey: NumericConfigKey; 
     suffix?: string;
     min?: number;
     max?: number;
@@ -461,7 +782,7 @@ function ConfigPanel({ config, isLoading }: { config: BettingConfig | undefined;
           <Input
             type="number"
             value={displayValue}
-            onChange={(e) => handleChange(configKey, reverseTransform(parseFloat(e.target.value) || 0) as any)}
+            onChange={(e) => handleChange(configKey, reverseTransform(parseFloat(e.target.value) || 0))}
             min={min}
             max={max}
             step={step}
@@ -517,6 +838,50 @@ function ConfigPanel({ config, isLoading }: { config: BettingConfig | undefined;
         />
       </div>
       
+      {/* Venue */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm font-medium">Venue</CardTitle>
+          <CardDescription className="text-xs">
+            Where auto-bet places orders. Paper trades a simulated book priced from our odds snapshots and settles on final scores.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <Label className="text-sm">Orders go to</Label>
+            <Select
+              value={getValue('venue') || VENUE_FROM_ENV}
+              onValueChange={(value) => handleChange('venue', value === VENUE_FROM_ENV ? null : value)}
+            >
+              <SelectTrigger className="w-44 h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={VENUE_FROM_ENV}>From KALSHI_USE_DEMO</SelectItem>
+                {KALSHI_VENUES.map((venue) => (
+                  <SelectItem key={venue} value={venue}>
+                    {KALSHI_VENUE_LABELS[venue]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {getValue('venue') === 'paper' && (
+            <div className="flex items-center justify-between gap-4">
+              <Label className="text-sm">Paper starting balance ($)</Label>
+              <Input
+                type="number"
+                value={(getValue('paper_balance_cents') || 0) / 100}
+                onChange={(e) => handleChange('paper_balance_cents', Math.round(parseFloat(e.target.value || '0') * 100))}
+                min={1}
+                step={100}
+                className="w-24 h-8 text-sm font-mono text-right"
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Thresholds */}
       <div className="grid gap-4 sm:grid-cols-2">
         <Card>
@@ -555,33 +920,22 @@ function ConfigPanel({ config, isLoading }: { config: BettingConfig | undefined;
         <Card>
           <CardHeader className="pb-3">
             <CardTitle className="text-sm font-medium">Position Sizing</CardTitle>
-            <CardDescription className="text-xs">% of max position per strength</CardDescription>
+            <CardDescription className="text-xs">Fraction of full Kelly on the model hit probability and limit price</CardDescription>
           </CardHeader>
           <CardContent className="space-y-3">
             <EditableNumber 
-              label="Strong" 
-              configKey="strong_position_pct" 
+              label="Kelly Fraction" 
+              configKey="kelly_fraction" 
               suffix="%" 
-              min={10} 
-              max={100} 
-              step={5}
-            />
-            <EditableNumber 
-              label="Moderate" 
-              configKey="moderate_position_pct" 
-              suffix="%" 
-              min={10} 
-              max={100} 
-              step={5}
-            />
-            <EditableNumber 
-              label="Weak" 
-              configKey="weak_position_pct" 
-              suffix="%" 
-              min={10} 
+              min={5} 
               max={100} 
               step={5}
+              transform={(v) => Math.round(v * 100)}
+              reverseTransform={(v) => v / 100}
             />
+            <p className="text-xs text-muted-foreground">
+              Stakes are sized against the Kalshi balance and capped at Max Position below.
+            </p>
           </CardContent>
         </Card>
       </div>
@@ -645,6 +999,113 @@ function ConfigPanel({ config, isLoading }: { config: BettingConfig | undefined;
         </CardContent>
       </Card>
       
+      {/* Portfolio Limits */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm font-medium">Portfolio Limits</CardTitle>
+          <CardDescription className="text-xs">
+            Caps on open Kalshi and Omen exposure; orders are cut to fit and rejected under one contract. Leave blank for no limit.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            {(config.enabled_sports || []).map((sport) => {
+              const limits = getValue('sport_exposure_limits') || {};
+              return (
+                <div key={sport} className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">{sport.toUpperCase()} Exposure ($)</Label>
+                  <Input
+                    type="number"
+                    value={limits[sport] !== undefined ? limits[sport] / 100 : ''}
+                    onChange={(e) => {
+                      const { [sport]: _previous, ...rest } = limits;
+                      handleChange('sport_exposure_limits', e.target.value === ''
+                        ? rest
+                        : { ...rest, [sport]: Math.round(parseFloat(e.target.value) * 100) });
+                    }}
+                    min={0}
+                    step={10}
+                    className="h-8 text-sm font-mono"
+                  />
+                </div>
+              );
+            })}
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            {([
+              ['max_date_exposure_cents', 'Per Slate Date ($)'],
+              ['max_team_exposure_cents', 'Per Team ($)'],
+              ['max_correlated_exposure_cents', 'Same Direction, Same Night ($)'],
+              ['max_drawdown_cents', 'Max Drawdown ($)'],
+            ] as const).map(([key, label]) => {
+              const cents = getValue(key);
+              return (
+                <div key={key} className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">{label}</Label>
+                  <Input
+                    type="number"
+                    value={cents === null ? '' : cents / 100}
+                    onChange={(e) => handleChange(key, e.target.value === '' ? null : Math.round(parseFloat(e.target.value) * 100))}
+                    min={0}
+                    step={10}
+                    className="h-8 text-sm font-mono"
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Execution */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm font-medium">Execution</CardTitle>
+          <CardDescription className="text-xs">
+            How orders are worked for each edge strength. The order manager reprices and cancels resting orders on a schedule.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {EDGE_STRENGTHS.map((strength) => {
+            const policies = getValue('execution_policies') || {};
+
+            return (
+              <div key={strength} className="flex items-center justify-between gap-4">
+                <Label className="text-sm capitalize">{strength.toLowerCase()}</Label>
+                <Select
+                  value={resolveExecutionPolicy(policies, strength)}
+                  onValueChange={(value) => {
+                    const next = { ...policies };
+                    if (value === DEFAULT_EXECUTION_POLICY) {
+                      delete next[strength];
+                    } else {
+                      next[strength] = value;
+                    }
+                    handleChange('execution_policies', next);
+                  }}
+                >
+                  <SelectTrigger className="w-52 h-8 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXECUTION_POLICIES.map((policy) => (
+                      <SelectItem key={policy} value={policy}>
+                        {EXECUTION_POLICY_LABELS[policy]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+          <EditableNumber label="Ladder rungs" configKey="ladder_rungs" min={1} max={10} />
+          <EditableNumber label="Ladder step" configKey="ladder_step_cents" suffix="¢" min={1} max={10} />
+          <EditableNumber label="Reprice step" configKey="reprice_step_cents" suffix="¢" min={1} max={10} />
+          <EditableNumber label="Reprice every (min)" configKey="reprice_interval_minutes" min={1} max={240} />
+          <EditableNumber label="Cancel unfilled before start (min)" configKey="cancel_before_start_minutes" min={0} max={720} />
+        </CardContent>
+      </Card>
+
       {/* Price Limits */}
       <Card>
         <CardHeader className="pb-3">
@@ -723,6 +1184,94 @@ function ConfigPanel({ config, isLoading }: { config: BettingConfig | undefined;
           </div>
         </CardContent>
       </Card>
+
+      {/* Distribution Model */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm font-medium">Distribution Model</CardTitle>
+          <CardDescription className="text-xs">
+            Estimator behind P5/P95 for each sport. Smoothed models temper small samples.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {['nba', 'nfl', 'mlb', 'nhl'].map((sport) => {
+            const models = getValue('distribution_models') || {};
+
+            return (
+              <div key={sport} className="flex items-center justify-between gap-4">
+                <Label className="text-sm uppercase">{sport}</Label>
+                <Select
+                  value={resolveDistributionModel(models, sport)}
+                  onValueChange={(value) => {
+                    const next = { ...models };
+                    if (value === DEFAULT_DISTRIBUTION_MODEL) {
+                      delete next[sport];
+                    } else {
+                      next[sport] = value;
+                    }
+                    handleChange('distribution_models', next);
+                  }}
+                >
+                  <SelectTrigger className="w-44 h-8 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DISTRIBUTION_MODELS.map((model) => (
+                      <SelectItem key={model} value={model}>
+                        {DISTRIBUTION_MODEL_LABELS[model]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      {/* Era Adjustment */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm font-medium">Era Adjustment</CardTitle>
+          <CardDescription className="text-xs">
+            Restates historical totals in the current season's scoring environment before P5/P95 are computed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {['nba', 'nfl', 'mlb', 'nhl'].map((sport) => {
+            const adjustments = getValue('era_adjustments') || {};
+
+            return (
+              <div key={sport} className="flex items-center justify-between gap-4">
+                <Label className="text-sm uppercase">{sport}</Label>
+                <Select
+                  value={resolveEraAdjustment(adjustments, sport)}
+                  onValueChange={(value) => {
+                    const next = { ...adjustments };
+                    if (value === DEFAULT_ERA_ADJUSTMENT) {
+                      delete next[sport];
+                    } else {
+                      next[sport] = value;
+                    }
+                    handleChange('era_adjustments', next);
+                  }}
+                >
+                  <SelectTrigger className="w-44 h-8 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ERA_ADJUSTMENTS.map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {ERA_ADJUSTMENT_LABELS[method]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -731,8 +1280,14 @@ export default function KalshiDashboard() {
   const queryClient = useQueryClient();
   const { data: orders = [], isLoading: ordersLoading } = useKalshiOrders();
   const { data: config, isLoading: configLoading } = useBettingConfig();
-  const { data: pnlData = [], isLoading: pnlLoading } = useDailyPnl();
+  const { data: pnlData = [], isLoading: pnlLoading } = useDailyPnl(config?.venue, !configLoading);
+  const { data: clvRecords = [], isLoading: clvLoading } = useClvRecords(["kalshi_order"]);
+  const { data: marketMap = [], isLoading: marketsLoading } = useKalshiMarketMap();
+  const { data: riskRejections = [], isLoading: riskLoading } = useRiskRejections();
   const [isRunning, setIsRunning] = useState(false);
+  const [isDiscovering, setIsDiscovering] = useState(false);
+  const [isReconciling, setIsReconciling] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
   
   // Calculate summary stats
   const todayOrders = orders.filter(o => 
@@ -740,6 +1295,7 @@ export default function KalshiDashboard() {
   );
   const totalPnl = pnlData.reduce((sum, d) => sum + (d.net_pnl_cents || 0), 0);
   const totalWins = orders.filter(o => o.result === 'win').length;
+  const orphanCount = orders.filter(o => o.orphan_reason).length;
   const totalLosses = orders.filter(o => o.result === 'loss').length;
   const winRate = totalWins + totalLosses > 0 
     ? ((totalWins / (totalWins + totalLosses)) * 100).toFixed(1) 
@@ -760,16 +1316,78 @@ export default function KalshiDashboard() {
       } else {
         toast.success(`${counters.orders_placed} orders placed, ${counters.orders_skipped} skipped`);
       }
+      if (counters.risk_rejected > 0) {
+        toast.warning(`${counters.risk_rejected} signals rejected by portfolio limits`);
+      }
       
       queryClient.invalidateQueries({ queryKey: ['kalshi-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['risk-rejections'] });
       queryClient.invalidateQueries({ queryKey: ['daily-pnl'] });
-    } catch (error: any) {
-      toast.error('Failed to run auto-bet: ' + error.message);
+    } catch (error) {
+      toast.error('Failed to run auto-bet: ' + (error instanceof Error ? error.message : 'Unknown error'));
     } finally {
       setIsRunning(false);
     }
   };
   
+  const discoverMarkets = async () => {
+    setIsDiscovering(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('kalshi-integration', {
+        body: { action: 'discover_markets' }
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error);
+
+      toast.success(`${data.matched_count} of ${data.markets_count} markets matched, ${data.unmatched_count} unmatched`);
+      queryClient.invalidateQueries({ queryKey: ['kalshi-market-map'] });
+    } catch (error) {
+      toast.error('Failed to discover markets: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsDiscovering(false);
+    }
+  };
+
+  const reconcileOrders = async () => {
+    setIsReconciling(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('reconcile-kalshi', {
+        body: {}
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error);
+
+      toast.success(`${data.synced} orders synced, ${data.settled} settled, ${data.orphaned.length} orphaned`);
+      queryClient.invalidateQueries({ queryKey: ['kalshi-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['daily-pnl'] });
+    } catch (error) {
+      toast.error('Failed to reconcile orders: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsReconciling(false);
+    }
+  };
+
+  const workOrders = async () => {
+    setIsWorking(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('manage-orders', {
+        body: {}
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error);
+
+      toast.success(`${data.orders} resting orders: ${data.amended} repriced, ${data.canceled} canceled`);
+      queryClient.invalidateQueries({ queryKey: ['kalshi-orders'] });
+    } catch (error) {
+      toast.error('Failed to work orders: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
   return (
     <>
       <Helmet>
@@ -846,17 +1464,37 @@ export default function KalshiDashboard() {
             <TabsList>
               <TabsTrigger value="orders">Orders</TabsTrigger>
               <TabsTrigger value="pnl">P&L History</TabsTrigger>
+              <TabsTrigger value="markets">Markets</TabsTrigger>
+              <TabsTrigger value="clv">CLV</TabsTrigger>
+              <TabsTrigger value="risk">Risk</TabsTrigger>
               <TabsTrigger value="config">Configuration</TabsTrigger>
             </TabsList>
             
             <TabsContent value="orders">
               <Card>
                 <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Activity className="h-5 w-5" />
-                    Recent Orders
-                  </CardTitle>
-                  <CardDescription>Last 100 orders placed on Kalshi</CardDescription>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <CardTitle className="flex items-center gap-2">
+                        <Activity className="h-5 w-5" />
+                        Recent Orders
+                      </CardTitle>
+                      <CardDescription>
+                        Last 100 orders placed on Kalshi
+                        {orphanCount > 0 && ` · ${orphanCount} orphaned`}
+                      </CardDescription>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button variant="outline" size="sm" onClick={workOrders} disabled={isWorking}>
+                        <Clock className={cn("h-4 w-4 mr-2", isWorking && "animate-pulse")} />
+                        Work Orders
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={reconcileOrders} disabled={isReconciling}>
+                        <RefreshCw className={cn("h-4 w-4 mr-2", isReconciling && "animate-spin")} />
+                        Reconcile
+                      </Button>
+                    </div>
+                  </div>
                 </CardHeader>
                 <CardContent>
                   <OrdersTable orders={orders} isLoading={ordersLoading} />
@@ -883,6 +1521,59 @@ export default function KalshiDashboard() {
               </Card>
             </TabsContent>
             
+            <TabsContent value="markets">
+              <Card>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <CardTitle className="flex items-center gap-2">
+                        <Link2 className="h-5 w-5" />
+                        Market Matching
+                      </CardTitle>
+                      <CardDescription>Kalshi totals strikes mapped to our games and lines</CardDescription>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={discoverMarkets} disabled={isDiscovering}>
+                      <RefreshCw className={cn("h-4 w-4 mr-2", isDiscovering && "animate-spin")} />
+                      Discover
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <MarketMatchingPanel markets={marketMap} isLoading={marketsLoading} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="clv">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Target className="h-5 w-5" />
+                    Closing Line Value
+                  </CardTitle>
+                  <CardDescription>Order line and price against the last DK line before start</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ClvPanel records={clvRecords} isLoading={clvLoading} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+            
+            <TabsContent value="risk">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <AlertTriangle className="h-5 w-5" />
+                    Risk Rejections
+                  </CardTitle>
+                  <CardDescription>Signals auto-bet turned down for sport, date, team, correlation or drawdown limits</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <RiskRejectionsPanel rejections={riskRejections} isLoading={riskLoading} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
             <TabsContent value="config">
               <Card>
                 <CardHeader>
@@ -5,6 +5,7 @@ import { format } from "date-fns";
 import { toZonedTime } from "date-fns-tz";
 import { Layout } from "@/components/layout/Layout";
 import { useTodayGames, TodayGame } from "@/hooks/useApi";
+import { hitProbability } from "@shared/percentiles";
 import { getTeamDisplayName, formatTimeET } from "@/lib/teamNames";
 import { DkDistanceBadge, isDkBeyondExtremes } from "@/components/game/DkDistanceBadge";
 import { SegmentBadge } from "@/components/game/SegmentBadge";
@@ -50,7 +51,8 @@ interface OptimizedPick {
   matchedPercentile: 'p05' | 'p95';
   distanceFromPercentile: number;
   edgePoints: number;
-  confidence: number;
+  /** Historical hit rate (0-100) priced off the stored distribution; null if the edge has none */
+  hitProbability: number | null;
 }
 
 const ET_TIMEZONE = 'America/New_York';
@@ -116,6 +118,8 @@ export default function ParlayOptimizer() {
         const alternateLines = game.alternate_lines as AlternateLine[];
         const p05 = game.p05!;
         const p95 = game.p95!;
+        const priceLine = (point: number, side: 'over' | 'under') =>
+          game.distribution ? Math.round(hitProbability(game.distribution, point, side) * 1000) / 10 : null;
 
         // Find lines matching p95 (for over bets)
         alternateLines.forEach(line => {
@@ -133,7 +137,7 @@ export default function ParlayOptimizer() {
               matchedPercentile: 'p95',
               distanceFromPercentile: distanceToP95,
               edgePoints: Math.max(0, edgePoints),
-              confidence: Math.max(0, 100 - (distanceToP95 * 20)),
+              hitProbability: priceLine(line.point, 'over'),
             });
           }
 
@@ -148,16 +152,18 @@ export default function ParlayOptimizer() {
               matchedPercentile: 'p05',
               distanceFromPercentile: distanceToP05,
               edgePoints: Math.max(0, edgePoints),
-              confidence: Math.max(0, 100 - (distanceToP05 * 20)),
+              hitProbability: priceLine(line.point, 'under'),
             });
           }
         });
       });
 
-    // Sort by edge points (highest first) then by confidence
+    // Sort by edge points (highest first) then by hit probability
     return picks.sort((a, b) => {
       if (b.edgePoints !== a.edgePoints) return b.edgePoints - a.edgePoints;
-      if (b.confidence !== a.confidence) return b.confidence - a.confidence;
+      const aHit = a.hitProbability ?? -1;
+      const bHit = b.hitProbability ?? -1;
+      if (bHit !== aHit) return bHit - aHit;
       return a.distanceFromPercentile - b.distanceFromPercentile;
     });
   }, [nflData, nbaData, mlbData, nhlData, sportFilter, tolerance, minSampleSize]);
@@ -211,7 +217,8 @@ export default function ParlayOptimizer() {
         return [
           `${i + 1}. [${pick.game.sport_id.toUpperCase()}] ${awayTeam} @ ${homeTeam}`,
           `   ${pick.pick.toUpperCase()} ${pick.matchingLine} (${formatOdds(pick.matchingOdds)})`,
-          `   Matches P${pick.matchedPercentile === 'p95' ? '95' : '05'} | +${pick.edgePoints.toFixed(1)} edge`,
+          `   Matches P${pick.matchedPercentile === 'p95' ? '95' : '05'} | +${pick.edgePoints.toFixed(1)} edge` +
+            (pick.hitProbability !== null ? ` | ${pick.hitProbability}% hit` : ''),
         ].join('\n');
       }),
       ``,
@@ -556,6 +563,7 @@ function OptimizedPickRow({
         </div>
         <div className="text-2xs text-muted-foreground">
           Matches P{pick.matchedPercentile === 'p95' ? '95' : '05'} ({pick.game[pick.matchedPercentile]})
+          {pick.hitProbability !== null && ` · ${pick.hitProbability}% hit`}
         </div>
       </div>
 
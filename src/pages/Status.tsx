@@ -1,10 +1,11 @@
 import { useState } from "react";
 import { Helmet } from "react-helmet-async";
 import { format, formatDistanceToNow } from "date-fns";
-import { CheckCircle2, XCircle, Clock, RefreshCw, BarChart3, Database, Activity, Play, Loader2, Timer, Calendar, Zap, Layers, TrendingUp, History, HeartPulse, Users } from "lucide-react";
+import { CheckCircle2, XCircle, Clock, RefreshCw, BarChart3, Database, Activity, Play, Loader2, Timer, Calendar, Zap, Layers, TrendingUp, History, HeartPulse, Users, GitBranch, AlertTriangle } from "lucide-react";
 import { Layout } from "@/components/layout/Layout";
 import { useSystemStatus, useCronStatus } from "@/hooks/useApi";
-import type { CronJob } from "@/hooks/useApi";
+import type { CronJob, StatusResponse } from "@/hooks/useApi";
+import type { FailureClass, JobHistory, JobStatus } from "@shared/jobRunner";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
@@ -14,12 +15,13 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { DataHealthDashboard } from "@/components/status/DataHealthDashboard";
 import { RosterContinuityTimeline } from "@/components/status/RosterContinuityTimeline";
 import { LiveJobProgress } from "@/components/status/LiveJobProgress";
+import { PipelineDagView } from "@/components/status/PipelineDagView";
 
 const API_BASE = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`;
+const FIRST_BACKFILL_SEASON = 2019;
 
 const jobLabels: Record<string, { name: string; description: string }> = {
-  backfill: { name: "Backfill", description: "Historical data import" },
-  "backfill-all": { name: "Full Backfill", description: "25+ years all sports" },
+  backfill: { name: "Backfill", description: "Resumable backfill plans" },
   ingest: { name: "Daily Ingest", description: "Today's games sync" },
   compute: { name: "Compute", description: "Percentile calculations" },
   odds_refresh: { name: "Odds Refresh", description: "DraftKings lines" },
@@ -159,6 +161,149 @@ function CronJobCard({ job }: { job: CronJob }) {
   );
 }
 
+const runStatusStyles: Record<JobStatus, string> = {
+  success: "bg-status-live",
+  partial: "bg-yellow-500",
+  fail: "bg-destructive",
+  skipped: "bg-muted-foreground/40",
+  running: "bg-muted-foreground animate-pulse",
+};
+
+const failureLabels: Record<FailureClass, string> = {
+  timeout: "Timeout",
+  rate_limited: "Rate limited",
+  upstream: "Upstream error",
+  database: "Database",
+  validation: "Bad input",
+  lock_contention: "Already running",
+  unknown: "Unknown",
+};
+
+function formatDuration(ms: number | null) {
+  if (ms === null) return "–";
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+// Job runner history for one job: recent runs, last run's steps, last failure
+function PipelineJobCard({ job }: { job: JobHistory }) {
+  const label = jobLabels[job.job_name]?.name ?? job.job_name;
+  const lastRun = job.last_run;
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-4 shadow-card space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <h4 className="font-medium text-sm truncate">{label}</h4>
+          <p className="text-xs text-muted-foreground">
+            {job.success_rate}% success · avg {formatDuration(job.avg_duration_ms)} · {job.stats.total} runs
+          </p>
+        </div>
+        {job.active_leases.length > 0 && (
+          <span className="text-xs bg-status-live/20 text-status-live px-2 py-0.5 rounded-full flex-shrink-0">
+            {job.active_leases.length > 1 ? `${job.active_leases.length} leases` : "Leased"}
+          </span>
+        )}
+      </div>
+
+      {/* History, oldest to newest */}
+      <div className="flex items-center gap-1">
+        {[...job.runs].reverse().map((run) => (
+          <span
+            key={run.id}
+            className={cn("h-3 w-3 rounded-sm", runStatusStyles[run.status])}
+            title={`#${run.id} ${run.status} ${formatDistanceToNow(new Date(run.started_at), { addSuffix: true })}${run.error ? ` – ${run.error}` : ""}`}
+          />
+        ))}
+      </div>
+
+      {/* Last run's steps */}
+      {lastRun.steps.length > 0 && (
+        <div className="space-y-1">
+          {lastRun.steps.map((step, i) => (
+            <div key={i} className="flex items-center justify-between text-xs gap-2">
+              <div className="flex items-center gap-1.5 min-w-0">
+                {step.status === "success" ? (
+                  <CheckCircle2 className="h-3 w-3 text-status-live flex-shrink-0" />
+                ) : step.status === "fail" ? (
+                  <XCircle className="h-3 w-3 text-destructive flex-shrink-0" />
+                ) : (
+                  <Loader2 className="h-3 w-3 text-muted-foreground animate-spin flex-shrink-0" />
+                )}
+                <span className="truncate" title={step.error ?? undefined}>{step.name}</span>
+              </div>
+              <span className="text-muted-foreground flex-shrink-0">
+                {step.rows_written > 0 && `${step.rows_written.toLocaleString()} rows · `}
+                {formatDuration(step.duration_ms)}
+                {step.attempts > 1 && ` · ${step.attempts} tries`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Most recent failure */}
+      {job.last_failure && (
+        <div className="pt-2 border-t border-border text-xs space-y-1">
+          <div className="flex items-center gap-2">
+            <span className={cn(
+              "px-1.5 py-0.5 rounded",
+              job.last_failure.status === "partial" ? "bg-yellow-500/10 text-yellow-600" : "bg-destructive/10 text-destructive"
+            )}>
+              {job.last_failure.failure_class ? failureLabels[job.last_failure.failure_class] : job.last_failure.status}
+            </span>
+            <span className="text-muted-foreground">
+              {formatDistanceToNow(new Date(job.last_failure.started_at), { addSuffix: true })}
+            </span>
+          </div>
+          {job.last_failure.error && (
+            <p className="text-muted-foreground font-mono break-words line-clamp-2">{job.last_failure.error}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Open freshness SLA breaches from check-freshness
+function FreshnessBreaches({ breaches }: { breaches: StatusResponse["freshness_breaches"] }) {
+  return (
+    <div className="bg-card rounded-xl border border-border p-6 shadow-card">
+      <div className="flex items-center gap-2 mb-4">
+        <AlertTriangle className={cn("h-5 w-5", breaches.length > 0 ? "text-destructive" : "text-muted-foreground")} />
+        <h2 className="text-lg font-semibold">Freshness SLAs</h2>
+        <span className="ml-auto text-xs text-muted-foreground">
+          {breaches.length > 0 ? `${breaches.length} open` : "All within SLA"}
+        </span>
+      </div>
+
+      {breaches.length > 0 && (
+        <div className="space-y-2">
+          {breaches.map((breach) => (
+            <div key={breach.id} className="flex items-start justify-between gap-3 bg-secondary/20 p-3 rounded-lg">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className={cn(
+                    "px-1.5 py-0.5 rounded text-xs font-medium",
+                    breach.severity === "critical" ? "bg-destructive/10 text-destructive" : "bg-yellow-500/10 text-yellow-600"
+                  )}>
+                    {breach.severity}
+                  </span>
+                  <span className="text-xs font-mono text-muted-foreground">{breach.rule_id}</span>
+                </div>
+                <p className="text-sm">{breach.message}</p>
+              </div>
+              <div className="text-xs text-muted-foreground text-right flex-shrink-0">
+                <p>Since {formatDistanceToNow(new Date(breach.opened_at), { addSuffix: true })}</p>
+                <p>{breach.notified_at ? "Alert sent" : "Not alerted"}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // Cron jobs section component
 function CronJobsSection() {
   const { data, isLoading, error } = useCronStatus();
@@ -221,6 +366,21 @@ function CronJobsSection() {
         </div>
       </div>
       
+      {/* Job runner history */}
+      {data.pipeline_jobs?.length > 0 && (
+        <div className="bg-card rounded-xl border border-border p-6 shadow-card">
+          <div className="flex items-center gap-2 mb-4">
+            <History className="h-5 w-5 text-muted-foreground" />
+            <h2 className="text-lg font-semibold">Job Runs (7 days)</h2>
+          </div>
+          <div className="grid gap-3 sm:grid-cols-2">
+            {data.pipeline_jobs.map((job) => (
+              <PipelineJobCard key={job.job_name} job={job} />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Recent runs */}
       {data.recent_runs.length > 0 && (
         <div className="bg-card rounded-xl border border-border p-6 shadow-card">
@@ -252,30 +412,35 @@ function CronJobsSection() {
 }
 function BackfillControls({ onComplete }: { onComplete: () => void }) {
   const [loading, setLoading] = useState<string | null>(null);
-  const [backfillProgress, setBackfillProgress] = useState<Record<string, any>>({});
+
+  const sports = ['nba', 'nfl', 'nhl', 'mlb'];
+
+  // One plan per sport; the backfill function persists and resumes each
+  const startPlans = async (plans: Record<string, unknown>[]) => {
+    const results = await Promise.all(plans.map(async (plan) => {
+      const response = await fetch(`${API_BASE}/backfill`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ plan }),
+      });
+      return response.json();
+    }));
+    const failed = results.find((data) => !data.success);
+    if (failed) throw new Error(failed.error);
+    return results;
+  };
 
   const triggerFullBackfill = async (sports: string[]) => {
     const key = sports.join(',');
     setLoading(key);
     try {
-      const response = await fetch(`${API_BASE}/backfill-all`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ sports, store_raw: false }),
+      const currentYear = new Date().getFullYear();
+      const seasons = Array.from({ length: currentYear + 2 - FIRST_BACKFILL_SEASON }, (_, i) => FIRST_BACKFILL_SEASON + i);
+      const results = await startPlans(sports.map((sport) => ({ sport, seasons, source: 'espn', scope: 'games' })));
+      toast.success(`Full historical backfill started`, {
+        description: `${results.map((data) => `Plan #${data.plan_id}: ${data.units} units`).join(', ')} - ${sports.map(s => s.toUpperCase()).join(', ')}`,
       });
-      const data = await response.json();
-      if (data.success) {
-        toast.success(`Full historical backfill started`, {
-          description: `Job #${data.job_id} - ${sports.map(s => s.toUpperCase()).join(', ')} (25+ years)`,
-        });
-        setBackfillProgress(prev => ({
-          ...prev,
-          [key]: { job_id: data.job_id, status: 'running', started: new Date().toISOString() }
-        }));
-        onComplete();
-      } else {
-        toast.error(`Backfill failed: ${data.error}`);
-      }
+      onComplete();
     } catch (error) {
       toast.error(`Backfill error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
@@ -286,20 +451,11 @@ function BackfillControls({ onComplete }: { onComplete: () => void }) {
   const triggerRecomputeStats = async () => {
     setLoading('recompute');
     try {
-      const response = await fetch(`${API_BASE}/backfill-all`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ recompute_only: true }),
+      const results = await startPlans(sports.map((sport) => ({ sport, scope: 'stats' })));
+      toast.success(`Recomputing segmented stats`, {
+        description: `Plans ${results.map((data) => `#${data.plan_id}`).join(', ')}`,
       });
-      const data = await response.json();
-      if (data.success) {
-        toast.success(`Recomputing segmented stats`, {
-          description: `Job #${data.job_id} - ${data.segments?.join(', ')}`,
-        });
-        onComplete();
-      } else {
-        toast.error(`Recompute failed: ${data.error}`);
-      }
+      onComplete();
     } catch (error) {
       toast.error(`Recompute error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
@@ -307,6 +463,28 @@ function BackfillControls({ onComplete }: { onComplete: () => void }) {
     }
   };
 
+  const triggerDailyBackfill = async () => {
+    setLoading('daily-backfill');
+    try {
+      const dateOffset = (days: number) => format(new Date(Date.now() + days * 86400000), "yyyy-MM-dd");
+      const results = await startPlans(sports.map((sport) => ({
+        sport,
+        source: sport === 'nba' || sport === 'nfl' ? 'balldontlie' : 'espn',
+        scope: 'games',
+        date_from: dateOffset(-7),
+        date_to: dateOffset(-1),
+      })));
+      toast.success(`Daily backfill started`, {
+        description: `Plans ${results.map((data) => `#${data.plan_id}`).join(', ')}`,
+      });
+      onComplete();
+    } catch (error) {
+      toast.error(`Daily backfill error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoading(null);
+    }
+  };
+
   const triggerPipeline = async (endpoint: string, name: string) => {
     setLoading(endpoint);
     try {
@@ -331,7 +509,6 @@ function BackfillControls({ onComplete }: { onComplete: () => void }) {
     }
   };
 
-  const sports = ['nba', 'nfl', 'nhl', 'mlb'];
 
   return (
     <div className="bg-card rounded-xl border border-border p-6 shadow-card">
@@ -345,10 +522,10 @@ function BackfillControls({ onComplete }: { onComplete: () => void }) {
         <div className="p-4 bg-secondary/20 rounded-lg border border-border/50">
           <div className="flex items-center gap-2 mb-3">
             <History className="h-4 w-4 text-muted-foreground" />
-            <h3 className="font-medium text-sm">Full Historical Backfill (25+ years)</h3>
+            <h3 className="font-medium text-sm">Full Historical Backfill ({FIRST_BACKFILL_SEASON}-present)</h3>
           </div>
           <p className="text-xs text-muted-foreground mb-3">
-            Fetches all games from ESPN (1995-present). Creates franchise entities and computes segmented stats (3y, 5y, 10y, 20y, all-time).
+            Fetches every season's games from ESPN in two-week units that resume after timeouts. Creates franchise entities as it goes; progress per unit shows under Live Job Progress.
           </p>
           <div className="flex flex-wrap gap-2">
             <Button
@@ -384,7 +561,7 @@ function BackfillControls({ onComplete }: { onComplete: () => void }) {
             <h3 className="font-medium text-sm">Recompute Segment Stats</h3>
           </div>
           <p className="text-xs text-muted-foreground mb-3">
-            Recalculates percentile stats for all segments (h2h_3y, h2h_5y, h2h_10y, h2h_20y, h2h_all) without fetching new data.
+            Recalculates percentile stats for all segments (h2h_all, h2h_3y, h2h_2y) without fetching new data.
           </p>
           <Button
             variant="outline"
@@ -411,7 +588,7 @@ function BackfillControls({ onComplete }: { onComplete: () => void }) {
             <Button
               variant="default"
               size="sm"
-              onClick={() => triggerPipeline('daily-backfill', 'Daily Backfill')}
+              onClick={triggerDailyBackfill}
               disabled={loading !== null}
               className="gap-2"
             >
@@ -495,6 +672,10 @@ export default function Status() {
               <div className="flex items-center gap-2">
                 <TabsList className="bg-secondary/50">
                   <TabsTrigger value="overview" className="text-xs">Overview</TabsTrigger>
+                  <TabsTrigger value="pipeline" className="text-xs gap-1">
+                    <GitBranch className="h-3 w-3" />
+                    Pipeline
+                  </TabsTrigger>
                   <TabsTrigger value="data-health" className="text-xs gap-1">
                     <HeartPulse className="h-3 w-3" />
                     Data Health
@@ -537,6 +718,9 @@ export default function Status() {
                 </div>
               ) : data ? (
                 <>
+                  {/* Freshness SLAs */}
+                  <FreshnessBreaches breaches={data.freshness_breaches ?? []} />
+
                   {/* Today's Coverage */}
                   <div className="bg-card rounded-xl border border-border p-6 shadow-card">
                     <div className="flex items-center gap-2 mb-4">
@@ -688,6 +872,10 @@ export default function Status() {
               ) : null}
             </TabsContent>
 
+            <TabsContent value="pipeline" className="mt-0">
+              <PipelineDagView />
+            </TabsContent>
+
             <TabsContent value="data-health" className="mt-0">
               <DataHealthDashboard />
             </TabsContent>
@@ -0,0 +1,87 @@
+// Fixtures for backfill plans: validation, unit splitting and resuming.
+// Run with: deno test supabase/functions/_shared
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import {
+  MAX_UNIT_ATTEMPTS,
+  exhaustedUnits,
+  nextUnit,
+  parsePlan,
+  planProgress,
+  planStatus,
+  planUnits,
+  seasonOn,
+  seasonWindow,
+  type BackfillPlan,
+  type BackfillUnit,
+} from './backfillPlan.ts'
+
+function plan(overrides: Partial<BackfillPlan>): BackfillPlan {
+  return { sport: 'nba', seasons: [], source: 'espn', scope: 'games', ...overrides }
+}
+
+function unit(id: number, overrides: Partial<BackfillUnit> = {}): BackfillUnit {
+  return {
+    id, plan_id: 1, unit_key: `u${id}`, kind: 'games', season_year: 2024, date_from: null, date_to: null,
+    status: 'pending', checkpoint: {}, attempts: 0, rows_written: 0, last_error: null, heartbeat_at: null,
+    ...overrides,
+  }
+}
+
+Deno.test('plans are validated before any unit is written', () => {
+  assertEquals('error' in parsePlan({ sport: 'cfl', seasons: [2024] }), true)
+  assertEquals('error' in parsePlan({ sport: 'nba' }), true)
+  assertEquals('error' in parsePlan({ sport: 'nhl', seasons: [2024], scope: 'preseason' }), true)
+  assertEquals('error' in parsePlan({ sport: 'nba', seasons: [2024], source: 'balldontlie', scope: 'rosters' }), true)
+  assertEquals('error' in parsePlan({ sport: 'nba', date_from: '2025-01-10', date_to: '2025-01-03' }), true)
+  assertEquals(parsePlan({ sport: 'nba', seasons: [2024, 2023, 2024] }), {
+    plan: { sport: 'nba', seasons: [2023, 2024], source: 'espn', scope: 'games', date_from: null, date_to: null },
+  })
+  assertEquals('plan' in parsePlan({ sport: 'mlb', scope: 'stats' }), true)
+})
+
+Deno.test('season windows follow each source and the COVID seasons', () => {
+  assertEquals(seasonWindow('nba', 2024, 'espn').start, '2023-10-01')
+  assertEquals(seasonWindow('nba', 2024, 'balldontlie').start, '2024-10-01')
+  assertEquals(seasonWindow('nba', 2020, 'espn').end, '2020-10-15')
+  assertEquals(seasonWindow('nfl', 2024, 'espn'), { start: '2024-09-01', playoffs: '2025-01-08', end: '2025-02-15' })
+  assertEquals([seasonOn('nba', '2024-11-02', 'espn'), seasonOn('nba', '2024-11-02', 'balldontlie'), seasonOn('nfl', '2025-01-12', 'espn')], [2025, 2024, 2024])
+})
+
+Deno.test('espn plans split into two-week units capped at today', () => {
+  const units = planUnits(plan({ seasons: [2025], scope: 'playoffs' }), '2025-05-01')
+  assertEquals(units.map(u => [u.unit_key, u.date_from, u.date_to]), [
+    ['games:2025:2025-04-12', '2025-04-12', '2025-04-25'],
+    ['games:2025:2025-04-26', '2025-04-26', '2025-05-01'],
+  ])
+
+  const daily = planUnits(plan({ sport: 'nhl', date_from: '2025-01-08', date_to: '2025-01-14' }), '2025-01-15')
+  assertEquals(daily.map(u => [u.unit_key, u.season_year]), [['games:dates:2025-01-08', null]])
+})
+
+Deno.test('balldontlie pages whole seasons and playoffs add their results', () => {
+  const units = planUnits(plan({ seasons: [2023], source: 'balldontlie', scope: 'playoffs' }), '2026-01-01')
+  assertEquals(units.map(u => [u.unit_key, u.kind, u.date_from]), [
+    ['games:2023:2024-04-12', 'games', null],
+    ['playoff_results:2023', 'playoff_results', null],
+  ])
+  assertEquals(planUnits(plan({ seasons: [2024, 2025], scope: 'rosters' }), '2026-01-01').map(u => u.unit_key), ['rosters:2024', 'rosters:2025'])
+  assertEquals(planUnits(plan({ scope: 'stats' }), '2026-01-01').map(u => u.kind), ['stats'])
+})
+
+Deno.test('timed-out units resume before new ones start', () => {
+  const now = Date.parse('2025-01-15T12:00:00Z')
+  const units = [
+    unit(1, { status: 'done', rows_written: 40 }),
+    unit(2, { status: 'pending' }),
+    unit(3, { status: 'running', attempts: 1, heartbeat_at: '2025-01-15T11:50:00Z', checkpoint: { next_date: '2025-01-09' } }),
+    unit(4, { status: 'running', attempts: MAX_UNIT_ATTEMPTS, heartbeat_at: '2025-01-15T11:00:00Z' }),
+  ]
+  assertEquals(nextUnit(units, now)?.id, 3)
+  assertEquals(nextUnit(units.map(u => u.id === 3 ? { ...u, heartbeat_at: '2025-01-15T11:59:30Z' } : u), now)?.id, 2)
+  assertEquals(exhaustedUnits(units, now).map(u => u.id), [4])
+
+  const progress = planProgress(units)
+  assertEquals([progress.done, progress.running, progress.rows_written, progress.percent], [1, 2, 40, 25])
+  assertEquals(planStatus(progress), 'running')
+  assertEquals(planStatus(planProgress([unit(1, { status: 'done' }), unit(2, { status: 'failed' })])), 'fail')
+})
@@ -0,0 +1,292 @@
+/**
+ * Backfill plans
+ *
+ * The `backfill` orchestrator takes a plan (sport, seasons, source, scope)
+ * and splits it into work units stored in backfill_units. Each unit covers
+ * one stretch of a season and records a checkpoint as it goes: the next
+ * date for ESPN scoreboards, the next page cursor for BallDontLie, the next
+ * item for the rest. A run that times out leaves its unit running with a
+ * stale heartbeat, and the next run picks it up from the checkpoint.
+ */
+import { BDL_BASE_URLS } from './providers.ts'
+import { bdlSeasonOn } from './providerParsers.ts'
+import { playoffResultsFor } from './playoffResults.ts'
+
+export type BackfillSource = 'espn' | 'balldontlie'
+
+/**
+ * What a plan fills: `games` is every game, `regular` and `playoffs` one
+ * half of the season, `rosters` roster snapshots, `stats` the matchup_stats
+ * segments recomputed from matchup_games.
+ */
+export type BackfillScope = 'games' | 'regular' | 'playoffs' | 'rosters' | 'stats'
+
+export type UnitKind = 'games' | 'playoff_results' | 'rosters' | 'stats'
+
+export type UnitStatus = 'pending' | 'running' | 'done' | 'failed'
+
+export const BACKFILL_SPORTS = ['nba', 'nfl', 'nhl', 'mlb']
+export const BACKFILL_SOURCES: BackfillSource[] = ['espn', 'balldontlie']
+export const BACKFILL_SCOPES: BackfillScope[] = ['games', 'regular', 'playoffs', 'rosters', 'stats']
+
+// Days of ESPN scoreboards per unit
+export const UNIT_DAYS = 14
+// A running unit with no heartbeat for this long was cut off by a timeout
+export const UNIT_STALE_MS = 3 * 60 * 1000
+// Runs a unit gets before it is marked failed
+export const MAX_UNIT_ATTEMPTS = 3
+
+export interface BackfillPlan {
+  sport: string
+  /** Seasons as the source numbers them (ESPN: the year an NBA/NHL season ends; BallDontLie: the year it starts) */
+  seasons: number[]
+  source: BackfillSource
+  scope: BackfillScope
+  /** Optional window (YYYY-MM-DD, inclusive) inside the seasons, or instead of them */
+  date_from?: string | null
+  date_to?: string | null
+}
+
+export interface UnitSpec {
+  unit_key: string
+  kind: UnitKind
+  season_year: number | null
+  date_from: string | null
+  date_to: string | null
+}
+
+export interface UnitCheckpoint {
+  /** ESPN: first date not yet fetched */
+  next_date?: string
+  /** BallDontLie: next page */
+  cursor?: number
+  /** Rosters, stats, playoff results: items already written */
+  offset?: number
+}
+
+/** A backfill_units row */
+export interface BackfillUnit extends UnitSpec {
+  id: number
+  plan_id: number
+  status: UnitStatus
+  checkpoint: UnitCheckpoint
+  attempts: number
+  rows_written: number
+  last_error: string | null
+  heartbeat_at: string | null
+}
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/
+
+/** Validates a request body into a plan, or says what is wrong with it */
+export function parsePlan(input: unknown): { plan: BackfillPlan } | { error: string } {
+  const body = (input ?? {}) as Record<string, unknown>
+  const sport = String(body.sport ?? '')
+  const source = (body.source ?? 'espn') as BackfillSource
+  const scope = (body.scope ?? 'games') as BackfillScope
+  const seasons = Array.isArray(body.seasons) ? body.seasons.map(Number) : []
+  const date_from = typeof body.date_from === 'string' ? body.date_from : null
+  const date_to = typeof body.date_to === 'string' ? body.date_to : null
+
+  if (!BACKFILL_SPORTS.includes(sport)) return { error: `Unknown sport: ${sport || '(none)'}` }
+  if (!BACKFILL_SOURCES.includes(source)) return { error: `Unknown source: ${source}` }
+  if (!BACKFILL_SCOPES.includes(scope)) return { error: `Unknown scope: ${scope}` }
+  if (seasons.some(s => !Number.isInteger(s) || s < 1900)) return { error: 'seasons must be years' }
+  if ((date_from && !DATE.test(date_from)) || (date_to && !DATE.test(date_to))) return { error: 'Dates must be YYYY-MM-DD' }
+  if (date_from && date_to && date_from > date_to) return { error: 'date_from is after date_to' }
+  if (source === 'balldontlie' && !BDL_BASE_URLS[sport]) return { error: `BallDontLie has no ${sport}` }
+  if (scope === 'rosters' && source !== 'espn') return { error: 'Rosters come from ESPN' }
+  if (scope !== 'stats' && seasons.length === 0 && !(date_from && date_to)) {
+    return { error: 'Expected seasons, or date_from and date_to' }
+  }
+
+  return { plan: { sport, seasons: Array.from(new Set(seasons)).sort((a, b) => a - b), source, scope, date_from, date_to } }
+}
+
+// ============================================================
+// SEASON WINDOWS
+// ============================================================
+
+interface SeasonWindow {
+  start: string
+  playoffs: string
+  end: string
+}
+
+// By the calendar year a season ends; seasons COVID moved or cut short
+const WINDOW_OVERRIDES: Record<string, Record<number, Partial<SeasonWindow>>> = {
+  nba: {
+    2020: { playoffs: '2020-08-15', end: '2020-10-15' },
+    2021: { start: '2020-12-20', playoffs: '2021-05-18', end: '2021-07-25' },
+  },
+  nhl: {
+    2020: { playoffs: '2020-08-01', end: '2020-09-30' },
+    2021: { start: '2021-01-10', playoffs: '2021-05-15', end: '2021-07-10' },
+  },
+  mlb: {
+    2020: { start: '2020-07-20', playoffs: '2020-09-29' },
+  },
+}
+
+/** Calendar year a season ends in */
+function seasonEndYear(sport: string, season: number, source: BackfillSource): number {
+  if (sport === 'nfl') return season + 1
+  if ((sport === 'nba' || sport === 'nhl') && source === 'balldontlie') return season + 1
+  return season
+}
+
+/** Dates a season's games fall between, with roughly where its playoffs start */
+export function seasonWindow(sport: string, season: number, source: BackfillSource): SeasonWindow {
+  const end = seasonEndYear(sport, season, source)
+  const base: Record<string, SeasonWindow> = {
+    nba: { start: `${end - 1}-10-01`, playoffs: `${end}-04-12`, end: `${end}-06-30` },
+    nhl: { start: `${end - 1}-10-01`, playoffs: `${end}-04-15`, end: `${end}-06-30` },
+    nfl: { start: `${end - 1}-09-01`, playoffs: `${end}-01-08`, end: `${end}-02-15` },
+    mlb: { start: `${end}-03-15`, playoffs: `${end}-09-28`, end: `${end}-11-10` },
+  }
+  return { ...base[sport], ...WINDOW_OVERRIDES[sport]?.[end] }
+}
+
+/** Season a game date belongs to, numbered the way the source numbers it */
+export function seasonOn(sport: string, date: string, source: BackfillSource): number {
+  const [year, month] = date.split('-').map(Number)
+  if (source === 'balldontlie' || sport === 'nfl') return bdlSeasonOn(sport, new Date(year, month - 1, 15))
+  if (sport === 'mlb') return year
+  return month >= 8 ? year + 1 : year
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+export function dateRange(from: string, to: string): string[] {
+  const dates: string[] = []
+  for (let d = from; d <= to; d = addDays(d, 1)) dates.push(d)
+  return dates
+}
+
+// The part of a season a scope reads; regular runs a little past the playoff start to catch stragglers
+function scopeWindow(plan: BackfillPlan, season: number): { from: string; to: string } {
+  const window = seasonWindow(plan.sport, season, plan.source)
+  if (plan.scope === 'regular') return { from: window.start, to: addDays(window.playoffs, 14) }
+  if (plan.scope === 'playoffs') return { from: window.playoffs, to: window.end }
+  return { from: window.start, to: window.end }
+}
+
+function clip(from: string, to: string, plan: BackfillPlan, today: string): { from: string; to: string } | null {
+  const start = plan.date_from && plan.date_from > from ? plan.date_from : from
+  let end = plan.date_to && plan.date_to < to ? plan.date_to : to
+  if (end > today) end = today
+  return start <= end ? { from: start, to: end } : null
+}
+
+function gameUnits(plan: BackfillPlan, season: number | null, from: string, to: string): UnitSpec[] {
+  // BallDontLie pages a whole season by cursor; ESPN goes a scoreboard a day
+  if (plan.source === 'balldontlie') {
+    const whole = season !== null && !plan.date_from && !plan.date_to
+    return [{
+      unit_key: `games:${season ?? 'dates'}:${from}`,
+      kind: 'games',
+      season_year: season,
+      date_from: whole ? null : from,
+      date_to: whole ? null : to,
+    }]
+  }
+
+  const units: UnitSpec[] = []
+  for (let start = from; start <= to; start = addDays(start, UNIT_DAYS)) {
+    const end = addDays(start, UNIT_DAYS - 1) < to ? addDays(start, UNIT_DAYS - 1) : to
+    units.push({ unit_key: `games:${season ?? 'dates'}:${start}`, kind: 'games', season_year: season, date_from: start, date_to: end })
+  }
+  return units
+}
+
+/**
+ * Work units for a plan, in the order they run. `today` (YYYY-MM-DD) caps
+ * date windows so a plan for the current season stops at today.
+ */
+export function planUnits(plan: BackfillPlan, today: string): UnitSpec[] {
+  if (plan.scope === 'stats') {
+    return [{ unit_key: 'stats', kind: 'stats', season_year: null, date_from: null, date_to: null }]
+  }
+  if (plan.scope === 'rosters') {
+    return plan.seasons.map(season => ({ unit_key: `rosters:${season}`, kind: 'rosters', season_year: season, date_from: null, date_to: null }))
+  }
+
+  const units: UnitSpec[] = []
+  if (plan.seasons.length === 0) {
+    const window = clip(plan.date_from!, plan.date_to!, plan, today)
+    if (window) units.push(...gameUnits(plan, null, window.from, window.to))
+  }
+  for (const season of plan.seasons) {
+    const { from, to } = scopeWindow(plan, season)
+    const window = clip(from, to, plan, today)
+    if (window) units.push(...gameUnits(plan, season, window.from, window.to))
+  }
+  if (plan.scope === 'playoffs') {
+    for (const season of plan.seasons) {
+      if (playoffResultsFor(plan.sport, [season]).length === 0) continue
+      units.push({ unit_key: `playoff_results:${season}`, kind: 'playoff_results', season_year: season, date_from: null, date_to: null })
+    }
+  }
+  return units
+}
+
+/** Whether a game belongs to the plan's scope */
+export function inScope(scope: BackfillScope, isPlayoff: boolean): boolean {
+  if (scope === 'regular') return !isPlayoff
+  if (scope === 'playoffs') return isPlayoff
+  return true
+}
+
+// ============================================================
+// RUNNING UNITS
+// ============================================================
+
+function isStale(unit: BackfillUnit, now: number): boolean {
+  return unit.status === 'running' && (!unit.heartbeat_at || now - Date.parse(unit.heartbeat_at) > UNIT_STALE_MS)
+}
+
+/**
+ * Next unit to work on: a running unit a timed-out run left behind, then
+ * the first pending one. Units that used up their attempts are skipped.
+ */
+export function nextUnit(units: BackfillUnit[], now: number): BackfillUnit | null {
+  const ordered = [...units].sort((a, b) => a.id - b.id)
+  return ordered.find(u => isStale(u, now) && u.attempts < MAX_UNIT_ATTEMPTS)
+    ?? ordered.find(u => u.status === 'pending')
+    ?? null
+}
+
+/** Units that timed out on their last attempt and won't be picked up again */
+export function exhaustedUnits(units: BackfillUnit[], now: number): BackfillUnit[] {
+  return units.filter(u => isStale(u, now) && u.attempts >= MAX_UNIT_ATTEMPTS)
+}
+
+export interface PlanProgress {
+  total: number
+  pending: number
+  running: number
+  done: number
+  failed: number
+  rows_written: number
+  percent: number
+}
+
+export function planProgress(units: Array<Pick<BackfillUnit, 'status' | 'rows_written'>>): PlanProgress {
+  const progress: PlanProgress = { total: units.length, pending: 0, running: 0, done: 0, failed: 0, rows_written: 0, percent: 0 }
+  for (const unit of units) {
+    progress[unit.status]++
+    progress.rows_written += unit.rows_written || 0
+  }
+  progress.percent = progress.total ? Math.round(((progress.done + progress.failed) / progress.total) * 100) : 100
+  return progress
+}
+
+/** A plan is finished once no unit is left to run; it failed if any unit did */
+export function planStatus(progress: PlanProgress): 'running' | 'success' | 'fail' {
+  if (progress.pending + progress.running > 0) return 'running'
+  return progress.failed > 0 ? 'fail' : 'success'
+}
@@ -0,0 +1,97 @@
+// Fixtures for the backtest engine.
+// Run with: deno test supabase/functions/_shared
+import { assertAlmostEquals, assertEquals, assertThrows } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import {
+  DEFAULT_STRATEGY,
+  normalizeStrategy,
+  runBacktest,
+  selectBet,
+  type BacktestGame,
+  type BacktestStrategy,
+} from './backtest.ts'
+
+function game(id: string, day: number, line: number, percentile: number, finalTotal: number, closingLine?: number): BacktestGame {
+  const quote = {
+    line,
+    over_price: -110,
+    under_price: -110,
+    dk_line_percentile: percentile,
+    distribution: null,
+    n_used: 12,
+    segment_used: 'h2h_3y',
+  }
+  return {
+    game_id: id,
+    start_time_utc: `2026-01-${String(day).padStart(2, '0')}T00:30:00Z`,
+    final_total: finalTotal,
+    decision: quote,
+    closing: closingLine === undefined ? null : { ...quote, line: closingLine },
+  }
+}
+
+const FLAT: BacktestStrategy = {
+  ...DEFAULT_STRATEGY,
+  staking: { method: 'flat', flat_amount: 100 },
+}
+
+Deno.test('entry rule picks the side outside the band', () => {
+  assertEquals(selectBet(FLAT, game('a', 1, 200, -5, 210))?.side, 'over')
+  assertEquals(selectBet(FLAT, game('b', 1, 240, 104, 210))?.side, 'under')
+  assertEquals(selectBet(FLAT, game('c', 1, 220, 50, 210)), null)
+
+  const alwaysOver = { ...FLAT, side: 'over' as const, entry: { ...FLAT.entry, over_max_percentile: null } }
+  assertEquals(selectBet(alwaysOver, game('c', 1, 220, 50, 210))?.side, 'over')
+
+  // At -110 an over at percentile 50 has no edge
+  const needsEdge = { ...alwaysOver, entry: { ...alwaysOver.entry, min_edge: 0.02 } }
+  assertEquals(selectBet(needsEdge, game('c', 1, 220, 50, 210)), null)
+})
+
+Deno.test('ledger, equity, drawdown and CLV', () => {
+  const games = [
+    game('g1', 1, 200, -5, 210, 202), // over wins, close moved up 2
+    game('g2', 2, 240, 104, 245, 241), // under loses, close moved against us by 1
+    game('g3', 3, 200, 0, 200), // push
+    game('g4', 4, 220, 50, 230), // no bet
+  ]
+  const result = runBacktest(FLAT, games)
+  const s = result.summary
+
+  assertEquals(s.games_considered, 4)
+  assertEquals(s.bets, 3)
+  assertEquals([s.wins, s.losses, s.pushes], [1, 1, 1])
+  assertEquals(result.ledger.map(l => l.result), ['win', 'loss', 'push'])
+  assertEquals(result.ledger[0].profit, 90.91)
+  assertEquals(s.profit, -9.09)
+  assertEquals(s.total_staked, 300)
+  assertEquals(s.roi, -3.03)
+  assertEquals(result.equity_curve.map(p => p.bankroll), [1000, 1090.91, 990.91, 990.91])
+  assertAlmostEquals(s.max_drawdown, 9.17, 0.01)
+  assertEquals(result.ledger.map(l => l.clv), [2, -1, null])
+  assertEquals(s.avg_clv, 0.5)
+  assertEquals(s.clv_beat_rate, 50)
+  assertEquals(s.sharpe !== null, true)
+})
+
+Deno.test('assumed odds override captured prices', () => {
+  const g = game('g1', 1, 200, -5, 210)
+  g.decision.over_price = 120
+  const captured = runBacktest(FLAT, [g])
+  const assumed = runBacktest({ ...FLAT, odds_source: 'assumed' }, [g])
+  assertEquals(captured.ledger[0].profit, 120)
+  assertEquals(assumed.ledger[0].profit, 90.91)
+  assertEquals(assumed.ledger[0].price_assumed, true)
+})
+
+Deno.test('normalizeStrategy fills defaults and rejects nonsense', () => {
+  const s = normalizeStrategy({ side: 'over', entry: { over_max_percentile: null }, staking: { method: 'kelly', kelly_fraction: '0.5' } })
+  assertEquals(s.side, 'over')
+  assertEquals(s.entry.over_max_percentile, null)
+  assertEquals(s.entry.under_min_percentile, 100)
+  assertEquals(s.staking.kelly_fraction, 0.5)
+  assertEquals(s.starting_bankroll, 1000)
+
+  assertThrows(() => normalizeStrategy({ side: 'sideways' }))
+  assertThrows(() => normalizeStrategy({ staking: { method: 'martingale' } }))
+  assertThrows(() => normalizeStrategy({ assumed_price: 50 }))
+})
@@ -0,0 +1,334 @@
+/**
+ * Backtest engine
+ *
+ * Replays a strategy over settled games using only the point-in-time edge
+ * snapshot taken before the decision cutoff (see edgeSnapshots.ts). The
+ * closing snapshot (last one before start) is used for CLV only.
+ */
+import { calculateConfidence, lineHitProbability, type DistributionSketch } from './percentiles.ts'
+import {
+  DEFAULT_ASSUMED_PRICE,
+  STAKING_METHODS,
+  americanToDecimal,
+  impliedProbability,
+  stakeFor,
+  type StakingRule,
+} from './staking.ts'
+
+export type BetSide = 'over' | 'under'
+export type SideRule = BetSide | 'both'
+export type OddsSource = 'captured' | 'assumed'
+
+export interface EntryRule {
+  /** Bet the over only when dk_line_percentile is at or below this (null = any) */
+  over_max_percentile: number | null
+  /** Bet the under only when dk_line_percentile is at or above this (null = any) */
+  under_min_percentile: number | null
+  /** Minimum model edge: hit probability minus the price's implied probability */
+  min_edge: number | null
+  /** Minimum confidence score (0-100) */
+  min_confidence: number | null
+}
+
+export interface BacktestStrategy {
+  side: SideRule
+  entry: EntryRule
+  staking: StakingRule
+  odds_source: OddsSource
+  /** American price used when odds_source is 'assumed' or no price was captured */
+  assumed_price: number
+  starting_bankroll: number
+}
+
+/** What was known about a game's market and percentiles at one moment */
+export interface BacktestQuote {
+  line: number
+  over_price: number | null
+  under_price: number | null
+  dk_line_percentile: number | null
+  distribution: DistributionSketch | null
+  n_used: number | null
+  segment_used: string | null
+}
+
+export interface BacktestGame {
+  game_id: string
+  start_time_utc: string
+  final_total: number
+  decision: BacktestQuote
+  closing: BacktestQuote | null
+}
+
+export interface LedgerEntry {
+  game_id: string
+  date: string
+  side: BetSide
+  line: number
+  /** American price the bet was settled at */
+  price: number
+  price_assumed: boolean
+  stake: number
+  hit_probability: number | null
+  edge: number | null
+  confidence: number
+  final_total: number
+  result: 'win' | 'loss' | 'push'
+  profit: number
+  bankroll: number
+  closing_line: number | null
+  /** Points of line value versus the close; positive = beat the closing line */
+  clv: number | null
+}
+
+export interface EquityPoint {
+  bet: number
+  date: string
+  bankroll: number
+}
+
+export interface BacktestSummary {
+  games_considered: number
+  bets: number
+  wins: number
+  losses: number
+  pushes: number
+  win_rate: number | null
+  total_staked: number
+  profit: number
+  /** Profit over total staked, percent */
+  roi: number | null
+  starting_bankroll: number
+  final_bankroll: number
+  /** Largest peak-to-trough fall of the bankroll, percent of the peak */
+  max_drawdown: number
+  /** Mean over standard deviation of daily bankroll returns (not annualised) */
+  sharpe: number | null
+  avg_clv: number | null
+  /** Share of bets with a known close that beat it */
+  clv_beat_rate: number | null
+}
+
+export interface BacktestResult {
+  strategy: BacktestStrategy
+  summary: BacktestSummary
+  equity_curve: EquityPoint[]
+  ledger: LedgerEntry[]
+}
+
+export const DEFAULT_STRATEGY: BacktestStrategy = {
+  side: 'both',
+  entry: { over_max_percentile: 0, under_min_percentile: 100, min_edge: null, min_confidence: null },
+  staking: { method: 'percent', percent: 5 },
+  odds_source: 'captured',
+  assumed_price: DEFAULT_ASSUMED_PRICE,
+  starting_bankroll: 1000,
+}
+
+function numberOr<T>(value: unknown, fallback: T): number | T {
+  if (value === null || value === undefined || value === '') return fallback
+  const n = Number(value)
+  return Number.isFinite(n) ? n : fallback
+}
+
+/**
+ * Fill defaults and validate a strategy from a request body. Throws on values
+ * that can't be interpreted.
+ */
+export function normalizeStrategy(input: unknown): BacktestStrategy {
+  const raw = (input ?? {}) as Record<string, unknown>
+  const entry = (raw.entry ?? {}) as Record<string, unknown>
+  const staking = (raw.staking ?? {}) as Record<string, unknown>
+
+  const side = String(raw.side ?? DEFAULT_STRATEGY.side) as SideRule
+  if (!['over', 'under', 'both'].includes(side)) throw new Error(`Unknown side: ${side}`)
+
+  const method = String(staking.method ?? DEFAULT_STRATEGY.staking.method) as StakingRule['method']
+  if (!STAKING_METHODS.includes(method)) throw new Error(`Unknown staking method: ${method}`)
+
+  const oddsSource = String(raw.odds_source ?? DEFAULT_STRATEGY.odds_source) as OddsSource
+  if (!['captured', 'assumed'].includes(oddsSource)) throw new Error(`Unknown odds source: ${oddsSource}`)
+
+  const assumedPrice = numberOr(raw.assumed_price, DEFAULT_STRATEGY.assumed_price)
+  if (assumedPrice > -100 && assumedPrice < 100) throw new Error(`Invalid American price: ${assumedPrice}`)
+
+  const startingBankroll = numberOr(raw.starting_bankroll, DEFAULT_STRATEGY.starting_bankroll)
+  if (startingBankroll <= 0) throw new Error('starting_bankroll must be positive')
+
+  return {
+    side,
+    entry: {
+      over_max_percentile: 'over_max_percentile' in entry
+        ? numberOr(entry.over_max_percentile, null)
+        : DEFAULT_STRATEGY.entry.over_max_percentile,
+      under_min_percentile: 'under_min_percentile' in entry
+        ? numberOr(entry.under_min_percentile, null)
+        : DEFAULT_STRATEGY.entry.under_min_percentile,
+      min_edge: numberOr(entry.min_edge, null),
+      min_confidence: numberOr(entry.min_confidence, null),
+    },
+    staking: {
+      method,
+      flat_amount: numberOr(staking.flat_amount, undefined),
+      percent: numberOr(staking.percent, undefined),
+      kelly_fraction: numberOr(staking.kelly_fraction, undefined),
+      max_stake_pct: numberOr(staking.max_stake_pct, undefined),
+    },
+    odds_source: oddsSource,
+    assumed_price: assumedPrice,
+    starting_bankroll: startingBankroll,
+  }
+}
+
+interface Candidate {
+  side: BetSide
+  price: number
+  priceAssumed: boolean
+  hitProbability: number | null
+  edge: number | null
+}
+
+function priceFor(strategy: BacktestStrategy, quote: BacktestQuote, side: BetSide): { price: number; assumed: boolean } {
+  const captured = side === 'over' ? quote.over_price : quote.under_price
+  if (strategy.odds_source === 'captured' && captured !== null) return { price: captured, assumed: false }
+  return { price: strategy.assumed_price, assumed: true }
+}
+
+/** The side to bet on a game under `strategy`, or null to pass */
+export function selectBet(strategy: BacktestStrategy, game: BacktestGame): Candidate | null {
+  const { decision } = game
+  const { entry } = strategy
+  const sides: BetSide[] = strategy.side === 'both' ? ['over', 'under'] : [strategy.side]
+
+  if (entry.min_confidence !== null) {
+    const confidence = calculateConfidence({ nGames: decision.n_used ?? 0, segment: decision.segment_used }).score
+    if (confidence < entry.min_confidence) return null
+  }
+
+  let best: Candidate | null = null
+  for (const side of sides) {
+    const threshold = side === 'over' ? entry.over_max_percentile : entry.under_min_percentile
+    if (threshold !== null) {
+      if (decision.dk_line_percentile === null) continue
+      if (side === 'over' ? decision.dk_line_percentile > threshold : decision.dk_line_percentile < threshold) continue
+    }
+
+    const { price, assumed } = priceFor(strategy, decision, side)
+    const hitProbability = lineHitProbability(decision.line, decision.dk_line_percentile, decision.distribution, side)
+    const edge = hitProbability === null ? null : hitProbability - impliedProbability(americanToDecimal(price))
+    if (entry.min_edge !== null && (edge === null || edge < entry.min_edge)) continue
+
+    const candidate = { side, price, priceAssumed: assumed, hitProbability, edge }
+    if (!best || (edge ?? -Infinity) > (best.edge ?? -Infinity)) best = candidate
+  }
+  return best
+}
+
+function round(value: number, digits = 2): number {
+  const f = 10 ** digits
+  return Math.round(value * f) / f
+}
+
+function sharpeRatio(returns: number[]): number | null {
+  if (returns.length < 2) return null
+  const mean = returns.reduce((s, r) => s + r, 0) / returns.length
+  const variance = returns.reduce((s, r) => s + (r - mean) ** 2, 0) / (returns.length - 1)
+  const sd = Math.sqrt(variance)
+  return sd > 0 ? round(mean / sd, 3) : null
+}
+
+/** Run `strategy` over games in start-time order */
+export function runBacktest(strategy: BacktestStrategy, games: BacktestGame[]): BacktestResult {
+  const ordered = [...games].sort((a, b) => a.start_time_utc.localeCompare(b.start_time_utc))
+  const ledger: LedgerEntry[] = []
+  const equity: EquityPoint[] = []
+  let bankroll = strategy.starting_bankroll
+  let peak = bankroll
+  let maxDrawdown = 0
+
+  // Daily returns for Sharpe: profit over the bankroll at the start of the day
+  const dailyReturns: number[] = []
+  let day: string | null = null
+  let dayStart = bankroll
+
+  for (const game of ordered) {
+    if (bankroll <= 0) break
+    const bet = selectBet(strategy, game)
+    if (!bet) continue
+
+    const decimal = americanToDecimal(bet.price)
+    const stake = stakeFor(strategy.staking, bankroll, bet.hitProbability, decimal)
+    if (stake <= 0) continue
+
+    const date = game.start_time_utc.slice(0, 10)
+    if (date !== day) {
+      if (day !== null) dailyReturns.push((bankroll - dayStart) / dayStart)
+      day = date
+      dayStart = bankroll
+    }
+
+    const line = game.decision.line
+    const result: LedgerEntry['result'] = game.final_total === line
+      ? 'push'
+      : (game.final_total > line) === (bet.side === 'over') ? 'win' : 'loss'
+    const profit = result === 'push' ? 0 : result === 'win' ? stake * (decimal - 1) : -stake
+    bankroll = round(bankroll + profit)
+
+    peak = Math.max(peak, bankroll)
+    maxDrawdown = Math.max(maxDrawdown, ((peak - bankroll) / peak) * 100)
+
+    const closingLine = game.closing?.line ?? null
+    const clv = closingLine === null ? null : bet.side === 'over' ? closingLine - line : line - closingLine
+
+    ledger.push({
+      game_id: game.game_id,
+      date,
+      side: bet.side,
+      line,
+      price: bet.price,
+      price_assumed: bet.priceAssumed,
+      stake,
+      hit_probability: bet.hitProbability === null ? null : round(bet.hitProbability, 4),
+      edge: bet.edge === null ? null : round(bet.edge, 4),
+      confidence: calculateConfidence({ nGames: game.decision.n_used ?? 0, segment: game.decision.segment_used }).score,
+      final_total: game.final_total,
+      result,
+      profit: round(profit),
+      bankroll,
+      closing_line: closingLine,
+      clv: clv === null ? null : round(clv, 1),
+    })
+    equity.push({ bet: ledger.length, date, bankroll })
+  }
+  if (day !== null) dailyReturns.push((bankroll - dayStart) / dayStart)
+
+  const wins = ledger.filter(l => l.result === 'win').length
+  const losses = ledger.filter(l => l.result === 'loss').length
+  const totalStaked = round(ledger.reduce((s, l) => s + l.stake, 0))
+  const profit = round(bankroll - strategy.starting_bankroll)
+  const withClv = ledger.filter(l => l.clv !== null)
+
+  return {
+    strategy,
+    summary: {
+      games_considered: ordered.length,
+      bets: ledger.length,
+      wins,
+      losses,
+      pushes: ledger.length - wins - losses,
+      win_rate: wins + losses > 0 ? round((wins / (wins + losses)) * 100, 1) : null,
+      total_staked: totalStaked,
+      profit,
+      roi: totalStaked > 0 ? round((profit / totalStaked) * 100) : null,
+      starting_bankroll: strategy.starting_bankroll,
+      final_bankroll: bankroll,
+      max_drawdown: round(maxDrawdown),
+      sharpe: sharpeRatio(dailyReturns),
+      avg_clv: withClv.length > 0 ? round(withClv.reduce((s, l) => s + l.clv!, 0) / withClv.length) : null,
+      clv_beat_rate: withClv.length > 0
+        ? round((withClv.filter(l => l.clv! > 0).length / withClv.length) * 100, 1)
+        : null,
+    },
+    equity_curve: [{ bet: 0, date: ordered[0]?.start_time_utc.slice(0, 10) ?? '', bankroll: strategy.starting_bankroll }, ...equity],
+    ledger,
+  }
+}
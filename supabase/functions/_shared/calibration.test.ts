@@ -0,0 +1,90 @@
+// Fixtures for the calibration report.
+// Run with: deno test supabase/functions/_shared
+import { assertAlmostEquals, assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import {
+  buildCalibrationReport,
+  bucketFor,
+  predictedOverProbability,
+  sampleBandFor,
+  summarize,
+  type CalibrationRow,
+} from './calibration.ts'
+import { buildSketch } from './percentiles.ts'
+
+const EPS = 1e-9
+
+function row(overrides: Partial<CalibrationRow>): CalibrationRow {
+  return {
+    sport_id: 'nba',
+    segment_used: 'h2h_3y',
+    n_used: 12,
+    dk_total_line: 220.5,
+    dk_line_percentile: 50,
+    final_total: 225,
+    ...overrides,
+  }
+}
+
+Deno.test('dk_line_percentile maps back onto the full distribution', () => {
+  // 0 = at P05 -> 95% over, 100 = at P95 -> 5% over, 50 = median
+  assertAlmostEquals(predictedOverProbability(row({ dk_line_percentile: 0 }))!, 0.95, EPS)
+  assertAlmostEquals(predictedOverProbability(row({ dk_line_percentile: 100 }))!, 0.05, EPS)
+  assertAlmostEquals(predictedOverProbability(row({ dk_line_percentile: 50 }))!, 0.5, EPS)
+  assertEquals(predictedOverProbability(row({ dk_line_percentile: 110 })), 0)
+  assertEquals(predictedOverProbability(row({ dk_line_percentile: null })), null)
+})
+
+Deno.test('stored distribution takes precedence over dk_line_percentile', () => {
+  const distribution = buildSketch([200, 210, 220, 230, 240])
+  const p = predictedOverProbability(row({ dk_total_line: 220, dk_line_percentile: 90, distribution }))
+  assertEquals(p, 0.5)
+})
+
+Deno.test('buckets and sample bands', () => {
+  assertEquals(bucketFor(-3), { key: '<0', lo: null, hi: 0 })
+  assertEquals(bucketFor(0), { key: '0-5', lo: 0, hi: 5 })
+  assertEquals(bucketFor(97.5), { key: '95-100', lo: 95, hi: 100 })
+  assertEquals(bucketFor(100), { key: '100+', lo: 100, hi: null })
+
+  assertEquals(sampleBandFor(5), 'n<10')
+  assertEquals(sampleBandFor(10), 'n10-19')
+  assertEquals(sampleBandFor(49), 'n20-49')
+  assertEquals(sampleBandFor(120), 'n50+')
+  assertEquals(sampleBandFor(null), 'n<10')
+})
+
+Deno.test('brier and log-loss on a perfectly hedged model', () => {
+  // Four coin flips at 50%: Brier 0.25, log-loss ln 2
+  const rows = [
+    row({ final_total: 230 }),
+    row({ final_total: 210 }),
+    row({ final_total: 231 }),
+    row({ final_total: 200 }),
+    row({ final_total: 220.5 }), // push
+  ]
+  const summary = summarize(rows)
+  assertEquals(summary.n, 4)
+  assertEquals(summary.pushes, 1)
+  assertAlmostEquals(summary.brier!, 0.25, EPS)
+  assertAlmostEquals(summary.log_loss!, Math.LN2, EPS)
+  assertEquals(summary.realized_over_rate, 0.5)
+  assertEquals(summary.buckets.length, 1)
+  assertEquals(summary.buckets[0].key, '50-55')
+  assertEquals(summary.buckets[0].realized, 0.5)
+})
+
+Deno.test('report splits by sport, segment and sample band', () => {
+  const rows = [
+    row({ sport_id: 'nba', dk_line_percentile: 2, final_total: 230 }),
+    row({ sport_id: 'nba', dk_line_percentile: 97, final_total: 230, n_used: 30 }),
+    row({ sport_id: 'nfl', segment_used: 'hybrid_form', dk_line_percentile: 60, dk_total_line: 44.5, final_total: 41 }),
+  ]
+  const report = buildCalibrationReport(rows)
+
+  assertEquals(report.overall.n, 3)
+  assertEquals(Object.keys(report.by_sport).sort(), ['nba', 'nfl'])
+  assertEquals(report.by_sport.nba.buckets.map(b => b.key), ['0-5', '95-100'])
+  assertEquals(report.by_segment.hybrid_form.n, 1)
+  assertEquals(report.by_sample_band['n20-49'].n, 1)
+  assertEquals(report.by_sample_band['n10-19'].n, 2)
+})
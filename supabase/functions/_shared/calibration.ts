@@ -0,0 +1,202 @@
+/**
+ * Calibration of the percentile model
+ *
+ * Answers "are P95 lines actually exceeded 5% of the time?". Every settled
+ * edge carries a predicted over-probability (from its stored distribution, or
+ * from dk_line_percentile for older rows) and a realized outcome; we bucket by
+ * dk_line_percentile and score with Brier and log-loss.
+ */
+import { lineHitProbability, type DistributionSketch } from './percentiles.ts'
+
+export const CALIBRATION_BUCKET_WIDTH = 5
+
+// Probabilities are clamped this far from 0/1 before taking logs
+const LOG_LOSS_EPS = 0.005
+
+export interface SampleBand {
+  key: string
+  min: number
+  max: number | null
+}
+
+export const SAMPLE_BANDS: SampleBand[] = [
+  { key: 'n<10', min: 0, max: 9 },
+  { key: 'n10-19', min: 10, max: 19 },
+  { key: 'n20-49', min: 20, max: 49 },
+  { key: 'n50+', min: 50, max: null },
+]
+
+export interface CalibrationRow {
+  sport_id: string
+  segment_used: string | null
+  n_used: number | null
+  dk_total_line: number
+  dk_line_percentile: number | null
+  distribution?: DistributionSketch | null
+  final_total: number
+}
+
+export interface CalibrationBucket {
+  key: string
+  /** Inclusive lower bound of dk_line_percentile (null = open-ended) */
+  lo: number | null
+  hi: number | null
+  n: number
+  /** Mean predicted over-probability (0-1) */
+  predicted: number
+  /** Realized over-rate (0-1) */
+  realized: number
+  /** Wilson 95% interval on the realized rate */
+  realized_lo: number
+  realized_hi: number
+}
+
+export interface CalibrationSummary {
+  n: number
+  pushes: number
+  brier: number | null
+  log_loss: number | null
+  mean_predicted: number | null
+  realized_over_rate: number | null
+  buckets: CalibrationBucket[]
+}
+
+export interface CalibrationReport {
+  overall: CalibrationSummary
+  by_sport: Record<string, CalibrationSummary>
+  by_segment: Record<string, CalibrationSummary>
+  by_sample_band: Record<string, CalibrationSummary>
+}
+
+/**
+ * Model probability that the game goes over the DK line, from the stored
+ * distribution or, for older rows, from dk_line_percentile.
+ */
+export function predictedOverProbability(row: CalibrationRow): number | null {
+  return lineHitProbability(row.dk_total_line, row.dk_line_percentile, row.distribution, 'over')
+}
+
+export function sampleBandFor(nUsed: number | null): string {
+  const n = nUsed ?? 0
+  const band = SAMPLE_BANDS.find(b => n >= b.min && (b.max === null || n <= b.max))
+  return (band ?? SAMPLE_BANDS[0]).key
+}
+
+// Bucket key and bounds for a dk_line_percentile (-10..110)
+export function bucketFor(percentile: number): { key: string; lo: number | null; hi: number | null } {
+  if (percentile < 0) return { key: '<0', lo: null, hi: 0 }
+  if (percentile >= 100) return { key: '100+', lo: 100, hi: null }
+  const lo = Math.floor(percentile / CALIBRATION_BUCKET_WIDTH) * CALIBRATION_BUCKET_WIDTH
+  const hi = lo + CALIBRATION_BUCKET_WIDTH
+  return { key: `${lo}-${hi}`, lo, hi }
+}
+
+function wilsonInterval(successes: number, n: number): [number, number] {
+  if (n === 0) return [0, 1]
+  const z = 1.96
+  const p = successes / n
+  const denom = 1 + (z * z) / n
+  const centre = (p + (z * z) / (2 * n)) / denom
+  const margin = (z * Math.sqrt((p * (1 - p)) / n + (z * z) / (4 * n * n))) / denom
+  return [Math.max(0, centre - margin), Math.min(1, centre + margin)]
+}
+
+interface Scored {
+  predicted: number
+  over: 0 | 1
+  percentile: number
+}
+
+// Rows without a dk_line_percentile cannot be bucketed and are skipped
+function score(row: CalibrationRow): Scored | 'push' | null {
+  if (row.dk_line_percentile === null) return null
+  if (row.final_total === row.dk_total_line) return 'push'
+  const predicted = predictedOverProbability(row)
+  if (predicted === null) return null
+
+  return { predicted, over: row.final_total > row.dk_total_line ? 1 : 0, percentile: row.dk_line_percentile }
+}
+
+export function summarize(rows: CalibrationRow[]): CalibrationSummary {
+  const scored: Scored[] = []
+  let pushes = 0
+  for (const row of rows) {
+    const s = score(row)
+    if (s === 'push') pushes++
+    else if (s) scored.push(s)
+  }
+
+  const n = scored.length
+  if (n === 0) {
+    return { n: 0, pushes, brier: null, log_loss: null, mean_predicted: null, realized_over_rate: null, buckets: [] }
+  }
+
+  let brier = 0
+  let logLoss = 0
+  let predictedSum = 0
+  let overs = 0
+  const byBucket = new Map<string, { lo: number | null; hi: number | null; items: Scored[] }>()
+
+  for (const s of scored) {
+    brier += (s.predicted - s.over) ** 2
+    const p = Math.min(1 - LOG_LOSS_EPS, Math.max(LOG_LOSS_EPS, s.predicted))
+    logLoss -= s.over ? Math.log(p) : Math.log(1 - p)
+    predictedSum += s.predicted
+    overs += s.over
+
+    const { key, lo, hi } = bucketFor(s.percentile)
+    if (!byBucket.has(key)) byBucket.set(key, { lo, hi, items: [] })
+    byBucket.get(key)!.items.push(s)
+  }
+
+  const buckets: CalibrationBucket[] = [...byBucket.entries()]
+    .map(([key, { lo, hi, items }]) => {
+      const bucketOvers = items.reduce((sum, i) => sum + i.over, 0)
+      const [realizedLo, realizedHi] = wilsonInterval(bucketOvers, items.length)
+      return {
+        key,
+        lo,
+        hi,
+        n: items.length,
+        predicted: items.reduce((sum, i) => sum + i.predicted, 0) / items.length,
+        realized: bucketOvers / items.length,
+        realized_lo: realizedLo,
+        realized_hi: realizedHi,
+      }
+    })
+    .sort((a, b) => (a.lo ?? -Infinity) - (b.lo ?? -Infinity))
+
+  return {
+    n,
+    pushes,
+    brier: brier / n,
+    log_loss: logLoss / n,
+    mean_predicted: predictedSum / n,
+    realized_over_rate: overs / n,
+    buckets,
+  }
+}
+
+function groupBy(rows: CalibrationRow[], keyOf: (row: CalibrationRow) => string): Record<string, CalibrationSummary> {
+  const groups: Record<string, CalibrationRow[]> = {}
+  for (const row of rows) {
+    const key = keyOf(row)
+    if (!groups[key]) groups[key] = []
+    groups[key].push(row)
+  }
+
+  const out: Record<string, CalibrationSummary> = {}
+  for (const [key, group] of Object.entries(groups)) {
+    out[key] = summarize(group)
+  }
+  return out
+}
+
+export function buildCalibrationReport(rows: CalibrationRow[]): CalibrationReport {
+  return {
+    overall: summarize(rows),
+    by_sport: groupBy(rows, r => r.sport_id),
+    by_segment: groupBy(rows, r => r.segment_used ?? 'unknown'),
+    by_sample_band: groupBy(rows, r => sampleBandFor(r.n_used)),
+  }
+}
@@ -0,0 +1,57 @@
+// Fixtures for closing line value.
+// Run with: deno test supabase/functions/_shared
+import { assertAlmostEquals, assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import { classifyEdge, closingLineValue, groupClv, noVigProbability, summarizeClv } from './clv.ts'
+
+// Totals spread evenly from 200 to 300: each point is 1% of the mass
+const UNIFORM = { q: Array.from({ length: 21 }, (_, i) => 200 + i * 5), n: 100, n_eff: 100 }
+
+Deno.test('edges classify like auto-bet signals', () => {
+  assertEquals(classifyEdge(3), { side: 'over', strength: 'STRONG' })
+  assertEquals(classifyEdge(90), { side: 'under', strength: 'MODERATE' })
+  assertEquals(classifyEdge(24), { side: 'over', strength: 'WEAK' })
+  assertEquals(classifyEdge(50), null)
+  assertEquals(classifyEdge(8, { strong_edge_threshold: 10, moderate_edge_threshold: 20, weak_edge_threshold: 30 })?.strength, 'STRONG')
+})
+
+Deno.test('no-vig probability removes the juice', () => {
+  assertEquals(noVigProbability('over', -110, -110), 0.5)
+  assertEquals(noVigProbability('under', null, null), 0.5)
+  // -150 / +130: 0.6 and 0.4348 implied, 0.58 fair
+  assertAlmostEquals(noVigProbability('over', -150, 130), 0.58, 1e-3)
+})
+
+Deno.test('clv in points and probability', () => {
+  // Over 220, close 222 at -110: two points and 2% of model mass in our favour
+  const moved = closingLineValue('over', 220, 0.5, { line: 222, over_price: -110, under_price: -110, distribution: UNIFORM })
+  assertEquals(moved.clv_points, 2)
+  assertAlmostEquals(moved.clv_prob!, 0.02, 1e-4)
+
+  // Same number, juice moved to our side
+  const priced = closingLineValue('under', 220, 0.5, { line: 220, over_price: 120, under_price: -140 })
+  assertEquals(priced.clv_points, 0)
+  assertEquals(priced.clv_prob! > 0, true)
+
+  // Under against a close that rose without a distribution: points only
+  const noModel = closingLineValue('under', 220, 0.5, { line: 223, over_price: -110, under_price: -110 })
+  assertEquals(noModel.clv_points, -3)
+  assertEquals(noModel.clv_prob, null)
+
+  // Kalshi: paid 55c for a contract worth 50c at the close
+  assertAlmostEquals(closingLineValue('over', 220, 0.55, { line: 220, over_price: null, under_price: null }).clv_prob!, -0.05, 1e-4)
+})
+
+Deno.test('summaries judge on probability, then points', () => {
+  const rows = [
+    { sport: 'nba', clv_points: 1, clv_prob: 0.02 },
+    { sport: 'nba', clv_points: 1, clv_prob: -0.01 },
+    { sport: 'nfl', clv_points: -0.5, clv_prob: null },
+  ]
+  const s = summarizeClv(rows)
+  assertEquals(s.count, 3)
+  assertEquals(s.avg_points, 0.5)
+  assertEquals(s.avg_prob, 0.5)
+  assertEquals(s.beat_rate, 33.3)
+  assertEquals(groupClv(rows, r => r.sport).map(g => [g.group, g.count]), [['nba', 2], ['nfl', 1]])
+  assertEquals(summarizeClv([]).avg_points, null)
+})
@@ -0,0 +1,183 @@
+/**
+ * Closing line value
+ *
+ * A bet beats the close when the market moved toward it after it was taken.
+ * refresh-odds marks the last odds snapshot before each game's start as that
+ * game's closing line (`odds_snapshots.is_closing`) and scores every signal,
+ * lock-parlay leg and Kalshi order on the game against it, in line points and
+ * in no-vig implied probability.
+ */
+import { hitProbability, type DistributionSketch } from './percentiles.ts'
+import { DEFAULT_ASSUMED_PRICE, americanToDecimal, impliedProbability } from './staking.ts'
+
+export type ClvSubject = 'signal' | 'parlay_leg' | 'kalshi_order'
+export type ClvSide = 'over' | 'under'
+export type EdgeStrength = 'STRONG' | 'MODERATE' | 'WEAK'
+
+export const CLV_SUBJECT_LABELS: Record<ClvSubject, string> = {
+  signal: 'Signals',
+  parlay_leg: 'Lock parlay legs',
+  kalshi_order: 'Kalshi orders',
+}
+
+export const EDGE_STRENGTHS: EdgeStrength[] = ['STRONG', 'MODERATE', 'WEAK']
+
+/** Percentile triggers, as stored on betting_config */
+export interface EdgeThresholds {
+  strong_edge_threshold: number
+  moderate_edge_threshold: number
+  weak_edge_threshold: number
+}
+
+export const DEFAULT_EDGE_THRESHOLDS: EdgeThresholds = {
+  strong_edge_threshold: 5,
+  moderate_edge_threshold: 15,
+  weak_edge_threshold: 25,
+}
+
+/** Thresholds from a betting_config row, defaults for anything unset */
+export function resolveEdgeThresholds(config: Partial<Record<keyof EdgeThresholds, number | null>> | null | undefined): EdgeThresholds {
+  return {
+    strong_edge_threshold: config?.strong_edge_threshold ?? DEFAULT_EDGE_THRESHOLDS.strong_edge_threshold,
+    moderate_edge_threshold: config?.moderate_edge_threshold ?? DEFAULT_EDGE_THRESHOLDS.moderate_edge_threshold,
+    weak_edge_threshold: config?.weak_edge_threshold ?? DEFAULT_EDGE_THRESHOLDS.weak_edge_threshold,
+  }
+}
+
+/** Signal side and strength for a line percentile, null inside the weak band (same rule as auto-bet) */
+export function classifyEdge(
+  percentile: number,
+  thresholds: EdgeThresholds = DEFAULT_EDGE_THRESHOLDS
+): { side: ClvSide; strength: EdgeStrength } | null {
+  const tiers: Array<[EdgeStrength, number]> = [
+    ['STRONG', thresholds.strong_edge_threshold],
+    ['MODERATE', thresholds.moderate_edge_threshold],
+    ['WEAK', thresholds.weak_edge_threshold],
+  ]
+  for (const [strength, threshold] of tiers) {
+    if (percentile <= threshold) return { side: 'over', strength }
+    if (percentile >= 100 - threshold) return { side: 'under', strength }
+  }
+  return null
+}
+
+/**
+ * Fair probability of `side` with the vig removed from an over/under pair.
+ * A missing price is taken as the standard -110, so an unpriced line is 50/50.
+ */
+export function noVigProbability(side: ClvSide, overPrice: number | null, underPrice: number | null): number {
+  const over = impliedProbability(americanToDecimal(overPrice ?? DEFAULT_ASSUMED_PRICE))
+  const under = impliedProbability(americanToDecimal(underPrice ?? DEFAULT_ASSUMED_PRICE))
+  return (side === 'over' ? over : under) / (over + under)
+}
+
+/** The closing market for a game */
+export interface ClosingQuote {
+  line: number
+  over_price: number | null
+  under_price: number | null
+  /** Model distribution at the close; used to price our line when the close moved off it */
+  distribution?: DistributionSketch | null
+}
+
+export interface ClvResult {
+  closing_line: number
+  /** Points the close moved in our favour (over: close - entry, under: entry - close) */
+  clv_points: number
+  /** Fair probability of our bet, at our line, as of the close */
+  closing_probability: number | null
+  /** closing_probability minus the probability paid at entry */
+  clv_prob: number | null
+}
+
+function round(value: number, digits: number): number {
+  const f = 10 ** digits
+  return Math.round(value * f) / f
+}
+
+/**
+ * CLV of a bet on `side` at `entryLine`, bought at `entryProbability` (no-vig
+ * probability for a sportsbook line, price / 100 for a Kalshi contract).
+ *
+ * When the close sits on a different number, the closing fair probability at
+ * the closing line is shifted by the model's probability mass between the two
+ * lines. Without a distribution that shift is unknown and clv_prob is null.
+ */
+export function closingLineValue(
+  side: ClvSide,
+  entryLine: number,
+  entryProbability: number | null,
+  closing: ClosingQuote
+): ClvResult {
+  const clvPoints = side === 'over' ? closing.line - entryLine : entryLine - closing.line
+  const atClose = noVigProbability(side, closing.over_price, closing.under_price)
+
+  let closingProbability: number | null = null
+  if (closing.line === entryLine) {
+    closingProbability = atClose
+  } else if (closing.distribution) {
+    const shift = hitProbability(closing.distribution, entryLine, side) - hitProbability(closing.distribution, closing.line, side)
+    closingProbability = Math.min(1, Math.max(0, atClose + shift))
+  }
+
+  return {
+    closing_line: closing.line,
+    clv_points: round(clvPoints, 1),
+    closing_probability: closingProbability === null ? null : round(closingProbability, 4),
+    clv_prob: closingProbability === null || entryProbability === null
+      ? null
+      : round(closingProbability - entryProbability, 4),
+  }
+}
+
+// ============================================================
+// SUMMARIES
+// ============================================================
+
+export interface ClvScored {
+  clv_points: number | null
+  clv_prob: number | null
+}
+
+export interface ClvSummary {
+  count: number
+  avg_points: number | null
+  /** Average probability CLV, in percentage points */
+  avg_prob: number | null
+  /** Share that beat the close, percent; judged on probability when known, else on points */
+  beat_rate: number | null
+}
+
+export function summarizeClv(records: ClvScored[]): ClvSummary {
+  const withPoints = records.filter(r => r.clv_points !== null)
+  const withProb = records.filter(r => r.clv_prob !== null)
+  const judged = records.filter(r => r.clv_prob !== null || r.clv_points !== null)
+  const beat = judged.filter(r => (r.clv_prob !== null ? r.clv_prob : r.clv_points!) > 0)
+
+  return {
+    count: records.length,
+    avg_points: withPoints.length > 0
+      ? round(withPoints.reduce((s, r) => s + Number(r.clv_points), 0) / withPoints.length, 2)
+      : null,
+    avg_prob: withProb.length > 0
+      ? round((withProb.reduce((s, r) => s + Number(r.clv_prob), 0) / withProb.length) * 100, 2)
+      : null,
+    beat_rate: judged.length > 0 ? round((beat.length / judged.length) * 100, 1) : null,
+  }
+}
+
+/** Summaries per value of `key`, largest groups first */
+export function groupClv<T extends ClvScored>(
+  records: T[],
+  key: (record: T) => string
+): Array<{ group: string } & ClvSummary> {
+  const groups = new Map<string, T[]>()
+  for (const record of records) {
+    const k = key(record)
+    if (!groups.has(k)) groups.set(k, [])
+    groups.get(k)!.push(record)
+  }
+  return [...groups.entries()]
+    .map(([group, rows]) => ({ group, ...summarizeClv(rows) }))
+    .sort((a, b) => b.count - a.count)
+}
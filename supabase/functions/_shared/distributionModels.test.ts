@@ -0,0 +1,73 @@
+// Fixtures for the smoothed distribution models.
+// Run with: deno test supabase/functions/_shared
+import { assert, assertAlmostEquals, assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import {
+  applyDistributionModel,
+  kdeSketch,
+  resolveDistributionModel,
+  shrinkSketch,
+} from './distributionModels.ts'
+import { buildSketch, selectBestSegment, type MatchupGameTotal } from './percentiles.ts'
+
+const NOW = new Date('2026-10-19T12:00:00Z')
+
+// Five symmetric meetings: the empirical P05/P95 sit just inside min/max
+const FIVE_GAMES: MatchupGameTotal[] = [200, 210, 220, 230, 240].map((total, i) => ({
+  total,
+  played_at_utc: `2026-0${i + 1}-15T00:00:00Z`,
+}))
+
+// League-wide season: 100 totals evenly spread over 190..229.6
+const LEAGUE = buildSketch(Array.from({ length: 100 }, (_, i) => 190 + i * 0.4))
+
+Deno.test('resolveDistributionModel defaults to empirical', () => {
+  assertEquals(resolveDistributionModel({ nba: 'kde', nfl: 'shrinkage' }, 'nba'), 'kde')
+  assertEquals(resolveDistributionModel({ nba: 'kde' }, 'nhl'), 'empirical')
+  assertEquals(resolveDistributionModel({ nba: 'bogus' }, 'nba'), 'empirical')
+  assertEquals(resolveDistributionModel(null, 'nba'), 'empirical')
+})
+
+Deno.test('kde widens a small sample beyond its extremes', () => {
+  const raw = selectBestSegment(FIVE_GAMES, NOW)!
+  const kde = applyDistributionModel(raw, 'kde')
+
+  assertEquals(kde.model, 'kde')
+  assertEquals(kde.segment_used, 'h2h_1y')
+  assertEquals(kde.totals, raw.totals)
+  assert(kde.p05 < raw.p05, `kde p05 ${kde.p05} should be below raw ${raw.p05}`)
+  assert(kde.p95 > raw.p95, `kde p95 ${kde.p95} should be above raw ${raw.p95}`)
+  assertAlmostEquals(kde.median, 220, 0.01)
+  assertAlmostEquals(kde.p05 + kde.p95, 440, 0.02)
+})
+
+Deno.test('kde of identical totals stays centred on them', () => {
+  const sketch = kdeSketch([5, 5, 5, 5, 5].map(total => ({ total, weight: 1 })))
+  assertAlmostEquals(sketch.q[10], 5, 0.01)
+  assert(sketch.q[1] < 5 && sketch.q[19] > 5)
+})
+
+Deno.test('shrinkage blends toward the league by effective sample size', () => {
+  const raw = selectBestSegment(FIVE_GAMES, NOW)!
+  // n_eff = 5 -> matchup weight 5 / (5 + 10) = 1/3
+  const shrunk = shrinkSketch(raw.distribution, LEAGUE)
+  for (let i = 0; i < shrunk.q.length; i++) {
+    assertAlmostEquals(shrunk.q[i], raw.distribution.q[i] / 3 + (2 * LEAGUE.q[i]) / 3, 0.01)
+  }
+
+  const result = applyDistributionModel(raw, 'shrinkage', LEAGUE)
+  assertEquals(result.model, 'shrinkage')
+  assertEquals(result.p05, shrunk.q[1])
+  assertEquals(result.median, shrunk.q[10])
+  assertEquals(result.p95, shrunk.q[19])
+})
+
+Deno.test('shrinkage without a usable league sample stays empirical', () => {
+  const raw = selectBestSegment(FIVE_GAMES, NOW)!
+  const thinLeague = buildSketch([210, 220, 230])
+
+  const result = applyDistributionModel(raw, 'shrinkage', thinLeague)
+  assertEquals(result.model, 'empirical')
+  assertEquals(result.p05, raw.p05)
+  assertEquals(result.p95, raw.p95)
+  assertEquals(applyDistributionModel(raw, 'shrinkage', null).model, 'empirical')
+})
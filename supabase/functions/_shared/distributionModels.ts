@@ -0,0 +1,178 @@
+/**
+ * Smoothed distribution models
+ *
+ * With MIN_SAMPLE = 5 the empirical P05/P95 are little more than the min/max of
+ * a handful of games. The estimators here trade a little bias for much less
+ * variance. Which one is used is chosen per sport in
+ * `betting_config.distribution_models` and recorded on `daily_edges.model`.
+ */
+import {
+  SKETCH_STEP,
+  buildSketch,
+  type DistributionSketch,
+  type SegmentResult,
+  type WeightedTotal,
+} from './percentiles.ts'
+
+export type DistributionModel = 'empirical' | 'kde' | 'shrinkage'
+
+export const DISTRIBUTION_MODELS: DistributionModel[] = ['empirical', 'kde', 'shrinkage']
+export const DEFAULT_DISTRIBUTION_MODEL: DistributionModel = 'empirical'
+
+export const DISTRIBUTION_MODEL_LABELS: Record<DistributionModel, string> = {
+  empirical: 'Empirical',
+  kde: 'Kernel density',
+  shrinkage: 'League shrinkage',
+}
+
+// Weight of the league-wide prior in the shrinkage blend, in games
+export const SHRINKAGE_PRIOR_GAMES = 10
+// League sample needed before it is trusted as a prior
+export const LEAGUE_MIN_GAMES = 50
+
+// KDE has unbounded support; the sketch's P0/P100 are taken at these tails
+const KDE_TAIL = 0.001
+
+export interface ModelResult extends SegmentResult {
+  model: DistributionModel
+}
+
+/**
+ * Model configured for a sport (`betting_config.distribution_models` is a
+ * sport_id -> model map). Unknown or missing entries are empirical.
+ */
+export function resolveDistributionModel(
+  models: Record<string, unknown> | null | undefined,
+  sportId: string
+): DistributionModel {
+  const value = models?.[sportId]
+  return DISTRIBUTION_MODELS.includes(value as DistributionModel)
+    ? (value as DistributionModel)
+    : DEFAULT_DISTRIBUTION_MODEL
+}
+
+// ============================================================
+// KERNEL DENSITY
+// ============================================================
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7)
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2
+  const t = 1 / (1 + 0.3275911 * x)
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  const erf = 1 - poly * Math.exp(-x * x)
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+/**
+ * Silverman's rule-of-thumb bandwidth using the Kish effective sample size,
+ * so recency-weighted samples are not treated as larger than they are.
+ */
+export function kdeBandwidth(items: WeightedTotal[]): number {
+  const sumW = items.reduce((s, i) => s + i.weight, 0)
+  if (sumW <= 0) return 0
+
+  const mean = items.reduce((s, i) => s + i.total * i.weight, 0) / sumW
+  const variance = items.reduce((s, i) => s + i.weight * (i.total - mean) ** 2, 0) / sumW
+  const sd = Math.sqrt(variance)
+
+  const sketch = buildSketch(items)
+  const iqr = sketch.q[15] - sketch.q[5]
+  const spread = iqr > 0 ? Math.min(sd, iqr / 1.34) : sd
+
+  const h = 0.9 * spread * Math.pow(Math.max(sketch.n_eff, 1), -0.2)
+  // Every game on the same total: fall back to a small fraction of the level
+  return h > 0 ? h : Math.max(Math.abs(mean) * 0.05, 0.5)
+}
+
+/**
+ * Gaussian kernel density estimate of the totals, summarised as a sketch.
+ */
+export function kdeSketch(items: WeightedTotal[]): DistributionSketch {
+  const live = items.filter(i => i.weight > 0)
+  const base = buildSketch(live)
+  if (live.length === 0) return base
+
+  const h = kdeBandwidth(live)
+  const sumW = live.reduce((s, i) => s + i.weight, 0)
+  const cdf = (x: number) => live.reduce((s, i) => s + i.weight * normalCdf((x - i.total) / h), 0) / sumW
+
+  const lo = Math.min(...live.map(i => i.total)) - 6 * h
+  const hi = Math.max(...live.map(i => i.total)) + 6 * h
+  const invert = (p: number) => {
+    let a = lo
+    let b = hi
+    for (let iter = 0; iter < 60; iter++) {
+      const mid = (a + b) / 2
+      if (cdf(mid) < p) a = mid
+      else b = mid
+    }
+    return (a + b) / 2
+  }
+
+  const q: number[] = []
+  for (let pct = 0; pct <= 100; pct += SKETCH_STEP) {
+    const p = Math.min(1 - KDE_TAIL, Math.max(KDE_TAIL, pct / 100))
+    q.push(Math.round(invert(p) * 100) / 100)
+  }
+  return { q, n: base.n, n_eff: base.n_eff }
+}
+
+// ============================================================
+// SHRINKAGE
+// ============================================================
+
+/**
+ * Blend the matchup quantiles toward the league-wide distribution. The
+ * matchup gets weight n_eff / (n_eff + SHRINKAGE_PRIOR_GAMES), so a 5-game
+ * sample is pulled hard toward the league and a 40-game sample barely moves.
+ * Averaging quantiles keeps the result monotone.
+ */
+export function shrinkSketch(matchup: DistributionSketch, league: DistributionSketch): DistributionSketch {
+  const w = matchup.n_eff / (matchup.n_eff + SHRINKAGE_PRIOR_GAMES)
+  return {
+    q: matchup.q.map((value, i) => Math.round((w * value + (1 - w) * league.q[i]) * 100) / 100),
+    n: matchup.n,
+    n_eff: matchup.n_eff,
+  }
+}
+
+// ============================================================
+// APPLY
+// ============================================================
+
+function sketchValue(sketch: DistributionSketch, pct: number): number {
+  return sketch.q[Math.round(pct / SKETCH_STEP)]
+}
+
+/**
+ * Re-estimate a segment result with the given model. P05/median/P95 and the
+ * stored distribution are replaced; the raw totals and samples are kept.
+ * Shrinkage without a usable league sample falls back to empirical, and the
+ * returned `model` says so.
+ */
+export function applyDistributionModel(
+  result: SegmentResult,
+  model: DistributionModel,
+  league?: DistributionSketch | null
+): ModelResult {
+  let distribution: DistributionSketch | null = null
+  if (model === 'kde') {
+    distribution = kdeSketch(result.samples)
+  } else if (model === 'shrinkage' && league && league.n >= LEAGUE_MIN_GAMES) {
+    distribution = shrinkSketch(result.distribution, league)
+  }
+
+  if (!distribution) {
+    return { ...result, model: 'empirical' }
+  }
+
+  return {
+    ...result,
+    p05: sketchValue(distribution, 5),
+    median: sketchValue(distribution, 50),
+    p95: sketchValue(distribution, 95),
+    distribution,
+    model,
+  }
+}
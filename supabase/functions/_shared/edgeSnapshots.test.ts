@@ -0,0 +1,88 @@
+// Fixtures for point-in-time edge lookup.
+// Run with: deno test supabase/functions/_shared
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import {
+  buildEdgeSnapshot,
+  cutoffTime,
+  mainLinePrices,
+  pointInTimeEdges,
+  resolveSnapshotCutoff,
+  snapshotAsOf,
+} from './edgeSnapshots.ts'
+
+const START = '2026-01-20T00:30:00.000Z'
+
+const SNAPSHOTS = [
+  { id: 1, game_id: 'g1', snapshot_at: '2026-01-19T15:00:00.000Z', dk_total_line: 221.5 },
+  { id: 2, game_id: 'g1', snapshot_at: '2026-01-19T22:00:00.000Z', dk_total_line: 223 },
+  { id: 3, game_id: 'g1', snapshot_at: '2026-01-20T00:10:00.000Z', dk_total_line: 225.5 },
+  { id: 4, game_id: 'g1', snapshot_at: '2026-01-20T00:10:00.000Z', dk_total_line: 226 },
+  { id: 5, game_id: 'g2', snapshot_at: '2026-01-20T00:00:00.000Z', dk_total_line: 44.5 },
+]
+
+Deno.test('cutoffTime counts back from the scheduled start', () => {
+  assertEquals(cutoffTime(START, 60), '2026-01-19T23:30:00.000Z')
+  assertEquals(cutoffTime(START, 0), START)
+})
+
+Deno.test('snapshotAsOf never looks past the cutoff', () => {
+  assertEquals(snapshotAsOf(SNAPSHOTS, '2026-01-19T23:30:00.000Z')?.id, 2)
+  assertEquals(snapshotAsOf(SNAPSHOTS, '2026-01-19T15:00:00.000Z')?.id, 1)
+  assertEquals(snapshotAsOf(SNAPSHOTS, '2026-01-19T14:59:59.000Z'), null)
+  // Same timestamp: the later insert wins
+  assertEquals(snapshotAsOf(SNAPSHOTS.slice(0, 4), START)?.id, 4)
+})
+
+Deno.test('pointInTimeEdges drops games with nothing known by the cutoff', () => {
+  const games = [
+    { id: 'g1', start_time_utc: START },
+    { id: 'g2', start_time_utc: START },
+  ]
+  const atOneHour = pointInTimeEdges(SNAPSHOTS, games, 60)
+  assertEquals(atOneHour.get('g1')?.dk_total_line, 223)
+  assertEquals(atOneHour.has('g2'), false)
+
+  const atStart = pointInTimeEdges(SNAPSHOTS, games, 0)
+  assertEquals(atStart.get('g1')?.id, 4)
+  assertEquals(atStart.get('g2')?.id, 5)
+})
+
+Deno.test('buildEdgeSnapshot reads main-line prices from alternate lines', () => {
+  const alternateLines = [
+    { point: 220.5, over_price: -120, under_price: 100 },
+    { point: 221.5, over_price: -110, under_price: -110 },
+  ]
+  assertEquals(mainLinePrices(alternateLines, 221.5), { over: -110, under: -110 })
+  assertEquals(mainLinePrices(alternateLines, 230), { over: null, under: null })
+  assertEquals(mainLinePrices(null, 221.5), { over: null, under: null })
+
+  const snapshot = buildEdgeSnapshot(
+    {
+      game_id: 'g1',
+      date_local: '2026-01-19',
+      sport_id: 'nba',
+      p05: '205.5',
+      p95: 238,
+      segment_used: 'h2h_3y',
+      n_used: 14,
+      dk_offered: true,
+      dk_total_line: '221.5',
+      dk_line_percentile: 49.1,
+      alternate_lines: alternateLines,
+    },
+    'odds',
+    { snapshotAt: START, oddsSnapshotId: 77 }
+  )
+  assertEquals(snapshot.p05, 205.5)
+  assertEquals(snapshot.dk_total_line, 221.5)
+  assertEquals(snapshot.dk_over_price, -110)
+  assertEquals(snapshot.model, null)
+  assertEquals(snapshot.odds_snapshot_id, 77)
+  assertEquals(snapshot.snapshot_at, START)
+})
+
+Deno.test('unknown cutoff keys fall back to T-1h', () => {
+  assertEquals(resolveSnapshotCutoff('t-3h').minutesBefore, 180)
+  assertEquals(resolveSnapshotCutoff('bogus').minutesBefore, 60)
+  assertEquals(resolveSnapshotCutoff(null).key, 't-1h')
+})
@@ -0,0 +1,180 @@
+/**
+ * Point-in-time edge snapshots
+ *
+ * daily_edges only ever holds the latest state of an edge: later
+ * compute-percentiles runs overwrite p05/p95 and refresh-odds overwrites the
+ * line. Every write also appends a row to `edge_snapshots`, so backtests can ask
+ * "what did we know at T-minus-1h" instead of reading the final state.
+ */
+import type { DistributionSketch } from './percentiles.ts'
+
+export type SnapshotSource = 'compute' | 'odds'
+
+export interface EdgeSnapshot {
+  id?: number
+  snapshot_at: string
+  source: SnapshotSource
+  game_id: string
+  date_local: string
+  sport_id: string
+  p05: number | null
+  p95: number | null
+  distribution: DistributionSketch | null
+  segment_used: string | null
+  n_used: number | null
+  model: string | null
+  dk_offered: boolean
+  dk_total_line: number | null
+  dk_over_price: number | null
+  dk_under_price: number | null
+  dk_line_percentile: number | null
+  odds_snapshot_id: number | null
+}
+
+// The subset of a daily_edges row a snapshot is taken from
+export interface EdgeState {
+  game_id: string
+  date_local: string
+  sport_id: string
+  p05?: number | string | null
+  p95?: number | string | null
+  distribution?: DistributionSketch | null
+  segment_used?: string | null
+  n_used?: number | null
+  model?: string | null
+  dk_offered?: boolean | null
+  dk_total_line?: number | string | null
+  dk_line_percentile?: number | string | null
+  alternate_lines?: unknown
+}
+
+export interface SnapshotCutoff {
+  key: string
+  label: string
+  /** Minutes before scheduled start; decisions may only use snapshots taken by then */
+  minutesBefore: number
+}
+
+export const SNAPSHOT_CUTOFFS: SnapshotCutoff[] = [
+  { key: 't-0', label: 'At start', minutesBefore: 0 },
+  { key: 't-1h', label: 'T-1h', minutesBefore: 60 },
+  { key: 't-3h', label: 'T-3h', minutesBefore: 180 },
+  { key: 't-24h', label: 'T-24h', minutesBefore: 1440 },
+]
+
+export const DEFAULT_SNAPSHOT_CUTOFF = 't-1h'
+
+function toNumber(value: number | string | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+/**
+ * American over/under prices for the main line, read from the alternate_lines
+ * array refresh-odds stores on the edge. Null when the line isn't listed.
+ */
+export function mainLinePrices(
+  alternateLines: unknown,
+  line: number | null
+): { over: number | null; under: number | null } {
+  if (line === null || !Array.isArray(alternateLines)) return { over: null, under: null }
+  const main = (alternateLines as Array<{ point?: unknown; over_price?: number; under_price?: number } | null>)
+    .find(l => l && Number(l.point) === line)
+  return {
+    over: toNumber(main?.over_price),
+    under: toNumber(main?.under_price),
+  }
+}
+
+/** Snapshot row for the current state of an edge */
+export function buildEdgeSnapshot(
+  edge: EdgeState,
+  source: SnapshotSource,
+  options: {
+    snapshotAt?: string
+    oddsSnapshotId?: number | null
+    /** Main-line prices when the caller has them directly from the feed */
+    prices?: { over: number | null; under: number | null }
+  } = {}
+): EdgeSnapshot {
+  const line = toNumber(edge.dk_total_line)
+  const prices = options.prices ?? mainLinePrices(edge.alternate_lines, line)
+
+  return {
+    snapshot_at: options.snapshotAt ?? new Date().toISOString(),
+    source,
+    game_id: edge.game_id,
+    date_local: edge.date_local,
+    sport_id: edge.sport_id,
+    p05: toNumber(edge.p05),
+    p95: toNumber(edge.p95),
+    distribution: edge.distribution ?? null,
+    segment_used: edge.segment_used ?? null,
+    n_used: edge.n_used ?? null,
+    model: edge.model ?? null,
+    dk_offered: !!edge.dk_offered && line !== null,
+    dk_total_line: line,
+    dk_over_price: prices.over,
+    dk_under_price: prices.under,
+    dk_line_percentile: toNumber(edge.dk_line_percentile),
+    odds_snapshot_id: options.oddsSnapshotId ?? null,
+  }
+}
+
+export function resolveSnapshotCutoff(key: string | null | undefined): SnapshotCutoff {
+  return SNAPSHOT_CUTOFFS.find(c => c.key === key)
+    ?? SNAPSHOT_CUTOFFS.find(c => c.key === DEFAULT_SNAPSHOT_CUTOFF)!
+}
+
+/** ISO timestamp `minutesBefore` minutes ahead of the scheduled start */
+export function cutoffTime(startTimeUtc: string, minutesBefore: number): string {
+  return new Date(new Date(startTimeUtc).getTime() - minutesBefore * 60 * 1000).toISOString()
+}
+
+/**
+ * Latest snapshot taken at or before `asOf`; null when nothing was known yet.
+ * Ties on snapshot_at go to the later insert.
+ */
+export function snapshotAsOf<T extends Pick<EdgeSnapshot, 'snapshot_at' | 'id'>>(
+  snapshots: T[],
+  asOf: string
+): T | null {
+  const cutoff = new Date(asOf).getTime()
+  let best: T | null = null
+  let bestTime = -Infinity
+
+  for (const snapshot of snapshots) {
+    const t = new Date(snapshot.snapshot_at).getTime()
+    if (t > cutoff) continue
+    if (t > bestTime || (t === bestTime && (snapshot.id ?? 0) > (best?.id ?? 0))) {
+      best = snapshot
+      bestTime = t
+    }
+  }
+  return best
+}
+
+/**
+ * Point-in-time edge for each game: the latest snapshot taken no later than
+ * `minutesBefore` ahead of that game's start. Games with no snapshot by then
+ * are left out rather than back-filled with later information.
+ */
+export function pointInTimeEdges<T extends Pick<EdgeSnapshot, 'snapshot_at' | 'id' | 'game_id'>>(
+  snapshots: T[],
+  games: Array<{ id: string; start_time_utc: string }>,
+  minutesBefore: number
+): Map<string, T> {
+  const byGame = new Map<string, T[]>()
+  for (const snapshot of snapshots) {
+    if (!byGame.has(snapshot.game_id)) byGame.set(snapshot.game_id, [])
+    byGame.get(snapshot.game_id)!.push(snapshot)
+  }
+
+  const out = new Map<string, T>()
+  for (const game of games) {
+    const snapshot = snapshotAsOf(byGame.get(game.id) ?? [], cutoffTime(game.start_time_utc, minutesBefore))
+    if (snapshot) out.set(game.id, snapshot)
+  }
+  return out
+}
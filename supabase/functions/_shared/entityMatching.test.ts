@@ -0,0 +1,47 @@
+// Fixtures for unresolved entity candidate scoring.
+// Run with: deno test supabase/functions/_shared
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import { eventSimilarity, nameSimilarity, rankCandidates, rankGameCandidates, unresolvedEntry } from './entityMatching.ts'
+
+Deno.test('name similarity ignores case, accents and punctuation', () => {
+  assertEquals(nameSimilarity('Montréal Canadiens', 'montreal canadiens'), 1)
+  assertEquals(nameSimilarity('Tampa Bay Lightening', 'Tampa Bay Lightning') > nameSimilarity('Tampa Bay Lightening', 'Tampa Bay Rays'), true)
+  assertEquals(nameSimilarity('A', 'Athletics'), 0)
+  assertEquals(nameSimilarity('', 'Boston Bruins'), 0)
+})
+
+Deno.test('candidates score on their best alias and sort best first', () => {
+  const options = [
+    { id: 'f-uta', label: 'Utah Hockey Club', aliases: ['UTA', 'Utah Mammoth'] },
+    { id: 'f-bos', label: 'Boston Bruins', aliases: ['BOS'] },
+    { id: 'f-ari', label: 'Arizona Coyotes', aliases: ['ARI'] },
+  ]
+  const ranked = rankCandidates('Utah Mammoth Hockey', options)
+  assertEquals(ranked[0].id, 'f-uta')
+  assertEquals(ranked.every((c, i) => i === 0 || c.score <= ranked[i - 1].score), true)
+  assertEquals(rankCandidates('UTA', options, 1).map(c => c.id), ['f-uta'])
+})
+
+Deno.test('events lose score with time apart and reversed sides', () => {
+  const event = { home: 'Utah Mammoth', away: 'Boston Bruins', start_time_utc: '2025-10-21T02:00:00Z' }
+  const same = { home: 'Utah Mammoth', away: 'Boston Bruins', start_time_utc: '2025-10-21T02:00:00Z' }
+  assertEquals(eventSimilarity(event, same), 1)
+  assertEquals(eventSimilarity(event, { ...same, start_time_utc: '2025-10-21T14:00:00Z' }), 0.5)
+  assertEquals(eventSimilarity(event, { ...same, start_time_utc: '2025-10-22T03:00:00Z' }), 0)
+  assertEquals(eventSimilarity(event, { ...same, home: 'Boston Bruins', away: 'Utah Mammoth' }), 0.8)
+  assertEquals(eventSimilarity({ ...event, start_time_utc: '' }, { ...same, start_time_utc: '2025-10-25T02:00:00Z' }), 1)
+})
+
+Deno.test('game candidates are labelled away @ home', () => {
+  const event = { home: 'Utah Hockey Club', away: 'Boston Bruins', start_time_utc: '2025-10-21T02:00:00Z' }
+  const ranked = rankGameCandidates(event, [
+    { id: 'g-1', home: 'Utah Mammoth', away: 'Boston Bruins', start_time_utc: '2025-10-21T02:00:00Z' },
+    { id: 'g-2', home: 'Seattle Kraken', away: 'Calgary Flames', start_time_utc: '2025-10-21T02:00:00Z' },
+  ])
+  assertEquals(ranked[0], { id: 'g-1', label: 'Boston Bruins @ Utah Mammoth', score: ranked[0].score })
+  const entry = unresolvedEntry({
+    entity_type: 'event', source: 'refresh-odds', provider: 'the_odds_api', sport_id: 'nhl',
+    provider_key: 'abc123', label: 'Boston Bruins @ Utah Hockey Club', event_date: '2025-10-20', candidates: ranked,
+  })
+  assertEquals([entry.best_score, entry.context], [ranked[0].score, {}])
+})
@@ -0,0 +1,166 @@
+/**
+ * Unresolved entity matching
+ *
+ * When an ingestor can't map a provider team or event to our franchises or
+ * games, the failure goes to the unresolved_entities review queue together
+ * with the closest candidates. This scores those candidates: names by bigram
+ * similarity, events by both teams plus how close the start times are.
+ */
+import { normalizeTeamKey } from './teamRegistry.ts'
+
+export type UnresolvedEntityType = 'team' | 'event'
+
+/** How many candidates the queue keeps per failure */
+export const MAX_CANDIDATES = 5
+
+/** Hours apart at which an event candidate's score reaches zero */
+export const EVENT_TIME_WINDOW_HOURS = 24
+
+/** Home/away reversed still counts, at this fraction of the score */
+export const SWAPPED_SIDES_FACTOR = 0.8
+
+export interface MatchOption {
+  id: string
+  label: string
+  /** Other names the option goes by (abbreviations, former names) */
+  aliases?: string[]
+}
+
+export interface MatchCandidate {
+  id: string
+  label: string
+  score: number
+}
+
+export interface EventTeams {
+  home: string
+  away: string
+  start_time_utc: string
+}
+
+export interface GameOption extends EventTeams {
+  id: string
+}
+
+/** Row handed to record_unresolved_entity */
+export interface UnresolvedEntry {
+  entity_type: UnresolvedEntityType
+  /** Edge function that hit the failure */
+  source: string
+  provider: string
+  sport_id: string
+  /** Team abbreviation, Odds API event id or Kalshi event ticker */
+  provider_key: string
+  label: string
+  event_date: string | null
+  candidates: MatchCandidate[]
+  best_score: number | null
+  /** What a replay needs, e.g. the teams row an unmapped abbreviation created */
+  context: Record<string, unknown>
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+function bigrams(value: string): string[] {
+  const grams: string[] = []
+  for (let i = 0; i < value.length - 1; i++) grams.push(value.slice(i, i + 2))
+  return grams
+}
+
+/** Sørensen–Dice similarity of two names' letter pairs, 0..1 */
+export function nameSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const x = normalizeTeamKey(a ?? '')
+  const y = normalizeTeamKey(b ?? '')
+  if (!x || !y) return 0
+  if (x === y) return 1
+  if (x.length < 2 || y.length < 2) return 0
+
+  const counts = new Map<string, number>()
+  for (const gram of bigrams(x)) counts.set(gram, (counts.get(gram) ?? 0) + 1)
+  let shared = 0
+  for (const gram of bigrams(y)) {
+    const left = counts.get(gram) ?? 0
+    if (left > 0) {
+      shared++
+      counts.set(gram, left - 1)
+    }
+  }
+  return round((2 * shared) / (x.length - 1 + y.length - 1))
+}
+
+/** Options scored against a provider name, best first */
+export function rankCandidates(value: string, options: MatchOption[], limit = MAX_CANDIDATES): MatchCandidate[] {
+  return options
+    .map(option => ({
+      id: option.id,
+      label: option.label,
+      score: Math.max(...[option.label, ...(option.aliases ?? [])].map(name => nameSimilarity(value, name))),
+    }))
+    .filter(c => c.score > 0)
+    .sort((a, b) => b.score - a.score || a.label.localeCompare(b.label))
+    .slice(0, limit)
+}
+
+/**
+ * Both teams' name similarity, scaled down linearly as the start times move
+ * apart (names alone when either time is missing). A game with home and away
+ * reversed scores at SWAPPED_SIDES_FACTOR.
+ */
+export function eventSimilarity(event: EventTeams, game: EventTeams): number {
+  const hoursApart = Math.abs(new Date(event.start_time_utc).getTime() - new Date(game.start_time_utc).getTime()) / 3_600_000
+  const timeFactor = Number.isNaN(hoursApart) ? 1 : Math.max(0, 1 - hoursApart / EVENT_TIME_WINDOW_HOURS)
+  if (timeFactor === 0) return 0
+
+  const direct = (nameSimilarity(event.home, game.home) + nameSimilarity(event.away, game.away)) / 2
+  const swapped = (nameSimilarity(event.home, game.away) + nameSimilarity(event.away, game.home)) / 2
+  return round(Math.max(direct, swapped * SWAPPED_SIDES_FACTOR) * timeFactor)
+}
+
+export function rankGameCandidates(event: EventTeams, games: GameOption[], limit = MAX_CANDIDATES): MatchCandidate[] {
+  return games
+    .map(game => ({ id: game.id, label: `${game.away} @ ${game.home}`, score: eventSimilarity(event, game) }))
+    .filter(c => c.score > 0)
+    .sort((a, b) => b.score - a.score || a.label.localeCompare(b.label))
+    .slice(0, limit)
+}
+
+export function unresolvedEntry(
+  fields: Omit<UnresolvedEntry, 'best_score' | 'context'> & { context?: Record<string, unknown> }
+): UnresolvedEntry {
+  return {
+    ...fields,
+    best_score: fields.candidates[0]?.score ?? null,
+    context: fields.context ?? {},
+  }
+}
+
+type RpcResult = PromiseLike<{ data: unknown; error: { message: string } | null }>
+
+/** The slice of a supabase client recordUnresolved calls through */
+export interface UnresolvedQueueClient {
+  rpc(fn: string, args: Record<string, unknown>): RpcResult
+}
+
+/**
+ * Archive the provider's payload to provider_raw and add (or bump) the queue
+ * row in one call. A database error is logged rather than thrown, so a queue
+ * write failing never fails ingest.
+ */
+export async function recordUnresolved(
+  supabase: UnresolvedQueueClient,
+  entry: UnresolvedEntry,
+  raw: { endpoint: string; payload: unknown }
+): Promise<boolean> {
+  const { error } = await supabase.rpc('record_unresolved_entity', {
+    p_entry: entry,
+    p_endpoint: raw.endpoint,
+    p_payload: raw.payload,
+  })
+  if (error) {
+    console.error(`[UNRESOLVED] Failed to queue ${entry.provider} ${entry.entity_type} ${entry.provider_key}: ${error.message}`)
+    return false
+  }
+  return true
+}
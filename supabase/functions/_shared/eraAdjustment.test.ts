@@ -0,0 +1,55 @@
+// Fixtures for the era scoring adjustment.
+// Run with: deno test supabase/functions/_shared
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import {
+  adjustHistory,
+  adjustTotal,
+  referenceSeason,
+  resolveEraAdjustment,
+  seasonAverageMap,
+} from './eraAdjustment.ts'
+
+// NBA-style drift: 1998 averaged 183, 2025 averaged 229; 2026 has barely started
+const SEASONS = seasonAverageMap([
+  { season_year: 1998, n_games: 1189, avg_total: 183 },
+  { season_year: 2024, n_games: 1230, avg_total: 225 },
+  { season_year: 2025, n_games: 1230, avg_total: 229 },
+  { season_year: 2026, n_games: 40, avg_total: 236 },
+])
+
+Deno.test('method comes from betting_config per sport', () => {
+  assertEquals(resolveEraAdjustment({ nba: 'ratio', nfl: 'additive' }, 'nba'), 'ratio')
+  assertEquals(resolveEraAdjustment({ nba: 'ratio', nfl: 'additive' }, 'nfl'), 'additive')
+  assertEquals(resolveEraAdjustment({ nba: 'bogus' }, 'nba'), 'none')
+  assertEquals(resolveEraAdjustment(null, 'nhl'), 'none')
+})
+
+Deno.test('reference season falls back until it has enough games', () => {
+  assertEquals(SEASONS.has(2026), false)
+  assertEquals(referenceSeason(SEASONS, 2026)?.season_year, 2025)
+  assertEquals(referenceSeason(SEASONS, 2024)?.season_year, 2024)
+  assertEquals(referenceSeason(SEASONS, null)?.season_year, 2025)
+  assertEquals(referenceSeason(SEASONS, 1990), null)
+})
+
+Deno.test('ratio scales and additive shifts', () => {
+  assertEquals(adjustTotal(190, 183, 229, 'ratio'), 237.8)
+  assertEquals(adjustTotal(190, 183, 229, 'additive'), 236)
+  assertEquals(adjustTotal(190, 183, 229, 'none'), 190)
+  assertEquals(adjustTotal(190, 0, 229, 'ratio'), 190)
+})
+
+Deno.test('history keeps raw totals and leaves unknown seasons alone', () => {
+  const history = [
+    { total: 190, played_at_utc: '1998-02-01T00:00:00Z', season_year: 1998 },
+    { total: 230, played_at_utc: '2025-03-01T00:00:00Z', season_year: 2025 },
+    { total: 201, played_at_utc: '2010-03-01T00:00:00Z', season_year: 2010 },
+    { total: 210, played_at_utc: null, season_year: null },
+  ]
+  const { games, adjusted } = adjustHistory(history, SEASONS, referenceSeason(SEASONS, 2026), 'additive')
+  assertEquals(games.map(g => [g.total, g.raw_total]), [[236, 190], [230, 230], [201, 201], [210, 210]])
+  assertEquals(adjusted, 1)
+
+  const untouched = adjustHistory(history, SEASONS, null, 'ratio')
+  assertEquals(untouched.adjusted, 0)
+})
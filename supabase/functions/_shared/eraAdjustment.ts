@@ -0,0 +1,106 @@
+/**
+ * Era scoring adjustment
+ *
+ * League scoring drifts: an NBA total from 1998 sits 20+ points below one
+ * from 2025 even between the same franchises. Each head-to-head total is
+ * rescaled from its own season's league average to the reference season's
+ * before percentiles are computed, either by ratio or by the additive gap.
+ * The method is chosen per sport in `betting_config.era_adjustments` and
+ * recorded on `daily_edges.era_adjustment`.
+ */
+import type { MatchupGameTotal } from './percentiles.ts'
+
+export type EraAdjustment = 'none' | 'ratio' | 'additive'
+
+export const ERA_ADJUSTMENTS: EraAdjustment[] = ['none', 'ratio', 'additive']
+export const DEFAULT_ERA_ADJUSTMENT: EraAdjustment = 'none'
+
+export const ERA_ADJUSTMENT_LABELS: Record<EraAdjustment, string> = {
+  none: 'Raw totals',
+  ratio: 'Ratio to league average',
+  additive: 'Gap to league average',
+}
+
+// Final games a season needs before its league average is trusted
+export const SEASON_MIN_GAMES = 100
+
+/** Row of the league_season_totals view */
+export interface SeasonAverage {
+  season_year: number
+  n_games: number
+  avg_total: number
+}
+
+export interface AdjustedGameTotal extends MatchupGameTotal {
+  season_year?: number | null
+  /** Total as played, before adjustment */
+  raw_total: number
+}
+
+/**
+ * Method configured for a sport (`betting_config.era_adjustments` is a
+ * sport_id -> method map). Unknown or missing entries are unadjusted.
+ */
+export function resolveEraAdjustment(
+  adjustments: Record<string, unknown> | null | undefined,
+  sportId: string
+): EraAdjustment {
+  const value = adjustments?.[sportId]
+  return ERA_ADJUSTMENTS.includes(value as EraAdjustment) ? (value as EraAdjustment) : DEFAULT_ERA_ADJUSTMENT
+}
+
+/** season_year -> average, keeping only seasons with SEASON_MIN_GAMES finals */
+export function seasonAverageMap(rows: SeasonAverage[]): Map<number, SeasonAverage> {
+  const map = new Map<number, SeasonAverage>()
+  for (const row of rows) {
+    if (Number(row.n_games) < SEASON_MIN_GAMES) continue
+    map.set(Number(row.season_year), {
+      season_year: Number(row.season_year),
+      n_games: Number(row.n_games),
+      avg_total: Number(row.avg_total),
+    })
+  }
+  return map
+}
+
+/**
+ * Scoring environment to adjust to: the given season when it has enough
+ * finals, else the latest trusted season before it (early in a season this
+ * is last season).
+ */
+export function referenceSeason(averages: Map<number, SeasonAverage>, seasonYear: number | null): SeasonAverage | null {
+  if (seasonYear !== null && averages.has(seasonYear)) return averages.get(seasonYear)!
+  const earlier = Array.from(averages.keys())
+    .filter(year => seasonYear === null || year < seasonYear)
+    .sort((a, b) => b - a)
+  return earlier.length ? averages.get(earlier[0])! : null
+}
+
+export function adjustTotal(total: number, from: number, to: number, method: EraAdjustment): number {
+  if (method === 'none' || from <= 0) return total
+  const adjusted = method === 'ratio' ? total * (to / from) : total + (to - from)
+  return Math.round(adjusted * 10) / 10
+}
+
+/**
+ * Rescale each game to the reference season. Games whose season has no
+ * trusted average stay as played. `adjusted` counts the games that moved.
+ */
+export function adjustHistory<T extends MatchupGameTotal & { season_year?: number | null }>(
+  games: T[],
+  averages: Map<number, SeasonAverage>,
+  reference: SeasonAverage | null,
+  method: EraAdjustment
+): { games: Array<T & AdjustedGameTotal>; adjusted: number } {
+  let adjusted = 0
+  const out = games.map(game => {
+    const raw = Number(game.total)
+    const season = game.season_year != null ? averages.get(Number(game.season_year)) : undefined
+    if (method === 'none' || !reference || !season) return { ...game, total: raw, raw_total: raw }
+
+    const total = adjustTotal(raw, season.avg_total, reference.avg_total, method)
+    if (total !== raw) adjusted++
+    return { ...game, total, raw_total: raw }
+  })
+  return { games: out, adjusted }
+}
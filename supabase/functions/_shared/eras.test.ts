@@ -0,0 +1,103 @@
+// Fixtures for comparable-era filtering.
+// Run with: deno test supabase/functions/_shared
+import { assertAlmostEquals, assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import {
+  ERA_SEGMENT,
+  SPORT_ERAS,
+  applyEraFilter,
+  computeEraSegment,
+  eraOn,
+  erasForSport,
+  relocationCutoff,
+  type GameEra,
+} from './eras.ts'
+import type { MatchupGameTotal } from './percentiles.ts'
+
+const NOW = new Date('2026-10-19T12:00:00Z')
+
+function game(date: string, total: number): MatchupGameTotal {
+  return { total, played_at_utc: `${date}T00:00:00Z` }
+}
+
+const MLB_ERAS = erasForSport('mlb')
+
+Deno.test('declared eras run back to back and end in a comparable era', () => {
+  for (const [sport, eras] of Object.entries(SPORT_ERAS)) {
+    for (let i = 1; i < eras.length; i++) {
+      assertEquals(eras[i].start_date, eras[i - 1].end_date, `${sport} ${eras[i].era_name}`)
+    }
+    assertEquals(eras.at(-1)?.end_date, null, sport)
+    assertEquals(eras.at(-1)?.weight, 1, sport)
+  }
+})
+
+Deno.test('eras come from game_eras rows when a sport has any', () => {
+  const rows: GameEra[] = [
+    { era_name: 'Bubble', start_date: '2020-07-30', end_date: '2020-10-12', weight: 0 },
+    { era_name: 'Before', start_date: '1946-01-01', end_date: '2020-07-30', weight: 1 },
+  ]
+  assertEquals(erasForSport('nba', rows).map(e => e.era_name), ['Before', 'Bubble'])
+  assertEquals(erasForSport('nba', []).length, SPORT_ERAS.nba.length)
+  assertEquals(erasForSport('cfb'), [])
+  // The end date belongs to the next era
+  assertEquals(eraOn(MLB_ERAS, '2023-03-30')?.era_name, 'Pitch clock')
+  assertEquals(eraOn(MLB_ERAS, '2023-03-29T23:00:00Z')?.era_name, 'No pitch clock')
+})
+
+Deno.test('relocation cutoff ignores renames in place', () => {
+  const raiders = [
+    { city: 'Las Vegas', effective_from: '2020-01-22' },
+    { city: 'Oakland', effective_from: '1995-06-23' },
+    { city: 'Los Angeles', effective_from: '1982-01-01' },
+  ]
+  assertEquals(relocationCutoff(raiders), '2020-01-22')
+  const washington = [
+    { city: 'Washington', effective_from: '1937-02-13' },
+    { city: 'Washington', effective_from: '2020-07-13' },
+    { city: 'Washington', effective_from: '2022-02-02' },
+  ]
+  assertEquals(relocationCutoff(washington), null)
+  assertEquals(relocationCutoff([]), null)
+})
+
+Deno.test('era filter excludes and down-weights games', () => {
+  const history = [
+    game('2025-06-01', 9),
+    game('2024-05-01', 8),
+    game('2019-07-04', 11),
+    game('2003-08-01', 14),
+    { total: 7, played_at_utc: null },
+  ]
+  const filtered = applyEraFilter(history, MLB_ERAS)
+  assertEquals(filtered.games.map(g => [g.total, g.era_weight]), [[9, 1], [8, 1], [11, 0.6], [7, 1]])
+  assertEquals([filtered.excluded, filtered.downweighted, filtered.applied], [1, 1, true])
+  assertEquals(filtered.label, 'Pitch clock era')
+
+  const moved = applyEraFilter(history, MLB_ERAS, '2024-01-01')
+  assertEquals(moved.games.map(g => g.total), [9, 8, 7])
+  assertEquals(moved.label, 'Pitch clock era, since 2024-01-01 relocation')
+
+  const recent = applyEraFilter([game('2025-06-01', 9)], MLB_ERAS)
+  assertEquals(recent.applied, false)
+})
+
+Deno.test('era segment weighs era and recency together', () => {
+  const history = [
+    game('2026-04-01', 8),
+    game('2025-06-01', 9),
+    game('2024-05-01', 7),
+    game('2023-07-04', 10),
+    game('2022-07-04', 12),
+    game('2021-07-04', 11),
+    game('2001-07-04', 15),
+  ]
+  const result = computeEraSegment(applyEraFilter(history, MLB_ERAS), NOW)!
+  assertEquals(result.segment_used, ERA_SEGMENT)
+  assertEquals(result.n_used, 6)
+  assertEquals(result.totals, [7, 8, 9, 10, 11, 12])
+  // 2022 and 2021 are pre-pitch-clock: 0.6 x the 4+ year recency weight
+  assertAlmostEquals(result.samples.find(s => s.total === 11)!.weight, 0.18, 1e-9)
+  assertEquals(result.samples.find(s => s.total === 10)!.weight, 0.5)
+
+  assertEquals(computeEraSegment(applyEraFilter(history.slice(3), MLB_ERAS), NOW), null)
+})
@@ -0,0 +1,165 @@
+/**
+ * Comparable eras
+ *
+ * A meeting from before a rule change or a relocation says little about
+ * tonight's total. Each sport declares its eras with a weight: 1 is comparable
+ * to today, 0 is excluded, anything between is down-weighted. `game_eras`
+ * holds the live policy (seeded from SPORT_ERAS) and compute-percentiles runs
+ * a matchup's history through it before choosing a segment.
+ */
+import {
+  MIN_SAMPLE,
+  RECENCY_WEIGHTS,
+  buildSketch,
+  computeWeightedPercentiles,
+  type MatchupGameTotal,
+  type SegmentResult,
+} from './percentiles.ts'
+
+/** segment_used when the era filter changed the sample */
+export const ERA_SEGMENT = 'era_comparable'
+
+export interface GameEra {
+  era_name: string
+  start_date: string
+  /** Exclusive; null for the current era */
+  end_date: string | null
+  /** 1 = comparable to today, 0 = excluded, between = down-weighted */
+  weight: number
+  description?: string | null
+}
+
+export const SPORT_ERAS: Record<string, GameEra[]> = {
+  nfl: [
+    { era_name: 'Short extra point', start_date: '1920-01-01', end_date: '2015-05-19', weight: 0.5, description: 'Extra points snapped from the 2-yard line' },
+    { era_name: 'Long extra point', start_date: '2015-05-19', end_date: '2024-03-26', weight: 0.85, description: 'Extra points from the 15, touchback kickoffs' },
+    { era_name: 'Dynamic kickoff', start_date: '2024-03-26', end_date: null, weight: 1, description: 'Dynamic kickoff alignment adopted' },
+  ],
+  mlb: [
+    { era_name: 'Pre-testing', start_date: '1900-01-01', end_date: '2005-03-01', weight: 0, description: 'Before suspensions for performance-enhancing drugs' },
+    { era_name: 'No pitch clock', start_date: '2005-03-01', end_date: '2023-03-30', weight: 0.6, description: 'Testing era without the pitch clock or shift limits' },
+    { era_name: 'Pitch clock', start_date: '2023-03-30', end_date: null, weight: 1, description: 'Pitch clock, larger bases and shift restrictions' },
+  ],
+  nba: [
+    { era_name: 'Hand-checking', start_date: '1946-01-01', end_date: '2004-11-02', weight: 0, description: 'Before hand-checking was called on the perimeter' },
+    { era_name: 'Freedom of movement', start_date: '2004-11-02', end_date: '2018-10-16', weight: 0.6, description: 'Hand-check ban, before the pace-and-space scoring jump' },
+    { era_name: 'Pace and space', start_date: '2018-10-16', end_date: null, weight: 1, description: '14-second offensive rebound reset' },
+  ],
+  nhl: [
+    { era_name: 'Pre-lockout', start_date: '1917-01-01', end_date: '2005-10-05', weight: 0, description: 'Two-line pass and no shootout' },
+    { era_name: 'Shootout', start_date: '2005-10-05', end_date: '2015-10-07', weight: 0.7, description: 'Post-lockout rules with 4-on-4 overtime' },
+    { era_name: '3-on-3 overtime', start_date: '2015-10-07', end_date: null, weight: 1, description: '3-on-3 overtime before the shootout' },
+  ],
+}
+
+/** The sport's game_eras rows when it has any, else the declared defaults */
+export function erasForSport(sport: string, rows?: GameEra[] | null): GameEra[] {
+  const eras = rows?.length ? rows : SPORT_ERAS[sport] ?? []
+  return [...eras].sort((a, b) => a.start_date.localeCompare(b.start_date))
+}
+
+/** Era a date falls in (start inclusive, end exclusive) */
+export function eraOn(eras: GameEra[], date: string): GameEra | null {
+  const day = date.slice(0, 10)
+  return eras.find(e => e.start_date <= day && (e.end_date === null || day < e.end_date)) ?? null
+}
+
+/**
+ * When the franchise last changed city (effective_from of the first version
+ * in the new city), or null if it never moved. Renames in place don't count.
+ */
+export function relocationCutoff(versions: Array<{ city: string | null; effective_from: string }>): string | null {
+  const sorted = [...versions].sort((a, b) => a.effective_from.localeCompare(b.effective_from))
+  let cutoff: string | null = null
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1].city
+    const city = sorted[i].city
+    if (previous && city && previous !== city) cutoff = sorted[i].effective_from
+  }
+  return cutoff
+}
+
+export interface EraWeightedGame extends MatchupGameTotal {
+  era_weight: number
+}
+
+export interface EraFilterResult {
+  /** Games that survive, with their era weight (> 0) */
+  games: EraWeightedGame[]
+  excluded: number
+  downweighted: number
+  /** True when anything was excluded or down-weighted */
+  applied: boolean
+  /** e.g. "Pitch clock era, since 2020-01-22 relocation" */
+  label: string
+}
+
+/**
+ * Weigh each meeting by the era it was played in. Games before `relocatedAt`
+ * (either franchise's latest move) are excluded outright. Undated games and
+ * dates outside every declared era are left at full weight.
+ */
+export function applyEraFilter(
+  games: MatchupGameTotal[],
+  eras: GameEra[],
+  relocatedAt: string | null = null
+): EraFilterResult {
+  const kept: EraWeightedGame[] = []
+  let excluded = 0
+  let downweighted = 0
+
+  for (const game of games) {
+    let weight = 1
+    if (game.played_at_utc) {
+      const day = game.played_at_utc.slice(0, 10)
+      if (relocatedAt && day < relocatedAt) weight = 0
+      else weight = eraOn(eras, day)?.weight ?? 1
+    }
+
+    if (weight <= 0) {
+      excluded++
+      continue
+    }
+    if (weight < 1) downweighted++
+    kept.push({ ...game, era_weight: weight })
+  }
+
+  const current = eras.find(e => e.end_date === null)
+  const parts = [current ? `${current.era_name} era` : 'Comparable eras']
+  if (relocatedAt) parts.push(`since ${relocatedAt} relocation`)
+
+  return {
+    games: kept,
+    excluded,
+    downweighted,
+    applied: excluded > 0 || downweighted > 0,
+    label: parts.join(', '),
+  }
+}
+
+/**
+ * Head-to-head percentiles over the era-filtered games: each game's era weight
+ * times the calendar-year recency weight. Null below MIN_SAMPLE games.
+ */
+export function computeEraSegment(filter: EraFilterResult, now: Date = new Date()): SegmentResult | null {
+  if (filter.games.length < MIN_SAMPLE) return null
+
+  const currentYear = now.getUTCFullYear()
+  const weighted = filter.games.map(g => {
+    const playedYear = g.played_at_utc ? new Date(g.played_at_utc).getUTCFullYear() : currentYear
+    const yearDiff = Math.max(0, currentYear - playedYear)
+    return { total: Number(g.total), weight: g.era_weight * RECENCY_WEIGHTS[Math.min(yearDiff, 4)] }
+  })
+
+  const { p05, p95, median } = computeWeightedPercentiles(weighted)
+  return {
+    segment_used: ERA_SEGMENT,
+    n_used: weighted.length,
+    p05,
+    p95,
+    median,
+    totals: weighted.map(g => g.total).sort((a, b) => a - b),
+    samples: weighted,
+    distribution: buildSketch(weighted),
+  }
+}
@@ -0,0 +1,110 @@
+// Fixtures for execution policies: ladders, repricing and cancel-before-start.
+// Run with: deno test supabase/functions/_shared
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import {
+  cancelAt,
+  nextExecutionAction,
+  planOrders,
+  resolveExecutionPolicy,
+  resolveExecutionSettings,
+  type ManagedOrder,
+} from './executionStrategy.ts'
+import { memoryPaperStore, paperExchange, type PaperMarket } from './paperExchange.ts'
+import { orderPatch } from './kalshiSettlement.ts'
+
+const TICKER = 'KXNBATOTAL-25OCT21HOUOKC-219.5'
+const START = '2025-10-22T00:00:00Z'
+
+function order(extra: Partial<ManagedOrder> = {}): ManagedOrder {
+  return {
+    created_at: '2025-10-21T19:00:00Z',
+    price: 40,
+    status: 'pending',
+    kalshi_status: 'resting',
+    execution_policy: 'reprice',
+    max_price: 43,
+    cancel_at: cancelAt(START),
+    last_amended_at: null,
+    ...extra,
+  }
+}
+
+Deno.test('policies resolve per edge strength and plan the entry orders', () => {
+  const policies = { STRONG: 'reprice', MODERATE: 'ladder', WEAK: 'iceberg' }
+  assertEquals(resolveExecutionPolicy(policies, 'STRONG'), 'reprice')
+  assertEquals(resolveExecutionPolicy(policies, 'WEAK'), 'single')
+  assertEquals(resolveExecutionPolicy(null, 'MODERATE'), 'single')
+
+  const settings = resolveExecutionSettings({ ladder_rungs: 4, ladder_step_cents: 3, reprice_interval_minutes: 0, cancel_before_start_minutes: null })
+  assertEquals(settings, { ladder_rungs: 4, ladder_step_cents: 3, reprice_step_cents: 1, reprice_interval_minutes: 15, cancel_before_start_minutes: null })
+  assertEquals(resolveExecutionSettings(null).cancel_before_start_minutes, 10)
+
+  const bounds = { minPrice: 30, maxPrice: 60 }
+  assertEquals(planOrders('single', 10, 55, bounds), [{ price: 55, count: 10, max_price: null }])
+  assertEquals(planOrders('reprice', 10, 65, bounds), [{ price: 60, count: 10, max_price: 60 }])
+  // 10 contracts over 55/52/49/46, the extra two on the best prices
+  assertEquals(planOrders('ladder', 10, 55, bounds, settings).map(o => [o.price, o.count]), [[55, 3], [52, 3], [49, 2], [46, 2]])
+  // Rungs stop at the minimum price and never outnumber the contracts
+  assertEquals(planOrders('ladder', 10, 35, bounds, settings).map(o => [o.price, o.count]), [[35, 5], [32, 5]])
+  assertEquals(planOrders('ladder', 2, 55, bounds, settings).map(o => [o.price, o.count]), [[55, 1], [52, 1]])
+  assertEquals(planOrders('ladder', 0, 55, bounds, settings), [])
+
+  assertEquals(cancelAt(START), '2025-10-21T23:50:00.000Z')
+  assertEquals(cancelAt(START, settings), null)
+})
+
+Deno.test('the loop reprices on its interval up to the max and cancels before start', () => {
+  const at = (iso: string) => new Date(iso)
+  assertEquals(nextExecutionAction(order(), at('2025-10-21T19:10:00Z')), null)
+  assertEquals(nextExecutionAction(order(), at('2025-10-21T19:15:00Z')), { action: 'amend', price: 41 })
+  assertEquals(nextExecutionAction(order({ price: 41, last_amended_at: '2025-10-21T19:15:00Z' }), at('2025-10-21T19:20:00Z')), null)
+  assertEquals(nextExecutionAction(order({ price: 43 }), at('2025-10-21T21:00:00Z')), null)
+  assertEquals(nextExecutionAction(order({ price: 42 }), at('2025-10-21T21:00:00Z'), resolveExecutionSettings({ reprice_step_cents: 5 })), { action: 'amend', price: 43 })
+
+  // Ladders and single orders only ever get canceled
+  assertEquals(nextExecutionAction(order({ execution_policy: 'ladder' }), at('2025-10-21T21:00:00Z')), null)
+  assertEquals(nextExecutionAction(order({ execution_policy: 'ladder' }), at('2025-10-21T23:50:00Z')), { action: 'cancel', reason: 'before_start' })
+  assertEquals(nextExecutionAction(order({ kalshi_status: null, status: 'partial' }), at('2025-10-21T23:55:00Z')), { action: 'cancel', reason: 'before_start' })
+
+  // Filled or canceled orders are left alone
+  assertEquals(nextExecutionAction(order({ kalshi_status: 'executed', status: 'filled' }), at('2025-10-21T23:55:00Z')), null)
+  assertEquals(nextExecutionAction(order({ kalshi_status: 'canceled', status: 'partial' }), at('2025-10-21T23:55:00Z')), null)
+})
+
+Deno.test('amends and cancels work on the paper venue', async () => {
+  const market: PaperMarket = {
+    ticker: TICKER,
+    event_ticker: 'KXNBATOTAL-25OCT21HOUOKC',
+    title: 'Houston Rockets at Oklahoma City Thunder: total points',
+    floor_strike: 219.5,
+    fair_yes: 0.45,
+    quoted_at: '2025-10-21T18:00:00Z',
+    close_time: START,
+    final_total: null,
+    voided: false,
+  }
+  const venue = paperExchange(memoryPaperStore([market], 10000), () => new Date('2025-10-21T19:30:00Z'))
+  const call = async (endpoint: string, method: string, body?: object) => {
+    const response = await venue(endpoint, '', '', method, body)
+    return { status: response.status, data: await response.json() }
+  }
+
+  // Asks start at 46; a 44 rests until repriced through the book
+  const placed = await call('/portfolio/orders', 'POST', { ticker: TICKER, side: 'yes', count: 20, yes_price: 44 })
+  const id = placed.data.order.order_id
+  assertEquals(placed.data.order.status, 'resting')
+
+  const amend = (yes_price: number, count = 20) =>
+    call(`/portfolio/orders/${id}/amend`, 'POST', { ticker: TICKER, side: 'yes', action: 'buy', count, yes_price })
+  const up = await amend(45)
+  assertEquals([up.data.old_order.yes_price, up.data.order.yes_price, up.data.order.status], [44, 45, 'resting'])
+  assertEquals((await call(`/portfolio/orders/${id}/amend`, 'POST', { ticker: TICKER, side: 'no', count: 20, no_price: 50 })).status, 400)
+
+  const crossed = await amend(46)
+  assertEquals(orderPatch(crossed.data.order), { status: 'filled', kalshi_status: 'executed', filled_count: 20, fill_price: 46, fees_cents: 35 })
+  assertEquals((await amend(47)).status, 400)
+
+  const other = await call('/portfolio/orders', 'POST', { ticker: TICKER, side: 'no', count: 5, no_price: 40 })
+  const canceled = await call(`/portfolio/orders/${other.data.order.order_id}`, 'DELETE')
+  assertEquals([canceled.data.order.status, canceled.data.reduced_by], ['canceled', 5])
+})
@@ -0,0 +1,185 @@
+/**
+ * Order execution strategies
+ *
+ * How an order is worked once auto-bet has priced and sized it.
+ * betting_config.execution_policies picks a policy per edge strength:
+ *
+ *   single   one limit order at the computed price
+ *   ladder   up to ladder_rungs limit orders stepping down from the computed
+ *            price by ladder_step_cents, with the contracts split between
+ *            them (the extra contracts go to the top rungs)
+ *   reprice  one limit order that moves up by reprice_step_cents every
+ *            reprice_interval_minutes while unfilled, until it reaches its
+ *            max_price
+ *
+ * Whatever the policy, an order still resting cancel_before_start_minutes
+ * before start_time_utc is canceled. manage-orders runs on a schedule,
+ * applies nextExecutionAction to each resting order and logs every amend and
+ * cancel in its kalshi_orders row's execution_log.
+ */
+
+export type ExecutionPolicy = 'single' | 'ladder' | 'reprice'
+
+export const EXECUTION_POLICIES: ExecutionPolicy[] = ['single', 'ladder', 'reprice']
+
+export const DEFAULT_EXECUTION_POLICY: ExecutionPolicy = 'single'
+
+export const EXECUTION_POLICY_LABELS: Record<ExecutionPolicy, string> = {
+  single: 'Single limit order',
+  ladder: 'Ladder of limit orders',
+  reprice: 'Reprice toward max price',
+}
+
+export const EDGE_STRENGTHS = ['STRONG', 'MODERATE', 'WEAK'] as const
+
+export function isExecutionPolicy(value: unknown): value is ExecutionPolicy {
+  return typeof value === 'string' && (EXECUTION_POLICIES as string[]).includes(value)
+}
+
+/** Policy for an edge strength from betting_config.execution_policies (strength -> policy) */
+export function resolveExecutionPolicy(
+  policies: Record<string, unknown> | null | undefined,
+  strength: string
+): ExecutionPolicy {
+  const configured = policies?.[strength]
+  return isExecutionPolicy(configured) ? configured : DEFAULT_EXECUTION_POLICY
+}
+
+export interface ExecutionSettings {
+  ladder_rungs: number
+  ladder_step_cents: number
+  reprice_step_cents: number
+  reprice_interval_minutes: number
+  /** null leaves orders resting until the market closes */
+  cancel_before_start_minutes: number | null
+}
+
+export const DEFAULT_EXECUTION_SETTINGS: ExecutionSettings = {
+  ladder_rungs: 3,
+  ladder_step_cents: 2,
+  reprice_step_cents: 1,
+  reprice_interval_minutes: 15,
+  cancel_before_start_minutes: 10,
+}
+
+/** Settings from the betting_config columns of the same names; bad or missing values fall back */
+export function resolveExecutionSettings(
+  config: Partial<Record<keyof ExecutionSettings, number | null>> | null | undefined
+): ExecutionSettings {
+  const positive = (value: number | null | undefined, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 1 ? Math.floor(value) : fallback
+  const cancelBefore = config?.cancel_before_start_minutes
+  return {
+    ladder_rungs: positive(config?.ladder_rungs, DEFAULT_EXECUTION_SETTINGS.ladder_rungs),
+    ladder_step_cents: positive(config?.ladder_step_cents, DEFAULT_EXECUTION_SETTINGS.ladder_step_cents),
+    reprice_step_cents: positive(config?.reprice_step_cents, DEFAULT_EXECUTION_SETTINGS.reprice_step_cents),
+    reprice_interval_minutes: positive(config?.reprice_interval_minutes, DEFAULT_EXECUTION_SETTINGS.reprice_interval_minutes),
+    cancel_before_start_minutes: cancelBefore === undefined
+      ? DEFAULT_EXECUTION_SETTINGS.cancel_before_start_minutes
+      : typeof cancelBefore === 'number' && Number.isFinite(cancelBefore) && cancelBefore >= 0 ? cancelBefore : null,
+  }
+}
+
+// ============================================================
+// ENTRY
+// ============================================================
+
+/** One limit order to place */
+export interface PlannedOrder {
+  price: number
+  count: number
+  /** Ceiling manage-orders reprices toward; null for orders it doesn't reprice */
+  max_price: number | null
+}
+
+/**
+ * The limit orders that work `count` contracts at `price` under `policy`.
+ * Ladder rungs stop at `minPrice`; a reprice order starts no higher than
+ * `maxPrice`.
+ */
+export function planOrders(
+  policy: ExecutionPolicy,
+  count: number,
+  price: number,
+  bounds: { minPrice: number; maxPrice: number },
+  settings: ExecutionSettings = DEFAULT_EXECUTION_SETTINGS
+): PlannedOrder[] {
+  if (count < 1) return []
+  if (policy === 'reprice') {
+    return [{ price: Math.min(price, bounds.maxPrice), count, max_price: bounds.maxPrice }]
+  }
+  if (policy === 'single') return [{ price, count, max_price: null }]
+
+  const prices: number[] = []
+  for (let rung = 0; rung < Math.min(settings.ladder_rungs, count); rung++) {
+    const rungPrice = price - rung * settings.ladder_step_cents
+    if (rungPrice < bounds.minPrice) break
+    prices.push(rungPrice)
+  }
+  if (!prices.length) prices.push(price)
+  const base = Math.floor(count / prices.length)
+  const extra = count % prices.length
+  return prices.map((p, i) => ({ price: p, count: base + (i < extra ? 1 : 0), max_price: null }))
+}
+
+/** When an unfilled order on a game starting at `startTimeUtc` is canceled */
+export function cancelAt(startTimeUtc: string, settings: ExecutionSettings = DEFAULT_EXECUTION_SETTINGS): string | null {
+  if (settings.cancel_before_start_minutes === null) return null
+  return new Date(new Date(startTimeUtc).getTime() - settings.cancel_before_start_minutes * 60 * 1000).toISOString()
+}
+
+// ============================================================
+// EXECUTION LOOP
+// ============================================================
+
+/** The kalshi_orders columns the execution loop reads */
+export interface ManagedOrder {
+  created_at: string
+  price: number | null
+  status: string | null
+  kalshi_status: string | null
+  execution_policy: string | null
+  max_price: number | null
+  cancel_at: string | null
+  last_amended_at: string | null
+}
+
+export type ExecutionAction =
+  | { action: 'cancel'; reason: 'before_start' }
+  | { action: 'amend'; price: number }
+
+/** Still working on the exchange: resting, or not yet synced by reconcile-kalshi */
+export function isResting(order: Pick<ManagedOrder, 'status' | 'kalshi_status'>): boolean {
+  if (order.kalshi_status) return order.kalshi_status === 'resting'
+  return order.status === 'pending' || order.status === 'partial'
+}
+
+/** What to do with an order now, if anything */
+export function nextExecutionAction(
+  order: ManagedOrder,
+  now: Date,
+  settings: ExecutionSettings = DEFAULT_EXECUTION_SETTINGS
+): ExecutionAction | null {
+  if (!isResting(order)) return null
+  if (order.cancel_at && new Date(order.cancel_at) <= now) return { action: 'cancel', reason: 'before_start' }
+
+  if (order.execution_policy !== 'reprice' || order.price === null || order.max_price === null) return null
+  if (order.price >= order.max_price) return null
+  const since = new Date(order.last_amended_at ?? order.created_at).getTime()
+  if (now.getTime() - since < settings.reprice_interval_minutes * 60 * 1000) return null
+  return { action: 'amend', price: Math.min(order.price + settings.reprice_step_cents, order.max_price) }
+}
+
+/** An entry in kalshi_orders.execution_log */
+export interface ExecutionLogEntry {
+  at: string
+  action: 'amend' | 'cancel'
+  /** Exchange order id the action was sent for */
+  order_id: string
+  from_price: number | null
+  to_price?: number
+  reason?: string
+  filled_count?: number
+  /** Set when the exchange refused the action */
+  error?: string
+}
@@ -0,0 +1,121 @@
+// Fixtures for freshness SLAs: rule parsing, evaluation, breach lifecycle and the webhook.
+// Run with: deno test --allow-net=127.0.0.1 supabase/functions/_shared (the webhook test listens locally)
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import {
+  diffBreaches,
+  etMinutes,
+  evaluateRules,
+  lookbackDays,
+  parseRule,
+  postWebhook,
+  webhookPayload,
+  type FreshnessRule,
+  type FreshnessRuleRow,
+  type GameFreshness,
+} from './freshness.ts'
+
+// 11:00 ET on game day
+const NOW = new Date('2025-01-10T16:00:00Z')
+const TODAY = '2025-01-10'
+
+function rules(rows: Array<Partial<FreshnessRuleRow> & Pick<FreshnessRuleRow, 'id' | 'rule_type' | 'params'>>): FreshnessRule[] {
+  return rows.map(row => {
+    const parsed = parseRule({ sport_id: 'nba', table_name: 'games', severity: 'warning', enabled: true, ...row })
+    if ('error' in parsed) throw new Error(parsed.error)
+    return parsed.rule
+  })
+}
+
+function game(id: string, start: string, extra: Partial<GameFreshness> = {}): GameFreshness {
+  return { id, sport_id: 'nba', start_time_utc: start, status: 'scheduled', final_total: null, date_local: TODAY, last_odds_at: null, ...extra }
+}
+
+Deno.test('rules are validated before they are evaluated', () => {
+  const bad = (row: Partial<FreshnessRuleRow>) => parseRule({ id: 'x', sport_id: 'nba', rule_type: 'odds_age', table_name: 'odds_snapshots', params: {}, severity: 'warning', enabled: true, ...row })
+  assertEquals(bad({ params: { max_age_minutes: -5 } }), { error: 'x: max_age_minutes must be a positive number' })
+  assertEquals(bad({ rule_type: 'edges_deadline', params: { deadline_et: '25:00' } }), { error: 'x: deadline_et must be HH:MM' })
+  assertEquals(bad({ rule_type: 'row_count', params: {} }), { error: 'x: unknown rule_type row_count' })
+  // Unknown severities fall back to warning
+  const ok = bad({ params: { max_age_minutes: 120 }, severity: 'page' })
+  assertEquals('rule' in ok && ok.rule.severity, 'warning')
+
+  assertEquals(lookbackDays(rules([
+    { id: 'a', rule_type: 'odds_age', params: { max_age_minutes: 120 } },
+    { id: 'b', rule_type: 'unverified_finals', params: { after_hours: 6, lookback_days: 3 } },
+  ])), 3)
+  assertEquals([etMinutes(NOW), etMinutes(new Date('2025-07-10T16:00:00Z'))], [11 * 60, 12 * 60])
+})
+
+Deno.test('stale odds before tip, a missing slate and unverified finals breach', () => {
+  const all = rules([
+    { id: 'odds_age:nba', rule_type: 'odds_age', params: { max_age_minutes: 120 }, severity: 'critical' },
+    { id: 'edges_deadline:nba', rule_type: 'edges_deadline', params: { deadline_et: '10:00' } },
+    { id: 'unverified_finals:nba', rule_type: 'unverified_finals', params: { after_hours: 6, lookback_days: 3 } },
+    { id: 'odds_age:nhl', rule_type: 'odds_age', params: { max_age_minutes: 120 }, sport_id: 'nhl', enabled: false },
+  ])
+  const games = [
+    game('fresh', '2025-01-11T00:00:00Z', { last_odds_at: '2025-01-10T15:30:00Z' }),
+    game('stale', '2025-01-11T00:30:00Z', { last_odds_at: '2025-01-10T12:00:00Z' }),
+    game('staler', '2025-01-11T01:00:00Z', { last_odds_at: '2025-01-10T11:00:00Z' }),
+    game('no-odds', '2025-01-11T01:00:00Z'),
+    // Already started: its odds no longer matter
+    game('started', '2025-01-10T15:00:00Z', { last_odds_at: '2025-01-10T08:00:00Z' }),
+    game('final', '2025-01-09T00:00:00Z', { status: 'final', final_total: 220, date_local: '2025-01-08' }),
+    game('unverified', '2025-01-09T01:00:00Z', { status: 'final', date_local: '2025-01-08' }),
+    game('too-old', '2025-01-05T01:00:00Z', { date_local: '2025-01-04' }),
+    game('nhl', '2025-01-11T00:00:00Z', { sport_id: 'nhl', last_odds_at: '2025-01-09T00:00:00Z' }),
+  ]
+
+  const breaches = evaluateRules(all, { now: NOW, today: TODAY, games, edges_today: { nba: 0 } })
+  assertEquals(breaches.map(b => [b.rule_id, b.severity, b.message, b.subjects]), [
+    ['odds_age:nba', 'critical', 'NBA odds are 300 min old for 2 upcoming games (max 120 min)', ['staler', 'stale']],
+    ['edges_deadline:nba', 'warning', 'No NBA daily_edges for 2025-01-10 by 10:00 ET (5 games scheduled)', []],
+    ['unverified_finals:nba', 'warning', '1 NBA game without a final score 6h after start', ['unverified']],
+  ])
+
+  // Before the deadline, or once edges exist, the slate rule holds
+  const early = evaluateRules(all, { now: new Date('2025-01-10T14:00:00Z'), today: TODAY, games, edges_today: {} })
+  assertEquals(early.some(b => b.rule_id === 'edges_deadline:nba'), false)
+  const built = evaluateRules(all, { now: NOW, today: TODAY, games, edges_today: { nba: 6 } })
+  assertEquals(built.some(b => b.rule_id === 'edges_deadline:nba'), false)
+})
+
+Deno.test('breaches alert when they open and when they resolve, not while ongoing', () => {
+  const breach = (rule_id: string) => ({ rule_id, sport_id: 'nba', rule_type: 'odds_age' as const, severity: 'warning' as const, message: `${rule_id} breached`, observed: {}, subjects: [] })
+  const open = [
+    { id: 1, rule_id: 'odds_age:nba', opened_at: '2025-01-10T14:00:00Z', notified_at: '2025-01-10T14:00:05Z' },
+    { id: 2, rule_id: 'edges_deadline:nba', opened_at: '2025-01-10T15:00:00Z', notified_at: null },
+  ]
+  const changes = diffBreaches(open, [breach('odds_age:nba'), breach('unverified_finals:nba')])
+  assertEquals(changes.opened.map(b => b.rule_id), ['unverified_finals:nba'])
+  assertEquals(changes.ongoing.map(o => o.open.id), [1])
+  assertEquals(changes.resolved.map(r => r.id), [2])
+
+  const payload = webhookPayload(changes, NOW)!
+  assertEquals(payload.text, 'Freshness SLA: [warning] unverified_finals:nba breached\n[resolved] edges_deadline:nba')
+  assertEquals(payload.resolved, [{ rule_id: 'edges_deadline:nba', opened_at: '2025-01-10T15:00:00Z' }])
+  assertEquals(webhookPayload({ opened: [], resolved: [] }, NOW), null)
+})
+
+Deno.test('the webhook receives the payload; a failing endpoint throws', async () => {
+  // A local endpoint standing in for FRESHNESS_WEBHOOK_URL
+  const received: Array<{ path: string; contentType: string | null; body: unknown }> = []
+  let status = 200
+  const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen() {} }, async (req) => {
+    received.push({ path: new URL(req.url).pathname, contentType: req.headers.get('content-type'), body: await req.json() })
+    return new Response(status === 200 ? 'ok' : 'no such hook', { status })
+  })
+  const url = `http://127.0.0.1:${server.addr.port}/hook`
+
+  try {
+    const payload = webhookPayload({ opened: [], resolved: [{ id: 1, rule_id: 'odds_age:nba', opened_at: '2025-01-10T14:00:00Z', notified_at: null }] }, NOW)!
+    await postWebhook(url, payload)
+    assertEquals(received, [{ path: '/hook', contentType: 'application/json', body: payload }])
+
+    status = 404
+    await assertRejects(() => postWebhook(url, payload), Error, 'Webhook 404: no such hook')
+    assertEquals(received.length, 2)
+  } finally {
+    await server.shutdown()
+  }
+})
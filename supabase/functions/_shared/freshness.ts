@@ -0,0 +1,288 @@
+/**
+ * Data freshness SLAs
+ *
+ * Rules are rows in freshness_rules, one per check and sport. check-freshness
+ * loads the games around today's slate, evaluates every enabled rule against
+ * them, keeps one open freshness_breaches row per failing rule and posts
+ * breaches as they open and resolve to the configured webhook.
+ *
+ *   odds_age           latest odds_snapshots.fetched_at of a game still to
+ *                      start on today's slate is older than max_age_minutes
+ *   edges_deadline     no daily_edges for today by deadline_et on a day
+ *                      the sport has games
+ *   unverified_finals  games that started more than after_hours ago (within
+ *                      lookback_days) without a final score
+ */
+
+export type FreshnessRuleType = 'odds_age' | 'edges_deadline' | 'unverified_finals'
+
+export type BreachSeverity = 'warning' | 'critical'
+
+export interface OddsAgeParams {
+  max_age_minutes: number
+}
+
+export interface EdgesDeadlineParams {
+  /** Wall-clock time in America/New_York, HH:MM */
+  deadline_et: string
+}
+
+export interface UnverifiedFinalsParams {
+  after_hours: number
+  lookback_days: number
+}
+
+interface RuleBase {
+  id: string
+  sport_id: string
+  table_name: string
+  severity: BreachSeverity
+  enabled: boolean
+}
+
+export type FreshnessRule =
+  | (RuleBase & { rule_type: 'odds_age'; params: OddsAgeParams })
+  | (RuleBase & { rule_type: 'edges_deadline'; params: EdgesDeadlineParams })
+  | (RuleBase & { rule_type: 'unverified_finals'; params: UnverifiedFinalsParams })
+
+/** A freshness_rules row as stored */
+export interface FreshnessRuleRow {
+  id: string
+  sport_id: string
+  rule_type: string
+  table_name: string
+  params: Record<string, unknown> | null
+  severity: string
+  enabled: boolean
+}
+
+const positive = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0
+
+/** Validates a stored rule; a bad row is reported rather than silently ignored */
+export function parseRule(row: FreshnessRuleRow): { rule: FreshnessRule } | { error: string } {
+  const params = row.params ?? {}
+  const severity: BreachSeverity = row.severity === 'critical' ? 'critical' : 'warning'
+  const base = { id: row.id, sport_id: row.sport_id, table_name: row.table_name, severity, enabled: row.enabled }
+
+  switch (row.rule_type) {
+    case 'odds_age':
+      if (!positive(params.max_age_minutes)) return { error: `${row.id}: max_age_minutes must be a positive number` }
+      return { rule: { ...base, rule_type: 'odds_age', params: { max_age_minutes: params.max_age_minutes } } }
+    case 'edges_deadline':
+      if (typeof params.deadline_et !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(params.deadline_et)) {
+        return { error: `${row.id}: deadline_et must be HH:MM` }
+      }
+      return { rule: { ...base, rule_type: 'edges_deadline', params: { deadline_et: params.deadline_et } } }
+    case 'unverified_finals':
+      if (!positive(params.after_hours) || !positive(params.lookback_days)) {
+        return { error: `${row.id}: after_hours and lookback_days must be positive numbers` }
+      }
+      return { rule: { ...base, rule_type: 'unverified_finals', params: { after_hours: params.after_hours, lookback_days: params.lookback_days } } }
+    default:
+      return { error: `${row.id}: unknown rule_type ${row.rule_type}` }
+  }
+}
+
+/** How far back check-freshness loads games to cover every rule */
+export function lookbackDays(rules: FreshnessRule[]): number {
+  return Math.max(1, ...rules.map(r => (r.rule_type === 'unverified_finals' ? r.params.lookback_days : 1)))
+}
+
+// ============================================================
+// EVALUATION
+// ============================================================
+
+/** A game around today's slate with its latest odds snapshot */
+export interface GameFreshness {
+  id: string
+  sport_id: string
+  start_time_utc: string
+  status: string
+  final_total: number | null
+  /** ET slate date */
+  date_local: string
+  last_odds_at: string | null
+}
+
+export interface FreshnessSnapshot {
+  now: Date
+  /** ET date of `now` */
+  today: string
+  games: GameFreshness[]
+  /** daily_edges rows for today by sport */
+  edges_today: Record<string, number>
+}
+
+export interface FreshnessBreach {
+  rule_id: string
+  sport_id: string
+  rule_type: FreshnessRuleType
+  severity: BreachSeverity
+  message: string
+  observed: Record<string, unknown>
+  /** Up to MAX_SUBJECTS offending game ids */
+  subjects: string[]
+}
+
+const MAX_SUBJECTS = 10
+const HOUR_MS = 60 * 60 * 1000
+
+/** Minutes past midnight in America/New_York */
+export function etMinutes(now: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: 'America/New_York',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now)
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0)
+  return part('hour') * 60 + part('minute')
+}
+
+function isFinal(game: GameFreshness): boolean {
+  return game.status === 'final' && game.final_total !== null
+}
+
+export function evaluateRule(rule: FreshnessRule, snapshot: FreshnessSnapshot): FreshnessBreach | null {
+  const now = snapshot.now.getTime()
+  const games = snapshot.games.filter(g => g.sport_id === rule.sport_id)
+  const sport = rule.sport_id.toUpperCase()
+  const breach = (message: string, observed: Record<string, unknown>, subjects: string[] = []): FreshnessBreach => ({
+    rule_id: rule.id,
+    sport_id: rule.sport_id,
+    rule_type: rule.rule_type,
+    severity: rule.severity,
+    message,
+    observed,
+    subjects: subjects.slice(0, MAX_SUBJECTS),
+  })
+
+  switch (rule.rule_type) {
+    case 'odds_age': {
+      // Games without any snapshot are an odds coverage gap, not staleness
+      const maxAgeMs = rule.params.max_age_minutes * 60 * 1000
+      const stale = games
+        .filter(g => g.date_local === snapshot.today && new Date(g.start_time_utc).getTime() > now && g.last_odds_at)
+        .map(g => ({ id: g.id, age: now - new Date(g.last_odds_at!).getTime() }))
+        .filter(g => g.age > maxAgeMs)
+        .sort((a, b) => b.age - a.age)
+      if (!stale.length) return null
+      const oldestMinutes = Math.round(stale[0].age / 60000)
+      return breach(
+        `${sport} odds are ${oldestMinutes} min old for ${stale.length} upcoming game${stale.length === 1 ? '' : 's'} (max ${rule.params.max_age_minutes} min)`,
+        { stale_games: stale.length, oldest_age_minutes: oldestMinutes, max_age_minutes: rule.params.max_age_minutes },
+        stale.map(g => g.id)
+      )
+    }
+
+    case 'edges_deadline': {
+      const [hours, minutes] = rule.params.deadline_et.split(':').map(Number)
+      if (etMinutes(snapshot.now) < hours * 60 + minutes) return null
+      const slate = games.filter(g => g.date_local === snapshot.today)
+      const edges = snapshot.edges_today[rule.sport_id] ?? 0
+      if (!slate.length || edges > 0) return null
+      return breach(
+        `No ${sport} daily_edges for ${snapshot.today} by ${rule.params.deadline_et} ET (${slate.length} games scheduled)`,
+        { games_today: slate.length, edges_today: edges, deadline_et: rule.params.deadline_et }
+      )
+    }
+
+    case 'unverified_finals': {
+      const from = now - rule.params.lookback_days * 24 * HOUR_MS
+      const until = now - rule.params.after_hours * HOUR_MS
+      const unverified = games
+        .filter(g => {
+          const start = new Date(g.start_time_utc).getTime()
+          return start >= from && start <= until && !isFinal(g)
+        })
+        .sort((a, b) => a.start_time_utc.localeCompare(b.start_time_utc))
+      if (!unverified.length) return null
+      return breach(
+        `${unverified.length} ${sport} game${unverified.length === 1 ? '' : 's'} without a final score ${rule.params.after_hours}h after start`,
+        { unverified_games: unverified.length, oldest_start: unverified[0].start_time_utc, after_hours: rule.params.after_hours },
+        unverified.map(g => g.id)
+      )
+    }
+  }
+}
+
+export function evaluateRules(rules: FreshnessRule[], snapshot: FreshnessSnapshot): FreshnessBreach[] {
+  return rules
+    .filter(r => r.enabled)
+    .map(r => evaluateRule(r, snapshot))
+    .filter((b): b is FreshnessBreach => b !== null)
+}
+
+// ============================================================
+// BREACH LIFECYCLE
+// ============================================================
+
+/** An unresolved freshness_breaches row */
+export interface OpenBreach {
+  id: number
+  rule_id: string
+  opened_at: string
+  /** Null until the webhook accepted the alert for it */
+  notified_at: string | null
+}
+
+export interface BreachChanges {
+  opened: FreshnessBreach[]
+  ongoing: Array<{ open: OpenBreach; breach: FreshnessBreach }>
+  resolved: OpenBreach[]
+}
+
+/** Compares this evaluation with the breaches still open from the last one */
+export function diffBreaches(open: OpenBreach[], current: FreshnessBreach[]): BreachChanges {
+  const openByRule = new Map(open.map(o => [o.rule_id, o]))
+  const currentRules = new Set(current.map(b => b.rule_id))
+  return {
+    opened: current.filter(b => !openByRule.has(b.rule_id)),
+    ongoing: current.filter(b => openByRule.has(b.rule_id)).map(breach => ({ open: openByRule.get(breach.rule_id)!, breach })),
+    resolved: open.filter(o => !currentRules.has(o.rule_id)),
+  }
+}
+
+// ============================================================
+// WEBHOOK
+// ============================================================
+
+export interface WebhookPayload {
+  /** One-line summary; Slack-compatible webhooks render it as the message */
+  text: string
+  sent_at: string
+  opened: FreshnessBreach[]
+  resolved: Array<{ rule_id: string; opened_at: string }>
+}
+
+export function webhookPayload(changes: Pick<BreachChanges, 'opened' | 'resolved'>, now: Date): WebhookPayload | null {
+  if (!changes.opened.length && !changes.resolved.length) return null
+  const lines = [
+    ...changes.opened.map(b => `[${b.severity}] ${b.message}`),
+    ...changes.resolved.map(r => `[resolved] ${r.rule_id}`),
+  ]
+  return {
+    text: `Freshness SLA: ${lines.join('\n')}`,
+    sent_at: now.toISOString(),
+    opened: changes.opened,
+    resolved: changes.resolved.map(r => ({ rule_id: r.rule_id, opened_at: r.opened_at })),
+  }
+}
+
+export interface WebhookOptions {
+  fetch?: (input: string | URL | Request, init?: RequestInit) => Promise<Response>
+  timeoutMs?: number
+}
+
+/** Posts the payload; throws with the status on a non-2xx answer */
+export async function postWebhook(url: string, payload: WebhookPayload, options: WebhookOptions = {}): Promise<void> {
+  const doFetch = options.fetch ?? fetch
+  const response = await doFetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(options.timeoutMs ?? 10_000),
+  })
+  const body = await response.text().catch(() => '')
+  if (!response.ok) throw new Error(`Webhook ${response.status}: ${body.slice(0, 200)}`)
+}
@@ -0,0 +1,117 @@
+// Fixtures for the job runner: leases, step retries, run status and history.
+// Run with: deno test supabase/functions/_shared
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import {
+  backoffDelay,
+  classifyFailure,
+  jobError,
+  memoryJobStore,
+  runJob,
+  summarizeJobRuns,
+  type JobRunRow,
+} from './jobRunner.ts'
+
+const noSleep = () => Promise.resolve()
+
+Deno.test('failures are classified from tags, codes and messages', () => {
+  assertEquals(classifyFailure(jobError('validation', 'bad date')), 'validation')
+  assertEquals(classifyFailure(Object.assign(new Error('x'), { name: 'AbortError' })), 'timeout')
+  assertEquals(classifyFailure({ message: 'insert failed', code: '23505' }), 'database')
+  assertEquals(classifyFailure(new Error('bdl-sync 429: Too Many Requests')), 'rate_limited')
+  assertEquals(classifyFailure(new Error('hydrate-matchup 503: Service Unavailable')), 'upstream')
+  assertEquals(classifyFailure(new Error('Unknown sport: cricket')), 'validation')
+  assertEquals(classifyFailure('something odd'), 'unknown')
+  assertEquals([1, 2, 3, 4, 5].map(a => backoffDelay(a, { attempts: 5, baseDelay: 1000, maxDelay: 5000 })), [1000, 2000, 4000, 5000, 5000])
+})
+
+Deno.test('a live lease skips the second run; an expired one is taken over', async () => {
+  let clock = 0
+  const store = memoryJobStore(() => clock)
+  await store.acquireLease('morning-refresh', 'other', 60_000, 1)
+
+  const skipped = await runJob(store, { job_name: 'morning-refresh', now: () => clock }, () => Promise.resolve('ran'))
+  assertEquals([skipped.status, skipped.value, skipped.failure_class], ['skipped', null, 'lock_contention'])
+  assertEquals(store.runs.get(skipped.run_id!)?.status, 'skipped')
+
+  clock = 61_000
+  const ran = await runJob(store, { job_name: 'morning-refresh', now: () => clock }, () => Promise.resolve('ran'))
+  assertEquals([ran.status, ran.value], ['success', 'ran'])
+  // Released when the run ends
+  assertEquals(store.locks.has('morning-refresh'), false)
+})
+
+Deno.test('transient step failures retry with backoff; others fail at once', async () => {
+  const store = memoryJobStore()
+  const delays: number[] = []
+  const sleep = (ms: number) => { delays.push(ms); return Promise.resolve() }
+
+  const result = await runJob(store, { job_name: 'prewarm-slate', retry: { attempts: 3, baseDelay: 100, maxDelay: 1000 }, sleep }, async ctx => {
+    return await ctx.step('hydrate', async step => {
+      step.read(10)
+      step.wrote(step.attempt)
+      if (step.attempt < 3) throw new Error('hydrate-matchup 502: Bad Gateway')
+      return step.attempt
+    })
+  })
+  assertEquals(result.status, 'success')
+  assertEquals(delays, [100, 200])
+  // Rows come from the attempt that succeeded
+  assertEquals([result.steps[0].attempts, result.steps[0].rows_written, result.metrics.rows_read, result.metrics.retries], [3, 3, 10, 2])
+
+  let calls = 0
+  const failed = await runJob(store, { job_name: 'prewarm-slate', sleep: noSleep }, async ctx => {
+    await ctx.step('load', () => { calls++; return Promise.reject({ message: 'relation "games" does not exist', code: '42P01' }) })
+  })
+  assertEquals([calls, failed.status, failed.failure_class], [1, 'fail', 'database'])
+  assertEquals(store.runs.get(failed.run_id!)?.error, 'relation "games" does not exist')
+})
+
+Deno.test('a failed optional step leaves the run partial', async () => {
+  const store = memoryJobStore()
+  const result = await runJob(store, { job_name: 'morning-refresh', sleep: noSleep }, async ctx => {
+    const odds = await ctx.step('refresh_odds', () => Promise.reject(new Error('Unknown sport: xfl')), { optional: true })
+    const compute = await ctx.step('compute', step => { step.wrote(12); return Promise.resolve('done') })
+    ctx.detail({ odds, compute })
+  })
+  assertEquals([result.status, result.failure_class, result.error], ['partial', 'validation', 'refresh_odds: Unknown sport: xfl'])
+  const run = store.runs.get(result.run_id!)!
+  assertEquals(run.steps?.map(s => [s.name, s.status]), [['refresh_odds', 'fail'], ['compute', 'success']])
+  assertEquals(run.details, { odds: null, compute: 'done' })
+  assertEquals([run.metrics?.steps_failed, run.metrics?.rows_written], [1, 12])
+})
+
+Deno.test('a run that lost its lease stops at the next heartbeat', async () => {
+  let clock = 0
+  const store = memoryJobStore(() => clock)
+  const result = await runJob(store, { job_name: 'hydrate-matchup', job_key: 'hydrate-matchup:nba:a:b', lease_ms: 1000, now: () => clock, sleep: noSleep }, async ctx => {
+    await ctx.step('first', () => Promise.resolve(1))
+    clock = 5000
+    await store.acquireLease('hydrate-matchup:nba:a:b', 'other', 1000, null)
+    await ctx.step('second', () => Promise.resolve(2), { optional: true })
+  })
+  assertEquals([result.status, result.failure_class], ['fail', 'lock_contention'])
+  // The other holder keeps its lease
+  assertEquals(store.locks.get('hydrate-matchup:nba:a:b')?.holder, 'other')
+})
+
+Deno.test('history groups runs per job with failure reasons and leases', () => {
+  const run = (id: number, job_name: string, status: JobRunRow['status'], started_at: string, extra: Partial<JobRunRow> = {}): JobRunRow => ({
+    id, job_name, job_key: job_name, status, started_at, finished_at: null, details: null, steps: [], metrics: null, failure_class: null, error: null, ...extra,
+  })
+  const history = summarizeJobRuns([
+    run(1, 'prewarm-slate', 'success', '2025-01-01T10:00:00Z', { finished_at: '2025-01-01T10:00:30Z' }),
+    run(2, 'prewarm-slate', 'fail', '2025-01-02T10:00:00Z', { failure_class: 'upstream', error: 'hydrate-matchup 503', metrics: { duration_ms: 10_000, rows_read: 0, rows_written: 0, steps: 1, steps_failed: 1, retries: 2 } }),
+    run(3, 'prewarm-slate', 'skipped', '2025-01-02T10:00:01Z', { failure_class: 'lock_contention' }),
+    run(4, 'ingest', 'fail', '2025-01-02T09:00:00Z', { details: { error: 'legacy failure' } }),
+  ], [{ job_key: 'prewarm-slate', holder: 'h', job_run_id: 5, expires_at: '2025-01-02T10:10:00Z' }])
+
+  assertEquals(history.map(h => h.job_name), ['ingest', 'prewarm-slate'])
+  const prewarm = history[1]
+  assertEquals(prewarm.runs.map(r => r.id), [3, 2, 1])
+  assertEquals(prewarm.stats, { success: 1, partial: 0, fail: 1, skipped: 1, total: 3 })
+  assertEquals([prewarm.success_rate, prewarm.avg_duration_ms], [50, 20_000])
+  assertEquals(prewarm.failure_classes, { upstream: 1, lock_contention: 1 })
+  assertEquals([prewarm.last_failure?.id, prewarm.last_failure?.error], [2, 'hydrate-matchup 503'])
+  assertEquals(prewarm.active_leases.length, 1)
+  assertEquals(history[0].last_failure?.error, 'legacy failure')
+})
@@ -0,0 +1,574 @@
+/**
+ * Job runner
+ *
+ * Edge functions started by cron or by each other run their work through
+ * runJob. A run first takes a lease on its job key (job_locks), so a second
+ * invocation while one is in flight is recorded as skipped instead of doing
+ * the same work again. The work is split into named steps; each step is
+ * retried with backoff when its failure looks transient, and its duration,
+ * row counts and error land in job_runs.steps as it goes. The run ends with
+ * a metrics payload and, when it failed, a failure class Status can group by.
+ */
+
+export type JobStatus = 'running' | 'success' | 'partial' | 'fail' | 'skipped'
+
+export type StepStatus = 'running' | 'success' | 'fail'
+
+export type FailureClass =
+  | 'timeout'
+  | 'rate_limited'
+  | 'upstream'
+  | 'database'
+  | 'validation'
+  | 'lock_contention'
+  | 'unknown'
+
+export interface JobStep {
+  name: string
+  status: StepStatus
+  started_at: string
+  finished_at: string | null
+  duration_ms: number | null
+  attempts: number
+  rows_read: number
+  rows_written: number
+  /** Optional steps fail without failing the run; it ends 'partial' */
+  optional: boolean
+  error: string | null
+  failure_class: FailureClass | null
+}
+
+export interface JobMetrics {
+  duration_ms: number
+  rows_read: number
+  rows_written: number
+  steps: number
+  steps_failed: number
+  /** Attempts beyond the first, over all steps */
+  retries: number
+}
+
+export interface RetryOptions {
+  attempts: number
+  baseDelay: number
+  maxDelay: number
+}
+
+export const DEFAULT_RETRY: RetryOptions = { attempts: 3, baseDelay: 1000, maxDelay: 15000 }
+
+/** How long a lease lasts without a heartbeat; steps renew it */
+export const DEFAULT_LEASE_MS = 10 * 60 * 1000
+
+// ============================================================
+// FAILURES
+// ============================================================
+
+/** An error carrying its failure class, for failures the caller can name */
+export function jobError(failureClass: FailureClass, message: string): Error {
+  return Object.assign(new Error(message), { failure_class: failureClass })
+}
+
+export function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message
+  if (error && typeof error === 'object' && 'message' in error) return String((error as { message: unknown }).message)
+  return String(error)
+}
+
+/**
+ * Sorts an error into the class Status reports it under. Supabase errors
+ * (plain objects with a Postgres code) count as database failures; the rest
+ * is read from the message.
+ */
+export function classifyFailure(error: unknown): FailureClass {
+  if (error && typeof error === 'object') {
+    const tagged = (error as { failure_class?: FailureClass }).failure_class
+    if (tagged) return tagged
+    const name = (error as { name?: string }).name
+    if (name === 'AbortError' || name === 'TimeoutError') return 'timeout'
+    const code = (error as { code?: string }).code
+    if (typeof code === 'string' && (/^[0-9A-Z]{5}$/.test(code) || code.startsWith('PGRST'))) return 'database'
+  }
+
+  const message = errorMessage(error).toLowerCase()
+  if (/timed? ?out|deadline|wall clock/.test(message)) return 'timeout'
+  if (/\b429\b|rate.?limit|too many requests/.test(message)) return 'rate_limited'
+  if (/\b5\d\d\b|bad gateway|service unavailable|fetch failed|network|econnreset|connection (reset|refused|closed)/.test(message)) return 'upstream'
+  if (/duplicate key|violates|does not exist|deadlock|could not serialize|syntax error/.test(message)) return 'database'
+  if (/\b(400|404|422)\b|invalid|required|must be|unknown sport|not found/.test(message)) return 'validation'
+  return 'unknown'
+}
+
+/** Transient failures are worth another attempt; the rest would fail the same way */
+export function isRetryable(failureClass: FailureClass): boolean {
+  return failureClass === 'timeout' || failureClass === 'rate_limited' || failureClass === 'upstream'
+}
+
+/** Delay before retry `attempt` (1 for the first retry) */
+export function backoffDelay(attempt: number, retry: RetryOptions): number {
+  return Math.min(retry.baseDelay * Math.pow(2, attempt - 1), retry.maxDelay)
+}
+
+// ============================================================
+// STORE
+// ============================================================
+
+export interface JobRunRow {
+  id: number
+  job_name: string
+  job_key: string | null
+  status: JobStatus
+  started_at: string
+  finished_at: string | null
+  details: Record<string, unknown> | null
+  steps: JobStep[] | null
+  metrics: JobMetrics | null
+  failure_class: FailureClass | null
+  error: string | null
+}
+
+export type JobRunPatch = Partial<Omit<JobRunRow, 'id'>>
+
+/** Where runs and leases are kept: job_runs and job_locks, or memory in tests */
+export interface JobStore {
+  insertRun(row: JobRunPatch & { job_name: string }): Promise<number | null>
+  updateRun(id: number, patch: JobRunPatch): Promise<void>
+  /** Take or renew the lease; false while another holder's lease is live */
+  acquireLease(jobKey: string, holder: string, ttlMs: number, runId: number | null): Promise<boolean>
+  releaseLease(jobKey: string, holder: string): Promise<void>
+}
+
+type WriteResult = PromiseLike<{ data?: unknown; error: { message: string } | null }>
+
+/** The slice of a supabase client the job tables are written through */
+export interface JobTablesClient {
+  from(table: string): {
+    insert(row: Record<string, unknown>): { select(columns: string): { single(): WriteResult } }
+    update(patch: Record<string, unknown>): { eq(column: string, value: number): WriteResult }
+  }
+  rpc(fn: string, args: Record<string, unknown>): WriteResult
+}
+
+/**
+ * job_runs and job_locks. Bookkeeping writes that fail are logged, not
+ * thrown, so they never fail the job itself; a lease call that fails counts
+ * as not acquired.
+ */
+export function supabaseJobStore(supabase: JobTablesClient): JobStore {
+  return {
+    async insertRun(row) {
+      const { data, error } = await supabase.from('job_runs').insert(row).select('id').single()
+      if (error) {
+        console.error(`[JOB] job_runs insert failed for ${row.job_name}: ${error.message}`)
+        return null
+      }
+      return (data as { id: number } | null)?.id ?? null
+    },
+    async updateRun(id, patch) {
+      const { error } = await supabase.from('job_runs').update(patch).eq('id', id)
+      if (error) console.error(`[JOB] job_runs update failed for run ${id}: ${error.message}`)
+    },
+    async acquireLease(jobKey, holder, ttlMs, runId) {
+      const { data, error } = await supabase.rpc('acquire_job_lease', {
+        p_job_key: jobKey,
+        p_holder: holder,
+        p_ttl_seconds: Math.ceil(ttlMs / 1000),
+        p_job_run_id: runId,
+      })
+      if (error) {
+        console.error(`[JOB] Lease on ${jobKey} failed: ${error.message}`)
+        return false
+      }
+      return data === true
+    },
+    async releaseLease(jobKey, holder) {
+      const { error } = await supabase.rpc('release_job_lease', { p_job_key: jobKey, p_holder: holder })
+      if (error) console.error(`[JOB] Releasing ${jobKey} failed: ${error.message}`)
+    },
+  }
+}
+
+export interface MemoryJobStore extends JobStore {
+  runs: Map<number, JobRunRow>
+  locks: Map<string, { holder: string; expires_at: number; job_run_id: number | null }>
+}
+
+/** In-memory store with the same lease rules as acquire_job_lease */
+export function memoryJobStore(now: () => number = Date.now): MemoryJobStore {
+  const runs = new Map<number, JobRunRow>()
+  const locks = new Map<string, { holder: string; expires_at: number; job_run_id: number | null }>()
+  let nextId = 1
+
+  return {
+    runs,
+    locks,
+    async insertRun(row) {
+      const id = nextId++
+      runs.set(id, {
+        id,
+        job_key: null,
+        status: 'running',
+        started_at: new Date(now()).toISOString(),
+        finished_at: null,
+        details: null,
+        steps: [],
+        metrics: null,
+        failure_class: null,
+        error: null,
+        ...row,
+      })
+      return id
+    },
+    async updateRun(id, patch) {
+      const run = runs.get(id)
+      if (run) runs.set(id, { ...run, ...patch })
+    },
+    async acquireLease(jobKey, holder, ttlMs, runId) {
+      const lock = locks.get(jobKey)
+      if (lock && lock.holder !== holder && lock.expires_at >= now()) return false
+      locks.set(jobKey, { holder, expires_at: now() + ttlMs, job_run_id: runId })
+      return true
+    },
+    async releaseLease(jobKey, holder) {
+      if (locks.get(jobKey)?.holder === holder) locks.delete(jobKey)
+    },
+  }
+}
+
+// ============================================================
+// RUNNER
+// ============================================================
+
+export interface StepHandle {
+  /** 1 on the first attempt */
+  attempt: number
+  read(rows: number): void
+  wrote(rows: number): void
+}
+
+export type StepFn<T> = (step: StepHandle) => Promise<T>
+
+export interface StepOptions {
+  /** Retry policy for this step, or false to run it once */
+  retry?: Partial<RetryOptions> | false
+}
+
+export interface JobContext {
+  run_id: number | null
+  job_key: string
+  /** Run a step; a failure fails the run */
+  step<T>(name: string, fn: StepFn<T>, options?: StepOptions & { optional?: false }): Promise<T>
+  /** Run a step whose failure leaves the run partial; returns null when it failed */
+  step<T>(name: string, fn: StepFn<T>, options: StepOptions & { optional: true }): Promise<T | null>
+  /** Merge into job_runs.details (written with the next step update) */
+  detail(patch: Record<string, unknown>): void
+  /** Renew the lease during a long step; throws once the lease has been lost */
+  heartbeat(): Promise<void>
+}
+
+export interface JobOptions {
+  job_name: string
+  /** What the lease is taken on; defaults to job_name. Per-entity keys read `${job_name}:${entity}` */
+  job_key?: string
+  details?: Record<string, unknown>
+  lease_ms?: number
+  retry?: Partial<RetryOptions>
+  holder?: string
+  now?: () => number
+  sleep?: (ms: number) => Promise<void>
+}
+
+export interface JobResult<T> {
+  run_id: number | null
+  status: Exclude<JobStatus, 'running'>
+  value: T | null
+  steps: JobStep[]
+  metrics: JobMetrics
+  error: string | null
+  failure_class: FailureClass | null
+}
+
+export function jobMetrics(steps: JobStep[], durationMs: number): JobMetrics {
+  return {
+    duration_ms: durationMs,
+    rows_read: steps.reduce((sum, s) => sum + s.rows_read, 0),
+    rows_written: steps.reduce((sum, s) => sum + s.rows_written, 0),
+    steps: steps.length,
+    steps_failed: steps.filter(s => s.status === 'fail').length,
+    retries: steps.reduce((sum, s) => sum + Math.max(s.attempts - 1, 0), 0),
+  }
+}
+
+/**
+ * Runs `work` under a lease on the job key and records it in job_runs. A
+ * required step that fails (after its retries) fails the run; an optional
+ * one leaves it partial. The lease is released however the run ends.
+ */
+export async function runJob<T>(
+  store: JobStore,
+  options: JobOptions,
+  work: (ctx: JobContext) => Promise<T>
+): Promise<JobResult<T>> {
+  const now = options.now ?? Date.now
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>(r => setTimeout(r, ms)))
+  const jobKey = options.job_key ?? options.job_name
+  const holder = options.holder ?? crypto.randomUUID()
+  const leaseMs = options.lease_ms ?? DEFAULT_LEASE_MS
+  const jobRetry = { ...DEFAULT_RETRY, ...options.retry }
+  const startedAt = now()
+  const iso = (ms: number) => new Date(ms).toISOString()
+
+  if (!(await store.acquireLease(jobKey, holder, leaseMs, null))) {
+    const error = `Lease on ${jobKey} is held by another run`
+    console.log(`[JOB] ${options.job_name}: skipped, ${error}`)
+    const metrics = jobMetrics([], 0)
+    const runId = await store.insertRun({
+      job_name: options.job_name,
+      job_key: jobKey,
+      status: 'skipped',
+      finished_at: iso(startedAt),
+      details: options.details ?? null,
+      metrics,
+      failure_class: 'lock_contention',
+      error,
+    })
+    return { run_id: runId, status: 'skipped', value: null, steps: [], metrics, error, failure_class: 'lock_contention' }
+  }
+
+  const runId = await store.insertRun({
+    job_name: options.job_name,
+    job_key: jobKey,
+    status: 'running',
+    details: options.details ?? null,
+  })
+  const steps: JobStep[] = []
+  let details: Record<string, unknown> = { ...options.details }
+  let leaseLost = false
+
+  const heartbeat = async () => {
+    if (leaseLost || !(await store.acquireLease(jobKey, holder, leaseMs, runId))) {
+      leaseLost = true
+      throw jobError('lock_contention', `Lease on ${jobKey} was lost`)
+    }
+  }
+
+  const persist = async () => {
+    if (runId !== null) await store.updateRun(runId, { steps, details })
+  }
+
+  const step = async <S>(name: string, fn: StepFn<S>, stepOptions: StepOptions & { optional?: boolean } = {}): Promise<S | null> => {
+    const retry = stepOptions.retry === false ? { ...jobRetry, attempts: 1 } : { ...jobRetry, ...stepOptions.retry }
+    const record: JobStep = {
+      name,
+      status: 'running',
+      started_at: iso(now()),
+      finished_at: null,
+      duration_ms: null,
+      attempts: 0,
+      rows_read: 0,
+      rows_written: 0,
+      optional: stepOptions.optional ?? false,
+      error: null,
+      failure_class: null,
+    }
+    steps.push(record)
+    await heartbeat()
+    await persist()
+
+    const stepStart = now()
+    while (true) {
+      record.attempts++
+      // Rows count from the attempt that succeeds
+      let read = 0
+      let written = 0
+      try {
+        const value = await fn({ attempt: record.attempts, read: n => { read += n }, wrote: n => { written += n } })
+        record.rows_read = read
+        record.rows_written = written
+        record.status = 'success'
+        record.error = null
+        record.failure_class = null
+        record.finished_at = iso(now())
+        record.duration_ms = now() - stepStart
+        await persist()
+        return value
+      } catch (error) {
+        const failureClass = classifyFailure(error)
+        record.error = errorMessage(error)
+        record.failure_class = failureClass
+        if (isRetryable(failureClass) && record.attempts < retry.attempts) {
+          const delay = backoffDelay(record.attempts, retry)
+          console.log(`[JOB] ${options.job_name}/${name} ${failureClass}, retry ${record.attempts}/${retry.attempts - 1} after ${delay}ms: ${record.error}`)
+          await persist()
+          await sleep(delay)
+          await heartbeat()
+          continue
+        }
+
+        record.status = 'fail'
+        record.finished_at = iso(now())
+        record.duration_ms = now() - stepStart
+        console.error(`[JOB] ${options.job_name}/${name} failed (${failureClass}): ${record.error}`)
+        await persist()
+        if (record.optional && failureClass !== 'lock_contention') return null
+        throw error
+      }
+    }
+  }
+
+  const ctx: JobContext = {
+    run_id: runId,
+    job_key: jobKey,
+    step: step as JobContext['step'],
+    detail: patch => { details = { ...details, ...patch } },
+    heartbeat,
+  }
+
+  let value: T | null = null
+  let error: string | null = null
+  let failureClass: FailureClass | null = null
+  try {
+    value = await work(ctx)
+  } catch (err) {
+    error = errorMessage(err)
+    failureClass = classifyFailure(err)
+  }
+
+  const failedOptional = steps.find(s => s.status === 'fail' && s.optional)
+  const status: JobResult<T>['status'] = error ? 'fail' : failedOptional ? 'partial' : 'success'
+  if (!error && failedOptional) {
+    error = `${failedOptional.name}: ${failedOptional.error}`
+    failureClass = failedOptional.failure_class
+  }
+
+  const finishedAt = now()
+  const metrics = jobMetrics(steps, finishedAt - startedAt)
+  if (runId !== null) {
+    await store.updateRun(runId, {
+      status,
+      finished_at: iso(finishedAt),
+      steps,
+      details,
+      metrics,
+      failure_class: failureClass,
+      error,
+    })
+  }
+  if (!leaseLost) await store.releaseLease(jobKey, holder)
+
+  console.log(`[JOB] ${options.job_name} ${status} in ${metrics.duration_ms}ms: ${metrics.steps} steps, ${metrics.rows_written} rows written`)
+  return { run_id: runId, status, value, steps, metrics, error, failure_class: failureClass }
+}
+
+// ============================================================
+// HISTORY
+// ============================================================
+
+export interface LeaseRow {
+  job_key: string
+  holder: string
+  job_run_id: number | null
+  expires_at: string
+}
+
+export interface RunSummary {
+  id: number
+  status: JobStatus
+  started_at: string
+  finished_at: string | null
+  duration_ms: number | null
+  rows_written: number | null
+  failure_class: FailureClass | null
+  error: string | null
+  /** Steps of the run, without timestamps */
+  steps: Array<Pick<JobStep, 'name' | 'status' | 'duration_ms' | 'attempts' | 'rows_written' | 'error'>>
+}
+
+export interface JobHistory {
+  job_name: string
+  last_run: RunSummary
+  runs: RunSummary[]
+  stats: Record<Exclude<JobStatus, 'running'>, number> & { total: number }
+  success_rate: number
+  avg_duration_ms: number | null
+  failure_classes: Partial<Record<FailureClass, number>>
+  last_failure: RunSummary | null
+  /** Leases live on this job's keys */
+  active_leases: LeaseRow[]
+}
+
+// Rows from before the runner recorded failures keep theirs in details
+function runFailure(run: JobRunRow): string | null {
+  if (run.error) return run.error
+  const legacy = run.details?.error
+  return typeof legacy === 'string' ? legacy : null
+}
+
+export function summarizeRun(run: JobRunRow): RunSummary {
+  const duration = run.metrics?.duration_ms
+    ?? (run.finished_at ? new Date(run.finished_at).getTime() - new Date(run.started_at).getTime() : null)
+  return {
+    id: run.id,
+    status: run.status,
+    started_at: run.started_at,
+    finished_at: run.finished_at,
+    duration_ms: duration,
+    rows_written: run.metrics?.rows_written ?? null,
+    failure_class: run.failure_class,
+    error: runFailure(run),
+    steps: (run.steps || []).map(s => ({
+      name: s.name,
+      status: s.status,
+      duration_ms: s.duration_ms,
+      attempts: s.attempts,
+      rows_written: s.rows_written,
+      error: s.error,
+    })),
+  }
+}
+
+/**
+ * Runs grouped per job, newest first, with the last `historySize` runs,
+ * counts by status and failure class, and the leases held on its keys.
+ */
+export function summarizeJobRuns(runs: JobRunRow[], leases: LeaseRow[] = [], historySize = 10): JobHistory[] {
+  const byJob = new Map<string, JobRunRow[]>()
+  for (const run of [...runs].sort((a, b) => b.started_at.localeCompare(a.started_at))) {
+    const list = byJob.get(run.job_name) ?? []
+    list.push(run)
+    byJob.set(run.job_name, list)
+  }
+
+  const histories: JobHistory[] = []
+  for (const [jobName, jobRuns] of byJob) {
+    const stats = { success: 0, partial: 0, fail: 0, skipped: 0, total: 0 }
+    const failureClasses: Partial<Record<FailureClass, number>> = {}
+    const durations: number[] = []
+    for (const run of jobRuns) {
+      if (run.status in stats && run.status !== 'running') {
+        stats[run.status as Exclude<JobStatus, 'running'>]++
+        stats.total++
+      }
+      if (run.failure_class && run.status !== 'success') {
+        failureClasses[run.failure_class] = (failureClasses[run.failure_class] ?? 0) + 1
+      }
+      const duration = summarizeRun(run).duration_ms
+      if (duration !== null && run.status !== 'skipped') durations.push(duration)
+    }
+
+    // Skipped runs did nothing, so they count neither way
+    const attempted = stats.success + stats.partial + stats.fail
+    const lastFailure = jobRuns.find(r => r.status === 'fail' || r.status === 'partial')
+    histories.push({
+      job_name: jobName,
+      last_run: summarizeRun(jobRuns[0]),
+      runs: jobRuns.slice(0, historySize).map(summarizeRun),
+      stats,
+      success_rate: attempted > 0 ? Math.round((stats.success / attempted) * 100) : 100,
+      avg_duration_ms: durations.length ? Math.round(durations.reduce((a, b) => a + b, 0) / durations.length) : null,
+      failure_classes: failureClasses,
+      last_failure: lastFailure ? summarizeRun(lastFailure) : null,
+      active_leases: leases.filter(l => l.job_key === jobName || l.job_key.startsWith(`${jobName}:`)),
+    })
+  }
+  return histories.sort((a, b) => a.job_name.localeCompare(b.job_name))
+}
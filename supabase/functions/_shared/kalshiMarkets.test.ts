@@ -0,0 +1,84 @@
+// Fixtures for Kalshi game-total market parsing, matching and strike selection.
+// Run with: deno test supabase/functions/_shared
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import {
+  kalshiTotalsSport,
+  mapTotalsMarkets,
+  matchTotalsEvent,
+  parseTotalStrike,
+  selectStrike,
+  type KalshiTotalsMarket,
+  type TotalsGame,
+} from './kalshiMarkets.ts'
+
+const EVENT = 'KXNBATOTAL-25OCT21HOUOKC'
+
+function market(strike: number, extra: Partial<KalshiTotalsMarket> = {}): KalshiTotalsMarket {
+  return {
+    ticker: `${EVENT}-${Math.floor(strike)}`,
+    event_ticker: EVENT,
+    title: 'Houston at Oklahoma City: Total Points',
+    yes_sub_title: `Over ${strike} points scored`,
+    strike_type: 'greater',
+    floor_strike: strike,
+    status: 'active',
+    close_time: '2025-10-22T03:00:00Z',
+    ...extra,
+  }
+}
+
+const GAMES: TotalsGame[] = [
+  // 7:30pm CT tip is the next UTC day
+  { id: 'hou-okc', start_time_utc: '2025-10-22T00:30:00Z', home_key: 'OKC', away_key: 'HOU' },
+  { id: 'okc-hou-later', start_time_utc: '2025-12-01T00:30:00Z', home_key: 'OKC', away_key: 'HOU' },
+  { id: 'gsw-lal', start_time_utc: '2025-10-22T02:00:00Z', home_key: 'LAL', away_key: 'GSW' },
+]
+
+Deno.test('strikes come from structured fields, then the wording', () => {
+  assertEquals(kalshiTotalsSport(EVENT), 'nba')
+  assertEquals(kalshiTotalsSport('KXNFLTOTAL'), 'nfl')
+  assertEquals(kalshiTotalsSport('KXNBAGAME-25OCT21HOUOKC'), null)
+
+  assertEquals(parseTotalStrike(market(219.5)), { line: 219.5, yes_side: 'over' })
+  assertEquals(parseTotalStrike(market(220, { strike_type: 'greater_or_equal' })), { line: 219.5, yes_side: 'over' })
+  assertEquals(parseTotalStrike({ ticker: 'x', event_ticker: EVENT, strike_type: 'less', cap_strike: 44.5 }), { line: 44.5, yes_side: 'under' })
+  assertEquals(parseTotalStrike({ ticker: 'x', event_ticker: EVENT, subtitle: 'Under 6.5 goals' }), { line: 6.5, yes_side: 'under' })
+  assertEquals(parseTotalStrike({ ticker: 'x', event_ticker: EVENT, yes_sub_title: '230+' }), { line: 229.5, yes_side: 'over' })
+  assertEquals(parseTotalStrike({ ticker: 'x', event_ticker: EVENT, strike_type: 'between', title: 'Total Points' }), null)
+})
+
+Deno.test('events map to the one game on the ticker date with both teams', () => {
+  assertEquals(matchTotalsEvent('nba', EVENT, GAMES), { game_id: 'hou-okc', date: '2025-10-21' })
+  assertEquals(matchTotalsEvent('nba', 'KXNBATOTAL-25OCT23HOUOKC', GAMES), { game_id: null, date: '2025-10-23', reason: 'no_game' })
+  assertEquals(matchTotalsEvent('nba', 'KXNBATOTAL-25OCT21XXXYYY', GAMES), { game_id: null, date: null, reason: 'unparsed_teams' })
+
+  const rows = mapTotalsMarkets('nba', [
+    market(219.5),
+    market(0, { ticker: `${EVENT}-X`, strike_type: 'custom', floor_strike: null, yes_sub_title: 'Overtime' }),
+    { ...market(210.5), ticker: 'KXNBATOTAL-25OCT21ZZZQQQ-210', event_ticker: 'KXNBATOTAL-25OCT21ZZZQQQ' },
+  ], GAMES, new Map([['KXNBATOTAL-25OCT21ZZZQQQ', 'confirmed-game']]))
+  assertEquals(rows.map(r => [r.market_ticker, r.game_id, r.line, r.match_status, r.unmatched_reason]), [
+    [`${EVENT}-219`, 'hou-okc', 219.5, 'matched', null],
+    [`${EVENT}-X`, 'hou-okc', null, 'unmatched', 'unparsed_strike'],
+    // Confirmed from the review queue even though the codes aren't teams
+    ['KXNBATOTAL-25OCT21ZZZQQQ-210', 'confirmed-game', 210.5, 'matched', null],
+  ])
+  assertEquals(rows[0].event_date, '2025-10-21')
+})
+
+Deno.test('signals take the open strike nearest P05 for overs and P95 for unders', () => {
+  const now = new Date('2025-10-21T20:00:00Z')
+  const rows = mapTotalsMarkets('nba', [
+    market(205.5), market(209.5), market(210.5), market(233.5), market(236.5),
+    market(240.5, { status: 'closed' }),
+    { ...market(236.5), ticker: `${EVENT}-U236`, strike_type: 'less', cap_strike: 236.5, floor_strike: null },
+  ], GAMES)
+
+  assertEquals(selectStrike(rows, 'OVER', 210, 240, now), { market_ticker: `${EVENT}-209`, line: 209.5, side: 'yes', target: 210 })
+  // Nearest to 237 is 236.5, offered as both an over and an under market: buy the under's YES
+  assertEquals(selectStrike(rows, 'UNDER', 210, 237, now), { market_ticker: `${EVENT}-U236`, line: 236.5, side: 'yes', target: 237 })
+  assertEquals(selectStrike(rows.filter(r => r.yes_side === 'over'), 'UNDER', 210, 237, now)?.side, 'no')
+  // Closed and past-close markets aren't offered
+  assertEquals(selectStrike(rows, 'UNDER', 210, 241, now)?.line, 236.5)
+  assertEquals(selectStrike(rows, 'OVER', 210, 240, new Date('2025-10-22T04:00:00Z')), null)
+})
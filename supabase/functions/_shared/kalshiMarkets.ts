@@ -0,0 +1,238 @@
+/**
+ * Kalshi game-total markets
+ *
+ * Kalshi lists each game's total as an event in a per-sport series
+ * (KXNBATOTAL-25OCT21HOUOKC) with one binary market per strike
+ * (KXNBATOTAL-25OCT21HOUOKC-219: "Over 219.5 points scored"). kalshi-integration
+ * discovers the open markets, maps each event to a game through the teams in
+ * its ticker (or a confirmed odds_event_map row under KALSHI_TOTALS_MAP_KEY)
+ * and each market to the line it settles on, and saves the result to
+ * kalshi_market_map. Signals then trade the mapped strike nearest our P05
+ * (overs) or P95 (unders).
+ */
+import { parseKalshiEventTeams } from './teamRegistry.ts'
+
+/** odds_event_map source key for Kalshi game-total events */
+export const KALSHI_TOTALS_MAP_KEY = 'kalshi_totals'
+
+/** Totals series per sport */
+export const KALSHI_TOTALS_SERIES: Record<string, string> = {
+  nba: 'KXNBATOTAL',
+  nfl: 'KXNFLTOTAL',
+  nhl: 'KXNHLTOTAL',
+  mlb: 'KXMLBTOTAL',
+}
+
+/** Kalshi dates are the local game date; late starts fall on the next UTC day */
+export const EVENT_DATE_WINDOW_HOURS = 36
+
+/** Market statuses that still take orders */
+const TRADABLE_STATUSES = new Set(['open', 'active'])
+
+/** The fields of a Kalshi /markets row the matcher reads */
+export interface KalshiTotalsMarket {
+  ticker: string
+  event_ticker: string
+  title?: string | null
+  subtitle?: string | null
+  yes_sub_title?: string | null
+  strike_type?: string | null
+  floor_strike?: number | null
+  cap_strike?: number | null
+  status?: string | null
+  close_time?: string | null
+}
+
+/** Which side of the line a YES contract wins on */
+export type YesSide = 'over' | 'under'
+
+export interface TotalStrike {
+  line: number
+  yes_side: YesSide
+}
+
+export type UnmatchedReason = 'unparsed_teams' | 'no_game' | 'unparsed_strike'
+
+/** A game the matcher can map events to, with registry team keys */
+export interface TotalsGame {
+  id: string
+  start_time_utc: string
+  home_key: string | null
+  away_key: string | null
+}
+
+/** A kalshi_market_map row */
+export interface KalshiMarketMapping {
+  market_ticker: string
+  event_ticker: string
+  sport_id: string
+  game_id: string | null
+  event_date: string | null
+  line: number | null
+  yes_side: YesSide | null
+  title: string
+  market_status: string | null
+  close_time: string | null
+  match_status: 'matched' | 'unmatched'
+  unmatched_reason: UnmatchedReason | null
+}
+
+/** Sport of a Kalshi totals series, event or market ticker (KXNBATOTAL-... -> nba) */
+export function kalshiTotalsSport(ticker: string): string | null {
+  const m = ticker.toUpperCase().match(/^KX(NBA|NFL|NHL|MLB)TOTAL\b/)
+  return m ? m[1].toLowerCase() : null
+}
+
+const finite = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+/**
+ * The line a market settles on. Structured strikes win; otherwise the
+ * "Over 219.5" / "Under 45.5" / "220+" wording of the subtitles or title.
+ * Totals are whole numbers, so "at least 220" is the same bet as over 219.5.
+ */
+export function parseTotalStrike(market: KalshiTotalsMarket): TotalStrike | null {
+  switch (market.strike_type) {
+    case 'greater':
+      if (finite(market.floor_strike)) return { line: market.floor_strike, yes_side: 'over' }
+      break
+    case 'greater_or_equal':
+      if (finite(market.floor_strike)) return { line: market.floor_strike - 0.5, yes_side: 'over' }
+      break
+    case 'less':
+      if (finite(market.cap_strike)) return { line: market.cap_strike, yes_side: 'under' }
+      break
+    case 'less_or_equal':
+      if (finite(market.cap_strike)) return { line: market.cap_strike + 0.5, yes_side: 'under' }
+      break
+  }
+
+  for (const text of [market.yes_sub_title, market.subtitle, market.title]) {
+    if (!text) continue
+    const worded = text.match(/\b(over|under)\s+(\d+(?:\.\d+)?)/i)
+    if (worded) return { line: Number(worded[2]), yes_side: worded[1].toLowerCase() === 'over' ? 'over' : 'under' }
+    const plus = text.match(/\b(\d+)\+/)
+    if (plus) return { line: Number(plus[1]) - 0.5, yes_side: 'over' }
+  }
+  return null
+}
+
+/** Whether a game starts inside the window of a Kalshi ticker date */
+export function onKalshiDate(date: string, startTimeUtc: string): boolean {
+  const start = new Date(startTimeUtc).getTime()
+  const day = new Date(`${date}T00:00:00Z`).getTime()
+  return start >= day && start < day + EVENT_DATE_WINDOW_HOURS * 60 * 60 * 1000
+}
+
+/**
+ * The game a totals event is for: the one game on the ticker date with the
+ * ticker's away and home teams.
+ */
+export function matchTotalsEvent(
+  sport: string,
+  eventTicker: string,
+  games: TotalsGame[]
+): { game_id: string; date: string } | { game_id: null; date: string | null; reason: UnmatchedReason } {
+  const parsed = parseKalshiEventTeams(sport, eventTicker)
+  if (!parsed) return { game_id: null, date: null, reason: 'unparsed_teams' }
+
+  const found = games.filter(g =>
+    onKalshiDate(parsed.date, g.start_time_utc) &&
+    g.home_key === parsed.home.key &&
+    g.away_key === parsed.away.key
+  )
+  return found.length === 1
+    ? { game_id: found[0].id, date: parsed.date }
+    : { game_id: null, date: parsed.date, reason: 'no_game' }
+}
+
+/**
+ * kalshi_market_map rows for one sport's discovered markets. Events already
+ * in odds_event_map (confirmed from the review queue) keep that game.
+ */
+export function mapTotalsMarkets(
+  sport: string,
+  markets: KalshiTotalsMarket[],
+  games: TotalsGame[],
+  mappedEvents: Map<string, string> = new Map()
+): KalshiMarketMapping[] {
+  const events = new Map<string, ReturnType<typeof matchTotalsEvent>>()
+  return markets.map(market => {
+    let event = events.get(market.event_ticker)
+    if (!event) {
+      const confirmed = mappedEvents.get(market.event_ticker)
+      event = confirmed
+        ? { game_id: confirmed, date: parseKalshiEventTeams(sport, market.event_ticker)?.date ?? '' }
+        : matchTotalsEvent(sport, market.event_ticker, games)
+      events.set(market.event_ticker, event)
+    }
+
+    const strike = parseTotalStrike(market)
+    const reason: UnmatchedReason | null = event.game_id === null ? event.reason : strike ? null : 'unparsed_strike'
+    return {
+      market_ticker: market.ticker,
+      event_ticker: market.event_ticker,
+      sport_id: sport,
+      game_id: event.game_id,
+      event_date: event.date || null,
+      line: strike?.line ?? null,
+      yes_side: strike?.yes_side ?? null,
+      title: market.yes_sub_title || market.subtitle || market.title || market.ticker,
+      market_status: market.status ?? null,
+      close_time: market.close_time ?? null,
+      match_status: reason ? 'unmatched' : 'matched',
+      unmatched_reason: reason,
+    }
+  })
+}
+
+// ============================================================
+// STRIKE SELECTION
+// ============================================================
+
+export interface StrikeChoice {
+  market_ticker: string
+  line: number
+  side: 'yes' | 'no'
+  /** The percentile bound the strike was picked against */
+  target: number
+}
+
+/**
+ * The matched, still-open strike closest to P05 for an over or P95 for an
+ * under, and the contract side that wins with the signal. Ties go to the
+ * easier line (lower for overs, higher for unders), then to buying YES.
+ */
+export function selectStrike(
+  mappings: Array<Pick<KalshiMarketMapping, 'market_ticker' | 'line' | 'yes_side' | 'match_status' | 'market_status' | 'close_time'>>,
+  signal: 'OVER' | 'UNDER',
+  p05: number,
+  p95: number,
+  now: Date = new Date()
+): StrikeChoice | null {
+  const target = signal === 'OVER' ? p05 : p95
+  const wanted: YesSide = signal === 'OVER' ? 'over' : 'under'
+  const easier = signal === 'OVER' ? 1 : -1
+
+  const candidates = mappings
+    .filter(m =>
+      m.match_status === 'matched' &&
+      m.line !== null &&
+      m.yes_side !== null &&
+      (!m.market_status || TRADABLE_STATUSES.has(m.market_status)) &&
+      (!m.close_time || new Date(m.close_time) > now)
+    )
+    .sort((a, b) =>
+      Math.abs(a.line! - target) - Math.abs(b.line! - target) ||
+      easier * (a.line! - b.line!) ||
+      Number(b.yes_side === wanted) - Number(a.yes_side === wanted)
+    )
+
+  const best = candidates[0]
+  if (!best) return null
+  return {
+    market_ticker: best.market_ticker,
+    line: best.line!,
+    side: best.yes_side === wanted ? 'yes' : 'no',
+    target,
+  }
+}
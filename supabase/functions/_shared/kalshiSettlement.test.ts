@@ -0,0 +1,115 @@
+// Fixtures for Kalshi order reconciliation, settlement and the daily P&L rollup.
+// Run with: deno test supabase/functions/_shared
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import {
+  kalshiFeeCents,
+  needsOrderSync,
+  needsSettlement,
+  orderPatch,
+  orphanReason,
+  rollupDailyPnl,
+  settleOrder,
+  untrackedOrders,
+  type ExchangeOrder,
+  type LocalOrder,
+} from './kalshiSettlement.ts'
+
+function exchange(extra: Partial<ExchangeOrder>): ExchangeOrder {
+  return { order_id: 'k-1', ticker: 'KXNBATOTAL-25OCT21HOUOKC-209', side: 'yes', action: 'buy', status: 'resting', yes_price: 60, ...extra }
+}
+
+function local(id: string, extra: Partial<LocalOrder> = {}): LocalOrder {
+  return {
+    id,
+    // 8pm ET on Oct 21 is already Oct 22 in UTC
+    created_at: '2025-10-22T00:00:00Z',
+    ticker: 'KXNBATOTAL-25OCT21HOUOKC-209',
+    side: 'yes',
+    count: 10,
+    price: 60,
+    order_id: `k-${id}`,
+    success: true,
+    status: 'pending',
+    kalshi_status: null,
+    filled_count: 0,
+    fill_price: null,
+    fees_cents: null,
+    edge_percentile: 4,
+    result: null,
+    pnl_cents: null,
+    ...extra,
+  }
+}
+
+Deno.test('exchange fills become status, average fill price and fees', () => {
+  assertEquals(kalshiFeeCents(10, 60), 17)
+  assertEquals(kalshiFeeCents(1, 50), 2)
+  assertEquals(kalshiFeeCents(0, 50), 0)
+
+  assertEquals(orderPatch(exchange({})), { status: 'pending', kalshi_status: 'resting', filled_count: 0, fill_price: null, fees_cents: 0 })
+  // Reported costs and fees win over the limit price and the fee schedule
+  assertEquals(
+    orderPatch(exchange({ status: 'executed', taker_fill_count: 6, maker_fill_count: 4, taker_fill_cost: 354, maker_fill_cost: 232, taker_fees: 11, maker_fees: 2 })),
+    { status: 'filled', kalshi_status: 'executed', filled_count: 10, fill_price: 59, fees_cents: 13 }
+  )
+  assertEquals(orderPatch(exchange({ status: 'resting', fill_count: 4 })), { status: 'partial', kalshi_status: 'resting', filled_count: 4, fill_price: 60, fees_cents: 7 })
+
+  const now = new Date('2025-10-22T02:00:00Z')
+  assertEquals(orderPatch(exchange({ status: 'canceled', fill_count: 4 }), now).status, 'partial')
+  assertEquals(orderPatch(exchange({ status: 'canceled', expiration_time: '2025-10-22T00:30:00Z' }), now).status, 'expired')
+  assertEquals(orderPatch(exchange({ status: 'canceled' }), now).status, 'cancelled')
+
+  assertEquals(needsOrderSync(local('a')), true)
+  assertEquals(needsOrderSync(local('a', { kalshi_status: 'executed', status: 'filled' })), false)
+  assertEquals(needsOrderSync(local('a', { success: false })), false)
+  assertEquals(needsSettlement(local('a', { filled_count: 10 })), true)
+  assertEquals(needsSettlement(local('a', { filled_count: 10, result: 'win' })), false)
+})
+
+Deno.test('determined markets settle the filled contracts net of fees', () => {
+  const filled = { side: 'yes' as const, filled_count: 10, fill_price: 59, price: 60, fees_cents: 13 }
+  assertEquals(settleOrder(filled, { status: 'active' }), null)
+  assertEquals(settleOrder(filled, { status: 'settled', result: 'yes' }), { result: 'win', pnl_cents: 397 })
+  assertEquals(settleOrder(filled, { status: 'settled', result: 'no' }), { result: 'loss', pnl_cents: -603 })
+  assertEquals(settleOrder({ ...filled, side: 'no' }, { status: 'settled', result: 'no' }), { result: 'win', pnl_cents: 397 })
+  assertEquals(settleOrder(filled, { status: 'settled', result: 'void' }), { result: 'push', pnl_cents: 0 })
+})
+
+Deno.test('orphans are flagged from either side', () => {
+  assertEquals(orphanReason(local('a', { order_id: null })), 'missing_order_id')
+  assertEquals(orphanReason(local('a'), null), 'missing_at_exchange')
+  assertEquals(orphanReason(local('a'), exchange({})), null)
+  assertEquals(orphanReason(local('a', { success: false, order_id: null })), null)
+
+  const onExchange = [exchange({ order_id: 'k-a' }), exchange({ order_id: 'k-manual' }), exchange({ order_id: 'k-sell', action: 'sell' })]
+  assertEquals(untrackedOrders(onExchange, new Set(['k-a'])).map(o => o.order_id), ['k-manual'])
+})
+
+Deno.test('daily P&L rolls up each ET date from its orders', () => {
+  const orders = [
+    local('won', { filled_count: 10, fill_price: 59, fees_cents: 13, result: 'win', pnl_cents: 397, edge_percentile: 2 }),
+    local('lost', { filled_count: 5, fill_price: 60, fees_cents: 9, result: 'loss', pnl_cents: -309, edge_percentile: 96 }),
+    local('voided', { filled_count: 2, fill_price: 50, fees_cents: 4, result: 'push', pnl_cents: 0 }),
+    local('open', { filled_count: 3, fill_price: 55, fees_cents: 6 }),
+    local('resting'),
+    local('failed', { success: false, order_id: null }),
+    local('next-day', { created_at: '2025-10-22T16:00:00Z', filled_count: 1, fill_price: 50, fees_cents: 2, result: 'loss', pnl_cents: -52 }),
+  ]
+
+  const [day, next, empty] = rollupDailyPnl(orders, ['2025-10-21', '2025-10-22', '2025-10-23'])
+  assertEquals(day, {
+    date_local: '2025-10-21',
+    orders_placed: 5,
+    orders_filled: 4,
+    orders_won: 1,
+    orders_lost: 1,
+    // 397 - 309 settled, less the open fill's 6 cents of fees
+    net_pnl_cents: 82,
+    fees_cents: 28,
+    gross_pnl_cents: 110,
+    win_rate: 50,
+    avg_edge_percentile: 22,
+  })
+  assertEquals([next.orders_placed, next.net_pnl_cents, next.win_rate], [1, -52, 0])
+  assertEquals([empty.orders_placed, empty.net_pnl_cents, empty.win_rate, empty.avg_edge_percentile], [0, 0, null, null])
+})
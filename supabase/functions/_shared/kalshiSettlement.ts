@@ -0,0 +1,235 @@
+/**
+ * Kalshi order reconciliation and settlement
+ *
+ * reconcile-kalshi polls the exchange for every kalshi_orders row still in
+ * play: the order's status and fills until it stops resting, then the
+ * market's result once the total is settled. Realized P&L is per filled
+ * contract net of the fees Kalshi charged (the published taker schedule when
+ * the order doesn't report them). daily_pnl is rebuilt from the venue's
+ * orders for each ET date touched, so auto-bet's daily loss limit sees that
+ * venue's settled losses.
+ *
+ * Orphans are orders the two sides disagree on: a placed row without an
+ * exchange order id, an order id the exchange doesn't know, or an exchange
+ * order with no row here.
+ */
+import { slateDate } from './providers.ts'
+
+export type LocalOrderStatus = 'pending' | 'filled' | 'partial' | 'cancelled' | 'expired'
+export type OrderResult = 'win' | 'loss' | 'push'
+export type OrphanReason = 'missing_order_id' | 'missing_at_exchange' | 'not_in_db'
+
+/** The kalshi_orders columns reconciliation reads */
+export interface LocalOrder {
+  id: string
+  created_at: string
+  ticker: string
+  side: 'yes' | 'no'
+  count: number
+  price: number | null
+  order_id: string | null
+  success: boolean
+  status: string | null
+  kalshi_status: string | null
+  filled_count: number | null
+  fill_price: number | null
+  fees_cents: number | null
+  edge_percentile: number | null
+  result: string | null
+  pnl_cents: number | null
+}
+
+/** A Kalshi /portfolio/orders row; counts and costs in contracts and cents */
+export interface ExchangeOrder {
+  order_id: string
+  ticker: string
+  side: 'yes' | 'no'
+  action?: string
+  /** resting, pending, canceled or executed */
+  status: string
+  yes_price?: number
+  no_price?: number
+  fill_count?: number
+  taker_fill_count?: number
+  maker_fill_count?: number
+  remaining_count?: number
+  taker_fill_cost?: number
+  maker_fill_cost?: number
+  taker_fees?: number
+  maker_fees?: number
+  created_time?: string
+  expiration_time?: string | null
+}
+
+/** The fields of a Kalshi /markets row settlement reads */
+export interface MarketOutcome {
+  status: string
+  /** 'yes' or 'no' once determined; 'void' when the market is voided */
+  result?: string | null
+}
+
+/** Kalshi's taker fee: 7% of count x P x (1 - P), rounded up to the cent */
+export const TAKER_FEE_RATE = 0.07
+
+/** Kalshi order statuses after which fills can't change */
+export const FINAL_EXCHANGE_STATUSES = new Set(['canceled', 'executed'])
+
+export function kalshiFeeCents(count: number, priceCents: number, rate = TAKER_FEE_RATE): number {
+  if (count <= 0 || priceCents <= 0 || priceCents >= 100) return 0
+  const p = priceCents / 100
+  // Guard against float noise turning an exact cent into the next one
+  return Math.ceil(rate * count * p * (1 - p) * 100 - 1e-9)
+}
+
+export function filledCount(order: ExchangeOrder): number {
+  if (typeof order.fill_count === 'number') return order.fill_count
+  return (order.taker_fill_count ?? 0) + (order.maker_fill_count ?? 0)
+}
+
+export interface OrderPatch {
+  status: LocalOrderStatus
+  kalshi_status: string
+  filled_count: number
+  fill_price: number | null
+  fees_cents: number
+}
+
+/**
+ * kalshi_orders columns for the exchange's view of an order. The fill price
+ * is the average cost per contract; without costs, the limit price.
+ */
+export function orderPatch(exchange: ExchangeOrder, now: Date = new Date()): OrderPatch {
+  const filled = filledCount(exchange)
+  const limit = exchange.side === 'yes' ? exchange.yes_price : exchange.no_price
+  const cost = (exchange.taker_fill_cost ?? 0) + (exchange.maker_fill_cost ?? 0)
+  const fillPrice = filled === 0 ? null : cost > 0 ? Math.round(cost / filled) : limit ?? null
+  const reportedFees = exchange.taker_fees !== undefined || exchange.maker_fees !== undefined
+  const fees = filled === 0
+    ? 0
+    : reportedFees ? (exchange.taker_fees ?? 0) + (exchange.maker_fees ?? 0) : kalshiFeeCents(filled, fillPrice ?? 0)
+
+  let status: LocalOrderStatus
+  switch (exchange.status) {
+    case 'executed':
+      status = 'filled'
+      break
+    case 'canceled': {
+      const expired = exchange.expiration_time ? new Date(exchange.expiration_time) <= now : false
+      status = filled > 0 ? 'partial' : expired ? 'expired' : 'cancelled'
+      break
+    }
+    default:
+      status = filled > 0 ? 'partial' : 'pending'
+  }
+
+  return { status, kalshi_status: exchange.status, filled_count: filled, fill_price: fillPrice, fees_cents: fees }
+}
+
+/** Whether the exchange still has anything to say about an order's fills */
+export function needsOrderSync(order: Pick<LocalOrder, 'success' | 'order_id' | 'kalshi_status' | 'status'>): boolean {
+  if (!order.success || !order.order_id) return false
+  if (order.kalshi_status) return !FINAL_EXCHANGE_STATUSES.has(order.kalshi_status)
+  return order.status === null || order.status === 'pending' || order.status === 'partial'
+}
+
+/** Filled orders whose market hasn't been scored yet */
+export function needsSettlement(order: Pick<LocalOrder, 'success' | 'filled_count' | 'result'>): boolean {
+  return order.success && (order.filled_count ?? 0) > 0 && (order.result === null || order.result === 'pending')
+}
+
+/**
+ * Result and realized P&L of the filled contracts once the market is
+ * determined; null while it's still open. A voided market refunds the
+ * contracts and the fees.
+ */
+export function settleOrder(
+  order: Pick<LocalOrder, 'side' | 'filled_count' | 'fill_price' | 'price' | 'fees_cents'>,
+  market: MarketOutcome
+): { result: OrderResult; pnl_cents: number } | null {
+  const result = market.result ?? ''
+  if (result === 'void') return { result: 'push', pnl_cents: 0 }
+  if (result !== 'yes' && result !== 'no') return null
+
+  const filled = order.filled_count ?? 0
+  const price = order.fill_price ?? order.price ?? 0
+  const fees = order.fees_cents ?? 0
+  return result === order.side
+    ? { result: 'win', pnl_cents: filled * (100 - price) - fees }
+    : { result: 'loss', pnl_cents: -filled * price - fees }
+}
+
+// ============================================================
+// ORPHANS
+// ============================================================
+
+/** A local row the exchange can't account for; `exchange` null means a 404 */
+export function orphanReason(
+  order: Pick<LocalOrder, 'success' | 'order_id'>,
+  exchange?: ExchangeOrder | null
+): OrphanReason | null {
+  if (!order.success) return null
+  if (!order.order_id) return 'missing_order_id'
+  return exchange === null ? 'missing_at_exchange' : null
+}
+
+/** Buy orders on the exchange without a kalshi_orders row */
+export function untrackedOrders(exchange: ExchangeOrder[], knownOrderIds: Set<string>): ExchangeOrder[] {
+  return exchange.filter(o => (o.action ?? 'buy') === 'buy' && !knownOrderIds.has(o.order_id))
+}
+
+// ============================================================
+// DAILY P&L
+// ============================================================
+
+/** A daily_pnl row */
+export interface DailyPnlRollup {
+  date_local: string
+  orders_placed: number
+  orders_filled: number
+  orders_won: number
+  orders_lost: number
+  gross_pnl_cents: number
+  fees_cents: number
+  net_pnl_cents: number
+  win_rate: number | null
+  avg_edge_percentile: number | null
+}
+
+/** ET date an order counts toward */
+export function orderDate(order: Pick<LocalOrder, 'created_at'>): string {
+  return slateDate(order.created_at)
+}
+
+/**
+ * daily_pnl for each date from all of that date's orders. Gross is before
+ * fees; fees count once an order fills, settled or not.
+ */
+export function rollupDailyPnl(orders: LocalOrder[], dates: string[]): DailyPnlRollup[] {
+  return dates.map(date => {
+    const placed = orders.filter(o => o.success && orderDate(o) === date)
+    const filled = placed.filter(o => (o.filled_count ?? 0) > 0)
+    const settled = filled.filter(o => o.result === 'win' || o.result === 'loss' || o.result === 'push')
+    const won = settled.filter(o => o.result === 'win').length
+    const lost = settled.filter(o => o.result === 'loss').length
+    // Voided markets refund fees; fills still waiting on a result have paid theirs
+    const fees = filled.filter(o => o.result !== 'push').reduce((sum, o) => sum + (o.fees_cents ?? 0), 0)
+    const unsettledFees = filled.filter(o => !settled.includes(o)).reduce((sum, o) => sum + (o.fees_cents ?? 0), 0)
+    const net = settled.reduce((sum, o) => sum + (o.pnl_cents ?? 0), 0) - unsettledFees
+    const percentiles = placed.map(o => o.edge_percentile).filter((p): p is number => p !== null)
+
+    return {
+      date_local: date,
+      orders_placed: placed.length,
+      orders_filled: filled.length,
+      orders_won: won,
+      orders_lost: lost,
+      gross_pnl_cents: net + fees,
+      fees_cents: fees,
+      net_pnl_cents: net,
+      win_rate: won + lost > 0 ? Math.round((won / (won + lost)) * 1000) / 10 : null,
+      avg_edge_percentile: percentiles.length
+        ? Math.round((percentiles.reduce((a, b) => a + Number(b), 0) / percentiles.length) * 10) / 10
+        : null,
+    }
+  })
+}
@@ -0,0 +1,69 @@
+// Fixtures for line movement timelines.
+// Run with: deno test supabase/functions/_shared
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import { bandAt, buildLineMovement, findSteamMoves, snapshotPrices, toBandPoints, toLinePoints } from './lineMovement.ts'
+
+const odds = (id: number, at: string, line: number, bookmaker = 'draftkings', raw: unknown = null) => ({
+  id,
+  fetched_at: `2026-01-19T${at}:00.000Z`,
+  bookmaker,
+  total_line: line,
+  raw_payload: raw,
+})
+
+const edge = (at: string, p05: number, p95: number, line: number | null, percentile: number | null) => ({
+  snapshot_at: `2026-01-19T${at}:00.000Z`,
+  p05,
+  p95,
+  distribution: null,
+  dk_total_line: line,
+  dk_line_percentile: percentile,
+})
+
+Deno.test('prices come from either feed payload', () => {
+  assertEquals(snapshotPrices(odds(1, '10:00', 220, 'fanduel', { total_over_odds: -115, total_under_odds: -105 })), { over: -115, under: -105 })
+  assertEquals(
+    snapshotPrices(odds(2, '10:00', 220, 'draftkings', { alternate_lines: [{ point: 220, over_price: -110, under_price: -110 }] })),
+    { over: -110, under: -110 }
+  )
+  assertEquals(snapshotPrices(odds(3, '10:00', 220)), { over: null, under: null })
+})
+
+Deno.test('points sort by time and skip missing lines', () => {
+  const points = toLinePoints([odds(2, '12:00', 221), odds(1, '10:00', 220), { ...odds(3, '11:00', 0), total_line: null }])
+  assertEquals(points.map(p => p.line), [220, 221])
+})
+
+Deno.test('band collapses unchanged snapshots and falls back to the earliest', () => {
+  const band = toBandPoints([edge('09:00', 200, 240, null, null), edge('10:00', 200, 240, 220, 50), edge('14:00', 202, 242, 220, 45)])
+  assertEquals(band.length, 2)
+  assertEquals(bandAt(band, '2026-01-19T08:00:00.000Z')?.p05, 200)
+  assertEquals(bandAt(band, '2026-01-19T15:00:00.000Z')?.p05, 202)
+})
+
+Deno.test('steam moves need the points inside the window', () => {
+  const slow = toLinePoints([odds(1, '10:00', 220), odds(2, '11:30', 220.5), odds(3, '13:00', 221)])
+  assertEquals(findSteamMoves(slow), [])
+
+  const fast = toLinePoints([odds(1, '10:00', 220), odds(2, '10:20', 221), odds(3, '10:30', 222.5), odds(4, '10:40', 222.5)])
+  // 220 -> 221 -> 222.5 is one move, not two
+  const moves = findSteamMoves(fast)
+  assertEquals(moves.length, 1)
+  assertEquals([moves[0].from_line, moves[0].to_line, moves[0].delta], [220, 222.5, 2.5])
+  assertEquals(moves[0].started_at, '2026-01-19T10:00:00.000Z')
+
+  const reversal = toLinePoints([odds(1, '10:00', 220), odds(2, '10:20', 221), odds(3, '10:30', 219.5)])
+  assertEquals(findSteamMoves(reversal).map(m => m.delta), [1, -1.5])
+})
+
+Deno.test('zone crossings and the first signal', () => {
+  // Band 200-240: a line at 203 is percentile 7.5 (moderate over edge)
+  const movement = buildLineMovement(
+    [odds(1, '10:00', 220), odds(2, '12:00', 203), odds(3, '13:00', 212), odds(4, '12:00', 220, 'fanduel')],
+    [edge('09:00', 200, 240, 220, 50), edge('12:01', 200, 240, 203, 7.5)]
+  )
+  assertEquals(movement.crossings.map(c => [c.line, c.from, c.to]), [[203, null, 'over'], [212, 'over', null]])
+  assertEquals(movement.signal?.side, 'over')
+  assertEquals(movement.signal?.strength, 'MODERATE')
+  assertEquals(movement.signal?.at, '2026-01-19T12:01:00.000Z')
+})
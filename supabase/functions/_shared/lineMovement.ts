@@ -0,0 +1,267 @@
+/**
+ * Line movement
+ *
+ * Turns a game's odds_snapshots into a per-bookmaker timeline of the total and
+ * its prices, alongside the model band (P05 / median / P95) as edge_snapshots
+ * recorded it over the same period. Also marks where a line crossed into or
+ * out of the edge zone, sharp "steam" moves, and when our signal first fired.
+ */
+import { classifyEdge, DEFAULT_EDGE_THRESHOLDS, type ClvSide, type EdgeStrength, type EdgeThresholds } from './clv.ts'
+import { mainLinePrices } from './edgeSnapshots.ts'
+import { SKETCH_STEP, linePercentile, type DistributionSketch } from './percentiles.ts'
+
+/** A move of at least this many points ... */
+export const STEAM_MIN_POINTS = 1
+/** ... within this window counts as steam */
+export const STEAM_WINDOW_MINUTES = 60
+
+export type EdgeZone = ClvSide | null
+
+// odds_snapshots columns this reads
+export interface OddsSnapshotRow {
+  id: number
+  fetched_at: string
+  bookmaker: string
+  total_line: number | string | null
+  raw_payload: unknown
+  is_closing?: boolean | null
+}
+
+// edge_snapshots columns this reads
+export interface BandSnapshotRow {
+  id?: number
+  snapshot_at: string
+  p05: number | string | null
+  p95: number | string | null
+  distribution: DistributionSketch | null
+  dk_total_line: number | string | null
+  dk_line_percentile: number | string | null
+}
+
+export interface LinePoint {
+  at: string
+  bookmaker: string
+  line: number
+  over_price: number | null
+  under_price: number | null
+  is_closing: boolean
+}
+
+export interface BandPoint {
+  at: string
+  p05: number
+  median: number | null
+  p95: number
+}
+
+export interface ZoneCrossing {
+  at: string
+  bookmaker: string
+  line: number
+  from: EdgeZone
+  to: EdgeZone
+}
+
+export interface SteamMove {
+  bookmaker: string
+  started_at: string
+  at: string
+  from_line: number
+  to_line: number
+  /** Signed points moved (positive = total went up) */
+  delta: number
+}
+
+export interface SignalFired {
+  at: string
+  side: ClvSide
+  strength: EdgeStrength
+  line: number
+}
+
+export interface LineMovement {
+  points: LinePoint[]
+  band: BandPoint[]
+  crossings: ZoneCrossing[]
+  steam_moves: SteamMove[]
+  signal: SignalFired | null
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+function byTime<T>(at: (item: T) => string) {
+  return (a: T, b: T) => new Date(at(a)).getTime() - new Date(at(b)).getTime()
+}
+
+/**
+ * Over/under prices stored with an odds snapshot. BallDontLie payloads carry
+ * them directly; Odds API payloads only list them among the alternate lines.
+ */
+export function snapshotPrices(row: OddsSnapshotRow): { over: number | null; under: number | null } {
+  const payload = (row.raw_payload ?? {}) as Record<string, unknown>
+  const over = toNumber(payload.total_over_odds)
+  const under = toNumber(payload.total_under_odds)
+  if (over !== null || under !== null) return { over, under }
+  return mainLinePrices(payload.alternate_lines, toNumber(row.total_line))
+}
+
+export function toLinePoints(rows: OddsSnapshotRow[]): LinePoint[] {
+  const points: LinePoint[] = []
+  for (const row of rows) {
+    const line = toNumber(row.total_line)
+    if (line === null) continue
+    const prices = snapshotPrices(row)
+    points.push({
+      at: row.fetched_at,
+      bookmaker: row.bookmaker,
+      line,
+      over_price: prices.over,
+      under_price: prices.under,
+      is_closing: !!row.is_closing,
+    })
+  }
+  return points.sort(byTime(p => p.at))
+}
+
+/** Band over time; consecutive snapshots with an unchanged band collapse into one point */
+export function toBandPoints(snapshots: BandSnapshotRow[]): BandPoint[] {
+  const band: BandPoint[] = []
+  for (const s of [...snapshots].sort(byTime(s => s.snapshot_at))) {
+    const p05 = toNumber(s.p05)
+    const p95 = toNumber(s.p95)
+    if (p05 === null || p95 === null) continue
+    const median = s.distribution?.q?.[50 / SKETCH_STEP] ?? null
+    const last = band[band.length - 1]
+    if (last && last.p05 === p05 && last.p95 === p95 && last.median === median) continue
+    band.push({ at: s.snapshot_at, p05, median, p95 })
+  }
+  return band
+}
+
+/** Band in force at `at`; before the first snapshot, the earliest band known */
+export function bandAt(band: BandPoint[], at: string): BandPoint | null {
+  const t = new Date(at).getTime()
+  let current: BandPoint | null = band[0] ?? null
+  for (const point of band) {
+    if (new Date(point.at).getTime() > t) break
+    current = point
+  }
+  return current
+}
+
+/** Which edge zone a line sits in against a band, by the signal thresholds */
+export function edgeZone(line: number, band: BandPoint | null, thresholds: EdgeThresholds = DEFAULT_EDGE_THRESHOLDS): EdgeZone {
+  if (!band) return null
+  const percentile = linePercentile(line, band.p05, band.p95)
+  if (percentile === null) return null
+  return classifyEdge(percentile, thresholds)?.side ?? null
+}
+
+function groupByBookmaker(points: LinePoint[]): Map<string, LinePoint[]> {
+  const groups = new Map<string, LinePoint[]>()
+  for (const point of points) {
+    if (!groups.has(point.bookmaker)) groups.set(point.bookmaker, [])
+    groups.get(point.bookmaker)!.push(point)
+  }
+  return groups
+}
+
+/** Each time a bookmaker's line entered, left or switched edge zones */
+export function findZoneCrossings(
+  points: LinePoint[],
+  band: BandPoint[],
+  thresholds: EdgeThresholds = DEFAULT_EDGE_THRESHOLDS
+): ZoneCrossing[] {
+  const crossings: ZoneCrossing[] = []
+  for (const [bookmaker, series] of groupByBookmaker(points)) {
+    let previous: EdgeZone | undefined
+    for (const point of series) {
+      const zone = edgeZone(point.line, bandAt(band, point.at), thresholds)
+      if (previous !== undefined && zone !== previous) {
+        crossings.push({ at: point.at, bookmaker, line: point.line, from: previous, to: zone })
+      }
+      previous = zone
+    }
+  }
+  return crossings.sort(byTime(c => c.at))
+}
+
+/**
+ * Moves of at least `minPoints` within `windowMinutes` per bookmaker. After a
+ * move is recorded the window restarts from its end, so moves don't overlap;
+ * a further move the same way straight after extends it instead.
+ */
+export function findSteamMoves(
+  points: LinePoint[],
+  minPoints = STEAM_MIN_POINTS,
+  windowMinutes = STEAM_WINDOW_MINUTES
+): SteamMove[] {
+  const moves: SteamMove[] = []
+  const windowMs = windowMinutes * 60 * 1000
+
+  for (const [bookmaker, series] of groupByBookmaker(points)) {
+    let anchor = 0
+    let lastMove: SteamMove | null = null
+    let lastEnd = -1
+    for (let i = 1; i < series.length; i++) {
+      const t = new Date(series[i].at).getTime()
+      while (anchor < i && new Date(series[anchor].at).getTime() < t - windowMs) anchor++
+      const delta = series[i].line - series[anchor].line
+      if (anchor === i || Math.abs(delta) < minPoints) continue
+
+      if (lastMove && anchor === lastEnd && Math.sign(delta) === Math.sign(lastMove.delta)) {
+        lastMove.at = series[i].at
+        lastMove.to_line = series[i].line
+        lastMove.delta = Math.round((lastMove.to_line - lastMove.from_line) * 10) / 10
+      } else {
+        lastMove = {
+          bookmaker,
+          started_at: series[anchor].at,
+          at: series[i].at,
+          from_line: series[anchor].line,
+          to_line: series[i].line,
+          delta: Math.round(delta * 10) / 10,
+        }
+        moves.push(lastMove)
+      }
+      anchor = i
+      lastEnd = i
+    }
+  }
+  return moves.sort(byTime(m => m.at))
+}
+
+/** Earliest edge snapshot whose line percentile was a signal */
+export function firstSignal(
+  snapshots: BandSnapshotRow[],
+  thresholds: EdgeThresholds = DEFAULT_EDGE_THRESHOLDS
+): SignalFired | null {
+  for (const s of [...snapshots].sort(byTime(s => s.snapshot_at))) {
+    const percentile = toNumber(s.dk_line_percentile)
+    const line = toNumber(s.dk_total_line)
+    if (percentile === null || line === null) continue
+    const signal = classifyEdge(percentile, thresholds)
+    if (signal) return { at: s.snapshot_at, side: signal.side, strength: signal.strength, line }
+  }
+  return null
+}
+
+export function buildLineMovement(
+  oddsRows: OddsSnapshotRow[],
+  edgeSnapshots: BandSnapshotRow[],
+  thresholds: EdgeThresholds = DEFAULT_EDGE_THRESHOLDS
+): LineMovement {
+  const points = toLinePoints(oddsRows)
+  const band = toBandPoints(edgeSnapshots)
+  return {
+    points,
+    band,
+    crossings: findZoneCrossings(points, band, thresholds),
+    steam_moves: findSteamMoves(points),
+    signal: firstSignal(edgeSnapshots, thresholds),
+  }
+}
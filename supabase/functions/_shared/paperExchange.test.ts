@@ -0,0 +1,278 @@
+// Fixtures for the paper trading venue: quoting, fills, cancels and settlement.
+// Run with: deno test supabase/functions/_shared
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import {
+  memoryPaperStore,
+  overProbability,
+  paperBook,
+  paperExchange,
+  paperMarketView,
+  paperMarketsForGame,
+  paperTickerDate,
+  supabasePaperStore,
+  type PaperMarket,
+  type PaperTablesClient,
+} from './paperExchange.ts'
+import { mapTotalsMarkets, parseTotalStrike } from './kalshiMarkets.ts'
+import { orderPatch, rollupDailyPnl, settleOrder } from './kalshiSettlement.ts'
+
+const TICKER = 'KXNBATOTAL-25OCT21HOUOKC-219.5'
+
+function market(extra: Partial<PaperMarket> = {}): PaperMarket {
+  return {
+    ticker: TICKER,
+    event_ticker: 'KXNBATOTAL-25OCT21HOUOKC',
+    title: 'Houston Rockets at Oklahoma City Thunder: total points',
+    floor_strike: 219.5,
+    fair_yes: 0.5,
+    quoted_at: '2025-10-21T18:00:00Z',
+    close_time: '2025-10-22T00:00:00Z',
+    final_total: null,
+    voided: false,
+    ...extra,
+  }
+}
+
+const at = (iso: string) => () => new Date(iso)
+
+async function call(venue: ReturnType<typeof paperExchange>, endpoint: string, method = 'GET', body?: object) {
+  const response = await venue(endpoint, '', '', method, body)
+  return { status: response.status, data: await response.json() }
+}
+
+Deno.test('books are quoted around the no-vig over probability of each line', () => {
+  const lines = [
+    { point: 219.5, over_price: -110, under_price: -110 },
+    { point: 223.5, over_price: 150, under_price: -180 },
+  ]
+  assertEquals(overProbability(lines, 219.5), 0.5)
+  assertEquals(Math.round(overProbability(lines, 221.5)! * 1000) / 1000, 0.442)
+  assertEquals(overProbability(lines, 230.5), null)
+
+  const book = paperBook(0.5)
+  assertEquals(book.yes.map(l => l.price), [51, 52, 53, 54, 55])
+  assertEquals(book.no[0], { price: 51, size: 50 })
+  assertEquals(paperBook(0.99).yes.map(l => l.price), [99])
+
+  // Game rows become Kalshi-shaped events the discovery matcher maps back to the game
+  const game = {
+    id: 'g1',
+    start_time_utc: '2025-10-22T00:00:00Z',
+    status: 'scheduled',
+    final_total: null,
+    home_team: { name: 'Oklahoma City Thunder', abbrev: 'OKC' },
+    away_team: { name: 'Houston Rockets', abbrev: 'HOU' },
+  }
+  const markets = paperMarketsForGame('nba', game, {
+    game_id: 'g1',
+    fetched_at: '2025-10-21T18:00:00Z',
+    total_line: 221.5,
+    raw_payload: { alternate_lines: lines },
+  })
+  assertEquals(markets.map(m => m.ticker), [TICKER, 'KXNBATOTAL-25OCT21HOUOKC-223.5', 'KXNBATOTAL-25OCT21HOUOKC-221.5'])
+  // A main line without prices of its own sits between its neighbours, not at even odds
+  assertEquals(Math.round(markets[2].fair_yes! * 1000) / 1000, 0.442)
+  const mainOnly = (payload: Record<string, number | null>) => paperMarketsForGame('nba', game, {
+    game_id: 'g1', fetched_at: '2025-10-21T18:00:00Z', total_line: 221.5, raw_payload: { alternate_lines: [], ...payload },
+  })[0].fair_yes
+  assertEquals(mainOnly({}), null)
+  assertEquals(Math.round(mainOnly({ total_over_odds: 120, total_under_odds: -140 })! * 1000) / 1000, 0.438)
+  const views = markets.map(m => paperMarketView(m, new Date('2025-10-21T19:00:00Z')))
+  assertEquals(parseTotalStrike(views[0]), { line: 219.5, yes_side: 'over' })
+  const mapped = mapTotalsMarkets('nba', views, [{ id: 'g1', start_time_utc: game.start_time_utc, home_key: 'OKC', away_key: 'HOU' }])
+  assertEquals(mapped.map(m => [m.game_id, m.match_status]), [['g1', 'matched'], ['g1', 'matched'], ['g1', 'matched']])
+})
+
+Deno.test('limit orders take the book, rest the remainder and fill on a requote', async () => {
+  const quoted = market()
+  const store = memoryPaperStore([quoted], 10000)
+
+  const placed = await call(paperExchange(store, at('2025-10-21T19:00:00Z')), '/portfolio/orders', 'POST', {
+    ticker: TICKER, action: 'buy', side: 'yes', type: 'limit', count: 80, yes_price: 51,
+  })
+  assertEquals(placed.status, 201)
+  const { order_id } = placed.data.order
+  assertEquals(orderPatch(placed.data.order), { status: 'partial', kalshi_status: 'resting', filled_count: 50, fill_price: 51, fees_cents: 88 })
+
+  // Same quote: nothing new to match
+  const venue = paperExchange(store, at('2025-10-21T19:30:00Z'))
+  assertEquals((await call(venue, `/portfolio/orders/${order_id}`)).data.order.fill_count, 50)
+  // 10000 - 50 x 51 - 88 fees - 30 x 51 resting
+  assertEquals((await call(venue, '/portfolio/balance')).data.balance, 5832)
+
+  // A newer snapshot moves the over to 48%; the rest fills as maker at 49
+  Object.assign(quoted, { fair_yes: 0.48, quoted_at: '2025-10-21T20:00:00Z' })
+  const requoted = await call(paperExchange(store, at('2025-10-21T20:05:00Z')), `/portfolio/orders/${order_id}`)
+  assertEquals(orderPatch(requoted.data.order), { status: 'filled', kalshi_status: 'executed', filled_count: 80, fill_price: 50, fees_cents: 88 })
+
+  const positions = await call(paperExchange(store, at('2025-10-21T20:05:00Z')), '/portfolio/positions')
+  assertEquals(positions.data.market_positions, [{ ticker: TICKER, position: 80, market_exposure: 4020, fees_paid: 88 }])
+})
+
+Deno.test('orders are canceled on request, at expiration and when the market closes', async () => {
+  const store = memoryPaperStore([market({ fair_yes: 0.7 })])
+  const venue = paperExchange(store, at('2025-10-21T19:00:00Z'))
+
+  const resting = await call(venue, '/portfolio/orders', 'POST', { ticker: TICKER, side: 'yes', count: 10, yes_price: 40 })
+  assertEquals(resting.data.order.status, 'resting')
+  const canceled = await call(venue, `/portfolio/orders/${resting.data.order.order_id}`, 'DELETE')
+  assertEquals([canceled.data.order.status, canceled.data.reduced_by], ['canceled', 10])
+  assertEquals((await call(venue, `/portfolio/orders/${resting.data.order.order_id}`, 'DELETE')).status, 400)
+
+  const expiring = await call(venue, '/portfolio/orders', 'POST', {
+    ticker: TICKER, side: 'yes', count: 10, yes_price: 40, expiration_ts: Date.parse('2025-10-21T21:00:00Z') / 1000,
+  })
+  const untilStart = await call(venue, '/portfolio/orders', 'POST', { ticker: TICKER, side: 'no', count: 10, no_price: 20 })
+  const later = paperExchange(store, at('2025-10-21T22:00:00Z'))
+  assertEquals((await call(later, `/portfolio/orders/${expiring.data.order.order_id}`)).data.order.status, 'canceled')
+  assertEquals((await call(later, `/portfolio/orders/${untilStart.data.order.order_id}`)).data.order.status, 'resting')
+
+  const started = paperExchange(store, at('2025-10-22T00:30:00Z'))
+  assertEquals((await call(started, `/portfolio/orders/${untilStart.data.order.order_id}`)).data.order.status, 'canceled')
+  assertEquals((await call(started, '/portfolio/orders', 'POST', { ticker: TICKER, side: 'yes', count: 1, yes_price: 90 })).status, 400)
+  assertEquals((await call(started, '/markets?series_ticker=KXNBATOTAL&status=open')).data.markets, [])
+
+  // Market orders don't rest; unknown orders and markets are 404s like Kalshi's
+  const store2 = memoryPaperStore([market()])
+  const sweep = await call(paperExchange(store2, at('2025-10-21T19:00:00Z')), '/portfolio/orders', 'POST', { ticker: TICKER, side: 'no', type: 'market', count: 300 })
+  assertEquals([sweep.data.order.status, sweep.data.order.fill_count], ['canceled', 250])
+  assertEquals((await call(venue, '/portfolio/orders/nope')).status, 404)
+  assertEquals((await call(venue, '/markets/KXNBATOTAL-NOPE')).status, 404)
+})
+
+Deno.test('signal to order to settlement to daily P&L', async () => {
+  const traded = market()
+  const voidable = market({
+    ticker: 'KXNBATOTAL-25OCT22LALGSW-225.5',
+    event_ticker: 'KXNBATOTAL-25OCT22LALGSW',
+    floor_strike: 225.5,
+    close_time: '2025-10-23T02:00:00Z',
+  })
+  const store = memoryPaperStore([traded, voidable], 10000)
+  const placed = await call(paperExchange(store, at('2025-10-21T19:00:00Z')), '/portfolio/orders', 'POST', {
+    ticker: TICKER, action: 'buy', side: 'yes', type: 'limit', count: 10, yes_price: 55,
+  })
+  assertEquals(placed.data.order.status, 'executed')
+
+  // What reconcile-kalshi reads back once the game is final
+  traded.final_total = 231
+  const venue = paperExchange(store, at('2025-10-22T03:00:00Z'))
+  const { data: { market: settled } } = await call(venue, `/markets/${TICKER}`)
+  assertEquals([settled.status, settled.result], ['settled', 'yes'])
+
+  const { data: { order } } = await call(venue, `/portfolio/orders/${placed.data.order.order_id}`)
+  const patch = orderPatch(order)
+  const outcome = settleOrder({ side: 'yes', price: 55, ...patch }, settled)
+  assertEquals(outcome, { result: 'win', pnl_cents: 472 })
+  // 10000 - 510 cost - 18 fees + 1000 payout
+  assertEquals((await call(venue, '/portfolio/balance')).data.balance, 10472)
+
+  const [day] = rollupDailyPnl([{
+    id: 'o1', created_at: '2025-10-21T19:00:00Z', ticker: TICKER, side: 'yes', count: 10, price: 55, order_id: order.order_id,
+    success: true, edge_percentile: 3, ...patch, ...outcome!,
+  }], ['2025-10-21'])
+  assertEquals([day.orders_won, day.net_pnl_cents, day.fees_cents], [1, 472, 18])
+
+  // A canceled game voids the market and refunds cost and fees
+  const onVoided = await call(venue, '/portfolio/orders', 'POST', { ticker: voidable.ticker, side: 'yes', count: 10, yes_price: 55 })
+  assertEquals((await call(venue, '/portfolio/balance')).data.balance, 10472 - 528)
+  voidable.voided = true
+  const voided = paperExchange(store, at('2025-10-23T03:00:00Z'))
+  assertEquals((await call(voided, `/markets/${voidable.ticker}`)).data.market.result, 'void')
+  assertEquals((await call(voided, `/portfolio/orders/${onVoided.data.order.order_id}`)).data.order.payout_cents, 528)
+  assertEquals((await call(voided, '/portfolio/balance')).data.balance, 10472)
+})
+
+Deno.test('settlements are kept on the order once its market is no longer listed', async () => {
+  assertEquals(paperTickerDate(TICKER), '2025-10-21')
+  assertEquals(paperTickerDate('KXNBATOTAL-NOPE'), null)
+
+  const listed = [market()]
+  const store = memoryPaperStore(listed, 10000)
+  const venue = paperExchange(store, at('2025-10-21T19:00:00Z'))
+  const won = await call(venue, '/portfolio/orders', 'POST', { ticker: TICKER, side: 'yes', count: 10, yes_price: 55 })
+  const resting = await call(venue, '/portfolio/orders', 'POST', { ticker: TICKER, side: 'no', count: 10, no_price: 20 })
+  assertEquals((await call(venue, '/portfolio/balance')).data.balance, 10000 - 528 - 200)
+
+  listed[0].final_total = 231
+  const settled = paperExchange(store, at('2025-10-22T03:00:00Z'))
+  assertEquals((await call(settled, '/portfolio/balance')).data.balance, 10472)
+  const { data: { order } } = await call(settled, `/portfolio/orders/${won.data.order.order_id}`)
+  assertEquals([order.result, order.payout_cents], ['yes', 1000])
+  assertEquals((await call(settled, `/portfolio/orders/${resting.data.order.order_id}`)).data.order.status, 'canceled')
+
+  // The game ages out of the listing window; the win is still counted
+  listed.splice(0)
+  const later = paperExchange(store, at('2025-11-10T00:00:00Z'))
+  assertEquals((await call(later, '/portfolio/balance')).data.balance, 10472)
+  assertEquals(await store.settledNetCents(), 472)
+
+  // A resting order whose market can't be found keeps resting, collateral held
+  listed.push(market({ close_time: '2025-11-12T00:00:00Z', ticker: 'KXNBATOTAL-25NOV11HOUOKC-219.5', event_ticker: 'KXNBATOTAL-25NOV11HOUOKC' }))
+  const open = await call(later, '/portfolio/orders', 'POST', { ticker: listed[0].ticker, side: 'no', count: 10, no_price: 20 })
+  listed.splice(0)
+  const unlisted = paperExchange(store, at('2025-11-10T01:00:00Z'))
+  assertEquals((await call(unlisted, `/portfolio/orders/${open.data.order.order_id}`)).data.order.status, 'resting')
+  assertEquals((await call(unlisted, '/portfolio/balance')).data.balance, 10472 - 200)
+})
+
+// Enough of a supabase client to run supabasePaperStore over rows in memory
+function tables(rows: Record<string, Array<Record<string, unknown>>>) {
+  const ranges: Array<[number, number]> = []
+  const client: PaperTablesClient = {
+    from(table) {
+      return {
+        select() {
+          let result = [...(rows[table] ?? [])]
+          const keys: Array<[string, boolean]> = []
+          let slice: [number, number] | null = null
+          const resolved = () => {
+            const sorted = [...result].sort((a, b) => {
+              for (const [c, ascending] of keys) {
+                const cmp = String(a[c]).localeCompare(String(b[c]))
+                if (cmp) return ascending ? cmp : -cmp
+              }
+              return 0
+            })
+            return slice ? sorted.slice(slice[0], slice[1] + 1) : sorted
+          }
+          const query = {
+            eq: (c: string, v: string) => { result = result.filter(r => r[c] === v); return query },
+            gte: (c: string, v: string) => { result = result.filter(r => String(r[c]) >= v); return query },
+            lte: (c: string, v: string) => { result = result.filter(r => String(r[c]) <= v); return query },
+            in: (c: string, vs: string[]) => { result = result.filter(r => vs.includes(String(r[c]))); return query },
+            is: (c: string) => { result = result.filter(r => r[c] == null); return query },
+            order: (c: string, o: { ascending: boolean }) => { keys.push([c, o.ascending]); return query },
+            range: (from: number, to: number) => { ranges.push([from, to]); slice = [from, to]; return query },
+            then: (resolve: (value: { data: unknown[]; error: null }) => unknown) => Promise.resolve(resolve({ data: resolved(), error: null })),
+          }
+          return query as unknown as ReturnType<ReturnType<PaperTablesClient['from']>['select']>
+        },
+        upsert: () => Promise.resolve({ error: null }),
+      }
+    },
+  }
+  return { client, ranges }
+}
+
+Deno.test('quotes are paged past the 1000-row response limit', async () => {
+  const team = (name: string, abbrev: string) => ({ name, abbrev })
+  const games = [
+    { id: 'g1', sport_id: 'nba', start_time_utc: '2025-10-22T00:00:00Z', status: 'scheduled', final_total: null, home_team: team('Oklahoma City Thunder', 'OKC'), away_team: team('Houston Rockets', 'HOU') },
+    { id: 'g2', sport_id: 'nba', start_time_utc: '2025-10-22T02:30:00Z', status: 'scheduled', final_total: null, home_team: team('Golden State Warriors', 'GSW'), away_team: team('Los Angeles Lakers', 'LAL') },
+  ]
+  // g1 is requoted 1200 times after g2's only snapshot
+  const snapshots = Array.from({ length: 1200 }, (_, i) => ({
+    game_id: 'g1',
+    fetched_at: new Date(Date.parse('2025-10-21T12:00:00Z') + i * 1000).toISOString(),
+    total_line: 219.5,
+    raw_payload: null,
+  }))
+  snapshots.push({ game_id: 'g2', fetched_at: '2025-10-21T11:00:00Z', total_line: 225.5, raw_payload: null })
+
+  const { client, ranges } = tables({ games, odds_snapshots: snapshots })
+  const store = supabasePaperStore(client, 10000, at('2025-10-21T19:00:00Z'))
+  const markets = await store.markets({ series_ticker: 'KXNBATOTAL' })
+  assertEquals(markets.map(m => m.ticker), [TICKER, 'KXNBATOTAL-25OCT21LALGSW-225.5'])
+  assertEquals(ranges, [[0, 999], [1000, 1999]])
+})
@@ -0,0 +1,701 @@
+/**
+ * Paper trading venue
+ *
+ * A simulated Kalshi exchange with the kalshiFetch signature, so auto-bet,
+ * kalshi-integration, reconcile-kalshi and manage-orders run unchanged
+ * against it when betting_config.venue is 'paper'. Every game with odds gets
+ * a totals event in its sport's series (KXNBATOTAL-25OCT21HOUOKC) with one
+ * "Over N" market per sportsbook line in its latest odds_snapshots row, and
+ * each market's book is quoted around the no-vig probability of the over at
+ * that line. The main line is priced from the snapshot's total_over_odds and
+ * total_under_odds; a line without prices of its own is interpolated between
+ * priced lines, or left with an empty book, never quoted at even odds.
+ *
+ * Buy orders take the asks at or under their limit, level by level, and
+ * rest what's left. A resting order matches again (as maker) each time a
+ * newer snapshot requotes its market; the book doesn't remember depth taken
+ * by earlier orders. An amend reprices a resting order and matches it again
+ * as taker. Resting orders are canceled at their expiration or when the
+ * market closes at the game's start, and markets settle on games.final_total:
+ * yes when the total goes over the strike, void when the game is canceled.
+ * An order records its result and payout when its market settles, so the
+ * balance doesn't depend on the market still being listed.
+ */
+import { noVigProbability } from './clv.ts'
+import { kalshiFeeCents, type ExchangeOrder } from './kalshiSettlement.ts'
+import { KALSHI_TOTALS_SERIES, kalshiTotalsSport } from './kalshiMarkets.ts'
+import { slateDate } from './providers.ts'
+import { providerTeamKey } from './teamRegistry.ts'
+import type { KalshiFetch } from './kalshiClient.ts'
+
+/** Cents added to the fair price on each side of the book */
+export const PAPER_HALF_SPREAD_CENTS = 1
+
+/** Price levels quoted per side, one cent apart */
+export const PAPER_BOOK_LEVELS = 5
+
+/** Contracts offered at each level */
+export const PAPER_LEVEL_DEPTH = 50
+
+export const PAPER_STARTING_BALANCE_CENTS = 100000
+
+/** Days of finished games the venue still lists in its series */
+export const PAPER_SETTLEMENT_DAYS = 14
+
+/** Days ahead the venue lists games */
+export const PAPER_LISTING_DAYS = 8
+
+/** A sportsbook total with its prices, as stored in odds_snapshots.raw_payload.alternate_lines */
+export interface AlternateLine {
+  point: number
+  over_price: number | null
+  under_price: number | null
+}
+
+/** A simulated game-total market; YES wins when the total goes over floor_strike */
+export interface PaperMarket {
+  ticker: string
+  event_ticker: string
+  title: string
+  floor_strike: number
+  /** No-vig probability of the over at the strike; null leaves the book empty */
+  fair_yes: number | null
+  /** fetched_at of the odds snapshot the book was quoted from */
+  quoted_at: string | null
+  /** The game's start; orders are taken until then */
+  close_time: string
+  final_total: number | null
+  /** The game was canceled */
+  voided: boolean
+}
+
+/** A simulated order; ExchangeOrder with every field the venue tracks filled in */
+export interface PaperOrder extends Required<Omit<ExchangeOrder, 'yes_price' | 'no_price' | 'expiration_time'>> {
+  type: 'limit' | 'market'
+  yes_price: number | null
+  no_price: number | null
+  expiration_time: string | null
+  /** The quote the order last matched against */
+  quoted_at: string | null
+  /** The market's result once it settled */
+  result: 'yes' | 'no' | 'void' | null
+  /** Cents paid back at settlement: $1 per winning contract, cost and fees on a void */
+  payout_cents: number
+  settled_at: string | null
+}
+
+export interface BookLevel {
+  price: number
+  size: number
+}
+
+/** Offers to sell each side, cheapest first */
+export interface PaperBook {
+  yes: BookLevel[]
+  no: BookLevel[]
+}
+
+export interface PaperStore {
+  /** Markets in a series, or the one market with `ticker` */
+  markets(query: { series_ticker?: string; ticker?: string }): Promise<PaperMarket[]>
+  /** Orders, newest first; `since` filters on created_time, `open` to those not yet settled */
+  orders(query: { order_id?: string; since?: string; open?: boolean }): Promise<PaperOrder[]>
+  saveOrder(order: PaperOrder): Promise<void>
+  /** Payouts less cost and fees over every settled order */
+  settledNetCents(): Promise<number>
+  startingBalanceCents: number
+}
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+
+/** Totals event ticker for a game: series, YYMONDD and the away then home Kalshi codes */
+export function paperEventTicker(sport: string, date: string, awayCode: string, homeCode: string): string | null {
+  const series = KALSHI_TOTALS_SERIES[sport]
+  const m = date.match(/^\d{2}(\d{2})-(\d{2})-(\d{2})$/)
+  if (!series || !m) return null
+  return `${series}-${m[1]}${MONTHS[Number(m[2]) - 1]}${m[3]}${awayCode}${homeCode}`.toUpperCase()
+}
+
+/** ET date of a paper market's game from its ticker: KXNBATOTAL-25OCT21HOUOKC-219.5 -> 2025-10-21 */
+export function paperTickerDate(ticker: string): string | null {
+  const m = ticker.split('-')[1]?.match(/^(\d{2})([A-Z]{3})(\d{2})/)
+  const month = m ? MONTHS.indexOf(m[2]) : -1
+  if (!m || month === -1) return null
+  return `20${m[1]}-${String(month + 1).padStart(2, '0')}-${m[3]}`
+}
+
+/**
+ * No-vig probability of the over at `point`: the line's own prices, or
+ * straight-line between the priced lines either side. Null outside them.
+ */
+export function overProbability(lines: AlternateLine[], point: number): number | null {
+  const quoted = lines
+    .filter(l => typeof l.over_price === 'number' && typeof l.under_price === 'number')
+    .map(l => ({ point: l.point, p: noVigProbability('over', l.over_price, l.under_price) }))
+    .sort((a, b) => a.point - b.point)
+  const exact = quoted.find(l => l.point === point)
+  if (exact) return exact.p
+
+  const below = quoted.filter(l => l.point < point).pop()
+  const above = quoted.find(l => l.point > point)
+  if (!below || !above) return null
+  return below.p + ((point - below.point) / (above.point - below.point)) * (above.p - below.p)
+}
+
+function clampPrice(cents: number): number {
+  return Math.min(99, Math.max(1, cents))
+}
+
+/** Both sides' asks around a fair YES probability */
+export function paperBook(fairYes: number): PaperBook {
+  const side = (fair: number): BookLevel[] => {
+    const best = clampPrice(Math.round(fair * 100) + PAPER_HALF_SPREAD_CENTS)
+    const levels: BookLevel[] = []
+    for (let price = best; price <= 99 && levels.length < PAPER_BOOK_LEVELS; price++) {
+      levels.push({ price, size: PAPER_LEVEL_DEPTH })
+    }
+    return levels
+  }
+  return { yes: side(fairYes), no: side(1 - fairYes) }
+}
+
+export type PaperMarketStatus = 'active' | 'closed' | 'settled'
+
+export function paperMarketStatus(market: PaperMarket, now: Date): PaperMarketStatus {
+  if (market.voided || market.final_total !== null) return 'settled'
+  return new Date(market.close_time) <= now ? 'closed' : 'active'
+}
+
+/** 'yes' or 'no' once the game is final, 'void' when canceled */
+export function paperMarketResult(market: PaperMarket): 'yes' | 'no' | 'void' | null {
+  if (market.voided) return 'void'
+  if (market.final_total === null) return null
+  return market.final_total > market.floor_strike ? 'yes' : 'no'
+}
+
+function limitPrice(order: Pick<PaperOrder, 'side' | 'yes_price' | 'no_price'>): number {
+  return (order.side === 'yes' ? order.yes_price : order.no_price) ?? 99
+}
+
+/**
+ * Fill what the book offers at or under the order's limit. Takers pay the
+ * fee schedule; resting orders filled by a requote pay no maker fee.
+ */
+export function matchOrder(order: PaperOrder, book: PaperBook, asTaker: boolean): PaperOrder {
+  const next = { ...order }
+  for (const level of book[order.side]) {
+    if (next.remaining_count === 0 || level.price > limitPrice(order)) break
+    const count = Math.min(level.size, next.remaining_count)
+    if (asTaker) {
+      next.taker_fill_count += count
+      next.taker_fill_cost += count * level.price
+      next.taker_fees += kalshiFeeCents(count, level.price)
+    } else {
+      next.maker_fill_count += count
+      next.maker_fill_cost += count * level.price
+    }
+    next.fill_count += count
+    next.remaining_count -= count
+  }
+  if (next.remaining_count === 0) next.status = 'executed'
+  return next
+}
+
+function orderCost(order: PaperOrder): number {
+  return order.taker_fill_cost + order.maker_fill_cost + order.taker_fees + order.maker_fees
+}
+
+/**
+ * An order as of `now`: canceled once expired or once its market stops
+ * trading, matched again when its market has a newer quote, and settled with
+ * its payout once the market has a result. An order whose market isn't
+ * listed is left as it is. Returns the order unchanged (same object) when
+ * nothing happened.
+ */
+export function advanceOrder(order: PaperOrder, market: PaperMarket | undefined, now: Date): PaperOrder {
+  if (order.settled_at) return order
+  let next = order
+  if (order.status === 'resting') {
+    const expired = order.expiration_time !== null && new Date(order.expiration_time) <= now
+    if (expired || (market && paperMarketStatus(market, now) !== 'active')) {
+      next = { ...order, status: 'canceled', remaining_count: 0 }
+    } else if (market && market.fair_yes !== null && market.quoted_at && (!order.quoted_at || market.quoted_at > order.quoted_at)) {
+      next = { ...matchOrder(order, paperBook(market.fair_yes), false), quoted_at: market.quoted_at }
+    }
+  }
+
+  const result = market ? paperMarketResult(market) : null
+  if (result === null || next.status === 'resting') return next
+  const payout = result === 'void' ? orderCost(next) : result === next.side ? next.fill_count * 100 : 0
+  return { ...next, result, payout_cents: payout, settled_at: now.toISOString() }
+}
+
+/**
+ * Cash: the starting balance less fills, fees and the collateral of resting
+ * orders, plus what settled orders paid out.
+ */
+export function paperBalance(startingCents: number, orders: PaperOrder[]): number {
+  let balance = startingCents
+  for (const order of orders) {
+    balance += order.payout_cents - orderCost(order)
+    if (order.status === 'resting') balance -= order.remaining_count * limitPrice(order)
+  }
+  return balance
+}
+
+// ============================================================
+// API
+// ============================================================
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+function notFound(what: string): Response {
+  return json(404, { error: `${what} not found` })
+}
+
+/** A market as Kalshi's /markets returns it */
+export function paperMarketView(market: PaperMarket, now: Date) {
+  const book = market.fair_yes === null ? null : paperBook(market.fair_yes)
+  const status = paperMarketStatus(market, now)
+  return {
+    ticker: market.ticker,
+    event_ticker: market.event_ticker,
+    title: market.title,
+    yes_sub_title: `Over ${market.floor_strike}`,
+    strike_type: 'greater',
+    floor_strike: market.floor_strike,
+    status,
+    close_time: market.close_time,
+    result: status === 'settled' ? paperMarketResult(market) : '',
+    yes_ask: book?.yes[0]?.price ?? null,
+    no_ask: book?.no[0]?.price ?? null,
+    yes_bid: book?.no[0] ? 100 - book.no[0].price : null,
+    no_bid: book?.yes[0] ? 100 - book.yes[0].price : null,
+  }
+}
+
+interface OrderRequest {
+  ticker?: string
+  action?: string
+  side?: 'yes' | 'no'
+  type?: 'limit' | 'market'
+  count?: number
+  yes_price?: number
+  no_price?: number
+  expiration_ts?: number
+  client_order_id?: string
+}
+
+/**
+ * The paper venue behind the kalshiFetch signature; credentials and the
+ * demo flag are ignored. `clock` stands in for the current time in tests.
+ */
+export function paperExchange(store: PaperStore, clock: () => Date = () => new Date()): KalshiFetch {
+  const marketCache = new Map<string, PaperMarket | undefined>()
+
+  const findMarket = async (ticker: string): Promise<PaperMarket | undefined> => {
+    if (!marketCache.has(ticker)) marketCache.set(ticker, (await store.markets({ ticker }))[0])
+    return marketCache.get(ticker)
+  }
+
+  // Orders brought up to date, with the changes saved
+  const currentOrders = async (query: { order_id?: string; since?: string; open?: boolean }, now: Date): Promise<PaperOrder[]> => {
+    const orders = await store.orders(query)
+    const current: PaperOrder[] = []
+    for (const order of orders) {
+      const next = advanceOrder(order, await findMarket(order.ticker), now)
+      if (next !== order) await store.saveOrder(next)
+      current.push(next)
+    }
+    return current
+  }
+
+  // Only unsettled orders are read; the store totals the settled ones after
+  // this pass has saved any that just settled
+  const balanceCents = async (now: Date): Promise<number> => {
+    const open = (await currentOrders({ open: true }, now)).filter(o => !o.settled_at)
+    return paperBalance(store.startingBalanceCents + await store.settledNetCents(), open)
+  }
+
+  const placeOrder = async (request: OrderRequest, now: Date): Promise<Response> => {
+    if (!request.ticker || !request.side || !request.count || request.count < 1) {
+      return json(400, { error: 'ticker, side and count are required' })
+    }
+    if ((request.action ?? 'buy') !== 'buy') return json(400, { error: 'Paper venue only takes buy orders' })
+    const market = await findMarket(request.ticker)
+    if (!market) return notFound(`Market ${request.ticker}`)
+    if (paperMarketStatus(market, now) !== 'active') return json(400, { error: `Market ${request.ticker} is not open` })
+
+    const type = request.type ?? 'limit'
+    const limit = request.side === 'yes' ? request.yes_price : request.no_price
+    if (type === 'limit' && (!limit || limit < 1 || limit > 99)) return json(400, { error: 'Limit price must be 1-99 cents' })
+
+    const order: PaperOrder = {
+      order_id: crypto.randomUUID(),
+      ticker: request.ticker,
+      side: request.side,
+      action: 'buy',
+      type,
+      status: 'resting',
+      yes_price: request.side === 'yes' ? limit ?? 99 : null,
+      no_price: request.side === 'no' ? limit ?? 99 : null,
+      fill_count: 0,
+      taker_fill_count: 0,
+      maker_fill_count: 0,
+      remaining_count: request.count,
+      taker_fill_cost: 0,
+      maker_fill_cost: 0,
+      taker_fees: 0,
+      maker_fees: 0,
+      created_time: now.toISOString(),
+      expiration_time: request.expiration_ts ? new Date(request.expiration_ts * 1000).toISOString() : null,
+      quoted_at: market.quoted_at,
+      result: null,
+      payout_cents: 0,
+      settled_at: null,
+    }
+
+    const collateral = order.remaining_count * limitPrice(order)
+    if (await balanceCents(now) < collateral) {
+      return json(400, { error: 'Insufficient paper balance' })
+    }
+
+    let placed = market.fair_yes === null ? order : matchOrder(order, paperBook(market.fair_yes), true)
+    // Market orders don't rest
+    if (type === 'market' && placed.status === 'resting') placed = { ...placed, status: 'canceled', remaining_count: 0 }
+    await store.saveOrder(placed)
+    return json(201, { order: placed })
+  }
+
+  return async (endpoint, _apiKeyId, _privateKey, method = 'GET', body) => {
+    const now = clock()
+    const url = new URL(endpoint, 'https://paper.invalid')
+    const path = url.pathname.replace(/\/+$/, '')
+    const params = url.searchParams
+
+    if (path === '/portfolio/balance' && method === 'GET') {
+      return json(200, { balance: await balanceCents(now) })
+    }
+
+    if (path === '/portfolio/positions' && method === 'GET') {
+      const orders = (await currentOrders({ open: true }, now)).filter(o => o.fill_count > 0 && !o.settled_at)
+      const positions = new Map<string, { ticker: string; position: number; market_exposure: number; fees_paid: number }>()
+      for (const order of orders) {
+        const position = positions.get(order.ticker) ?? { ticker: order.ticker, position: 0, market_exposure: 0, fees_paid: 0 }
+        position.position += order.side === 'yes' ? order.fill_count : -order.fill_count
+        position.market_exposure += order.taker_fill_cost + order.maker_fill_cost
+        position.fees_paid += order.taker_fees + order.maker_fees
+        positions.set(order.ticker, position)
+      }
+      return json(200, { market_positions: Array.from(positions.values()), cursor: '' })
+    }
+
+    if (path === '/portfolio/orders') {
+      if (method === 'POST') return placeOrder((body ?? {}) as OrderRequest, now)
+      if (method !== 'GET') return json(405, { error: `${method} not supported` })
+      const minTs = Number(params.get('min_ts'))
+      let orders = await currentOrders(minTs ? { since: new Date(minTs * 1000).toISOString() } : {}, now)
+      if (params.get('ticker')) orders = orders.filter(o => o.ticker === params.get('ticker'))
+      if (params.get('status')) orders = orders.filter(o => o.status === params.get('status'))
+      return json(200, { orders, cursor: '' })
+    }
+
+    // Amend keeps the fills; count is the new total, the price can move either way
+    const amendPath = path.match(/^\/portfolio\/orders\/([^/]+)\/amend$/)
+    if (amendPath) {
+      if (method !== 'POST') return json(405, { error: `${method} not supported` })
+      const [order] = await currentOrders({ order_id: amendPath[1] }, now)
+      if (!order) return notFound(`Order ${amendPath[1]}`)
+      if (order.status !== 'resting') return json(400, { error: `Order ${order.order_id} is ${order.status}` })
+      const request = (body ?? {}) as OrderRequest
+      if (request.ticker !== order.ticker || request.side !== order.side) {
+        return json(400, { error: 'ticker and side must match the order' })
+      }
+      const limit = order.side === 'yes' ? request.yes_price : request.no_price
+      if (!limit || limit < 1 || limit > 99) return json(400, { error: 'Limit price must be 1-99 cents' })
+      const count = request.count ?? order.fill_count + order.remaining_count
+      if (count <= order.fill_count) return json(400, { error: `count must exceed the ${order.fill_count} filled` })
+
+      const amended: PaperOrder = {
+        ...order,
+        yes_price: order.side === 'yes' ? limit : null,
+        no_price: order.side === 'no' ? limit : null,
+        remaining_count: count - order.fill_count,
+      }
+      const added = amended.remaining_count * limit - order.remaining_count * limitPrice(order)
+      if (added > 0 && await balanceCents(now) < added) return json(400, { error: 'Insufficient paper balance' })
+      const market = await findMarket(order.ticker)
+      const placed = !market || market.fair_yes === null ? amended : matchOrder(amended, paperBook(market.fair_yes), true)
+      await store.saveOrder(placed)
+      return json(200, { old_order: order, order: placed })
+    }
+
+    const orderPath = path.match(/^\/portfolio\/orders\/([^/]+)$/)
+    if (orderPath) {
+      const [order] = await currentOrders({ order_id: orderPath[1] }, now)
+      if (!order) return notFound(`Order ${orderPath[1]}`)
+      if (method === 'GET') return json(200, { order })
+      if (method !== 'DELETE') return json(405, { error: `${method} not supported` })
+      if (order.status !== 'resting') return json(400, { error: `Order ${order.order_id} is ${order.status}` })
+      const canceled = { ...order, status: 'canceled', remaining_count: 0 }
+      await store.saveOrder(canceled)
+      return json(200, { order: canceled, reduced_by: order.remaining_count })
+    }
+
+    if (method !== 'GET') return json(405, { error: `${method} not supported` })
+
+    if (path === '/markets') {
+      const series = params.get('series_ticker')
+      const markets = series ? await store.markets({ series_ticker: series }) : []
+      const views = markets
+        .filter(m => !params.get('event_ticker') || m.event_ticker === params.get('event_ticker'))
+        .map(m => paperMarketView(m, now))
+        // Kalshi's "open" filter means still trading
+        .filter(m => params.get('status') !== 'open' || m.status === 'active')
+      return json(200, { markets: views, cursor: '' })
+    }
+
+    const marketPath = path.match(/^\/markets\/([^/]+)$/)
+    if (marketPath) {
+      const market = await findMarket(marketPath[1])
+      return market ? json(200, { market: paperMarketView(market, now) }) : notFound(`Market ${marketPath[1]}`)
+    }
+
+    if (path === '/events') {
+      const series = params.get('series_ticker')
+      const markets = series && kalshiTotalsSport(series) ? await store.markets({ series_ticker: series }) : []
+      const events = new Map<string, { event_ticker: string; series_ticker: string; title: string }>()
+      for (const market of markets) {
+        if (params.get('status') === 'open' && paperMarketStatus(market, now) !== 'active') continue
+        events.set(market.event_ticker, { event_ticker: market.event_ticker, series_ticker: series!, title: market.title })
+      }
+      return json(200, { events: Array.from(events.values()), cursor: '' })
+    }
+
+    return notFound(path)
+  }
+}
+
+// ============================================================
+// STORES
+// ============================================================
+
+/** A store over fixed markets, keeping orders in memory */
+export function memoryPaperStore(markets: PaperMarket[], startingBalanceCents = PAPER_STARTING_BALANCE_CENTS): PaperStore & { saved: PaperOrder[] } {
+  const saved: PaperOrder[] = []
+  return {
+    saved,
+    startingBalanceCents,
+    async markets(query) {
+      return markets.filter(m =>
+        (!query.ticker || m.ticker === query.ticker) &&
+        (!query.series_ticker || m.event_ticker.startsWith(`${query.series_ticker}-`))
+      )
+    },
+    async orders(query) {
+      return saved
+        .filter(o =>
+          (!query.order_id || o.order_id === query.order_id) &&
+          (!query.since || o.created_time >= query.since) &&
+          (!query.open || !o.settled_at)
+        )
+        .sort((a, b) => b.created_time.localeCompare(a.created_time))
+    },
+    async settledNetCents() {
+      return saved.filter(o => o.settled_at).reduce((sum, o) => sum + o.payout_cents - orderCost(o), 0)
+    },
+    async saveOrder(order) {
+      const i = saved.findIndex(o => o.order_id === order.order_id)
+      if (i === -1) saved.push(order)
+      else saved[i] = order
+    },
+  }
+}
+
+/** A games row with its teams, as the paper venue lists it */
+export interface PaperGame {
+  id: string
+  start_time_utc: string
+  status: string
+  final_total: number | null
+  home_team: { name: string | null; abbrev: string | null } | null
+  away_team: { name: string | null; abbrev: string | null } | null
+}
+
+/** The latest odds_snapshots row for a game */
+export interface PaperQuote {
+  game_id: string
+  fetched_at: string
+  total_line: number | null
+  raw_payload: {
+    alternate_lines?: AlternateLine[]
+    /** Main line prices */
+    total_over_odds?: number | null
+    total_under_odds?: number | null
+  } | null
+}
+
+/** A game's markets: one per quoted line, priced from the latest quote */
+export function paperMarketsForGame(sport: string, game: PaperGame, quote: PaperQuote | undefined): PaperMarket[] {
+  const date = slateDate(game.start_time_utc)
+  const code = (team: PaperGame['home_team']) =>
+    team ? providerTeamKey(sport, team.abbrev, 'kalshi', date) ?? providerTeamKey(sport, team.name, 'kalshi', date) : null
+  const away = code(game.away_team)
+  const home = code(game.home_team)
+  const eventTicker = away && home ? paperEventTicker(sport, date, away, home) : null
+  if (!eventTicker || !quote) return []
+
+  const lines = [...(quote.raw_payload?.alternate_lines ?? [])].filter(l => typeof l.point === 'number')
+  if (quote.total_line !== null && !lines.some(l => l.point === quote.total_line)) {
+    lines.push({
+      point: quote.total_line,
+      over_price: quote.raw_payload?.total_over_odds ?? null,
+      under_price: quote.raw_payload?.total_under_odds ?? null,
+    })
+  }
+  const matchup = `${game.away_team?.name ?? away} at ${game.home_team?.name ?? home}`
+  return lines.map(line => ({
+    ticker: `${eventTicker}-${line.point}`,
+    event_ticker: eventTicker,
+    title: `${matchup}: total points`,
+    floor_strike: line.point,
+    fair_yes: overProbability(lines, line.point),
+    quoted_at: quote.fetched_at,
+    close_time: game.start_time_utc,
+    final_total: game.status === 'final' ? game.final_total : null,
+    voided: game.status === 'canceled',
+  }))
+}
+
+/** odds_snapshots rows read per request; PostgREST stops at 1000 */
+const QUOTE_PAGE_SIZE = 1000
+
+type QueryResult = PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>
+
+interface PaperQuery extends QueryResult {
+  eq(column: string, value: string): PaperQuery
+  gte(column: string, value: string): PaperQuery
+  lte(column: string, value: string): PaperQuery
+  in(column: string, values: string[]): PaperQuery
+  is(column: string, value: null): PaperQuery
+  order(column: string, options: { ascending: boolean }): PaperQuery
+  range(from: number, to: number): PaperQuery
+}
+
+/** The slice of a supabase client the paper venue reads and writes through */
+export interface PaperTablesClient {
+  from(table: string): {
+    select(columns: string): PaperQuery
+    upsert(row: Record<string, unknown>, options: { onConflict: string }): PromiseLike<{ error: { message: string } | null }>
+  }
+}
+
+/**
+ * Markets built from games and odds_snapshots; orders kept in paper_orders.
+ * Each series is read once per store, so build one store per request. A
+ * ticker older than the listing window loads its own date's games.
+ */
+export function supabasePaperStore(
+  supabase: PaperTablesClient,
+  startingBalanceCents = PAPER_STARTING_BALANCE_CENTS,
+  clock: () => Date = () => new Date()
+): PaperStore {
+  const series = new Map<string, Promise<PaperMarket[]>>()
+  const dates = new Map<string, Promise<PaperMarket[]>>()
+  const DAY_MS = 24 * 60 * 60 * 1000
+
+  // Markets for the sport's games starting between `from` and `to`
+  const loadGames = async (sport: string, from: Date, to: Date): Promise<PaperMarket[]> => {
+    const now = clock().getTime()
+    const { data: games, error } = await supabase
+      .from('games')
+      .select(`
+        id, start_time_utc, status, final_total,
+        home_team:teams!games_home_team_id_fkey(name, abbrev),
+        away_team:teams!games_away_team_id_fkey(name, abbrev)
+      `)
+      .eq('sport_id', sport)
+      .gte('start_time_utc', from.toISOString())
+      .lte('start_time_utc', to.toISOString())
+    if (error) throw new Error(`paper games: ${error.message}`)
+    const listed = (games || []) as PaperGame[]
+    if (!listed.length) return []
+
+    // Newest first, paged past the 1000-row limit
+    const latest = new Map<string, PaperQuote>()
+    for (let from = 0; ; from += QUOTE_PAGE_SIZE) {
+      const { data: snapshots, error: snapshotError } = await supabase
+        .from('odds_snapshots')
+        .select('game_id, fetched_at, total_line, raw_payload')
+        .in('game_id', listed.map(g => g.id))
+        .lte('fetched_at', new Date(now).toISOString())
+        .order('fetched_at', { ascending: false })
+        .order('game_id', { ascending: true })
+        .range(from, from + QUOTE_PAGE_SIZE - 1)
+      if (snapshotError) throw new Error(`paper quotes: ${snapshotError.message}`)
+      for (const quote of (snapshots || []) as PaperQuote[]) {
+        if (quote.total_line !== null && !latest.has(quote.game_id)) latest.set(quote.game_id, quote)
+      }
+      if (!snapshots || snapshots.length < QUOTE_PAGE_SIZE) break
+    }
+
+    return listed.flatMap(game => paperMarketsForGame(sport, game, latest.get(game.id)))
+  }
+
+  const marketsFor = (seriesTicker: string): Promise<PaperMarket[]> => {
+    const sport = kalshiTotalsSport(seriesTicker)
+    if (!sport) return Promise.resolve([])
+    if (!series.has(sport)) {
+      const now = clock().getTime()
+      series.set(sport, loadGames(sport, new Date(now - PAPER_SETTLEMENT_DAYS * DAY_MS), new Date(now + PAPER_LISTING_DAYS * DAY_MS)))
+    }
+    return series.get(sport)!
+  }
+
+  // Markets for one ET date's games, listed or not, so older orders still settle
+  const marketsOn = (sport: string, date: string): Promise<PaperMarket[]> => {
+    const key = `${sport}:${date}`
+    if (!dates.has(key)) {
+      const from = new Date(`${date}T00:00:00Z`)
+      dates.set(key, loadGames(sport, from, new Date(from.getTime() + 2 * DAY_MS)))
+    }
+    return dates.get(key)!
+  }
+
+  return {
+    startingBalanceCents,
+    async markets(query) {
+      if (query.ticker) {
+        const seriesTicker = query.ticker.split('-')[0]
+        const listed = (await marketsFor(seriesTicker)).filter(m => m.ticker === query.ticker)
+        const sport = kalshiTotalsSport(seriesTicker)
+        const date = paperTickerDate(query.ticker)
+        if (listed.length || !sport || !date) return listed
+        return (await marketsOn(sport, date)).filter(m => m.ticker === query.ticker)
+      }
+      return query.series_ticker ? marketsFor(query.series_ticker) : []
+    },
+    async orders(query) {
+      let select = supabase.from('paper_orders').select('*')
+      if (query.order_id) select = select.eq('order_id', query.order_id)
+      if (query.since) select = select.gte('created_time', query.since)
+      if (query.open) select = select.is('settled_at', null)
+      const { data, error } = await select.order('created_time', { ascending: false })
+      if (error) throw new Error(`paper_orders: ${error.message}`)
+      return (data || []) as PaperOrder[]
+    },
+    async settledNetCents() {
+      const { data, error } = await supabase.from('paper_settled_totals').select('net_cents')
+      if (error) throw new Error(`paper_settled_totals: ${error.message}`)
+      return ((data || []) as Array<{ net_cents: number | null }>)[0]?.net_cents ?? 0
+    },
+    async saveOrder(order) {
+      const { error } = await supabase
+        .from('paper_orders')
+        .upsert({ ...order, updated_at: clock().toISOString() }, { onConflict: 'order_id' })
+      if (error) throw new Error(`paper_orders: ${error.message}`)
+    },
+  }
+}
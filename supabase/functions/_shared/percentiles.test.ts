@@ -0,0 +1,249 @@
+// Golden fixtures for the shared percentile engine.
+// Run with: deno test supabase/functions/_shared
+import { assertAlmostEquals, assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import {
+  buildSketch,
+  calculateConfidence,
+  computeHybridForm,
+  computePercentiles,
+  computeRecencyWeighted,
+  getConfidenceLabel,
+  getRecencyFactor,
+  hitProbability,
+  linePercentile,
+  quantile,
+  selectBestSegment,
+  sketchCdf,
+  sketchPercentile,
+  weightedQuantile,
+  type MatchupGameTotal,
+} from './percentiles.ts'
+
+// All fixtures are evaluated as of this instant so the ladder windows are stable
+const NOW = new Date('2026-10-19T12:00:00Z')
+
+function game(date: string, total: number): MatchupGameTotal {
+  return { total, played_at_utc: `${date}T00:00:00Z` }
+}
+
+// Six meetings spread over 14 years: only 2 in the last year, 3 in 3y, 4 in 5y
+const SPARSE_H2H: MatchupGameTotal[] = [
+  game('2026-03-04', 220),
+  game('2025-11-20', 205),
+  game('2024-02-11', 231),
+  game('2021-12-29', 198),
+  game('2019-01-15', 240),
+  game('2012-03-08', 187),
+]
+
+// NHL-style relocation: four meetings under the old team, three after the move.
+// Franchise-level history sees all seven; team-level history only the last three.
+const RELOCATION: Array<MatchupGameTotal & { team: 'old' | 'new' }> = [
+  { ...game('2021-11-10', 5), team: 'old' },
+  { ...game('2022-03-01', 7), team: 'old' },
+  { ...game('2023-01-15', 6), team: 'old' },
+  { ...game('2024-02-20', 4), team: 'old' },
+  { ...game('2024-11-05', 6), team: 'new' },
+  { ...game('2025-12-01', 5), team: 'new' },
+  { ...game('2026-02-10', 8), team: 'new' },
+]
+
+// Eight meetings, all in the current calendar year (every weight is 1.0)
+const ONE_YEAR: MatchupGameTotal[] = [41, 44, 44, 47, 48, 50, 51, 55].map((total, i) =>
+  game(`2026-0${i + 1}-10`, total)
+)
+
+// Same totals spread over five calendar years (weights 1.0 / 0.9 / 0.7 / 0.5 / 0.3)
+const MIXED_YEARS: MatchupGameTotal[] = [
+  game('2026-01-10', 41),
+  game('2026-02-10', 44),
+  game('2025-03-10', 44),
+  game('2025-04-10', 47),
+  game('2024-05-10', 48),
+  game('2023-06-10', 50),
+  game('2022-07-10', 51),
+  game('2022-01-10', 55),
+]
+
+// Repeated totals sitting exactly on the P05 / median / P95 positions
+const TIES = [210, 210, 210, 215, 220, 220, 220, 220, 230, 230]
+
+const EPS = 1e-9
+
+Deno.test('quantile interpolates (type 7)', () => {
+  assertEquals(quantile([1, 2, 3, 4], 0.5), 2.5)
+  assertAlmostEquals(quantile([1, 2, 3, 4], 0.05), 1.15, EPS)
+  assertEquals(quantile([10, 20], 0), 10)
+  assertEquals(quantile([10, 20], 1), 20)
+  assertEquals(quantile([42], 0.95), 42)
+})
+
+Deno.test('weightedQuantile with equal weights matches quantile', () => {
+  const items = [1, 2, 3, 4].map(total => ({ total, weight: 0.7 }))
+  for (const p of [0.05, 0.25, 0.5, 0.95]) {
+    assertAlmostEquals(weightedQuantile(items, p), quantile([1, 2, 3, 4], p), EPS)
+  }
+})
+
+Deno.test('weightedQuantile with all weight on one game returns that game', () => {
+  const items = [
+    { total: 200, weight: 0 },
+    { total: 215, weight: 1 },
+    { total: 230, weight: 0 },
+  ]
+  assertEquals(weightedQuantile(items, 0.05), 215)
+  assertEquals(weightedQuantile(items, 0.95), 215)
+})
+
+Deno.test('sparse h2h falls through the ladder to h2h_10y', () => {
+  const result = selectBestSegment(SPARSE_H2H, NOW)
+  assertEquals(result?.segment_used, 'h2h_10y')
+  assertEquals(result?.n_used, 5)
+  assertEquals(result?.totals, [198, 205, 220, 231, 240])
+  assertAlmostEquals(result!.p05, 199.4, EPS)
+  assertEquals(result?.median, 220)
+  assertAlmostEquals(result!.p95, 238.2, EPS)
+
+  // Only 4 games in the 5y window: recency weighting needs 8
+  assertEquals(computeRecencyWeighted(SPARSE_H2H, NOW), null)
+
+  const confidence = calculateConfidence({ nGames: 5, segment: 'h2h_10y' })
+  assertEquals(confidence.score, 56)
+  assertEquals(confidence.label, 'Fair')
+})
+
+Deno.test('too few games anywhere on the ladder is null', () => {
+  assertEquals(selectBestSegment(SPARSE_H2H.slice(0, 4), NOW), null)
+  assertEquals(selectBestSegment([], NOW), null)
+})
+
+Deno.test('franchise relocation keeps pre-move games at franchise level', () => {
+  const franchise = selectBestSegment(RELOCATION, NOW)
+  assertEquals(franchise?.segment_used, 'h2h_5y')
+  assertEquals(franchise?.n_used, 7)
+  assertAlmostEquals(franchise!.p05, 4.3, EPS)
+  assertEquals(franchise?.median, 6)
+  assertAlmostEquals(franchise!.p95, 7.7, EPS)
+
+  const teamOnly = selectBestSegment(RELOCATION.filter(g => g.team === 'new'), NOW)
+  assertEquals(teamOnly, null)
+})
+
+Deno.test('recency weighting with every game in one year equals the raw percentiles', () => {
+  const weighted = computeRecencyWeighted(ONE_YEAR, NOW)
+  const raw = computePercentiles(ONE_YEAR.map(g => g.total))
+
+  assertEquals(weighted?.segment_used, 'recency_weighted')
+  assertEquals(weighted?.n_used, 8)
+  assertAlmostEquals(weighted!.p05, raw.p05, EPS)
+  assertAlmostEquals(weighted!.median, raw.median, EPS)
+  assertAlmostEquals(weighted!.p95, raw.p95, EPS)
+  assertAlmostEquals(raw.p05, 42.05, EPS)
+  assertEquals(raw.median, 47.5)
+  assertAlmostEquals(raw.p95, 53.6, EPS)
+})
+
+Deno.test('recency weighting across years pulls the band toward recent games', () => {
+  const weighted = computeRecencyWeighted(MIXED_YEARS, NOW)
+  assertAlmostEquals(weighted!.p05, 41.7425, EPS)
+  assertAlmostEquals(weighted!.median, 45.75, EPS)
+  assertAlmostEquals(weighted!.p95, 51.7, EPS)
+})
+
+Deno.test('ties at the percentile boundaries are stable', () => {
+  assertEquals(computePercentiles(TIES), { p05: 210, p95: 230, median: 220, min: 210, max: 230 })
+
+  const weighted = TIES.map((total, i) => ({ total, weight: i < 3 ? 2 : 1 }))
+  assertEquals(weightedQuantile(weighted, 0.05), 210)
+  assertEquals(weightedQuantile(weighted, 0.95), 230)
+
+  const fromLadder = selectBestSegment(TIES.map(total => game('2026-06-01', total)), NOW)
+  assertEquals(fromLadder?.segment_used, 'h2h_1y')
+  assertEquals(fromLadder?.p05, 210)
+  assertEquals(fromLadder?.p95, 230)
+})
+
+Deno.test('hybrid form needs ten games per team', () => {
+  const home = [201, 202, 203, 204, 205, 206, 207, 208, 209, 210]
+  const away = [211, 212, 213, 214, 215, 216, 217, 218, 219, 220]
+
+  assertEquals(computeHybridForm(home.slice(0, 9), away), null)
+
+  const result = computeHybridForm(home, away)
+  assertEquals(result?.segment_used, 'hybrid_form')
+  assertEquals(result?.n_used, 20)
+  assertAlmostEquals(result!.median, 210.5, EPS)
+})
+
+Deno.test('confidence labels', () => {
+  assertEquals(getConfidenceLabel(80), 'Excellent')
+  assertEquals(getConfidenceLabel(79), 'Good')
+  assertEquals(getConfidenceLabel(60), 'Good')
+  assertEquals(getConfidenceLabel(40), 'Fair')
+  assertEquals(getConfidenceLabel(20), 'Low')
+  assertEquals(getConfidenceLabel(19), 'Insufficient')
+
+  const best = calculateConfidence({ nGames: 20, segment: 'h2h_1y', homeContinuity: 100, awayContinuity: 100 })
+  assertEquals(best.score, 99)
+  assertEquals(best.label, 'Excellent')
+
+  const worst = calculateConfidence({ nGames: 0, segment: 'insufficient', homeContinuity: 0, awayContinuity: 0 })
+  assertEquals(worst.score, 3)
+  assertEquals(worst.label, 'Insufficient')
+
+  const form = calculateConfidence({ nGames: 7, segment: 'hybrid_form', homeContinuity: 40, awayContinuity: 60 })
+  assertEquals(form.factors, { sampleSize: 60, recencyScore: 60, rosterContinuity: 50 })
+  assertEquals(form.score, 57)
+
+  const byWindow = calculateConfidence({
+    nGames: 10,
+    recencyData: { within1y: 4, within3y: 8, within5y: 10, total: 10 },
+  })
+  assertEquals(byWindow.factors.recencyScore, 36)
+  assertEquals(byWindow.score, 56)
+})
+
+Deno.test('getRecencyFactor', () => {
+  assertEquals(getRecencyFactor({ segment: 'recency_weighted', homeContinuity: 70, awayContinuity: 50 }), { score: 75, label: 'High' })
+  assertEquals(getRecencyFactor({ segment: 'h2h_20y', homeContinuity: 45, awayContinuity: 45 }), { score: 50, label: 'Med' })
+  assertEquals(getRecencyFactor({ segment: 'h2h_all' }), { score: 45, label: 'Low' })
+})
+
+Deno.test('linePercentile', () => {
+  assertEquals(linePercentile(47.5, 40, 50), 75)
+  assertEquals(linePercentile(60, 40, 50), 110)
+  assertEquals(linePercentile(30, 40, 50), -10)
+  assertEquals(linePercentile(47.5, 45, 45), null)
+  assertEquals(linePercentile(null, 40, 50), null)
+})
+
+Deno.test('sketch stores the full quantile curve', () => {
+  const sketch = buildSketch(ONE_YEAR.map(g => g.total))
+  assertEquals(sketch.q.length, 21)
+  assertEquals(sketch.q[0], 41)
+  assertEquals(sketch.q[1], 42.05)
+  assertEquals(sketch.q[10], 47.5)
+  assertEquals(sketch.q[20], 55)
+  assertEquals(sketch.n, 8)
+  assertEquals(sketch.n_eff, 8)
+
+  const weighted = computeRecencyWeighted(MIXED_YEARS, NOW)
+  assertAlmostEquals(weighted!.distribution.q[10], 45.75, 0.005)
+  assertEquals(weighted!.distribution.n, 8)
+  assertEquals(weighted!.distribution.n_eff, 6.9)
+})
+
+Deno.test('sketch prices lines anywhere in the distribution', () => {
+  const sketch = buildSketch(ONE_YEAR.map(g => g.total))
+  assertEquals(sketchCdf(sketch, 40), 0)
+  assertEquals(sketchCdf(sketch, 56), 1)
+  assertEquals(sketchCdf(sketch, 47.5), 0.5)
+  assertEquals(sketchPercentile(sketch, 42.05), 5)
+  assertAlmostEquals(hitProbability(sketch, 47.5, 'over'), 0.5, EPS)
+  assertAlmostEquals(hitProbability(sketch, 42.05, 'under'), 0.05, EPS)
+
+  // Line sitting on a run of tied quantiles lands mid-run
+  const tied = buildSketch(TIES)
+  assertEquals(sketchPercentile(tied, 210), 10)
+  assertEquals(sketchPercentile(tied, 230), 95)
+})
@@ -0,0 +1,500 @@
+/**
+ * Shared percentile engine
+ *
+ * Pure TypeScript (no Deno or browser APIs) so it can be imported by the edge
+ * functions and by the React app (via the `@shared` alias). Every P05/median/P95
+ * that is written to `matchup_stats` / `daily_edges` or shown in the UI must be
+ * computed here.
+ */
+
+// ============================================================
+// QUANTILES
+// ============================================================
+
+export interface WeightedTotal {
+  total: number
+  weight: number
+}
+
+export interface PercentileSummary {
+  p05: number
+  p95: number
+  median: number
+  min: number
+  max: number
+}
+
+/**
+ * Interpolated quantile of an ascending-sorted array (Hyndman & Fan type 7,
+ * the default in R and numpy): h = (n - 1) * p, linear between neighbours.
+ */
+export function quantile(sorted: number[], p: number): number {
+  const n = sorted.length
+  if (n === 0) return NaN
+  if (n === 1) return sorted[0]
+
+  const h = (n - 1) * Math.min(1, Math.max(0, p))
+  const lo = Math.floor(h)
+  const hi = Math.min(n - 1, lo + 1)
+  return sorted[lo] + (h - lo) * (sorted[hi] - sorted[lo])
+}
+
+/**
+ * Weighted generalisation of the type-7 quantile. Each observation sits at the
+ * midpoint of its cumulative weight, rescaled so the lightest-to-heaviest span
+ * runs from 0 to 1. With equal weights this reduces exactly to `quantile`.
+ */
+export function weightedQuantile(items: WeightedTotal[], p: number): number {
+  const sorted = items.filter(i => i.weight > 0).sort((a, b) => a.total - b.total)
+  const n = sorted.length
+  if (n === 0) return NaN
+  if (n === 1) return sorted[0].total
+
+  const positions: number[] = []
+  let cum = 0
+  for (const item of sorted) {
+    positions.push(cum + item.weight / 2)
+    cum += item.weight
+  }
+
+  const first = positions[0]
+  const span = positions[n - 1] - first
+  const target = first + Math.min(1, Math.max(0, p)) * span
+
+  for (let i = 1; i < n; i++) {
+    if (positions[i] >= target) {
+      const frac = (target - positions[i - 1]) / (positions[i] - positions[i - 1])
+      return sorted[i - 1].total + frac * (sorted[i].total - sorted[i - 1].total)
+    }
+  }
+  return sorted[n - 1].total
+}
+
+/**
+ * P05 / median / P95 plus extremes for a list of game totals.
+ */
+export function computePercentiles(totals: number[]): PercentileSummary {
+  const sorted = [...totals].sort((a, b) => a - b)
+  return {
+    p05: quantile(sorted, 0.05),
+    p95: quantile(sorted, 0.95),
+    median: quantile(sorted, 0.5),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  }
+}
+
+/**
+ * Weighted P05 / median / P95 (extremes are unweighted).
+ */
+export function computeWeightedPercentiles(games: WeightedTotal[]): PercentileSummary {
+  const totals = games.map(g => g.total).sort((a, b) => a - b)
+  return {
+    p05: weightedQuantile(games, 0.05),
+    p95: weightedQuantile(games, 0.95),
+    median: weightedQuantile(games, 0.5),
+    min: totals[0],
+    max: totals[totals.length - 1],
+  }
+}
+
+/**
+ * Where a line falls in the P05-P95 band (0 = at P05, 100 = at P95).
+ * Allows slight overflow (-10..110) so "beyond extremes" can be detected.
+ */
+export function linePercentile(line: number | null | undefined, p05: number | null, p95: number | null): number | null {
+  if (line === null || line === undefined || p05 === null || p95 === null || p95 === p05) {
+    return null
+  }
+  const raw = ((line - p05) / (p95 - p05)) * 100
+  return Math.round(Math.max(-10, Math.min(110, raw)) * 10) / 10
+}
+
+// ============================================================
+// DISTRIBUTION SKETCH
+// ============================================================
+
+// Quantiles are stored every SKETCH_STEP percentiles (P0, P5, ... P100)
+export const SKETCH_STEP = 5
+
+/**
+ * Compact stored distribution for a matchup/segment (`distribution` column on
+ * matchup_stats and daily_edges). Enough to price any alternate line.
+ */
+export interface DistributionSketch {
+  /** Quantiles at 0, 5, ..., 100 */
+  q: number[]
+  n: number
+  /** Kish effective sample size; equals n when unweighted */
+  n_eff: number
+}
+
+export function buildSketch(values: Array<number | WeightedTotal>): DistributionSketch {
+  const items: WeightedTotal[] = values.map(v => (typeof v === 'number' ? { total: v, weight: 1 } : v))
+  const q: number[] = []
+  for (let pct = 0; pct <= 100; pct += SKETCH_STEP) {
+    q.push(Math.round(weightedQuantile(items, pct / 100) * 100) / 100)
+  }
+
+  const sumW = items.reduce((s, i) => s + i.weight, 0)
+  const sumW2 = items.reduce((s, i) => s + i.weight * i.weight, 0)
+  return {
+    q,
+    n: items.length,
+    n_eff: sumW2 > 0 ? Math.round(((sumW * sumW) / sumW2) * 10) / 10 : 0,
+  }
+}
+
+/**
+ * Fraction of the distribution at or below `line` (0-1), linear between the
+ * stored quantiles. A line sitting on a run of tied quantiles gets the middle
+ * of that run.
+ */
+export function sketchCdf(sketch: DistributionSketch, line: number): number {
+  const { q } = sketch
+  const last = q.length - 1
+  if (line < q[0]) return 0
+  if (line > q[last]) return 1
+
+  let lo = 0
+  while (lo < last && q[lo] < line) lo++
+  let hi = last
+  while (hi > 0 && q[hi] > line) hi--
+
+  const step = 1 / last
+  if (lo <= hi) return ((lo + hi) / 2) * step
+
+  // q[hi] < line < q[lo], with lo = hi + 1
+  const frac = (line - q[hi]) / (q[lo] - q[hi])
+  return (hi + frac) * step
+}
+
+/**
+ * Where a line falls in the full distribution (0-100), rounded to 0.1.
+ */
+export function sketchPercentile(sketch: DistributionSketch, line: number): number {
+  return Math.round(sketchCdf(sketch, line) * 1000) / 10
+}
+
+/**
+ * Model probability (0-1) that the final total lands on the given side of the line.
+ */
+export function hitProbability(sketch: DistributionSketch, line: number, side: 'over' | 'under'): number {
+  const below = sketchCdf(sketch, line)
+  return side === 'over' ? 1 - below : below
+}
+
+/**
+ * Model probability (0-1) of `side` for a line. Uses the stored distribution
+ * when there is one; otherwise maps dk_line_percentile (0 = at P05, 100 = at
+ * P95) back onto the full 0-100 scale. Null when neither is known.
+ */
+export function lineHitProbability(
+  line: number,
+  dkLinePercentile: number | null,
+  distribution: DistributionSketch | null | undefined,
+  side: 'over' | 'under'
+): number | null {
+  if (distribution) return hitProbability(distribution, line, side)
+  if (dkLinePercentile === null) return null
+
+  const fullPercentile = 5 + 0.9 * dkLinePercentile
+  const under = Math.min(1, Math.max(0, fullPercentile / 100))
+  return side === 'over' ? 1 - under : under
+}
+
+// ============================================================
+// SEGMENTS
+// ============================================================
+
+export interface SegmentDefinition {
+  key: string
+  yearsBack: number | null
+  label: string
+  /** Weight used when ranking segments against each other (0-1) */
+  recencyWeight: number
+}
+
+// Segment selection ladder - try in order until n >= MIN_SAMPLE
+// PRIORITIZE recent data as it's most relevant (team composition similarity)
+export const SEGMENT_LADDER: SegmentDefinition[] = [
+  { key: 'h2h_1y', yearsBack: 1, label: 'Last 1 Year', recencyWeight: 1.0 },
+  { key: 'h2h_3y', yearsBack: 3, label: 'Last 3 Years', recencyWeight: 0.85 },
+  { key: 'h2h_5y', yearsBack: 5, label: 'Last 5 Years', recencyWeight: 0.7 },
+  { key: 'h2h_10y', yearsBack: 10, label: 'Last 10 Years', recencyWeight: 0.5 },
+  { key: 'h2h_20y', yearsBack: 20, label: 'Last 20 Years', recencyWeight: 0.4 },
+  { key: 'h2h_all', yearsBack: null, label: 'All Time', recencyWeight: 0.3 },
+]
+
+// Recency score (0-100) for every segment_used value we can emit
+export const SEGMENT_RECENCY_SCORES: Record<string, number> = {
+  recency_weighted: 90,
+  h2h_1y: 95,
+  h2h_3y: 88,
+  h2h_5y: 82,
+  h2h_10y: 75,
+  h2h_20y: 55,
+  h2h_all: 40,
+  hybrid_form: 60,
+  era_comparable: 85,
+  insufficient: 10,
+}
+
+// Recency weights for the weighted segment, keyed by calendar years ago
+export const RECENCY_WEIGHTS: Record<number, number> = {
+  0: 1.0,   // Current year
+  1: 0.9,   // 1 year ago
+  2: 0.7,   // 2 years ago
+  3: 0.5,   // 3 years ago
+  4: 0.3,   // 4+ years ago
+}
+
+// Recency weights for hybrid form, keyed by game index (0 = most recent)
+export const HYBRID_RECENCY_WEIGHTS: Record<number, number> = {
+  0: 1.0,
+  1: 0.95,
+  2: 0.90,
+  3: 0.85,
+  4: 0.80,
+  5: 0.75,
+  6: 0.70,
+  7: 0.65,
+  8: 0.60,
+  9: 0.55,
+}
+
+export const MIN_SAMPLE = 5
+export const WEIGHTED_MIN_GAMES = 8 // Minimum games needed for recency-weighted segment
+export const WEIGHTED_YEARS_BACK = 5
+export const HYBRID_MIN_GAMES = 10 // Each team needs at least this many recent games for hybrid
+
+export interface MatchupGameTotal {
+  total: number
+  played_at_utc: string | null
+}
+
+export interface SegmentResult {
+  segment_used: string
+  n_used: number
+  p05: number
+  p95: number
+  median: number
+  /** Ascending */
+  totals: number[]
+  /** Games behind the estimate with the weights that were applied */
+  samples: WeightedTotal[]
+  distribution: DistributionSketch
+}
+
+// Cutoff date for year-based filtering (uses played_at_utc, not season_year)
+export function getYearCutoffDate(yearsBack: number, now: Date = new Date()): string {
+  const cutoff = new Date(now.getTime())
+  cutoff.setUTCFullYear(cutoff.getUTCFullYear() - yearsBack)
+  return cutoff.toISOString()
+}
+
+/**
+ * Games inside a segment's time window. Games without a played date are only
+ * kept for unbounded segments.
+ */
+export function filterGamesForSegment<T extends MatchupGameTotal>(
+  games: T[],
+  segment: Pick<SegmentDefinition, 'yearsBack'>,
+  now: Date = new Date()
+): T[] {
+  if (segment.yearsBack === null) return games
+  const cutoff = getYearCutoffDate(segment.yearsBack, now)
+  return games.filter(g => g.played_at_utc !== null && new Date(g.played_at_utc).toISOString() >= cutoff)
+}
+
+/**
+ * Walk the segment ladder and return the first window with at least
+ * MIN_SAMPLE games.
+ */
+export function selectBestSegment(games: MatchupGameTotal[], now: Date = new Date()): SegmentResult | null {
+  for (const segment of SEGMENT_LADDER) {
+    const inWindow = filterGamesForSegment(games, segment, now)
+    if (inWindow.length < MIN_SAMPLE) continue
+
+    const totals = inWindow.map(g => Number(g.total)).sort((a, b) => a - b)
+    const { p05, p95, median } = computePercentiles(totals)
+    return {
+      segment_used: segment.key,
+      n_used: totals.length,
+      p05,
+      p95,
+      median,
+      totals,
+      samples: totals.map(total => ({ total, weight: 1 })),
+      distribution: buildSketch(totals),
+    }
+  }
+  return null
+}
+
+/**
+ * Recency-weighted segment: last WEIGHTED_YEARS_BACK years, weighted by
+ * calendar year of played_at_utc.
+ */
+export function computeRecencyWeighted(games: MatchupGameTotal[], now: Date = new Date()): SegmentResult | null {
+  const inWindow = filterGamesForSegment(games, { yearsBack: WEIGHTED_YEARS_BACK }, now)
+  if (inWindow.length < WEIGHTED_MIN_GAMES) return null
+
+  const currentYear = now.getUTCFullYear()
+  const weighted = inWindow.map(g => {
+    const playedYear = g.played_at_utc ? new Date(g.played_at_utc).getUTCFullYear() : currentYear
+    const yearDiff = Math.max(0, currentYear - playedYear)
+    return { total: Number(g.total), weight: RECENCY_WEIGHTS[Math.min(yearDiff, 4)] }
+  })
+
+  const { p05, p95, median } = computeWeightedPercentiles(weighted)
+  return {
+    segment_used: 'recency_weighted',
+    n_used: weighted.length,
+    p05,
+    p95,
+    median,
+    totals: weighted.map(g => g.total).sort((a, b) => a - b),
+    samples: weighted,
+    distribution: buildSketch(weighted),
+  }
+}
+
+/**
+ * Hybrid form: each team's recent totals against any opponent, most recent
+ * first. Used when there is no usable head-to-head history.
+ */
+export function computeHybridForm(homeTotals: number[], awayTotals: number[]): SegmentResult | null {
+  if (homeTotals.length < HYBRID_MIN_GAMES || awayTotals.length < HYBRID_MIN_GAMES) {
+    return null
+  }
+
+  const toWeighted = (totals: number[]): WeightedTotal[] =>
+    totals.map((total, i) => ({ total: Number(total), weight: HYBRID_RECENCY_WEIGHTS[Math.min(i, 9)] }))
+
+  const weighted = [...toWeighted(homeTotals), ...toWeighted(awayTotals)]
+  const { p05, p95, median } = computeWeightedPercentiles(weighted)
+  return {
+    segment_used: 'hybrid_form',
+    n_used: weighted.length,
+    p05,
+    p95,
+    median,
+    totals: weighted.map(g => g.total).sort((a, b) => a - b),
+    samples: weighted,
+    distribution: buildSketch(weighted),
+  }
+}
+
+// ============================================================
+// CONFIDENCE
+// ============================================================
+
+export type ConfidenceLabel = 'Excellent' | 'Good' | 'Fair' | 'Low' | 'Insufficient'
+
+export interface ConfidenceFactors {
+  sampleSize: number
+  recencyScore: number
+  rosterContinuity: number
+}
+
+export interface RecencyBreakdown {
+  within1y?: number
+  within3y?: number
+  within5y?: number
+  total?: number
+}
+
+// Weights for each factor (must sum to 1)
+const CONFIDENCE_WEIGHTS = {
+  sampleSize: 0.40,
+  recency: 0.30,
+  rosterContinuity: 0.30,
+}
+
+// Sample size scoring (0-100)
+export function scoreSampleSize(nGames: number): number {
+  if (nGames >= 20) return 100
+  if (nGames >= 15) return 90
+  if (nGames >= 10) return 75
+  if (nGames >= 7) return 60
+  if (nGames >= 5) return 45
+  if (nGames >= 3) return 25
+  return Math.max(0, nGames * 8)
+}
+
+// Recency scoring (0-100) from a per-window breakdown, else from the segment used
+export function scoreRecency(segment: string | null | undefined, breakdown?: RecencyBreakdown): number {
+  if (breakdown) {
+    const { within1y = 0, within3y = 0, within5y = 0, total = 1 } = breakdown
+    if (total === 0) return 0
+
+    // Weight: 50% for 1y, 30% for 1-3y, 20% for 3-5y
+    const recentRatio = (within1y * 0.5 + (within3y - within1y) * 0.3 + (within5y - within3y) * 0.2) / total
+    return Math.round(recentRatio * 100)
+  }
+
+  if (!segment) return 50
+  return SEGMENT_RECENCY_SCORES[segment] ?? 50
+}
+
+// Roster continuity scoring (0-100), unknown teams count as 50%
+export function scoreRosterContinuity(
+  homeContinuity: number | null | undefined,
+  awayContinuity: number | null | undefined
+): number {
+  const home = homeContinuity ?? 50
+  const away = awayContinuity ?? 50
+  return Math.round((home + away) / 2)
+}
+
+export function getConfidenceLabel(score: number): ConfidenceLabel {
+  if (score >= 80) return 'Excellent'
+  if (score >= 60) return 'Good'
+  if (score >= 40) return 'Fair'
+  if (score >= 20) return 'Low'
+  return 'Insufficient'
+}
+
+/**
+ * Overall confidence (0-100) weighing sample size, recency and roster continuity.
+ */
+export function calculateConfidence(params: {
+  nGames: number
+  segment?: string | null
+  homeContinuity?: number | null
+  awayContinuity?: number | null
+  recencyData?: RecencyBreakdown
+}): { score: number; label: ConfidenceLabel; factors: ConfidenceFactors } {
+  const { nGames, segment, homeContinuity, awayContinuity, recencyData } = params
+
+  const factors: ConfidenceFactors = {
+    sampleSize: scoreSampleSize(nGames),
+    recencyScore: scoreRecency(segment, recencyData),
+    rosterContinuity: scoreRosterContinuity(homeContinuity, awayContinuity),
+  }
+
+  const score = Math.round(
+    factors.sampleSize * CONFIDENCE_WEIGHTS.sampleSize +
+    factors.recencyScore * CONFIDENCE_WEIGHTS.recency +
+    factors.rosterContinuity * CONFIDENCE_WEIGHTS.rosterContinuity
+  )
+
+  return { score, label: getConfidenceLabel(score), factors }
+}
+
+/**
+ * "Data applicability" (0-100): segment recency and roster continuity, equally weighted.
+ */
+export function getRecencyFactor(params: {
+  segment?: string | null
+  homeContinuity?: number | null
+  awayContinuity?: number | null
+}): { score: number; label: 'High' | 'Med' | 'Low' } {
+  const recency = scoreRecency(params.segment)
+  const continuity = scoreRosterContinuity(params.homeContinuity, params.awayContinuity)
+  const score = Math.round(recency * 0.5 + continuity * 0.5)
+
+  const label = score >= 75 ? 'High' : score >= 50 ? 'Med' : 'Low'
+  return { score, label }
+}
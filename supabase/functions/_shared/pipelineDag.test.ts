@@ -0,0 +1,145 @@
+// Fixtures for the daily pipeline DAG: ordering, skips, retries and progress.
+// Run with: deno test supabase/functions/_shared
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import {
+  afterFailure,
+  downstreamOf,
+  pipelineProgress,
+  pipelineView,
+  planTick,
+  retryTargets,
+  seedStages,
+  type StageKey,
+  type StageState,
+  type StageStatus,
+} from './pipelineDag.ts'
+
+const DATE = '2025-01-10'
+const NOON = new Date('2025-01-10T17:00:00Z')
+
+function states(date = DATE, sports = ['nba', 'nhl']): StageState[] {
+  return seedStages(date, sports).map(row => ({
+    ...row,
+    status: 'pending' as StageStatus,
+    attempts: 0,
+    next_attempt_at: null,
+    error: null,
+    failure_class: null,
+    started_at: null,
+    finished_at: null,
+    duration_ms: null,
+  }))
+}
+
+function set(rows: StageState[], stage: StageKey, sport: string, status: StageStatus, extra: Partial<StageState> = {}) {
+  const row = rows.find(r => r.stage === stage && r.sport_id === sport)!
+  Object.assign(row, { status, ...extra })
+}
+
+const keys = (rows: StageState[]) => rows.map(r => `${r.stage}:${r.sport_id}`)
+
+Deno.test('stages start once their upstream succeeded for the same sport', () => {
+  const rows = states()
+  assertEquals(rows.length, 6 * 2 + 1)
+  assertEquals(keys(planTick(rows, NOON, DATE).run), ['ingest_schedule:nba', 'ingest_schedule:nhl'])
+
+  set(rows, 'ingest_schedule', 'nba', 'success')
+  set(rows, 'ingest_schedule', 'nhl', 'running')
+  const plan = planTick(rows, NOON, DATE)
+  // verify_scores waits for the games to finish
+  assertEquals(keys(plan.run), ['refresh_odds:nba', 'hydrate_matchups:nba'])
+  const verify = plan.wait.find(w => w.state.stage === 'verify_scores' && w.state.sport_id === 'nba')!
+  assertEquals([verify.reason, verify.until], ['Waiting for games to finish', '2025-01-11T09:00:00Z'])
+
+  set(rows, 'refresh_odds', 'nba', 'success')
+  assertEquals(planTick(rows, NOON, DATE).wait.find(w => w.state.stage === 'compute_percentiles' && w.state.sport_id === 'nba')?.reason,
+    'Waiting on Hydrate matchups for NBA')
+  set(rows, 'hydrate_matchups', 'nba', 'success')
+  assertEquals(keys(planTick(rows, NOON, DATE).run), ['compute_percentiles:nba'])
+})
+
+Deno.test('a failed upstream skips everything downstream of it', () => {
+  const rows = states()
+  set(rows, 'ingest_schedule', 'nba', 'fail')
+  const plan = planTick(rows, NOON, DATE)
+  assertEquals(plan.skip.map(s => [s.state.stage, s.reason]), [
+    ['refresh_odds', 'Ingest schedule for NBA failed'],
+    ['hydrate_matchups', 'Ingest schedule for NBA failed'],
+    ['verify_scores', 'Ingest schedule for NBA failed'],
+  ])
+  for (const { state } of plan.skip) state.status = 'skipped'
+
+  // The next pass carries the skip down, and the date-wide stage is blocked by any sport
+  const next = planTick(rows, NOON, DATE)
+  assertEquals(next.skip.map(s => [s.state.stage, s.state.sport_id, s.reason]), [
+    ['compute_percentiles', 'nba', 'Refresh odds for NBA was skipped'],
+    ['update_parlays', 'all', 'Verify scores for NBA was skipped'],
+  ])
+})
+
+Deno.test('kalshi signals only run for today; verify waits for the next morning', () => {
+  const rows = states('2025-01-09', ['nba'])
+  for (const stage of ['ingest_schedule', 'refresh_odds', 'hydrate_matchups', 'compute_percentiles'] as const) {
+    set(rows, stage, 'nba', 'success')
+  }
+  const plan = planTick(rows, NOON, DATE)
+  assertEquals(plan.skip.map(s => [s.state.stage, s.reason]), [['kalshi_signals', 'Signals only run for today\'s slate']])
+  assertEquals(keys(plan.run), ['verify_scores:nba'])
+
+  const today = planTick(states(DATE, ['nba']).map(r => ({ ...r, status: r.stage === 'compute_percentiles' || r.stage === 'kalshi_signals' ? r.status : 'success' as StageStatus })), NOON, DATE)
+  assertEquals(keys(today.run), ['compute_percentiles:nba'])
+})
+
+Deno.test('transient failures come back after a backoff; permanent ones fail', () => {
+  const rows = states(DATE, ['nba'])
+  const ingest = rows[0]
+  ingest.attempts = 1
+  const retry = afterFailure(ingest, 'upstream', true, NOON)
+  assertEquals(retry, { status: 'pending', next_attempt_at: '2025-01-10T17:02:00.000Z', failure_class: 'upstream' })
+
+  Object.assign(ingest, retry)
+  assertEquals(planTick(rows, NOON, DATE).wait.find(w => w.state === ingest)?.reason, 'Retry 2 scheduled')
+  assertEquals(keys(planTick(rows, new Date('2025-01-10T17:02:00Z'), DATE).run), ['ingest_schedule:nba'])
+
+  ingest.attempts = 3
+  assertEquals(afterFailure(ingest, 'upstream', true, NOON).status, 'fail')
+  ingest.attempts = 1
+  assertEquals(afterFailure(ingest, 'validation', false, NOON).status, 'fail')
+})
+
+Deno.test('a manual retry resets the stage and what it skipped', () => {
+  assertEquals(downstreamOf('refresh_odds'), ['compute_percentiles', 'kalshi_signals'])
+  assertEquals(downstreamOf('ingest_schedule'), ['refresh_odds', 'hydrate_matchups', 'compute_percentiles', 'kalshi_signals', 'verify_scores', 'update_parlays'])
+
+  const rows = states()
+  set(rows, 'ingest_schedule', 'nba', 'fail')
+  set(rows, 'ingest_schedule', 'nhl', 'success')
+  for (const stage of downstreamOf('ingest_schedule')) set(rows, stage, stage === 'update_parlays' ? 'all' : 'nba', 'skipped')
+  set(rows, 'refresh_odds', 'nhl', 'fail')
+  set(rows, 'compute_percentiles', 'nhl', 'skipped')
+
+  assertEquals(keys(retryTargets(rows, 'ingest_schedule', 'nba')), [
+    'ingest_schedule:nba', 'refresh_odds:nba', 'hydrate_matchups:nba', 'compute_percentiles:nba',
+    'kalshi_signals:nba', 'verify_scores:nba', 'update_parlays:all',
+  ])
+  assertEquals(keys(retryTargets(rows, 'refresh_odds', 'nhl')), ['refresh_odds:nhl', 'compute_percentiles:nhl'])
+})
+
+Deno.test('progress reports the first stage each sport is stuck at', () => {
+  const rows = states('2025-01-09')
+  for (const stage of ['ingest_schedule', 'refresh_odds', 'hydrate_matchups', 'compute_percentiles', 'verify_scores'] as const) {
+    set(rows, stage, 'nba', 'success')
+  }
+  set(rows, 'kalshi_signals', 'nba', 'skipped', { error: 'Signals only run for today\'s slate' })
+  set(rows, 'ingest_schedule', 'nhl', 'success')
+  set(rows, 'refresh_odds', 'nhl', 'fail', { error: 'refresh-odds 500' })
+
+  assertEquals(pipelineProgress(rows, ['nba', 'nhl'], DATE), [
+    { sport: 'nba', done: 6, total: 7, stuck_at: { stage: 'update_parlays', status: 'pending', reason: null } },
+    { sport: 'nhl', done: 1, total: 7, stuck_at: { stage: 'refresh_odds', status: 'fail', reason: 'refresh-odds 500' } },
+  ])
+
+  const view = pipelineView('2025-01-09', DATE, rows, ['nba', 'nhl'])
+  assertEquals([view.seeded, view.stages.length, view.cells.length], [true, 7, 13])
+  assertEquals(pipelineView(DATE, DATE, []).progress[0], { sport: 'nba', done: 0, total: 0, stuck_at: null })
+})
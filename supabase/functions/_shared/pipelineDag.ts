@@ -0,0 +1,344 @@
+/**
+ * Daily pipeline
+ *
+ * The daily flow is declared here as a DAG over (date, sport): a stage runs
+ * once every stage it depends on has succeeded for that date and sport, and
+ * is skipped when one of them failed for good. `run-pipeline` keeps the
+ * state in pipeline_stage_runs and calls planTick on each pass to decide what
+ * to start, what to skip and what is still waiting; Status reads the same
+ * rows to show where each sport's slate is stuck.
+ *
+ *   ingest_schedule ─┬─ refresh_odds ─────┬─ compute_percentiles ── kalshi_signals
+ *                    ├─ hydrate_matchups ─┘
+ *                    └─ verify_scores ── update_parlays (whole date)
+ */
+import { backoffDelay, type FailureClass, type RetryOptions } from './jobRunner.ts'
+
+export type StageKey =
+  | 'ingest_schedule'
+  | 'refresh_odds'
+  | 'hydrate_matchups'
+  | 'compute_percentiles'
+  | 'kalshi_signals'
+  | 'verify_scores'
+  | 'update_parlays'
+
+export type StageStatus = 'pending' | 'running' | 'success' | 'fail' | 'skipped'
+
+export const PIPELINE_SPORTS = ['nba', 'nfl', 'nhl', 'mlb']
+
+/** sport_id of stages that run once for the whole date */
+export const ALL_SPORTS = 'all'
+
+/** Between attempts of a failed stage; later ticks pick the retry up */
+export const STAGE_RETRY: RetryOptions = { attempts: 3, baseDelay: 2 * 60 * 1000, maxDelay: 30 * 60 * 1000 }
+
+export interface StageRequest {
+  function: string
+  body: Record<string, unknown>
+}
+
+export interface StageDefinition {
+  key: StageKey
+  label: string
+  depends_on: StageKey[]
+  /** 'sport' runs once per sport; 'date' once per date, after its upstream succeeded for every sport */
+  scope: 'sport' | 'date'
+  /** Edge function call for a date and sport (ALL_SPORTS for date stages) */
+  request(date: string, sport: string): StageRequest
+  /** Earliest time the stage may start, for stages that need the games finished */
+  notBefore?(date: string): string
+  /** Why the stage doesn't apply to this date, or null when it does */
+  skipReason?(date: string, today: string): string | null
+}
+
+// BallDontLie carries NBA and NFL games and odds; NHL and MLB come from SportsData.io and The Odds API
+const viaBdl = (sport: string) => sport === 'nba' || sport === 'nfl'
+
+function nextDay(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + 1)
+  return d.toISOString().slice(0, 10)
+}
+
+export const PIPELINE: StageDefinition[] = [
+  {
+    key: 'ingest_schedule',
+    label: 'Ingest schedule',
+    depends_on: [],
+    scope: 'sport',
+    request: (date, sport) => (viaBdl(sport)
+      ? { function: 'bdl-sync', body: { dates: [date], sports: [sport], sync_games: true, sync_odds: false, sync_injuries: false, sync_standings: false } }
+      : { function: 'ingest-games', body: { sport_id: sport, date } }),
+  },
+  {
+    key: 'refresh_odds',
+    label: 'Refresh odds',
+    depends_on: ['ingest_schedule'],
+    scope: 'sport',
+    // bdl-sync matches odds through the games it synced in the same call
+    request: (date, sport) => (viaBdl(sport)
+      ? { function: 'bdl-sync', body: { dates: [date], sports: [sport], sync_games: true, sync_odds: true, sync_injuries: true, sync_standings: false } }
+      : { function: 'refresh-odds', body: { sport_id: sport, date } }),
+  },
+  {
+    key: 'hydrate_matchups',
+    label: 'Hydrate matchups',
+    depends_on: ['ingest_schedule'],
+    scope: 'sport',
+    request: (date, sport) => ({ function: 'prewarm-slate', body: { date, sport } }),
+  },
+  {
+    key: 'compute_percentiles',
+    label: 'Compute percentiles',
+    depends_on: ['refresh_odds', 'hydrate_matchups'],
+    scope: 'sport',
+    request: (date, sport) => ({ function: 'compute-percentiles', body: { date, sport_id: sport, use_recency_weighted: true } }),
+  },
+  {
+    key: 'kalshi_signals',
+    label: 'Kalshi signals',
+    depends_on: ['compute_percentiles'],
+    scope: 'sport',
+    request: (_date, sport) => ({ function: 'kalshi-integration', body: { action: 'get_signals', sport_id: sport } }),
+    // Signals read today's edges only
+    skipReason: (date, today) => (date === today ? null : 'Signals only run for today\'s slate'),
+  },
+  {
+    key: 'verify_scores',
+    label: 'Verify scores',
+    depends_on: ['ingest_schedule'],
+    scope: 'sport',
+    request: (date, sport) => ({ function: 'verify-scores', body: { date, sport } }),
+    // Late West Coast games end after midnight ET
+    notBefore: date => `${nextDay(date)}T09:00:00Z`,
+  },
+  {
+    key: 'update_parlays',
+    label: 'Update parlays',
+    depends_on: ['verify_scores'],
+    scope: 'date',
+    request: () => ({ function: 'update-parlay-results', body: {} }),
+  },
+]
+
+const STAGES = new Map(PIPELINE.map(stage => [stage.key, stage]))
+
+export function stageDefinition(key: StageKey): StageDefinition {
+  return STAGES.get(key)!
+}
+
+/** A pipeline_stage_runs row */
+export interface StageState {
+  date_local: string
+  sport_id: string
+  stage: StageKey
+  status: StageStatus
+  attempts: number
+  next_attempt_at: string | null
+  error: string | null
+  failure_class: FailureClass | null
+  started_at: string | null
+  finished_at: string | null
+  duration_ms: number | null
+}
+
+/** Rows a date starts with: every sport stage per sport, every date stage once */
+export function seedStages(date: string, sports: string[] = PIPELINE_SPORTS): Array<Pick<StageState, 'date_local' | 'sport_id' | 'stage'>> {
+  const rows: Array<Pick<StageState, 'date_local' | 'sport_id' | 'stage'>> = []
+  for (const stage of PIPELINE) {
+    for (const sport of stage.scope === 'date' ? [ALL_SPORTS] : sports) {
+      rows.push({ date_local: date, sport_id: sport, stage: stage.key })
+    }
+  }
+  return rows
+}
+
+/** Stages that (transitively) depend on `key` */
+export function downstreamOf(key: StageKey): StageKey[] {
+  const found = new Set<StageKey>()
+  const visit = (from: StageKey) => {
+    for (const stage of PIPELINE) {
+      if (stage.depends_on.includes(from) && !found.has(stage.key)) {
+        found.add(stage.key)
+        visit(stage.key)
+      }
+    }
+  }
+  visit(key)
+  return PIPELINE.map(s => s.key).filter(k => found.has(k))
+}
+
+function upstreamStates(state: StageState, states: StageState[]): StageState[] {
+  const stage = stageDefinition(state.stage)
+  return states.filter(s => stage.depends_on.includes(s.stage)
+    && s.date_local === state.date_local
+    && (stage.scope === 'date' || s.sport_id === state.sport_id))
+}
+
+const sportLabel = (sport: string) => (sport === ALL_SPORTS ? '' : ` for ${sport.toUpperCase()}`)
+
+export interface TickPlan {
+  run: StageState[]
+  skip: Array<{ state: StageState; reason: string }>
+  /** Pending stages that can't start yet, with why */
+  wait: Array<{ state: StageState; reason: string; until?: string }>
+}
+
+/**
+ * What to do with each pending stage now. A stage whose upstream failed or
+ * was skipped is skipped too; one whose upstream all succeeded runs, unless
+ * it doesn't apply to the date or its start (or retry) time hasn't come.
+ */
+export function planTick(states: StageState[], now: Date, today: string): TickPlan {
+  const plan: TickPlan = { run: [], skip: [], wait: [] }
+  const nowIso = now.toISOString()
+
+  for (const state of states) {
+    if (state.status !== 'pending') continue
+    const stage = stageDefinition(state.stage)
+    const upstream = upstreamStates(state, states)
+
+    const blocked = upstream.find(s => s.status === 'fail' || s.status === 'skipped')
+    if (blocked) {
+      const label = stageDefinition(blocked.stage).label
+      plan.skip.push({ state, reason: `${label}${sportLabel(blocked.sport_id)} ${blocked.status === 'fail' ? 'failed' : 'was skipped'}` })
+      continue
+    }
+
+    const unfinished = upstream.find(s => s.status !== 'success')
+    if (unfinished) {
+      plan.wait.push({ state, reason: `Waiting on ${stageDefinition(unfinished.stage).label}${sportLabel(unfinished.sport_id)}` })
+      continue
+    }
+
+    const notApplicable = stage.skipReason?.(state.date_local, today)
+    if (notApplicable) {
+      plan.skip.push({ state, reason: notApplicable })
+      continue
+    }
+
+    const notBefore = stage.notBefore?.(state.date_local)
+    if (notBefore && notBefore > nowIso) {
+      plan.wait.push({ state, reason: 'Waiting for games to finish', until: notBefore })
+      continue
+    }
+
+    if (state.next_attempt_at && state.next_attempt_at > nowIso) {
+      plan.wait.push({ state, reason: `Retry ${state.attempts + 1} scheduled`, until: state.next_attempt_at })
+      continue
+    }
+
+    plan.run.push(state)
+  }
+
+  return plan
+}
+
+/**
+ * State after a failed attempt: back to pending with a retry time while the
+ * failure looks transient and attempts remain, otherwise failed.
+ */
+export function afterFailure(
+  state: StageState,
+  failureClass: FailureClass,
+  retryable: boolean,
+  now: Date
+): Pick<StageState, 'status' | 'next_attempt_at' | 'failure_class'> {
+  if (retryable && state.attempts < STAGE_RETRY.attempts) {
+    const delay = backoffDelay(state.attempts, STAGE_RETRY)
+    return { status: 'pending', next_attempt_at: new Date(now.getTime() + delay).toISOString(), failure_class: failureClass }
+  }
+  return { status: 'fail', next_attempt_at: null, failure_class: failureClass }
+}
+
+/**
+ * Stages to put back to pending when a stage is retried by hand: the stage
+ * itself and whatever downstream was skipped or failed because of it.
+ */
+export function retryTargets(states: StageState[], key: StageKey, sport: string): StageState[] {
+  const stage = stageDefinition(key)
+  const downstream = new Set(downstreamOf(key))
+  return states.filter(s => {
+    if (s.stage === key) return stage.scope === 'date' || s.sport_id === sport
+    if (!downstream.has(s.stage) || (s.status !== 'skipped' && s.status !== 'fail')) return false
+    return stageDefinition(s.stage).scope === 'date' || stage.scope === 'date' || s.sport_id === sport
+  })
+}
+
+export interface SportProgress {
+  sport: string
+  done: number
+  total: number
+  /** First stage (in DAG order) that hasn't succeeded; null once the sport is through */
+  stuck_at: { stage: StageKey; status: StageStatus; reason: string | null } | null
+}
+
+/**
+ * Where each sport's slate stands. Stages skipped because they don't apply
+ * count as done; date stages count toward every sport.
+ */
+export function pipelineProgress(states: StageState[], sports: string[], today: string): SportProgress[] {
+  return sports.map(sport => {
+    const own = PIPELINE
+      .map(stage => states.find(s => s.stage === stage.key && s.sport_id === (stage.scope === 'date' ? ALL_SPORTS : sport)))
+      .filter((s): s is StageState => s !== undefined)
+    const applies = (s: StageState) => !(s.status === 'skipped' && stageDefinition(s.stage).skipReason?.(s.date_local, today))
+    const done = own.filter(s => s.status === 'success' || !applies(s)).length
+    const stuck = own.find(s => s.status !== 'success' && applies(s))
+    return {
+      sport,
+      done,
+      total: own.length,
+      stuck_at: stuck ? { stage: stuck.stage, status: stuck.status, reason: stuck.error } : null,
+    }
+  })
+}
+
+export interface PipelineCell {
+  stage: StageKey
+  sport_id: string
+  status: StageStatus
+  attempts: number
+  error: string | null
+  failure_class: FailureClass | null
+  next_attempt_at: string | null
+  started_at: string | null
+  finished_at: string | null
+  duration_ms: number | null
+}
+
+/** What api-pipeline returns for a date */
+export interface PipelineView {
+  date: string
+  today: string
+  /** False until run-pipeline has seeded the date */
+  seeded: boolean
+  stages: Array<Pick<StageDefinition, 'key' | 'label' | 'depends_on' | 'scope'>>
+  sports: string[]
+  cells: PipelineCell[]
+  progress: SportProgress[]
+}
+
+export function pipelineView(date: string, today: string, states: StageState[], sports: string[] = PIPELINE_SPORTS): PipelineView {
+  return {
+    date,
+    today,
+    seeded: states.length > 0,
+    stages: PIPELINE.map(({ key, label, depends_on, scope }) => ({ key, label, depends_on, scope })),
+    sports,
+    cells: states.map(s => ({
+      stage: s.stage,
+      sport_id: s.sport_id,
+      status: s.status,
+      attempts: s.attempts,
+      error: s.error,
+      failure_class: s.failure_class,
+      next_attempt_at: s.next_attempt_at,
+      started_at: s.started_at,
+      finished_at: s.finished_at,
+      duration_ms: s.duration_ms,
+    })),
+    progress: pipelineProgress(states, sports, today),
+  }
+}
@@ -0,0 +1,23 @@
+// Fixtures for the known playoff results table.
+// Run with: deno test supabase/functions/_shared
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import { PLAYOFF_RESULTS, playoffResultsFor } from './playoffResults.ts'
+import { teamKey } from './teamRegistry.ts'
+
+Deno.test('each season has one champion and every team resolves', () => {
+  for (const [sport, entries] of Object.entries(PLAYOFF_RESULTS)) {
+    const champions = new Map<number, number>()
+    for (const entry of entries) {
+      assertEquals(teamKey(sport, entry.team_abbrev) !== null, true, `${sport} ${entry.team_abbrev}`)
+      if (entry.playoff_result === 'Champion') champions.set(entry.season_year, (champions.get(entry.season_year) ?? 0) + 1)
+    }
+    assertEquals([...champions.values()].every(n => n === 1), true, sport)
+  }
+})
+
+Deno.test('results are picked by season', () => {
+  const nba2024 = playoffResultsFor('nba', [2024])
+  assertEquals(nba2024.find(e => e.playoff_result === 'Champion')?.team_abbrev, 'BOS')
+  assertEquals(nba2024.every(e => e.season_year === 2024), true)
+  assertEquals(playoffResultsFor('cfl', [2024]), [])
+})
@@ -1,45 +1,14 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-interface PlayoffEntry {
-  team_abbrev: string;
-  season_year: number;
-  playoff_result: string;
-}
-
-// Mapping from common abbreviations to actual database team names
-const ABBREV_TO_DB: Record<string, Record<string, string>> = {
-  nba: {
-    'GSW': 'GS',
-    'NOP': 'NO',
-    'NYK': 'NY',
-    'PHX': 'PHO',
-    'SAS': 'SA',
-  },
-  nfl: {
-    // NFL names match
-  },
-  mlb: {
-    'WAS': 'WSH',
-  },
-  nhl: {
-    'VGK': 'VEG',
-    'MTL': 'MON',
-    'NSH': 'NAS',
-    'SJS': 'SJ',
-    'WSH': 'WAS',
-    'LAK': 'LA',
-    'NJD': 'NJ',
-    'PHX': 'ARI',
-  },
-};
-
-function getDbTeamName(abbrev: string, sport: string): string {
-  return ABBREV_TO_DB[sport]?.[abbrev] || abbrev;
+/**
+ * Known playoff results
+ *
+ * How far each team went in the postseason, by the season_year games are
+ * stored under. The backfill orchestrator writes these to
+ * team_seasons.playoff_result for playoffs-scope plans.
+ */
+export interface PlayoffEntry {
+  team_abbrev: string
+  season_year: number
+  playoff_result: string
 }
 
 // Known playoff results by sport - Historical data going back to 2015
@@ -210,7 +179,7 @@ const NBA_PLAYOFFS: PlayoffEntry[] = [
   { team_abbrev: 'SAS', season_year: 2010, playoff_result: 'Conf Semis' },
   { team_abbrev: 'CLE', season_year: 2010, playoff_result: 'Conf Semis' },
   { team_abbrev: 'ATL', season_year: 2010, playoff_result: 'Conf Semis' },
-];
+]
 
 const NFL_PLAYOFFS: PlayoffEntry[] = [
   // 2024 Season (Super Bowl LIX)
@@ -293,7 +262,7 @@ const NFL_PLAYOFFS: PlayoffEntry[] = [
   { team_abbrev: 'IND', season_year: 2010, playoff_result: 'Super Bowl' },
   { team_abbrev: 'NYJ', season_year: 2010, playoff_result: 'Conf Champ' },
   { team_abbrev: 'MIN', season_year: 2010, playoff_result: 'Conf Champ' },
-];
+]
 
 const MLB_PLAYOFFS: PlayoffEntry[] = [
   // 2024 World Series
@@ -371,7 +340,7 @@ const MLB_PLAYOFFS: PlayoffEntry[] = [
   { team_abbrev: 'TEX', season_year: 2010, playoff_result: 'World Series' },
   { team_abbrev: 'NYY', season_year: 2010, playoff_result: 'ALCS' },
   { team_abbrev: 'PHI', season_year: 2010, playoff_result: 'NLCS' },
-];
+]
 
 const NHL_PLAYOFFS: PlayoffEntry[] = [
   // 2024 Stanley Cup
@@ -449,135 +418,15 @@ const NHL_PLAYOFFS: PlayoffEntry[] = [
   { team_abbrev: 'PHI', season_year: 2010, playoff_result: 'Finals' },
   { team_abbrev: 'SJS', season_year: 2010, playoff_result: 'Conf Finals' },
   { team_abbrev: 'MTL', season_year: 2010, playoff_result: 'Conf Finals' },
-];
-
-async function backfillPlayoffs(
-  supabase: any,
-  sport: string
-): Promise<{ updated: number; errors: string[] }> {
-  let playoffData: PlayoffEntry[];
-  
-  switch (sport) {
-    case 'nba':
-      playoffData = NBA_PLAYOFFS;
-      break;
-    case 'nfl':
-      playoffData = NFL_PLAYOFFS;
-      break;
-    case 'mlb':
-      playoffData = MLB_PLAYOFFS;
-      break;
-    case 'nhl':
-      playoffData = NHL_PLAYOFFS;
-      break;
-    default:
-      return { updated: 0, errors: [`Unknown sport: ${sport}`] };
-  }
-
-  console.log(`[backfill-playoffs] Processing ${playoffData.length} playoff entries for ${sport}`);
-
-  // Get all teams for this sport - match by name since that's where abbreviations are stored
-  const { data: teams, error: teamsError } = await supabase
-    .from('teams')
-    .select('id, name, abbrev')
-    .eq('sport_id', sport);
-
-  if (teamsError) {
-    console.error('[backfill-playoffs] Error fetching teams:', teamsError);
-    return { updated: 0, errors: [teamsError.message] };
-  }
-
-  // Create map using both name and abbrev as keys (name is the primary storage)
-  const teamMap = new Map<string, string>();
-  (teams || []).forEach((t: any) => {
-    if (t.name) teamMap.set(t.name, t.id);
-    if (t.abbrev) teamMap.set(t.abbrev, t.id);
-  });
-  let updated = 0;
-  const errors: string[] = [];
-
-  for (const entry of playoffData) {
-    // Convert common abbreviation to DB team name
-    const dbTeamName = getDbTeamName(entry.team_abbrev, sport);
-    const teamId = teamMap.get(dbTeamName);
-    
-    if (!teamId) {
-      errors.push(`Team not found: ${entry.team_abbrev} (tried: ${dbTeamName})`);
-      continue;
-    }
+]
 
-    // Update team_seasons record
-    const { error: updateError } = await supabase
-      .from('team_seasons')
-      .update({ playoff_result: entry.playoff_result })
-      .eq('team_id', teamId)
-      .eq('season_year', entry.season_year)
-      .eq('sport_id', sport);
-
-    if (updateError) {
-      errors.push(`Failed to update ${entry.team_abbrev} ${entry.season_year}: ${updateError.message}`);
-    } else {
-      updated++;
-      console.log(`[backfill-playoffs] Updated ${entry.team_abbrev} ${entry.season_year}: ${entry.playoff_result}`);
-    }
-  }
-
-  return { updated, errors };
+export const PLAYOFF_RESULTS: Record<string, PlayoffEntry[]> = {
+  nba: NBA_PLAYOFFS,
+  nfl: NFL_PLAYOFFS,
+  mlb: MLB_PLAYOFFS,
+  nhl: NHL_PLAYOFFS,
 }
 
-Deno.serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
-    const url = new URL(req.url);
-    const sport = url.searchParams.get('sport') || 'nba';
-    const allSports = url.searchParams.get('allSports') === 'true';
-
-    console.log(`[backfill-playoffs] Starting backfill for ${allSports ? 'all sports' : sport}`);
-
-    const results: Record<string, { updated: number; errors: string[] }> = {};
-
-    if (allSports) {
-      for (const s of ['nba', 'nfl', 'mlb', 'nhl']) {
-        results[s] = await backfillPlayoffs(supabase, s);
-      }
-    } else {
-      results[sport] = await backfillPlayoffs(supabase, sport);
-    }
-
-    const totalUpdated = Object.values(results).reduce((sum, r) => sum + r.updated, 0);
-    const allErrors = Object.entries(results).flatMap(([s, r]) => r.errors.map(e => `[${s}] ${e}`));
-
-    console.log(`[backfill-playoffs] Completed. Updated ${totalUpdated} records.`);
-    if (allErrors.length > 0) {
-      console.log(`[backfill-playoffs] Errors:`, allErrors);
-    }
-
-    return new Response(
-      JSON.stringify({
-        success: true,
-        totalUpdated,
-        results,
-        errors: allErrors,
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
-  } catch (error: any) {
-    console.error('[backfill-playoffs] Error:', error);
-    return new Response(
-      JSON.stringify({ success: false, error: error?.message || 'Unknown error' }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
-  }
-});
+export function playoffResultsFor(sport: string, seasons: number[]): PlayoffEntry[] {
+  return (PLAYOFF_RESULTS[sport] ?? []).filter(entry => seasons.includes(entry.season_year))
+}
@@ -0,0 +1,103 @@
+// Fixtures for portfolio exposure, limit headroom and the drawdown breaker.
+// Run with: deno test supabase/functions/_shared
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import {
+  candidateExposure,
+  checkRisk,
+  drawdownCents,
+  kalshiExposure,
+  kalshiOrderCost,
+  omenExposure,
+  resolveRiskLimits,
+  type ExposureGame,
+  type OpenKalshiOrder,
+} from './portfolioRisk.ts'
+
+// Both tip off the evening of Oct 21 ET, after midnight UTC
+const HOU_OKC: ExposureGame = { id: 'g1', sport_id: 'nba', start_time_utc: '2025-10-22T00:00:00Z', home_team_id: 'okc', away_team_id: 'hou' }
+const GSW_LAL: ExposureGame = { id: 'g2', sport_id: 'nba', start_time_utc: '2025-10-22T02:30:00Z', home_team_id: 'lal', away_team_id: 'gsw' }
+
+function order(extra: Partial<OpenKalshiOrder> = {}): OpenKalshiOrder {
+  return {
+    id: 'o1',
+    game_id: 'g1',
+    signal_type: 'UNDER',
+    count: 20,
+    price: 45,
+    max_price: null,
+    filled_count: 0,
+    fill_price: null,
+    fees_cents: 0,
+    status: 'pending',
+    kalshi_status: 'resting',
+    result: null,
+    ...extra,
+  }
+}
+
+Deno.test('exposure counts fills, fees and resting collateral until settlement', () => {
+  assertEquals(kalshiOrderCost(order()), 900)
+  assertEquals(kalshiOrderCost(order({ status: 'partial', filled_count: 5, fill_price: 44, fees_cents: 9 })), 5 * 44 + 9 + 15 * 45)
+  assertEquals(kalshiOrderCost(order({ status: 'partial', kalshi_status: 'canceled', filled_count: 5, fill_price: 44, fees_cents: 9 })), 229)
+  // A repriced order's resting contracts may still be bought at its max
+  assertEquals(kalshiOrderCost(order({ status: 'partial', max_price: 48, filled_count: 5, fill_price: 45, fees_cents: 9 })), 5 * 45 + 9 + 15 * 48)
+  assertEquals(kalshiOrderCost(order({ status: 'filled', kalshi_status: 'executed', filled_count: 20, fill_price: 45, result: 'win' })), 0)
+  assertEquals(kalshiExposure(order({ status: 'cancelled', kalshi_status: 'canceled' }), HOU_OKC), null)
+
+  const kalshi = kalshiExposure(order(), HOU_OKC)!
+  assertEquals([kalshi.date, kalshi.direction, kalshi.team_ids], ['2025-10-21', 'under', ['okc', 'hou']])
+  const omen = omenExposure({ id: 'p1', outcome: 'no', total_cost: 4.5 }, GSW_LAL)!
+  assertEquals([omen.source, omen.direction, omen.cost_cents], ['omen', 'under', 450])
+
+  assertEquals(drawdownCents([
+    { date_local: '2025-10-22', net_pnl_cents: -3000 },
+    { date_local: '2025-10-20', net_pnl_cents: 2000 },
+    { date_local: '2025-10-21', net_pnl_cents: 500 },
+    { date_local: '2025-10-23', net_pnl_cents: -1000 },
+  ]), 4000)
+  assertEquals(drawdownCents([{ date_local: '2025-10-20', net_pnl_cents: -700 }]), 700)
+})
+
+Deno.test('orders are cut to the tightest group and rejected below one contract', () => {
+  const limits = resolveRiskLimits({
+    sport_exposure_limits: { nba: 5000, nhl: 'lots' },
+    max_date_exposure_cents: 10000,
+    max_team_exposure_cents: 2500,
+    max_correlated_exposure_cents: 2000,
+    max_drawdown_cents: null,
+  })
+  assertEquals(limits, { sport: { nba: 5000 }, date: 10000, team: 2500, correlation: 2000, drawdown: null })
+  assertEquals(resolveRiskLimits(null), { sport: {}, date: null, team: null, correlation: null, drawdown: null })
+
+  const open = [kalshiExposure(order(), HOU_OKC)!, omenExposure({ id: 'p1', outcome: 'no', total_cost: 9 }, GSW_LAL)!]
+
+  // A third NBA under the same night: 900 + 900 leaves 200 in the correlation group
+  const under = checkRisk(candidateExposure(GSW_LAL, 'UNDER', 1000), open, limits, 0, 45)
+  assertEquals(under.allowed_cents, 200)
+  assertEquals(under.limited_by.map(l => [l.reason, l.scope, l.exposure_cents]), [['correlation_limit', 'nba:2025-10-21:under', 1800]])
+  assertEquals(under.rejected, null)
+
+  // An over on the same slate is a different group, but LAL and GSW are near their team limit
+  const over = checkRisk(candidateExposure(GSW_LAL, 'OVER', 2000), open, limits, 0, 45)
+  assertEquals([over.allowed_cents, over.limited_by.map(l => l.scope)], [1600, ['lal', 'gsw']])
+
+  // Under one contract of room is a rejection naming every group that ran out
+  const full = checkRisk(candidateExposure(GSW_LAL, 'UNDER', 1000), [...open, { ...open[1], id: 'p2', cost_cents: 1080 }], limits, 0, 45)
+  assertEquals(full.allowed_cents, 0)
+  assertEquals(full.rejected!.map(r => r.reason), ['correlation_limit'])
+  const crowded = checkRisk(candidateExposure(GSW_LAL, 'OVER', 1000), [...open, { ...open[1], id: 'p3', direction: 'over', cost_cents: 1600 }], limits, 0, 45)
+  assertEquals(crowded.rejected!.map(r => [r.reason, r.scope]), [['team_limit', 'lal'], ['team_limit', 'gsw']])
+
+  // Other sports have no sport limit configured
+  const nhl = { ...HOU_OKC, id: 'g3', sport_id: 'nhl', home_team_id: 'bos', away_team_id: 'tor' }
+  assertEquals(checkRisk(candidateExposure(nhl, 'OVER', 1500), open, limits, 0).allowed_cents, 1500)
+})
+
+Deno.test('the drawdown breaker rejects everything once tripped', () => {
+  const limits = resolveRiskLimits({ max_drawdown_cents: 5000 })
+  const candidate = candidateExposure(HOU_OKC, 'OVER', 500)
+  assertEquals(checkRisk(candidate, [], limits, 4999).allowed_cents, 500)
+  const tripped = checkRisk(candidate, [], limits, 5000)
+  assertEquals(tripped.allowed_cents, 0)
+  assertEquals(tripped.rejected, [{ reason: 'drawdown_breaker', scope: 'portfolio', limit_cents: 5000, exposure_cents: 5000 }])
+})
@@ -0,0 +1,260 @@
+/**
+ * Portfolio risk
+ *
+ * auto-bet sizes each order on its own edge; this sizes it against what is
+ * already at risk. Exposure is the cost of open positions: filled Kalshi
+ * contracts with their fees, the collateral of resting Kalshi orders and Omen
+ * positions at cost. It is grouped by sport, by ET slate date, by team and by
+ * correlation group (sport, date and direction, so several NBA unders on one
+ * night share a group, and an Omen over on a game stacks with a Kalshi over
+ * on the same slate). A new order is cut to the smallest headroom across its
+ * groups and rejected when that leaves less than one contract, with every
+ * group that ran out of room as a reason. Once the drawdown from the peak of
+ * the venue's cumulative daily_pnl reaches max_drawdown_cents, everything is
+ * rejected. Limits live on betting_config; a null limit is no limit.
+ */
+import { FINAL_EXCHANGE_STATUSES } from './kalshiSettlement.ts'
+import { slateDate } from './providers.ts'
+
+export type RiskReason = 'sport_limit' | 'date_limit' | 'team_limit' | 'correlation_limit' | 'drawdown_breaker'
+
+export const RISK_REASONS: RiskReason[] = ['sport_limit', 'date_limit', 'team_limit', 'correlation_limit', 'drawdown_breaker']
+
+export const RISK_REASON_LABELS: Record<RiskReason, string> = {
+  sport_limit: 'Sport exposure limit',
+  date_limit: 'Slate date exposure limit',
+  team_limit: 'Team exposure limit',
+  correlation_limit: 'Correlated exposure limit',
+  drawdown_breaker: 'Max drawdown breaker',
+}
+
+export type ExposureDirection = 'over' | 'under'
+
+/** Money at risk on one open position or order */
+export interface Exposure {
+  source: 'kalshi' | 'omen'
+  id: string
+  game_id: string
+  sport_id: string
+  /** ET slate date of the game */
+  date: string
+  team_ids: string[]
+  direction: ExposureDirection | null
+  cost_cents: number
+}
+
+/** The games columns exposure is grouped by */
+export interface ExposureGame {
+  id: string
+  sport_id: string
+  start_time_utc: string
+  home_team_id: string
+  away_team_id: string
+}
+
+export interface RiskLimits {
+  /** sport_id -> cents; sports not listed are unlimited */
+  sport: Record<string, number>
+  date: number | null
+  team: number | null
+  correlation: number | null
+  drawdown: number | null
+}
+
+/** The betting_config columns holding the limits */
+export interface RiskConfig {
+  sport_exposure_limits?: Record<string, unknown> | null
+  max_date_exposure_cents?: number | null
+  max_team_exposure_cents?: number | null
+  max_correlated_exposure_cents?: number | null
+  max_drawdown_cents?: number | null
+}
+
+const limit = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : null
+
+export function resolveRiskLimits(config: RiskConfig | null | undefined): RiskLimits {
+  const sport: Record<string, number> = {}
+  for (const [sportId, value] of Object.entries(config?.sport_exposure_limits ?? {})) {
+    const cents = limit(value)
+    if (cents !== null) sport[sportId] = cents
+  }
+  return {
+    sport,
+    date: limit(config?.max_date_exposure_cents),
+    team: limit(config?.max_team_exposure_cents),
+    correlation: limit(config?.max_correlated_exposure_cents),
+    drawdown: limit(config?.max_drawdown_cents),
+  }
+}
+
+/** Correlation group key (nba:2025-10-21:under); null without a direction */
+export function correlationGroup(exposure: Pick<Exposure, 'sport_id' | 'date' | 'direction'>): string | null {
+  return exposure.direction ? `${exposure.sport_id}:${exposure.date}:${exposure.direction}` : null
+}
+
+// ============================================================
+// EXPOSURE
+// ============================================================
+
+/** The kalshi_orders columns exposure reads */
+export interface OpenKalshiOrder {
+  id: string
+  game_id: string | null
+  signal_type: string | null
+  count: number
+  price: number | null
+  /** Ceiling a repriced order may be amended up to */
+  max_price: number | null
+  filled_count: number | null
+  fill_price: number | null
+  fees_cents: number | null
+  status: string | null
+  kalshi_status: string | null
+  result: string | null
+}
+
+/**
+ * Filled cost and fees, plus the collateral of any contracts still resting,
+ * at the max price for an order that may be repriced up to it. Settled
+ * orders are no longer at risk.
+ */
+export function kalshiOrderCost(order: OpenKalshiOrder): number {
+  if (order.result) return 0
+  const filled = order.filled_count ?? 0
+  const price = order.price ?? 0
+  const filledCost = filled * (order.fill_price ?? price) + (order.fees_cents ?? 0)
+  const stillResting = !(order.kalshi_status && FINAL_EXCHANGE_STATUSES.has(order.kalshi_status)) &&
+    (order.status === null || order.status === 'pending' || order.status === 'partial')
+  return filledCost + (stillResting ? Math.max(0, order.count - filled) * (order.max_price ?? price) : 0)
+}
+
+function gameExposure(game: ExposureGame) {
+  return {
+    game_id: game.id,
+    sport_id: game.sport_id,
+    date: slateDate(game.start_time_utc),
+    team_ids: [game.home_team_id, game.away_team_id],
+  }
+}
+
+function signalDirection(signal: string | null | undefined): ExposureDirection | null {
+  const value = signal?.toLowerCase()
+  return value === 'over' || value === 'under' ? value : null
+}
+
+export function kalshiExposure(order: OpenKalshiOrder, game: ExposureGame): Exposure | null {
+  const cost = kalshiOrderCost(order)
+  if (cost <= 0) return null
+  return { source: 'kalshi', id: order.id, ...gameExposure(game), direction: signalDirection(order.signal_type), cost_cents: cost }
+}
+
+/**
+ * An Omen position at cost (xDAI, taken as dollars). Our Omen markets ask
+ * whether the total goes over the DK line, so YES is the over.
+ */
+export function omenExposure(
+  position: { id: string; outcome: string; total_cost: number | null },
+  game: ExposureGame
+): Exposure | null {
+  const cost = Math.round((position.total_cost ?? 0) * 100)
+  if (cost <= 0) return null
+  return {
+    source: 'omen',
+    id: position.id,
+    ...gameExposure(game),
+    direction: position.outcome === 'yes' ? 'over' : position.outcome === 'no' ? 'under' : null,
+    cost_cents: cost,
+  }
+}
+
+/** Exposure a new order on `game` would add */
+export function candidateExposure(game: ExposureGame, signal: string, costCents: number): Exposure {
+  return { source: 'kalshi', id: 'candidate', ...gameExposure(game), direction: signalDirection(signal), cost_cents: costCents }
+}
+
+/** How far cumulative net P&L is below its running peak (starting from zero) */
+export function drawdownCents(days: Array<{ date_local: string; net_pnl_cents: number | null }>): number {
+  let cumulative = 0
+  let peak = 0
+  for (const day of [...days].sort((a, b) => a.date_local.localeCompare(b.date_local))) {
+    cumulative += day.net_pnl_cents ?? 0
+    peak = Math.max(peak, cumulative)
+  }
+  return peak - cumulative
+}
+
+// ============================================================
+// CHECKS
+// ============================================================
+
+/** A group the order ran into, for the dashboard and risk_rejections.reasons */
+export interface RiskRejection {
+  reason: RiskReason
+  /** The group: sport id, date, team id, correlation group key, or 'portfolio' */
+  scope: string
+  limit_cents: number
+  /** Already at risk in the group (the drawdown, for the breaker) */
+  exposure_cents: number
+}
+
+export interface RiskCheck {
+  /** What the order may cost; 0 when rejected */
+  allowed_cents: number
+  /** Groups with less headroom than was asked for */
+  limited_by: RiskRejection[]
+  /** Set when less than `minCents` is allowed: the groups with no room for it */
+  rejected: RiskRejection[] | null
+}
+
+/**
+ * Room for `candidate` (cost_cents is the stake wanted) next to the open
+ * exposures. `minCents` is the smallest order worth placing, i.e. one
+ * contract at the limit price.
+ */
+export function checkRisk(
+  candidate: Exposure,
+  exposures: Exposure[],
+  limits: RiskLimits,
+  drawdown: number,
+  minCents = 1
+): RiskCheck {
+  if (limits.drawdown !== null && drawdown >= limits.drawdown) {
+    const breaker: RiskRejection = { reason: 'drawdown_breaker', scope: 'portfolio', limit_cents: limits.drawdown, exposure_cents: drawdown }
+    return { allowed_cents: 0, limited_by: [breaker], rejected: [breaker] }
+  }
+
+  const sum = (match: (e: Exposure) => boolean) => exposures.filter(match).reduce((total, e) => total + e.cost_cents, 0)
+  const groups: Array<{ reason: RiskReason; scope: string; limit: number | null; exposure: () => number }> = [
+    { reason: 'sport_limit', scope: candidate.sport_id, limit: limits.sport[candidate.sport_id] ?? null, exposure: () => sum(e => e.sport_id === candidate.sport_id) },
+    { reason: 'date_limit', scope: candidate.date, limit: limits.date, exposure: () => sum(e => e.date === candidate.date) },
+    ...candidate.team_ids.map(team => ({
+      reason: 'team_limit' as const,
+      scope: team,
+      limit: limits.team,
+      exposure: () => sum(e => e.team_ids.includes(team)),
+    })),
+  ]
+  const group = correlationGroup(candidate)
+  if (group) {
+    groups.push({ reason: 'correlation_limit', scope: group, limit: limits.correlation, exposure: () => sum(e => correlationGroup(e) === group) })
+  }
+
+  let allowed = candidate.cost_cents
+  const limitedBy: Array<RiskRejection & { headroom: number }> = []
+  for (const g of groups) {
+    if (g.limit === null) continue
+    const exposure = g.exposure()
+    const headroom = Math.max(0, g.limit - exposure)
+    if (headroom < candidate.cost_cents) {
+      limitedBy.push({ reason: g.reason, scope: g.scope, limit_cents: g.limit, exposure_cents: exposure, headroom })
+    }
+    allowed = Math.min(allowed, headroom)
+  }
+
+  const strip = ({ headroom: _headroom, ...rejection }: RiskRejection & { headroom: number }): RiskRejection => rejection
+  if (allowed < minCents) {
+    return { allowed_cents: 0, limited_by: limitedBy.map(strip), rejected: limitedBy.filter(l => l.headroom < minCents).map(strip) }
+  }
+  return { allowed_cents: allowed, limited_by: limitedBy.map(strip), rejected: null }
+}
@@ -0,0 +1,80 @@
+// Fixtures for the provider payload parsers.
+// Run with: deno test supabase/functions/_shared
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import {
+  bdlOddsSnapshot,
+  bdlSeasonOn,
+  parseBdlGame,
+  parseBdlInjury,
+  parseEspnScoreboard,
+  parseSportsDataIoGames,
+  preferredBdlOdds,
+  type BDLGame,
+  type BDLOdds,
+} from './providerParsers.ts'
+
+const LAKERS = { id: 14, abbreviation: 'LAL', full_name: 'Los Angeles Lakers', name: 'Lakers' }
+const CELTICS = { id: 2, abbreviation: 'BOS', full_name: 'Boston Celtics', name: 'Celtics' }
+
+function odds(vendor: string, total: string): BDLOdds {
+  return { id: 1, game_id: 900, vendor, total_value: total, total_over_odds: -110, total_under_odds: -110, updated_at: '' }
+}
+
+Deno.test('sportsdataio scores come from the field each sport uses', () => {
+  const [mlb] = parseSportsDataIoGames('mlb', [
+    { GameID: 71, DateTime: '2025-07-04T19:05:00', HomeTeam: 'NYY', AwayTeam: 'BOS', HomeTeamID: 10, AwayTeamID: 2, Status: 'Final', HomeTeamRuns: 5, AwayTeamRuns: 3 },
+  ])
+  assertEquals([mlb.provider_game_key, mlb.home_team_key, mlb.home_score, mlb.away_score, mlb.status], ['71', '10', 5, 3, 'final'])
+
+  const [nfl] = parseSportsDataIoGames('nfl', [
+    { GameKey: '202510701', Date: '2025-10-19T13:00:00', HomeTeam: 'KC', AwayTeam: 'LV', Status: 'InProgress', HomeScore: 14, AwayScore: 7 },
+  ])
+  assertEquals([nfl.provider_game_key, nfl.start_time_utc, nfl.home_team_key, nfl.status], ['202510701', '2025-10-19T13:00:00', 'KC', 'live'])
+  assertEquals(parseSportsDataIoGames('nba', { Message: 'quota' }), [])
+})
+
+Deno.test('bdl games only carry scores once final', () => {
+  const game: BDLGame = {
+    id: 900, date: '2025-01-15', season: 2024, status: 'Final', postseason: false,
+    home_team: LAKERS, visitor_team: CELTICS, home_team_score: 112, visitor_team_score: 108,
+  }
+  const final = parseBdlGame('nba', game)!
+  assertEquals([final.provider_game_key, final.home_score, final.status, final.season_year], ['bdl-nba-900', 112, 'final', 2024])
+
+  const live = parseBdlGame('nba', { ...game, status: '3rd Qtr' })!
+  assertEquals([live.home_score, live.status], [null, 'live'])
+  assertEquals(parseBdlGame('nba', { ...game, visitor_team: { ...CELTICS, abbreviation: '' } }), null)
+})
+
+Deno.test('bdl odds prefer DraftKings and skip lines without a total', () => {
+  const picked = preferredBdlOdds([odds('fanduel', '221.5'), odds('DraftKings', '222.5'), odds('caesars', '223')])
+  assertEquals(picked.get(900)?.vendor, 'DraftKings')
+  assertEquals(bdlOddsSnapshot(odds('draftkings', '222.5'))?.total_line, 222.5)
+  assertEquals(bdlOddsSnapshot(odds('draftkings', '')), null)
+})
+
+Deno.test('bdl injuries without dates count from the fetch day', () => {
+  const row = parseBdlInjury('nba', {
+    id: 1, player_id: 237, first_name: 'LeBron', last_name: 'James', position: 'F',
+    team: { id: 14, abbreviation: 'LAL' }, status: 'Day-To-Day',
+  }, '2025-01-15', 2024)
+  assertEquals([row.player_external_id, row.team_abbrev, row.report_date, row.game_date], ['bdl-nba-237', 'LAL', '2025-01-15', '2025-01-15'])
+  assertEquals(bdlSeasonOn('nba', new Date(2025, 0, 15)), 2024)
+  assertEquals(bdlSeasonOn('nfl', new Date(2025, 8, 7)), 2025)
+})
+
+Deno.test('espn scoreboard keeps completed games with registry keys', () => {
+  const team = (abbreviation: string, score: string, homeAway: 'home' | 'away') =>
+    ({ team: { abbreviation, displayName: abbreviation }, score, homeAway })
+  const games = parseEspnScoreboard('nba', {
+    events: [
+      { id: '401', date: '2025-04-20T17:00Z', status: { type: { completed: true } }, season: { year: 2025, type: 3 },
+        competitions: [{ competitors: [team('GS', '110', 'home'), team('NO', '99', 'away')] }] },
+      { id: '402', date: '2025-04-20T20:00Z', status: { type: { completed: false } },
+        competitions: [{ competitors: [team('LAL', '0', 'home'), team('BOS', '0', 'away')] }] },
+    ],
+  }, 2024)
+  assertEquals(games.map(g => [g.provider_game_key, g.home_team_abbrev, g.away_team_abbrev, g.is_playoff, g.season_year]), [
+    ['espn-nba-401', 'GSW', 'NOP', true, 2025],
+  ])
+})
@@ -0,0 +1,335 @@
+/**
+ * Provider payload parsers
+ *
+ * The ingestors and `reprocess` read provider JSON through these functions,
+ * so a parsing fix applies to payloads archived in provider_raw as well as
+ * to new fetches. Each parser turns one payload into rows shaped for games,
+ * odds_snapshots or player_injuries. Looking up team and game ids is left to
+ * the caller.
+ */
+import { teamKey } from './teamRegistry.ts'
+
+export type GameStatus = 'scheduled' | 'live' | 'final' | 'postponed' | 'canceled'
+
+/** One game as a provider reports it, keyed by games.provider_game_key */
+export interface ParsedGame {
+  provider_game_key: string
+  start_time_utc: string
+  /** Provider's own team key (an id where it has one, else the abbreviation) */
+  home_team_key: string
+  away_team_key: string
+  home_team_name: string
+  away_team_name: string
+  home_team_abbrev: string
+  away_team_abbrev: string
+  home_team_city?: string
+  away_team_city?: string
+  home_score: number | null
+  away_score: number | null
+  status: GameStatus
+  season_year?: number
+  is_playoff?: boolean
+  week_round?: number | null
+  /** Provider's game object, archived when a team can't be resolved */
+  raw: unknown
+}
+
+/** A completed game: scores, season and playoff flag are all known */
+export interface FinalGame extends ParsedGame {
+  home_score: number
+  away_score: number
+  season_year: number
+  is_playoff: boolean
+}
+
+// ============================================================
+// SPORTSDATA.IO
+// ============================================================
+
+interface SportsDataIoGame {
+  GameID?: number
+  GameKey?: string
+  ScoreID?: number
+  DateTimeUTC?: string
+  DateTime?: string
+  Day?: string
+  Date?: string
+  HomeTeamID?: number
+  AwayTeamID?: number
+  HomeTeam: string
+  AwayTeam: string
+  Status: string
+  HomeTeamScore?: number | null
+  AwayTeamScore?: number | null
+  HomeTeamRuns?: number | null
+  AwayTeamRuns?: number | null
+  HomeScore?: number | null
+  AwayScore?: number | null
+}
+
+export function sportsDataIoStatus(status: string): GameStatus {
+  const normalized = (status || '').toLowerCase()
+  if (normalized === 'final' || normalized.includes('final')) return 'final'
+  if (normalized === 'inprogress' || normalized.includes('progress')) return 'live'
+  if (normalized === 'postponed') return 'postponed'
+  if (normalized === 'canceled' || normalized === 'cancelled') return 'canceled'
+  return 'scheduled'
+}
+
+// MLB reports runs, the NFL feed is keyed by week and names its fields differently
+function sportsDataIoScores(sport: string, game: SportsDataIoGame): [number | null, number | null] {
+  if (sport === 'mlb') return [game.HomeTeamRuns ?? null, game.AwayTeamRuns ?? null]
+  if (sport === 'nfl') return [game.HomeScore ?? null, game.AwayScore ?? null]
+  return [game.HomeTeamScore ?? null, game.AwayTeamScore ?? null]
+}
+
+/** GamesByDate / ScoresByWeek payload */
+export function parseSportsDataIoGames(sport: string, payload: unknown): ParsedGame[] {
+  if (!Array.isArray(payload)) return []
+
+  return (payload as SportsDataIoGame[]).map(game => {
+    const [homeScore, awayScore] = sportsDataIoScores(sport, game)
+    return {
+      provider_game_key: sport === 'nfl' ? String(game.GameKey || game.ScoreID) : String(game.GameID),
+      start_time_utc: game.DateTimeUTC || game.DateTime || (sport === 'nfl' ? game.Date : game.Day) || '',
+      home_team_key: game.HomeTeamID ? String(game.HomeTeamID) : game.HomeTeam,
+      away_team_key: game.AwayTeamID ? String(game.AwayTeamID) : game.AwayTeam,
+      home_team_name: game.HomeTeam,
+      away_team_name: game.AwayTeam,
+      home_team_abbrev: game.HomeTeam,
+      away_team_abbrev: game.AwayTeam,
+      home_score: homeScore,
+      away_score: awayScore,
+      status: sportsDataIoStatus(game.Status),
+      raw: game,
+    }
+  })
+}
+
+// ============================================================
+// BALLDONTLIE
+// ============================================================
+
+export interface BDLTeam {
+  id: number
+  abbreviation: string
+  full_name: string
+  name: string
+}
+
+export interface BDLGame {
+  id: number
+  date: string
+  datetime?: string
+  season: number
+  status: string
+  postseason: boolean
+  home_team: BDLTeam
+  visitor_team: BDLTeam
+  home_team_score: number | null
+  visitor_team_score: number | null
+  week?: number
+}
+
+export interface BDLOdds {
+  id: number
+  game_id: number
+  vendor: string
+  total_value: string
+  total_over_odds: number
+  total_under_odds: number
+  spread_value?: string
+  spread_home_odds?: number
+  spread_away_odds?: number
+  moneyline_home?: number
+  moneyline_away?: number
+  updated_at: string
+}
+
+export interface BDLInjury {
+  id: number
+  player_id: number
+  first_name: string
+  last_name: string
+  position: string
+  team: { id: number; abbreviation: string }
+  status: string
+  injury_type?: string
+  description?: string
+  report_date?: string
+  game_date?: string
+}
+
+/** BallDontLie season a date falls in: NFL seasons turn over in March, the rest in October */
+export function bdlSeasonOn(sport: string, date: Date): number {
+  const month = date.getMonth() + 1
+  const year = date.getFullYear()
+  if (sport === 'nfl') return month >= 3 ? year : year - 1
+  return month >= 10 ? year : year - 1
+}
+
+export function bdlGameKey(sport: string, bdlGameId: number): string {
+  return `bdl-${sport}-${bdlGameId}`
+}
+
+/** One game from `games`; null when either side has no abbreviation */
+export function parseBdlGame(sport: string, game: BDLGame): ParsedGame | null {
+  const homeAbbrev = game.home_team?.abbreviation
+  const awayAbbrev = game.visitor_team?.abbreviation
+  if (!homeAbbrev || !awayAbbrev) return null
+
+  const isFinal = game.status === 'Final' || game.status?.includes('Final')
+  return {
+    provider_game_key: bdlGameKey(sport, game.id),
+    start_time_utc: game.datetime || game.date,
+    home_team_key: homeAbbrev,
+    away_team_key: awayAbbrev,
+    home_team_name: game.home_team.full_name,
+    away_team_name: game.visitor_team.full_name,
+    home_team_abbrev: homeAbbrev,
+    away_team_abbrev: awayAbbrev,
+    home_score: isFinal ? game.home_team_score : null,
+    away_score: isFinal ? game.visitor_team_score : null,
+    status: isFinal ? 'final' : game.status?.toLowerCase() === 'scheduled' ? 'scheduled' : 'live',
+    season_year: game.season,
+    is_playoff: game.postseason || false,
+    week_round: game.week || null,
+    raw: game,
+  }
+}
+
+/** One line per BDL game id, DraftKings when it has one */
+export function preferredBdlOdds(odds: BDLOdds[]): Map<number, BDLOdds> {
+  const byGame = new Map<number, BDLOdds>()
+  for (const odd of odds) {
+    const existing = byGame.get(odd.game_id)
+    if (!existing || odd.vendor?.toLowerCase().includes('draft')) {
+      byGame.set(odd.game_id, odd)
+    }
+  }
+  return byGame
+}
+
+export interface OddsSnapshotRow {
+  bookmaker: string
+  market: string
+  total_line: number
+  raw_payload: Record<string, unknown>
+}
+
+/** odds_snapshots row for a BDL line; null when it has no total */
+export function bdlOddsSnapshot(odd: BDLOdds): OddsSnapshotRow | null {
+  const totalLine = parseFloat(odd.total_value)
+  if (isNaN(totalLine)) return null
+  return {
+    bookmaker: odd.vendor || 'draftkings',
+    market: 'totals',
+    total_line: totalLine,
+    raw_payload: {
+      source: 'balldontlie',
+      total_over_odds: odd.total_over_odds,
+      total_under_odds: odd.total_under_odds,
+      spread_value: odd.spread_value,
+      spread_home_odds: odd.spread_home_odds,
+      spread_away_odds: odd.spread_away_odds,
+      moneyline_home: odd.moneyline_home,
+      moneyline_away: odd.moneyline_away,
+    },
+  }
+}
+
+export interface InjuryRow {
+  sport_id: string
+  /** For the caller to resolve to team_id */
+  team_abbrev: string
+  player_external_id: string
+  player_name: string
+  position: string
+  injury_status: string
+  injury_type: string | undefined
+  injury_details: string | undefined
+  report_date: string
+  game_date: string
+  season_year: number
+}
+
+/**
+ * player_injuries row for a BDL report. Reports without dates count as of
+ * `asOf` (YYYY-MM-DD), the day they were fetched.
+ */
+export function parseBdlInjury(sport: string, injury: BDLInjury, asOf: string, season: number): InjuryRow {
+  return {
+    sport_id: sport,
+    team_abbrev: injury.team?.abbreviation || '',
+    player_external_id: `bdl-${sport}-${injury.player_id}`,
+    player_name: `${injury.first_name} ${injury.last_name}`,
+    position: injury.position,
+    injury_status: injury.status || 'Unknown',
+    injury_type: injury.injury_type,
+    injury_details: injury.description,
+    report_date: injury.report_date || asOf,
+    game_date: injury.game_date || asOf,
+    season_year: season,
+  }
+}
+
+// ============================================================
+// ESPN
+// ============================================================
+
+interface ESPNEvent {
+  id: string
+  date: string
+  status: { type: { completed: boolean } }
+  season?: { year: number; type: number } // type 2 = regular, 3 = playoff
+  competitions: Array<{
+    competitors: Array<{
+      team: { abbreviation: string; displayName: string }
+      score: string
+      homeAway: 'home' | 'away'
+    }>
+  }>
+}
+
+/**
+ * Completed games from a `scoreboard` payload, abbreviations normalized to
+ * registry keys. `seasonYear` stands in when an event doesn't name its season.
+ */
+export function parseEspnScoreboard(sport: string, payload: unknown, seasonYear: number): FinalGame[] {
+  const events = (payload as { events?: ESPNEvent[] } | null)?.events ?? []
+  const games: FinalGame[] = []
+
+  for (const event of events) {
+    const competition = event.competitions?.[0]
+    if (!competition || !event.status?.type?.completed) continue
+
+    const homeTeam = competition.competitors.find(c => c.homeAway === 'home')
+    const awayTeam = competition.competitors.find(c => c.homeAway === 'away')
+    if (!homeTeam || !awayTeam) continue
+
+    const homeScore = parseInt(homeTeam.score, 10)
+    const awayScore = parseInt(awayTeam.score, 10)
+    if (isNaN(homeScore) || isNaN(awayScore)) continue
+
+    const homeAbbrev = teamKey(sport, homeTeam.team.abbreviation) ?? homeTeam.team.abbreviation
+    const awayAbbrev = teamKey(sport, awayTeam.team.abbreviation) ?? awayTeam.team.abbreviation
+    games.push({
+      provider_game_key: `espn-${sport}-${event.id}`,
+      start_time_utc: event.date,
+      home_team_key: homeAbbrev,
+      away_team_key: awayAbbrev,
+      home_team_name: homeTeam.team.displayName,
+      away_team_name: awayTeam.team.displayName,
+      home_team_abbrev: homeAbbrev,
+      away_team_abbrev: awayAbbrev,
+      home_score: homeScore,
+      away_score: awayScore,
+      status: 'final',
+      season_year: event.season?.year || seasonYear,
+      is_playoff: event.season?.type === 3,
+      raw: event,
+    })
+  }
+
+  return games
+}
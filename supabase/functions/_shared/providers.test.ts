@@ -0,0 +1,161 @@
+// Fixtures for the provider layer: request building, retries and replay.
+// Run with: deno test supabase/functions/_shared
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import {
+  archivingTransport,
+  ballDontLieProvider,
+  buildHttpRequest,
+  espnProvider,
+  hashParams,
+  httpTransport,
+  memoryFixtures,
+  rateLimitedTransport,
+  replayTransport,
+  requestCoverage,
+  sportsDataIoDate,
+  sportsDataIoProvider,
+  theOddsApiProvider,
+  type ProviderRawRecord,
+  type ProviderRequest,
+  type ProviderTransport,
+} from './providers.ts'
+
+// Records each request and answers with an empty payload
+function capture(): { transport: ProviderTransport; requests: ProviderRequest[] } {
+  const requests: ProviderRequest[] = []
+  return {
+    requests,
+    transport: {
+      mode: 'live',
+      send: <T>(request: ProviderRequest) => {
+        requests.push(request)
+        return Promise.resolve({ ok: true, status: 200, payload: {} as T, fetched_at: '', source: 'live' as const, request })
+      },
+    },
+  }
+}
+
+function urlOf(request: ProviderRequest): string | undefined {
+  return buildHttpRequest(request, { balldontlie: 'bdl-key', the_odds_api: 'odds-key', sportsdataio: 'sdio-key' })?.url
+}
+
+Deno.test('params hash matches the scheme archived scoreboards use', () => {
+  // What backfill-all stored for the 2024-01-15 scoreboard
+  assertEquals(hashParams({ dates: '20240115' }), '73b9773d')
+  assertEquals(hashParams({ dates: '20240115', cursor: undefined }), '73b9773d')
+  assertEquals(hashParams({ b: 1, a: 2 }), hashParams({ a: 2, b: 1 }))
+  assertEquals(hashParams({ dates: ['2025-01-01', '2025-01-02'] }) === hashParams({ dates: ['2025-01-01'] }), false)
+  assertEquals(hashParams({}), '0')
+})
+
+Deno.test('each provider phrases requests the way its API expects', async () => {
+  const { transport, requests } = capture()
+  await espnProvider(transport).scores({ sport: 'nba', date: '2025-01-15' })
+  await espnProvider(transport).schedule({ sport: 'nhl', teamId: '12', season: 2024 })
+  await ballDontLieProvider(transport).schedule({ sport: 'nfl', dates: ['2025-01-05'], cursor: 42 })
+  await ballDontLieProvider(transport).injuries({ sport: 'nba' })
+  await theOddsApiProvider(transport).odds({ sport: 'nhl', markets: ['totals', 'alternate_totals'], bookmakers: ['draftkings'] })
+  await sportsDataIoProvider(transport).scores({ sport: 'nfl', season: '2025REG', week: 7 })
+  await sportsDataIoProvider(transport).scores({ sport: 'mlb', date: '2025-07-04' })
+
+  assertEquals(requests.map(urlOf), [
+    'https://site.api.espn.com/apis/site/v2/sports/basketball/nba/scoreboard?dates=20250115',
+    'https://site.api.espn.com/apis/site/v2/sports/hockey/nhl/teams/12/schedule?season=2024',
+    'https://api.balldontlie.io/nfl/v1/games?cursor=42&dates[]=2025-01-05&per_page=100',
+    'https://api.balldontlie.io/v1/player_injuries?per_page=250',
+    'https://api.the-odds-api.com/v4/sports/icehockey_nhl/odds?apiKey=odds-key&bookmakers=draftkings&markets=totals%2Calternate_totals&regions=us',
+    'https://api.sportsdata.io/v3/nfl/scores/json/ScoresByWeek/2025REG/7',
+    'https://api.sportsdata.io/v3/mlb/scores/json/GamesByDate/2025-JUL-04',
+  ])
+  assertEquals(sportsDataIoDate('2024-12-25'), '2024-DEC-25')
+  assertEquals(buildHttpRequest({ provider: 'espn', sport: 'cfl', path: 'teams', params: {} }), null)
+})
+
+Deno.test('unsupported capabilities answer 501', async () => {
+  const { transport, requests } = capture()
+  const response = await espnProvider(transport).odds({ sport: 'nba' })
+  assertEquals([response.ok, response.status, requests.length], [false, 501, 0])
+})
+
+Deno.test('http transport retries rate limits and gives up on client errors', async () => {
+  const statuses = [429, 503, 200]
+  const delays: number[] = []
+  const calls: string[] = []
+  const transport = httpTransport({
+    credentials: { balldontlie: 'bdl-key' },
+    fetch: (input: string | URL | Request, init?: RequestInit) => {
+      calls.push(`${input} ${(init?.headers as Record<string, string>).Authorization}`)
+      const status = statuses.shift() ?? 400
+      return Promise.resolve(new Response(status === 200 ? '{"data":[1]}' : 'nope', { status }))
+    },
+    sleep: ms => {
+      delays.push(ms)
+      return Promise.resolve()
+    },
+  })
+
+  const ok = await ballDontLieProvider(transport).standings({ sport: 'nba', season: 2025 })
+  assertEquals([ok.ok, ok.payload, ok.source], [true, { data: [1] }, 'live'])
+  assertEquals(delays, [200, 400])
+  assertEquals(calls[0], 'https://api.balldontlie.io/v1/standings?season=2025 bdl-key')
+
+  const bad = await ballDontLieProvider(transport).standings({ sport: 'nba', season: 2025 })
+  assertEquals([bad.ok, bad.status, bad.error, calls.length], [false, 400, 'nope', 4])
+})
+
+Deno.test('replay serves recorded payloads keyed like provider_raw', async () => {
+  const transport = replayTransport(memoryFixtures([
+    { provider: 'espn', endpoint: 'nba/scoreboard', params: { dates: '20250115' }, payload: { events: [] }, fetched_at: '2025-01-16T05:00:00Z' },
+  ]))
+  const espn = espnProvider(transport)
+
+  const hit = await espn.scores({ sport: 'nba', date: '2025-01-15' })
+  assertEquals([hit.ok, hit.payload, hit.fetched_at, hit.source], [true, { events: [] }, '2025-01-16T05:00:00Z', 'replay'])
+
+  const miss = await espn.scores({ sport: 'nba', date: '2025-01-16' })
+  assertEquals([miss.ok, miss.status, miss.payload], [false, 404, null])
+})
+
+Deno.test('live payloads are archived with the dates they cover', async () => {
+  const stored: ProviderRawRecord[] = []
+  const { transport } = capture()
+  const archived = archivingTransport(transport, { store: record => Promise.resolve(void stored.push(record)) })
+  await ballDontLieProvider(archived).schedule({ sport: 'nba', dates: ['2025-01-16', '2025-01-15'] })
+  assertEquals(stored.map(r => [r.endpoint, r.params_json, r.date_from, r.date_to]), [
+    ['nba/games', { dates: ['2025-01-16', '2025-01-15'], per_page: 100 }, '2025-01-15', '2025-01-16'],
+  ])
+
+  const failing = archivingTransport(transport, { store: () => Promise.reject(new Error('down')) })
+  assertEquals((await espnProvider(failing).scores({ sport: 'nba', date: '2025-01-15' })).ok, true)
+
+  const at = '2025-01-15T04:30:00Z'
+  const coverage = (provider: ProviderRequest['provider'], path: string, params = {}) =>
+    requestCoverage({ provider, sport: 'nfl', path, params }, at)
+  assertEquals(coverage('espn', 'scoreboard', { dates: '20250112' }), { season_year: null, date_from: '2025-01-12', date_to: '2025-01-12' })
+  assertEquals(coverage('sportsdataio', 'scores/json/GamesByDate/2025-JAN-12'), { season_year: null, date_from: '2025-01-12', date_to: '2025-01-12' })
+  assertEquals(coverage('sportsdataio', 'scores/json/Games/2024'), { season_year: 2024, date_from: null, date_to: null })
+  assertEquals(coverage('sportsdataio', 'scores/json/ScoresByWeek/2024POST/2'), { season_year: 2024, date_from: '2025-01-14', date_to: '2025-01-14' })
+  assertEquals(coverage('balldontlie', 'odds', { season: 2024, week: 19 }), { season_year: 2024, date_from: '2025-01-14', date_to: '2025-01-14' })
+})
+
+Deno.test('rate limit spaces live requests per provider', async () => {
+  let clock = 1000
+  const waits: number[] = []
+  const { transport, requests } = capture()
+  const limited = rateLimitedTransport(transport, {
+    intervals: { balldontlie: 100, espn: 50 },
+    now: () => clock,
+    sleep: ms => {
+      waits.push(ms)
+      clock += ms
+      return Promise.resolve()
+    },
+  })
+  const bdl = ballDontLieProvider(limited)
+  await bdl.injuries({ sport: 'nba' })
+  await bdl.injuries({ sport: 'nba' })
+  await espnProvider(limited).scores({ sport: 'nba', date: '2025-01-15' })
+  clock += 500
+  await bdl.injuries({ sport: 'nba' })
+  assertEquals([waits, requests.length], [[100], 4])
+})
@@ -0,0 +1,702 @@
+/**
+ * Data providers
+ *
+ * Every ingestor reaches ESPN, BallDontLie, The Odds API and SportsData.io
+ * through the typed SportsDataProvider interface below instead of calling
+ * fetch itself. Each implementation only knows how to phrase a request; a
+ * transport carries it. The HTTP transport talks to the live API with retries,
+ * and the replay transport serves payloads recorded in `provider_raw` (or
+ * in-memory fixtures in tests), so the pipeline runs without keys or network.
+ * Every live payload is archived to `provider_raw` with its parameters and the
+ * dates it covers, which is what `reprocess` and replay read back.
+ * Responses carry the provider's JSON as is; providerParsers.ts reads it.
+ */
+
+export type ProviderName = 'espn' | 'balldontlie' | 'the_odds_api' | 'sportsdataio'
+
+export type ProviderCapability = 'schedule' | 'scores' | 'odds' | 'rosters' | 'injuries' | 'props'
+
+type ParamValue = string | number | boolean | Array<string | number> | null | undefined
+
+export interface ProviderRequest {
+  provider: ProviderName
+  sport: string
+  /** Path under the provider's per-sport base, e.g. 'scoreboard' or 'teams/12/roster' */
+  path: string
+  /** Query parameters without credentials; arrays go out as key[]=a&key[]=b */
+  params: Record<string, ParamValue>
+}
+
+export interface ProviderResponse<T = unknown> {
+  ok: boolean
+  status: number
+  /** Parsed JSON body; null when the request failed */
+  payload: T | null
+  fetched_at: string
+  source: 'live' | 'replay'
+  request: ProviderRequest
+  error?: string
+}
+
+export interface ScheduleQuery {
+  sport: string
+  date?: string
+  dates?: string[]
+  season?: number | string
+  /** One team's season schedule (ESPN team id) */
+  teamId?: string
+  cursor?: number | string | null
+  perPage?: number
+}
+
+export interface ScoresQuery {
+  sport: string
+  /** YYYY-MM-DD */
+  date?: string
+  dates?: string[]
+  season?: number | string
+  week?: number
+  /** The Odds API: completed games from the last N days */
+  daysFrom?: number
+  cursor?: number | string | null
+  perPage?: number
+}
+
+export interface OddsQuery {
+  sport: string
+  season?: number
+  week?: number | null
+  gameId?: number | string
+  markets?: string[]
+  bookmakers?: string[]
+  regions?: string
+  cursor?: number | string | null
+  perPage?: number
+}
+
+export interface RosterQuery {
+  sport: string
+  /** Omit for the league's team list */
+  teamId?: string
+}
+
+export interface InjuryQuery {
+  sport: string
+  perPage?: number
+}
+
+export interface PropsQuery {
+  sport: string
+  eventId: string
+  markets: string[]
+  bookmakers?: string[]
+  regions?: string
+}
+
+/**
+ * One upstream API. A capability the API doesn't offer answers with a 501
+ * response rather than throwing, so callers handle it like any failed fetch.
+ */
+export interface SportsDataProvider {
+  readonly name: ProviderName
+  schedule(query: ScheduleQuery): Promise<ProviderResponse>
+  scores(query: ScoresQuery): Promise<ProviderResponse>
+  odds(query: OddsQuery): Promise<ProviderResponse>
+  rosters(query: RosterQuery): Promise<ProviderResponse>
+  injuries(query: InjuryQuery): Promise<ProviderResponse>
+  props(query: PropsQuery): Promise<ProviderResponse>
+}
+
+// ============================================================
+// REQUESTS
+// ============================================================
+
+const ESPN_BASE_URL = 'https://site.api.espn.com/apis/site/v2/sports'
+const ODDS_API_BASE_URL = 'https://api.the-odds-api.com/v4'
+const SPORTSDATAIO_BASE_URL = 'https://api.sportsdata.io/v3'
+
+export const ESPN_SPORT_PATHS: Record<string, string> = {
+  nba: 'basketball/nba',
+  nfl: 'football/nfl',
+  nhl: 'hockey/nhl',
+  mlb: 'baseball/mlb',
+}
+
+export const BDL_BASE_URLS: Record<string, string> = {
+  nba: 'https://api.balldontlie.io/v1',
+  nfl: 'https://api.balldontlie.io/nfl/v1',
+  nhl: 'https://api.balldontlie.io/nhl/v1',
+  mlb: 'https://api.balldontlie.io/mlb/v1',
+}
+
+export const ODDS_API_SPORT_KEYS: Record<string, string> = {
+  nba: 'basketball_nba',
+  nfl: 'americanfootball_nfl',
+  nhl: 'icehockey_nhl',
+  mlb: 'baseball_mlb',
+  soccer: 'soccer_usa_mls',
+}
+
+/** BallDontLie list responses: one page of rows and the cursor for the next */
+export interface BdlPage<T> {
+  data?: T[]
+  meta?: { next_cursor?: number | null }
+}
+
+/** ESPN's league team list (`rosters` without a team) */
+export interface EspnTeamList {
+  sports?: Array<{
+    leagues?: Array<{ teams?: Array<{ team?: { id: string; abbreviation: string; displayName: string } }> }>
+  }>
+}
+
+export interface ProviderCredentials {
+  balldontlie?: string
+  the_odds_api?: string
+  sportsdataio?: string
+}
+
+/** provider_raw.endpoint for a request */
+export function requestEndpoint(request: ProviderRequest): string {
+  return `${request.sport}/${request.path}`
+}
+
+function definedParams(params: Record<string, ParamValue>): Array<[string, Exclude<ParamValue, null | undefined>]> {
+  return Object.entries(params)
+    .filter((entry): entry is [string, Exclude<ParamValue, null | undefined>] => entry[1] !== null && entry[1] !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+}
+
+/**
+ * provider_raw.params_hash: the sorted key=value list, string-hashed. Same
+ * scheme backfill-all has always archived ESPN scoreboards with.
+ */
+export function hashParams(params: Record<string, ParamValue>): string {
+  const sorted = definedParams(params)
+    .map(([k, v]) => `${k}=${Array.isArray(v) ? v.join(',') : v}`)
+    .join('&')
+  let hash = 0
+  for (let i = 0; i < sorted.length; i++) {
+    hash = ((hash << 5) - hash) + sorted.charCodeAt(i)
+    hash = hash & hash
+  }
+  return Math.abs(hash).toString(16)
+}
+
+function queryString(params: Record<string, ParamValue>): string {
+  const parts: string[] = []
+  for (const [key, value] of definedParams(params)) {
+    if (Array.isArray(value)) {
+      for (const item of value) parts.push(`${key}[]=${encodeURIComponent(String(item))}`)
+    } else {
+      parts.push(`${key}=${encodeURIComponent(String(value))}`)
+    }
+  }
+  return parts.join('&')
+}
+
+/** Full URL and headers for a live request; null for an unknown sport */
+export function buildHttpRequest(
+  request: ProviderRequest,
+  credentials: ProviderCredentials = {}
+): { url: string; headers: Record<string, string> } | null {
+  const headers: Record<string, string> = { Accept: 'application/json' }
+  const params = { ...request.params }
+  let base: string | undefined
+
+  switch (request.provider) {
+    case 'espn':
+      base = ESPN_SPORT_PATHS[request.sport] && `${ESPN_BASE_URL}/${ESPN_SPORT_PATHS[request.sport]}`
+      break
+    case 'balldontlie':
+      base = BDL_BASE_URLS[request.sport]
+      if (credentials.balldontlie) headers.Authorization = credentials.balldontlie
+      break
+    case 'the_odds_api':
+      base = ODDS_API_BASE_URL
+      params.apiKey = credentials.the_odds_api
+      break
+    case 'sportsdataio':
+      base = `${SPORTSDATAIO_BASE_URL}/${request.sport}`
+      if (credentials.sportsdataio) headers['Ocp-Apim-Subscription-Key'] = credentials.sportsdataio
+      break
+  }
+  if (!base) return null
+
+  const query = queryString(params)
+  return { url: `${base}/${request.path}${query ? `?${query}` : ''}`, headers }
+}
+
+// ============================================================
+// TRANSPORTS
+// ============================================================
+
+export interface ProviderTransport {
+  readonly mode: 'live' | 'replay'
+  send<T = unknown>(request: ProviderRequest): Promise<ProviderResponse<T>>
+}
+
+export interface RetryPolicy {
+  maxRetries: number
+  baseDelay: number
+  maxDelay: number
+}
+
+// BallDontLie's GOAT tier allows 600 req/min, so it backs off from a much shorter delay
+export const RETRY_POLICIES: Record<ProviderName, RetryPolicy> = {
+  espn: { maxRetries: 3, baseDelay: 1000, maxDelay: 8000 },
+  balldontlie: { maxRetries: 5, baseDelay: 200, maxDelay: 10000 },
+  the_odds_api: { maxRetries: 3, baseDelay: 1000, maxDelay: 8000 },
+  sportsdataio: { maxRetries: 3, baseDelay: 1000, maxDelay: 8000 },
+}
+
+function failure<T>(request: ProviderRequest, source: 'live' | 'replay', status: number, error: string): ProviderResponse<T> {
+  return { ok: false, status, payload: null, fetched_at: new Date().toISOString(), source, request, error }
+}
+
+export interface HttpTransportOptions {
+  credentials?: ProviderCredentials
+  fetch?: typeof fetch
+  retryPolicies?: Partial<Record<ProviderName, RetryPolicy>>
+  sleep?: (ms: number) => Promise<void>
+}
+
+/**
+ * Live API calls. 429s, 5xx and network errors are retried with exponential
+ * backoff; any other error status comes straight back as a failed response.
+ */
+export function httpTransport(options: HttpTransportOptions = {}): ProviderTransport {
+  const doFetch = options.fetch ?? fetch
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>(r => setTimeout(r, ms)))
+
+  return {
+    mode: 'live',
+    async send<T>(request: ProviderRequest): Promise<ProviderResponse<T>> {
+      const http = buildHttpRequest(request, options.credentials)
+      if (!http) return failure(request, 'live', 400, `${request.provider} has no ${request.sport} endpoint`)
+
+      const policy = options.retryPolicies?.[request.provider] ?? RETRY_POLICIES[request.provider]
+      let lastError = 'Max retries exceeded'
+      let lastStatus = 0
+
+      for (let attempt = 0; attempt < policy.maxRetries; attempt++) {
+        const delay = Math.min(policy.baseDelay * Math.pow(2, attempt), policy.maxDelay)
+        try {
+          const response = await doFetch(http.url, { headers: http.headers })
+          if (response.ok) {
+            return {
+              ok: true,
+              status: response.status,
+              payload: (await response.json()) as T,
+              fetched_at: new Date().toISOString(),
+              source: 'live',
+              request,
+            }
+          }
+
+          const errorText = await response.text().catch(() => 'Unknown error')
+          if (response.status !== 429 && response.status < 500) {
+            return failure(request, 'live', response.status, errorText)
+          }
+          lastStatus = response.status
+          lastError = errorText
+          console.log(`[PROVIDER] ${request.provider} ${response.status}, retry ${attempt + 1}/${policy.maxRetries} after ${delay}ms`)
+        } catch (error) {
+          lastError = error instanceof Error ? error.message : 'Unknown fetch error'
+          console.log(`[PROVIDER] ${request.provider} network error, retry ${attempt + 1}/${policy.maxRetries} after ${delay}ms: ${lastError}`)
+        }
+        if (attempt + 1 < policy.maxRetries) await sleep(delay)
+      }
+
+      return failure(request, 'live', lastStatus, lastError)
+    },
+  }
+}
+
+// ============================================================
+// RATE LIMITS
+// ============================================================
+
+/** Least time between two requests to a provider (ms) */
+export const RATE_LIMITS: Record<ProviderName, number> = {
+  espn: 100,
+  balldontlie: 100, // 600 requests a minute on the GOAT tier
+  the_odds_api: 250,
+  sportsdataio: 250,
+}
+
+export interface RateLimitOptions {
+  intervals?: Partial<Record<ProviderName, number>>
+  now?: () => number
+  sleep?: (ms: number) => Promise<void>
+}
+
+/**
+ * Spaces live requests to each provider by its RATE_LIMITS interval, on top
+ * of the retries the HTTP transport does when a provider answers 429.
+ * Replayed payloads are served without waiting.
+ */
+export function rateLimitedTransport(transport: ProviderTransport, options: RateLimitOptions = {}): ProviderTransport {
+  const now = options.now ?? Date.now
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>(r => setTimeout(r, ms)))
+  const nextSlot = new Map<ProviderName, number>()
+
+  return {
+    mode: transport.mode,
+    async send<T>(request: ProviderRequest): Promise<ProviderResponse<T>> {
+      if (transport.mode === 'live') {
+        const interval = options.intervals?.[request.provider] ?? RATE_LIMITS[request.provider]
+        const current = now()
+        // Claim the slot before waiting so concurrent sends queue behind each other
+        const slot = Math.max(current, nextSlot.get(request.provider) ?? 0)
+        nextSlot.set(request.provider, slot + interval)
+        if (slot > current) await sleep(slot - current)
+      }
+      return transport.send<T>(request)
+    },
+  }
+}
+
+// ============================================================
+// ARCHIVE
+// ============================================================
+
+/** A provider_raw row */
+export interface ProviderRawRecord {
+  provider: ProviderName
+  endpoint: string
+  params_hash: string
+  params_json: Record<string, ParamValue>
+  sport_id: string
+  season_year: number | null
+  /** Game dates the payload covers (inclusive); null for a whole season */
+  date_from: string | null
+  date_to: string | null
+  payload_json: unknown
+  fetched_at: string
+}
+
+/** YYYY-MM-DD in America/New_York, the day the slate belongs to */
+export function slateDate(at: string | Date): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: 'America/New_York',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date(at))
+}
+
+// YYYY-MM-DD from the date formats the providers take
+function requestDate(value: string): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value
+  if (/^\d{8}$/.test(value)) return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`
+  const sdio = /^(\d{4})-([A-Z]{3})-(\d{2})$/.exec(value)
+  const month = sdio ? SDIO_MONTHS.indexOf(sdio[2]) : -1
+  return sdio && month >= 0 ? `${sdio[1]}-${String(month + 1).padStart(2, '0')}-${sdio[3]}` : null
+}
+
+/**
+ * Season and game dates a request covers. Explicit dates win; a season
+ * without a week is the whole season (no dates); anything else (odds,
+ * injuries, the current week) is a snapshot of the day it was fetched.
+ */
+export function requestCoverage(
+  request: ProviderRequest,
+  fetchedAt: string
+): { season_year: number | null; date_from: string | null; date_to: string | null } {
+  const { params, path } = request
+  const listed = Array.isArray(params.dates) ? params.dates : params.dates != null ? [params.dates] : []
+  const byDate = /GamesByDate\/([^/]+)/.exec(path)?.[1]
+  const dates = [...listed.map(String), ...(byDate ? [byDate] : [])]
+    .map(requestDate)
+    .filter((d): d is string => d !== null)
+    .sort()
+
+  const seasonParam = Array.isArray(params.seasons) ? params.seasons[0] : params.season
+  const seasonPath = /(?:ScoresByWeek|Games)\/(\d{4})/.exec(path)?.[1]
+  const season = parseInt(String(seasonParam ?? seasonPath ?? ''), 10)
+  const season_year = isNaN(season) ? null : season
+  const hasWeek = params.week != null || path.includes('ScoresByWeek/')
+
+  if (dates.length) return { season_year, date_from: dates[0], date_to: dates[dates.length - 1] }
+  if (season_year !== null && !hasWeek) return { season_year, date_from: null, date_to: null }
+  const day = slateDate(fetchedAt)
+  return { season_year, date_from: day, date_to: day }
+}
+
+export function archiveRecord(response: ProviderResponse): ProviderRawRecord {
+  const { request } = response
+  return {
+    provider: request.provider,
+    endpoint: requestEndpoint(request),
+    params_hash: hashParams(request.params),
+    params_json: Object.fromEntries(definedParams(request.params)),
+    sport_id: request.sport,
+    ...requestCoverage(request, response.fetched_at),
+    payload_json: response.payload,
+    fetched_at: response.fetched_at,
+  }
+}
+
+/** Where archived payloads go */
+export interface ArchiveSink {
+  store(record: ProviderRawRecord): Promise<void>
+}
+
+/**
+ * Archives every successful live response before handing it back. A failed
+ * write is logged, never surfaced: losing an archive row must not lose the
+ * fetch.
+ */
+export function archivingTransport(transport: ProviderTransport, sink: ArchiveSink): ProviderTransport {
+  return {
+    mode: transport.mode,
+    async send<T>(request: ProviderRequest): Promise<ProviderResponse<T>> {
+      const response = await transport.send<T>(request)
+      if (response.ok && response.source === 'live') {
+        try {
+          await sink.store(archiveRecord(response))
+        } catch (error) {
+          console.error(`[PROVIDER] Archive failed for ${request.provider} ${requestEndpoint(request)}: ${error instanceof Error ? error.message : error}`)
+        }
+      }
+      return response
+    },
+  }
+}
+
+export interface RecordedPayload {
+  payload: unknown
+  fetched_at: string
+}
+
+/** Where the replay transport looks up recorded payloads */
+export interface FixtureSource {
+  find(request: ProviderRequest): Promise<RecordedPayload | null>
+}
+
+/**
+ * Serves recorded payloads instead of calling out. A request with no
+ * recording gets a 404 response, the same as a provider that has no data.
+ */
+export function replayTransport(source: FixtureSource): ProviderTransport {
+  return {
+    mode: 'replay',
+    async send<T>(request: ProviderRequest): Promise<ProviderResponse<T>> {
+      const recorded = await source.find(request)
+      if (!recorded) {
+        return failure(request, 'replay', 404, `No recorded payload for ${request.provider} ${requestEndpoint(request)} (${hashParams(request.params)})`)
+      }
+      return { ok: true, status: 200, payload: recorded.payload as T, fetched_at: recorded.fetched_at, source: 'replay', request }
+    },
+  }
+}
+
+export interface FixtureRecord {
+  provider: ProviderName
+  endpoint: string
+  params?: Record<string, ParamValue>
+  payload: unknown
+  fetched_at?: string
+}
+
+/** In-memory fixtures keyed the same way provider_raw is */
+export function memoryFixtures(records: FixtureRecord[]): FixtureSource {
+  const byKey = new Map<string, RecordedPayload>()
+  for (const record of records) {
+    byKey.set(`${record.provider}|${record.endpoint}|${hashParams(record.params ?? {})}`, {
+      payload: record.payload,
+      fetched_at: record.fetched_at ?? '2000-01-01T00:00:00.000Z',
+    })
+  }
+  return {
+    find: async request => byKey.get(`${request.provider}|${requestEndpoint(request)}|${hashParams(request.params)}`) ?? null,
+  }
+}
+
+type LatestRawQuery = PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>
+
+interface RawFilter {
+  eq(column: string, value: string): RawFilter
+  order(column: string, options: { ascending: boolean }): { limit(count: number): LatestRawQuery }
+}
+
+/** The slice of a supabase client provider_raw is read and written through */
+export interface ProviderRawClient {
+  from(table: string): {
+    select(columns: string): RawFilter
+    insert(row: ProviderRawRecord): PromiseLike<{ error: { message: string } | null }>
+  }
+}
+
+/** Latest provider_raw row for the request's provider, endpoint and params */
+export function providerRawFixtures(supabase: ProviderRawClient): FixtureSource {
+  return {
+    async find(request) {
+      const { data, error } = await supabase
+        .from('provider_raw')
+        .select('payload_json, fetched_at')
+        .eq('provider', request.provider)
+        .eq('endpoint', requestEndpoint(request))
+        .eq('params_hash', hashParams(request.params))
+        .order('fetched_at', { ascending: false })
+        .limit(1)
+      if (error) {
+        console.error(`[PROVIDER] provider_raw lookup failed: ${error.message}`)
+        return null
+      }
+      const row = data?.[0] as { payload_json: unknown; fetched_at: string } | undefined
+      return row ? { payload: row.payload_json, fetched_at: row.fetched_at } : null
+    },
+  }
+}
+
+export function providerRawArchive(supabase: ProviderRawClient): ArchiveSink {
+  return {
+    async store(record) {
+      const { error } = await supabase.from('provider_raw').insert(record)
+      if (error) throw new Error(error.message)
+    },
+  }
+}
+
+/**
+ * Transport for an edge function: replay from provider_raw when
+ * PROVIDER_MODE is 'replay', otherwise live with the given keys and every
+ * payload archived to provider_raw.
+ */
+export function providerTransport(
+  mode: string | null | undefined,
+  supabase: ProviderRawClient,
+  credentials: ProviderCredentials = {}
+): ProviderTransport {
+  if (mode === 'replay') return replayTransport(providerRawFixtures(supabase))
+  return archivingTransport(httpTransport({ credentials }), providerRawArchive(supabase))
+}
+
+// ============================================================
+// PROVIDERS
+// ============================================================
+
+function unsupported(
+  transport: ProviderTransport,
+  provider: ProviderName,
+  capability: ProviderCapability,
+  sport: string
+): Promise<ProviderResponse> {
+  const request = { provider, sport, path: capability, params: {} }
+  return Promise.resolve(failure(request, transport.mode, 501, `${provider} does not provide ${capability}`))
+}
+
+// ESPN wants YYYYMMDD
+function espnDate(date: string): string {
+  return date.replace(/-/g, '')
+}
+
+// SportsData.io wants YYYY-MMM-DD (e.g. 2024-DEC-25)
+const SDIO_MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+export function sportsDataIoDate(date: string): string {
+  const [year, month, day] = date.split('-')
+  return `${year}-${SDIO_MONTHS[Number(month) - 1]}-${day}`
+}
+
+export function espnProvider(transport: ProviderTransport): SportsDataProvider {
+  const send = (sport: string, path: string, params: Record<string, ParamValue> = {}) =>
+    transport.send({ provider: 'espn', sport, path, params })
+
+  return {
+    name: 'espn',
+    schedule: q => (q.teamId
+      ? send(q.sport, `teams/${q.teamId}/schedule`, { season: q.season })
+      : send(q.sport, 'scoreboard', { dates: q.date ? espnDate(q.date) : undefined })),
+    scores: q => send(q.sport, 'scoreboard', { dates: q.date ? espnDate(q.date) : undefined }),
+    odds: q => unsupported(transport, 'espn', 'odds', q.sport),
+    rosters: q => send(q.sport, q.teamId ? `teams/${q.teamId}/roster` : 'teams'),
+    injuries: q => send(q.sport, 'injuries'),
+    props: q => unsupported(transport, 'espn', 'props', q.sport),
+  }
+}
+
+export interface BallDontLieProvider extends SportsDataProvider {
+  standings(query: { sport: string; season: number }): Promise<ProviderResponse>
+}
+
+export function ballDontLieProvider(transport: ProviderTransport): BallDontLieProvider {
+  const send = (sport: string, path: string, params: Record<string, ParamValue> = {}) =>
+    transport.send({ provider: 'balldontlie', sport, path, params })
+  const games = (q: ScheduleQuery | ScoresQuery) =>
+    send(q.sport, 'games', {
+      dates: q.dates ?? (q.date ? [q.date] : undefined),
+      seasons: q.season !== undefined ? [q.season] : undefined,
+      per_page: q.perPage ?? 100,
+      cursor: q.cursor,
+    })
+
+  return {
+    name: 'balldontlie',
+    schedule: games,
+    scores: games,
+    odds: q => send(q.sport, 'odds', {
+      season: q.season,
+      week: q.week,
+      game_id: q.gameId,
+      per_page: q.gameId ? undefined : q.perPage ?? 100,
+      cursor: q.cursor,
+    }),
+    rosters: q => (q.teamId
+      ? send(q.sport, 'players', { team_ids: [q.teamId], per_page: 100 })
+      : send(q.sport, 'teams')),
+    injuries: q => send(q.sport, 'player_injuries', { per_page: q.perPage ?? 250 }),
+    props: q => unsupported(transport, 'balldontlie', 'props', q.sport),
+    standings: q => send(q.sport, 'standings', { season: q.season }),
+  }
+}
+
+export function theOddsApiProvider(transport: ProviderTransport): SportsDataProvider {
+  const send = (sport: string, path: string, params: Record<string, ParamValue> = {}) => {
+    const key = ODDS_API_SPORT_KEYS[sport]
+    if (!key) return Promise.resolve(failure({ provider: 'the_odds_api', sport, path, params }, transport.mode, 400, `No Odds API key for ${sport}`))
+    return transport.send({ provider: 'the_odds_api', sport, path: `sports/${key}/${path}`, params })
+  }
+
+  return {
+    name: 'the_odds_api',
+    schedule: q => send(q.sport, 'events'),
+    scores: q => send(q.sport, 'scores', { daysFrom: q.daysFrom }),
+    odds: q => send(q.sport, 'odds', {
+      regions: q.regions ?? 'us',
+      markets: q.markets?.join(','),
+      bookmakers: q.bookmakers?.join(','),
+    }),
+    rosters: q => unsupported(transport, 'the_odds_api', 'rosters', q.sport),
+    injuries: q => unsupported(transport, 'the_odds_api', 'injuries', q.sport),
+    props: q => send(q.sport, `events/${q.eventId}/odds`, {
+      regions: q.regions ?? 'us',
+      markets: q.markets.join(','),
+      bookmakers: q.bookmakers?.join(','),
+    }),
+  }
+}
+
+export interface SportsDataIoProvider extends SportsDataProvider {
+  currentWeek(query: { sport: string }): Promise<ProviderResponse<number>>
+}
+
+export function sportsDataIoProvider(transport: ProviderTransport): SportsDataIoProvider {
+  const send = <T = unknown>(sport: string, path: string) =>
+    transport.send<T>({ provider: 'sportsdataio', sport, path, params: {} })
+  const gamesByDateOrWeek = (q: ScoresQuery) => (q.week !== undefined
+    ? send(q.sport, `scores/json/ScoresByWeek/${q.season}/${q.week}`)
+    : send(q.sport, `scores/json/GamesByDate/${sportsDataIoDate(q.date ?? '')}`))
+
+  return {
+    name: 'sportsdataio',
+    schedule: q => (q.date ? gamesByDateOrWeek(q) : send(q.sport, `scores/json/Games/${q.season}`)),
+    scores: gamesByDateOrWeek,
+    odds: q => unsupported(transport, 'sportsdataio', 'odds', q.sport),
+    rosters: q => unsupported(transport, 'sportsdataio', 'rosters', q.sport),
+    injuries: q => unsupported(transport, 'sportsdataio', 'injuries', q.sport),
+    props: q => unsupported(transport, 'sportsdataio', 'props', q.sport),
+    currentWeek: q => send<number>(q.sport, 'scores/json/CurrentWeek'),
+  }
+}
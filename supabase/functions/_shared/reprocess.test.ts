@@ -0,0 +1,48 @@
+// Fixtures for reparsing archived provider payloads.
+// Run with: deno test supabase/functions/_shared
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import { diffRow, parseArchivedPayload } from './reprocess.ts'
+
+Deno.test('archived payloads go to the parser for their endpoint', () => {
+  const games = parseArchivedPayload({
+    provider: 'sportsdataio',
+    endpoint: 'nhl/scores/json/GamesByDate/2025-JAN-15',
+    season_year: null,
+    payload_json: [{ GameID: 5, Day: '2025-01-15T00:00:00', HomeTeam: 'BOS', AwayTeam: 'NYR', Status: 'Final', HomeTeamScore: 4, AwayTeamScore: 2 }],
+    fetched_at: '2025-01-16T04:00:00Z',
+  })
+  assertEquals(games?.table, 'games')
+  assertEquals(games?.rows.length, 1)
+
+  const odds = parseArchivedPayload({
+    provider: 'balldontlie',
+    endpoint: 'nba/odds',
+    season_year: 2024,
+    payload_json: { data: [{ id: 1, game_id: 900, vendor: 'draftkings', total_value: '222.5', total_over_odds: -110, total_under_odds: -110, updated_at: '' }] },
+    fetched_at: '2025-01-15T18:00:00Z',
+  })
+  assertEquals(odds?.table, 'odds_snapshots')
+  assertEquals(odds?.rows.map(r => 'game_key' in r && [r.game_key, r.total_line, r.fetched_at]), [['bdl-nba-900', 222.5, '2025-01-15T18:00:00Z']])
+
+  // Fetched 11pm ET on the 14th: the report belongs to that slate, not the UTC date
+  const injuries = parseArchivedPayload({
+    provider: 'balldontlie',
+    endpoint: 'nba/player_injuries',
+    season_year: null,
+    payload_json: { data: [{ id: 1, player_id: 237, first_name: 'A', last_name: 'B', position: 'F', team: { id: 14, abbreviation: 'LAL' }, status: 'Out' }] },
+    fetched_at: '2025-01-15T04:00:00Z',
+  })
+  assertEquals(injuries?.rows.map(r => 'game_date' in r && r.game_date), ['2025-01-14'])
+
+  assertEquals(parseArchivedPayload({ provider: 'espn', endpoint: 'nba/teams', season_year: null, payload_json: {}, fetched_at: '' }), null)
+  assertEquals(parseArchivedPayload({ provider: 'balldontlie', endpoint: 'nba/standings', season_year: 2024, payload_json: {}, fetched_at: '' }), null)
+})
+
+Deno.test('diff ignores representation and fields the parser leaves out', () => {
+  const stored = { start_time_utc: '2025-01-15T00:00:00+00:00', total_line: '222.5', home_score: null, status: 'scheduled', week_round: 3 }
+  assertEquals(diffRow(stored, { start_time_utc: '2025-01-15T00:00:00.000Z', total_line: 222.5 }, ['start_time_utc', 'total_line', 'week_round']), {})
+  assertEquals(diffRow(stored, { home_score: 101, status: 'final' }, ['home_score', 'status']), {
+    home_score: { before: null, after: 101 },
+    status: { before: 'scheduled', after: 'final' },
+  })
+})
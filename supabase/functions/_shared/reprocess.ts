@@ -0,0 +1,133 @@
+/**
+ * Reprocessing archived payloads
+ *
+ * `reprocess` runs provider_raw rows back through the current parsers, so a
+ * parsing fix can be applied to history without fetching it again. This
+ * module decides which parser reads a row, based on its provider and
+ * endpoint, and compares the reparsed rows with the stored ones.
+ */
+import {
+  bdlGameKey,
+  bdlOddsSnapshot,
+  bdlSeasonOn,
+  parseBdlGame,
+  parseBdlInjury,
+  parseEspnScoreboard,
+  parseSportsDataIoGames,
+  preferredBdlOdds,
+  type BDLGame,
+  type BDLInjury,
+  type BDLOdds,
+  type InjuryRow,
+  type OddsSnapshotRow,
+  type ParsedGame,
+} from './providerParsers.ts'
+import { slateDate, type BdlPage, type ProviderName } from './providers.ts'
+
+export type ReprocessTable = 'games' | 'odds_snapshots' | 'player_injuries'
+
+/** The provider_raw columns reparsing needs */
+export interface ArchivedPayload {
+  provider: ProviderName
+  /** `${sport}/${path}`, as requestEndpoint writes it */
+  endpoint: string
+  season_year: number | null
+  payload_json: unknown
+  fetched_at: string
+}
+
+export interface ReparsedOdds extends OddsSnapshotRow {
+  /** games.provider_game_key of the game the line is for */
+  game_key: string
+  fetched_at: string
+}
+
+export type ReparsedPayload =
+  | { table: 'games'; rows: ParsedGame[] }
+  | { table: 'odds_snapshots'; rows: ReparsedOdds[] }
+  | { table: 'player_injuries'; rows: InjuryRow[] }
+
+/**
+ * Rows the current parsers read from an archived payload, or null when no
+ * parser covers the endpoint (rosters, standings, schedules and the like).
+ */
+export function parseArchivedPayload(row: ArchivedPayload): ReparsedPayload | null {
+  const slash = row.endpoint.indexOf('/')
+  if (slash < 0) return null
+  const sport = row.endpoint.slice(0, slash)
+  const path = row.endpoint.slice(slash + 1)
+
+  if (row.provider === 'espn' && path === 'scoreboard') {
+    const season = row.season_year ?? Number(slateDate(row.fetched_at).slice(0, 4))
+    return { table: 'games', rows: parseEspnScoreboard(sport, row.payload_json, season) }
+  }
+
+  if (row.provider === 'sportsdataio' && /^scores\/json\/(GamesByDate|ScoresByWeek)\//.test(path)) {
+    return { table: 'games', rows: parseSportsDataIoGames(sport, row.payload_json) }
+  }
+
+  if (row.provider === 'balldontlie') {
+    const data = ((row.payload_json as BdlPage<unknown> | null)?.data ?? []) as unknown[]
+    if (path === 'games') {
+      const games = (data as BDLGame[])
+        .map(game => parseBdlGame(sport, game))
+        .filter((game): game is ParsedGame => game !== null)
+      return { table: 'games', rows: games }
+    }
+    if (path === 'odds') {
+      const odds: ReparsedOdds[] = []
+      for (const odd of preferredBdlOdds(data as BDLOdds[]).values()) {
+        const snapshot = bdlOddsSnapshot(odd)
+        if (snapshot) odds.push({ ...snapshot, game_key: bdlGameKey(sport, odd.game_id), fetched_at: row.fetched_at })
+      }
+      return { table: 'odds_snapshots', rows: odds }
+    }
+    if (path === 'player_injuries') {
+      const season = bdlSeasonOn(sport, new Date(row.fetched_at))
+      const fetchedOn = slateDate(row.fetched_at)
+      const injuries = (data as BDLInjury[]).map(injury => parseBdlInjury(sport, injury, fetchedOn, season))
+      return { table: 'player_injuries', rows: injuries }
+    }
+  }
+
+  return null
+}
+
+export type RowDiff = Record<string, { before: unknown; after: unknown }>
+
+// Postgres hands back numerics as strings and timestamps with its own offset
+function sameValue(before: unknown, after: unknown): boolean {
+  if (before == null || after == null) return before == null && after == null
+  if (typeof before === 'number' || typeof after === 'number') return Number(before) === Number(after)
+  if (typeof before === 'string' && typeof after === 'string' && before !== after && /^\d{4}-\d{2}-\d{2}T/.test(before)) {
+    return Date.parse(before) === Date.parse(after)
+  }
+  return before === after
+}
+
+/**
+ * Fields whose reparsed value differs from the stored one. Fields the
+ * parser leaves undefined are not compared.
+ */
+export function diffRow(existing: Record<string, unknown>, incoming: Record<string, unknown>, fields: string[]): RowDiff {
+  const diff: RowDiff = {}
+  for (const field of fields) {
+    if (incoming[field] === undefined) continue
+    if (!sameValue(existing[field], incoming[field])) {
+      diff[field] = { before: existing[field] ?? null, after: incoming[field] }
+    }
+  }
+  return diff
+}
+
+export interface TableCounts {
+  inserted: number
+  updated: number
+  unchanged: number
+  /** Rows whose game or team couldn't be resolved */
+  unmatched: number
+}
+
+export function emptyCounts(): TableCounts {
+  return { inserted: 0, updated: 0, unchanged: 0, unmatched: 0 }
+}
@@ -0,0 +1,43 @@
+// Fixtures for bet sizing.
+// Run with: deno test supabase/functions/_shared
+import { assertAlmostEquals, assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import {
+  DEFAULT_KELLY_FRACTION,
+  americanToDecimal,
+  kalshiPriceToDecimal,
+  kellyFraction,
+  resolveKellyFraction,
+  stakeFor,
+} from './staking.ts'
+
+Deno.test('american prices convert to decimal odds', () => {
+  assertAlmostEquals(americanToDecimal(-110), 1.90909, 1e-4)
+  assertEquals(americanToDecimal(150), 2.5)
+  assertEquals(americanToDecimal(-200), 1.5)
+})
+
+Deno.test('kelly stakes only with an edge', () => {
+  // 55% at -110: f* = (0.909 * 0.55 - 0.45) / 0.909 = 0.055
+  assertAlmostEquals(kellyFraction(0.55, americanToDecimal(-110)), 0.055, 1e-3)
+  assertEquals(kellyFraction(0.5, americanToDecimal(-110)), 0)
+  assertEquals(stakeFor({ method: 'kelly', kelly_fraction: 0.5 }, 1000, 0.55, americanToDecimal(-110)), 27.5)
+  assertEquals(stakeFor({ method: 'kelly' }, 1000, null, 2), 0)
+  assertEquals(stakeFor({ method: 'percent', percent: 10, max_stake_pct: 5 }, 1000, null, 2), 50)
+})
+
+Deno.test('kalshi contracts price like decimal odds', () => {
+  assertEquals(kalshiPriceToDecimal(40), 2.5)
+  assertEquals(kalshiPriceToDecimal(50), 2)
+  // 60% model probability on a 50c contract: f* = (1 * 0.6 - 0.4) / 1 = 0.2
+  assertAlmostEquals(kellyFraction(0.6, kalshiPriceToDecimal(50)), 0.2, 1e-9)
+  assertEquals(kellyFraction(0.6, kalshiPriceToDecimal(65)), 0)
+})
+
+Deno.test('kelly fraction from config is clamped', () => {
+  assertEquals(resolveKellyFraction(0.5), 0.5)
+  assertEquals(resolveKellyFraction('0.1'), 0.1)
+  assertEquals(resolveKellyFraction(3), 1)
+  assertEquals(resolveKellyFraction(0), DEFAULT_KELLY_FRACTION)
+  assertEquals(resolveKellyFraction(null), DEFAULT_KELLY_FRACTION)
+  assertEquals(stakeFor({ method: 'kelly', kelly_fraction: 2 }, 1000, 0.6, 2), 200)
+})
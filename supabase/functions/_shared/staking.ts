@@ -0,0 +1,100 @@
+/**
+ * Bet sizing
+ *
+ * Prices are handled as decimal odds (stake included, so -110 -> 1.909, a 40c
+ * Kalshi contract -> 2.5). Staking rules: a flat amount, a fixed percent of
+ * bankroll, or a fraction of the Kelly stake implied by the model's hit
+ * probability and the price. The Kelly fraction used live comes from
+ * `betting_config.kelly_fraction`.
+ */
+
+export type StakingMethod = 'flat' | 'percent' | 'kelly'
+
+export const STAKING_METHODS: StakingMethod[] = ['flat', 'percent', 'kelly']
+
+export const STAKING_METHOD_LABELS: Record<StakingMethod, string> = {
+  flat: 'Flat',
+  percent: 'Percent of bankroll',
+  kelly: 'Fractional Kelly',
+}
+
+export const DEFAULT_ASSUMED_PRICE = -110
+export const DEFAULT_KELLY_FRACTION = 0.25
+
+export interface StakingRule {
+  method: StakingMethod
+  /** Units per bet for 'flat' */
+  flat_amount?: number
+  /** Percent of current bankroll for 'percent' (5 = 5%) */
+  percent?: number
+  /** Multiplier on the full Kelly stake for 'kelly' (0.25 = quarter Kelly) */
+  kelly_fraction?: number
+  /** Hard cap on any single stake, percent of current bankroll */
+  max_stake_pct?: number
+}
+
+/** Decimal odds for an American price (-110 -> 1.909, +150 -> 2.5) */
+export function americanToDecimal(price: number): number {
+  return price > 0 ? 1 + price / 100 : 1 + 100 / -price
+}
+
+/** Decimal odds for a Kalshi contract bought at `cents` (pays 100) */
+export function kalshiPriceToDecimal(cents: number): number {
+  return cents > 0 ? 100 / cents : 1
+}
+
+/** Break-even probability of a decimal price, vig included */
+export function impliedProbability(decimal: number): number {
+  return decimal > 0 ? 1 / decimal : 1
+}
+
+/**
+ * Full Kelly fraction of bankroll for a bet that wins with probability `p` at
+ * `decimal` odds. Zero when the bet has no edge.
+ */
+export function kellyFraction(p: number, decimal: number): number {
+  const b = decimal - 1
+  if (b <= 0 || p <= 0) return 0
+  const f = (b * p - (1 - p)) / b
+  return Math.max(0, Math.min(1, f))
+}
+
+/** Kelly multiplier from config, clamped to (0, 1]; anything unusable falls back to the default */
+export function resolveKellyFraction(value: unknown): number {
+  const n = Number(value)
+  if (value === null || value === undefined || !Number.isFinite(n) || n <= 0) return DEFAULT_KELLY_FRACTION
+  return Math.min(1, n)
+}
+
+/**
+ * Stake for one bet under `rule`. Kelly needs a hit probability; without one
+ * it stakes nothing.
+ */
+export function stakeFor(
+  rule: StakingRule,
+  bankroll: number,
+  hitProbability: number | null,
+  decimal: number
+): number {
+  if (bankroll <= 0) return 0
+
+  let stake: number
+  switch (rule.method) {
+    case 'flat':
+      stake = rule.flat_amount ?? 100
+      break
+    case 'percent':
+      stake = bankroll * ((rule.percent ?? 5) / 100)
+      break
+    case 'kelly':
+      stake = hitProbability === null
+        ? 0
+        : bankroll * kellyFraction(hitProbability, decimal) * resolveKellyFraction(rule.kelly_fraction)
+      break
+  }
+
+  if (rule.max_stake_pct !== undefined) {
+    stake = Math.min(stake, bankroll * (rule.max_stake_pct / 100))
+  }
+  return Math.round(Math.min(stake, bankroll) * 100) / 100
+}
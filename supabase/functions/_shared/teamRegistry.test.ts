@@ -0,0 +1,110 @@
+// Fixtures for the team identity registry.
+// Run with: deno test supabase/functions/_shared
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts'
+import {
+  TEAM_REGISTRY,
+  buildTeamDirectory,
+  franchiseIdentities,
+  franchiseName,
+  identifyTeam,
+  kalshiEventSport,
+  normalizeTeamKey,
+  parseKalshiEventTeams,
+  providerTeamKey,
+  sameFranchise,
+  teamKey,
+  teamVersionSeeds,
+} from './teamRegistry.ts'
+
+Deno.test('no current name points at two franchises', () => {
+  for (const [sport, seeds] of Object.entries(TEAM_REGISTRY)) {
+    const owner = new Map<string, string>()
+    for (const seed of seeds) {
+      const current = franchiseIdentities(seed).at(-1)!
+      const names = [current.abbrev, current.espn, current.name, current.short_name, current.nickname, seed.key, seed.name, ...(seed.aliases ?? [])]
+      for (const name of names) {
+        const k = normalizeTeamKey(name)
+        const previous = owner.get(k)
+        assertEquals(previous === undefined || previous === seed.key, true, `${sport} ${name}: ${previous} vs ${seed.key}`)
+        owner.set(k, seed.key)
+      }
+    }
+  }
+})
+
+Deno.test('every provider spelling resolves to the same franchise', () => {
+  assertEquals(teamKey('nba', 'GS'), 'GSW')
+  assertEquals(teamKey('nba', 'Golden State Warriors'), 'GSW')
+  assertEquals(teamKey('nba', 'GS Warriors'), 'GSW')
+  assertEquals(teamKey('nba', 'warriors'), 'GSW')
+  assertEquals(teamKey('nhl', 'St Louis Blues'), 'STL')
+  assertEquals(teamKey('nhl', 'Montréal Canadiens'), 'MTL')
+  assertEquals(teamKey('nba', 'Los Angeles Clippers'), 'LAC')
+  assertEquals(teamKey('nba', 'NOTATEAM'), null)
+  assertEquals(sameFranchise('nfl', 'JAC', 'JAX'), true)
+  assertEquals(sameFranchise('nfl', 'NYG', 'NYJ'), false)
+  assertEquals(franchiseName('nhl', 'VEG'), 'Vegas Golden Knights')
+})
+
+Deno.test('provider keys come back in each provider format', () => {
+  assertEquals(providerTeamKey('nba', 'NOP', 'espn'), 'NO')
+  assertEquals(providerTeamKey('mlb', 'CWS', 'espn'), 'CHW')
+  assertEquals(providerTeamKey('nhl', 'VGK', 'draftkings'), 'VGS Golden Knights')
+  assertEquals(providerTeamKey('nfl', 'LAR', 'draftkings'), 'LA Rams')
+  assertEquals(providerTeamKey('nhl', 'LA', 'balldontlie'), 'LAK')
+})
+
+Deno.test('dates pick the identity in force', () => {
+  assertEquals(identifyTeam('nfl', 'LV', '2015-10-01')?.name, 'Oakland Raiders')
+  assertEquals(identifyTeam('nfl', 'OAK')?.key, 'LV')
+  assertEquals(identifyTeam('nfl', 'WAS', '2021-09-12')?.name, 'Washington Football Team')
+  assertEquals(identifyTeam('nfl', 'WAS')?.name, 'Washington Commanders')
+  assertEquals(identifyTeam('mlb', 'OAK', '2019-06-01')?.abbrev, 'OAK')
+  assertEquals(identifyTeam('mlb', 'OAK', '2025-06-01')?.abbrev, 'ATH')
+  assertEquals(providerTeamKey('nba', 'OKC', 'espn', '2005-01-01'), 'SEA')
+  // The last day of an era belongs to the next identity
+  assertEquals(identifyTeam('nhl', 'UTA', '2025-05-07')?.name, 'Utah Mammoth')
+})
+
+Deno.test('kalshi event tickers split into away and home', () => {
+  const parsed = parseKalshiEventTeams('nba', 'KXNBAGAME-25OCT21HOUOKC')
+  assertEquals(parsed?.date, '2025-10-21')
+  assertEquals([parsed?.away.key, parsed?.home.key], ['HOU', 'OKC'])
+  assertEquals(parseKalshiEventTeams('nfl', 'KXNFLGAME-25SEP07NYJNE')?.away.key, 'NYJ')
+  assertEquals(parseKalshiEventTeams('nba', 'KXNBAGAME-25OCT21XXXYYY'), null)
+  assertEquals(parseKalshiEventTeams('nba', 'KXNBAGAME'), null)
+  assertEquals(kalshiEventSport('KXNHLGAME-25OCT21BOSUTA'), 'nhl')
+  assertEquals(kalshiEventSport('KXNBATOTAL-25OCT21HOUOKC'), null)
+})
+
+Deno.test('version seeds cover eras back to back', () => {
+  const was = teamVersionSeeds('nfl').filter(v => v.franchise === 'Washington Commanders')
+  assertEquals(was.map(v => [v.display_name, v.effective_from, v.effective_to]), [
+    ['Washington Redskins', '1937-02-13', '2020-07-13'],
+    ['Washington Football Team', '2020-07-13', '2022-02-02'],
+    ['Washington Commanders', '2022-02-02', null],
+  ])
+})
+
+Deno.test('directory prefers team_version_map and dates the version', () => {
+  const franchises = [{ id: 'f-lv', canonical_name: 'Las Vegas Raiders' }, { id: 'f-kc', canonical_name: 'Kansas City Chiefs' }]
+  const versions = [
+    { id: 'v-oak', franchise_id: 'f-lv', display_name: 'Oakland Raiders', effective_from: '1995-06-23', effective_to: '2020-01-22' },
+    { id: 'v-lv', franchise_id: 'f-lv', display_name: 'Las Vegas Raiders', effective_from: '2020-01-22', effective_to: null },
+  ]
+  const mappings = [
+    { provider: 'kalshi', provider_team_key: 'LVR', team_version_id: 'v-lv', franchise_id: 'f-lv', team_id: 't-1' },
+    { provider: 'espn', provider_team_key: 'KCX', team_version_id: 'v-kc', franchise_id: 'f-kc', team_id: null },
+  ]
+  const directory = buildTeamDirectory('nfl', franchises, versions, mappings)
+
+  assertEquals(directory.resolve('kalshi', 'LVR', '2018-09-01'), {
+    franchise_id: 'f-lv', team_version_id: 'v-oak', team_id: 't-1', key: 'LV', source: 'map',
+  })
+  assertEquals(directory.resolve('espn', 'OAK', '2024-09-01')?.team_version_id, 'v-lv')
+  assertEquals(directory.resolve('espn', 'KCX')?.source, 'map')
+  // A map row only counts for its own provider
+  assertEquals(directory.resolve('the_odds_api', 'KCX'), null)
+  // Known to the registry but no franchises row yet
+  assertEquals(directory.resolve('espn', 'DEN'), null)
+})
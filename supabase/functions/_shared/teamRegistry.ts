@@ -0,0 +1,612 @@
+/**
+ * Team identity registry
+ *
+ * One place that knows every name a provider uses for a team: ESPN and
+ * BallDontLie abbreviations, The Odds API full names, Kalshi ticker codes and
+ * DraftKings-style short names. Each resolves to a franchise (the stable
+ * `franchises.canonical_name`) and the identity the franchise carried on a
+ * given date, so relocations and rebrands resolve to the right team version.
+ *
+ * The static seeds here cover the aliases every ingestor needs; per-provider
+ * overrides live in `team_version_map` and win over the seeds when a
+ * directory is loaded from the database. To teach the pipeline a new alias,
+ * add it once below (or map it in Franchise Management).
+ */
+
+export type TeamProvider = 'espn' | 'balldontlie' | 'the_odds_api' | 'kalshi' | 'draftkings' | 'sportsdataio'
+
+/** effective_from for identities whose start predates our data */
+export const REGISTRY_EPOCH = '1900-01-01'
+
+/** An earlier identity of a franchise (relocation or rebrand) */
+export interface TeamEra {
+  name: string
+  city: string
+  nickname: string
+  abbrev: string
+  from: string
+  /** Exclusive */
+  to: string
+  aliases?: string[]
+}
+
+export interface FranchiseSeed {
+  /** Registry key: the franchise's usual abbreviation in our teams table */
+  key: string
+  /** franchises.canonical_name */
+  name: string
+  city: string
+  nickname: string
+  /** Current display name when it differs from the canonical name */
+  display?: string
+  /** Current abbreviation when it differs from the key */
+  abbrev?: string
+  espn?: string
+  kalshi?: string
+  /** City prefix for the DraftKings-style short name */
+  dk?: string
+  /** Start of the current identity; defaults to the end of the last era */
+  since?: string
+  /** End of the current identity for franchises no longer playing */
+  until?: string
+  aliases?: string[]
+  /** Earlier identities, oldest first */
+  eras?: TeamEra[]
+}
+
+export const TEAM_REGISTRY: Record<string, FranchiseSeed[]> = {
+  nba: [
+    { key: 'ATL', name: 'Atlanta Hawks', city: 'Atlanta', nickname: 'Hawks' },
+    { key: 'BOS', name: 'Boston Celtics', city: 'Boston', nickname: 'Celtics' },
+    {
+      key: 'BKN', name: 'Brooklyn Nets', city: 'Brooklyn', nickname: 'Nets', aliases: ['BRK', 'BRO'],
+      eras: [{ name: 'New Jersey Nets', city: 'New Jersey', nickname: 'Nets', abbrev: 'NJN', from: '1977-07-01', to: '2012-04-30' }],
+    },
+    {
+      key: 'CHA', name: 'Charlotte Hornets', city: 'Charlotte', nickname: 'Hornets', aliases: ['CHO'],
+      eras: [{ name: 'Charlotte Bobcats', city: 'Charlotte', nickname: 'Bobcats', abbrev: 'CHA', from: '2004-07-01', to: '2014-05-20' }],
+    },
+    { key: 'CHI', name: 'Chicago Bulls', city: 'Chicago', nickname: 'Bulls' },
+    { key: 'CLE', name: 'Cleveland Cavaliers', city: 'Cleveland', nickname: 'Cavaliers', aliases: ['Cavs'] },
+    { key: 'DAL', name: 'Dallas Mavericks', city: 'Dallas', nickname: 'Mavericks', aliases: ['Mavs'] },
+    { key: 'DEN', name: 'Denver Nuggets', city: 'Denver', nickname: 'Nuggets' },
+    { key: 'DET', name: 'Detroit Pistons', city: 'Detroit', nickname: 'Pistons' },
+    { key: 'GSW', name: 'Golden State Warriors', city: 'Golden State', nickname: 'Warriors', espn: 'GS', dk: 'GS', aliases: ['GS', 'GST'] },
+    { key: 'HOU', name: 'Houston Rockets', city: 'Houston', nickname: 'Rockets' },
+    { key: 'IND', name: 'Indiana Pacers', city: 'Indiana', nickname: 'Pacers' },
+    { key: 'LAC', name: 'LA Clippers', city: 'Los Angeles', nickname: 'Clippers', dk: 'LA' },
+    { key: 'LAL', name: 'Los Angeles Lakers', city: 'Los Angeles', nickname: 'Lakers', dk: 'LA' },
+    {
+      key: 'MEM', name: 'Memphis Grizzlies', city: 'Memphis', nickname: 'Grizzlies',
+      eras: [{ name: 'Vancouver Grizzlies', city: 'Vancouver', nickname: 'Grizzlies', abbrev: 'VAN', from: '1995-06-23', to: '2001-07-03' }],
+    },
+    { key: 'MIA', name: 'Miami Heat', city: 'Miami', nickname: 'Heat' },
+    { key: 'MIL', name: 'Milwaukee Bucks', city: 'Milwaukee', nickname: 'Bucks' },
+    { key: 'MIN', name: 'Minnesota Timberwolves', city: 'Minnesota', nickname: 'Timberwolves', aliases: ['Wolves'] },
+    {
+      key: 'NOP', name: 'New Orleans Pelicans', city: 'New Orleans', nickname: 'Pelicans', espn: 'NO', dk: 'NO', aliases: ['NO'],
+      eras: [{ name: 'New Orleans Hornets', city: 'New Orleans', nickname: 'Hornets', abbrev: 'NOH', from: '2002-07-18', to: '2013-04-18' }],
+    },
+    { key: 'NYK', name: 'New York Knicks', city: 'New York', nickname: 'Knicks', espn: 'NY', dk: 'NY', aliases: ['NY'] },
+    {
+      key: 'OKC', name: 'Oklahoma City Thunder', city: 'Oklahoma City', nickname: 'Thunder',
+      eras: [{ name: 'Seattle SuperSonics', city: 'Seattle', nickname: 'SuperSonics', abbrev: 'SEA', from: '1967-12-20', to: '2008-07-02', aliases: ['Sonics'] }],
+    },
+    { key: 'ORL', name: 'Orlando Magic', city: 'Orlando', nickname: 'Magic' },
+    { key: 'PHI', name: 'Philadelphia 76ers', city: 'Philadelphia', nickname: '76ers', aliases: ['Sixers'] },
+    { key: 'PHX', name: 'Phoenix Suns', city: 'Phoenix', nickname: 'Suns', aliases: ['PHO'] },
+    { key: 'POR', name: 'Portland Trail Blazers', city: 'Portland', nickname: 'Trail Blazers', aliases: ['Blazers'] },
+    { key: 'SAC', name: 'Sacramento Kings', city: 'Sacramento', nickname: 'Kings' },
+    { key: 'SAS', name: 'San Antonio Spurs', city: 'San Antonio', nickname: 'Spurs', espn: 'SA', dk: 'SA', aliases: ['SA', 'SAN'] },
+    { key: 'TOR', name: 'Toronto Raptors', city: 'Toronto', nickname: 'Raptors' },
+    { key: 'UTA', name: 'Utah Jazz', city: 'Utah', nickname: 'Jazz', espn: 'UTAH', aliases: ['UTAH'] },
+    {
+      key: 'WAS', name: 'Washington Wizards', city: 'Washington', nickname: 'Wizards', espn: 'WSH', aliases: ['WSH'],
+      eras: [{ name: 'Washington Bullets', city: 'Washington', nickname: 'Bullets', abbrev: 'WSB', from: '1974-07-01', to: '1997-05-15' }],
+    },
+  ],
+  nfl: [
+    { key: 'ARI', name: 'Arizona Cardinals', city: 'Arizona', nickname: 'Cardinals' },
+    { key: 'ATL', name: 'Atlanta Falcons', city: 'Atlanta', nickname: 'Falcons' },
+    { key: 'BAL', name: 'Baltimore Ravens', city: 'Baltimore', nickname: 'Ravens' },
+    { key: 'BUF', name: 'Buffalo Bills', city: 'Buffalo', nickname: 'Bills' },
+    { key: 'CAR', name: 'Carolina Panthers', city: 'Carolina', nickname: 'Panthers' },
+    { key: 'CHI', name: 'Chicago Bears', city: 'Chicago', nickname: 'Bears' },
+    { key: 'CIN', name: 'Cincinnati Bengals', city: 'Cincinnati', nickname: 'Bengals' },
+    { key: 'CLE', name: 'Cleveland Browns', city: 'Cleveland', nickname: 'Browns' },
+    { key: 'DAL', name: 'Dallas Cowboys', city: 'Dallas', nickname: 'Cowboys' },
+    { key: 'DEN', name: 'Denver Broncos', city: 'Denver', nickname: 'Broncos' },
+    { key: 'DET', name: 'Detroit Lions', city: 'Detroit', nickname: 'Lions' },
+    { key: 'GB', name: 'Green Bay Packers', city: 'Green Bay', nickname: 'Packers', aliases: ['GNB'] },
+    { key: 'HOU', name: 'Houston Texans', city: 'Houston', nickname: 'Texans' },
+    { key: 'IND', name: 'Indianapolis Colts', city: 'Indianapolis', nickname: 'Colts' },
+    { key: 'JAX', name: 'Jacksonville Jaguars', city: 'Jacksonville', nickname: 'Jaguars', aliases: ['JAC'] },
+    { key: 'KC', name: 'Kansas City Chiefs', city: 'Kansas City', nickname: 'Chiefs', aliases: ['KAN'] },
+    {
+      key: 'LV', name: 'Las Vegas Raiders', city: 'Las Vegas', nickname: 'Raiders', aliases: ['LVR'],
+      eras: [{ name: 'Oakland Raiders', city: 'Oakland', nickname: 'Raiders', abbrev: 'OAK', from: '1995-06-23', to: '2020-01-22' }],
+    },
+    {
+      key: 'LAC', name: 'Los Angeles Chargers', city: 'Los Angeles', nickname: 'Chargers', dk: 'LA',
+      eras: [{ name: 'San Diego Chargers', city: 'San Diego', nickname: 'Chargers', abbrev: 'SD', from: '1961-01-01', to: '2017-01-12' }],
+    },
+    {
+      key: 'LAR', name: 'Los Angeles Rams', city: 'Los Angeles', nickname: 'Rams', dk: 'LA', aliases: ['LA'],
+      eras: [{ name: 'St. Louis Rams', city: 'St. Louis', nickname: 'Rams', abbrev: 'STL', from: '1995-04-12', to: '2016-01-12' }],
+    },
+    { key: 'MIA', name: 'Miami Dolphins', city: 'Miami', nickname: 'Dolphins' },
+    { key: 'MIN', name: 'Minnesota Vikings', city: 'Minnesota', nickname: 'Vikings' },
+    { key: 'NE', name: 'New England Patriots', city: 'New England', nickname: 'Patriots', aliases: ['NEP'] },
+    { key: 'NO', name: 'New Orleans Saints', city: 'New Orleans', nickname: 'Saints', aliases: ['NOR'] },
+    { key: 'NYG', name: 'New York Giants', city: 'New York', nickname: 'Giants', dk: 'NY' },
+    { key: 'NYJ', name: 'New York Jets', city: 'New York', nickname: 'Jets', dk: 'NY' },
+    { key: 'PHI', name: 'Philadelphia Eagles', city: 'Philadelphia', nickname: 'Eagles' },
+    { key: 'PIT', name: 'Pittsburgh Steelers', city: 'Pittsburgh', nickname: 'Steelers' },
+    { key: 'SF', name: 'San Francisco 49ers', city: 'San Francisco', nickname: '49ers', aliases: ['SFO'] },
+    { key: 'SEA', name: 'Seattle Seahawks', city: 'Seattle', nickname: 'Seahawks' },
+    { key: 'TB', name: 'Tampa Bay Buccaneers', city: 'Tampa Bay', nickname: 'Buccaneers', aliases: ['TAM', 'Bucs'] },
+    { key: 'TEN', name: 'Tennessee Titans', city: 'Tennessee', nickname: 'Titans' },
+    {
+      key: 'WAS', name: 'Washington Commanders', city: 'Washington', nickname: 'Commanders', espn: 'WSH', aliases: ['WSH'],
+      eras: [
+        { name: 'Washington Redskins', city: 'Washington', nickname: 'Redskins', abbrev: 'WAS', from: '1937-02-13', to: '2020-07-13' },
+        { name: 'Washington Football Team', city: 'Washington', nickname: 'Football Team', abbrev: 'WAS', from: '2020-07-13', to: '2022-02-02' },
+      ],
+    },
+  ],
+  nhl: [
+    { key: 'ANA', name: 'Anaheim Ducks', city: 'Anaheim', nickname: 'Ducks' },
+    {
+      key: 'ARI', name: 'Arizona Coyotes', city: 'Arizona', nickname: 'Coyotes', until: '2024-04-18',
+      eras: [{ name: 'Phoenix Coyotes', city: 'Phoenix', nickname: 'Coyotes', abbrev: 'PHX', from: '1996-07-01', to: '2014-06-27' }],
+    },
+    { key: 'BOS', name: 'Boston Bruins', city: 'Boston', nickname: 'Bruins' },
+    { key: 'BUF', name: 'Buffalo Sabres', city: 'Buffalo', nickname: 'Sabres' },
+    { key: 'CGY', name: 'Calgary Flames', city: 'Calgary', nickname: 'Flames', aliases: ['CAL'] },
+    { key: 'CAR', name: 'Carolina Hurricanes', city: 'Carolina', nickname: 'Hurricanes' },
+    { key: 'CHI', name: 'Chicago Blackhawks', city: 'Chicago', nickname: 'Blackhawks' },
+    { key: 'COL', name: 'Colorado Avalanche', city: 'Colorado', nickname: 'Avalanche' },
+    { key: 'CBJ', name: 'Columbus Blue Jackets', city: 'Columbus', nickname: 'Blue Jackets', aliases: ['CLB'] },
+    { key: 'DAL', name: 'Dallas Stars', city: 'Dallas', nickname: 'Stars' },
+    { key: 'DET', name: 'Detroit Red Wings', city: 'Detroit', nickname: 'Red Wings' },
+    { key: 'EDM', name: 'Edmonton Oilers', city: 'Edmonton', nickname: 'Oilers' },
+    { key: 'FLA', name: 'Florida Panthers', city: 'Florida', nickname: 'Panthers' },
+    { key: 'LAK', name: 'Los Angeles Kings', city: 'Los Angeles', nickname: 'Kings', espn: 'LA', dk: 'LA', aliases: ['LA'] },
+    { key: 'MIN', name: 'Minnesota Wild', city: 'Minnesota', nickname: 'Wild' },
+    { key: 'MTL', name: 'Montreal Canadiens', city: 'Montreal', nickname: 'Canadiens', aliases: ['MON'] },
+    { key: 'NSH', name: 'Nashville Predators', city: 'Nashville', nickname: 'Predators', aliases: ['NAS'] },
+    { key: 'NJD', name: 'New Jersey Devils', city: 'New Jersey', nickname: 'Devils', espn: 'NJ', dk: 'NJ', aliases: ['NJ'] },
+    { key: 'NYI', name: 'New York Islanders', city: 'New York', nickname: 'Islanders', dk: 'NY' },
+    { key: 'NYR', name: 'New York Rangers', city: 'New York', nickname: 'Rangers', dk: 'NY' },
+    { key: 'OTT', name: 'Ottawa Senators', city: 'Ottawa', nickname: 'Senators' },
+    { key: 'PHI', name: 'Philadelphia Flyers', city: 'Philadelphia', nickname: 'Flyers' },
+    { key: 'PIT', name: 'Pittsburgh Penguins', city: 'Pittsburgh', nickname: 'Penguins' },
+    { key: 'SJS', name: 'San Jose Sharks', city: 'San Jose', nickname: 'Sharks', espn: 'SJ', dk: 'SJ', aliases: ['SJ'] },
+    { key: 'SEA', name: 'Seattle Kraken', city: 'Seattle', nickname: 'Kraken' },
+    { key: 'STL', name: 'St. Louis Blues', city: 'St. Louis', nickname: 'Blues' },
+    { key: 'TBL', name: 'Tampa Bay Lightning', city: 'Tampa Bay', nickname: 'Lightning', espn: 'TB', dk: 'TB', aliases: ['TB'] },
+    { key: 'TOR', name: 'Toronto Maple Leafs', city: 'Toronto', nickname: 'Maple Leafs' },
+    {
+      key: 'UTA', name: 'Utah Hockey Club', city: 'Utah', nickname: 'Mammoth', display: 'Utah Mammoth', espn: 'UTAH', aliases: ['UTAH', 'Utah'],
+      eras: [{ name: 'Utah Hockey Club', city: 'Utah', nickname: 'Hockey Club', abbrev: 'UTA', from: '2024-04-18', to: '2025-05-07' }],
+    },
+    { key: 'VAN', name: 'Vancouver Canucks', city: 'Vancouver', nickname: 'Canucks' },
+    { key: 'VGK', name: 'Vegas Golden Knights', city: 'Vegas', nickname: 'Golden Knights', dk: 'VGS', aliases: ['VEG'] },
+    { key: 'WSH', name: 'Washington Capitals', city: 'Washington', nickname: 'Capitals', dk: 'WAS', aliases: ['WAS'] },
+    {
+      key: 'WPG', name: 'Winnipeg Jets', city: 'Winnipeg', nickname: 'Jets', aliases: ['WIN'],
+      eras: [{ name: 'Atlanta Thrashers', city: 'Atlanta', nickname: 'Thrashers', abbrev: 'ATL', from: '1999-06-25', to: '2011-05-31' }],
+    },
+  ],
+  // LA is deliberately not an MLB alias: providers disagree on Angels vs Dodgers
+  mlb: [
+    { key: 'ARI', name: 'Arizona Diamondbacks', city: 'Arizona', nickname: 'Diamondbacks', aliases: ['AZ', 'D-backs'] },
+    { key: 'ATL', name: 'Atlanta Braves', city: 'Atlanta', nickname: 'Braves' },
+    { key: 'BAL', name: 'Baltimore Orioles', city: 'Baltimore', nickname: 'Orioles' },
+    { key: 'BOS', name: 'Boston Red Sox', city: 'Boston', nickname: 'Red Sox' },
+    { key: 'CHC', name: 'Chicago Cubs', city: 'Chicago', nickname: 'Cubs' },
+    { key: 'CWS', name: 'Chicago White Sox', city: 'Chicago', nickname: 'White Sox', espn: 'CHW', dk: 'CHW', aliases: ['CHW'] },
+    { key: 'CIN', name: 'Cincinnati Reds', city: 'Cincinnati', nickname: 'Reds' },
+    {
+      key: 'CLE', name: 'Cleveland Guardians', city: 'Cleveland', nickname: 'Guardians',
+      eras: [{ name: 'Cleveland Indians', city: 'Cleveland', nickname: 'Indians', abbrev: 'CLE', from: '1915-01-17', to: '2021-11-19' }],
+    },
+    { key: 'COL', name: 'Colorado Rockies', city: 'Colorado', nickname: 'Rockies' },
+    { key: 'DET', name: 'Detroit Tigers', city: 'Detroit', nickname: 'Tigers' },
+    { key: 'HOU', name: 'Houston Astros', city: 'Houston', nickname: 'Astros' },
+    { key: 'KC', name: 'Kansas City Royals', city: 'Kansas City', nickname: 'Royals', aliases: ['KCR', 'KAN'] },
+    { key: 'LAA', name: 'Los Angeles Angels', city: 'Los Angeles', nickname: 'Angels' },
+    { key: 'LAD', name: 'Los Angeles Dodgers', city: 'Los Angeles', nickname: 'Dodgers' },
+    {
+      key: 'MIA', name: 'Miami Marlins', city: 'Miami', nickname: 'Marlins',
+      eras: [{ name: 'Florida Marlins', city: 'Florida', nickname: 'Marlins', abbrev: 'FLA', from: '1993-04-05', to: '2011-11-11' }],
+    },
+    { key: 'MIL', name: 'Milwaukee Brewers', city: 'Milwaukee', nickname: 'Brewers' },
+    { key: 'MIN', name: 'Minnesota Twins', city: 'Minnesota', nickname: 'Twins' },
+    { key: 'NYM', name: 'New York Mets', city: 'New York', nickname: 'Mets' },
+    { key: 'NYY', name: 'New York Yankees', city: 'New York', nickname: 'Yankees' },
+    {
+      key: 'OAK', name: 'Oakland Athletics', city: 'Sacramento', nickname: 'Athletics', display: 'Athletics', abbrev: 'ATH', dk: 'ATH', aliases: ['OAK', "A's"],
+      eras: [{ name: 'Oakland Athletics', city: 'Oakland', nickname: 'Athletics', abbrev: 'OAK', from: '1968-04-10', to: '2025-01-01' }],
+    },
+    { key: 'PHI', name: 'Philadelphia Phillies', city: 'Philadelphia', nickname: 'Phillies' },
+    { key: 'PIT', name: 'Pittsburgh Pirates', city: 'Pittsburgh', nickname: 'Pirates' },
+    { key: 'SD', name: 'San Diego Padres', city: 'San Diego', nickname: 'Padres', aliases: ['SDP'] },
+    { key: 'SF', name: 'San Francisco Giants', city: 'San Francisco', nickname: 'Giants', aliases: ['SFG'] },
+    { key: 'SEA', name: 'Seattle Mariners', city: 'Seattle', nickname: 'Mariners' },
+    { key: 'STL', name: 'St. Louis Cardinals', city: 'St. Louis', nickname: 'Cardinals' },
+    {
+      key: 'TB', name: 'Tampa Bay Rays', city: 'Tampa Bay', nickname: 'Rays', aliases: ['TBR'],
+      eras: [{ name: 'Tampa Bay Devil Rays', city: 'Tampa Bay', nickname: 'Devil Rays', abbrev: 'TB', from: '1998-03-31', to: '2007-11-08' }],
+    },
+    { key: 'TEX', name: 'Texas Rangers', city: 'Texas', nickname: 'Rangers' },
+    { key: 'TOR', name: 'Toronto Blue Jays', city: 'Toronto', nickname: 'Blue Jays' },
+    {
+      key: 'WSH', name: 'Washington Nationals', city: 'Washington', nickname: 'Nationals', dk: 'WAS', aliases: ['WAS', 'WSN'],
+      eras: [{ name: 'Montreal Expos', city: 'Montreal', nickname: 'Expos', abbrev: 'MON', from: '1969-04-08', to: '2004-12-03' }],
+    },
+  ],
+}
+
+/** A franchise as it was known over one span of time */
+export interface TeamIdentity {
+  /** Registry key of the franchise */
+  key: string
+  /** franchises.canonical_name */
+  franchise: string
+  name: string
+  city: string
+  nickname: string
+  abbrev: string
+  espn: string
+  kalshi: string
+  /** DraftKings-style short name, e.g. "GS Warriors" */
+  short_name: string
+  effective_from: string
+  /** Exclusive; null while current */
+  effective_to: string | null
+}
+
+/**
+ * Comparable form of any team key: accents, punctuation, spacing and case are
+ * dropped and "Saint" reads as "St", so "St. Louis Blues", "Saint Louis Blues"
+ * and "st louis blues" are the same key.
+ */
+export function normalizeTeamKey(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/\bSAINT\b/g, 'ST')
+    .replace(/[^A-Z0-9]/g, '')
+}
+
+function currentIdentity(seed: FranchiseSeed): TeamIdentity {
+  const abbrev = seed.abbrev ?? seed.key
+  return {
+    key: seed.key,
+    franchise: seed.name,
+    name: seed.display ?? seed.name,
+    city: seed.city,
+    nickname: seed.nickname,
+    abbrev,
+    espn: seed.espn ?? abbrev,
+    kalshi: seed.kalshi ?? abbrev,
+    short_name: `${seed.dk ?? abbrev} ${seed.nickname}`,
+    effective_from: seed.since ?? seed.eras?.[seed.eras.length - 1].to ?? REGISTRY_EPOCH,
+    effective_to: seed.until ?? null,
+  }
+}
+
+function eraIdentity(seed: FranchiseSeed, era: TeamEra): TeamIdentity {
+  return {
+    key: seed.key,
+    franchise: seed.name,
+    name: era.name,
+    city: era.city,
+    nickname: era.nickname,
+    abbrev: era.abbrev,
+    espn: era.abbrev,
+    kalshi: era.abbrev,
+    short_name: `${era.abbrev} ${era.nickname}`,
+    effective_from: era.from,
+    effective_to: era.to,
+  }
+}
+
+/** Every identity of a franchise, oldest first */
+export function franchiseIdentities(seed: FranchiseSeed): TeamIdentity[] {
+  return [...(seed.eras ?? []).map(era => eraIdentity(seed, era)), currentIdentity(seed)]
+}
+
+function isEffective(identity: { effective_from: string; effective_to: string | null }, day: string): boolean {
+  return identity.effective_from <= day && (identity.effective_to === null || day < identity.effective_to)
+}
+
+interface IndexEntry {
+  identity: TeamIdentity
+  current: boolean
+}
+
+const indexes = new Map<string, Map<string, IndexEntry[]>>()
+
+function sportIndex(sport: string): Map<string, IndexEntry[]> {
+  let index = indexes.get(sport)
+  if (index) return index
+
+  index = new Map()
+  const add = (value: string, entry: IndexEntry) => {
+    const k = normalizeTeamKey(value)
+    if (!k) return
+    const list = index!.get(k) ?? []
+    if (!list.some(e => e.identity === entry.identity)) list.push(entry)
+    index!.set(k, list)
+  }
+
+  for (const seed of TEAM_REGISTRY[sport] ?? []) {
+    const identities = franchiseIdentities(seed)
+    identities.forEach((identity, i) => {
+      const current = i === identities.length - 1
+      const entry = { identity, current }
+      const names = [
+        identity.abbrev, identity.espn, identity.kalshi, identity.name, identity.short_name,
+        identity.nickname, `${identity.city} ${identity.nickname}`,
+      ]
+      const aliases = current ? [seed.key, seed.name, ...(seed.aliases ?? [])] : (seed.eras![i].aliases ?? [])
+      for (const value of [...names, ...aliases]) add(value, entry)
+    })
+  }
+  indexes.set(sport, index)
+  return index
+}
+
+/**
+ * The team a provider key refers to. With a date, returns the identity the
+ * franchise carried that day (so "OAK" in 2015 NFL is the Oakland Raiders
+ * and "LV" in 2015 resolves to them too); without one, current names win
+ * over historical ones.
+ */
+export function identifyTeam(sport: string, value: string | null | undefined, date?: string | null): TeamIdentity | null {
+  if (!value) return null
+  const candidates = sportIndex(sport).get(normalizeTeamKey(value))
+  if (!candidates?.length) return null
+
+  const day = date ? date.slice(0, 10) : null
+  const match = (day ? candidates.find(c => isEffective(c.identity, day)) : undefined)
+    ?? candidates.find(c => c.current)
+    ?? candidates[0]
+  if (!day || isEffective(match.identity, day)) return match.identity
+
+  const seed = TEAM_REGISTRY[sport].find(s => s.key === match.identity.key)!
+  return franchiseIdentities(seed).find(identity => isEffective(identity, day)) ?? match.identity
+}
+
+/** Registry key for any provider key, or null when unknown */
+export function teamKey(sport: string, value: string | null | undefined): string | null {
+  return identifyTeam(sport, value)?.key ?? null
+}
+
+/** franchises.canonical_name for any provider key */
+export function franchiseName(sport: string, value: string | null | undefined): string | null {
+  return identifyTeam(sport, value)?.franchise ?? null
+}
+
+/**
+ * Every abbreviation a franchise has gone by, across eras and providers; for
+ * finding a teams row whichever convention created it.
+ */
+export function franchiseAbbrevs(sport: string, value: string | null | undefined): string[] {
+  const key = teamKey(sport, value)
+  const seed = key ? TEAM_REGISTRY[sport].find(s => s.key === key) : undefined
+  if (!seed) return value ? [value] : []
+  const codes = franchiseIdentities(seed).flatMap(identity => [identity.abbrev, identity.espn, identity.kalshi])
+  const aliases = (seed.aliases ?? []).filter(alias => /^[A-Z]{2,4}$/.test(alias))
+  return [...new Set([seed.key, ...codes, ...aliases])]
+}
+
+/** Whether two keys, from any providers, name the same franchise */
+export function sameFranchise(sport: string, a: string | null | undefined, b: string | null | undefined): boolean {
+  const keyA = teamKey(sport, a)
+  return keyA !== null && keyA === teamKey(sport, b)
+}
+
+/** The key `provider` uses for a team on a date */
+export function providerTeamKey(
+  sport: string,
+  value: string | null | undefined,
+  provider: TeamProvider,
+  date?: string | null
+): string | null {
+  const identity = identifyTeam(sport, value, date)
+  if (!identity) return null
+  switch (provider) {
+    case 'espn': return identity.espn
+    case 'kalshi': return identity.kalshi
+    case 'draftkings': return identity.short_name
+    case 'the_odds_api': return identity.name
+    default: return identity.abbrev
+  }
+}
+
+/** Sport of a Kalshi game series or event ticker (KXNBAGAME-... -> nba) */
+export function kalshiEventSport(ticker: string): string | null {
+  const m = ticker.toUpperCase().match(/^KX(NBA|NFL|NHL|MLB)GAME\b/)
+  return m ? m[1].toLowerCase() : null
+}
+
+/**
+ * Teams in a Kalshi game event ticker, e.g. KXNBAGAME-25OCT21HOUOKC: a
+ * YYMONDD date, then the away and home codes run together. Returns null
+ * unless exactly one split of the codes names two known teams.
+ */
+export function parseKalshiEventTeams(
+  sport: string,
+  eventTicker: string
+): { date: string; away: TeamIdentity; home: TeamIdentity } | null {
+  const m = eventTicker.toUpperCase().split('-')[1]?.match(/^(\d{2})([A-Z]{3})(\d{2})([A-Z]+)$/)
+  if (!m) return null
+  const months = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+  const month = months.indexOf(m[2])
+  if (month === -1) return null
+  const date = `20${m[1]}-${String(month + 1).padStart(2, '0')}-${m[3]}`
+
+  const codes = m[4]
+  const splits: Array<{ away: TeamIdentity; home: TeamIdentity }> = []
+  for (let i = 2; i <= codes.length - 2; i++) {
+    const away = identifyTeam(sport, codes.slice(0, i), date)
+    const home = identifyTeam(sport, codes.slice(i), date)
+    if (away && home && away.key !== home.key) splits.push({ away, home })
+  }
+  return splits.length === 1 ? { date, ...splits[0] } : null
+}
+
+/** team_versions rows the registry expects for a sport, by franchise name */
+export function teamVersionSeeds(sport: string): Array<{
+  franchise: string
+  display_name: string
+  city: string
+  abbrev: string
+  effective_from: string
+  effective_to: string | null
+}> {
+  return (TEAM_REGISTRY[sport] ?? []).flatMap(seed =>
+    franchiseIdentities(seed).map(identity => ({
+      franchise: identity.franchise,
+      display_name: identity.name,
+      city: identity.city,
+      abbrev: identity.abbrev,
+      effective_from: identity.effective_from,
+      effective_to: identity.effective_to,
+    }))
+  )
+}
+
+// ============================================================
+// DATABASE-BACKED DIRECTORY
+// ============================================================
+
+export interface FranchiseRow {
+  id: string
+  canonical_name: string
+}
+
+export interface TeamVersionRow {
+  id: string
+  franchise_id: string
+  display_name: string
+  abbrev?: string | null
+  effective_from: string
+  effective_to: string | null
+}
+
+export interface TeamVersionMapRow {
+  provider: string
+  provider_team_key: string
+  team_version_id: string
+  franchise_id: string
+  team_id: string | null
+}
+
+export interface ResolvedTeam {
+  franchise_id: string
+  team_version_id: string | null
+  team_id: string | null
+  /** Registry key; null for teams only team_version_map knows */
+  key: string | null
+  source: 'map' | 'registry'
+}
+
+export interface TeamDirectory {
+  resolve(provider: TeamProvider, value: string | null | undefined, date?: string | null): ResolvedTeam | null
+  /** Each franchise with every name and abbreviation it has gone by */
+  franchiseNames(): Array<{ id: string; label: string; aliases: string[] }>
+}
+
+/**
+ * Resolver over a sport's franchises, team_versions and team_version_map.
+ * An explicit team_version_map row for the provider wins; otherwise the
+ * static registry names the franchise. Either way the team version is the
+ * one in effect on the date (today when none is given).
+ */
+export function buildTeamDirectory(
+  sport: string,
+  franchises: FranchiseRow[],
+  versions: TeamVersionRow[],
+  mappings: TeamVersionMapRow[]
+): TeamDirectory {
+  const franchiseByName = new Map(franchises.map(f => [f.canonical_name, f]))
+  const keyByFranchiseId = new Map<string, string>()
+  for (const seed of TEAM_REGISTRY[sport] ?? []) {
+    const franchise = franchiseByName.get(seed.name)
+    if (franchise) keyByFranchiseId.set(franchise.id, seed.key)
+  }
+  const mapIndex = new Map(mappings.map(m => [`${m.provider}:${normalizeTeamKey(m.provider_team_key)}`, m]))
+
+  const versionOn = (franchiseId: string, day: string) =>
+    versions.find(v => v.franchise_id === franchiseId && isEffective(v, day)) ?? null
+
+  return {
+    resolve(provider, value, date) {
+      if (!value) return null
+      const day = (date ?? new Date().toISOString()).slice(0, 10)
+
+      const mapped = mapIndex.get(`${provider}:${normalizeTeamKey(value)}`)
+      if (mapped) {
+        return {
+          franchise_id: mapped.franchise_id,
+          team_version_id: versionOn(mapped.franchise_id, day)?.id ?? mapped.team_version_id,
+          team_id: mapped.team_id,
+          key: keyByFranchiseId.get(mapped.franchise_id) ?? null,
+          source: 'map',
+        }
+      }
+
+      const identity = identifyTeam(sport, value, day)
+      const franchise = identity ? franchiseByName.get(identity.franchise) : undefined
+      if (!identity || !franchise) return null
+      return {
+        franchise_id: franchise.id,
+        team_version_id: versionOn(franchise.id, day)?.id ?? null,
+        team_id: null,
+        key: identity.key,
+        source: 'registry',
+      }
+    },
+
+    franchiseNames() {
+      return franchises.map(f => {
+        const seed = (TEAM_REGISTRY[sport] ?? []).find(s => s.name === f.canonical_name)
+        const names = [
+          ...(seed ? franchiseIdentities(seed).flatMap(i => [i.name, i.abbrev, i.espn]) : []),
+          ...(seed?.aliases ?? []),
+          ...versions.filter(v => v.franchise_id === f.id).flatMap(v => [v.display_name, v.abbrev ?? '']),
+        ]
+        return { id: f.id, label: f.canonical_name, aliases: Array.from(new Set(names.filter(Boolean))) }
+      })
+    },
+  }
+}
+
+type RowsQuery = PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>
+
+/** The slice of a supabase client loadTeamDirectory reads through */
+export interface TeamTablesClient {
+  from(table: string): { select(columns: string): { eq(column: string, value: string): RowsQuery } }
+}
+
+export async function loadTeamDirectory(supabase: TeamTablesClient, sport: string): Promise<TeamDirectory> {
+  const [franchises, versions, mappings] = await Promise.all([
+    supabase.from('franchises').select('id, canonical_name').eq('sport_id', sport),
+    supabase.from('team_versions').select('id, franchise_id, display_name, abbrev, effective_from, effective_to').eq('sport_id', sport),
+    supabase.from('team_version_map').select('provider, provider_team_key, team_version_id, franchise_id, team_id').eq('sport_id', sport),
+  ])
+  const error = franchises.error ?? versions.error ?? mappings.error
+  if (error) throw new Error(`Failed to load ${sport} team directory: ${error.message}`)
+
+  return buildTeamDirectory(
+    sport,
+    (franchises.data ?? []) as FranchiseRow[],
+    (versions.data ?? []) as TeamVersionRow[],
+    (mappings.data ?? []) as TeamVersionMapRow[]
+  )
+}
@@ -0,0 +1,99 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { buildCalibrationReport, type CalibrationRow } from '../_shared/calibration.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const PAGE_SIZE = 1000
+const MAX_ROWS = 20000
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    )
+
+    const url = new URL(req.url)
+    const sportId = url.searchParams.get('sport_id')
+    const model = url.searchParams.get('model')
+    const days = url.searchParams.get('days') ? Number(url.searchParams.get('days')) : null
+
+    const startDate = days
+      ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+      : null
+
+    console.log(`[API/CALIBRATION] sport=${sportId ?? 'all'} model=${model ?? 'all'} since=${startDate ?? 'all'}`)
+
+    // Every settled edge with a DK line, paged past the 1000-row limit
+    const rows: CalibrationRow[] = []
+    for (let from = 0; from < MAX_ROWS; from += PAGE_SIZE) {
+      let query = supabase
+        .from('daily_edges')
+        .select(`
+          sport_id,
+          segment_used,
+          n_used,
+          dk_total_line,
+          dk_line_percentile,
+          distribution,
+          games!inner(final_total, status)
+        `)
+        .eq('dk_offered', true)
+        .not('dk_total_line', 'is', null)
+        .not('dk_line_percentile', 'is', null)
+        .eq('games.status', 'final')
+        .not('games.final_total', 'is', null)
+        .order('date_local', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (sportId) query = query.eq('sport_id', sportId)
+      if (model) query = query.eq('model', model)
+      if (startDate) query = query.gte('date_local', startDate)
+
+      const { data, error } = await query
+      if (error) throw error
+
+      for (const edge of data || []) {
+        const game = Array.isArray(edge.games) ? edge.games[0] : edge.games
+        rows.push({
+          sport_id: edge.sport_id,
+          segment_used: edge.segment_used,
+          n_used: edge.n_used,
+          dk_total_line: Number(edge.dk_total_line),
+          dk_line_percentile: edge.dk_line_percentile,
+          distribution: edge.distribution,
+          final_total: Number(game.final_total),
+        })
+      }
+
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    const report = buildCalibrationReport(rows)
+    console.log(`[API/CALIBRATION] ${report.overall.n} settled edges, brier=${report.overall.brier?.toFixed(4) ?? 'n/a'}`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        generated_at: new Date().toISOString(),
+        filters: { sport_id: sportId, model, since: startDate },
+        ...report,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('[API/CALIBRATION] Error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
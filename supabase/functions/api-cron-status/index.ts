@@ -1,5 +1,6 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import postgres from "https://deno.land/x/postgresjs@v3.4.4/mod.js";
+import { summarizeJobRuns, type JobRunRow, type LeaseRow } from "../_shared/jobRunner.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -146,7 +147,40 @@ Deno.serve(async (req) => {
       LIMIT 100
     `;
 
-    console.log(`[API/CRON-STATUS] Found ${jobs.length} jobs, ${runs.length} runs in 24h`);
+    // Runs recorded by the job runner (last 7 days). Only the legacy error is
+    // read out of details; the rest can be large
+    const jobRunRows = await sql`
+      SELECT id, job_name, job_key, status, started_at, finished_at,
+        jsonb_build_object('error', details->'error') AS details,
+        steps, metrics, failure_class, error
+      FROM job_runs
+      WHERE started_at > NOW() - INTERVAL '7 days'
+      ORDER BY started_at DESC
+      LIMIT 500
+    `;
+
+    const leaseRows = await sql`
+      SELECT job_key, holder, job_run_id, expires_at
+      FROM job_locks
+      WHERE expires_at > NOW()
+    `;
+
+    const iso = (value: Date | string | null) => value ? new Date(value).toISOString() : null;
+    const pipelineJobs = summarizeJobRuns(
+      jobRunRows.map(r => ({
+        ...r,
+        id: Number(r.id),
+        started_at: iso(r.started_at),
+        finished_at: iso(r.finished_at),
+      }) as JobRunRow),
+      leaseRows.map(l => ({
+        ...l,
+        job_run_id: l.job_run_id === null ? null : Number(l.job_run_id),
+        expires_at: iso(l.expires_at),
+      }) as LeaseRow),
+    );
+
+    console.log(`[API/CRON-STATUS] Found ${jobs.length} jobs, ${runs.length} runs in 24h, ${pipelineJobs.length} pipeline jobs`);
 
     // Process jobs
     const processedJobs = jobs.map(job => {
@@ -205,6 +239,7 @@ Deno.serve(async (req) => {
         timestamp: new Date().toISOString(),
         jobs: processedJobs,
         recent_runs: recentRuns,
+        pipeline_jobs: pipelineJobs,
         summary: {
           total_jobs: jobs.length,
           active_jobs: jobs.filter(j => j.active).length,
@@ -224,6 +259,7 @@ Deno.serve(async (req) => {
         error: error instanceof Error ? error.message : 'Unknown error',
         jobs: [],
         recent_runs: [],
+        pipeline_jobs: [],
         summary: { total_jobs: 0, active_jobs: 0, runs_24h: 0, success_rate: 100 },
       }),
       { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -1,20 +1,19 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { SEGMENT_LADDER, buildSketch, computePercentiles, getYearCutoffDate } from '../_shared/percentiles.ts'
+import { buildLineMovement } from '../_shared/lineMovement.ts'
+import { resolveEdgeThresholds } from '../_shared/clv.ts'
+import {
+  adjustHistory,
+  referenceSeason,
+  resolveEraAdjustment,
+  seasonAverageMap,
+} from '../_shared/eraAdjustment.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-// Segment time windows in years
-const SEGMENT_YEARS: Record<string, number | null> = {
-  h2h_1y: 1,
-  h2h_3y: 3,
-  h2h_5y: 5,
-  h2h_10y: 10,
-  h2h_20y: 20,
-  h2h_all: null, // no filter
-}
-
 // Decade date ranges - use actual dates for played_at_utc filtering
 const DECADE_DATE_RANGES: Record<string, { start: string; end: string }> = {
   decade_2020s: { start: '2020-01-01T00:00:00Z', end: '2029-12-31T23:59:59Z' },
@@ -60,6 +59,7 @@ Deno.serve(async (req) => {
         home_score,
         away_score,
         final_total,
+        season_year,
         home_team_id,
         away_team_id,
         home_franchise_id,
@@ -103,14 +103,14 @@ Deno.serve(async (req) => {
     const [teamLowId, teamHighId] = [game.home_team_id, game.away_team_id].sort()
     
     // Calculate date filter based on segment
-    const yearsBack = SEGMENT_YEARS[segment] ?? null
+    const yearsBack = SEGMENT_LADDER.find(s => s.key === segment)?.yearsBack ?? null
     const decadeDateRange = DECADE_DATE_RANGES[segment] ?? null
     
     let cutoffDate: string | null = null
     let decadeFilter: { start: string; end: string } | null = null
     
     if (yearsBack) {
-      cutoffDate = new Date(Date.now() - yearsBack * 365 * 24 * 60 * 60 * 1000).toISOString()
+      cutoffDate = getYearCutoffDate(yearsBack)
     } else if (decadeDateRange) {
       decadeFilter = decadeDateRange
     }
@@ -196,32 +196,69 @@ Deno.serve(async (req) => {
     // Compute stats from filtered history if no pre-computed stats
     let computedStats = null
     if (historicalGames && historicalGames.length > 0) {
-      const totals = historicalGames.map(g => g.total).sort((a, b) => a - b)
-      const n = totals.length
-      const p05Index = Math.floor(n * 0.05)
-      const p95Index = Math.min(Math.floor(n * 0.95), n - 1)
-      const medianIndex = Math.floor(n / 2)
-
+      const totals = historicalGames.map(g => Number(g.total))
+      const { p05, p95, median, min, max } = computePercentiles(totals)
       computedStats = {
-        n_games: n,
-        p05: totals[p05Index],
-        p95: totals[p95Index],
-        median: n % 2 === 0 ? (totals[medianIndex - 1] + totals[medianIndex]) / 2 : totals[medianIndex],
-        min_total: totals[0],
-        max_total: totals[n - 1],
+        n_games: historicalGames.length,
+        p05,
+        p95,
+        median,
+        min_total: min,
+        max_total: max,
+        distribution: buildSketch(totals),
       }
     }
 
     // Use computed stats if we don't have pre-computed ones or if segment doesn't match
     const finalStats = stats || computedStats
 
+    // Line movement: every odds fetch for the game against the band as it stood at the time
+    const [{ data: oddsRows }, { data: edgeSnapshots }, { data: bettingConfig }, { data: seasonRows }] = await Promise.all([
+      supabase
+        .from('odds_snapshots')
+        .select('id, fetched_at, bookmaker, total_line, raw_payload, is_closing')
+        .eq('game_id', gameId)
+        .eq('market', 'totals')
+        .order('fetched_at', { ascending: true }),
+      supabase
+        .from('edge_snapshots')
+        .select('id, snapshot_at, p05, p95, distribution, dk_total_line, dk_line_percentile')
+        .eq('game_id', gameId)
+        .order('snapshot_at', { ascending: true }),
+      supabase
+        .from('betting_config')
+        .select('strong_edge_threshold, moderate_edge_threshold, weak_edge_threshold, era_adjustments')
+        .eq('name', 'default')
+        .maybeSingle(),
+      supabase
+        .from('league_season_totals')
+        .select('season_year, n_games, avg_total')
+        .eq('sport_id', game.sport_id),
+    ])
+    const lineMovement = buildLineMovement(oddsRows || [], edgeSnapshots || [], resolveEdgeThresholds(bettingConfig))
+
+    // Era-adjusted totals for the chart's toggle, on the sport's configured method
+    // (ratio when the sport isn't adjusted, so the toggle still has something to show)
+    const configuredAdjustment = resolveEraAdjustment(bettingConfig?.era_adjustments as Record<string, unknown>, game.sport_id)
+    const adjustmentMethod = configuredAdjustment === 'none' ? 'ratio' : configuredAdjustment
+    const seasonAverages = seasonAverageMap(seasonRows || [])
+    const reference = referenceSeason(seasonAverages, game.season_year ?? null)
+    const { games: adjustedGames } = adjustHistory(
+      (historicalGames || []).map(mg => ({ total: Number(mg.total), played_at_utc: mg.played_at_utc, season_year: mg.season_year })),
+      seasonAverages,
+      reference,
+      adjustmentMethod
+    )
+
     // Transform historical games
-    const history = (historicalGames || []).map(mg => {
+    const history = (historicalGames || []).map((mg, i) => {
       const g = mg.game as any
       return {
         id: mg.id,
         played_at: mg.played_at_utc,
         total: mg.total,
+        season_year: mg.season_year,
+        adjusted_total: reference ? adjustedGames[i].total : null,
         home_team: g?.home_team?.[0]?.abbrev || g?.home_team?.[0]?.name,
         away_team: g?.away_team?.[0]?.abbrev || g?.away_team?.[0]?.name,
         home_score: g?.home_score,
@@ -267,6 +304,9 @@ Deno.serve(async (req) => {
           best_over_edge: edge.best_over_edge,
           best_under_edge: edge.best_under_edge,
           alternate_lines: edge.alternate_lines,
+          distribution: edge.distribution,
+          model: edge.model,
+          era_adjustment: edge.era_adjustment,
         } : null,
         stats: finalStats ? {
           n_games: finalStats.n_games,
@@ -275,9 +315,17 @@ Deno.serve(async (req) => {
           median: finalStats.median,
           min_total: finalStats.min_total,
           max_total: finalStats.max_total,
+          distribution: finalStats.distribution ?? null,
         } : null,
         segment: segment,
         history,
+        era_adjustment: reference ? {
+          method: adjustmentMethod,
+          configured: configuredAdjustment,
+          season_year: reference.season_year,
+          league_avg_total: reference.avg_total,
+        } : null,
+        line_movement: lineMovement,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
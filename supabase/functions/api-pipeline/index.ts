@@ -0,0 +1,58 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { pipelineView, type StageState } from '../_shared/pipelineDag.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Get today's date in America/New_York timezone
+function getTodayET(): string {
+  const now = new Date()
+  const formatter = new Intl.DateTimeFormat('en-CA', {
+    timeZone: 'America/New_York',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  })
+  return formatter.format(now)
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // pipeline_stage_runs is service-only, like job_runs
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const url = new URL(req.url)
+    const today = getTodayET()
+    const date = url.searchParams.get('date') || today
+
+    console.log(`[API/PIPELINE] Fetching pipeline for ${date}`)
+
+    const { data, error } = await supabase
+      .from('pipeline_stage_runs')
+      .select('date_local, sport_id, stage, status, attempts, next_attempt_at, error, failure_class, started_at, finished_at, duration_ms')
+      .eq('date_local', date)
+
+    if (error) throw error
+
+    return new Response(
+      JSON.stringify(pipelineView(date, today, (data || []) as StageState[])),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('[API/PIPELINE] Error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -97,6 +97,14 @@ Deno.serve(async (req) => {
 
     const sampleUnmatched = (recentOddsJob?.details as any)?.sample_unmatched || []
 
+    // Freshness SLA breaches still open, most severe first
+    const { data: openBreaches } = await supabase
+      .from('freshness_breaches')
+      .select('id, rule_id, sport_id, rule_type, severity, message, observed, subjects, opened_at, last_seen_at, notified_at')
+      .is('resolved_at', null)
+      .order('severity', { ascending: true })
+      .order('opened_at', { ascending: false })
+
     // Database stats
     const { count: teamsCount } = await supabase
       .from('teams')
@@ -118,6 +126,7 @@ Deno.serve(async (req) => {
         jobs: lastJobs,
         today_coverage: oddsStats,
         sample_unmatched: sampleUnmatched,
+        freshness_breaches: openBreaches || [],
         database: {
           teams: teamsCount || 0,
           games: gamesCount || 0,
@@ -61,7 +61,9 @@ Deno.serve(async (req) => {
         p05_under_odds,
         best_over_edge,
         best_under_edge,
-        alternate_lines
+        alternate_lines,
+        distribution,
+        model
       `)
       .eq('date_local', date)
       .eq('is_visible', true)
@@ -258,6 +260,9 @@ Deno.serve(async (req) => {
         // DK line range (extremes of what's offered)
         dk_highest_over: dkHighestOver,
         dk_lowest_under: dkLowestUnder,
+        // Full quantile sketch for pricing any line client-side
+        distribution: edge.distribution,
+        model: edge.model,
       }
     })
 
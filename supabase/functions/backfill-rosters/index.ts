@@ -1,18 +1,11 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ESPN_SPORT_PATHS, espnProvider, providerTransport, type EspnTeamList, type SportsDataProvider } from "../_shared/providers.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// ESPN Roster API URLs by sport
-const ESPN_ROSTER_URLS: Record<string, string> = {
-  nba: "https://site.api.espn.com/apis/site/v2/sports/basketball/nba/teams",
-  nfl: "https://site.api.espn.com/apis/site/v2/sports/football/nfl/teams",
-  nhl: "https://site.api.espn.com/apis/site/v2/sports/hockey/nhl/teams",
-  mlb: "https://site.api.espn.com/apis/site/v2/sports/baseball/mlb/teams",
-};
-
 interface ESPNAthlete {
   id: string;
   fullName: string;
@@ -37,16 +30,14 @@ interface RosterPlayer {
   experience: number;
 }
 
-async function fetchTeamRoster(sport: string, teamId: string): Promise<RosterPlayer[]> {
-  const baseUrl = ESPN_ROSTER_URLS[sport];
-  if (!baseUrl) return [];
+async function fetchTeamRoster(espn: SportsDataProvider, sport: string, teamId: string): Promise<RosterPlayer[]> {
+  if (!ESPN_SPORT_PATHS[sport]) return [];
 
   try {
-    const url = `${baseUrl}/${teamId}/roster`;
-    const response = await fetch(url, { headers: { "Accept": "application/json" } });
+    const response = await espn.rosters({ sport, teamId });
     if (!response.ok) return [];
 
-    const data = await response.json();
+    const data = response.payload as any;
     const players: RosterPlayer[] = [];
 
     // ESPN roster structure varies by sport
@@ -71,15 +62,14 @@ async function fetchTeamRoster(sport: string, teamId: string): Promise<RosterPla
   }
 }
 
-async function fetchAllTeams(sport: string): Promise<ESPNTeam[]> {
-  const baseUrl = ESPN_ROSTER_URLS[sport];
-  if (!baseUrl) return [];
+async function fetchAllTeams(espn: SportsDataProvider, sport: string): Promise<ESPNTeam[]> {
+  if (!ESPN_SPORT_PATHS[sport]) return [];
 
   try {
-    const response = await fetch(baseUrl, { headers: { "Accept": "application/json" } });
+    const response = await espn.rosters({ sport });
     if (!response.ok) return [];
 
-    const data = await response.json();
+    const data = response.payload as EspnTeamList;
     const teams: ESPNTeam[] = [];
 
     for (const group of data.sports?.[0]?.leagues?.[0]?.teams || []) {
@@ -240,13 +230,14 @@ async function detectTeamEra(
 
 async function backfillRosters(
   supabase: any,
+  espn: SportsDataProvider,
   sport: string,
   seasonYear: number
 ) {
   console.log(`[ROSTER] Starting roster backfill for ${sport} ${seasonYear}`);
 
   // Get all teams from ESPN
-  const espnTeams = await fetchAllTeams(sport);
+  const espnTeams = await fetchAllTeams(espn, sport);
   console.log(`[ROSTER] Found ${espnTeams.length} teams for ${sport}`);
 
   // Get our teams from DB
@@ -269,7 +260,7 @@ async function backfillRosters(
 
     try {
       // Fetch current roster
-      const players = await fetchTeamRoster(sport, espnTeam.id);
+      const players = await fetchTeamRoster(espn, sport, espnTeam.id);
       if (players.length === 0) {
         console.log(`[ROSTER] No players for ${sport}:${espnTeam.abbreviation}`);
         continue;
@@ -336,6 +327,7 @@ Deno.serve(async (req) => {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseKey);
+    const espn = espnProvider(providerTransport(Deno.env.get("PROVIDER_MODE"), supabase));
 
     console.log(`[ROSTER] Backfill request: sport=${sport}, season=${seasonYear}`);
 
@@ -350,7 +342,7 @@ Deno.serve(async (req) => {
     const sports = sport === "all" ? ["nba", "nfl", "nhl", "mlb"] : [sport];
 
     for (const s of sports) {
-      results[s] = await backfillRosters(supabase, s, seasonYear);
+      results[s] = await backfillRosters(supabase, espn, s, seasonYear);
     }
 
     // Update job status
@@ -1,604 +1,879 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildSketch, computePercentiles } from "../_shared/percentiles.ts";
+import { franchiseAbbrevs, franchiseName, teamKey } from "../_shared/teamRegistry.ts";
+import {
+  ballDontLieProvider,
+  espnProvider,
+  providerTransport,
+  rateLimitedTransport,
+  slateDate,
+  type BallDontLieProvider,
+  type BdlPage,
+  type SportsDataProvider,
+} from "../_shared/providers.ts";
+import { parseBdlGame, parseEspnScoreboard, type BDLGame, type FinalGame, type ParsedGame } from "../_shared/providerParsers.ts";
+import { playoffResultsFor } from "../_shared/playoffResults.ts";
+import {
+  MAX_UNIT_ATTEMPTS,
+  UNIT_STALE_MS,
+  dateRange,
+  exhaustedUnits,
+  inScope,
+  nextUnit,
+  parsePlan,
+  planProgress,
+  planStatus,
+  planUnits,
+  seasonOn,
+  seasonWindow,
+  type BackfillPlan,
+  type BackfillUnit,
+  type UnitCheckpoint,
+} from "../_shared/backfillPlan.ts";
+
+declare const EdgeRuntime: {
+  waitUntil(promise: Promise<unknown>): void;
+};
 
 const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+// Work time per invocation, well inside the edge wall clock; the plan
+// continues in a fresh invocation from the last checkpoint
+const RUN_BUDGET_MS = 110 * 1000;
+
+interface PlanRow extends BackfillPlan {
+  id: number;
+  job_run_id: number | null;
+  status: string;
+}
+
+interface RunContext {
+  supabase: any;
+  plan: PlanRow;
+  espn: SportsDataProvider;
+  bdl: BallDontLieProvider;
+  deadline: number;
+}
+
+// Persists a unit's progress; a unit that returns false stopped at the deadline
+type Checkpoint = (checkpoint: UnitCheckpoint, rows: number) => Promise<void>;
+
+function computeDecade(year: number): string {
+  const decadeStart = Math.floor(year / 10) * 10;
+  return `${decadeStart}s`;
 }
 
 // ============================================================
-// RETRY WITH EXPONENTIAL BACKOFF
+// TEAMS AND GAMES
 // ============================================================
-async function fetchWithRetry(
-  url: string,
-  options: RequestInit,
-  maxRetries = 3,
-  baseDelay = 1000
-): Promise<Response> {
-  let lastError: Error | null = null
-  
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      const response = await fetch(url, options)
-      
-      if (response.status === 429 || response.status >= 500) {
-        const delay = baseDelay * Math.pow(2, attempt)
-        console.log(`Retry ${attempt + 1}/${maxRetries} after ${delay}ms (status: ${response.status})`)
-        await new Promise(r => setTimeout(r, delay))
-        continue
-      }
-      
-      return response
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error('Unknown fetch error')
-      const delay = baseDelay * Math.pow(2, attempt)
-      console.log(`Retry ${attempt + 1}/${maxRetries} after ${delay}ms (error: ${lastError.message})`)
-      await new Promise(r => setTimeout(r, delay))
-    }
+
+// Franchise cache
+const franchiseCache = new Map<string, string>();
+
+async function getOrCreateFranchise(
+  supabase: any,
+  sport: string,
+  abbrev: string
+): Promise<string | null> {
+  const cacheKey = `${sport}:${abbrev}`;
+  if (franchiseCache.has(cacheKey)) {
+    return franchiseCache.get(cacheKey)!;
   }
-  
-  throw lastError || new Error('Max retries exceeded')
-}
 
-interface GameData {
-  provider_game_key: string
-  start_time_utc: string
-  home_team_key: string
-  away_team_key: string
-  home_team_name: string
-  away_team_name: string
-  home_team_city?: string
-  away_team_city?: string
-  home_score: number | null
-  away_score: number | null
-  status: 'scheduled' | 'live' | 'final'
-}
+  const canonicalName = franchiseName(sport, abbrev);
 
-// Maximum years of history to fetch per sport
-const MAX_YEARS_HISTORY: Record<string, number> = {
-  nfl: 20,
-  nba: 20,
-  mlb: 20,
-  nhl: 20,
+  if (!canonicalName) {
+    console.log(`[BACKFILL] No franchise mapping for ${sport}:${abbrev}`);
+    return null;
+  }
+
+  const { data: existing } = await supabase
+    .from("franchises")
+    .select("id")
+    .eq("sport_id", sport)
+    .eq("canonical_name", canonicalName)
+    .maybeSingle();
+
+  if (existing) {
+    franchiseCache.set(cacheKey, existing.id);
+    return existing.id;
+  }
+
+  const { data: created, error } = await supabase
+    .from("franchises")
+    .insert({ sport_id: sport, canonical_name: canonicalName })
+    .select("id")
+    .single();
+
+  if (error) {
+    // Might be race condition, try again
+    const { data: retry } = await supabase
+      .from("franchises")
+      .select("id")
+      .eq("sport_id", sport)
+      .eq("canonical_name", canonicalName)
+      .maybeSingle();
+    if (retry) {
+      franchiseCache.set(cacheKey, retry.id);
+      return retry.id;
+    }
+    return null;
+  }
+
+  franchiseCache.set(cacheKey, created.id);
+  return created.id;
 }
 
-// Team cache to avoid duplicate lookups
-const teamCache = new Map<string, string>()
+// Team cache
+const teamCache = new Map<string, string>();
 
-// Find or create team helper
-async function findOrCreateTeam(
+async function getOrCreateTeam(
   supabase: any,
-  sportId: string,
-  providerKey: string,
-  name: string,
-  city?: string
+  sport: string,
+  source: string,
+  abbrev: string
 ): Promise<string | null> {
-  const cacheKey = `${sportId}:${providerKey}`
+  const cacheKey = `${sport}:${abbrev}`;
   if (teamCache.has(cacheKey)) {
-    return teamCache.get(cacheKey)!
+    return teamCache.get(cacheKey)!;
   }
 
-  // First try to find existing team
   const { data: existing } = await supabase
-    .from('teams')
-    .select('id')
-    .eq('sport_id', sportId)
-    .eq('provider_team_key', providerKey)
-    .is('league_id', null)
-    .maybeSingle()
+    .from("teams")
+    .select("id")
+    .eq("sport_id", sport)
+    .in("abbrev", franchiseAbbrevs(sport, abbrev))
+    .limit(1)
+    .maybeSingle();
 
   if (existing) {
-    teamCache.set(cacheKey, existing.id)
-    return existing.id
+    teamCache.set(cacheKey, existing.id);
+    return existing.id;
   }
 
-  // Create new team
+  const name = franchiseName(sport, abbrev) ?? abbrev;
+  const prefix = source === "balldontlie" ? "bdl" : source;
+
   const { data: created, error } = await supabase
-    .from('teams')
+    .from("teams")
     .insert({
-      sport_id: sportId,
-      provider_team_key: providerKey,
-      name: name,
-      city: city || null,
+      sport_id: sport,
+      provider_team_key: `${prefix}-${sport}-${abbrev}`,
+      name,
+      abbrev,
     })
-    .select('id')
-    .single()
+    .select("id")
+    .single();
 
   if (error) {
-    console.error('Team insert error:', error.message)
-    // Try to find again in case of race condition
     const { data: retry } = await supabase
-      .from('teams')
-      .select('id')
-      .eq('sport_id', sportId)
-      .eq('provider_team_key', providerKey)
-      .is('league_id', null)
-      .maybeSingle()
+      .from("teams")
+      .select("id")
+      .eq("sport_id", sport)
+      .eq("abbrev", abbrev)
+      .maybeSingle();
     if (retry) {
-      teamCache.set(cacheKey, retry.id)
-      return retry.id
+      teamCache.set(cacheKey, retry.id);
+      return retry.id;
     }
-    return null
+    return null;
   }
 
-  teamCache.set(cacheKey, created.id)
-  return created.id
+  teamCache.set(cacheKey, created.id);
+  return created.id;
 }
 
-// Process a single season
-async function processSingleSeason(
+/**
+ * Writes a final game and its matchup_games row. Returns whether a row was
+ * inserted or updated; games whose teams can't be resolved are skipped.
+ * NOTE: final_total is a GENERATED column - the DB computes it
+ */
+async function writeFinalGame(
   supabase: any,
-  sportsDataKey: string,
-  sport_id: string,
-  year: number,
-  jobRunId: number | null
-) {
-  const counters = { fetched: 0, upserted: 0, matchups: 0, errors: 0 }
+  sport: string,
+  source: string,
+  game: FinalGame
+): Promise<"inserted" | "updated" | "skipped"> {
+  const homeFranchiseId = await getOrCreateFranchise(supabase, sport, game.home_team_abbrev);
+  const awayFranchiseId = await getOrCreateFranchise(supabase, sport, game.away_team_abbrev);
+  const homeTeamId = await getOrCreateTeam(supabase, sport, source, game.home_team_abbrev);
+  const awayTeamId = await getOrCreateTeam(supabase, sport, source, game.away_team_abbrev);
+  if (!homeTeamId || !awayTeamId) return "skipped";
+
+  const decade = computeDecade(game.season_year);
+  const gameData = {
+    sport_id: sport,
+    provider_game_key: game.provider_game_key,
+    home_team_id: homeTeamId,
+    away_team_id: awayTeamId,
+    home_score: game.home_score,
+    away_score: game.away_score,
+    start_time_utc: game.start_time_utc,
+    status: "final",
+    season_year: game.season_year,
+    decade,
+    is_playoff: game.is_playoff,
+    week_round: game.week_round ?? null,
+    home_franchise_id: homeFranchiseId,
+    away_franchise_id: awayFranchiseId,
+  };
 
-  try {
-    console.log(`[BACKFILL] Processing ${sport_id} season ${year}`)
-
-    let games: GameData[] = []
-
-    if (sport_id === 'nba') {
-      games = await fetchNBASeasonGames(sportsDataKey, year)
-    } else if (sport_id === 'mlb') {
-      games = await fetchMLBSeasonGames(sportsDataKey, year)
-    } else if (sport_id === 'nfl') {
-      games = await fetchNFLSeasonGames(sportsDataKey, year)
-    } else if (sport_id === 'nhl') {
-      games = await fetchNHLSeasonGames(sportsDataKey, year)
+  const { data: existing } = await supabase
+    .from("games")
+    .select("id")
+    .eq("provider_game_key", game.provider_game_key)
+    .maybeSingle();
+
+  let gameId: string;
+  let outcome: "inserted" | "updated";
+  if (existing) {
+    const { error } = await supabase.from("games").update(gameData).eq("id", existing.id);
+    if (error) throw new Error(`Game update failed: ${error.message}`);
+    gameId = existing.id;
+    outcome = "updated";
+  } else {
+    const { data: created, error } = await supabase.from("games").insert(gameData).select("id").single();
+    if (error) {
+      if (error.message?.includes("duplicate")) return "skipped";
+      throw new Error(`Game insert failed: ${error.message}`);
     }
+    gameId = created.id;
+    outcome = "inserted";
+  }
 
-    counters.fetched = games.length
-    console.log(`[BACKFILL] Found ${games.length} games for ${year}`)
+  const [teamLowId, teamHighId] = [homeTeamId, awayTeamId].sort();
+  const [franchiseLowId, franchiseHighId] = homeFranchiseId && awayFranchiseId
+    ? [homeFranchiseId, awayFranchiseId].sort()
+    : [null, null];
+
+  await supabase.from("matchup_games").upsert({
+    game_id: gameId,
+    sport_id: sport,
+    team_low_id: teamLowId,
+    team_high_id: teamHighId,
+    franchise_low_id: franchiseLowId,
+    franchise_high_id: franchiseHighId,
+    total: game.home_score + game.away_score,
+    played_at_utc: game.start_time_utc,
+    season_year: game.season_year,
+    decade,
+  }, { onConflict: "game_id", ignoreDuplicates: true });
+
+  return outcome;
+}
 
-    for (const game of games) {
-      if (game.status !== 'final' || game.home_score === null || game.away_score === null) {
-        continue
-      }
+function isFinal(game: ParsedGame): game is FinalGame {
+  return game.status === "final" && game.home_score !== null && game.away_score !== null
+    && game.season_year !== undefined && game.is_playoff !== undefined;
+}
 
-      try {
-        const homeTeamId = await findOrCreateTeam(
-          supabase, sport_id, game.home_team_key, game.home_team_name, game.home_team_city
-        )
-        const awayTeamId = await findOrCreateTeam(
-          supabase, sport_id, game.away_team_key, game.away_team_name, game.away_team_city
-        )
-
-        if (!homeTeamId || !awayTeamId) continue
-
-        const finalTotal = (game.home_score || 0) + (game.away_score || 0)
-
-        const { data: existingGame } = await supabase
-          .from('games')
-          .select('id')
-          .eq('sport_id', sport_id)
-          .eq('provider_game_key', game.provider_game_key)
-          .is('league_id', null)
-          .maybeSingle()
-
-        let gameId: string
-
-        if (existingGame) {
-          gameId = existingGame.id
-          await supabase
-            .from('games')
-            .update({
-              start_time_utc: game.start_time_utc,
-              home_team_id: homeTeamId,
-              away_team_id: awayTeamId,
-              home_score: game.home_score,
-              away_score: game.away_score,
-              status: 'final',
-              final_total: finalTotal,
-              last_seen_at: new Date().toISOString(),
-            })
-            .eq('id', gameId)
-        } else {
-          const { data: newGame, error: gameError } = await supabase
-            .from('games')
-            .insert({
-              sport_id,
-              provider_game_key: game.provider_game_key,
-              start_time_utc: game.start_time_utc,
-              home_team_id: homeTeamId,
-              away_team_id: awayTeamId,
-              home_score: game.home_score,
-              away_score: game.away_score,
-              status: 'final',
-              final_total: finalTotal,
-              last_seen_at: new Date().toISOString(),
-            })
-            .select('id')
-            .single()
-
-          if (gameError || !newGame) continue
-          gameId = newGame.id
-        }
+// ============================================================
+// UNITS
+// ============================================================
 
-        counters.upserted++
-
-        const [teamLowId, teamHighId] = [homeTeamId, awayTeamId].sort()
-
-        const { data: existingMg } = await supabase
-          .from('matchup_games')
-          .select('id')
-          .eq('sport_id', sport_id)
-          .eq('team_low_id', teamLowId)
-          .eq('team_high_id', teamHighId)
-          .eq('game_id', gameId)
-          .is('league_id', null)
-          .maybeSingle()
-
-        if (!existingMg) {
-          await supabase
-            .from('matchup_games')
-            .insert({
-              sport_id,
-              team_low_id: teamLowId,
-              team_high_id: teamHighId,
-              game_id: gameId,
-              played_at_utc: game.start_time_utc,
-              total: finalTotal,
-            })
-
-          counters.matchups++
-        }
-      } catch (gameErr) {
-        counters.errors++
-      }
+// ESPN: one scoreboard a day, checkpointed at the next date
+async function runEspnGames(ctx: RunContext, unit: BackfillUnit, checkpoint: Checkpoint): Promise<boolean> {
+  const { sport, scope } = ctx.plan;
+  const start = unit.checkpoint.next_date ?? unit.date_from!;
+  let rows = unit.rows_written;
+
+  for (const date of dateRange(start, unit.date_to!)) {
+    if (Date.now() > ctx.deadline) return false;
+
+    const response = await ctx.espn.scores({ sport, date });
+    if (!response.ok) throw new Error(`ESPN ${sport} ${date}: ${response.status} ${response.error ?? ""}`.trim());
+
+    const seasonYear = unit.season_year ?? seasonOn(sport, date, "espn");
+    for (const game of parseEspnScoreboard(sport, response.payload, seasonYear)) {
+      if (!inScope(scope, game.is_playoff)) continue;
+      if ((await writeFinalGame(ctx.supabase, sport, "espn", game)) !== "skipped") rows++;
     }
 
-    // Update job run as success
-    if (jobRunId) {
-      await supabase
-        .from('job_runs')
-        .update({
-          finished_at: new Date().toISOString(),
-          status: 'success',
-          details: { 
-            sport_id, 
-            year,
-            counters,
-          }
-        })
-        .eq('id', jobRunId)
+    const next = dateRange(date, unit.date_to!)[1];
+    if (next) await checkpoint({ next_date: next }, rows);
+    else await checkpoint(unit.checkpoint, rows);
+  }
+  return true;
+}
+
+// BallDontLie: a season (or a few dates) paged by cursor
+async function runBdlGames(ctx: RunContext, unit: BackfillUnit, checkpoint: Checkpoint): Promise<boolean> {
+  const { sport, scope } = ctx.plan;
+  const dates = unit.date_from && unit.date_to ? dateRange(unit.date_from, unit.date_to) : undefined;
+  let cursor = unit.checkpoint.cursor ?? null;
+  let rows = unit.rows_written;
+
+  while (true) {
+    if (Date.now() > ctx.deadline) return false;
+
+    const response = await ctx.bdl.schedule({
+      sport,
+      season: unit.season_year ?? undefined,
+      dates,
+      perPage: 100,
+      cursor,
+    });
+    if (!response.ok) throw new Error(`BallDontLie ${sport}: ${response.status} ${response.error ?? ""}`.trim());
+
+    const page = response.payload as BdlPage<BDLGame>;
+    for (const raw of page.data || []) {
+      const game = parseBdlGame(sport, raw);
+      if (!game || !isFinal(game) || !inScope(scope, game.is_playoff)) continue;
+      if ((await writeFinalGame(ctx.supabase, sport, "balldontlie", game)) !== "skipped") rows++;
     }
 
-    console.log(`[BACKFILL] Season ${year} complete: ${JSON.stringify(counters)}`)
-    return counters
-  } catch (error) {
-    console.error('[BACKFILL] Error in season processing:', error)
-    
-    if (jobRunId) {
-      await supabase
-        .from('job_runs')
-        .update({
-          finished_at: new Date().toISOString(),
-          status: 'fail',
-          details: { error: error instanceof Error ? error.message : 'Unknown error', counters, year }
-        })
-        .eq('id', jobRunId)
+    cursor = page.meta?.next_cursor ?? null;
+    await checkpoint(cursor ? { cursor } : {}, rows);
+    if (!cursor) return true;
+  }
+}
+
+// Known results for the season onto team_seasons.playoff_result
+async function runPlayoffResults(ctx: RunContext, unit: BackfillUnit, checkpoint: Checkpoint): Promise<boolean> {
+  const { sport } = ctx.plan;
+  const entries = playoffResultsFor(sport, [unit.season_year!]);
+
+  const { data: teams, error: teamsError } = await ctx.supabase
+    .from("teams")
+    .select("id, name, abbrev")
+    .eq("sport_id", sport);
+  if (teamsError) throw new Error(teamsError.message);
+
+  // Key teams by registry key, from either name or abbrev (name is the primary storage)
+  const teamMap = new Map<string, string>();
+  for (const t of (teams || []) as Array<{ id: string; name: string; abbrev: string | null }>) {
+    const key = teamKey(sport, t.name) ?? teamKey(sport, t.abbrev);
+    if (key && !teamMap.has(key)) teamMap.set(key, t.id);
+  }
+
+  let rows = unit.rows_written;
+  for (let i = unit.checkpoint.offset ?? 0; i < entries.length; i++) {
+    if (Date.now() > ctx.deadline) return false;
+    const entry = entries[i];
+    const key = teamKey(sport, entry.team_abbrev);
+    const teamId = key ? teamMap.get(key) : undefined;
+
+    if (teamId) {
+      const { error } = await ctx.supabase
+        .from("team_seasons")
+        .update({ playoff_result: entry.playoff_result })
+        .eq("team_id", teamId)
+        .eq("season_year", entry.season_year)
+        .eq("sport_id", sport);
+      if (error) throw new Error(`team_seasons ${entry.team_abbrev} ${entry.season_year}: ${error.message}`);
+      rows++;
+    } else {
+      console.log(`[BACKFILL] Team not found for playoff result: ${sport} ${entry.team_abbrev}`);
     }
-    
-    throw error
+    await checkpoint({ offset: i + 1 }, rows);
   }
+  return true;
 }
 
-// Compute matchup stats for a sport
-async function computeMatchupStats(supabase: any, sport_id: string) {
-  console.log(`[BACKFILL] Computing matchup stats for ${sport_id}...`)
-  
-  const { data: matchups } = await supabase
-    .from('matchup_games')
-    .select('sport_id, team_low_id, team_high_id')
-    .eq('sport_id', sport_id)
-  
-  const uniqueMatchups = new Set<string>()
-  matchups?.forEach((m: any) => {
-    uniqueMatchups.add(`${m.sport_id}|${m.team_low_id}|${m.team_high_id}`)
-  })
-
-  console.log(`[BACKFILL] Found ${uniqueMatchups.size} unique matchups`)
-
-  for (const key of uniqueMatchups) {
-    const [sportId, teamLowId, teamHighId] = key.split('|')
-    
-    const { data: matchupGames } = await supabase
-      .from('matchup_games')
-      .select('total')
-      .eq('sport_id', sportId)
-      .eq('team_low_id', teamLowId)
-      .eq('team_high_id', teamHighId)
-      .is('league_id', null)
-
-    if (matchupGames && matchupGames.length > 0) {
-      const totals = matchupGames.map((mg: any) => Number(mg.total)).sort((a: number, b: number) => a - b)
-      const n = totals.length
-
-      const p05Index = Math.max(1, Math.ceil(0.05 * n)) - 1
-      const p95Index = Math.max(1, Math.ceil(0.95 * n)) - 1
-      const medianIndex = Math.floor(n / 2)
-
-      const { data: existingStats } = await supabase
-        .from('matchup_stats')
-        .select('id')
-        .eq('sport_id', sportId)
-        .eq('team_low_id', teamLowId)
-        .eq('team_high_id', teamHighId)
-        .is('league_id', null)
-        .maybeSingle()
-
-      const statsData = {
-        n_games: n,
-        p05: totals[p05Index],
-        p95: totals[p95Index],
-        median: n % 2 === 0 ? (totals[medianIndex - 1] + totals[medianIndex]) / 2 : totals[medianIndex],
-        min_total: totals[0],
-        max_total: totals[n - 1],
-        updated_at: new Date().toISOString(),
-      }
+// Rosters stay with backfill-rosters; a unit is one season of it
+async function runRosters(ctx: RunContext, unit: BackfillUnit, checkpoint: Checkpoint): Promise<boolean> {
+  const { sport } = ctx.plan;
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/backfill-rosters?sport=${sport}&season=${unit.season_year}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+    body: JSON.stringify({}),
+  });
+  if (!response.ok) {
+    throw new Error(`backfill-rosters ${response.status}: ${await response.text().catch(() => "Unknown error")}`);
+  }
 
-      if (existingStats) {
-        await supabase
-          .from('matchup_stats')
-          .update(statsData)
-          .eq('id', existingStats.id)
-      } else {
-        await supabase
-          .from('matchup_stats')
-          .insert({
-            sport_id: sportId,
-            team_low_id: teamLowId,
-            team_high_id: teamHighId,
-            ...statsData,
-          })
-      }
+  const data = await response.json();
+  const result = data.results?.[sport] ?? { processed: 0, errors: 0 };
+  if (result.processed === 0 && result.errors > 0) throw new Error(`backfill-rosters: ${result.errors} teams failed`);
+  await checkpoint({ offset: 1 }, result.processed);
+  return true;
+}
+
+// Segmented matchup_stats recomputed from matchup_games, checkpointed by matchup
+async function runStats(ctx: RunContext, unit: BackfillUnit, checkpoint: Checkpoint): Promise<boolean> {
+  const { sport } = ctx.plan;
+
+  const { data: matchups } = await ctx.supabase
+    .from("matchup_games")
+    .select("franchise_low_id, franchise_high_id")
+    .eq("sport_id", sport)
+    .not("franchise_low_id", "is", null)
+    .not("franchise_high_id", "is", null);
+
+  const uniqueMatchups = new Map<string, { lowId: string; highId: string }>();
+  for (const m of (matchups || []) as Array<{ franchise_low_id: string; franchise_high_id: string }>) {
+    const key = `${m.franchise_low_id}|${m.franchise_high_id}`;
+    if (!uniqueMatchups.has(key)) {
+      uniqueMatchups.set(key, { lowId: m.franchise_low_id, highId: m.franchise_high_id });
     }
   }
+  // Sorted so the offset checkpoint means the same thing across runs
+  const ordered = Array.from(uniqueMatchups.entries()).sort(([a], [b]) => a.localeCompare(b)).map(([, m]) => m);
+
+  const currentYear = new Date().getFullYear();
+  const segments = [
+    { key: "h2h_all", filter: () => true },
+    { key: "h2h_3y", filter: (year: number) => year >= currentYear - 3 },
+    { key: "h2h_2y", filter: (year: number) => year >= currentYear - 2 },
+  ];
+
+  let rows = unit.rows_written;
+  for (let i = unit.checkpoint.offset ?? 0; i < ordered.length; i++) {
+    if (Date.now() > ctx.deadline) return false;
+    const matchup = ordered[i];
+
+    const { data: games } = await ctx.supabase
+      .from("matchup_games")
+      .select("total, season_year")
+      .eq("sport_id", sport)
+      .eq("franchise_low_id", matchup.lowId)
+      .eq("franchise_high_id", matchup.highId);
+
+    for (const segment of segments) {
+      const filtered = ((games || []) as Array<{ total: number; season_year: number }>).filter(g => segment.filter(g.season_year));
+      if (filtered.length === 0) continue;
+
+      const totals = filtered.map(m => Number(m.total));
+      const { p05, p95, median, min, max } = computePercentiles(totals);
+
+      await ctx.supabase.from("matchup_stats").upsert({
+        sport_id: sport,
+        franchise_low_id: matchup.lowId,
+        franchise_high_id: matchup.highId,
+        team_low_id: matchup.lowId, // For backwards compatibility
+        team_high_id: matchup.highId,
+        segment_key: segment.key,
+        n_games: totals.length,
+        p05,
+        p95,
+        median,
+        min_total: min,
+        max_total: max,
+        distribution: buildSketch(totals),
+        updated_at: new Date().toISOString(),
+      }, {
+        onConflict: "sport_id,franchise_low_id,franchise_high_id,segment_key",
+        ignoreDuplicates: false,
+      });
+      rows++;
+    }
 
-  console.log(`[BACKFILL] Matchup stats computation complete for ${sport_id}`)
+    // Every 25 matchups is often enough for a resume to lose little
+    if ((i + 1) % 25 === 0 || i === ordered.length - 1) await checkpoint({ offset: i + 1 }, rows);
+  }
+  return true;
 }
 
-Deno.serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders })
+function runUnit(ctx: RunContext, unit: BackfillUnit, checkpoint: Checkpoint): Promise<boolean> {
+  switch (unit.kind) {
+    case "games":
+      return ctx.plan.source === "balldontlie" ? runBdlGames(ctx, unit, checkpoint) : runEspnGames(ctx, unit, checkpoint);
+    case "playoff_results":
+      return runPlayoffResults(ctx, unit, checkpoint);
+    case "rosters":
+      return runRosters(ctx, unit, checkpoint);
+    case "stats":
+      return runStats(ctx, unit, checkpoint);
   }
+}
 
-  const supabase = createClient(
-    Deno.env.get('SUPABASE_URL') ?? '',
-    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-  )
+// ============================================================
+// PLAN
+// ============================================================
 
-  try {
-    const sportsDataKey = Deno.env.get('SPORTSDATAIO_KEY')
-    if (!sportsDataKey) {
-      throw new Error('SPORTSDATAIO_KEY not configured')
-    }
+async function loadUnits(supabase: any, planId: number): Promise<BackfillUnit[]> {
+  const { data, error } = await supabase
+    .from("backfill_units")
+    .select("*")
+    .eq("plan_id", planId)
+    .order("id", { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data || []) as BackfillUnit[];
+}
 
-    const { sport_id, year, compute_stats } = await req.json()
-    
-    if (!sport_id) {
-      throw new Error('sport_id is required')
-    }
+// What LiveJobProgress reads: unit counts for the bar, rows under the sport
+async function reportProgress(supabase: any, plan: PlanRow, units: BackfillUnit[], currentUnit: string | null) {
+  const progress = planProgress(units);
+  const now = new Date().toISOString();
+  await supabase.from("backfill_plans").update({ updated_at: now }).eq("id", plan.id);
+  if (!plan.job_run_id) return;
+  await supabase.from("job_runs").update({
+    details: {
+      plan_id: plan.id,
+      sport: plan.sport,
+      source: plan.source,
+      scope: plan.scope,
+      seasons: plan.seasons,
+      current_unit: currentUnit,
+      units: progress,
+      counters: {
+        inserted: progress.rows_written,
+        errors: progress.failed,
+        [plan.sport]: progress.rows_written,
+      },
+    },
+  }).eq("id", plan.job_run_id);
+}
 
-    const maxYears = MAX_YEARS_HISTORY[sport_id]
-    if (!maxYears) {
-      throw new Error(`Unknown sport: ${sport_id}. Supported: nfl, nba, mlb, nhl`)
+// Data integrity after a games plan: null or mismatched totals, missing franchises
+async function validateGameData(supabase: any, sport: string) {
+  const issues: string[] = [];
+
+  const { count: nullTotals } = await supabase
+    .from("games")
+    .select("*", { count: "exact", head: true })
+    .eq("sport_id", sport)
+    .is("final_total", null)
+    .eq("status", "final");
+  if (nullTotals) issues.push(`${nullTotals} games with null final_total`);
+
+  const { count: nullFranchises } = await supabase
+    .from("games")
+    .select("*", { count: "exact", head: true })
+    .eq("sport_id", sport)
+    .or("home_franchise_id.is.null,away_franchise_id.is.null");
+  if (nullFranchises) issues.push(`${nullFranchises} games missing franchise IDs`);
+
+  const { data: teams } = await supabase
+    .from("teams")
+    .select("abbrev, name")
+    .eq("sport_id", sport);
+  const unmappedTeams = ((teams || []) as Array<{ abbrev: string | null; name: string }>)
+    .filter(t => t.abbrev && !franchiseName(sport, t.abbrev))
+    .map(t => `${t.abbrev} (${t.name})`);
+  if (unmappedTeams.length) issues.push(`${unmappedTeams.length} team abbreviations without a franchise`);
+
+  return { null_totals: nullTotals || 0, null_franchises: nullFranchises || 0, unmapped_teams: unmappedTeams.slice(0, 20), issues };
+}
+
+async function finishPlan(supabase: any, plan: PlanRow, units: BackfillUnit[]) {
+  const progress = planProgress(units);
+  const status = planStatus(progress);
+  const finishedAt = new Date().toISOString();
+
+  let summary: Record<string, unknown> = { units: progress };
+  if (plan.scope !== "rosters" && plan.scope !== "stats") {
+    summary = { ...summary, validation: await validateGameData(supabase, plan.sport) };
+
+    // Seasons whose every unit landed are complete once their window has passed
+    const today = slateDate(new Date());
+    for (const season of plan.seasons) {
+      const seasonUnits = units.filter(u => u.season_year === season);
+      const window = seasonWindow(plan.sport, season, plan.source);
+      if (!seasonUnits.every(u => u.status === "done") || window.end >= today) continue;
+      const { count } = await supabase
+        .from("games")
+        .select("*", { count: "exact", head: true })
+        .eq("sport_id", plan.sport)
+        .eq("season_year", season)
+        .eq("status", "final");
+      await supabase.from("seasons").update({
+        games_count: count ?? 0,
+        is_complete: true,
+        updated_at: finishedAt,
+      }).eq("sport_id", plan.sport).eq("season_year", season);
     }
+  }
 
-    // Clear team cache
-    teamCache.clear()
-
-    // If compute_stats is true, just compute matchup stats
-    if (compute_stats) {
-      console.log(`[BACKFILL] Computing stats for ${sport_id}`)
-      
-      const { data: jobRun } = await supabase
-        .from('job_runs')
-        .insert({ 
-          job_name: 'backfill-stats', 
-          details: { sport_id, action: 'compute_stats' } 
-        })
-        .select()
-        .single()
-
-      // @ts-ignore
-      EdgeRuntime.waitUntil((async () => {
-        try {
-          await computeMatchupStats(supabase, sport_id)
-          await supabase.from('job_runs').update({
-            finished_at: new Date().toISOString(),
-            status: 'success',
-            details: { sport_id, action: 'compute_stats' }
-          }).eq('id', jobRun?.id)
-        } catch (e) {
-          await supabase.from('job_runs').update({
-            finished_at: new Date().toISOString(),
-            status: 'fail',
-            details: { sport_id, error: e instanceof Error ? e.message : 'Unknown' }
-          }).eq('id', jobRun?.id)
-        }
-      })())
+  await supabase.from("backfill_plans").update({
+    status,
+    summary,
+    updated_at: finishedAt,
+    finished_at: finishedAt,
+  }).eq("id", plan.id);
+
+  if (plan.job_run_id) {
+    await supabase.from("job_runs").update({
+      status,
+      finished_at: finishedAt,
+      details: {
+        plan_id: plan.id,
+        sport: plan.sport,
+        source: plan.source,
+        scope: plan.scope,
+        seasons: plan.seasons,
+        units: progress,
+        counters: { inserted: progress.rows_written, errors: progress.failed, [plan.sport]: progress.rows_written },
+        failed_units: units.filter(u => u.status === "failed").map(u => ({ unit_key: u.unit_key, error: u.last_error })),
+        ...summary,
+      },
+    }).eq("id", plan.job_run_id);
+  }
 
-      return new Response(
-        JSON.stringify({ 
-          success: true, 
-          message: `Computing matchup stats for ${sport_id}`,
-          job_id: jobRun?.id
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+  console.log(`[BACKFILL] Plan ${plan.id} ${status}: ${progress.done}/${progress.total} units, ${progress.rows_written} rows`);
+}
+
+// Hands the rest of the plan to a fresh invocation
+async function continuePlan(planId: number) {
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/backfill`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+    body: JSON.stringify({ plan_id: planId }),
+  }).catch((err) => {
+    // The plan stays running; the next resume sweep picks it up once its units go stale
+    console.error(`[BACKFILL] Could not continue plan ${planId}:`, err);
+    return null;
+  });
+  await response?.body?.cancel();
+}
+
+/**
+ * Works through a plan's units until none are left or the run budget is
+ * spent. Each unit is claimed by bumping its attempts, checkpoints as it
+ * goes, and goes back to pending when the budget runs out mid-unit.
+ */
+async function runPlan(supabase: any, plan: PlanRow) {
+  const startedAt = Date.now();
+  const providerMode = Deno.env.get("PROVIDER_MODE");
+  const transport = rateLimitedTransport(providerTransport(providerMode, supabase, {
+    balldontlie: Deno.env.get("BALLDONTLIE_KEY"),
+  }));
+  const ctx: RunContext = {
+    supabase,
+    plan,
+    espn: espnProvider(transport),
+    bdl: ballDontLieProvider(transport),
+    deadline: startedAt + RUN_BUDGET_MS,
+  };
+
+  franchiseCache.clear();
+  teamCache.clear();
+
+  while (true) {
+    const units = await loadUnits(supabase, plan.id);
+
+    for (const unit of exhaustedUnits(units, Date.now())) {
+      await supabase.from("backfill_units").update({
+        status: "failed",
+        last_error: unit.last_error ?? `Timed out ${unit.attempts} times`,
+        finished_at: new Date().toISOString(),
+      }).eq("id", unit.id).eq("status", "running");
     }
 
-    // If year is specified, process just that season
-    if (year) {
-      console.log(`[BACKFILL] Single season mode: ${sport_id} ${year}`)
-      
-      const { data: jobRun } = await supabase
-        .from('job_runs')
-        .insert({ 
-          job_name: 'backfill', 
-          details: { sport_id, year, status: 'running' } 
-        })
-        .select()
-        .single()
-
-      // @ts-ignore
-      EdgeRuntime.waitUntil(processSingleSeason(supabase, sportsDataKey, sport_id, year, jobRun?.id))
+    const unit = nextUnit(units, Date.now());
+    if (!unit) break;
+    if (Date.now() > ctx.deadline) {
+      await reportProgress(supabase, plan, units, null);
+      await continuePlan(plan.id);
+      return;
+    }
 
-      return new Response(
-        JSON.stringify({ 
-          success: true, 
-          message: `Backfill started for ${sport_id} season ${year}`,
-          job_id: jobRun?.id
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    // Claim: only one run moves a unit out of the state it was read in
+    const { data: claimed } = await supabase
+      .from("backfill_units")
+      .update({
+        status: "running",
+        attempts: unit.attempts + 1,
+        ...(unit.attempts === 0 ? { started_at: new Date().toISOString() } : {}),
+        heartbeat_at: new Date().toISOString(),
+      })
+      .eq("id", unit.id)
+      .eq("status", unit.status)
+      .eq("attempts", unit.attempts)
+      .select("id");
+    if (!claimed?.length) continue;
+
+    console.log(`[BACKFILL] Plan ${plan.id} unit ${unit.unit_key} (attempt ${unit.attempts + 1})`);
+    await reportProgress(supabase, plan, units.map(u => u.id === unit.id ? { ...u, status: "running" } : u), unit.unit_key);
+
+    const checkpoint: Checkpoint = async (next, rows) => {
+      unit.checkpoint = next;
+      unit.rows_written = rows;
+      await supabase.from("backfill_units").update({
+        checkpoint: next,
+        rows_written: rows,
+        heartbeat_at: new Date().toISOString(),
+      }).eq("id", unit.id);
+    };
+
+    try {
+      const finished = await runUnit(ctx, unit, checkpoint);
+      await supabase.from("backfill_units").update(finished
+        ? { status: "done", last_error: null, finished_at: new Date().toISOString() }
+        // Out of time mid-unit: the attempt doesn't count against it
+        : { status: "pending", attempts: unit.attempts }
+      ).eq("id", unit.id);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      const attempts = unit.attempts + 1;
+      console.error(`[BACKFILL] Unit ${unit.unit_key} failed (attempt ${attempts}): ${message}`);
+      await supabase.from("backfill_units").update(attempts >= MAX_UNIT_ATTEMPTS
+        ? { status: "failed", last_error: message, finished_at: new Date().toISOString() }
+        : { status: "pending", last_error: message }
+      ).eq("id", unit.id);
     }
+  }
 
-    // Default: return available years for this sport
-    const currentYear = new Date().getFullYear()
-    const years = Array.from({ length: maxYears }, (_, i) => currentYear - i)
-    
-    return new Response(
-      JSON.stringify({ 
-        sport_id,
-        available_years: years,
-        message: `Use { "sport_id": "${sport_id}", "year": YYYY } to backfill a specific season`
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
-  } catch (error) {
-    console.error('[BACKFILL] Error:', error)
-    
-    const message = error instanceof Error ? error.message : 'Unknown error'
-    return new Response(
-      JSON.stringify({ error: message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+  const units = await loadUnits(supabase, plan.id);
+  if (planStatus(planProgress(units)) === "running") {
+    // Another run holds the remaining units
+    await reportProgress(supabase, plan, units, null);
+    return;
   }
-})
+  await finishPlan(supabase, plan, units);
+}
 
-// ============================================================
-// SPORT-SPECIFIC FETCH FUNCTIONS
-// ============================================================
+async function createPlan(supabase: any, plan: BackfillPlan): Promise<{ row: PlanRow; units: number }> {
+  const units = planUnits(plan, slateDate(new Date()));
 
-async function fetchNBASeasonGames(apiKey: string, year: number): Promise<GameData[]> {
-  const url = `https://api.sportsdata.io/v3/nba/scores/json/Games/${year}`
-  
-  const response = await fetchWithRetry(url, {
-    headers: { 'Ocp-Apim-Subscription-Key': apiKey }
-  })
+  const { data: jobRun } = await supabase
+    .from("job_runs")
+    .insert({
+      job_name: "backfill",
+      status: "running",
+      details: { sport: plan.sport, source: plan.source, scope: plan.scope, seasons: plan.seasons },
+    })
+    .select("id")
+    .single();
 
-  if (!response.ok) {
-    console.error('NBA API error:', response.status)
-    return []
+  const { data: row, error } = await supabase
+    .from("backfill_plans")
+    .insert({
+      sport_id: plan.sport,
+      seasons: plan.seasons,
+      source: plan.source,
+      scope: plan.scope,
+      date_from: plan.date_from ?? null,
+      date_to: plan.date_to ?? null,
+      job_run_id: jobRun?.id ?? null,
+    })
+    .select("id")
+    .single();
+  if (error) throw new Error(`Plan insert failed: ${error.message}`);
+
+  if (units.length) {
+    const { error: unitsError } = await supabase
+      .from("backfill_units")
+      .insert(units.map(u => ({ ...u, plan_id: row.id })));
+    if (unitsError) throw new Error(`Unit insert failed: ${unitsError.message}`);
+  }
+
+  // Season rows carry the window games were fetched over
+  if (plan.scope !== "rosters" && plan.scope !== "stats") {
+    for (const season of plan.seasons) {
+      const window = seasonWindow(plan.sport, season, plan.source);
+      await supabase.from("seasons").upsert({
+        sport_id: plan.sport,
+        season_year: season,
+        start_date: window.start,
+        end_date: window.end,
+      }, { onConflict: "sport_id,league_id,season_year" });
+    }
   }
 
-  const data = await response.json()
-  
-  return data.map((game: any) => ({
-    provider_game_key: String(game.GameID),
-    start_time_utc: game.DateTimeUTC || game.DateTime || game.Day,
-    home_team_key: game.HomeTeamID ? String(game.HomeTeamID) : game.HomeTeam,
-    away_team_key: game.AwayTeamID ? String(game.AwayTeamID) : game.AwayTeam,
-    home_team_name: game.HomeTeam,
-    away_team_name: game.AwayTeam,
-    home_score: game.HomeTeamScore,
-    away_score: game.AwayTeamScore,
-    status: game.Status === 'Final' ? 'final' : game.Status === 'InProgress' ? 'live' : 'scheduled',
-  }))
+  return { row: { ...plan, id: row.id, job_run_id: jobRun?.id ?? null, status: "running" }, units: units.length };
 }
 
-async function fetchMLBSeasonGames(apiKey: string, year: number): Promise<GameData[]> {
-  const url = `https://api.sportsdata.io/v3/mlb/scores/json/Games/${year}`
-  
-  const response = await fetchWithRetry(url, {
-    headers: { 'Ocp-Apim-Subscription-Key': apiKey }
-  })
+async function loadPlan(supabase: any, planId: number): Promise<PlanRow | null> {
+  const { data } = await supabase
+    .from("backfill_plans")
+    .select("id, sport_id, seasons, source, scope, date_from, date_to, status, job_run_id")
+    .eq("id", planId)
+    .maybeSingle();
+  if (!data) return null;
+  const { sport_id, ...rest } = data;
+  return { ...rest, sport: sport_id };
+}
 
-  if (!response.ok) {
-    console.error('MLB API error:', response.status)
-    return []
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
   }
 
-  const data = await response.json()
-  
-  return data.map((game: any) => ({
-    provider_game_key: String(game.GameID),
-    start_time_utc: game.DateTimeUTC || game.DateTime || game.Day,
-    home_team_key: game.HomeTeamID ? String(game.HomeTeamID) : game.HomeTeam,
-    away_team_key: game.AwayTeamID ? String(game.AwayTeamID) : game.AwayTeam,
-    home_team_name: game.HomeTeam,
-    away_team_name: game.AwayTeam,
-    home_score: game.HomeTeamRuns,
-    away_score: game.AwayTeamRuns,
-    status: game.Status === 'Final' ? 'final' : game.Status === 'InProgress' ? 'live' : 'scheduled',
-  }))
-}
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 
-async function fetchNFLSeasonGames(apiKey: string, year: number): Promise<GameData[]> {
-  const season = `${year}REG`
-  const allGames: GameData[] = []
-
-  // NFL has up to 18 weeks in regular season
-  for (let week = 1; week <= 18; week++) {
-    const url = `https://api.sportsdata.io/v3/nfl/scores/json/ScoresByWeek/${season}/${week}`
-    
+  try {
+    let requestBody: { plan?: unknown; plan_id?: number; resume?: boolean } = {};
     try {
-      const response = await fetchWithRetry(url, {
-        headers: { 'Ocp-Apim-Subscription-Key': apiKey }
-      })
-
-      if (!response.ok) continue
-
-      const data = await response.json()
-      
-      const games = data.map((game: any) => ({
-        provider_game_key: String(game.GameKey || game.ScoreID),
-        start_time_utc: game.DateTimeUTC || game.DateTime || game.Date,
-        home_team_key: game.HomeTeamID ? String(game.HomeTeamID) : game.HomeTeam,
-        away_team_key: game.AwayTeamID ? String(game.AwayTeamID) : game.AwayTeam,
-        home_team_name: game.HomeTeam,
-        away_team_name: game.AwayTeam,
-        home_score: game.HomeScore,
-        away_score: game.AwayScore,
-        status: game.Status === 'Final' ? 'final' : game.Status === 'InProgress' ? 'live' : 'scheduled',
-      }))
-
-      allGames.push(...games)
+      requestBody = await req.json();
     } catch {
-      // Skip failed weeks, continue
+      // Empty body resumes stalled plans
     }
-  }
 
-  return allGames
-}
+    // New plan: persist it and its units, then start working in the background
+    if (requestBody.plan) {
+      const parsed = parsePlan(requestBody.plan);
+      if ("error" in parsed) {
+        return new Response(
+          JSON.stringify({ success: false, error: parsed.error }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
 
-async function fetchNHLSeasonGames(apiKey: string, year: number): Promise<GameData[]> {
-  const url = `https://api.sportsdata.io/v3/nhl/scores/json/Games/${year}`
-  
-  const response = await fetchWithRetry(url, {
-    headers: { 'Ocp-Apim-Subscription-Key': apiKey }
-  })
+      const { row, units } = await createPlan(supabase, parsed.plan);
+      console.log(`[BACKFILL] Plan ${row.id}: ${row.sport} ${row.scope} from ${row.source}, ${units} units`);
+      EdgeRuntime.waitUntil(runPlan(supabase, row));
 
-  if (!response.ok) {
-    console.error('NHL API error:', response.status)
-    return []
-  }
+      return new Response(
+        JSON.stringify({ success: true, plan_id: row.id, job_id: row.job_run_id, units, plan: parsed.plan }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
-  const data = await response.json()
-  
-  return data.map((game: any) => ({
-    provider_game_key: String(game.GameID),
-    start_time_utc: game.DateTimeUTC || game.DateTime || game.Day,
-    home_team_key: game.HomeTeamID ? String(game.HomeTeamID) : game.HomeTeam,
-    away_team_key: game.AwayTeamID ? String(game.AwayTeamID) : game.AwayTeam,
-    home_team_name: game.HomeTeam,
-    away_team_name: game.AwayTeam,
-    home_score: game.HomeTeamScore,
-    away_score: game.AwayTeamScore,
-    status: game.Status === 'Final' ? 'final' : game.Status === 'InProgress' ? 'live' : 'scheduled',
-  }))
-}
+    // Continue one plan (the previous run handing over, or a manual resume)
+    if (requestBody.plan_id) {
+      const plan = await loadPlan(supabase, requestBody.plan_id);
+      if (!plan) {
+        return new Response(
+          JSON.stringify({ success: false, error: `Backfill plan ${requestBody.plan_id} not found` }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      if (plan.status !== "running") {
+        return new Response(
+          JSON.stringify({ success: true, plan_id: plan.id, status: plan.status }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      EdgeRuntime.waitUntil(runPlan(supabase, plan));
+      return new Response(
+        JSON.stringify({ success: true, plan_id: plan.id, status: "running" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Resume sweep: running plans nothing has touched since their units went stale
+    const staleBefore = new Date(Date.now() - UNIT_STALE_MS).toISOString();
+    const { data: stalled } = await supabase
+      .from("backfill_plans")
+      .select("id")
+      .eq("status", "running")
+      .lt("updated_at", staleBefore)
+      .order("id", { ascending: true });
+
+    const planIds = ((stalled || []) as Array<{ id: number }>).map(p => p.id);
+    if (planIds.length) {
+      console.log(`[BACKFILL] Resuming stalled plans: ${planIds.join(", ")}`);
+      EdgeRuntime.waitUntil((async () => {
+        for (const id of planIds) {
+          const plan = await loadPlan(supabase, id);
+          if (plan) await runPlan(supabase, plan);
+        }
+      })());
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, resumed: planIds }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("[BACKFILL] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return new Response(
+      JSON.stringify({ success: false, error: message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
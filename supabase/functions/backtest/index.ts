@@ -0,0 +1,181 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { normalizeStrategy, runBacktest, type BacktestGame, type BacktestQuote } from '../_shared/backtest.ts'
+import { pointInTimeEdges, resolveSnapshotCutoff } from '../_shared/edgeSnapshots.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const PAGE_SIZE = 1000 // PostgREST row cap per request
+const SNAPSHOT_GAME_CHUNK = 100 // game ids per edge_snapshots query
+const MAX_LEDGER_ROWS = 5000 // ledger rows returned; summary always covers every bet
+
+interface SnapshotRow {
+  id: number
+  game_id: string
+  snapshot_at: string
+  p05: number | null
+  p95: number | null
+  distribution: BacktestQuote['distribution']
+  segment_used: string | null
+  n_used: number | null
+  dk_total_line: number | null
+  dk_over_price: number | null
+  dk_under_price: number | null
+  dk_line_percentile: number | null
+}
+
+function toQuote(snapshot: SnapshotRow | undefined): BacktestQuote | null {
+  if (!snapshot || snapshot.dk_total_line === null) return null
+  return {
+    line: Number(snapshot.dk_total_line),
+    over_price: snapshot.dk_over_price,
+    under_price: snapshot.dk_under_price,
+    dk_line_percentile: snapshot.dk_line_percentile === null ? null : Number(snapshot.dk_line_percentile),
+    distribution: snapshot.distribution,
+    n_used: snapshot.n_used,
+    segment_used: snapshot.segment_used,
+  }
+}
+
+// Every snapshot for a set of games, paged past the row cap
+async function fetchSnapshots(supabase: any, gameIds: string[]): Promise<SnapshotRow[]> {
+  const rows: SnapshotRow[] = []
+  for (let i = 0; i < gameIds.length; i += SNAPSHOT_GAME_CHUNK) {
+    const chunk = gameIds.slice(i, i + SNAPSHOT_GAME_CHUNK)
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('edge_snapshots')
+        .select('id, game_id, snapshot_at, p05, p95, distribution, segment_used, n_used, dk_total_line, dk_over_price, dk_under_price, dk_line_percentile')
+        .in('game_id', chunk)
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1)
+      if (error) throw error
+      rows.push(...(data || []))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+  }
+  return rows
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    )
+
+    let requestBody: {
+      sport_id?: string
+      start_date?: string
+      end_date?: string
+      decision_cutoff?: string
+      strategy?: unknown
+    } = {}
+    try {
+      requestBody = await req.json()
+    } catch {
+      // Empty body OK
+    }
+
+    const sportId = requestBody.sport_id
+    if (!sportId) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'sport_id is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    let strategy
+    try {
+      strategy = normalizeStrategy(requestBody.strategy)
+    } catch (err) {
+      return new Response(
+        JSON.stringify({ success: false, error: err instanceof Error ? err.message : 'Invalid strategy' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const cutoff = resolveSnapshotCutoff(requestBody.decision_cutoff)
+    const startDate = requestBody.start_date ?? null
+    const endDate = requestBody.end_date ?? null
+
+    console.log(`[BACKTEST] ${sportId} ${startDate ?? 'start'}..${endDate ?? 'now'} at ${cutoff.key}, side=${strategy.side}, staking=${strategy.staking.method}`)
+
+    // Walk the settled games page by page; each page pulls its own snapshots
+    const games: BacktestGame[] = []
+    let gamesScanned = 0
+    let gamesWithoutSnapshot = 0
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('games')
+        .select('id, start_time_utc, final_total')
+        .eq('sport_id', sportId)
+        .eq('status', 'final')
+        .not('final_total', 'is', null)
+        .order('start_time_utc', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (startDate) query = query.gte('start_time_utc', `${startDate}T00:00:00Z`)
+      if (endDate) query = query.lte('start_time_utc', `${endDate}T23:59:59Z`)
+
+      const { data: page, error } = await query
+      if (error) throw error
+      if (!page || page.length === 0) break
+      gamesScanned += page.length
+
+      const snapshots = await fetchSnapshots(supabase, page.map((g: { id: string }) => g.id))
+      const decision = pointInTimeEdges(snapshots, page, cutoff.minutesBefore)
+      const closing = pointInTimeEdges(snapshots, page, 0)
+
+      for (const g of page) {
+        const quote = toQuote(decision.get(g.id))
+        if (!quote) {
+          gamesWithoutSnapshot++
+          continue
+        }
+        games.push({
+          game_id: g.id,
+          start_time_utc: g.start_time_utc,
+          final_total: Number(g.final_total),
+          decision: quote,
+          closing: toQuote(closing.get(g.id)),
+        })
+      }
+
+      if (page.length < PAGE_SIZE) break
+    }
+
+    const result = runBacktest(strategy, games)
+    console.log(`[BACKTEST] ${gamesScanned} games, ${games.length} with a snapshot, ${result.summary.bets} bets, ROI ${result.summary.roi ?? 'n/a'}%`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        sport_id: sportId,
+        start_date: startDate,
+        end_date: endDate,
+        decision_cutoff: cutoff.key,
+        games_scanned: gamesScanned,
+        games_without_snapshot: gamesWithoutSnapshot,
+        ledger_truncated: result.ledger.length > MAX_LEDGER_ROWS,
+        ...result,
+        ledger: result.ledger.slice(-MAX_LEDGER_ROWS),
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('[BACKTEST] Error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return new Response(
+      JSON.stringify({ success: false, error: message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -1,126 +1,24 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { linePercentile } from "../_shared/percentiles.ts";
+import { franchiseName } from "../_shared/teamRegistry.ts";
+import { BDL_BASE_URLS, ballDontLieProvider, providerTransport, type BallDontLieProvider, type BdlPage } from "../_shared/providers.ts";
+import {
+  bdlOddsSnapshot,
+  bdlSeasonOn,
+  parseBdlGame,
+  parseBdlInjury,
+  preferredBdlOdds,
+  type BDLGame,
+  type BDLInjury,
+  type BDLOdds,
+} from "../_shared/providerParsers.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// BallDontLie API endpoints - maximizing GOAT tier
-const BDL_ENDPOINTS = {
-  nba: "https://api.balldontlie.io/v1",
-  nfl: "https://api.balldontlie.io/nfl/v1",
-  nhl: "https://api.balldontlie.io/nhl/v1",
-  mlb: "https://api.balldontlie.io/mlb/v1",
-};
-
-// Franchise mappings for consistent team identity across all sports
-const FRANCHISE_MAPPINGS: Record<string, Record<string, string>> = {
-  nba: {
-    "ATL": "Atlanta Hawks", "BOS": "Boston Celtics", "BKN": "Brooklyn Nets", "BRK": "Brooklyn Nets",
-    "CHA": "Charlotte Hornets", "CHI": "Chicago Bulls", "CLE": "Cleveland Cavaliers",
-    "DAL": "Dallas Mavericks", "DEN": "Denver Nuggets", "DET": "Detroit Pistons",
-    "GSW": "Golden State Warriors", "GS": "Golden State Warriors",
-    "HOU": "Houston Rockets", "IND": "Indiana Pacers", "LAC": "LA Clippers",
-    "LAL": "Los Angeles Lakers", "MEM": "Memphis Grizzlies", "MIA": "Miami Heat",
-    "MIL": "Milwaukee Bucks", "MIN": "Minnesota Timberwolves",
-    "NOP": "New Orleans Pelicans", "NO": "New Orleans Pelicans",
-    "NYK": "New York Knicks", "NY": "New York Knicks",
-    "OKC": "Oklahoma City Thunder", "ORL": "Orlando Magic", "PHI": "Philadelphia 76ers",
-    "PHX": "Phoenix Suns", "PHO": "Phoenix Suns", "POR": "Portland Trail Blazers",
-    "SAC": "Sacramento Kings", "SAS": "San Antonio Spurs", "SA": "San Antonio Spurs",
-    "TOR": "Toronto Raptors", "UTA": "Utah Jazz", "UTAH": "Utah Jazz",
-    "WAS": "Washington Wizards", "WSH": "Washington Wizards",
-  },
-  nfl: {
-    "ARI": "Arizona Cardinals", "ATL": "Atlanta Falcons", "BAL": "Baltimore Ravens",
-    "BUF": "Buffalo Bills", "CAR": "Carolina Panthers", "CHI": "Chicago Bears",
-    "CIN": "Cincinnati Bengals", "CLE": "Cleveland Browns", "DAL": "Dallas Cowboys",
-    "DEN": "Denver Broncos", "DET": "Detroit Lions", "GB": "Green Bay Packers",
-    "HOU": "Houston Texans", "IND": "Indianapolis Colts",
-    "JAC": "Jacksonville Jaguars", "JAX": "Jacksonville Jaguars",
-    "KC": "Kansas City Chiefs", "LV": "Las Vegas Raiders", "LAR": "Los Angeles Rams",
-    "LAC": "Los Angeles Chargers", "MIA": "Miami Dolphins", "MIN": "Minnesota Vikings",
-    "NE": "New England Patriots", "NO": "New Orleans Saints",
-    "NYG": "New York Giants", "NYJ": "New York Jets",
-    "PHI": "Philadelphia Eagles", "PIT": "Pittsburgh Steelers", "SF": "San Francisco 49ers",
-    "SEA": "Seattle Seahawks", "TB": "Tampa Bay Buccaneers", "TEN": "Tennessee Titans",
-    "WAS": "Washington Commanders", "WSH": "Washington Commanders",
-  },
-  nhl: {
-    "ANA": "Anaheim Ducks", "ARI": "Arizona Coyotes", "BOS": "Boston Bruins",
-    "BUF": "Buffalo Sabres", "CGY": "Calgary Flames", "CAR": "Carolina Hurricanes",
-    "CHI": "Chicago Blackhawks", "COL": "Colorado Avalanche", "CBJ": "Columbus Blue Jackets",
-    "DAL": "Dallas Stars", "DET": "Detroit Red Wings", "EDM": "Edmonton Oilers",
-    "FLA": "Florida Panthers", "LA": "Los Angeles Kings", "LAK": "Los Angeles Kings",
-    "MIN": "Minnesota Wild", "MTL": "Montreal Canadiens", "NSH": "Nashville Predators",
-    "NJ": "New Jersey Devils", "NJD": "New Jersey Devils", "NYI": "New York Islanders",
-    "NYR": "New York Rangers", "OTT": "Ottawa Senators", "PHI": "Philadelphia Flyers",
-    "PIT": "Pittsburgh Penguins", "SJ": "San Jose Sharks", "SJS": "San Jose Sharks",
-    "SEA": "Seattle Kraken", "STL": "St. Louis Blues", "TB": "Tampa Bay Lightning",
-    "TBL": "Tampa Bay Lightning", "TOR": "Toronto Maple Leafs", "UTA": "Utah Hockey Club",
-    "VAN": "Vancouver Canucks", "VGK": "Vegas Golden Knights", "WSH": "Washington Capitals",
-    "WAS": "Washington Capitals", "WPG": "Winnipeg Jets",
-  },
-  mlb: {
-    "ARI": "Arizona Diamondbacks", "ATL": "Atlanta Braves", "BAL": "Baltimore Orioles",
-    "BOS": "Boston Red Sox", "CHC": "Chicago Cubs", "CWS": "Chicago White Sox",
-    "CHW": "Chicago White Sox", "CIN": "Cincinnati Reds", "CLE": "Cleveland Guardians",
-    "COL": "Colorado Rockies", "DET": "Detroit Tigers", "HOU": "Houston Astros",
-    "KC": "Kansas City Royals", "LAA": "Los Angeles Angels", "LAD": "Los Angeles Dodgers",
-    "MIA": "Miami Marlins", "MIL": "Milwaukee Brewers", "MIN": "Minnesota Twins",
-    "NYM": "New York Mets", "NYY": "New York Yankees", "OAK": "Oakland Athletics",
-    "PHI": "Philadelphia Phillies", "PIT": "Pittsburgh Pirates", "SD": "San Diego Padres",
-    "SDP": "San Diego Padres", "SF": "San Francisco Giants", "SFG": "San Francisco Giants",
-    "SEA": "Seattle Mariners", "STL": "St. Louis Cardinals", "TB": "Tampa Bay Rays",
-    "TBR": "Tampa Bay Rays", "TEX": "Texas Rangers", "TOR": "Toronto Blue Jays",
-    "WAS": "Washington Nationals", "WSH": "Washington Nationals",
-  },
-};
-
 // BDL data interfaces
-interface BDLGame {
-  id: number;
-  date: string;
-  datetime?: string;
-  season: number;
-  status: string;
-  postseason: boolean;
-  home_team: { id: number; abbreviation: string; full_name: string; name: string };
-  visitor_team: { id: number; abbreviation: string; full_name: string; name: string };
-  home_team_score: number | null;
-  visitor_team_score: number | null;
-  week?: number;
-}
-
-interface BDLOdds {
-  id: number;
-  game_id: number;
-  vendor: string;
-  total_value: string;
-  total_over_odds: number;
-  total_under_odds: number;
-  spread_value?: string;
-  spread_home_odds?: number;
-  spread_away_odds?: number;
-  moneyline_home?: number;
-  moneyline_away?: number;
-  updated_at: string;
-}
-
-interface BDLInjury {
-  id: number;
-  player_id: number;
-  first_name: string;
-  last_name: string;
-  position: string;
-  team: { id: number; abbreviation: string };
-  status: string;
-  injury_type?: string;
-  description?: string;
-  report_date?: string;
-  game_date?: string;
-}
-
 interface BDLStanding {
   team: { id: number; abbreviation: string; full_name: string };
   conference: string;
@@ -143,78 +41,6 @@ interface BDLStanding {
   points_against?: number;
 }
 
-// Retry helper optimized for high-speed BDL GOAT tier (600 req/min)
-async function fetchWithRetry(
-  url: string,
-  apiKey: string,
-  maxRetries = 5,
-  baseDelay = 100
-): Promise<Response | null> {
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      const response = await fetch(url, {
-        headers: {
-          "Authorization": apiKey,
-          "Accept": "application/json",
-        },
-      });
-
-      if (response.ok) return response;
-
-      if (response.status === 429) {
-        const delay = Math.min(baseDelay * Math.pow(2, attempt), 5000);
-        console.log(`[BDL-SYNC] Rate limited, waiting ${delay}ms...`);
-        await new Promise(r => setTimeout(r, delay));
-        continue;
-      }
-
-      if (response.status >= 500) {
-        const delay = baseDelay * Math.pow(2, attempt);
-        console.log(`[BDL-SYNC] Server error ${response.status}, retry ${attempt + 1}/${maxRetries}`);
-        await new Promise(r => setTimeout(r, delay));
-        continue;
-      }
-
-      console.error(`[BDL-SYNC] API error ${response.status}: ${await response.text().catch(() => "Unknown")}`);
-      return null;
-    } catch (err) {
-      const delay = baseDelay * Math.pow(2, attempt);
-      console.log(`[BDL-SYNC] Network error, retry ${attempt + 1}/${maxRetries}`);
-      await new Promise(r => setTimeout(r, delay));
-    }
-  }
-  return null;
-}
-
-// Parallel fetch helper to maximize API throughput
-async function fetchParallel<T>(
-  urls: string[],
-  apiKey: string,
-  concurrency = 10
-): Promise<(T[] | null)[]> {
-  const results: (T[] | null)[] = [];
-  
-  for (let i = 0; i < urls.length; i += concurrency) {
-    const batch = urls.slice(i, i + concurrency);
-    const batchResults = await Promise.all(
-      batch.map(async (url) => {
-        const response = await fetchWithRetry(url, apiKey);
-        if (!response) return null;
-        const data = await response.json();
-        return data.data || [];
-      })
-    );
-    results.push(...batchResults);
-    
-    // Small delay between batches to stay under 600 req/min
-    if (i + concurrency < urls.length) {
-      await new Promise(r => setTimeout(r, 100));
-    }
-  }
-  
-  return results;
-}
-
 // Caches for team/franchise lookups
 const franchiseCache = new Map<string, string>();
 const teamCache = new Map<string, string>();
@@ -225,8 +51,7 @@ async function ensureTeamAndFranchise(
   abbrev: string
 ): Promise<{ teamId: string | null; franchiseId: string | null }> {
   const cacheKey = `${sport}:${abbrev}`;
-  const mapping = FRANCHISE_MAPPINGS[sport] || {};
-  const canonicalName = mapping[abbrev];
+  const canonicalName = franchiseName(sport, abbrev);
 
   if (!canonicalName) {
     return { teamId: null, franchiseId: null };
@@ -292,15 +117,7 @@ function computeDecade(year: number): string {
 }
 
 function getCurrentSeason(sport: string): number {
-  const now = new Date();
-  const month = now.getMonth() + 1;
-  const year = now.getFullYear();
-  
-  if (sport === "nfl") {
-    return month >= 3 ? year : year - 1;
-  } else {
-    return month >= 10 ? year : year - 1;
-  }
+  return bdlSeasonOn(sport, new Date());
 }
 
 function getCurrentNFLWeek(): number {
@@ -355,8 +172,7 @@ async function backfillFranchiseIds(
     
     // Fix home franchise if missing
     if (!game.home_franchise_id && game.home_team?.abbrev) {
-      const mapping = FRANCHISE_MAPPINGS[sport];
-      const canonicalName = mapping?.[game.home_team.abbrev];
+      const canonicalName = franchiseName(sport, game.home_team.abbrev);
       
       if (canonicalName) {
         const { data: franchise } = await supabase
@@ -374,8 +190,7 @@ async function backfillFranchiseIds(
     
     // Fix away franchise if missing
     if (!game.away_franchise_id && game.away_team?.abbrev) {
-      const mapping = FRANCHISE_MAPPINGS[sport];
-      const canonicalName = mapping?.[game.away_team.abbrev];
+      const canonicalName = franchiseName(sport, game.away_team.abbrev);
       
       if (canonicalName) {
         const { data: franchise } = await supabase
@@ -433,29 +248,27 @@ async function backfillFranchiseIds(
 
 async function syncGames(
   supabase: any,
-  apiKey: string,
+  bdl: BallDontLieProvider,
   sport: string,
   dates: string[]
 ): Promise<{ fetched: number; upserted: number; errors: number; bdlToDbMap: Map<number, string> }> {
-  const baseUrl = BDL_ENDPOINTS[sport as keyof typeof BDL_ENDPOINTS];
-  if (!baseUrl) return { fetched: 0, upserted: 0, errors: 0, bdlToDbMap: new Map() };
+  if (!BDL_BASE_URLS[sport]) return { fetched: 0, upserted: 0, errors: 0, bdlToDbMap: new Map() };
 
   const counters = { fetched: 0, upserted: 0, errors: 0 };
   const bdlToDbMap = new Map<number, string>();
 
   // Fetch games with pagination
-  const datesParam = dates.map(d => `dates[]=${d}`).join("&");
   let cursor: number | null = null;
   const games: BDLGame[] = [];
 
   while (true) {
-    let url = `${baseUrl}/games?${datesParam}&per_page=100`;
-    if (cursor) url += `&cursor=${cursor}`;
-
-    const response = await fetchWithRetry(url, apiKey);
-    if (!response) break;
+    const response = await bdl.schedule({ sport, dates, perPage: 100, cursor });
+    if (!response.ok) {
+      console.error(`[BDL-SYNC] API error ${response.status}: ${response.error}`);
+      break;
+    }
 
-    const data = await response.json();
+    const data = response.payload as BdlPage<BDLGame>;
     games.push(...(data.data || []));
 
     const nextCursor = data.meta?.next_cursor;
@@ -468,25 +281,23 @@ async function syncGames(
   console.log(`[BDL-SYNC] Fetched ${games.length} ${sport} games for dates: ${dates.slice(0, 3).join(", ")}...`);
 
   for (const game of games) {
-    const homeAbbrev = game.home_team?.abbreviation;
-    const awayAbbrev = game.visitor_team?.abbreviation;
-
-    if (!homeAbbrev || !awayAbbrev) {
+    const parsed = parseBdlGame(sport, game);
+    if (!parsed) {
       counters.errors++;
       continue;
     }
 
-    const home = await ensureTeamAndFranchise(supabase, sport, homeAbbrev);
-    const away = await ensureTeamAndFranchise(supabase, sport, awayAbbrev);
+    const home = await ensureTeamAndFranchise(supabase, sport, parsed.home_team_abbrev);
+    const away = await ensureTeamAndFranchise(supabase, sport, parsed.away_team_abbrev);
 
     if (!home.teamId || !away.teamId) {
       counters.errors++;
       continue;
     }
 
-    const providerGameKey = `bdl-${sport}-${game.id}`;
-    const startTimeUtc = game.datetime || game.date;
-    const isFinal = game.status === "Final" || game.status?.includes("Final");
+    const providerGameKey = parsed.provider_game_key;
+    const startTimeUtc = parsed.start_time_utc;
+    const isFinal = parsed.status === "final";
     const homeScore = game.home_team_score;
     const awayScore = game.visitor_team_score;
 
@@ -498,13 +309,13 @@ async function syncGames(
       away_team_id: away.teamId,
       home_franchise_id: home.franchiseId,
       away_franchise_id: away.franchiseId,
-      home_score: isFinal ? homeScore : null,
-      away_score: isFinal ? awayScore : null,
-      status: isFinal ? "final" : game.status?.toLowerCase() === "scheduled" ? "scheduled" : "live",
+      home_score: parsed.home_score,
+      away_score: parsed.away_score,
+      status: parsed.status,
       season_year: game.season,
       decade: computeDecade(game.season),
-      is_playoff: game.postseason || false,
-      week_round: game.week || null,
+      is_playoff: parsed.is_playoff,
+      week_round: parsed.week_round,
       last_seen_at: new Date().toISOString(),
     };
 
@@ -625,12 +436,11 @@ async function syncGames(
 
 async function syncOdds(
   supabase: any,
-  apiKey: string,
+  bdl: BallDontLieProvider,
   sport: string,
   bdlToDbMap: Map<number, string>
 ): Promise<{ fetched: number; matched: number; errors: number }> {
-  const baseUrl = BDL_ENDPOINTS[sport as keyof typeof BDL_ENDPOINTS];
-  if (!baseUrl) return { fetched: 0, matched: 0, errors: 0 };
+  if (!BDL_BASE_URLS[sport]) return { fetched: 0, matched: 0, errors: 0 };
 
   const counters = { fetched: 0, matched: 0, errors: 0 };
   const odds: BDLOdds[] = [];
@@ -640,15 +450,16 @@ async function syncOdds(
   if (sport === "nfl") {
     const season = getCurrentSeason(sport);
     const week = getCurrentNFLWeek();
-    let url = `${baseUrl}/odds?season=${season}&week=${week}&per_page=100`;
     let cursor: number | null = null;
 
     while (true) {
-      const pageUrl = cursor ? `${url}&cursor=${cursor}` : url;
-      const response = await fetchWithRetry(pageUrl, apiKey);
-      if (!response) break;
+      const response = await bdl.odds({ sport, season, week, perPage: 100, cursor });
+      if (!response.ok) {
+        console.error(`[BDL-SYNC] API error ${response.status}: ${response.error}`);
+        break;
+      }
 
-      const data = await response.json();
+      const data = response.payload as BdlPage<BDLOdds>;
       odds.push(...(data.data || []));
 
       const nextCursor = data.meta?.next_cursor;
@@ -667,11 +478,9 @@ async function syncOdds(
       const batch = bdlGameIds.slice(i, i + batchSize);
       const results = await Promise.all(
         batch.map(async (gameId) => {
-          const url = `${baseUrl}/odds?game_id=${gameId}`;
-          const response = await fetchWithRetry(url, apiKey);
-          if (!response) return [];
-          const data = await response.json();
-          return data.data || [];
+          const response = await bdl.odds({ sport, gameId });
+          if (!response.ok) return [];
+          return (response.payload as BdlPage<BDLOdds>).data || [];
         })
       );
       for (const gameOdds of results) {
@@ -688,39 +497,19 @@ async function syncOdds(
   console.log(`[BDL-SYNC] Fetched ${odds.length} ${sport} odds entries`);
 
   // Group odds by game_id, prefer DraftKings
-  const oddsMap = new Map<number, BDLOdds>();
-  for (const odd of odds) {
-    const existing = oddsMap.get(odd.game_id);
-    if (!existing || odd.vendor?.toLowerCase().includes("draft")) {
-      oddsMap.set(odd.game_id, odd);
-    }
-  }
+  const oddsMap = preferredBdlOdds(odds);
 
   for (const [bdlGameId, odd] of oddsMap) {
     const dbGameId = bdlToDbMap.get(bdlGameId);
     if (!dbGameId) continue;
 
-    const totalLine = parseFloat(odd.total_value);
-    if (isNaN(totalLine)) continue;
+    const snapshot = bdlOddsSnapshot(odd);
+    if (!snapshot) continue;
+    const totalLine = snapshot.total_line;
 
     const { error } = await supabase
       .from("odds_snapshots")
-      .insert({
-        game_id: dbGameId,
-        bookmaker: odd.vendor || "draftkings",
-        market: "totals",
-        total_line: totalLine,
-        raw_payload: {
-          source: "balldontlie",
-          total_over_odds: odd.total_over_odds,
-          total_under_odds: odd.total_under_odds,
-          spread_value: odd.spread_value,
-          spread_home_odds: odd.spread_home_odds,
-          spread_away_odds: odd.spread_away_odds,
-          moneyline_home: odd.moneyline_home,
-          moneyline_away: odd.moneyline_away,
-        },
-      });
+      .insert({ game_id: dbGameId, ...snapshot });
 
     if (!error) {
       counters.matched++;
@@ -734,11 +523,7 @@ async function syncOdds(
         .maybeSingle();
 
       // Calculate dk_line_percentile if we have historical percentiles
-      let dkLinePercentile: number | null = null;
-      if (existingEdge?.p05 !== null && existingEdge?.p95 !== null && existingEdge.p95 !== existingEdge.p05) {
-        const rawPercentile = ((totalLine - existingEdge.p05) / (existingEdge.p95 - existingEdge.p05)) * 100;
-        dkLinePercentile = Math.round(Math.max(-10, Math.min(110, rawPercentile)) * 10) / 10;
-      }
+      const dkLinePercentile = linePercentile(totalLine, existingEdge?.p05 ?? null, existingEdge?.p95 ?? null);
 
       // Upsert daily_edges with odds data
       const edgeUpdate = {
@@ -767,18 +552,20 @@ async function syncOdds(
 
 async function syncInjuries(
   supabase: any,
-  apiKey: string,
+  bdl: BallDontLieProvider,
   sport: string
 ): Promise<{ fetched: number; upserted: number; errors: number }> {
-  const baseUrl = BDL_ENDPOINTS[sport as keyof typeof BDL_ENDPOINTS];
-  if (!baseUrl) return { fetched: 0, upserted: 0, errors: 0 };
+  if (!BDL_BASE_URLS[sport]) return { fetched: 0, upserted: 0, errors: 0 };
 
   const counters = { fetched: 0, upserted: 0, errors: 0 };
 
-  const response = await fetchWithRetry(`${baseUrl}/player_injuries?per_page=250`, apiKey);
-  if (!response) return counters;
+  const response = await bdl.injuries({ sport, perPage: 250 });
+  if (!response.ok) {
+    console.error(`[BDL-SYNC] API error ${response.status}: ${response.error}`);
+    return counters;
+  }
 
-  const data = await response.json();
+  const data = response.payload as BdlPage<BDLInjury>;
   const injuries: BDLInjury[] = data.data || [];
   counters.fetched = injuries.length;
 
@@ -788,22 +575,10 @@ async function syncInjuries(
   const season = getCurrentSeason(sport);
 
   for (const injury of injuries) {
-    const { teamId } = await ensureTeamAndFranchise(supabase, sport, injury.team?.abbreviation || "");
+    const { team_abbrev, ...row } = parseBdlInjury(sport, injury, today, season);
+    const { teamId } = await ensureTeamAndFranchise(supabase, sport, team_abbrev);
 
-    const injuryData = {
-      sport_id: sport,
-      team_id: teamId,
-      player_external_id: `bdl-${sport}-${injury.player_id}`,
-      player_name: `${injury.first_name} ${injury.last_name}`,
-      position: injury.position,
-      injury_status: injury.status || "Unknown",
-      injury_type: injury.injury_type,
-      injury_details: injury.description,
-      report_date: injury.report_date || today,
-      game_date: injury.game_date || today,
-      season_year: season,
-      updated_at: new Date().toISOString(),
-    };
+    const injuryData = { ...row, team_id: teamId, updated_at: new Date().toISOString() };
 
     const { error } = await supabase
       .from("player_injuries")
@@ -824,19 +599,21 @@ async function syncInjuries(
 
 async function syncStandings(
   supabase: any,
-  apiKey: string,
+  bdl: BallDontLieProvider,
   sport: string
 ): Promise<{ fetched: number; upserted: number; errors: number }> {
-  const baseUrl = BDL_ENDPOINTS[sport as keyof typeof BDL_ENDPOINTS];
-  if (!baseUrl) return { fetched: 0, upserted: 0, errors: 0 };
+  if (!BDL_BASE_URLS[sport]) return { fetched: 0, upserted: 0, errors: 0 };
 
   const counters = { fetched: 0, upserted: 0, errors: 0 };
   const season = getCurrentSeason(sport);
 
-  const response = await fetchWithRetry(`${baseUrl}/standings?season=${season}`, apiKey);
-  if (!response) return counters;
+  const response = await bdl.standings({ sport, season });
+  if (!response.ok) {
+    console.error(`[BDL-SYNC] API error ${response.status}: ${response.error}`);
+    return counters;
+  }
 
-  const data = await response.json();
+  const data = response.payload as BdlPage<BDLStanding>;
   const standings: BDLStanding[] = data.data || [];
   counters.fetched = standings.length;
 
@@ -920,10 +697,12 @@ Deno.serve(async (req) => {
   const startTime = Date.now();
 
   try {
+    const providerMode = Deno.env.get("PROVIDER_MODE");
     const apiKey = Deno.env.get("BALLDONTLIE_KEY");
-    if (!apiKey) {
+    if (!apiKey && providerMode !== "replay") {
       throw new Error("BALLDONTLIE_KEY not configured");
     }
+    const bdl = ballDontLieProvider(providerTransport(providerMode, supabase, { balldontlie: apiKey }));
 
     let requestBody: {
       dates?: string[];
@@ -988,14 +767,14 @@ Deno.serve(async (req) => {
 
     // Process each sport
     for (const sport of sports) {
-      if (!BDL_ENDPOINTS[sport as keyof typeof BDL_ENDPOINTS]) continue;
+      if (!BDL_BASE_URLS[sport]) continue;
 
       console.log(`[BDL-SYNC] Processing ${sport}...`);
 
       // 1. Sync games first (needed for odds matching)
       let bdlToDbMap = new Map<number, string>();
       if (syncGamesFlag) {
-        const result = await syncGames(supabase, apiKey, sport, dates);
+        const result = await syncGames(supabase, bdl, sport, dates);
         counters.games.fetched += result.fetched;
         counters.games.upserted += result.upserted;
         counters.games.errors += result.errors;
@@ -1009,7 +788,7 @@ Deno.serve(async (req) => {
 
       // 2. Sync odds (uses game mapping)
       if (syncOddsFlag && bdlToDbMap.size > 0) {
-        const result = await syncOdds(supabase, apiKey, sport, bdlToDbMap);
+        const result = await syncOdds(supabase, bdl, sport, bdlToDbMap);
         counters.odds.fetched += result.fetched;
         counters.odds.matched += result.matched;
         counters.odds.errors += result.errors;
@@ -1017,7 +796,7 @@ Deno.serve(async (req) => {
 
       // 3. Sync injuries (GOAT tier exclusive)
       if (syncInjuriesFlag) {
-        const result = await syncInjuries(supabase, apiKey, sport);
+        const result = await syncInjuries(supabase, bdl, sport);
         counters.injuries.fetched += result.fetched;
         counters.injuries.upserted += result.upserted;
         counters.injuries.errors += result.errors;
@@ -1025,7 +804,7 @@ Deno.serve(async (req) => {
 
       // 4. Sync standings
       if (syncStandingsFlag) {
-        const result = await syncStandings(supabase, apiKey, sport);
+        const result = await syncStandings(supabase, bdl, sport);
         counters.standings.fetched += result.fetched;
         counters.standings.upserted += result.upserted;
         counters.standings.errors += result.errors;
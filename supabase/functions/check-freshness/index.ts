@@ -0,0 +1,227 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { runJob, supabaseJobStore } from '../_shared/jobRunner.ts'
+import { slateDate } from '../_shared/providers.ts'
+import {
+  diffBreaches,
+  evaluateRules,
+  lookbackDays,
+  parseRule,
+  postWebhook,
+  webhookPayload,
+  type FreshnessBreach,
+  type FreshnessRule,
+  type FreshnessRuleRow,
+  type GameFreshness,
+  type OpenBreach,
+} from '../_shared/freshness.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Where breach alerts go; unset means breaches are only recorded
+const WEBHOOK_URL = Deno.env.get('FRESHNESS_WEBHOOK_URL')
+
+// Games starting this far ahead can still be on today's ET slate
+const SLATE_AHEAD_MS = 36 * 60 * 60 * 1000
+
+async function loadGames(supabase: any, rules: FreshnessRule[], now: Date, today: string): Promise<GameFreshness[]> {
+  const sports = [...new Set(rules.map(r => r.sport_id))]
+  const from = new Date(now.getTime() - lookbackDays(rules) * 24 * 60 * 60 * 1000)
+  const { data, error } = await supabase
+    .from('games')
+    .select('id, sport_id, start_time_utc, status, final_total')
+    .in('sport_id', sports)
+    .gte('start_time_utc', from.toISOString())
+    .lte('start_time_utc', new Date(now.getTime() + SLATE_AHEAD_MS).toISOString())
+  if (error) throw error
+
+  const games: GameFreshness[] = ((data || []) as Array<Omit<GameFreshness, 'date_local' | 'last_odds_at'>>)
+    .map(g => ({ ...g, date_local: slateDate(g.start_time_utc), last_odds_at: null }))
+
+  // Latest snapshot per game, only where an odds rule can look at it
+  const upcoming = games.filter(g => g.date_local === today && new Date(g.start_time_utc) > now)
+  await Promise.all(upcoming.map(async (game) => {
+    const { data: latest } = await supabase
+      .from('odds_snapshots')
+      .select('fetched_at')
+      .eq('game_id', game.id)
+      .order('fetched_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    game.last_odds_at = latest?.fetched_at ?? null
+  }))
+
+  return games
+}
+
+async function countEdges(supabase: any, today: string): Promise<Record<string, number>> {
+  const { data, error } = await supabase
+    .from('daily_edges')
+    .select('sport_id')
+    .eq('date_local', today)
+  if (error) throw error
+  const counts: Record<string, number> = {}
+  for (const row of (data || []) as Array<{ sport_id: string }>) {
+    counts[row.sport_id] = (counts[row.sport_id] ?? 0) + 1
+  }
+  return counts
+}
+
+function breachColumns(breach: FreshnessBreach) {
+  return {
+    severity: breach.severity,
+    message: breach.message,
+    observed: breach.observed,
+    subjects: breach.subjects,
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+
+  try {
+    const now = new Date()
+    const today = slateDate(now)
+    console.log(`[FRESHNESS] Checking SLAs for ${today}`)
+
+    const job = await runJob(supabaseJobStore(supabase), {
+      job_name: 'check-freshness',
+      details: { today },
+    }, async (ctx) => {
+      const { rules, ruleErrors } = await ctx.step('load_rules', async (step) => {
+        const { data, error } = await supabase
+          .from('freshness_rules')
+          .select('id, sport_id, rule_type, table_name, params, severity, enabled')
+          .eq('enabled', true)
+        if (error) throw error
+        const rows = (data || []) as FreshnessRuleRow[]
+        step.read(rows.length)
+        const parsed = rows.map(parseRule)
+        return {
+          rules: parsed.flatMap(p => ('rule' in p ? [p.rule] : [])),
+          ruleErrors: parsed.flatMap(p => ('error' in p ? [p.error] : [])),
+        }
+      })
+      for (const message of ruleErrors) console.error(`[FRESHNESS] Skipping rule: ${message}`)
+
+      const breaches = await ctx.step('evaluate', async (step) => {
+        if (!rules.length) return []
+        const [games, edges] = await Promise.all([loadGames(supabase, rules, now, today), countEdges(supabase, today)])
+        step.read(games.length)
+        return evaluateRules(rules, { now, today, games, edges_today: edges })
+      })
+
+      const changes = await ctx.step('record_breaches', async (step) => {
+        const { data, error } = await supabase
+          .from('freshness_breaches')
+          .select('id, rule_id, opened_at, notified_at')
+          .is('resolved_at', null)
+        if (error) throw error
+        const changes = diffBreaches((data || []) as OpenBreach[], breaches)
+        const seenAt = now.toISOString()
+
+        const opened: OpenBreach[] = []
+        if (changes.opened.length) {
+          const { data: inserted, error: insertError } = await supabase
+            .from('freshness_breaches')
+            .insert(changes.opened.map(b => ({
+              rule_id: b.rule_id,
+              sport_id: b.sport_id,
+              rule_type: b.rule_type,
+              ...breachColumns(b),
+              opened_at: seenAt,
+              last_seen_at: seenAt,
+            })))
+            .select('id, rule_id, opened_at, notified_at')
+          if (insertError) throw insertError
+          opened.push(...((inserted || []) as OpenBreach[]))
+        }
+        for (const { open, breach } of changes.ongoing) {
+          const { error: updateError } = await supabase
+            .from('freshness_breaches')
+            .update({ ...breachColumns(breach), last_seen_at: seenAt })
+            .eq('id', open.id)
+          if (updateError) throw updateError
+        }
+        if (changes.resolved.length) {
+          const { error: resolveError } = await supabase
+            .from('freshness_breaches')
+            .update({ resolved_at: seenAt })
+            .in('id', changes.resolved.map(r => r.id))
+          if (resolveError) throw resolveError
+        }
+        step.wrote(changes.opened.length + changes.ongoing.length + changes.resolved.length)
+        return { ...changes, openedRows: opened }
+      })
+
+      // Breaches whose earlier alert never went out are sent again with the new ones
+      const unsent = changes.ongoing.filter(o => !o.open.notified_at)
+      const payload = webhookPayload({ opened: [...changes.opened, ...unsent.map(o => o.breach)], resolved: changes.resolved }, now)
+      let notified = false
+      if (payload && WEBHOOK_URL) {
+        notified = (await ctx.step('notify', async () => {
+          await postWebhook(WEBHOOK_URL, payload)
+          const ids = [...changes.openedRows.map(r => r.id), ...unsent.map(o => o.open.id)]
+          if (ids.length) {
+            await supabase.from('freshness_breaches').update({ notified_at: new Date().toISOString() }).in('id', ids)
+          }
+          return true
+        }, { optional: true })) ?? false
+      }
+
+      ctx.detail({
+        rules: rules.length,
+        rule_errors: ruleErrors,
+        open: breaches.map(b => b.rule_id),
+        opened: changes.opened.length,
+        resolved: changes.resolved.length,
+        notified,
+      })
+      return { rules: rules.length, ruleErrors, breaches, opened: changes.opened.length, resolved: changes.resolved.length, notified }
+    })
+
+    if (job.status === 'skipped') {
+      return new Response(
+        JSON.stringify({ success: false, skipped: true, error: job.error }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const result = job.value
+    console.log(`[FRESHNESS] ${job.status}: ${result?.breaches.length ?? 0} open, ${result?.opened ?? 0} opened, ${result?.resolved ?? 0} resolved`)
+
+    return new Response(
+      JSON.stringify({
+        success: job.status !== 'fail',
+        status: job.status,
+        job_id: job.run_id,
+        error: job.error,
+        today,
+        rules: result?.rules ?? 0,
+        rule_errors: result?.ruleErrors ?? [],
+        breaches: result?.breaches ?? [],
+        opened: result?.opened ?? 0,
+        resolved: result?.resolved ?? 0,
+        notified: result?.notified ?? false,
+        webhook_configured: Boolean(WEBHOOK_URL),
+      }),
+      { status: job.status === 'fail' ? 500 : 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('[FRESHNESS] Fatal error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return new Response(
+      JSON.stringify({ success: false, error: message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
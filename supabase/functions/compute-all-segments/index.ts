@@ -1,26 +1,20 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  SEGMENT_LADDER,
+  buildSketch,
+  calculateConfidence,
+  computePercentiles,
+  filterGamesForSegment,
+  type DistributionSketch,
+} from '../_shared/percentiles.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-/**
- * SEGMENT DEFINITIONS
- * Time windows for historical analysis with confidence weights
- */
-const SEGMENTS = [
-  { key: 'h2h_1y', yearsBack: 1, label: 'Last 1 Year', recencyWeight: 1.0 },
-  { key: 'h2h_3y', yearsBack: 3, label: 'Last 3 Years', recencyWeight: 0.85 },
-  { key: 'h2h_5y', yearsBack: 5, label: 'Last 5 Years', recencyWeight: 0.7 },
-  { key: 'h2h_10y', yearsBack: 10, label: 'Last 10 Years', recencyWeight: 0.5 },
-  { key: 'h2h_all', yearsBack: null, label: 'All Time', recencyWeight: 0.3 },
-]
-
-// Minimum games needed for statistical significance
-const MIN_GAMES_EXCELLENT = 15  // 90%+ confidence
-const MIN_GAMES_GOOD = 10       // 70%+ confidence  
-const MIN_GAMES_FAIR = 5        // 50%+ confidence
+// Minimum games needed for a segment to be recommended
+const MIN_GAMES_GOOD = 10       // Recent segment wins outright at this size
 const MIN_GAMES_MINIMUM = 3    // Can use but low confidence
 
 interface SegmentStats {
@@ -40,6 +34,7 @@ interface SegmentStats {
   games_breakdown?: {
     by_year: Record<number, number>
   }
+  distribution?: DistributionSketch
 }
 
 interface MatchupResult {
@@ -55,49 +50,6 @@ interface MatchupResult {
   data_quality: 'excellent' | 'good' | 'fair' | 'low' | 'insufficient'
 }
 
-/**
- * Calculate confidence score (0-100) based on:
- * - Sample size (40% weight)
- * - Recency (30% weight)
- * - Roster continuity (30% weight - if available)
- */
-function calculateConfidence(
-  nGames: number,
-  recencyWeight: number,
-  rosterContinuity: number | null = null
-): { score: number; label: string } {
-  // Sample size score (0-100)
-  let sampleScore = 0
-  if (nGames >= MIN_GAMES_EXCELLENT) sampleScore = 100
-  else if (nGames >= MIN_GAMES_GOOD) sampleScore = 70 + (nGames - MIN_GAMES_GOOD) * 6
-  else if (nGames >= MIN_GAMES_FAIR) sampleScore = 50 + (nGames - MIN_GAMES_FAIR) * 4
-  else if (nGames >= MIN_GAMES_MINIMUM) sampleScore = 20 + (nGames - MIN_GAMES_MINIMUM) * 15
-  else sampleScore = nGames * 6
-
-  // Recency score (0-100)
-  const recencyScore = recencyWeight * 100
-
-  // Roster continuity score (0-100), default to 50% if unknown
-  const rosterScore = rosterContinuity !== null ? rosterContinuity : 50
-
-  // Weighted average
-  const score = Math.round(
-    sampleScore * 0.4 +
-    recencyScore * 0.3 +
-    rosterScore * 0.3
-  )
-
-  // Determine label
-  let label: string
-  if (score >= 80) label = 'Excellent'
-  else if (score >= 60) label = 'Good'
-  else if (score >= 40) label = 'Fair'
-  else if (score >= 20) label = 'Low'
-  else label = 'Insufficient'
-
-  return { score, label }
-}
-
 /**
  * Select the best segment based on confidence and data availability
  */
@@ -144,32 +96,6 @@ function selectRecommendedSegment(segments: SegmentStats[]): {
   }
 }
 
-/**
- * Compute percentiles for a given set of totals
- */
-function computePercentiles(totals: number[]): {
-  p05: number
-  p95: number
-  median: number
-  min: number
-  max: number
-} {
-  const sorted = [...totals].sort((a, b) => a - b)
-  const n = sorted.length
-
-  const p05Index = Math.max(0, Math.ceil(0.05 * n) - 1)
-  const p95Index = Math.min(n - 1, Math.ceil(0.95 * n) - 1)
-  const medianIndex = Math.floor(n / 2)
-
-  return {
-    p05: sorted[p05Index],
-    p95: sorted[p95Index],
-    median: n % 2 === 0 ? (sorted[medianIndex - 1] + sorted[medianIndex]) / 2 : sorted[medianIndex],
-    min: sorted[0],
-    max: sorted[n - 1],
-  }
-}
-
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders })
@@ -208,11 +134,6 @@ Deno.serve(async (req) => {
     
     const usesFranchise = franchiseLowId && franchiseHighId
     
-    // Average roster continuity for confidence calculation
-    const avgRosterContinuity = home_roster_continuity !== undefined && away_roster_continuity !== undefined
-      ? (home_roster_continuity + away_roster_continuity) / 2
-      : null
-
     console.log(`[SEGMENTS] Computing all segments for ${sport_id}: ${teamLowId} vs ${teamHighId}`)
 
     // Fetch ALL historical games for this matchup
@@ -244,15 +165,9 @@ Deno.serve(async (req) => {
     // Compute stats for each segment
     const segmentStats: SegmentStats[] = []
 
-    for (const segment of SEGMENTS) {
-      // Filter games by time window
-      const cutoffYear = segment.yearsBack !== null 
-        ? currentYear - segment.yearsBack 
-        : 0
-      
-      const segmentGames = (allGames || []).filter((g: any) => 
-        (g.season_year || 0) >= cutoffYear
-      )
+    for (const segment of SEGMENT_LADDER) {
+      // Filter games by time window (played_at_utc, same as compute-percentiles)
+      const segmentGames = filterGamesForSegment(allGames || [], segment)
 
       const nGames = segmentGames.length
 
@@ -292,11 +207,12 @@ Deno.serve(async (req) => {
       const { p05, p95, median, min, max } = computePercentiles(totals)
 
       // Calculate confidence
-      const { score: confidence, label: confidenceLabel } = calculateConfidence(
+      const { score: confidence, label: confidenceLabel } = calculateConfidence({
         nGames,
-        segment.recencyWeight,
-        avgRosterContinuity
-      )
+        segment: segment.key,
+        homeContinuity: home_roster_continuity,
+        awayContinuity: away_roster_continuity,
+      })
 
       segmentStats.push({
         segment_key: segment.key,
@@ -313,6 +229,7 @@ Deno.serve(async (req) => {
         is_recommended: false,
         recency_weight: segment.recencyWeight,
         games_breakdown: { by_year: byYear },
+        distribution: buildSketch(totals),
       })
     }
 
@@ -350,6 +267,7 @@ Deno.serve(async (req) => {
         median: stat.median,
         min_total: stat.min_total,
         max_total: stat.max_total,
+        distribution: stat.distribution,
         updated_at: new Date().toISOString(),
       }
 
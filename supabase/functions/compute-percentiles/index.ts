@@ -1,35 +1,47 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  MIN_SAMPLE,
+  SEGMENT_LADDER,
+  buildSketch,
+  computeHybridForm,
+  computeRecencyWeighted,
+  linePercentile,
+  selectBestSegment,
+  type DistributionSketch,
+  type MatchupGameTotal,
+  type SegmentResult,
+} from '../_shared/percentiles.ts'
+import {
+  LEAGUE_MIN_GAMES,
+  applyDistributionModel,
+  resolveDistributionModel,
+  type DistributionModel,
+} from '../_shared/distributionModels.ts'
+import { buildEdgeSnapshot } from '../_shared/edgeSnapshots.ts'
+import {
+  applyEraFilter,
+  computeEraSegment,
+  erasForSport,
+  relocationCutoff,
+  type GameEra,
+} from '../_shared/eras.ts'
+import {
+  adjustHistory,
+  referenceSeason,
+  resolveEraAdjustment,
+  seasonAverageMap,
+  type EraAdjustment,
+  type SeasonAverage,
+} from '../_shared/eraAdjustment.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-// Segment selection ladder - try in order until n >= MIN_SAMPLE
-// PRIORITIZE recent data as it's most relevant (team composition similarity)
-const SEGMENT_LADDER = [
-  { key: 'h2h_1y', yearsBack: 1 },
-  { key: 'h2h_3y', yearsBack: 3 },
-  { key: 'h2h_5y', yearsBack: 5 },
-  { key: 'h2h_10y', yearsBack: 10 },
-  { key: 'h2h_20y', yearsBack: 20 },
-  { key: 'h2h_all', yearsBack: null },
-]
-
-// Recency weights for the weighted segment
-// More recent games get higher weight
-const RECENCY_WEIGHTS = {
-  0: 1.0,   // Current year
-  1: 0.9,   // 1 year ago
-  2: 0.7,   // 2 years ago
-  3: 0.5,   // 3 years ago
-  4: 0.3,   // 4+ years ago
-}
-
-const MIN_SAMPLE = 5
-const HYBRID_MIN_GAMES = 10 // Each team needs at least this many recent games for hybrid
-const WEIGHTED_MIN_GAMES = 8 // Minimum games needed for recency-weighted segment
 const ENABLE_ON_DEMAND_HYDRATION = true // Enable hydration fallback for insufficient data
+const HYBRID_FORM_GAMES = 20 // Recent games per team pulled for hybrid form
+const LEAGUE_SAMPLE_LIMIT = 1000 // Most recent final totals pulled for the league prior
 
 function getTodayET(): string {
   const now = new Date()
@@ -42,344 +54,201 @@ function getTodayET(): string {
   return formatter.format(now)
 }
 
-interface SegmentResult {
-  segment_used: string
-  n_used: number
-  p05: number
-  p95: number
-  median: number
-  totals: number[]
-}
-
-interface WeightedGame {
-  total: number
-  weight: number
-  yearDiff: number
-}
-
-// Compute weighted percentiles using recency weights
-function computeWeightedPercentiles(games: WeightedGame[]): { p05: number; p95: number; median: number } {
-  // Sort by total
-  const sorted = [...games].sort((a, b) => a.total - b.total)
-  
-  // Calculate total weight
-  const totalWeight = sorted.reduce((sum, g) => sum + g.weight, 0)
-  
-  // Find weighted percentiles
-  let cumWeight = 0
-  let p05 = sorted[0].total
-  let p95 = sorted[sorted.length - 1].total
-  let median = sorted[Math.floor(sorted.length / 2)].total
-  
-  for (let i = 0; i < sorted.length; i++) {
-    cumWeight += sorted[i].weight
-    const percentile = cumWeight / totalWeight
-    
-    if (percentile >= 0.05 && p05 === sorted[0].total) {
-      p05 = sorted[i].total
-    }
-    if (percentile >= 0.5 && median === sorted[Math.floor(sorted.length / 2)].total) {
-      median = sorted[i].total
-    }
-    if (percentile >= 0.95) {
-      p95 = sorted[i].total
-      break
-    }
-  }
-  
-  return { p05, p95, median }
-}
-
-// Helper to get cutoff date for year-based filtering (uses played_at_utc, not season_year)
-function getYearCutoffDate(yearsBack: number): string {
-  const cutoff = new Date()
-  cutoff.setFullYear(cutoff.getFullYear() - yearsBack)
-  return cutoff.toISOString()
+interface SeasonGameTotal extends MatchupGameTotal {
+  season_year: number | null
 }
 
-async function computeRecencyWeighted(
+// Load the full head-to-head history once; segment windows are applied in memory
+async function fetchMatchupHistory(
   supabase: any,
   sportId: string,
   franchiseAId: string | null,
   franchiseBId: string | null,
   teamLowId: string,
   teamHighId: string
-): Promise<SegmentResult | null> {
-  const currentYear = new Date().getFullYear()
+): Promise<SeasonGameTotal[]> {
   const usesFranchise = franchiseAId && franchiseBId
-  // Use played_at_utc date cutoff (5 years back) instead of season_year
-  const cutoffDate = getYearCutoffDate(5)
-
-  let allGames: any[] = []
-
-  if (usesFranchise) {
-    // Query BOTH orderings since matchup_games might have either
-    const [{ data: games1 }, { data: games2 }] = await Promise.all([
-      supabase
-        .from('matchup_games')
-        .select('total, played_at_utc')
-        .eq('sport_id', sportId)
-        .gte('played_at_utc', cutoffDate)
-        .eq('franchise_low_id', franchiseAId)
-        .eq('franchise_high_id', franchiseBId),
-      supabase
-        .from('matchup_games')
-        .select('total, played_at_utc')
-        .eq('sport_id', sportId)
-        .gte('played_at_utc', cutoffDate)
-        .eq('franchise_low_id', franchiseBId)
-        .eq('franchise_high_id', franchiseAId),
-    ])
-    allGames = [...(games1 || []), ...(games2 || [])]
-  } else {
-    // Query BOTH orderings for team IDs too
-    const [{ data: games1 }, { data: games2 }] = await Promise.all([
-      supabase
-        .from('matchup_games')
-        .select('total, played_at_utc')
-        .eq('sport_id', sportId)
-        .gte('played_at_utc', cutoffDate)
-        .eq('team_low_id', teamLowId)
-        .eq('team_high_id', teamHighId),
-      supabase
-        .from('matchup_games')
-        .select('total, played_at_utc')
-        .eq('sport_id', sportId)
-        .gte('played_at_utc', cutoffDate)
-        .eq('team_low_id', teamHighId)
-        .eq('team_high_id', teamLowId),
-    ])
-    allGames = [...(games1 || []), ...(games2 || [])]
-  }
-
-  if (allGames.length < WEIGHTED_MIN_GAMES) {
-    return null
-  }
+  const [lowCol, highCol] = usesFranchise ? ['franchise_low_id', 'franchise_high_id'] : ['team_low_id', 'team_high_id']
+  const [idA, idB] = usesFranchise ? [franchiseAId, franchiseBId] : [teamLowId, teamHighId]
+
+  // Query BOTH orderings since matchup_games might have either
+  const [{ data: games1 }, { data: games2 }] = await Promise.all([
+    supabase
+      .from('matchup_games')
+      .select('total, played_at_utc, season_year')
+      .eq('sport_id', sportId)
+      .eq(lowCol, idA)
+      .eq(highCol, idB),
+    supabase
+      .from('matchup_games')
+      .select('total, played_at_utc, season_year')
+      .eq('sport_id', sportId)
+      .eq(lowCol, idB)
+      .eq(highCol, idA),
+  ])
+
+  return [...(games1 || []), ...(games2 || [])].map((g: any) => ({
+    total: Number(g.total),
+    played_at_utc: g.played_at_utc,
+    season_year: g.season_year,
+  }))
+}
 
-  // Apply recency weights using actual calendar year from played_at_utc
-  const weightedGames: WeightedGame[] = allGames.map((g: any) => {
-    const playedYear = g.played_at_utc ? new Date(g.played_at_utc).getFullYear() : currentYear
-    const yearDiff = currentYear - playedYear
-    const weight = RECENCY_WEIGHTS[Math.min(yearDiff, 4) as keyof typeof RECENCY_WEIGHTS]
-    return {
-      total: Number(g.total),
-      weight,
-      yearDiff,
-    }
-  })
+// Last N final totals for a team against any opponent, most recent first
+async function fetchTeamForm(supabase: any, sportId: string, teamId: string): Promise<number[]> {
+  const { data } = await supabase
+    .from('games')
+    .select('final_total, start_time_utc')
+    .eq('sport_id', sportId)
+    .eq('status', 'final')
+    .not('final_total', 'is', null)
+    .or(`home_team_id.eq.${teamId},away_team_id.eq.${teamId}`)
+    .order('start_time_utc', { ascending: false })
+    .limit(HYBRID_FORM_GAMES)
 
-  const { p05, p95, median } = computeWeightedPercentiles(weightedGames)
-  const totals = weightedGames.map(g => g.total).sort((a, b) => a - b)
-
-  // Log weight distribution for debugging
-  const weightsByYear = weightedGames.reduce((acc, g) => {
-    acc[g.yearDiff] = (acc[g.yearDiff] || 0) + 1
-    return acc
-  }, {} as Record<number, number>)
-  
-  console.log(`[COMPUTE] Recency weighted: ${allGames.length} games, distribution: ${JSON.stringify(weightsByYear)}`)
-
-  return {
-    segment_used: 'recency_weighted',
-    n_used: allGames.length,
-    p05,
-    p95,
-    median,
-    totals,
-  }
+  return (data || []).map((g: any) => Number(g.final_total))
 }
 
-async function selectBestSegment(
+// League-wide final totals for a sport and season, used as the shrinkage prior.
+// Early in a season the previous season is pooled in until LEAGUE_MIN_GAMES.
+async function fetchLeagueSketch(
   supabase: any,
   sportId: string,
-  franchiseAId: string | null,
-  franchiseBId: string | null,
-  teamLowId: string,
-  teamHighId: string
-): Promise<SegmentResult | null> {
-  const usesFranchise = franchiseAId && franchiseBId
+  seasonYear: number | null,
+  before: string
+): Promise<DistributionSketch | null> {
+  let query = supabase
+    .from('games')
+    .select('final_total, season_year')
+    .eq('sport_id', sportId)
+    .eq('status', 'final')
+    .not('final_total', 'is', null)
+    .lt('start_time_utc', before)
+    .order('start_time_utc', { ascending: false })
+    .limit(LEAGUE_SAMPLE_LIMIT)
 
-  for (const segment of SEGMENT_LADDER) {
-    let allGames: any[] = []
-    // Use played_at_utc date cutoff instead of season_year
-    const cutoffDate = segment.yearsBack !== null ? getYearCutoffDate(segment.yearsBack) : null
-
-    if (usesFranchise) {
-      // Query BOTH orderings since matchup_games might have either
-      let query1 = supabase
-        .from('matchup_games')
-        .select('total, played_at_utc')
-        .eq('sport_id', sportId)
-        .eq('franchise_low_id', franchiseAId)
-        .eq('franchise_high_id', franchiseBId)
-
-      let query2 = supabase
-        .from('matchup_games')
-        .select('total, played_at_utc')
-        .eq('sport_id', sportId)
-        .eq('franchise_low_id', franchiseBId)
-        .eq('franchise_high_id', franchiseAId)
-
-      if (cutoffDate) {
-        query1 = query1.gte('played_at_utc', cutoffDate)
-        query2 = query2.gte('played_at_utc', cutoffDate)
-      }
+  if (seasonYear) {
+    query = query.in('season_year', [seasonYear, seasonYear - 1])
+  }
 
-      const [{ data: games1 }, { data: games2 }] = await Promise.all([query1, query2])
-      allGames = [...(games1 || []), ...(games2 || [])]
-    } else {
-      // Query BOTH orderings for team IDs too
-      let query1 = supabase
-        .from('matchup_games')
-        .select('total, played_at_utc')
-        .eq('sport_id', sportId)
-        .eq('team_low_id', teamLowId)
-        .eq('team_high_id', teamHighId)
-
-      let query2 = supabase
-        .from('matchup_games')
-        .select('total, played_at_utc')
-        .eq('sport_id', sportId)
-        .eq('team_low_id', teamHighId)
-        .eq('team_high_id', teamLowId)
-
-      if (cutoffDate) {
-        query1 = query1.gte('played_at_utc', cutoffDate)
-        query2 = query2.gte('played_at_utc', cutoffDate)
-      }
+  const { data } = await query
+  const rows = (data || []) as Array<{ final_total: number; season_year: number | null }>
+  const thisSeason = rows.filter(r => r.season_year === seasonYear)
+  const sample = thisSeason.length >= LEAGUE_MIN_GAMES ? thisSeason : rows
 
-      const [{ data: games1 }, { data: games2 }] = await Promise.all([query1, query2])
-      allGames = [...(games1 || []), ...(games2 || [])]
-    }
+  if (sample.length < LEAGUE_MIN_GAMES) return null
+  return buildSketch(sample.map(r => Number(r.final_total)))
+}
 
-    if (allGames.length >= MIN_SAMPLE) {
-      const totals = allGames.map((g: any) => Number(g.total)).sort((a: number, b: number) => a - b)
-      const n = totals.length
-
-      const p05Index = Math.max(0, Math.ceil(0.05 * n) - 1)
-      const p95Index = Math.min(n - 1, Math.ceil(0.95 * n) - 1)
-      const medianIndex = Math.floor(n / 2)
-
-      return {
-        segment_used: segment.key,
-        n_used: n,
-        p05: totals[p05Index],
-        p95: totals[p95Index],
-        median: n % 2 === 0 ? (totals[medianIndex - 1] + totals[medianIndex]) / 2 : totals[medianIndex],
-        totals,
-      }
-    }
+// League average total per season for a sport (league_season_totals view)
+async function fetchSeasonAverages(supabase: any, sportId: string): Promise<Map<number, SeasonAverage>> {
+  const { data, error } = await supabase
+    .from('league_season_totals')
+    .select('season_year, n_games, avg_total')
+    .eq('sport_id', sportId)
+  if (error) {
+    console.error(`[COMPUTE] league_season_totals lookup failed for ${sportId}:`, error.message)
   }
+  return seasonAverageMap(data || [])
+}
 
-  return null
+// Sport's comparable-era policy: game_eras rows, else the declared defaults
+async function fetchEras(supabase: any, sportId: string): Promise<GameEra[]> {
+  const { data, error } = await supabase
+    .from('game_eras')
+    .select('era_name, start_date, end_date, weight, description')
+    .eq('sport_id', sportId)
+  if (error) {
+    console.error(`[COMPUTE] game_eras lookup failed for ${sportId}:`, error.message)
+  }
+  return erasForSport(sportId, (data || []).map((e: GameEra) => ({ ...e, weight: Number(e.weight) })))
 }
 
-// Recency weights for hybrid form - more recent games matter more
-const HYBRID_RECENCY_WEIGHTS: Record<number, number> = {
-  0: 1.0,   // Most recent games
-  1: 0.95,
-  2: 0.90,
-  3: 0.85,
-  4: 0.80,
-  5: 0.75,
-  6: 0.70,
-  7: 0.65,
-  8: 0.60,
-  9: 0.55,
+// Latest relocation of a franchise, from its team_versions
+async function fetchRelocationCutoff(supabase: any, franchiseId: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('team_versions')
+    .select('city, effective_from')
+    .eq('franchise_id', franchiseId)
+  return relocationCutoff(data || [])
 }
 
-async function computeHybridForm(
-  supabase: any,
-  sportId: string,
-  homeTeamId: string,
-  awayTeamId: string
-): Promise<SegmentResult | null> {
-  // Get last N games for each team (regardless of opponent) with order
-  const { data: homeGames } = await supabase
-    .from('games')
-    .select('final_total, start_time_utc')
-    .eq('sport_id', sportId)
-    .eq('status', 'final')
-    .not('final_total', 'is', null)
-    .or(`home_team_id.eq.${homeTeamId},away_team_id.eq.${homeTeamId}`)
-    .order('start_time_utc', { ascending: false })
-    .limit(20)
+interface ScoringAdjustment {
+  method: EraAdjustment
+  averages: Map<number, SeasonAverage>
+  reference: SeasonAverage
+}
 
-  const { data: awayGames } = await supabase
-    .from('games')
-    .select('final_total, start_time_utc')
-    .eq('sport_id', sportId)
-    .eq('status', 'final')
-    .not('final_total', 'is', null)
-    .or(`home_team_id.eq.${awayTeamId},away_team_id.eq.${awayTeamId}`)
-    .order('start_time_utc', { ascending: false })
-    .limit(20)
+interface EraPolicy {
+  eras: GameEra[]
+  /** Later of the two franchises' relocations; meetings before it are excluded */
+  relocatedAt: string | null
+}
 
-  const homeCount = homeGames?.length || 0
-  const awayCount = awayGames?.length || 0
+// Era scoring adjustment, then comparable eras -> recency weighted -> segment ladder -> hybrid form
+async function computeGameSegment(
+  supabase: any,
+  game: any,
+  franchiseLowId: string | null,
+  franchiseHighId: string | null,
+  teamLowId: string,
+  teamHighId: string,
+  useRecencyWeighted: boolean,
+  eraPolicy: EraPolicy | null,
+  adjustment: ScoringAdjustment | null
+): Promise<SegmentResult | null> {
+  let history: MatchupGameTotal[] = await fetchMatchupHistory(
+    supabase,
+    game.sport_id,
+    franchiseLowId,
+    franchiseHighId,
+    teamLowId,
+    teamHighId
+  )
 
-  if (homeCount < HYBRID_MIN_GAMES || awayCount < HYBRID_MIN_GAMES) {
-    return null
+  // Every meeting is restated in the reference season's scoring environment
+  if (adjustment) {
+    const adjusted = adjustHistory(history as SeasonGameTotal[], adjustment.averages, adjustment.reference, adjustment.method)
+    history = adjusted.games
+    console.log(`[COMPUTE] Era adjustment (${adjustment.method} to ${adjustment.reference.season_year}): ${adjusted.adjusted} of ${history.length} totals moved`)
   }
 
-  // Apply recency weights to each team's games (index 0 = most recent)
-  const homeWeighted = homeGames.map((g: any, i: number) => ({
-    total: Number(g.final_total),
-    weight: HYBRID_RECENCY_WEIGHTS[Math.min(i, 9)],
-  }))
-  
-  const awayWeighted = awayGames.map((g: any, i: number) => ({
-    total: Number(g.final_total),
-    weight: HYBRID_RECENCY_WEIGHTS[Math.min(i, 9)],
-  }))
+  let result: SegmentResult | null = null
 
-  // Combine all weighted games
-  const allWeightedGames = [...homeWeighted, ...awayWeighted]
-  
-  // Calculate weighted percentiles
-  const sorted = [...allWeightedGames].sort((a, b) => a.total - b.total)
-  const totalWeight = sorted.reduce((sum, g) => sum + g.weight, 0)
-  
-  let cumWeight = 0
-  let p05 = sorted[0].total
-  let p95 = sorted[sorted.length - 1].total
-  let median = sorted[Math.floor(sorted.length / 2)].total
-  let p05Found = false
-  let medianFound = false
-  
-  for (let i = 0; i < sorted.length; i++) {
-    cumWeight += sorted[i].weight
-    const percentile = cumWeight / totalWeight
-    
-    if (!p05Found && percentile >= 0.05) {
-      p05 = sorted[i].total
-      p05Found = true
-    }
-    if (!medianFound && percentile >= 0.5) {
-      median = sorted[i].total
-      medianFound = true
+  // When eras drop or discount meetings, only the comparable ones go any further
+  if (eraPolicy) {
+    const filtered = applyEraFilter(history, eraPolicy.eras, eraPolicy.relocatedAt)
+    if (filtered.applied) {
+      history = filtered.games
+      result = computeEraSegment(filtered)
+      console.log(`[COMPUTE] ${filtered.label}: ${filtered.excluded} excluded, ${filtered.downweighted} down-weighted`)
     }
-    if (percentile >= 0.95) {
-      p95 = sorted[i].total
-      break
+  }
+
+  if (!result && useRecencyWeighted) {
+    result = computeRecencyWeighted(history)
+    if (result) {
+      console.log(`[COMPUTE] Recency weighted: ${result.n_used} games`)
     }
   }
 
-  const totals = sorted.map(g => g.total)
-  
-  // Log weight distribution for debugging
-  const avgHomeWeight = homeWeighted.reduce((s: number, g: { weight: number }) => s + g.weight, 0) / homeWeighted.length
-  const avgAwayWeight = awayWeighted.reduce((s: number, g: { weight: number }) => s + g.weight, 0) / awayWeighted.length
-  console.log(`[COMPUTE] Hybrid form: ${homeCount}+${awayCount} games, avg weights: home=${avgHomeWeight.toFixed(2)}, away=${avgAwayWeight.toFixed(2)}`)
-
-  return {
-    segment_used: 'hybrid_form',
-    n_used: homeCount + awayCount,
-    p05,
-    p95,
-    median,
-    totals,
+  if (!result) {
+    result = selectBestSegment(history)
   }
+
+  // If no segment has enough data, try hybrid form
+  if (!result) {
+    const [homeTotals, awayTotals] = await Promise.all([
+      fetchTeamForm(supabase, game.sport_id, game.home_team_id),
+      fetchTeamForm(supabase, game.sport_id, game.away_team_id),
+    ])
+    result = computeHybridForm(homeTotals, awayTotals)
+    if (result) {
+      console.log(`[COMPUTE] Hybrid form: ${homeTotals.length}+${awayTotals.length} games`)
+    }
+  }
+
+  return result
 }
 
 Deno.serve(async (req) => {
@@ -403,28 +272,39 @@ Deno.serve(async (req) => {
     h2h_all: 0, 
     hybrid_form: 0,
     recency_weighted: 0,
+    era_comparable: 0,
     insufficient: 0, 
+    era_adjusted: 0,
+    smoothed: 0,
+    snapshots: 0,
     errors: 0,
     hydrated: 0,
   }
 
   try {
-    let requestBody: { date?: string; target_date?: string; use_recency_weighted?: boolean; sport_id?: string; sports?: string[] } = {}
+    let requestBody: {
+      date?: string
+      target_date?: string
+      use_recency_weighted?: boolean
+      use_era_filter?: boolean
+      sport_id?: string
+      sports?: string[]
+    } = {}
     try {
       requestBody = await req.json()
     } catch {
       // Empty body is OK
     }
 
-    const { date, target_date, use_recency_weighted = true, sport_id, sports } = requestBody
+    const { date, target_date, use_recency_weighted = true, use_era_filter = true, sport_id, sports } = requestBody
     const targetDate = target_date || date || getTodayET()
     const sportFilter = sports?.length ? sports : sport_id ? [sport_id] : null
 
-    console.log(`[COMPUTE] Computing percentiles for ${targetDate} with segment ladder (recency_weighted: ${use_recency_weighted})`)
+    console.log(`[COMPUTE] Computing percentiles for ${targetDate} with segment ladder (recency_weighted: ${use_recency_weighted}, era_filter: ${use_era_filter})`)
 
     const { data: jobRun } = await supabase
       .from('job_runs')
-      .insert({ job_name: 'compute', details: { date: targetDate, mode: 'segment_ladder', use_recency_weighted, sport_filter: sportFilter } })
+      .insert({ job_name: 'compute', details: { date: targetDate, mode: 'segment_ladder', use_recency_weighted, use_era_filter, sport_filter: sportFilter } })
       .select()
       .single()
 
@@ -450,48 +330,71 @@ Deno.serve(async (req) => {
 
     console.log(`[COMPUTE] Found ${games?.length || 0} games for ${targetDate}`)
 
+    // Per-sport estimator (empirical unless betting_config says otherwise)
+    const { data: bettingConfig } = await supabase
+      .from('betting_config')
+      .select('distribution_models, era_adjustments')
+      .eq('name', 'default')
+      .maybeSingle()
+    const distributionModels = (bettingConfig?.distribution_models ?? {}) as Record<string, unknown>
+    const eraAdjustments = (bettingConfig?.era_adjustments ?? {}) as Record<string, unknown>
+
+    // League priors are shared by every game of a sport/season in this run
+    const leagueSketches = new Map<string, Promise<DistributionSketch | null>>()
+    const getLeagueSketch = (sportId: string, seasonYear: number | null) => {
+      const key = `${sportId}:${seasonYear ?? 'any'}`
+      if (!leagueSketches.has(key)) {
+        leagueSketches.set(key, fetchLeagueSketch(supabase, sportId, seasonYear, startOfDayET.toISOString()))
+      }
+      return leagueSketches.get(key)!
+    }
+
+    // Era policies and relocation cutoffs are shared the same way
+    const sportEras = new Map<string, Promise<GameEra[]>>()
+    const relocations = new Map<string, Promise<string | null>>()
+    const getEraPolicy = async (sportId: string, franchiseIds: Array<string | null>): Promise<EraPolicy | null> => {
+      if (!use_era_filter) return null
+      if (!sportEras.has(sportId)) sportEras.set(sportId, fetchEras(supabase, sportId))
+      const cutoffs = await Promise.all(
+        franchiseIds.filter((id): id is string => !!id).map(id => {
+          if (!relocations.has(id)) relocations.set(id, fetchRelocationCutoff(supabase, id))
+          return relocations.get(id)!
+        })
+      )
+      const relocatedAt = cutoffs.filter((c): c is string => !!c).sort().at(-1) ?? null
+      return { eras: await sportEras.get(sportId)!, relocatedAt }
+    }
+
+    const seasonAverages = new Map<string, Promise<Map<number, SeasonAverage>>>()
+    const getScoringAdjustment = async (sportId: string, seasonYear: number | null): Promise<ScoringAdjustment | null> => {
+      const method = resolveEraAdjustment(eraAdjustments, sportId)
+      if (method === 'none') return null
+      if (!seasonAverages.has(sportId)) seasonAverages.set(sportId, fetchSeasonAverages(supabase, sportId))
+      const averages = await seasonAverages.get(sportId)!
+      const reference = referenceSeason(averages, seasonYear)
+      return reference ? { method, averages, reference } : null
+    }
+
     for (const game of games || []) {
       try {
         const [teamLowId, teamHighId] = [game.home_team_id, game.away_team_id].sort()
         const [franchiseLowId, franchiseHighId] = game.home_franchise_id && game.away_franchise_id
           ? [game.home_franchise_id, game.away_franchise_id].sort()
           : [null, null]
-
-        let result: SegmentResult | null = null
-
-        // Try recency weighted first if enabled
-        if (use_recency_weighted) {
-          result = await computeRecencyWeighted(
-            supabase,
-            game.sport_id,
-            franchiseLowId,
-            franchiseHighId,
-            teamLowId,
-            teamHighId
-          )
-        }
-
-        // Fall back to segment ladder
-        if (!result) {
-          result = await selectBestSegment(
-            supabase, 
-            game.sport_id, 
-            franchiseLowId, 
-            franchiseHighId,
-            teamLowId, 
-            teamHighId
-          )
-        }
-
-        // If no segment has enough data, try hybrid form
-        if (!result) {
-          result = await computeHybridForm(
-            supabase,
-            game.sport_id,
-            game.home_team_id,
-            game.away_team_id
-          )
-        }
+        const eraPolicy = await getEraPolicy(game.sport_id, [franchiseLowId, franchiseHighId])
+        const adjustment = await getScoringAdjustment(game.sport_id, game.season_year ?? null)
+
+        let result = await computeGameSegment(
+          supabase,
+          game,
+          franchiseLowId,
+          franchiseHighId,
+          teamLowId,
+          teamHighId,
+          use_recency_weighted,
+          eraPolicy,
+          adjustment
+        )
 
         // If still no result and hydration is enabled, trigger on-demand hydration
         if (!result && ENABLE_ON_DEMAND_HYDRATION) {
@@ -520,36 +423,17 @@ Deno.serve(async (req) => {
               counters.hydrated++
               
               // Retry computing after hydration
-              if (use_recency_weighted) {
-                result = await computeRecencyWeighted(
-                  supabase,
-                  game.sport_id,
-                  franchiseLowId,
-                  franchiseHighId,
-                  teamLowId,
-                  teamHighId
-                )
-              }
-              
-              if (!result) {
-                result = await selectBestSegment(
-                  supabase,
-                  game.sport_id,
-                  franchiseLowId,
-                  franchiseHighId,
-                  teamLowId,
-                  teamHighId
-                )
-              }
-              
-              if (!result) {
-                result = await computeHybridForm(
-                  supabase,
-                  game.sport_id,
-                  game.home_team_id,
-                  game.away_team_id
-                )
-              }
+              result = await computeGameSegment(
+                supabase,
+                game,
+                franchiseLowId,
+                franchiseHighId,
+                teamLowId,
+                teamHighId,
+                use_recency_weighted,
+                eraPolicy,
+                adjustment
+              )
             } else {
               console.log(`[COMPUTE] Hydration failed: ${hydrateResponse.status}`)
             }
@@ -563,12 +447,30 @@ Deno.serve(async (req) => {
         let nUsed = 0
         let p05: number | null = null
         let p95: number | null = null
+        let distribution: DistributionSketch | null = null
+        let modelUsed: DistributionModel = 'empirical'
+        let eraAdjustmentUsed: EraAdjustment = 'none'
 
         if (result) {
+          // matchup_stats keeps the raw empirical numbers; the edge uses the configured model
+          const model = resolveDistributionModel(distributionModels, game.sport_id)
+          const league = model === 'shrinkage' ? await getLeagueSketch(game.sport_id, game.season_year ?? null) : null
+          const modelled = applyDistributionModel(result, model, league)
+
           segmentUsed = result.segment_used
           nUsed = result.n_used
-          p05 = result.p05
-          p95 = result.p95
+          p05 = modelled.p05
+          p95 = modelled.p95
+          distribution = modelled.distribution
+          modelUsed = modelled.model
+          if (modelUsed !== 'empirical') {
+            counters.smoothed++
+          }
+          // Hybrid form is built from recent games, which aren't adjusted
+          if (adjustment && segmentUsed !== 'hybrid_form') {
+            eraAdjustmentUsed = adjustment.method
+            counters.era_adjusted++
+          }
 
           // Show ALL games that have computed stats, including hybrid_form
           // hybrid_form uses each team's recent games against ANY opponent - less precise but still useful
@@ -589,11 +491,12 @@ Deno.serve(async (req) => {
             franchise_high_id: franchiseHighId,
             segment_key: segmentUsed,
             n_games: nUsed,
-            p05,
-            p95,
+            p05: result.p05,
+            p95: result.p95,
             median: result.median,
             min_total: result.totals[0],
             max_total: result.totals[result.totals.length - 1],
+            distribution: result.distribution,
             updated_at: new Date().toISOString(),
           }
 
@@ -619,7 +522,7 @@ Deno.serve(async (req) => {
         // Find or update daily_edge
         const { data: existingEdge } = await supabase
           .from('daily_edges')
-          .select('id, dk_total_line')
+          .select('id, dk_total_line, dk_offered, alternate_lines')
           .eq('date_local', targetDate)
           .eq('game_id', game.id)
           .maybeSingle()
@@ -631,14 +534,9 @@ Deno.serve(async (req) => {
         // CRITICAL FIX: Calculate dk_line_percentile
         // This shows where the DK line falls in the historical distribution (0-100)
         // 0 = at p05 (extreme under), 100 = at p95 (extreme over), 50 = median
-        let dkLinePercentile: number | null = null
         const dkLine = existingEdge?.dk_total_line
-
-        if (dkLine !== null && dkLine !== undefined && p05 !== null && p95 !== null && p95 !== p05) {
-          // Calculate where DK line falls in the p05-p95 range
-          const rawPercentile = ((dkLine - p05) / (p95 - p05)) * 100
-          // Clamp to 0-100 but allow slight overflow to detect "beyond extremes"
-          dkLinePercentile = Math.round(Math.max(-10, Math.min(110, rawPercentile)) * 10) / 10
+        const dkLinePercentile = linePercentile(dkLine, p05, p95)
+        if (dkLinePercentile !== null) {
           console.log(`[COMPUTE] Game ${game.id}: DK=${dkLine}, p05=${p05}, p95=${p95}, percentile=${dkLinePercentile}`)
         }
 
@@ -652,6 +550,9 @@ Deno.serve(async (req) => {
           n_used: nUsed,
           franchise_matchup_id: franchiseMatchupId,
           dk_line_percentile: dkLinePercentile,
+          distribution,
+          model: modelUsed,
+          era_adjustment: eraAdjustmentUsed,
           updated_at: new Date().toISOString(),
         }
 
@@ -665,6 +566,26 @@ Deno.serve(async (req) => {
           })
         }
 
+        // Append the point-in-time record; daily_edges itself gets overwritten by later runs
+        const { error: snapshotError } = await supabase.from('edge_snapshots').insert(
+          buildEdgeSnapshot(
+            {
+              ...edgeData,
+              date_local: targetDate,
+              game_id: game.id,
+              dk_offered: existingEdge?.dk_offered ?? false,
+              dk_total_line: dkLine ?? null,
+              alternate_lines: existingEdge?.alternate_lines,
+            },
+            'compute'
+          )
+        )
+        if (snapshotError) {
+          console.error(`[COMPUTE] Snapshot failed for game ${game.id}:`, snapshotError.message)
+        } else {
+          counters.snapshots++
+        }
+
         counters.computed++
       } catch (gameErr) {
         console.error(`[COMPUTE] Error for game ${game.id}:`, gameErr)
@@ -692,6 +613,7 @@ Deno.serve(async (req) => {
         counters,
         segment_ladder: SEGMENT_LADDER.map(s => s.key),
         recency_weighted_enabled: use_recency_weighted,
+        era_filter_enabled: use_era_filter,
         min_sample: MIN_SAMPLE,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
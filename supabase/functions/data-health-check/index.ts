@@ -1,83 +1,64 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { TEAM_REGISTRY, loadTeamDirectory, teamVersionSeeds } from '../_shared/teamRegistry.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-// Franchise mappings for all sports
-const FRANCHISE_MAPPINGS: Record<string, Record<string, string>> = {
-  nba: {
-    "ATL": "Atlanta Hawks", "BOS": "Boston Celtics", "BKN": "Brooklyn Nets", "BRK": "Brooklyn Nets",
-    "CHA": "Charlotte Hornets", "CHI": "Chicago Bulls", "CLE": "Cleveland Cavaliers",
-    "DAL": "Dallas Mavericks", "DEN": "Denver Nuggets", "DET": "Detroit Pistons",
-    "GSW": "Golden State Warriors", "GS": "Golden State Warriors",
-    "HOU": "Houston Rockets", "IND": "Indiana Pacers", "LAC": "LA Clippers",
-    "LAL": "Los Angeles Lakers", "MEM": "Memphis Grizzlies", "MIA": "Miami Heat",
-    "MIL": "Milwaukee Bucks", "MIN": "Minnesota Timberwolves",
-    "NOP": "New Orleans Pelicans", "NO": "New Orleans Pelicans",
-    "NYK": "New York Knicks", "NY": "New York Knicks",
-    "OKC": "Oklahoma City Thunder", "ORL": "Orlando Magic", "PHI": "Philadelphia 76ers",
-    "PHX": "Phoenix Suns", "PHO": "Phoenix Suns", "POR": "Portland Trail Blazers",
-    "SAC": "Sacramento Kings", "SAS": "San Antonio Spurs", "SA": "San Antonio Spurs",
-    "TOR": "Toronto Raptors", "UTA": "Utah Jazz", "UTAH": "Utah Jazz",
-    "WAS": "Washington Wizards", "WSH": "Washington Wizards",
-  },
-  nfl: {
-    "ARI": "Arizona Cardinals", "ATL": "Atlanta Falcons", "BAL": "Baltimore Ravens",
-    "BUF": "Buffalo Bills", "CAR": "Carolina Panthers", "CHI": "Chicago Bears",
-    "CIN": "Cincinnati Bengals", "CLE": "Cleveland Browns", "DAL": "Dallas Cowboys",
-    "DEN": "Denver Broncos", "DET": "Detroit Lions", "GB": "Green Bay Packers",
-    "HOU": "Houston Texans", "IND": "Indianapolis Colts",
-    "JAC": "Jacksonville Jaguars", "JAX": "Jacksonville Jaguars",
-    "KC": "Kansas City Chiefs", "LV": "Las Vegas Raiders", "LAR": "Los Angeles Rams",
-    "LAC": "Los Angeles Chargers", "MIA": "Miami Dolphins", "MIN": "Minnesota Vikings",
-    "NE": "New England Patriots", "NO": "New Orleans Saints",
-    "NYG": "New York Giants", "NYJ": "New York Jets",
-    "PHI": "Philadelphia Eagles", "PIT": "Pittsburgh Steelers", "SF": "San Francisco 49ers",
-    "SEA": "Seattle Seahawks", "TB": "Tampa Bay Buccaneers", "TEN": "Tennessee Titans",
-    "WAS": "Washington Commanders", "WSH": "Washington Commanders",
-  },
-  nhl: {
-    "ANA": "Anaheim Ducks", "ARI": "Arizona Coyotes", "BOS": "Boston Bruins",
-    "BUF": "Buffalo Sabres", "CGY": "Calgary Flames", "CAR": "Carolina Hurricanes",
-    "CHI": "Chicago Blackhawks", "COL": "Colorado Avalanche", "CBJ": "Columbus Blue Jackets",
-    "DAL": "Dallas Stars", "DET": "Detroit Red Wings", "EDM": "Edmonton Oilers",
-    "FLA": "Florida Panthers", "LA": "Los Angeles Kings", "LAK": "Los Angeles Kings",
-    "MIN": "Minnesota Wild", "MTL": "Montreal Canadiens", "NSH": "Nashville Predators",
-    "NJ": "New Jersey Devils", "NJD": "New Jersey Devils", "NYI": "New York Islanders",
-    "NYR": "New York Rangers", "OTT": "Ottawa Senators", "PHI": "Philadelphia Flyers",
-    "PIT": "Pittsburgh Penguins", "SJ": "San Jose Sharks", "SJS": "San Jose Sharks",
-    "SEA": "Seattle Kraken", "STL": "St. Louis Blues", "TB": "Tampa Bay Lightning",
-    "TBL": "Tampa Bay Lightning", "TOR": "Toronto Maple Leafs", "UTA": "Utah Hockey Club",
-    "VAN": "Vancouver Canucks", "VGK": "Vegas Golden Knights", "WSH": "Washington Capitals",
-    "WAS": "Washington Capitals", "WPG": "Winnipeg Jets",
-  },
-  mlb: {
-    "ARI": "Arizona Diamondbacks", "ATL": "Atlanta Braves", "BAL": "Baltimore Orioles",
-    "BOS": "Boston Red Sox", "CHC": "Chicago Cubs", "CWS": "Chicago White Sox",
-    "CHW": "Chicago White Sox", "CIN": "Cincinnati Reds", "CLE": "Cleveland Guardians",
-    "COL": "Colorado Rockies", "DET": "Detroit Tigers", "HOU": "Houston Astros",
-    "KC": "Kansas City Royals", "LAA": "Los Angeles Angels", "LAD": "Los Angeles Dodgers",
-    "MIA": "Miami Marlins", "MIL": "Milwaukee Brewers", "MIN": "Minnesota Twins",
-    "NYM": "New York Mets", "NYY": "New York Yankees", "OAK": "Oakland Athletics",
-    "PHI": "Philadelphia Phillies", "PIT": "Pittsburgh Pirates", "SD": "San Diego Padres",
-    "SDP": "San Diego Padres", "SF": "San Francisco Giants", "SFG": "San Francisco Giants",
-    "SEA": "Seattle Mariners", "STL": "St. Louis Cardinals", "TB": "Tampa Bay Rays",
-    "TBR": "Tampa Bay Rays", "TEX": "Texas Rangers", "TOR": "Toronto Blue Jays",
-    "WAS": "Washington Nationals", "WSH": "Washington Nationals",
-  },
-}
-
 interface HealthCheckResult {
   sport: string
   games_checked: number
   home_franchise_fixed: number
   away_franchise_fixed: number
   matchups_fixed: number
+  franchises_added: number
+  versions_added: number
   errors: number
 }
 
+// Insert franchises and team_versions the registry knows but the tables don't
+async function syncRegistry(supabase: any, sport: string): Promise<{ franchises_added: number; versions_added: number }> {
+  const seeds = TEAM_REGISTRY[sport] ?? []
+  if (seeds.length === 0) return { franchises_added: 0, versions_added: 0 }
+
+  const { data: added, error: franchiseError } = await supabase
+    .from("franchises")
+    .upsert(
+      seeds.map((seed) => ({ sport_id: sport, canonical_name: seed.name })),
+      { onConflict: "sport_id,canonical_name", ignoreDuplicates: true }
+    )
+    .select("id")
+  if (franchiseError) throw new Error(`Failed to sync ${sport} franchises: ${franchiseError.message}`)
+
+  const [{ data: franchises }, { data: versions }] = await Promise.all([
+    supabase.from("franchises").select("id, canonical_name").eq("sport_id", sport),
+    supabase.from("team_versions").select("franchise_id, effective_from").eq("sport_id", sport),
+  ])
+  const franchiseIds = new Map<string, string>((franchises || []).map((f: { id: string; canonical_name: string }) => [f.canonical_name, f.id]))
+  const existing = new Set((versions || []).map((v: { franchise_id: string; effective_from: string }) => `${v.franchise_id}:${v.effective_from}`))
+
+  const missing = teamVersionSeeds(sport)
+    .filter((v) => franchiseIds.has(v.franchise))
+    .map((v) => ({
+      sport_id: sport,
+      franchise_id: franchiseIds.get(v.franchise),
+      display_name: v.display_name,
+      city: v.city,
+      abbrev: v.abbrev,
+      effective_from: v.effective_from,
+      effective_to: v.effective_to,
+    }))
+    .filter((v) => !existing.has(`${v.franchise_id}:${v.effective_from}`))
+
+  if (missing.length > 0) {
+    const { error: versionError } = await supabase.from("team_versions").insert(missing)
+    if (versionError) throw new Error(`Failed to sync ${sport} team versions: ${versionError.message}`)
+  }
+
+  return { franchises_added: added?.length ?? 0, versions_added: missing.length }
+}
+
 async function fixFranchiseIds(
   supabase: any,
   sport: string,
@@ -90,9 +71,15 @@ async function fixFranchiseIds(
     home_franchise_fixed: 0,
     away_franchise_fixed: 0,
     matchups_fixed: 0,
+    franchises_added: 0,
+    versions_added: 0,
     errors: 0,
   }
 
+  const synced = await syncRegistry(supabase, sport)
+  result.franchises_added = synced.franchises_added
+  result.versions_added = synced.versions_added
+
   // Find games with missing franchise IDs
   const { data: gamesWithMissingFranchises, error: fetchError } = await supabase
     .from("games")
@@ -103,6 +90,7 @@ async function fixFranchiseIds(
       away_team_id,
       home_franchise_id,
       away_franchise_id,
+      start_time_utc,
       home_team:teams!games_home_team_id_fkey(id, abbrev, name),
       away_team:teams!games_away_team_id_fkey(id, abbrev, name)
     `)
@@ -124,37 +112,14 @@ async function fixFranchiseIds(
   result.games_checked = gamesWithMissingFranchises.length
   console.log(`[HEALTH] Found ${gamesWithMissingFranchises.length} ${sport} games with missing franchise IDs`)
 
-  // Cache franchise lookups
-  const franchiseCache = new Map<string, string>()
+  const directory = await loadTeamDirectory(supabase, sport)
 
   for (const game of gamesWithMissingFranchises) {
     const updates: { home_franchise_id?: string; away_franchise_id?: string } = {}
 
     // Fix home franchise if missing
     if (!game.home_franchise_id && game.home_team?.abbrev) {
-      const abbrev = game.home_team.abbrev
-      const cacheKey = `${sport}:${abbrev}`
-      
-      let franchiseId = franchiseCache.get(cacheKey)
-      if (!franchiseId) {
-        const mapping = FRANCHISE_MAPPINGS[sport]
-        const canonicalName = mapping?.[abbrev]
-
-        if (canonicalName) {
-          const { data: franchise } = await supabase
-            .from("franchises")
-            .select("id")
-            .eq("sport_id", sport)
-            .eq("canonical_name", canonicalName)
-            .maybeSingle()
-
-          if (franchise?.id) {
-            franchiseId = franchise.id
-            franchiseCache.set(cacheKey, franchise.id)
-          }
-        }
-      }
-
+      const franchiseId = directory.resolve("espn", game.home_team.abbrev, game.start_time_utc)?.franchise_id
       if (franchiseId) {
         updates.home_franchise_id = franchiseId
       }
@@ -162,29 +127,7 @@ async function fixFranchiseIds(
 
     // Fix away franchise if missing
     if (!game.away_franchise_id && game.away_team?.abbrev) {
-      const abbrev = game.away_team.abbrev
-      const cacheKey = `${sport}:${abbrev}`
-      
-      let franchiseId = franchiseCache.get(cacheKey)
-      if (!franchiseId) {
-        const mapping = FRANCHISE_MAPPINGS[sport]
-        const canonicalName = mapping?.[abbrev]
-
-        if (canonicalName) {
-          const { data: franchise } = await supabase
-            .from("franchises")
-            .select("id")
-            .eq("sport_id", sport)
-            .eq("canonical_name", canonicalName)
-            .maybeSingle()
-
-          if (franchise?.id) {
-            franchiseId = franchise.id
-            franchiseCache.set(cacheKey, franchise.id)
-          }
-        }
-      }
-
+      const franchiseId = directory.resolve("espn", game.away_team.abbrev, game.start_time_utc)?.franchise_id
       if (franchiseId) {
         updates.away_franchise_id = franchiseId
       }
@@ -306,6 +249,7 @@ Deno.serve(async (req) => {
       total_games_checked: results.reduce((sum, r) => sum + r.games_checked, 0),
       total_franchise_ids_fixed: totalFixed,
       total_matchups_fixed: results.reduce((sum, r) => sum + r.matchups_fixed, 0),
+      total_team_versions_added: results.reduce((sum, r) => sum + r.versions_added, 0),
       total_errors: results.reduce((sum, r) => sum + r.errors, 0),
       by_sport: results,
     }
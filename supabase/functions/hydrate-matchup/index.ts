@@ -1,85 +1,14 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { SEGMENT_LADDER, buildSketch, computePercentiles, getYearCutoffDate } from "../_shared/percentiles.ts";
+import { franchiseName, sameFranchise, teamKey } from "../_shared/teamRegistry.ts";
+import { runJob, supabaseJobStore } from "../_shared/jobRunner.ts";
+import { ESPN_SPORT_PATHS, espnProvider, providerTransport, type EspnTeamList, type SportsDataProvider } from "../_shared/providers.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// ESPN Team Schedule API - bulk fetch all games for a team
-const ESPN_SCHEDULE_URLS: Record<string, string> = {
-  nba: "https://site.api.espn.com/apis/site/v2/sports/basketball/nba/teams",
-  nfl: "https://site.api.espn.com/apis/site/v2/sports/football/nfl/teams",
-  nhl: "https://site.api.espn.com/apis/site/v2/sports/hockey/nhl/teams",
-  mlb: "https://site.api.espn.com/apis/site/v2/sports/baseball/mlb/teams",
-};
-
-// ESPN abbreviation normalization - CRITICAL: Map internal abbrevs TO ESPN format and vice versa
-const ESPN_ABBREV_MAP: Record<string, Record<string, string>> = {
-  nba: { 
-    // Internal -> ESPN
-    "GSW": "GS", "NYK": "NY", "NOP": "NO", "SAS": "SA", "UTA": "UTAH", "WAS": "WSH", "PHX": "PHO",
-    // ESPN -> Internal (for normalization)
-    "GS": "GSW", "NY": "NYK", "NO": "NOP", "SA": "SAS", "UTAH": "UTA", "WSH": "WAS", "PHO": "PHX" 
-  },
-  nfl: { "JAX": "JAC", "JAC": "JAX", "WSH": "WAS", "WAS": "WSH" },
-  nhl: { "LA": "LAK", "LAK": "LA", "UTAH": "UTA", "UTA": "UTAH", "WSH": "WAS", "WAS": "WSH", "VGK": "VEG", "VEG": "VGK", "NAS": "NSH", "NSH": "NAS" },
-  mlb: { "CHW": "CWS", "CWS": "CHW", "WSH": "WAS", "WAS": "WSH" },
-};
-
-// Canonical names for franchises
-const FRANCHISE_MAPPINGS: Record<string, Record<string, string>> = {
-  nba: {
-    "ATL": "Atlanta Hawks", "BOS": "Boston Celtics", "BKN": "Brooklyn Nets",
-    "CHA": "Charlotte Hornets", "CHI": "Chicago Bulls", "CLE": "Cleveland Cavaliers",
-    "DAL": "Dallas Mavericks", "DEN": "Denver Nuggets", "DET": "Detroit Pistons",
-    "GSW": "Golden State Warriors", "HOU": "Houston Rockets", "IND": "Indiana Pacers",
-    "LAC": "LA Clippers", "LAL": "Los Angeles Lakers", "MEM": "Memphis Grizzlies",
-    "MIA": "Miami Heat", "MIL": "Milwaukee Bucks", "MIN": "Minnesota Timberwolves",
-    "NOP": "New Orleans Pelicans", "NYK": "New York Knicks", "OKC": "Oklahoma City Thunder",
-    "ORL": "Orlando Magic", "PHI": "Philadelphia 76ers", "PHX": "Phoenix Suns",
-    "POR": "Portland Trail Blazers", "SAC": "Sacramento Kings", "SAS": "San Antonio Spurs",
-    "TOR": "Toronto Raptors", "UTA": "Utah Jazz", "WAS": "Washington Wizards",
-  },
-  nfl: {
-    "ARI": "Arizona Cardinals", "ATL": "Atlanta Falcons", "BAL": "Baltimore Ravens",
-    "BUF": "Buffalo Bills", "CAR": "Carolina Panthers", "CHI": "Chicago Bears",
-    "CIN": "Cincinnati Bengals", "CLE": "Cleveland Browns", "DAL": "Dallas Cowboys",
-    "DEN": "Denver Broncos", "DET": "Detroit Lions", "GB": "Green Bay Packers",
-    "HOU": "Houston Texans", "IND": "Indianapolis Colts", "JAC": "Jacksonville Jaguars",
-    "KC": "Kansas City Chiefs", "LV": "Las Vegas Raiders", "LAC": "Los Angeles Chargers",
-    "LAR": "Los Angeles Rams", "MIA": "Miami Dolphins", "MIN": "Minnesota Vikings",
-    "NE": "New England Patriots", "NO": "New Orleans Saints", "NYG": "New York Giants",
-    "NYJ": "New York Jets", "PHI": "Philadelphia Eagles", "PIT": "Pittsburgh Steelers",
-    "SF": "San Francisco 49ers", "SEA": "Seattle Seahawks", "TB": "Tampa Bay Buccaneers",
-    "TEN": "Tennessee Titans", "WAS": "Washington Commanders",
-  },
-  nhl: {
-    "ANA": "Anaheim Ducks", "ARI": "Arizona Coyotes", "BOS": "Boston Bruins",
-    "BUF": "Buffalo Sabres", "CGY": "Calgary Flames", "CAR": "Carolina Hurricanes",
-    "CHI": "Chicago Blackhawks", "COL": "Colorado Avalanche", "CBJ": "Columbus Blue Jackets",
-    "DAL": "Dallas Stars", "DET": "Detroit Red Wings", "EDM": "Edmonton Oilers",
-    "FLA": "Florida Panthers", "LAK": "Los Angeles Kings", "MIN": "Minnesota Wild",
-    "MTL": "Montreal Canadiens", "NSH": "Nashville Predators", "NJ": "New Jersey Devils",
-    "NYI": "New York Islanders", "NYR": "New York Rangers", "OTT": "Ottawa Senators",
-    "PHI": "Philadelphia Flyers", "PIT": "Pittsburgh Penguins", "SJ": "San Jose Sharks",
-    "SEA": "Seattle Kraken", "STL": "St. Louis Blues", "TB": "Tampa Bay Lightning",
-    "TOR": "Toronto Maple Leafs", "VAN": "Vancouver Canucks", "VEG": "Vegas Golden Knights",
-    "WPG": "Winnipeg Jets", "WAS": "Washington Capitals", "UTA": "Utah Hockey Club",
-  },
-  mlb: {
-    "ARI": "Arizona Diamondbacks", "ATL": "Atlanta Braves", "BAL": "Baltimore Orioles",
-    "BOS": "Boston Red Sox", "CHC": "Chicago Cubs", "CWS": "Chicago White Sox",
-    "CIN": "Cincinnati Reds", "CLE": "Cleveland Guardians", "COL": "Colorado Rockies",
-    "DET": "Detroit Tigers", "HOU": "Houston Astros", "KC": "Kansas City Royals",
-    "LAA": "Los Angeles Angels", "LAD": "Los Angeles Dodgers", "MIA": "Miami Marlins",
-    "MIL": "Milwaukee Brewers", "MIN": "Minnesota Twins", "NYM": "New York Mets",
-    "NYY": "New York Yankees", "OAK": "Oakland Athletics", "PHI": "Philadelphia Phillies",
-    "PIT": "Pittsburgh Pirates", "SD": "San Diego Padres", "SF": "San Francisco Giants",
-    "SEA": "Seattle Mariners", "STL": "St. Louis Cardinals", "TB": "Tampa Bay Rays",
-    "TEX": "Texas Rangers", "TOR": "Toronto Blue Jays", "WAS": "Washington Nationals",
-  },
-};
-
 interface ParsedGame {
   espnId: string;
   homeAbbrev: string;
@@ -91,71 +20,27 @@ interface ParsedGame {
   isPlayoff: boolean;
 }
 
-function normalizeAbbrev(sport: string, rawAbbrev: string): string {
-  const abbrevMap = ESPN_ABBREV_MAP[sport] || {};
-  return abbrevMap[rawAbbrev] || rawAbbrev;
-}
-
 function computeDecade(year: number): string {
   const decadeStart = Math.floor(year / 10) * 10;
   return `${decadeStart}s`;
 }
 
-// Get ESPN team ID from teams list - try multiple abbreviation variants
-async function getEspnTeamId(sport: string, teamAbbrev: string): Promise<string | null> {
-  const baseUrl = ESPN_SCHEDULE_URLS[sport];
-  if (!baseUrl) return null;
-
-  // Build list of abbreviation variants to try
-  const abbrevMap = ESPN_ABBREV_MAP[sport] || {};
-  const abbrevsToTry = new Set([teamAbbrev]);
-  if (abbrevMap[teamAbbrev]) abbrevsToTry.add(abbrevMap[teamAbbrev]);
-  
-  // Common variant mappings
-  const commonVariants: Record<string, string[]> = {
-    "SAS": ["SA", "SAN"],
-    "SA": ["SAS"],
-    "GSW": ["GS", "GST"],
-    "GS": ["GSW"],
-    "NYK": ["NY"],
-    "NY": ["NYK"],
-    "NOP": ["NO", "NOH"],
-    "NO": ["NOP"],
-    "PHX": ["PHO", "PHOENIX"],
-    "PHO": ["PHX"],
-    "WAS": ["WSH"],
-    "WSH": ["WAS"],
-    "UTA": ["UTAH"],
-    "UTAH": ["UTA"],
-  };
-  
-  if (commonVariants[teamAbbrev]) {
-    for (const v of commonVariants[teamAbbrev]) abbrevsToTry.add(v);
-  }
+// Get ESPN team ID from teams list - any abbreviation of the same franchise matches
+async function getEspnTeamId(espn: SportsDataProvider, sport: string, teamAbbrev: string): Promise<string | null> {
+  if (!ESPN_SPORT_PATHS[sport]) return null;
 
   try {
-    const response = await fetch(baseUrl, { headers: { Accept: "application/json" } });
+    const response = await espn.rosters({ sport });
     if (!response.ok) return null;
 
-    const data = await response.json();
+    const data = response.payload as EspnTeamList;
     for (const team of data.sports?.[0]?.leagues?.[0]?.teams || []) {
-      const espnAbbrev = team.team?.abbreviation?.toUpperCase();
-      
-      // Check if ESPN abbreviation matches any of our variants
-      for (const tryAbbrev of abbrevsToTry) {
-        if (espnAbbrev === tryAbbrev.toUpperCase()) {
-          return team.team?.id;
-        }
-      }
-      
-      // Also normalize ESPN abbrev and compare
-      const normalizedEspn = normalizeAbbrev(sport, espnAbbrev);
-      if (normalizedEspn === teamAbbrev) {
-        return team.team?.id;
+      if (sameFranchise(sport, team.team?.abbreviation, teamAbbrev)) {
+        return team.team?.id ?? null;
       }
     }
     
-    console.log(`[HYDRATE] Could not find ESPN ID for ${teamAbbrev}, tried: ${[...abbrevsToTry].join(", ")}`);
+    console.log(`[HYDRATE] Could not find ESPN ID for ${teamAbbrev}`);
   } catch (e) {
     console.log(`[HYDRATE] Error fetching ESPN teams: ${e}`);
   }
@@ -165,31 +50,22 @@ async function getEspnTeamId(sport: string, teamAbbrev: string): Promise<string
 
 // OPTIMIZED: Fetch all games from team schedule endpoint (bulk fetch)
 async function fetchTeamSchedule(
+  espn: SportsDataProvider,
   sport: string,
   espnTeamId: string,
   season: number
 ): Promise<ParsedGame[]> {
-  const sportPath: Record<string, string> = {
-    nba: "basketball/nba",
-    nfl: "football/nfl",
-    nhl: "hockey/nhl",
-    mlb: "baseball/mlb",
-  };
-
-  const path = sportPath[sport];
-  if (!path) return [];
-
-  // Fetch team schedule for the season
-  const url = `https://site.api.espn.com/apis/site/v2/sports/${path}/teams/${espnTeamId}/schedule?season=${season}`;
-  
+  if (!ESPN_SPORT_PATHS[sport]) return [];
+
   try {
-    const response = await fetch(url, { headers: { Accept: "application/json" } });
+    // Fetch team schedule for the season
+    const response = await espn.schedule({ sport, teamId: espnTeamId, season });
     if (!response.ok) {
-      console.log(`[HYDRATE] Schedule fetch failed: ${response.status} for ${url}`);
+      console.log(`[HYDRATE] Schedule fetch failed: ${response.status} for team ${espnTeamId} ${season}`);
       return [];
     }
 
-    const data = await response.json();
+    const data = response.payload as any;
     const games: ParsedGame[] = [];
 
     for (const event of data.events || []) {
@@ -205,8 +81,8 @@ async function fetchTeamSchedule(
       const awayScore = parseInt(awayTeam.score?.value || awayTeam.score, 10);
       if (isNaN(homeScore) || isNaN(awayScore)) continue;
 
-      const homeAbbrev = normalizeAbbrev(sport, homeTeam.team?.abbreviation);
-      const awayAbbrev = normalizeAbbrev(sport, awayTeam.team?.abbreviation);
+      const homeAbbrev = homeTeam.team?.abbreviation;
+      const awayAbbrev = awayTeam.team?.abbreviation;
 
       games.push({
         espnId: event.id,
@@ -229,6 +105,7 @@ async function fetchTeamSchedule(
 
 // Fetch matchup games using bulk team schedule API
 async function fetchMatchupGamesOptimized(
+  espn: SportsDataProvider,
   sport: string,
   teamAAbbrev: string,
   teamBAbbrev: string,
@@ -237,7 +114,7 @@ async function fetchMatchupGamesOptimized(
   console.log(`[HYDRATE] Using optimized bulk schedule fetch for ${teamAAbbrev} vs ${teamBAbbrev}`);
 
   // Get ESPN team ID for team A
-  const espnTeamId = await getEspnTeamId(sport, teamAAbbrev);
+  const espnTeamId = await getEspnTeamId(espn, sport, teamAAbbrev);
   if (!espnTeamId) {
     console.log(`[HYDRATE] Could not find ESPN ID for ${teamAAbbrev}`);
     return [];
@@ -255,15 +132,15 @@ async function fetchMatchupGamesOptimized(
     seasonYears.push(year);
   }
 
-  const schedulePromises = seasonYears.map(year => fetchTeamSchedule(sport, espnTeamId, year));
+  const schedulePromises = seasonYears.map(year => fetchTeamSchedule(espn, sport, espnTeamId, year));
   const scheduleResults = await Promise.all(schedulePromises);
 
   for (const games of scheduleResults) {
     for (const game of games) {
       // Filter to only matchups between these two teams
       const isMatchup = (
-        (game.homeAbbrev === teamAAbbrev && game.awayAbbrev === teamBAbbrev) ||
-        (game.homeAbbrev === teamBAbbrev && game.awayAbbrev === teamAAbbrev)
+        (sameFranchise(sport, game.homeAbbrev, teamAAbbrev) && sameFranchise(sport, game.awayAbbrev, teamBAbbrev)) ||
+        (sameFranchise(sport, game.homeAbbrev, teamBAbbrev) && sameFranchise(sport, game.awayAbbrev, teamAAbbrev))
       );
 
       if (isMatchup && !seen.has(game.espnId)) {
@@ -310,20 +187,20 @@ async function insertMatchupGames(
   const { data: teams } = await supabase.from("teams").select("id, abbrev").eq("sport_id", sport);
   const { data: franchises } = await supabase.from("franchises").select("id, canonical_name").eq("sport_id", sport);
 
-  const teamMap = new Map<string, string>((teams || []).filter((t: any) => t.abbrev).map((t: any) => [t.abbrev as string, t.id as string]));
-  const franchiseNameToId = new Map<string, string>((franchises || []).map((f: any) => [f.canonical_name as string, f.id as string]));
-  const mapping = FRANCHISE_MAPPINGS[sport] || {};
-  const franchiseMap = new Map<string, string>();
-  for (const [abbrev, name] of Object.entries(mapping)) {
-    const id = franchiseNameToId.get(name);
-    if (id) franchiseMap.set(abbrev, id);
+  // Teams by registry key, so ESPN's "GS" finds the team stored as "GSW"
+  const teamMap = new Map<string, string>();
+  for (const t of teams || []) {
+    const key = teamKey(sport, t.abbrev);
+    if (key && !teamMap.has(key)) teamMap.set(key, t.id);
   }
+  const franchiseNameToId = new Map<string, string>((franchises || []).map((f: any) => [f.canonical_name as string, f.id as string]));
+  const franchiseIdFor = (abbrev: string) => franchiseNameToId.get(franchiseName(sport, abbrev) ?? "");
 
   for (const game of newGames) {
-    const homeTeamId = teamMap.get(game.homeAbbrev);
-    const awayTeamId = teamMap.get(game.awayAbbrev);
-    const homeFranchiseId = franchiseMap.get(game.homeAbbrev);
-    const awayFranchiseId = franchiseMap.get(game.awayAbbrev);
+    const homeTeamId = teamMap.get(teamKey(sport, game.homeAbbrev) ?? "");
+    const awayTeamId = teamMap.get(teamKey(sport, game.awayAbbrev) ?? "");
+    const homeFranchiseId = franchiseIdFor(game.homeAbbrev);
+    const awayFranchiseId = franchiseIdFor(game.awayAbbrev);
 
     if (!homeTeamId || !awayTeamId) continue;
 
@@ -382,13 +259,6 @@ async function insertMatchupGames(
   return { inserted, skipped };
 }
 
-// Helper to get cutoff date for year-based filtering (uses played_at_utc, not season_year)
-function getYearCutoffDate(yearsBack: number): string {
-  const cutoff = new Date();
-  cutoff.setFullYear(cutoff.getFullYear() - yearsBack);
-  return cutoff.toISOString();
-}
-
 // Compute matchup stats after hydration
 async function recomputeMatchupStats(
   supabase: any,
@@ -398,18 +268,10 @@ async function recomputeMatchupStats(
   franchiseLowId: string | null,
   franchiseHighId: string | null
 ): Promise<{ n_games: number; segments_updated: string[] }> {
-  const segments = [
-    { key: "h2h_1y", yearsBack: 1 },
-    { key: "h2h_3y", yearsBack: 3 },
-    { key: "h2h_5y", yearsBack: 5 },
-    { key: "h2h_10y", yearsBack: 10 },
-    { key: "h2h_all", yearsBack: null },
-  ];
-
   const segmentsUpdated: string[] = [];
   let totalGames = 0;
 
-  for (const segment of segments) {
+  for (const segment of SEGMENT_LADDER) {
     let query = supabase
       .from("matchup_games")
       .select("total")
@@ -433,11 +295,8 @@ async function recomputeMatchupStats(
 
     if (n === 0) continue;
 
-    const totals = games.map((g: any) => Number(g.total)).sort((a: number, b: number) => a - b);
-    const p05Index = Math.max(0, Math.ceil(0.05 * n) - 1);
-    const p95Index = Math.min(n - 1, Math.ceil(0.95 * n) - 1);
-    const medianIndex = Math.floor(n / 2);
-    const median = n % 2 === 0 ? (totals[medianIndex - 1] + totals[medianIndex]) / 2 : totals[medianIndex];
+    const totals = games.map((g: any) => Number(g.total));
+    const { p05, p95, median, min, max } = computePercentiles(totals);
 
     const statsData = {
       sport_id: sport,
@@ -447,11 +306,12 @@ async function recomputeMatchupStats(
       franchise_high_id: franchiseHighId,
       segment_key: segment.key,
       n_games: n,
-      p05: totals[p05Index],
-      p95: totals[p95Index],
+      p05,
+      p95,
       median,
-      min_total: totals[0],
-      max_total: totals[n - 1],
+      min_total: min,
+      max_total: max,
+      distribution: buildSketch(totals),
       updated_at: new Date().toISOString(),
     };
 
@@ -485,6 +345,7 @@ Deno.serve(async (req) => {
     Deno.env.get("SUPABASE_URL") ?? "",
     Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
   );
+  const espn = espnProvider(providerTransport(Deno.env.get("PROVIDER_MODE"), supabase));
 
   try {
     const { sport_id, team_a_id, team_b_id, years_back = 10 } = await req.json();
@@ -530,55 +391,64 @@ Deno.serve(async (req) => {
       }
     }
 
-    // Log job start
-    const { data: jobRun } = await supabase
-      .from("job_runs")
-      .insert({
-        job_name: "hydrate-matchup",
-        details: { sport_id, team_a: teamA.abbrev, team_b: teamB.abbrev, years_back, optimized: true },
-      })
-      .select("id")
-      .single();
+    // The lease is per matchup, so overlapping prewarms don't hydrate it twice
+    const job = await runJob(supabaseJobStore(supabase), {
+      job_name: "hydrate-matchup",
+      job_key: `hydrate-matchup:${sport_id}:${teamLowId}:${teamHighId}`,
+      details: { sport_id, team_a: teamA.abbrev, team_b: teamB.abbrev, years_back, optimized: true },
+    }, async (ctx) => {
+      // OPTIMIZED: Use bulk team schedule API instead of day-by-day scraping
+      const espnGames = await ctx.step("fetch_schedules", async (step) => {
+        const found = await fetchMatchupGamesOptimized(espn, sport_id, teamA.abbrev, teamB.abbrev, years_back);
+        step.read(found.length);
+        return found;
+      });
+      console.log(`[HYDRATE] Found ${espnGames.length} games from ESPN bulk API`);
+
+      // Insert new games
+      const { inserted, skipped } = await ctx.step("insert_games", async (step) => {
+        const result = await insertMatchupGames(supabase, sport_id, espnGames);
+        step.wrote(result.inserted);
+        return result;
+      }, { retry: false });
+      console.log(`[HYDRATE] Inserted ${inserted} new games, skipped ${skipped} existing`);
+
+      // Recompute matchup stats for all segments
+      const { n_games, segments_updated } = await ctx.step("recompute_stats", async (step) => {
+        const result = await recomputeMatchupStats(
+          supabase,
+          sport_id,
+          teamLowId,
+          teamHighId,
+          franchiseLowId,
+          franchiseHighId
+        );
+        step.wrote(result.segments_updated.length);
+        return result;
+      });
 
-    // OPTIMIZED: Use bulk team schedule API instead of day-by-day scraping
-    const espnGames = await fetchMatchupGamesOptimized(sport_id, teamA.abbrev, teamB.abbrev, years_back);
-    console.log(`[HYDRATE] Found ${espnGames.length} games from ESPN bulk API`);
-
-    // Insert new games
-    const { inserted, skipped } = await insertMatchupGames(supabase, sport_id, espnGames);
-    console.log(`[HYDRATE] Inserted ${inserted} new games, skipped ${skipped} existing`);
-
-    // Recompute matchup stats for all segments
-    const { n_games, segments_updated } = await recomputeMatchupStats(
-      supabase,
-      sport_id,
-      teamLowId,
-      teamHighId,
-      franchiseLowId,
-      franchiseHighId
-    );
+      const summary = {
+        espn_found: espnGames.length,
+        inserted,
+        skipped,
+        n_games_total: n_games,
+        segments_updated,
+      };
+      ctx.detail(summary);
+      return summary;
+    });
 
-    // Update job run
-    if (jobRun?.id) {
-      await supabase
-        .from("job_runs")
-        .update({
-          finished_at: new Date().toISOString(),
-          status: "success",
-          details: {
-            sport_id,
-            team_a: teamA.abbrev,
-            team_b: teamB.abbrev,
-            years_back,
-            optimized: true,
-            espn_found: espnGames.length,
-            inserted,
-            skipped,
-            n_games_total: n_games,
-            segments_updated,
-          },
-        })
-        .eq("id", jobRun.id);
+    if (job.status === "skipped") {
+      return new Response(
+        JSON.stringify({ success: true, skipped: true, reason: job.error, sport_id, team_a: teamA.abbrev, team_b: teamB.abbrev, hydrated: false }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (!job.value) {
+      return new Response(
+        JSON.stringify({ error: job.error, failure_class: job.failure_class, job_id: job.run_id }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
     return new Response(
@@ -587,12 +457,8 @@ Deno.serve(async (req) => {
         sport_id,
         team_a: teamA.abbrev,
         team_b: teamB.abbrev,
-        espn_found: espnGames.length,
-        inserted,
-        skipped,
-        n_games_total: n_games,
-        segments_updated,
-        hydrated: inserted > 0,
+        ...job.value,
+        hydrated: job.value.inserted > 0,
         optimized: true,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -1,60 +1,14 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { loadTeamDirectory } from '../_shared/teamRegistry.ts'
+import { rankCandidates, recordUnresolved, unresolvedEntry } from '../_shared/entityMatching.ts'
+import { providerTransport, sportsDataIoProvider, type SportsDataIoProvider } from '../_shared/providers.ts'
+import { parseSportsDataIoGames, type ParsedGame } from '../_shared/providerParsers.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-// ============================================================
-// RETRY WITH EXPONENTIAL BACKOFF
-// ============================================================
-async function fetchWithRetry(
-  url: string,
-  options: RequestInit,
-  maxRetries = 3,
-  baseDelay = 1000
-): Promise<Response> {
-  let lastError: Error | null = null
-  
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      const response = await fetch(url, options)
-      
-      if (response.status === 429 || response.status >= 500) {
-        const delay = baseDelay * Math.pow(2, attempt)
-        console.log(`Retry ${attempt + 1}/${maxRetries} after ${delay}ms (status: ${response.status})`)
-        await new Promise(r => setTimeout(r, delay))
-        continue
-      }
-      
-      return response
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error('Unknown fetch error')
-      const delay = baseDelay * Math.pow(2, attempt)
-      console.log(`Retry ${attempt + 1}/${maxRetries} after ${delay}ms (error: ${lastError.message})`)
-      await new Promise(r => setTimeout(r, delay))
-    }
-  }
-  
-  throw lastError || new Error('Max retries exceeded')
-}
-
-interface GameData {
-  provider_game_key: string
-  start_time_utc: string
-  home_team_key: string
-  away_team_key: string
-  home_team_name: string
-  away_team_name: string
-  home_team_abbrev: string
-  away_team_abbrev: string
-  home_team_city?: string
-  away_team_city?: string
-  home_score: number | null
-  away_score: number | null
-  status: 'scheduled' | 'live' | 'final' | 'postponed' | 'canceled'
-}
-
 // Get today's date in America/New_York timezone
 function getTodayET(): string {
   const now = new Date()
@@ -67,60 +21,6 @@ function getTodayET(): string {
   return formatter.format(now)
 }
 
-// Normalize team abbreviation for franchise lookup
-function normalizeAbbrev(sport: string, abbrev: string): string {
-  const normalized = abbrev?.toUpperCase() || ''
-  
-  const mappings: Record<string, Record<string, string>> = {
-    nfl: { 'WSH': 'WAS', 'JAC': 'JAX', 'LVR': 'LV', 'LAR': 'LA' },
-    nba: { 'PHX': 'PHO', 'BKN': 'BRK', 'CHA': 'CHO', 'NOP': 'NO' },
-    nhl: { 'VGK': 'VEG', 'SJS': 'SJ', 'NJD': 'NJ', 'TBL': 'TB' },
-    mlb: { 'ARI': 'AZ', 'CHW': 'CWS', 'KCR': 'KC', 'SFG': 'SF', 'TBR': 'TB', 'WSN': 'WSH' },
-  }
-  
-  return mappings[sport]?.[normalized] || normalized
-}
-
-// Find franchise by team abbreviation (cached)
-async function findFranchiseByAbbrev(
-  supabase: any,
-  sportId: string,
-  abbrev: string,
-  cache: Map<string, string | null>
-): Promise<string | null> {
-  const cacheKey = `${sportId}:${abbrev}`
-  if (cache.has(cacheKey)) return cache.get(cacheKey) || null
-
-  const normalized = normalizeAbbrev(sportId, abbrev)
-  
-  // Try team_versions first (most reliable)
-  const { data: teamVersion } = await supabase
-    .from('team_versions')
-    .select('franchise_id')
-    .eq('sport_id', sportId)
-    .ilike('abbrev', normalized)
-    .limit(1)
-    .maybeSingle()
-
-  if (teamVersion?.franchise_id) {
-    cache.set(cacheKey, teamVersion.franchise_id)
-    return teamVersion.franchise_id
-  }
-
-  // Fallback: search franchises by canonical_name
-  const { data: franchise } = await supabase
-    .from('franchises')
-    .select('id')
-    .eq('sport_id', sportId)
-    .ilike('canonical_name', `%${abbrev}%`)
-    .limit(1)
-    .maybeSingle()
-
-  const franchiseId = franchise?.id || null
-  cache.set(cacheKey, franchiseId)
-  return franchiseId
-}
-
 // All supported sports
 const SPORTS = ['nba', 'mlb', 'nfl', 'nhl']
 
@@ -254,14 +154,15 @@ Deno.serve(async (req) => {
   )
 
   let jobRunId: number | null = null
-  const counters = { fetched: 0, upserted: 0, finals: 0, franchises_linked: 0, errors: 0 }
-  const franchiseCache = new Map<string, string | null>()
+  const counters = { fetched: 0, upserted: 0, finals: 0, franchises_linked: 0, unresolved: 0, errors: 0 }
 
   try {
+    const providerMode = Deno.env.get('PROVIDER_MODE')
     const sportsDataKey = Deno.env.get('SPORTSDATAIO_KEY')
-    if (!sportsDataKey) {
+    if (!sportsDataKey && providerMode !== 'replay') {
       throw new Error('SPORTSDATAIO_KEY not configured')
     }
+    const sdio = sportsDataIoProvider(providerTransport(providerMode, supabase, { sportsdataio: sportsDataKey }))
 
     let requestBody: { sport_id?: string; date?: string } = {}
     try {
@@ -292,16 +193,12 @@ Deno.serve(async (req) => {
 
     for (const sportId of sportsToIngest) {
       try {
-        let games: GameData[] = []
-
-        if (sportId === 'nba') {
-          games = await fetchNBAGames(sportsDataKey, targetDate)
-        } else if (sportId === 'mlb') {
-          games = await fetchMLBGames(sportsDataKey, targetDate)
-        } else if (sportId === 'nfl') {
-          games = await fetchNFLGames(sportsDataKey)
-        } else if (sportId === 'nhl') {
-          games = await fetchNHLGames(sportsDataKey, targetDate)
+        let games: ParsedGame[] = []
+
+        if (sportId === 'nfl') {
+          games = await fetchNFLGames(sdio)
+        } else if (sportId === 'nba' || sportId === 'mlb' || sportId === 'nhl') {
+          games = await fetchGamesByDate(sdio, sportId, targetDate)
         }
 
         counters.fetched += games.length
@@ -309,6 +206,8 @@ Deno.serve(async (req) => {
 
         console.log(`[INGEST] Found ${games.length} games for ${sportId}`)
 
+        const directory = await loadTeamDirectory(supabase, sportId)
+
         for (const game of games) {
           try {
             // Find or create teams
@@ -321,13 +220,33 @@ Deno.serve(async (req) => {
 
             if (!homeTeam || !awayTeam) continue
 
-            // Look up franchise IDs from team abbreviations
-            const homeFranchiseId = await findFranchiseByAbbrev(
-              supabase, sportId, game.home_team_abbrev, franchiseCache
-            )
-            const awayFranchiseId = await findFranchiseByAbbrev(
-              supabase, sportId, game.away_team_abbrev, franchiseCache
-            )
+            // Resolve franchise IDs through the team registry
+            const homeResolved = directory.resolve('sportsdataio', game.home_team_abbrev, game.start_time_utc)
+            const awayResolved = directory.resolve('sportsdataio', game.away_team_abbrev, game.start_time_utc)
+            const homeFranchiseId = homeResolved?.franchise_id ?? null
+            const awayFranchiseId = awayResolved?.franchise_id ?? null
+
+            // Abbreviations nothing resolves go to the review queue
+            const unresolvedSides = [
+              { abbrev: game.home_team_abbrev, resolved: homeResolved, team: homeTeam },
+              { abbrev: game.away_team_abbrev, resolved: awayResolved, team: awayTeam },
+            ]
+            for (const side of unresolvedSides) {
+              if (side.resolved || !side.abbrev) continue
+              console.log(`[INGEST] Unresolved ${sportId} team ${side.abbrev}`)
+              const queued = await recordUnresolved(supabase, unresolvedEntry({
+                entity_type: 'team',
+                source: 'ingest-games',
+                provider: 'sportsdataio',
+                sport_id: sportId,
+                provider_key: side.abbrev,
+                label: side.abbrev,
+                event_date: game.start_time_utc.slice(0, 10),
+                candidates: rankCandidates(side.abbrev, directory.franchiseNames()),
+                context: { team_id: side.team.id },
+              }), { endpoint: `${sportId}/scores/json`, payload: game.raw })
+              if (queued) counters.unresolved++
+            }
 
             if (homeFranchiseId || awayFranchiseId) {
               counters.franchises_linked++
@@ -455,166 +374,40 @@ Deno.serve(async (req) => {
 // SPORT-SPECIFIC FETCH FUNCTIONS
 // ============================================================
 
-async function fetchNBAGames(apiKey: string, date: string): Promise<GameData[]> {
-  // SportsData.io expects date format: YYYY-MMM-DD (e.g., 2024-DEC-25)
-  const dateObj = new Date(date + 'T12:00:00Z')
-  const months = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
-  const formattedDate = `${dateObj.getFullYear()}-${months[dateObj.getMonth()]}-${String(dateObj.getDate()).padStart(2, '0')}`
-  
-  const url = `https://api.sportsdata.io/v3/nba/scores/json/GamesByDate/${formattedDate}`
-  console.log(`[INGEST] NBA API URL: ${url}`)
-  
-  const response = await fetchWithRetry(url, {
-    headers: { 'Ocp-Apim-Subscription-Key': apiKey }
-  })
+async function fetchGamesByDate(sdio: SportsDataIoProvider, sportId: string, date: string): Promise<ParsedGame[]> {
+  console.log(`[INGEST] ${sportId.toUpperCase()} games for ${date}`)
+  const response = await sdio.scores({ sport: sportId, date })
 
   if (!response.ok) {
-    const errorText = await response.text().catch(() => 'Unknown error')
-    console.error(`NBA API error: ${response.status} - ${errorText}`)
+    console.error(`${sportId.toUpperCase()} API error: ${response.status} - ${response.error}`)
     return []
   }
 
-  const data = await response.json()
-  
-  return data.map((game: any) => ({
-    provider_game_key: String(game.GameID),
-    start_time_utc: game.DateTimeUTC || game.DateTime || game.Day,
-    home_team_key: game.HomeTeamID ? String(game.HomeTeamID) : game.HomeTeam,
-    away_team_key: game.AwayTeamID ? String(game.AwayTeamID) : game.AwayTeam,
-    home_team_name: game.HomeTeam,
-    away_team_name: game.AwayTeam,
-    home_team_abbrev: game.HomeTeam,
-    away_team_abbrev: game.AwayTeam,
-    home_score: game.HomeTeamScore,
-    away_score: game.AwayTeamScore,
-    status: mapStatus(game.Status),
-  }))
-}
-
-async function fetchMLBGames(apiKey: string, date: string): Promise<GameData[]> {
-  // SportsData.io expects date format: YYYY-MMM-DD (e.g., 2024-DEC-25)
-  const dateObj = new Date(date + 'T12:00:00Z')
-  const months = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
-  const formattedDate = `${dateObj.getFullYear()}-${months[dateObj.getMonth()]}-${String(dateObj.getDate()).padStart(2, '0')}`
-  
-  const url = `https://api.sportsdata.io/v3/mlb/scores/json/GamesByDate/${formattedDate}`
-  console.log(`[INGEST] MLB API URL: ${url}`)
-  
-  const response = await fetchWithRetry(url, {
-    headers: { 'Ocp-Apim-Subscription-Key': apiKey }
-  })
-
-  if (!response.ok) {
-    const errorText = await response.text().catch(() => 'Unknown error')
-    console.error(`MLB API error: ${response.status} - ${errorText}`)
-    return []
-  }
-
-  const data = await response.json()
-  
-  return data.map((game: any) => ({
-    provider_game_key: String(game.GameID),
-    start_time_utc: game.DateTimeUTC || game.DateTime || game.Day,
-    home_team_key: game.HomeTeamID ? String(game.HomeTeamID) : game.HomeTeam,
-    away_team_key: game.AwayTeamID ? String(game.AwayTeamID) : game.AwayTeam,
-    home_team_name: game.HomeTeam,
-    away_team_name: game.AwayTeam,
-    home_team_abbrev: game.HomeTeam,
-    away_team_abbrev: game.AwayTeam,
-    home_score: game.HomeTeamRuns,
-    away_score: game.AwayTeamRuns,
-    status: mapStatus(game.Status),
-  }))
+  return parseSportsDataIoGames(sportId, response.payload)
 }
 
-async function fetchNFLGames(apiKey: string): Promise<GameData[]> {
+async function fetchNFLGames(sdio: SportsDataIoProvider): Promise<ParsedGame[]> {
   // Get current week
-  const weekUrl = `https://api.sportsdata.io/v3/nfl/scores/json/CurrentWeek`
-  const weekResponse = await fetchWithRetry(weekUrl, {
-    headers: { 'Ocp-Apim-Subscription-Key': apiKey }
-  })
+  const weekResponse = await sdio.currentWeek({ sport: 'nfl' })
 
-  if (!weekResponse.ok) {
+  if (!weekResponse.ok || weekResponse.payload === null) {
     console.error('NFL week API error:', weekResponse.status)
     return []
   }
 
-  const currentWeek = await weekResponse.json()
+  const currentWeek = weekResponse.payload
   
   // Estimate current season
   const now = new Date()
   const year = now.getMonth() >= 8 ? now.getFullYear() : now.getFullYear() - 1
   const season = `${year}REG`
 
-  const url = `https://api.sportsdata.io/v3/nfl/scores/json/ScoresByWeek/${season}/${currentWeek}`
-  
-  const response = await fetchWithRetry(url, {
-    headers: { 'Ocp-Apim-Subscription-Key': apiKey }
-  })
+  const response = await sdio.scores({ sport: 'nfl', season, week: currentWeek })
 
   if (!response.ok) {
     console.error('NFL API error:', response.status)
     return []
   }
 
-  const data = await response.json()
-  
-  return data.map((game: any) => ({
-    provider_game_key: String(game.GameKey || game.ScoreID),
-    start_time_utc: game.DateTimeUTC || game.DateTime || game.Date,
-    home_team_key: game.HomeTeamID ? String(game.HomeTeamID) : game.HomeTeam,
-    away_team_key: game.AwayTeamID ? String(game.AwayTeamID) : game.AwayTeam,
-    home_team_name: game.HomeTeam,
-    away_team_name: game.AwayTeam,
-    home_team_abbrev: game.HomeTeam,
-    away_team_abbrev: game.AwayTeam,
-    home_score: game.HomeScore,
-    away_score: game.AwayScore,
-    status: mapStatus(game.Status),
-  }))
-}
-
-async function fetchNHLGames(apiKey: string, date: string): Promise<GameData[]> {
-  // SportsData.io expects date format: YYYY-MMM-DD (e.g., 2024-DEC-25)
-  const dateObj = new Date(date + 'T12:00:00Z')
-  const months = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
-  const formattedDate = `${dateObj.getFullYear()}-${months[dateObj.getMonth()]}-${String(dateObj.getDate()).padStart(2, '0')}`
-  
-  const url = `https://api.sportsdata.io/v3/nhl/scores/json/GamesByDate/${formattedDate}`
-  console.log(`[INGEST] NHL API URL: ${url}`)
-  
-  const response = await fetchWithRetry(url, {
-    headers: { 'Ocp-Apim-Subscription-Key': apiKey }
-  })
-
-  if (!response.ok) {
-    const errorText = await response.text().catch(() => 'Unknown error')
-    console.error(`NHL API error: ${response.status} - ${errorText}`)
-    return []
-  }
-
-  const data = await response.json()
-  
-  return data.map((game: any) => ({
-    provider_game_key: String(game.GameID),
-    start_time_utc: game.DateTimeUTC || game.DateTime || game.Day,
-    home_team_key: game.HomeTeamID ? String(game.HomeTeamID) : game.HomeTeam,
-    away_team_key: game.AwayTeamID ? String(game.AwayTeamID) : game.AwayTeam,
-    home_team_name: game.HomeTeam,
-    away_team_name: game.AwayTeam,
-    home_team_abbrev: game.HomeTeam,
-    away_team_abbrev: game.AwayTeam,
-    home_score: game.HomeTeamScore,
-    away_score: game.AwayTeamScore,
-    status: mapStatus(game.Status),
-  }))
-}
-
-function mapStatus(status: string): 'scheduled' | 'live' | 'final' | 'postponed' | 'canceled' {
-  const normalized = (status || '').toLowerCase()
-  if (normalized === 'final' || normalized.includes('final')) return 'final'
-  if (normalized === 'inprogress' || normalized.includes('progress')) return 'live'
-  if (normalized === 'postponed') return 'postponed'
-  if (normalized === 'canceled' || normalized === 'cancelled') return 'canceled'
-  return 'scheduled'
+  return parseSportsDataIoGames('nfl', response.payload)
 }
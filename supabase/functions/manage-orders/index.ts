@@ -0,0 +1,222 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { kalshiFetch, resolveKalshiVenue, type KalshiFetch, type KalshiVenue } from '../_shared/kalshiClient.ts'
+import { runJob, supabaseJobStore } from '../_shared/jobRunner.ts'
+import { paperExchange, supabasePaperStore } from '../_shared/paperExchange.ts'
+import { orderPatch, type ExchangeOrder, type OrderPatch } from '../_shared/kalshiSettlement.ts'
+import {
+  isResting,
+  nextExecutionAction,
+  resolveExecutionSettings,
+  type ExecutionLogEntry,
+  type ManagedOrder,
+} from '../_shared/executionStrategy.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const ORDER_COLUMNS = 'id, created_at, ticker, side, count, price, order_id, status, kalshi_status, filled_count, execution_policy, max_price, cancel_at, last_amended_at, amend_count, execution_log'
+
+type WorkingOrder = ManagedOrder & {
+  id: string
+  ticker: string
+  side: 'yes' | 'no'
+  count: number
+  order_id: string
+  filled_count: number | null
+  amend_count: number
+  execution_log: ExecutionLogEntry[]
+}
+
+type OrderUpdate = OrderPatch & Partial<Pick<WorkingOrder, 'order_id' | 'price' | 'last_amended_at' | 'amend_count'>>
+
+interface Credentials {
+  apiKeyId: string
+  privateKey: string
+  venue: KalshiVenue
+  fetchKalshi: KalshiFetch
+}
+
+// Call Kalshi; the parsed body on success, null on 404, the error text otherwise
+async function kalshiCall<T>(
+  endpoint: string,
+  creds: Credentials,
+  method = 'GET',
+  body?: object
+): Promise<{ data: T | null; error?: string }> {
+  const response = await creds.fetchKalshi(endpoint, creds.apiKeyId, creds.privateKey, method, body, creds.venue === 'demo')
+  if (response.status === 404) return { data: null }
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => 'Unknown error')
+    return { data: null, error: `Kalshi ${method} ${endpoint} ${response.status}: ${errorText.slice(0, 200)}` }
+  }
+  return { data: await response.json() as T }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+
+  try {
+    const { data: config } = await supabase
+      .from('betting_config')
+      .select('venue, paper_balance_cents, ladder_rungs, ladder_step_cents, reprice_step_cents, reprice_interval_minutes, cancel_before_start_minutes')
+      .eq('name', 'default')
+      .maybeSingle()
+    const venue = resolveKalshiVenue(config?.venue, Deno.env.get('KALSHI_USE_DEMO') === 'true')
+    const settings = resolveExecutionSettings(config)
+
+    // The paper venue doesn't sign requests
+    const apiKeyId = Deno.env.get('KALSHI_API_KEY_ID') ?? ''
+    const privateKey = Deno.env.get('KALSHI_PRIVATE_KEY') ?? ''
+    if (venue !== 'paper' && (!apiKeyId || !privateKey)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Kalshi credentials not configured' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+    const fetchKalshi = venue === 'paper'
+      ? paperExchange(supabasePaperStore(supabase, config?.paper_balance_cents ?? undefined))
+      : kalshiFetch
+    const creds: Credentials = { apiKeyId, privateKey, venue, fetchKalshi }
+
+    const now = new Date()
+    console.log(`[MANAGE-ORDERS] Working resting ${venue} orders`)
+
+    const job = await runJob(supabaseJobStore(supabase), {
+      job_name: 'manage-orders',
+      details: { venue, settings },
+    }, async (ctx) => {
+      const orders = await ctx.step('load_orders', async (step) => {
+        const { data, error } = await supabase
+          .from('kalshi_orders')
+          .select(ORDER_COLUMNS)
+          .eq('venue', venue)
+          .eq('success', true)
+          .not('order_id', 'is', null)
+          .is('result', null)
+          .in('status', ['pending', 'partial'])
+        if (error) throw error
+        const working = ((data || []) as WorkingOrder[]).filter(isResting)
+        step.read(working.length)
+        return working
+      })
+
+      const log: Array<ExecutionLogEntry & { id: string }> = []
+
+      // Write the exchange's view of the order back with the action's log entry
+      const saveOrder = async (order: WorkingOrder, update: OrderUpdate, entry: ExecutionLogEntry) => {
+        const { error } = await supabase
+          .from('kalshi_orders')
+          .update({ ...update, execution_log: [...(order.execution_log || []), entry] })
+          .eq('id', order.id)
+        if (error) throw error
+        log.push({ ...entry, id: order.id })
+      }
+
+      const worked = await ctx.step('work_orders', async (step) => {
+        let amended = 0
+        let canceled = 0
+        let failed = 0
+        for (const order of orders) {
+          // Act on the exchange's current state; reconcile-kalshi flags orders it can't find
+          const current = await kalshiCall<{ order: ExchangeOrder }>(`/portfolio/orders/${order.order_id}`, creds)
+          step.read(1)
+          if (!current.data?.order) continue
+          const patch = orderPatch(current.data.order, now)
+          const action = nextExecutionAction({ ...order, ...patch }, now, settings)
+          // Fills and exchange cancels are left for reconcile-kalshi to sync and roll up
+          if (!action) continue
+
+          const base = { at: now.toISOString(), order_id: order.order_id, from_price: order.price, filled_count: patch.filled_count }
+
+          if (action.action === 'cancel') {
+            const result = await kalshiCall<{ order: ExchangeOrder }>(`/portfolio/orders/${order.order_id}`, creds, 'DELETE')
+            if (result.data?.order) {
+              await saveOrder(order, orderPatch(result.data.order, now), { ...base, action: 'cancel', reason: action.reason })
+              canceled++
+            } else {
+              await saveOrder(order, patch, { ...base, action: 'cancel', reason: action.reason, error: result.error ?? 'Order not found' })
+              failed++
+            }
+            continue
+          }
+
+          const result = await kalshiCall<{ order: ExchangeOrder }>(`/portfolio/orders/${order.order_id}/amend`, creds, 'POST', {
+            ticker: order.ticker,
+            side: order.side,
+            action: 'buy',
+            count: order.count,
+            yes_price: order.side === 'yes' ? action.price : undefined,
+            no_price: order.side === 'no' ? action.price : undefined,
+          })
+          if (result.data?.order) {
+            await saveOrder(order, {
+              ...orderPatch(result.data.order, now),
+              // An amend can come back under a new order id
+              order_id: result.data.order.order_id || order.order_id,
+              price: action.price,
+              last_amended_at: now.toISOString(),
+              amend_count: (order.amend_count ?? 0) + 1,
+            }, { ...base, action: 'amend', to_price: action.price })
+            amended++
+          } else {
+            // Wait out another interval before retrying
+            await saveOrder(order, { ...patch, last_amended_at: now.toISOString() }, {
+              ...base,
+              action: 'amend',
+              to_price: action.price,
+              error: result.error ?? 'Order not found',
+            })
+            failed++
+          }
+        }
+        step.wrote(amended + canceled + failed)
+        return { amended, canceled, failed }
+      })
+
+      ctx.detail({ orders: orders.length, ...worked })
+      return { orders: orders.length, ...worked, log }
+    })
+
+    if (job.status === 'skipped') {
+      return new Response(
+        JSON.stringify({ success: false, skipped: true, error: job.error }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const result = job.value
+    console.log(`[MANAGE-ORDERS] ${job.status}: ${result?.amended ?? 0} amended, ${result?.canceled ?? 0} canceled, ${result?.failed ?? 0} failed`)
+
+    return new Response(
+      JSON.stringify({
+        success: job.status !== 'fail',
+        status: job.status,
+        job_id: job.run_id,
+        error: job.error,
+        venue,
+        orders: result?.orders ?? 0,
+        amended: result?.amended ?? 0,
+        canceled: result?.canceled ?? 0,
+        failed: result?.failed ?? 0,
+        log: result?.log ?? [],
+      }),
+      { status: job.status === 'fail' ? 500 : 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('[MANAGE-ORDERS] Fatal error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return new Response(
+      JSON.stringify({ success: false, error: message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
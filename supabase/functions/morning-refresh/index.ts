@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { runJob, supabaseJobStore } from '../_shared/jobRunner.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -57,11 +58,6 @@ async function callEdgeFunction(functionName: string, body: Record<string, unkno
   }
 }
 
-// Sleep helper
-async function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms))
-}
-
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders })
@@ -73,7 +69,7 @@ Deno.serve(async (req) => {
   const startTime = Date.now()
 
   try {
-    let requestBody: { days_ahead?: number; skip_odds?: boolean } = {}
+    let requestBody: { days_ahead?: number } = {}
     try {
       requestBody = await req.json()
     } catch {
@@ -81,113 +77,83 @@ Deno.serve(async (req) => {
     }
 
     const daysAhead = requestBody.days_ahead ?? 7 // Default to 7 days
-    const skipOdds = requestBody.skip_odds ?? false
     const today = getTodayET()
 
     console.log(`[MORNING] Starting comprehensive refresh for ${daysAhead} days starting ${today}`)
 
-    // Create job run
-    const { data: jobRun } = await supabase
-      .from('job_runs')
-      .insert({
-        job_name: 'morning-refresh',
-        status: 'running',
-        details: { today, days_ahead: daysAhead },
-      })
-      .select()
-      .single()
-
-    const jobRunId = jobRun?.id
-
-    // ================================================================
-    // STEP 1: Unified BDL sync - games, odds, injuries, standings
-    // Maximizes BallDontLie GOAT tier (600 req/min)
-    // ================================================================
-    console.log(`[MORNING] Step 1: Unified BDL sync for ${daysAhead} days`)
-    
-    results['bdl_sync'] = await callEdgeFunction('bdl-sync', {
-      days_ahead: daysAhead,
-      days_back: 1, // Include yesterday for score updates
-      sports: ['nfl', 'nba'],
-      sync_games: true,
-      sync_odds: true,
-      sync_injuries: true,
-      sync_standings: true,
-    })
-    
-    await sleep(1000)
-
-    // ================================================================
-    // STEP 2: Refresh odds for NHL/MLB (fallback to The Odds API)
-    // ================================================================
-    if (!skipOdds) {
-      console.log(`[MORNING] Step 2: Refreshing NHL/MLB odds`)
-      results['refresh_odds'] = await callEdgeFunction('refresh-odds', {})
-      await sleep(1000)
-    }
+    const job = await runJob(supabaseJobStore(supabase), {
+      job_name: 'morning-refresh',
+      details: { today, days_ahead: daysAhead },
+      // Outlasts the whole chain of calls, so an overlapping cron tick is skipped
+      lease_ms: 30 * 60 * 1000,
+    }, async (ctx) => {
+      // Every call is an optional step: transient failures are retried, and
+      // one that still fails leaves the run partial without stopping the rest
+      const call = async (key: string, functionName: string, body: Record<string, unknown> = {}) => {
+        await ctx.step(key, async () => {
+          const result = await callEdgeFunction(functionName, body)
+          results[key] = result
+          if (!result.success) throw new Error(`${functionName} ${result.error}`)
+          return result.data
+        }, { optional: true })
+      }
 
-    // ================================================================
-    // STEP 3: Prewarm matchup data for the week (hydrate if needed)
-    // ================================================================
-    console.log(`[MORNING] Step 3: Prewarming matchups for ${daysAhead} days`)
-    
-    for (let i = 0; i < Math.min(daysAhead, 3); i++) { // Only prewarm next 3 days to save API calls
-      const date = getDateOffset(i)
-      const key = `prewarm_day_${i}`
-      results[key] = await callEdgeFunction('prewarm-slate', { date })
-      
-      // Rate limit between prewarm calls
-      if (i < 2) {
-        await sleep(2000)
+      // ================================================================
+      // STEP 1: Kick the daily pipeline for yesterday through the next days
+      // run-pipeline orders ingest, odds, hydration, percentiles, signals,
+      // score verification and parlay settlement per date and sport
+      // ================================================================
+      const pipelineDates = [getDateOffset(-1)]
+      for (let i = 0; i < Math.min(daysAhead, 3); i++) { // Only the next 3 days to save API calls
+        pipelineDates.push(getDateOffset(i))
+      }
+      console.log(`[MORNING] Step 1: Starting pipeline for ${pipelineDates.join(', ')}`)
+      for (const date of pipelineDates) {
+        await call(`pipeline_${date}`, 'run-pipeline', { date })
       }
-    }
 
-    // ================================================================
-    // STEP 4: Run data health check to fix any missing franchise IDs
-    // ================================================================
-    console.log(`[MORNING] Step 4: Running data health check`)
-    results['data_health_check'] = await callEdgeFunction('data-health-check', {
-      days_ahead: daysAhead,
-      days_back: 1,
-      sports: ['nba', 'nfl', 'nhl', 'mlb'],
-    })
-    await sleep(500)
-
-    // ================================================================
-    // STEP 5: Compute percentiles for today (priority)
-    // ================================================================
-    console.log(`[MORNING] Step 5: Computing percentiles for today`)
-    results['compute_today'] = await callEdgeFunction('compute-percentiles', {
-      date: today,
-      use_recency_weighted: true,
-    })
+      // ================================================================
+      // STEP 2: Standings (not tied to a slate)
+      // ================================================================
+      console.log(`[MORNING] Step 2: Syncing standings`)
+      await call('bdl_standings', 'bdl-sync', {
+        sports: ['nfl', 'nba'],
+        sync_games: false,
+        sync_odds: false,
+        sync_injuries: false,
+        sync_standings: true,
+      })
 
-    // ================================================================
-    // STEP 6: Compute percentiles for upcoming days
-    // ================================================================
-    console.log(`[MORNING] Step 6: Computing percentiles for upcoming days`)
-    
-    for (let i = 1; i < Math.min(daysAhead, 3); i++) { // Compute next 2 days
-      const date = getDateOffset(i)
-      const key = `compute_day_${i}`
-      results[key] = await callEdgeFunction('compute-percentiles', {
-        date,
-        use_recency_weighted: true,
+      // ================================================================
+      // STEP 3: Run data health check to fix any missing franchise IDs
+      // ================================================================
+      console.log(`[MORNING] Step 3: Running data health check`)
+      await call('data_health_check', 'data-health-check', {
+        days_ahead: daysAhead,
+        days_back: 1,
+        sports: ['nba', 'nfl', 'nhl', 'mlb'],
       })
-      await sleep(500)
-    }
 
-    // ================================================================
-    // STEP 7: Daily backfill to get yesterday's final scores
-    // ================================================================
-    console.log(`[MORNING] Step 7: Running daily backfill for final scores`)
-    results['daily_backfill'] = await callEdgeFunction('daily-backfill', {})
+      // ================================================================
+      // STEP 4: Backfill the last week's final scores
+      // ================================================================
+      console.log(`[MORNING] Step 4: Running daily backfill for final scores`)
+      const backfillFrom = getDateOffset(-7)
+      const backfillTo = getDateOffset(-1)
+      for (const sport of ['nba', 'nfl', 'nhl', 'mlb']) {
+        await call(`daily_backfill_${sport}`, 'backfill', {
+          plan: {
+            sport,
+            source: sport === 'nba' || sport === 'nfl' ? 'balldontlie' : 'espn',
+            scope: 'games',
+            date_from: backfillFrom,
+            date_to: backfillTo,
+          },
+        })
+      }
 
-    // ================================================================
-    // STEP 8: Update parlay results with any finalized games
-    // ================================================================
-    console.log(`[MORNING] Step 8: Updating parlay results`)
-    results['update_parlays'] = await callEdgeFunction('update-parlay-results', {})
+      ctx.detail({ results })
+    })
 
     // Calculate summary
     const totalSteps = Object.keys(results).length
@@ -195,31 +161,18 @@ Deno.serve(async (req) => {
     const failedSteps = totalSteps - successfulSteps
     const duration = ((Date.now() - startTime) / 1000).toFixed(1)
 
-    // Update job run
-    if (jobRunId) {
-      await supabase
-        .from('job_runs')
-        .update({
-          status: failedSteps > 0 ? 'partial' : 'success',
-          finished_at: new Date().toISOString(),
-          details: {
-            today,
-            days_ahead: daysAhead,
-            duration_seconds: Number(duration),
-            total_steps: totalSteps,
-            successful_steps: successfulSteps,
-            failed_steps: failedSteps,
-            results,
-          },
-        })
-        .eq('id', jobRunId)
+    if (job.status === 'skipped') {
+      console.log(`[MORNING] Skipped: ${job.error}`)
+    } else {
+      console.log(`[MORNING] ${job.status}: ${successfulSteps}/${totalSteps} steps in ${duration}s`)
     }
 
-    console.log(`[MORNING] Complete: ${successfulSteps}/${totalSteps} steps in ${duration}s`)
-
     return new Response(
       JSON.stringify({
-        success: failedSteps === 0,
+        success: job.status === 'success',
+        status: job.status,
+        job_id: job.run_id,
+        error: job.error,
         today,
         days_ahead: daysAhead,
         duration_seconds: Number(duration),
@@ -228,6 +181,7 @@ Deno.serve(async (req) => {
           success: successfulSteps,
           failed: failedSteps,
         },
+        metrics: job.metrics,
         results,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -1,4 +1,5 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { runJob, supabaseJobStore } from "../_shared/jobRunner.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -208,17 +209,6 @@ Deno.serve(async (req) => {
 
     console.log(`[PREWARM] Starting prewarm for ${date}, sports: ${sports.join(", ")}`);
 
-    // Log job start
-    const { data: jobRun } = await supabase
-      .from("job_runs")
-      .insert({
-        job_name: "prewarm-slate",
-        status: "running",
-        details: { date, sports },
-      })
-      .select()
-      .single();
-
     const counters: PrewarmCounters = {
       total_matchups: 0,
       already_sufficient: 0,
@@ -228,36 +218,43 @@ Deno.serve(async (req) => {
       errors: 0,
     };
 
-    // Process each sport
-    for (const sportId of sports) {
-      try {
-        await prewarmSport(date, sportId, counters);
-      } catch (err) {
-        console.error(`[PREWARM] Error processing ${sportId}:`, err);
-        counters.errors++;
+    // One run per slate date at a time; a sport failing leaves the run partial
+    const job = await runJob(supabaseJobStore(supabase), {
+      job_name: "prewarm-slate",
+      job_key: `prewarm-slate:${date}`,
+      details: { date, sports },
+    }, async (ctx) => {
+      for (const sportId of sports) {
+        const done = await ctx.step(sportId, async (step) => {
+          const before = { ...counters };
+          await prewarmSport(date, sportId, counters);
+          step.read(counters.total_matchups - before.total_matchups);
+          step.wrote(counters.hydration_success - before.hydration_success);
+          return true;
+        }, { optional: true, retry: false });
+        if (done === null) counters.errors++;
       }
-    }
+      ctx.detail({ counters });
+    });
 
-    // Update job run
-    if (jobRun) {
-      await supabase
-        .from("job_runs")
-        .update({
-          status: counters.errors > 0 ? "partial" : "success",
-          finished_at: new Date().toISOString(),
-          details: { date, sports, counters },
-        })
-        .eq("id", jobRun.id);
+    if (job.status === "skipped") {
+      return new Response(
+        JSON.stringify({ success: false, skipped: true, error: job.error, date, sports }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
     console.log(`[PREWARM] Complete:`, JSON.stringify(counters));
 
     return new Response(
       JSON.stringify({
-        success: true,
+        success: job.status !== "fail",
+        status: job.status,
+        job_id: job.run_id,
         date,
         sports,
         counters,
+        metrics: job.metrics,
       }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
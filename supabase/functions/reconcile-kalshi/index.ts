@@ -0,0 +1,302 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { kalshiFetch, resolveKalshiVenue, type KalshiFetch, type KalshiVenue } from '../_shared/kalshiClient.ts'
+import { runJob, supabaseJobStore } from '../_shared/jobRunner.ts'
+import { paperExchange, supabasePaperStore } from '../_shared/paperExchange.ts'
+import {
+  needsOrderSync,
+  needsSettlement,
+  orderDate,
+  orderPatch,
+  orphanReason,
+  rollupDailyPnl,
+  settleOrder,
+  untrackedOrders,
+  type ExchangeOrder,
+  type LocalOrder,
+  type MarketOutcome,
+} from '../_shared/kalshiSettlement.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Orders placed this far back are still polled and settled
+const DEFAULT_LOOKBACK_DAYS = 14
+
+// Pages of 200 exchange orders read when looking for untracked ones
+const MAX_ORDER_PAGES = 10
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const ORDER_COLUMNS = 'id, created_at, ticker, side, count, price, order_id, success, status, kalshi_status, filled_count, fill_price, fees_cents, edge_percentile, result, pnl_cents, orphan_reason'
+
+type TrackedOrder = LocalOrder & { orphan_reason: string | null }
+
+interface Credentials {
+  apiKeyId: string
+  privateKey: string
+  venue: KalshiVenue
+  fetchKalshi: KalshiFetch
+}
+
+// GET a Kalshi resource; null on 404, throws on anything else that isn't ok
+async function kalshiGet<T>(endpoint: string, creds: Credentials): Promise<T | null> {
+  const response = await creds.fetchKalshi(endpoint, creds.apiKeyId, creds.privateKey, 'GET', undefined, creds.venue === 'demo')
+  if (response.status === 404) return null
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => 'Unknown error')
+    throw new Error(`Kalshi ${endpoint.split('?')[0]} ${response.status}: ${errorText.slice(0, 200)}`)
+  }
+  return await response.json() as T
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+
+  try {
+    const { data: config } = await supabase
+      .from('betting_config')
+      .select('venue, paper_balance_cents')
+      .eq('name', 'default')
+      .maybeSingle()
+    const venue = resolveKalshiVenue(config?.venue, Deno.env.get('KALSHI_USE_DEMO') === 'true')
+
+    // The paper venue doesn't sign requests
+    const apiKeyId = Deno.env.get('KALSHI_API_KEY_ID') ?? ''
+    const privateKey = Deno.env.get('KALSHI_PRIVATE_KEY') ?? ''
+    if (venue !== 'paper' && (!apiKeyId || !privateKey)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Kalshi credentials not configured' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+    const fetchKalshi = venue === 'paper'
+      ? paperExchange(supabasePaperStore(supabase, config?.paper_balance_cents ?? undefined))
+      : kalshiFetch
+    const creds: Credentials = { apiKeyId, privateKey, venue, fetchKalshi }
+
+    let requestBody: { lookback_days?: number } = {}
+    try {
+      requestBody = await req.json()
+    } catch {
+      // Empty body OK
+    }
+    const lookbackDays = requestBody.lookback_days ?? DEFAULT_LOOKBACK_DAYS
+    const now = new Date()
+    const since = new Date(now.getTime() - lookbackDays * DAY_MS)
+    console.log(`[RECONCILE] Reconciling ${venue} orders since ${since.toISOString()}`)
+
+    const job = await runJob(supabaseJobStore(supabase), {
+      job_name: 'reconcile-kalshi',
+      details: { lookback_days: lookbackDays, venue },
+    }, async (ctx) => {
+      const orders = await ctx.step('load_orders', async (step) => {
+        const { data, error } = await supabase
+          .from('kalshi_orders')
+          .select(ORDER_COLUMNS)
+          .eq('venue', venue)
+          .gte('created_at', since.toISOString())
+        if (error) throw error
+        step.read((data || []).length)
+        return (data || []) as TrackedOrder[]
+      })
+
+      // ET dates whose daily_pnl needs rebuilding
+      const touched = new Set<string>()
+      const orphaned: Array<{ id: string; reason: string }> = []
+
+      const flagOrphan = async (order: TrackedOrder, reason: string) => {
+        if (order.orphan_reason === reason) return
+        const { error } = await supabase
+          .from('kalshi_orders')
+          .update({ orphan_reason: reason, orphaned_at: now.toISOString(), reconciled_at: now.toISOString() })
+          .eq('id', order.id)
+        if (error) throw error
+        order.orphan_reason = reason
+        orphaned.push({ id: order.id, reason })
+      }
+
+      const synced = await ctx.step('sync_orders', async (step) => {
+        let count = 0
+        for (const order of orders) {
+          if (orphanReason(order) === 'missing_order_id') {
+            await flagOrphan(order, 'missing_order_id')
+            continue
+          }
+          if (!needsOrderSync(order)) continue
+
+          const data = await kalshiGet<{ order: ExchangeOrder }>(`/portfolio/orders/${order.order_id}`, creds)
+          step.read(1)
+          if (!data?.order) {
+            await flagOrphan(order, 'missing_at_exchange')
+            continue
+          }
+
+          const patch = orderPatch(data.order, now)
+          const { error } = await supabase
+            .from('kalshi_orders')
+            .update({ ...patch, reconciled_at: now.toISOString() })
+            .eq('id', order.id)
+          if (error) throw error
+          if (patch.filled_count !== order.filled_count || patch.status !== order.status) touched.add(orderDate(order))
+          Object.assign(order, patch)
+          count++
+        }
+        step.wrote(count)
+        return count
+      })
+
+      // Orders placed on the account outside auto-bet and kalshi-integration
+      const untracked = await ctx.step('find_untracked', async (step) => {
+        const exchange: ExchangeOrder[] = []
+        let cursor: string | null = null
+        for (let page = 0; page < MAX_ORDER_PAGES; page++) {
+          const endpoint: string = `/portfolio/orders?min_ts=${Math.floor(since.getTime() / 1000)}&limit=200${cursor ? `&cursor=${cursor}` : ''}`
+          const data: { orders?: ExchangeOrder[]; cursor?: string } | null = await kalshiGet(endpoint, creds)
+          exchange.push(...(data?.orders || []))
+          cursor = data?.cursor || null
+          if (!cursor) break
+        }
+        step.read(exchange.length)
+
+        const unknown = untrackedOrders(exchange, new Set(orders.flatMap(o => (o.order_id ? [o.order_id] : []))))
+        if (!unknown.length) return 0
+        // Rows older than the lookback still count as tracked
+        const { data: known, error: knownError } = await supabase
+          .from('kalshi_orders')
+          .select('order_id')
+          .in('order_id', unknown.map(o => o.order_id))
+        if (knownError) throw knownError
+        const knownIds = new Set(((known || []) as Array<{ order_id: string }>).map(k => k.order_id))
+        const missing = unknown.filter(o => !knownIds.has(o.order_id))
+        if (!missing.length) return 0
+
+        const { data: inserted, error } = await supabase
+          .from('kalshi_orders')
+          .insert(missing.map(o => {
+            const patch = orderPatch(o, now)
+            return {
+              ...patch,
+              ticker: o.ticker,
+              side: o.side,
+              count: patch.filled_count + (o.remaining_count ?? 0),
+              price: (o.side === 'yes' ? o.yes_price : o.no_price) ?? null,
+              order_type: 'limit',
+              order_id: o.order_id,
+              success: true,
+              is_demo: venue !== 'live',
+              venue,
+              created_at: o.created_time ?? now.toISOString(),
+              orphan_reason: 'not_in_db',
+              orphaned_at: now.toISOString(),
+              reconciled_at: now.toISOString(),
+            }
+          }))
+          .select(ORDER_COLUMNS)
+        if (error) throw error
+        for (const row of (inserted || []) as TrackedOrder[]) {
+          orders.push(row)
+          orphaned.push({ id: row.id, reason: 'not_in_db' })
+          touched.add(orderDate(row))
+        }
+        step.wrote(missing.length)
+        return missing.length
+      }, { optional: true })
+
+      const settled = await ctx.step('settle', async (step) => {
+        const open = orders.filter(needsSettlement)
+        const markets = new Map<string, MarketOutcome | null>()
+        for (const ticker of new Set(open.map(o => o.ticker))) {
+          const data = await kalshiGet<{ market: MarketOutcome }>(`/markets/${ticker}`, creds)
+          step.read(1)
+          markets.set(ticker, data?.market ?? null)
+        }
+
+        let count = 0
+        for (const order of open) {
+          const market = markets.get(order.ticker)
+          const outcome = market ? settleOrder(order, market) : null
+          if (!outcome) continue
+          const { error } = await supabase
+            .from('kalshi_orders')
+            .update({ ...outcome, settled_at: now.toISOString(), reconciled_at: now.toISOString() })
+            .eq('id', order.id)
+          if (error) throw error
+          Object.assign(order, outcome)
+          touched.add(orderDate(order))
+          count++
+        }
+        step.wrote(count)
+        return count
+      })
+
+      const dates = Array.from(touched).sort()
+      await ctx.step('rollup_daily_pnl', async (step) => {
+        if (!dates.length) return 0
+        // Orders are dated in ET, so read a day either side of the UTC range
+        const from = new Date(new Date(`${dates[0]}T00:00:00Z`).getTime() - DAY_MS)
+        const to = new Date(new Date(`${dates[dates.length - 1]}T00:00:00Z`).getTime() + 2 * DAY_MS)
+        const { data, error } = await supabase
+          .from('kalshi_orders')
+          .select(ORDER_COLUMNS)
+          .eq('venue', venue)
+          .gte('created_at', from.toISOString())
+          .lt('created_at', to.toISOString())
+        if (error) throw error
+        step.read((data || []).length)
+
+        const rows = rollupDailyPnl((data || []) as TrackedOrder[], dates)
+        const { error: upsertError } = await supabase
+          .from('daily_pnl')
+          .upsert(rows.map(r => ({ ...r, venue, updated_at: now.toISOString() })), { onConflict: 'date_local,venue' })
+        if (upsertError) throw upsertError
+        step.wrote(rows.length)
+        return rows.length
+      })
+
+      ctx.detail({ synced, untracked, settled, orphaned: orphaned.length, dates })
+      return { synced, untracked: untracked ?? 0, settled, orphaned, dates }
+    })
+
+    if (job.status === 'skipped') {
+      return new Response(
+        JSON.stringify({ success: false, skipped: true, error: job.error }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const result = job.value
+    console.log(`[RECONCILE] ${job.status}: ${result?.synced ?? 0} synced, ${result?.settled ?? 0} settled, ${result?.orphaned.length ?? 0} orphaned`)
+
+    return new Response(
+      JSON.stringify({
+        success: job.status !== 'fail',
+        status: job.status,
+        job_id: job.run_id,
+        error: job.error,
+        venue,
+        synced: result?.synced ?? 0,
+        untracked: result?.untracked ?? 0,
+        settled: result?.settled ?? 0,
+        orphaned: result?.orphaned ?? [],
+        dates: result?.dates ?? [],
+      }),
+      { status: job.status === 'fail' ? 500 : 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('[RECONCILE] Fatal error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return new Response(
+      JSON.stringify({ success: false, error: message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -1,4 +1,33 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { linePercentile } from '../_shared/percentiles.ts'
+import { teamKey } from '../_shared/teamRegistry.ts'
+import { rankGameCandidates, recordUnresolved, unresolvedEntry } from '../_shared/entityMatching.ts'
+import {
+  DEFAULT_SNAPSHOT_CUTOFF,
+  buildEdgeSnapshot,
+  cutoffTime,
+  resolveSnapshotCutoff,
+  snapshotAsOf,
+} from '../_shared/edgeSnapshots.ts'
+import {
+  classifyEdge,
+  closingLineValue,
+  noVigProbability,
+  resolveEdgeThresholds,
+  type ClosingQuote,
+  type ClvSide,
+  type ClvSubject,
+  type EdgeThresholds,
+} from '../_shared/clv.ts'
+import {
+  BDL_BASE_URLS,
+  ballDontLieProvider,
+  providerTransport,
+  theOddsApiProvider,
+  type BdlPage,
+  type SportsDataProvider,
+} from '../_shared/providers.ts'
+import type { DistributionSketch } from '../_shared/percentiles.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -10,11 +39,6 @@ const corsHeaders = {
 // Maximizes GOAT tier subscription value
 // ============================================================
 
-const BDL_ENDPOINTS = {
-  nba: "https://api.balldontlie.io/v1",
-  nfl: "https://api.balldontlie.io/nfl/v1",
-}
-
 // Sport key mappings for fallback to The Odds API (NHL, MLB, Soccer)
 const ODDS_API_CONFIGS: Record<string, { oddsKey: string }> = {
   nhl: { oddsKey: 'icehockey_nhl' },
@@ -22,25 +46,6 @@ const ODDS_API_CONFIGS: Record<string, { oddsKey: string }> = {
   soccer: { oddsKey: 'soccer_usa_mls' },
 }
 
-// Team name normalization for The Odds API matching
-const NHL_ABBREV_MAP: Record<string, string> = {
-  'ana': 'anaheim ducks', 'ari': 'arizona coyotes', 'bos': 'boston bruins',
-  'buf': 'buffalo sabres', 'cgy': 'calgary flames', 'car': 'carolina hurricanes',
-  'chi': 'chicago blackhawks', 'col': 'colorado avalanche', 'cbj': 'columbus blue jackets',
-  'dal': 'dallas stars', 'det': 'detroit red wings', 'edm': 'edmonton oilers',
-  'fla': 'florida panthers', 'la': 'los angeles kings', 'lak': 'los angeles kings',
-  'min': 'minnesota wild', 'mon': 'montreal canadiens', 'mtl': 'montreal canadiens',
-  'nas': 'nashville predators', 'nsh': 'nashville predators',
-  'nj': 'new jersey devils', 'njd': 'new jersey devils',
-  'nyi': 'new york islanders', 'nyr': 'new york rangers',
-  'ott': 'ottawa senators', 'phi': 'philadelphia flyers', 'pit': 'pittsburgh penguins',
-  'sj': 'san jose sharks', 'sjs': 'san jose sharks', 'sea': 'seattle kraken',
-  'stl': 'saint louis blues', 'tb': 'tampa bay lightning', 'tbl': 'tampa bay lightning',
-  'tor': 'toronto maple leafs', 'uta': 'utah hockey club', 'van': 'vancouver canucks',
-  'veg': 'vegas golden knights', 'vgk': 'vegas golden knights',
-  'was': 'washington capitals', 'wsh': 'washington capitals', 'wpg': 'winnipeg jets',
-}
-
 interface BDLOdds {
   id: number
   game_id: number
@@ -56,15 +61,14 @@ interface BDLOdds {
   updated_at: string
 }
 
-function getTodayET(): string {
-  const now = new Date()
+function getDateET(at: Date = new Date()): string {
   const formatter = new Intl.DateTimeFormat('en-CA', {
     timeZone: 'America/New_York',
     year: 'numeric',
     month: '2-digit',
     day: '2-digit',
   })
-  return formatter.format(now)
+  return formatter.format(at)
 }
 
 function getCurrentSeason(sport: string): number {
@@ -92,48 +96,274 @@ function getCurrentNFLWeek(): number {
   return Math.min(Math.floor(diffDays / 7) + 1, 22)
 }
 
-async function fetchWithRetry(url: string, headers: Record<string, string>, maxRetries = 3): Promise<Response | null> {
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      const response = await fetch(url, { headers })
-      if (response.ok) return response
-      if (response.status === 429 || response.status >= 500) {
-        const delay = 1000 * Math.pow(2, attempt)
-        await new Promise(r => setTimeout(r, delay))
-        continue
-      }
-      console.error(`[ODDS-REFRESH] API error ${response.status}`)
-      return null
-    } catch (err) {
-      const delay = 1000 * Math.pow(2, attempt)
-      await new Promise(r => setTimeout(r, delay))
+// Write the new line onto the game's edge and append a point-in-time snapshot of it
+async function applyLineToEdge(
+  supabase: any,
+  gameId: string,
+  totalLine: number,
+  alternateLines: unknown[],
+  prices: { over: number | null; under: number | null },
+  oddsSnapshotId: number | null
+): Promise<void> {
+  // Get existing edge data to calculate percentile
+  const { data: existingEdge } = await supabase
+    .from('daily_edges')
+    .select('date_local, sport_id, p05, p95, distribution, segment_used, n_used, model')
+    .eq('game_id', gameId)
+    .maybeSingle()
+
+  // Calculate dk_line_percentile if we have the historical percentiles
+  const dkLinePercentile = linePercentile(totalLine, existingEdge?.p05 ?? null, existingEdge?.p95 ?? null)
+
+  // Update daily_edges with odds info AND percentile
+  const update = {
+    dk_offered: true,
+    dk_total_line: totalLine,
+    dk_line_percentile: dkLinePercentile,
+    alternate_lines: alternateLines,
+    updated_at: new Date().toISOString(),
+  }
+  await supabase
+    .from('daily_edges')
+    .update(update)
+    .eq('game_id', gameId)
+
+  if (!existingEdge) return
+
+  const { error } = await supabase.from('edge_snapshots').insert(
+    buildEdgeSnapshot({ ...existingEdge, ...update, game_id: gameId }, 'odds', { prices, oddsSnapshotId })
+  )
+  if (error) {
+    console.error(`[ODDS-REFRESH] Snapshot failed for game ${gameId}:`, error.message)
+  }
+}
+
+// ============================================================
+// Closing lines and CLV
+// ============================================================
+
+// Games that started within this window still get their close recorded
+const CLOSING_LOOKBACK_HOURS = 24
+
+interface ClvEdgeSnapshot {
+  id: number
+  snapshot_at: string
+  dk_total_line: number | null
+  dk_over_price: number | null
+  dk_under_price: number | null
+  dk_line_percentile: number | null
+  distribution: DistributionSketch | null
+  odds_snapshot_id: number | null
+}
+
+interface ClvGame {
+  id: string
+  sport_id: string
+  start_time_utc: string
+}
+
+function clvRow(
+  subjectType: ClvSubject,
+  subjectId: string,
+  game: ClvGame,
+  side: ClvSide,
+  edgeStrength: string | null,
+  entryLine: number,
+  entryProbability: number | null,
+  closing: ClosingQuote,
+  closingSnapshotId: number
+) {
+  return {
+    subject_type: subjectType,
+    subject_id: subjectId,
+    game_id: game.id,
+    sport_id: game.sport_id,
+    side,
+    edge_strength: edgeStrength,
+    entry_line: entryLine,
+    entry_probability: entryProbability === null ? null : Math.round(entryProbability * 10000) / 10000,
+    closing_snapshot_id: closingSnapshotId,
+    game_start_utc: game.start_time_utc,
+    computed_at: new Date().toISOString(),
+    ...closingLineValue(side, entryLine, entryProbability, closing),
+  }
+}
+
+// Score the game's signal, lock-parlay legs and Kalshi orders against its close
+async function scoreGameClv(
+  supabase: any,
+  game: ClvGame,
+  closingSnapshot: { id: number; total_line: number },
+  thresholds: EdgeThresholds
+): Promise<number> {
+  const { data: snapshots } = await supabase
+    .from('edge_snapshots')
+    .select('id, snapshot_at, dk_total_line, dk_over_price, dk_under_price, dk_line_percentile, distribution, odds_snapshot_id')
+    .eq('game_id', game.id)
+  const edgeSnapshots: ClvEdgeSnapshot[] = snapshots || []
+
+  // Prices come from the edge snapshot refresh-odds wrote alongside the closing odds
+  const atClose = edgeSnapshots.find(s => s.odds_snapshot_id === closingSnapshot.id)
+    ?? snapshotAsOf(edgeSnapshots, game.start_time_utc)
+  const closingLine = Number(closingSnapshot.total_line)
+  const closePrices = atClose && Number(atClose.dk_total_line) === closingLine ? atClose : null
+  const closing: ClosingQuote = {
+    line: closingLine,
+    over_price: closePrices?.dk_over_price ?? null,
+    under_price: closePrices?.dk_under_price ?? null,
+    distribution: atClose?.distribution ?? null,
+  }
+
+  const rows = []
+
+  // Signal: the edge as it stood at the default decision cutoff
+  const decisionAt = cutoffTime(game.start_time_utc, resolveSnapshotCutoff(DEFAULT_SNAPSHOT_CUTOFF).minutesBefore)
+  const decision = snapshotAsOf(edgeSnapshots, decisionAt)
+  if (decision && decision.dk_total_line !== null && decision.dk_line_percentile !== null) {
+    const signal = classifyEdge(Number(decision.dk_line_percentile), thresholds)
+    if (signal) {
+      rows.push(clvRow(
+        'signal', game.id, game, signal.side, signal.strength,
+        Number(decision.dk_total_line),
+        noVigProbability(signal.side, decision.dk_over_price, decision.dk_under_price),
+        closing, closingSnapshot.id
+      ))
     }
   }
-  return null
+
+  // Lock parlay legs: priced off the edge as it stood when the parlay was saved
+  const { data: parlays } = await supabase
+    .from('lock_parlay_history')
+    .select('id, created_at, legs')
+    .contains('legs', [{ game_id: game.id }])
+  for (const parlay of parlays || []) {
+    const legs = (parlay.legs || []) as Array<{ game_id: string; pick: ClvSide; line: number }>
+    for (const leg of legs.filter(l => l.game_id === game.id)) {
+      const known = snapshotAsOf(edgeSnapshots, parlay.created_at)
+      const entryPrices = known && Number(known.dk_total_line) === Number(leg.line) ? known : null
+      const strength = known && known.dk_line_percentile !== null
+        ? classifyEdge(Number(known.dk_line_percentile), thresholds)?.strength ?? null
+        : null
+      rows.push(clvRow(
+        'parlay_leg', `${parlay.id}:${game.id}`, game, leg.pick, strength,
+        Number(leg.line),
+        noVigProbability(leg.pick, entryPrices?.dk_over_price ?? null, entryPrices?.dk_under_price ?? null),
+        closing, closingSnapshot.id
+      ))
+    }
+  }
+
+  // Kalshi orders: the contract price is the probability paid
+  const { data: orders } = await supabase
+    .from('kalshi_orders')
+    .select('id, signal_type, edge_strength, entry_line, price, fill_price')
+    .eq('game_id', game.id)
+    .eq('success', true)
+    .not('entry_line', 'is', null)
+  for (const order of orders || []) {
+    const side: ClvSide = order.signal_type === 'UNDER' ? 'under' : 'over'
+    const paid = order.fill_price ?? order.price
+    rows.push(clvRow(
+      'kalshi_order', order.id, game, side, order.edge_strength,
+      Number(order.entry_line),
+      paid === null ? null : paid / 100,
+      closing, closingSnapshot.id
+    ))
+  }
+
+  if (rows.length === 0) return 0
+  const { error } = await supabase
+    .from('closing_line_values')
+    .upsert(rows, { onConflict: 'subject_type,subject_id' })
+  if (error) {
+    console.error(`[ODDS-REFRESH] CLV write failed for game ${game.id}:`, error.message)
+    return 0
+  }
+  return rows.length
+}
+
+// Mark the last pre-start odds snapshot of each recently started game as its close
+async function recordClosingLines(
+  supabase: any,
+  sportId: string | undefined
+): Promise<{ closed: number; clv_rows: number }> {
+  const counters = { closed: 0, clv_rows: 0 }
+  const now = new Date()
+
+  let query = supabase
+    .from('games')
+    .select('id, sport_id, start_time_utc')
+    .lte('start_time_utc', now.toISOString())
+    .gte('start_time_utc', new Date(now.getTime() - CLOSING_LOOKBACK_HOURS * 60 * 60 * 1000).toISOString())
+  if (sportId) query = query.eq('sport_id', sportId)
+
+  const { data: games } = await query
+  if (!games || games.length === 0) return counters
+
+  const { data: config } = await supabase
+    .from('betting_config')
+    .select('strong_edge_threshold, moderate_edge_threshold, weak_edge_threshold')
+    .eq('name', 'default')
+    .maybeSingle()
+  const thresholds = resolveEdgeThresholds(config)
+
+  for (const game of games as ClvGame[]) {
+    const { data: existing } = await supabase
+      .from('odds_snapshots')
+      .select('id')
+      .eq('game_id', game.id)
+      .eq('is_closing', true)
+      .maybeSingle()
+    if (existing) continue
+
+    const { data: closing } = await supabase
+      .from('odds_snapshots')
+      .select('id, total_line')
+      .eq('game_id', game.id)
+      .lte('fetched_at', game.start_time_utc)
+      .not('total_line', 'is', null)
+      .order('fetched_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    if (!closing) continue
+
+    const { error } = await supabase
+      .from('odds_snapshots')
+      .update({ is_closing: true })
+      .eq('id', closing.id)
+    if (error) {
+      console.error(`[ODDS-REFRESH] Closing mark failed for game ${game.id}:`, error.message)
+      continue
+    }
+
+    counters.closed++
+    counters.clv_rows += await scoreGameClv(supabase, game, closing, thresholds)
+  }
+
+  return counters
 }
 
 // Fetch odds from BallDontLie for NBA and NFL (GOAT tier)
 async function fetchBDLOdds(
   supabase: any,
-  apiKey: string,
+  bdl: SportsDataProvider,
   sport: string,
   targetDate: string
 ): Promise<{ matched: number; errors: number }> {
-  const baseUrl = BDL_ENDPOINTS[sport as keyof typeof BDL_ENDPOINTS]
-  if (!baseUrl) return { matched: 0, errors: 0 }
+  if (!BDL_BASE_URLS[sport]) return { matched: 0, errors: 0 }
 
   const counters = { matched: 0, errors: 0 }
   const season = getCurrentSeason(sport)
   const week = sport === "nfl" ? getCurrentNFLWeek() : null
 
   // Fetch odds
-  let url = `${baseUrl}/odds?season=${season}&per_page=100`
-  if (week) url += `&week=${week}`
-
-  const response = await fetchWithRetry(url, { "Authorization": apiKey, "Accept": "application/json" })
-  if (!response) return counters
+  const response = await bdl.odds({ sport, season, week, perPage: 100 })
+  if (!response.ok) {
+    console.error(`[ODDS-REFRESH] API error ${response.status}`)
+    return counters
+  }
 
-  const data = await response.json()
+  const data = response.payload as BdlPage<BDLOdds>
   const odds: BDLOdds[] = data.data || []
 
   console.log(`[ODDS-REFRESH] Fetched ${odds.length} ${sport} odds from BallDontLie`)
@@ -185,7 +415,7 @@ async function fetchBDLOdds(
       })
     }
 
-    const { error } = await supabase
+    const { data: oddsSnapshot, error } = await supabase
       .from('odds_snapshots')
       .insert({
         game_id: dbGameId,
@@ -204,35 +434,19 @@ async function fetchBDLOdds(
           alternate_lines: alternateLines,
         },
       })
+      .select('id')
+      .single()
 
     if (!error) {
       counters.matched++
-
-      // Get existing edge data to calculate percentile
-      const { data: existingEdge } = await supabase
-        .from('daily_edges')
-        .select('p05, p95')
-        .eq('game_id', dbGameId)
-        .maybeSingle()
-
-      // Calculate dk_line_percentile if we have the historical percentiles
-      let dkLinePercentile: number | null = null
-      if (existingEdge?.p05 !== null && existingEdge?.p95 !== null && existingEdge.p95 !== existingEdge.p05) {
-        const rawPercentile = ((totalLine - existingEdge.p05) / (existingEdge.p95 - existingEdge.p05)) * 100
-        dkLinePercentile = Math.round(Math.max(-10, Math.min(110, rawPercentile)) * 10) / 10
-      }
-
-      // Update daily_edges with odds info AND percentile
-      await supabase
-        .from('daily_edges')
-        .update({
-          dk_offered: true,
-          dk_total_line: totalLine,
-          dk_line_percentile: dkLinePercentile,
-          alternate_lines: alternateLines,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('game_id', dbGameId)
+      await applyLineToEdge(
+        supabase,
+        dbGameId,
+        totalLine,
+        alternateLines,
+        { over: odd.total_over_odds ?? null, under: odd.total_under_odds ?? null },
+        oddsSnapshot?.id ?? null
+      )
     } else {
       counters.errors++
     }
@@ -242,24 +456,42 @@ async function fetchBDLOdds(
 }
 
 // Fetch odds from The Odds API for NHL, MLB, Soccer (fallback for non-BDL sports)
+// Events come from the API, or when replaying a resolved review-queue entry,
+// from the single event archived in provider_raw
 async function fetchTheOddsAPIData(
   supabase: any,
-  apiKey: string,
+  oddsApi: SportsDataProvider,
   sport: string,
-  targetDate: string
-): Promise<{ matched: number; errors: number }> {
+  targetDate: string,
+  replayRawId?: number
+): Promise<{ matched: number; unresolved: number; errors: number }> {
   const config = ODDS_API_CONFIGS[sport]
-  if (!config) return { matched: 0, errors: 0 }
+  if (!config) return { matched: 0, unresolved: 0, errors: 0 }
 
-  const counters = { matched: 0, errors: 0 }
-
-  const url = `https://api.the-odds-api.com/v4/sports/${config.oddsKey}/odds/?apiKey=${apiKey}&regions=us&markets=totals,alternate_totals&bookmakers=draftkings`
+  const counters = { matched: 0, unresolved: 0, errors: 0 }
 
-  const response = await fetchWithRetry(url, { "Accept": "application/json" })
-  if (!response) return counters
+  let oddsData: any[]
+  let fetchedAt: string | null = null
+  if (replayRawId) {
+    const { data: raw, error: rawError } = await supabase
+      .from('provider_raw')
+      .select('payload_json, fetched_at')
+      .eq('id', replayRawId)
+      .single()
+    if (rawError || !raw) throw new Error(`provider_raw ${replayRawId} not found`)
+    oddsData = [raw.payload_json]
+    fetchedAt = raw.fetched_at
+    console.log(`[ODDS-REFRESH] Replaying ${sport} event from provider_raw ${replayRawId}`)
+  } else {
+    const response = await oddsApi.odds({ sport, markets: ['totals', 'alternate_totals'], bookmakers: ['draftkings'] })
+    if (!response.ok) {
+      console.error(`[ODDS-REFRESH] API error ${response.status}`)
+      return counters
+    }
 
-  const oddsData = await response.json()
-  console.log(`[ODDS-REFRESH] Fetched ${oddsData.length} ${sport} odds from The Odds API`)
+    oddsData = response.payload as unknown[]
+    console.log(`[ODDS-REFRESH] Fetched ${oddsData.length} ${sport} odds from The Odds API`)
+  }
 
   // Get games for target date
   const startOfDayET = new Date(`${targetDate}T00:00:00-05:00`)
@@ -291,24 +523,60 @@ async function fetchTheOddsAPIData(
     teamMap.set(t.id, { name: t.name, city: t.city, abbrev: t.abbrev })
   }
 
+  // Events confirmed through the review queue
+  const { data: eventMaps } = await supabase
+    .from('odds_event_map')
+    .select('odds_event_id, game_id')
+    .eq('odds_sport_key', config.oddsKey)
+    .in('odds_event_id', oddsData.map((e: { id: string }) => e.id))
+  const mappedGameIds = new Map<string, string>((eventMaps || []).map((m: { odds_event_id: string; game_id: string }) => [m.odds_event_id, m.game_id]))
+
+  const teamLabel = (teamId: string) => {
+    const team = teamMap.get(teamId)
+    return team ? `${team.city || ''} ${team.name}`.trim() : ''
+  }
+
   // Match and insert odds
   for (const event of oddsData) {
-    // Find matching game by team names
-    const matchedGame = games.find((g: any) => {
-      const homeTeam = teamMap.get(g.home_team_id)
-      const awayTeam = teamMap.get(g.away_team_id)
-      if (!homeTeam || !awayTeam) return false
-
-      const homeNorm = normalizeTeamName(homeTeam, sport)
-      const awayNorm = normalizeTeamName(awayTeam, sport)
-      const oddsHome = event.home_team.toLowerCase()
-      const oddsAway = event.away_team.toLowerCase()
-
-      return (oddsHome.includes(homeNorm) || homeNorm.includes(oddsHome)) &&
-             (oddsAway.includes(awayNorm) || awayNorm.includes(oddsAway))
-    })
+    // Find matching game by event map, then by team names
+    const mappedGameId = mappedGameIds.get(event.id)
+    const matchedGame = mappedGameId
+      ? games.find((g: any) => g.id === mappedGameId)
+      : games.find((g: any) => {
+          const homeTeam = teamMap.get(g.home_team_id)
+          const awayTeam = teamMap.get(g.away_team_id)
+          if (!homeTeam || !awayTeam) return false
+
+          return matchesTeam(sport, event.home_team, homeTeam) && matchesTeam(sport, event.away_team, awayTeam)
+        })
 
-    if (!matchedGame) continue
+    if (!matchedGame) {
+      // Other days' events are expected; only a miss on the target date is a failure
+      if (getDateET(new Date(event.commence_time)) !== targetDate) continue
+
+      console.log(`[ODDS-REFRESH] Unmatched ${sport} event ${event.id}: ${event.away_team} @ ${event.home_team}`)
+      const queued = await recordUnresolved(supabase, unresolvedEntry({
+        entity_type: 'event',
+        source: 'refresh-odds',
+        provider: 'the_odds_api',
+        sport_id: sport,
+        provider_key: event.id,
+        label: `${event.away_team} @ ${event.home_team}`,
+        event_date: targetDate,
+        candidates: rankGameCandidates(
+          { home: event.home_team, away: event.away_team, start_time_utc: event.commence_time },
+          games.map((g: any) => ({
+            id: g.id,
+            home: teamLabel(g.home_team_id),
+            away: teamLabel(g.away_team_id),
+            start_time_utc: g.start_time_utc,
+          }))
+        ),
+        context: { odds_sport_key: config.oddsKey },
+      }), { endpoint: `${config.oddsKey}/odds`, payload: event })
+      if (queued) counters.unresolved++
+      continue
+    }
 
     // Extract DraftKings totals
     const dk = event.bookmakers?.find((b: any) => b.key === 'draftkings')
@@ -331,43 +599,36 @@ async function fetchTheOddsAPIData(
       }))
       .filter((l: any) => l.under_price)
 
-    const { error } = await supabase
+    const underOutcome = totalsMarket?.outcomes?.find((o: any) => o.name === 'Under')
+
+    const { data: oddsSnapshot, error } = await supabase
       .from('odds_snapshots')
       .insert({
         game_id: matchedGame.id,
         bookmaker: 'draftkings',
         market: 'totals',
         total_line: totalLine,
-        raw_payload: { source: 'the_odds_api', alternate_lines: alternateLines },
+        raw_payload: {
+          source: 'the_odds_api',
+          total_over_odds: overOutcome?.price ?? null,
+          total_under_odds: underOutcome?.price ?? null,
+          alternate_lines: alternateLines,
+        },
+        ...(fetchedAt ? { fetched_at: fetchedAt } : {}),
       })
+      .select('id')
+      .single()
 
     if (!error) {
       counters.matched++
-
-      // Get existing edge data to calculate percentile
-      const { data: existingEdge } = await supabase
-        .from('daily_edges')
-        .select('p05, p95')
-        .eq('game_id', matchedGame.id)
-        .maybeSingle()
-
-      // Calculate dk_line_percentile if we have the historical percentiles
-      let dkLinePercentile: number | null = null
-      if (existingEdge?.p05 !== null && existingEdge?.p95 !== null && existingEdge.p95 !== existingEdge.p05) {
-        const rawPercentile = ((totalLine - existingEdge.p05) / (existingEdge.p95 - existingEdge.p05)) * 100
-        dkLinePercentile = Math.round(Math.max(-10, Math.min(110, rawPercentile)) * 10) / 10
-      }
-
-      await supabase
-        .from('daily_edges')
-        .update({
-          dk_offered: true,
-          dk_total_line: totalLine,
-          dk_line_percentile: dkLinePercentile,
-          alternate_lines: alternateLines,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('game_id', matchedGame.id)
+      await applyLineToEdge(
+        supabase,
+        matchedGame.id,
+        totalLine,
+        alternateLines,
+        { over: overOutcome?.price ?? null, under: underOutcome?.price ?? null },
+        oddsSnapshot?.id ?? null
+      )
     } else {
       counters.errors++
     }
@@ -376,14 +637,17 @@ async function fetchTheOddsAPIData(
   return counters
 }
 
-function normalizeTeamName(team: { name: string; city: string | null; abbrev: string | null }, sport: string): string {
-  const abbrev = (team.abbrev || '').toLowerCase()
-  
-  if (sport === 'nhl' && NHL_ABBREV_MAP[abbrev]) {
-    return NHL_ABBREV_MAP[abbrev]
-  }
-
-  return `${team.city || ''} ${team.name}`.toLowerCase().trim()
+// Odds API team names against a teams row: by franchise when the registry knows
+// both sides, otherwise by the old full-name substring match
+function matchesTeam(sport: string, oddsName: string, team: { name: string; city: string | null; abbrev: string | null }): boolean {
+  const fullName = `${team.city || ''} ${team.name}`.trim()
+  const oddsKey = teamKey(sport, oddsName)
+  const ourKey = teamKey(sport, team.abbrev) ?? teamKey(sport, fullName) ?? teamKey(sport, team.name)
+  if (oddsKey && ourKey) return oddsKey === ourKey
+
+  const ours = fullName.toLowerCase()
+  const theirs = oddsName.toLowerCase()
+  return theirs.includes(ours) || ours.includes(theirs)
 }
 
 Deno.serve(async (req) => {
@@ -400,25 +664,39 @@ Deno.serve(async (req) => {
   const counters = { nba: { matched: 0, errors: 0 }, nfl: { matched: 0, errors: 0 }, nhl: { matched: 0, errors: 0 }, mlb: { matched: 0, errors: 0 } }
 
   try {
+    const providerMode = Deno.env.get('PROVIDER_MODE')
     const bdlApiKey = Deno.env.get('BALLDONTLIE_KEY')
     const oddsApiKey = Deno.env.get('ODDS_API_KEY')
 
-    if (!bdlApiKey) {
+    if (!bdlApiKey && providerMode !== 'replay') {
       throw new Error('BALLDONTLIE_KEY not configured')
     }
+    const transport = providerTransport(providerMode, supabase, { balldontlie: bdlApiKey, the_odds_api: oddsApiKey })
+    const bdl = ballDontLieProvider(transport)
+    const oddsApi = theOddsApiProvider(transport)
 
-    let requestBody: { sport_id?: string; date?: string } = {}
+    let requestBody: { sport_id?: string; date?: string; replay_raw_id?: number } = {}
     try {
       requestBody = await req.json()
     } catch {
       // Empty body OK
     }
 
-    const targetDate = requestBody.date || getTodayET()
+    const targetDate = requestBody.date || getDateET()
     const specificSport = requestBody.sport_id
 
     console.log(`[ODDS-REFRESH] Starting for ${specificSport || 'all sports'} on ${targetDate}`)
 
+    // Replay of one archived Odds API event (resolve-entity)
+    if (requestBody.replay_raw_id) {
+      if (!specificSport) throw new Error('sport_id is required with replay_raw_id')
+      const result = await fetchTheOddsAPIData(supabase, oddsApi, specificSport, targetDate, requestBody.replay_raw_id)
+      return new Response(
+        JSON.stringify({ success: true, date: targetDate, replayed: result.matched, ...result }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
     // Create job run
     const { data: jobRun } = await supabase
       .from('job_runs')
@@ -437,18 +715,18 @@ Deno.serve(async (req) => {
       if (specificSport && specificSport !== sport) continue
 
       console.log(`[ODDS-REFRESH] Fetching ${sport} odds from BallDontLie`)
-      const result = await fetchBDLOdds(supabase, bdlApiKey, sport, targetDate)
+      const result = await fetchBDLOdds(supabase, bdl, sport, targetDate)
       counters[sport as keyof typeof counters] = result
     }
 
     // Process NHL and MLB via The Odds API if key is configured (fallback)
-    if (oddsApiKey) {
+    if (oddsApiKey || providerMode === 'replay') {
       const oddsApiSports = ['nhl', 'mlb']
       for (const sport of oddsApiSports) {
         if (specificSport && specificSport !== sport) continue
 
         console.log(`[ODDS-REFRESH] Fetching ${sport} odds from The Odds API`)
-        const result = await fetchTheOddsAPIData(supabase, oddsApiKey, sport, targetDate)
+        const result = await fetchTheOddsAPIData(supabase, oddsApi, sport, targetDate)
         counters[sport as keyof typeof counters] = result
       }
     }
@@ -456,6 +734,10 @@ Deno.serve(async (req) => {
     const totalMatched = Object.values(counters).reduce((sum, c) => sum + c.matched, 0)
     const totalErrors = Object.values(counters).reduce((sum, c) => sum + c.errors, 0)
 
+    // Games that have started since the last run get their closing line and CLV
+    const closingLines = await recordClosingLines(supabase, specificSport)
+    console.log(`[ODDS-REFRESH] Closing lines: ${closingLines.closed} games, ${closingLines.clv_rows} CLV rows`)
+
     // Update job run
     if (jobRunId) {
       await supabase
@@ -463,7 +745,7 @@ Deno.serve(async (req) => {
         .update({
           status: 'success',
           finished_at: new Date().toISOString(),
-          details: { date: targetDate, counters, total_matched: totalMatched, total_errors: totalErrors },
+          details: { date: targetDate, counters, total_matched: totalMatched, total_errors: totalErrors, closing_lines: closingLines },
         })
         .eq('id', jobRunId)
     }
@@ -477,6 +759,7 @@ Deno.serve(async (req) => {
         matched: totalMatched,
         errors: totalErrors,
         counters,
+        closing_lines: closingLines,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
@@ -0,0 +1,374 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { franchiseAbbrevs, loadTeamDirectory, type TeamDirectory, type TeamProvider } from '../_shared/teamRegistry.ts'
+import type { InjuryRow, ParsedGame } from '../_shared/providerParsers.ts'
+import {
+  diffRow,
+  emptyCounts,
+  parseArchivedPayload,
+  type ArchivedPayload,
+  type ReparsedOdds,
+  type ReprocessTable,
+  type RowDiff,
+  type TableCounts,
+} from '../_shared/reprocess.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+// provider_raw rows per page; payloads can be large
+const RAW_PAGE_SIZE = 50
+// Changes echoed back in the response; counts cover the rest
+const MAX_CHANGES = 200
+// An archived odds payload matches the snapshot written within this window of its fetch
+const ODDS_MATCH_WINDOW_MS = 10 * 60 * 1000
+
+const GAME_FIELDS = ['start_time_utc', 'status', 'home_score', 'away_score', 'season_year', 'is_playoff', 'week_round']
+const INJURY_FIELDS = ['team_id', 'player_name', 'position', 'injury_status', 'injury_type', 'injury_details', 'report_date', 'season_year']
+
+interface Change {
+  table: ReprocessTable
+  key: string
+  action: 'insert' | 'update'
+  raw_id: number
+  diff?: RowDiff
+}
+
+interface Run {
+  supabase: any
+  sport: string
+  dryRun: boolean
+  counts: Record<ReprocessTable, TableCounts>
+  changes: Change[]
+  teams: TeamLookup
+}
+
+function record(run: Run, change: Change) {
+  run.counts[change.table][change.action === 'insert' ? 'inserted' : 'updated']++
+  if (run.changes.length < MAX_CHANGES) run.changes.push(change)
+}
+
+interface TeamLookup {
+  directory: TeamDirectory
+  teamId(key: string, abbrev: string): string | null
+}
+
+// Teams are looked up, never created: an unknown team stays unmatched
+async function loadTeams(supabase: any, sport: string): Promise<TeamLookup> {
+  const directory = await loadTeamDirectory(supabase, sport)
+  const { data: teams, error } = await supabase
+    .from('teams')
+    .select('id, abbrev, provider_team_key')
+    .eq('sport_id', sport)
+    .is('league_id', null)
+  if (error) throw error
+
+  const rows = (teams || []) as Array<{ id: string; abbrev: string | null; provider_team_key: string }>
+  return {
+    directory,
+    teamId(key, abbrev) {
+      const byKey = rows.find(t => t.provider_team_key === key)
+      if (byKey) return byKey.id
+      const spellings = franchiseAbbrevs(sport, abbrev)
+      return rows.find(t => t.abbrev && spellings.includes(t.abbrev))?.id ?? null
+    },
+  }
+}
+
+async function reprocessGames(run: Run, raw: ArchivedPayload & { id: number }, games: ParsedGame[]) {
+  if (!games.length) return
+  const { data: existing, error } = await run.supabase
+    .from('games')
+    .select(`id, provider_game_key, ${GAME_FIELDS.join(', ')}`)
+    .eq('sport_id', run.sport)
+    .in('provider_game_key', games.map(g => g.provider_game_key))
+  if (error) throw error
+  const byKey = new Map<string, Record<string, unknown>>((existing || []).map((g: Record<string, unknown>) => [g.provider_game_key as string, g]))
+
+  for (const game of games) {
+    const incoming: Record<string, unknown> = {
+      start_time_utc: game.start_time_utc,
+      status: game.status,
+      home_score: game.home_score,
+      away_score: game.away_score,
+      season_year: game.season_year,
+      is_playoff: game.is_playoff,
+      week_round: game.week_round,
+    }
+    const stored = byKey.get(game.provider_game_key)
+
+    if (stored) {
+      const diff = diffRow(stored, incoming, GAME_FIELDS)
+      if (Object.keys(diff).length === 0) {
+        run.counts.games.unchanged++
+        continue
+      }
+      if (!run.dryRun) {
+        const update = Object.fromEntries(Object.entries(diff).map(([field, d]) => [field, d.after]))
+        const { error: updateError } = await run.supabase.from('games').update(update).eq('id', stored.id)
+        if (updateError) throw updateError
+      }
+      record(run, { table: 'games', key: game.provider_game_key, action: 'update', raw_id: raw.id, diff })
+      continue
+    }
+
+    const homeTeamId = run.teams.teamId(game.home_team_key, game.home_team_abbrev)
+    const awayTeamId = run.teams.teamId(game.away_team_key, game.away_team_abbrev)
+    if (!homeTeamId || !awayTeamId) {
+      run.counts.games.unmatched++
+      continue
+    }
+
+    if (!run.dryRun) {
+      const provider = raw.provider as TeamProvider
+      // NOTE: final_total is a GENERATED column - the DB computes it
+      const { error: insertError } = await run.supabase.from('games').insert({
+        sport_id: run.sport,
+        provider_game_key: game.provider_game_key,
+        home_team_id: homeTeamId,
+        away_team_id: awayTeamId,
+        home_franchise_id: run.teams.directory.resolve(provider, game.home_team_abbrev, game.start_time_utc)?.franchise_id ?? null,
+        away_franchise_id: run.teams.directory.resolve(provider, game.away_team_abbrev, game.start_time_utc)?.franchise_id ?? null,
+        ...Object.fromEntries(Object.entries(incoming).filter(([, value]) => value !== undefined)),
+        last_seen_at: new Date().toISOString(),
+      })
+      if (insertError) throw insertError
+    }
+    record(run, { table: 'games', key: game.provider_game_key, action: 'insert', raw_id: raw.id })
+  }
+}
+
+async function reprocessOdds(run: Run, raw: ArchivedPayload & { id: number }, odds: ReparsedOdds[]) {
+  if (!odds.length) return
+  const { data: games, error } = await run.supabase
+    .from('games')
+    .select('id, provider_game_key')
+    .eq('sport_id', run.sport)
+    .in('provider_game_key', odds.map(o => o.game_key))
+  if (error) throw error
+  const gameIds = new Map<string, string>((games || []).map((g: { id: string; provider_game_key: string }) => [g.provider_game_key, g.id]))
+
+  const fetchedAt = Date.parse(raw.fetched_at)
+  for (const { game_key, fetched_at, ...snapshot } of odds) {
+    const gameId = gameIds.get(game_key)
+    if (!gameId) {
+      run.counts.odds_snapshots.unmatched++
+      continue
+    }
+
+    const { data: stored, error: storedError } = await run.supabase
+      .from('odds_snapshots')
+      .select('id, total_line, raw_payload')
+      .eq('game_id', gameId)
+      .eq('bookmaker', snapshot.bookmaker)
+      .eq('market', snapshot.market)
+      .gte('fetched_at', new Date(fetchedAt - ODDS_MATCH_WINDOW_MS).toISOString())
+      .lte('fetched_at', new Date(fetchedAt + ODDS_MATCH_WINDOW_MS).toISOString())
+      .limit(1)
+      .maybeSingle()
+    if (storedError) throw storedError
+
+    if (stored) {
+      const diff = diffRow(stored, { total_line: snapshot.total_line }, ['total_line'])
+      // jsonb comes back with its own key order, so compare key by key
+      const payloadDiff = diffRow(stored.raw_payload ?? {}, snapshot.raw_payload, Object.keys(snapshot.raw_payload))
+      if (Object.keys(payloadDiff).length > 0) {
+        diff.raw_payload = { before: stored.raw_payload, after: snapshot.raw_payload }
+      }
+      if (Object.keys(diff).length === 0) {
+        run.counts.odds_snapshots.unchanged++
+        continue
+      }
+      if (!run.dryRun) {
+        const { error: updateError } = await run.supabase
+          .from('odds_snapshots')
+          .update({ total_line: snapshot.total_line, raw_payload: snapshot.raw_payload })
+          .eq('id', stored.id)
+        if (updateError) throw updateError
+      }
+      record(run, { table: 'odds_snapshots', key: `${game_key} ${snapshot.bookmaker}`, action: 'update', raw_id: raw.id, diff })
+      continue
+    }
+
+    if (!run.dryRun) {
+      const { error: insertError } = await run.supabase
+        .from('odds_snapshots')
+        .insert({ game_id: gameId, ...snapshot, fetched_at })
+      if (insertError) throw insertError
+    }
+    record(run, { table: 'odds_snapshots', key: `${game_key} ${snapshot.bookmaker}`, action: 'insert', raw_id: raw.id })
+  }
+}
+
+async function reprocessInjuries(run: Run, raw: ArchivedPayload & { id: number }, injuries: InjuryRow[]) {
+  for (const { team_abbrev, ...row } of injuries) {
+    const teamId = run.teams.teamId(`bdl-${run.sport}-${team_abbrev}`, team_abbrev)
+    const incoming: Record<string, unknown> = { ...row, team_id: teamId }
+    const key = `${row.player_external_id} ${row.game_date}`
+
+    const { data: stored, error } = await run.supabase
+      .from('player_injuries')
+      .select(`id, ${INJURY_FIELDS.join(', ')}`)
+      .eq('sport_id', row.sport_id)
+      .eq('player_external_id', row.player_external_id)
+      .eq('game_date', row.game_date)
+      .maybeSingle()
+    if (error) throw error
+
+    const diff = stored ? diffRow(stored, incoming, INJURY_FIELDS) : {}
+    if (stored && Object.keys(diff).length === 0) {
+      run.counts.player_injuries.unchanged++
+      continue
+    }
+
+    if (!run.dryRun) {
+      const { error: upsertError } = await run.supabase
+        .from('player_injuries')
+        .upsert({ ...incoming, updated_at: new Date().toISOString() }, { onConflict: 'sport_id,player_external_id,game_date' })
+      if (upsertError) throw upsertError
+    }
+    record(run, stored
+      ? { table: 'player_injuries', key, action: 'update', raw_id: raw.id, diff }
+      : { table: 'player_injuries', key, action: 'insert', raw_id: raw.id })
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+  let jobRunId: number | null = null
+  const counts: Record<ReprocessTable, TableCounts> = {
+    games: emptyCounts(),
+    odds_snapshots: emptyCounts(),
+    player_injuries: emptyCounts(),
+  }
+  const payloads = { read: 0, unsupported: 0 }
+
+  try {
+    let requestBody: {
+      sport_id?: string
+      date_from?: string
+      date_to?: string
+      endpoint?: string
+      provider?: string
+      dry_run?: boolean
+    } = {}
+    try {
+      requestBody = await req.json()
+    } catch {
+      // Validated below
+    }
+
+    const { sport_id, date_from, date_to, endpoint, provider, dry_run = false } = requestBody
+    if (!sport_id || !date_from || !date_to) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Expected { sport_id, date_from, date_to, endpoint?, provider?, dry_run? }' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    console.log(`[REPROCESS] ${sport_id} ${date_from}..${date_to}${endpoint ? ` ${endpoint}` : ''}${dry_run ? ' (dry run)' : ''}`)
+
+    const { data: jobRun } = await supabase
+      .from('job_runs')
+      .insert({ job_name: 'reprocess', details: { sport_id, date_from, date_to, endpoint, provider, dry_run } })
+      .select()
+      .single()
+    jobRunId = jobRun?.id || null
+
+    const run: Run = {
+      supabase,
+      sport: sport_id,
+      dryRun: dry_run,
+      counts,
+      changes: [],
+      teams: await loadTeams(supabase, sport_id),
+    }
+
+    // Oldest first, so the latest payload for a game has the last word
+    for (let offset = 0; ; offset += RAW_PAGE_SIZE) {
+      let query = supabase
+        .from('provider_raw')
+        .select('id, provider, endpoint, season_year, payload_json, fetched_at')
+        .eq('sport_id', sport_id)
+        .lte('date_from', date_to)
+        .gte('date_to', date_from)
+      if (endpoint) query = query.like('endpoint', `${sport_id}/${endpoint}%`)
+      if (provider) query = query.eq('provider', provider)
+
+      const { data: rows, error } = await query
+        .order('fetched_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + RAW_PAGE_SIZE - 1)
+      if (error) throw error
+
+      for (const raw of (rows || []) as Array<ArchivedPayload & { id: number }>) {
+        payloads.read++
+        const parsed = parseArchivedPayload(raw)
+        if (!parsed) {
+          payloads.unsupported++
+          continue
+        }
+        if (parsed.table === 'games') await reprocessGames(run, raw, parsed.rows)
+        else if (parsed.table === 'odds_snapshots') await reprocessOdds(run, raw, parsed.rows)
+        else await reprocessInjuries(run, raw, parsed.rows)
+      }
+
+      if (!rows || rows.length < RAW_PAGE_SIZE) break
+    }
+
+    console.log(`[REPROCESS] Complete: ${JSON.stringify({ payloads, counts })}`)
+
+    if (jobRunId) {
+      await supabase
+        .from('job_runs')
+        .update({
+          finished_at: new Date().toISOString(),
+          status: 'success',
+          details: { sport_id, date_from, date_to, endpoint, provider, dry_run, payloads, counts },
+        })
+        .eq('id', jobRunId)
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        sport_id,
+        date_from,
+        date_to,
+        dry_run,
+        payloads,
+        counts,
+        changes: run.changes,
+        changes_truncated: Object.values(counts).reduce((n, c) => n + c.inserted + c.updated, 0) > run.changes.length,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('[REPROCESS] Fatal error:', error)
+
+    if (jobRunId) {
+      await supabase
+        .from('job_runs')
+        .update({
+          finished_at: new Date().toISOString(),
+          status: 'fail',
+          details: { error: error instanceof Error ? error.message : 'Unknown error', payloads, counts },
+        })
+        .eq('id', jobRunId)
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
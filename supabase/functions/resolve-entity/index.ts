@@ -0,0 +1,248 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { KALSHI_TOTALS_MAP_KEY } from '../_shared/kalshiMarkets.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+interface UnresolvedEntity {
+  id: number
+  entity_type: 'team' | 'event'
+  provider: string
+  sport_id: string
+  provider_key: string
+  event_date: string | null
+  provider_raw_id: number | null
+  context: { team_id?: string; odds_sport_key?: string }
+  status: string
+}
+
+// Team version in force on the date, else the franchise's latest
+async function versionOn(supabase: any, franchiseId: string, day: string): Promise<{ id: string } | null> {
+  const { data: versions, error } = await supabase
+    .from('team_versions')
+    .select('id, effective_from, effective_to')
+    .eq('franchise_id', franchiseId)
+    .order('effective_from', { ascending: false })
+  if (error) throw error
+  const current = (versions || []).find((v: { effective_from: string; effective_to: string | null }) =>
+    v.effective_from <= day && (v.effective_to === null || day < v.effective_to)
+  )
+  return current ?? versions?.[0] ?? null
+}
+
+// Games ingested with this team but no franchise pick up the confirmed one,
+// along with their matchup_games rows
+async function replayTeam(supabase: any, entity: UnresolvedEntity, franchiseId: string): Promise<number> {
+  const teamId = entity.context.team_id
+  if (!teamId) return 0
+
+  const gameIds = new Set<string>()
+  for (const side of ['home', 'away'] as const) {
+    const { data: updated, error } = await supabase
+      .from('games')
+      .update({ [`${side}_franchise_id`]: franchiseId })
+      .eq('sport_id', entity.sport_id)
+      .eq(`${side}_team_id`, teamId)
+      .is(`${side}_franchise_id`, null)
+      .select('id')
+    if (error) throw error
+    for (const g of updated || []) gameIds.add(g.id)
+  }
+  if (gameIds.size === 0) return 0
+
+  const { data: games } = await supabase
+    .from('games')
+    .select('id, home_franchise_id, away_franchise_id')
+    .in('id', Array.from(gameIds))
+  for (const game of games || []) {
+    if (!game.home_franchise_id || !game.away_franchise_id) continue
+    const [franchiseLowId, franchiseHighId] = [game.home_franchise_id, game.away_franchise_id].sort()
+    await supabase
+      .from('matchup_games')
+      .update({ franchise_low_id: franchiseLowId, franchise_high_id: franchiseHighId })
+      .eq('game_id', game.id)
+  }
+
+  return gameIds.size
+}
+
+// Odds API events run back through refresh-odds from the archived payload;
+// Kalshi totals events map their strikes in kalshi_market_map (the discovery
+// run keeps strikes it couldn't parse unmatched); Kalshi game events have
+// nothing downstream of the mapping yet
+async function replayEvent(supabase: any, entity: UnresolvedEntity, gameId: string): Promise<number> {
+  if (entity.provider === 'kalshi' && entity.context.odds_sport_key === KALSHI_TOTALS_MAP_KEY) {
+    const { data, error } = await supabase
+      .from('kalshi_market_map')
+      .update({ game_id: gameId, match_status: 'matched', unmatched_reason: null })
+      .eq('event_ticker', entity.provider_key)
+      .not('line', 'is', null)
+      .select('market_ticker')
+    if (error) throw error
+    return (data || []).length
+  }
+  if (entity.provider !== 'the_odds_api' || !entity.provider_raw_id) return 0
+
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/refresh-odds`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+    body: JSON.stringify({
+      sport_id: entity.sport_id,
+      date: entity.event_date,
+      replay_raw_id: entity.provider_raw_id,
+    }),
+  })
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => 'Unknown error')
+    throw new Error(`refresh-odds replay failed: ${response.status} - ${errorText}`)
+  }
+  const result = await response.json()
+  return result.replayed ?? 0
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+
+  try {
+    let requestBody: { id?: number; action?: 'confirm' | 'ignore'; match_id?: string } = {}
+    try {
+      requestBody = await req.json()
+    } catch {
+      // Validated below
+    }
+
+    const { id, action, match_id } = requestBody
+    if (!id || (action !== 'confirm' && action !== 'ignore') || (action === 'confirm' && !match_id)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Expected { id, action: "confirm", match_id } or { id, action: "ignore" }' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: entity, error: entityError } = await supabase
+      .from('unresolved_entities')
+      .select('id, entity_type, provider, sport_id, provider_key, event_date, provider_raw_id, context, status')
+      .eq('id', id)
+      .maybeSingle()
+    if (entityError) throw entityError
+    if (!entity) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Unresolved entity ${id} not found` }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (action === 'ignore') {
+      const { error } = await supabase.from('unresolved_entities').update({ status: 'ignored' }).eq('id', id)
+      if (error) throw error
+      console.log(`[RESOLVE] Ignored ${entity.provider} ${entity.entity_type} ${entity.provider_key}`)
+      return new Response(
+        JSON.stringify({ success: true, id, status: 'ignored' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const day = entity.event_date ?? new Date().toISOString().slice(0, 10)
+    let replayed = 0
+
+    if (entity.entity_type === 'team') {
+      const { data: franchise } = await supabase
+        .from('franchises')
+        .select('id')
+        .eq('id', match_id)
+        .eq('sport_id', entity.sport_id)
+        .maybeSingle()
+      if (!franchise) {
+        return new Response(
+          JSON.stringify({ success: false, error: `No ${entity.sport_id} franchise ${match_id}` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const version = await versionOn(supabase, franchise.id, day)
+      if (!version) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Franchise has no team versions to map to' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const { error: mapError } = await supabase
+        .from('team_version_map')
+        .upsert({
+          sport_id: entity.sport_id,
+          provider: entity.provider,
+          provider_team_key: entity.provider_key,
+          team_version_id: version.id,
+          franchise_id: franchise.id,
+          team_id: entity.context.team_id ?? null,
+        }, { onConflict: 'sport_id,provider,provider_team_key' })
+      if (mapError) throw mapError
+
+      replayed = await replayTeam(supabase, entity, franchise.id)
+    } else {
+      const { data: game } = await supabase
+        .from('games')
+        .select('id')
+        .eq('id', match_id)
+        .eq('sport_id', entity.sport_id)
+        .maybeSingle()
+      if (!game) {
+        return new Response(
+          JSON.stringify({ success: false, error: `No ${entity.sport_id} game ${match_id}` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const { error: mapError } = await supabase
+        .from('odds_event_map')
+        .upsert({
+          odds_sport_key: entity.context.odds_sport_key ?? entity.provider,
+          odds_event_id: entity.provider_key,
+          game_id: game.id,
+          confidence: 1,
+          matched_at: new Date().toISOString(),
+        }, { onConflict: 'odds_sport_key,odds_event_id' })
+      if (mapError) throw mapError
+
+      replayed = await replayEvent(supabase, entity, game.id)
+    }
+
+    const { error: resolveError } = await supabase
+      .from('unresolved_entities')
+      .update({
+        status: 'resolved',
+        resolved_match_id: match_id,
+        resolved_at: new Date().toISOString(),
+        replayed_count: replayed,
+      })
+      .eq('id', id)
+    if (resolveError) throw resolveError
+
+    console.log(`[RESOLVE] ${entity.provider} ${entity.entity_type} ${entity.provider_key} -> ${match_id}, replayed ${replayed}`)
+
+    return new Response(
+      JSON.stringify({ success: true, id, status: 'resolved', match_id, replayed }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('[RESOLVE] Fatal error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return new Response(
+      JSON.stringify({ success: false, error: message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,359 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  classifyFailure,
+  errorMessage,
+  isRetryable,
+  jobError,
+  runJob,
+  supabaseJobStore,
+  type JobContext,
+} from "../_shared/jobRunner.ts";
+import {
+  PIPELINE_SPORTS,
+  afterFailure,
+  planTick,
+  retryTargets,
+  seedStages,
+  stageDefinition,
+  type StageKey,
+  type StageState,
+} from "../_shared/pipelineDag.ts";
+
+declare const EdgeRuntime: {
+  waitUntil(promise: Promise<unknown>): void;
+};
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+// No new stage starts after this; the date continues in a fresh invocation
+const RUN_BUDGET_MS = 100 * 1000;
+// A single stage call; bdl-sync and prewarm-slate can take minutes
+const STAGE_TIMEOUT_MS = 5 * 60 * 1000;
+// A running stage nothing has finished by then died with its invocation
+const STAGE_STALE_MS = STAGE_TIMEOUT_MS + 5 * 60 * 1000;
+// A stage whose function reported its own lease held waits this long
+const LEASE_HELD_DELAY_MS = 60 * 1000;
+// Dates the sweep looks back over for stages still pending
+const SWEEP_DAYS = 3;
+
+const STAGE_COLUMNS = "date_local, sport_id, stage, status, attempts, next_attempt_at, error, failure_class, started_at, finished_at, duration_ms";
+
+// Get today's date in ET timezone
+function getTodayET(): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: "America/New_York",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date());
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+async function seedDate(supabase: any, date: string) {
+  const { error } = await supabase
+    .from("pipeline_stage_runs")
+    .upsert(seedStages(date), { onConflict: "date_local,sport_id,stage", ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+async function loadStates(supabase: any, date: string): Promise<StageState[]> {
+  const { data, error } = await supabase
+    .from("pipeline_stage_runs")
+    .select(STAGE_COLUMNS)
+    .eq("date_local", date);
+  if (error) throw error;
+  return (data || []) as StageState[];
+}
+
+function updateStage(supabase: any, state: StageState, patch: Record<string, unknown>) {
+  return supabase
+    .from("pipeline_stage_runs")
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("date_local", state.date_local)
+    .eq("sport_id", state.sport_id)
+    .eq("stage", state.stage);
+}
+
+// What the stage functions answer with; the rest of the body varies
+interface StageResponse {
+  success?: boolean;
+  skipped?: boolean;
+  error?: string;
+  [key: string]: unknown;
+}
+
+// Compact record of what the stage function reported
+function stageOutput(data: StageResponse | null): Record<string, unknown> | null {
+  if (!data || typeof data !== "object") return null;
+  const output: Record<string, unknown> = {};
+  for (const key of ["status", "job_id", "counters", "summary", "metrics", "stats"]) {
+    if (data[key] !== undefined) output[key] = data[key];
+  }
+  return Object.keys(output).length ? output : null;
+}
+
+/**
+ * One stage attempt. The row is claimed first (pending with the attempt count
+ * we read), so two overlapping passes never start the same stage.
+ */
+async function runStage(supabase: any, ctx: JobContext, state: StageState) {
+  const stage = stageDefinition(state.stage);
+  const attempts = state.attempts + 1;
+  const startedAt = Date.now();
+
+  const { data: claimed, error: claimError } = await updateStage(supabase, state, {
+    status: "running",
+    attempts,
+    started_at: new Date(startedAt).toISOString(),
+    finished_at: null,
+    job_run_id: ctx.run_id,
+  })
+    .eq("status", "pending")
+    .eq("attempts", state.attempts)
+    .select("id");
+  if (claimError) throw claimError;
+  if (!claimed?.length) return;
+
+  const request = stage.request(state.date_local, state.sport_id);
+  console.log(`[PIPELINE] ${state.date_local} ${state.sport_id} ${state.stage} -> ${request.function} (attempt ${attempts})`);
+
+  try {
+    const response = await fetch(`${SUPABASE_URL}/functions/v1/${request.function}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+      },
+      body: JSON.stringify(request.body),
+      signal: AbortSignal.timeout(STAGE_TIMEOUT_MS),
+    });
+    const text = await response.text();
+    let data: StageResponse | null = null;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      // Non-JSON bodies are reported as the error text
+    }
+
+    // The function's own run for this slate holds its lease; not an attempt
+    if (data?.skipped) {
+      await updateStage(supabase, state, {
+        status: "pending",
+        attempts: state.attempts,
+        next_attempt_at: new Date(Date.now() + LEASE_HELD_DELAY_MS).toISOString(),
+        error: data.error ?? "Lease held by another run",
+      });
+      return;
+    }
+
+    if (!response.ok || data?.success === false) {
+      const message = data?.error ?? text.slice(0, 300);
+      throw new Error(`${request.function} ${response.status}: ${message}`);
+    }
+
+    await updateStage(supabase, state, {
+      status: "success",
+      next_attempt_at: null,
+      error: null,
+      failure_class: null,
+      finished_at: new Date().toISOString(),
+      duration_ms: Date.now() - startedAt,
+      output: stageOutput(data),
+    });
+  } catch (err) {
+    const failureClass = classifyFailure(err);
+    const next = afterFailure({ ...state, attempts }, failureClass, isRetryable(failureClass), new Date());
+    await updateStage(supabase, state, {
+      ...next,
+      error: errorMessage(err),
+      finished_at: new Date().toISOString(),
+      duration_ms: Date.now() - startedAt,
+    });
+    throw err;
+  }
+}
+
+async function continueDate(date: string) {
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/run-pipeline`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+    body: JSON.stringify({ date }),
+  }).catch((err) => {
+    // The next sweep picks the date up again
+    console.error(`[PIPELINE] Could not continue ${date}:`, err);
+    return null;
+  });
+  await response?.body?.cancel();
+}
+
+/**
+ * Passes over one date until nothing is ready: skips what an upstream failure
+ * blocked, then runs the stages whose upstream succeeded. Stages waiting on a
+ * retry time or on the games finishing are left for a later sweep.
+ */
+async function runDate(supabase: any, date: string) {
+  const deadline = Date.now() + RUN_BUDGET_MS;
+  let outOfTime = false;
+
+  const job = await runJob(supabaseJobStore(supabase), {
+    job_name: "run-pipeline",
+    job_key: `run-pipeline:${date}`,
+    details: { date },
+    lease_ms: STAGE_STALE_MS,
+  }, async (ctx) => {
+    const counts = { ran: 0, skipped: 0, recovered: 0 };
+    // Each stage gets one attempt per invocation; retries come back on a later sweep
+    const attempted = new Set<string>();
+
+    while (true) {
+      const states = await loadStates(supabase, date);
+      const now = new Date();
+
+      // Stages left running by an invocation that died count as timed out
+      const stale = states.filter(s => s.status === "running" && s.started_at
+        && now.getTime() - new Date(s.started_at).getTime() > STAGE_STALE_MS);
+      for (const state of stale) {
+        const next = afterFailure(state, "timeout", true, now);
+        await updateStage(supabase, state, { ...next, error: "Stage did not finish", finished_at: now.toISOString() });
+        Object.assign(state, next);
+        counts.recovered++;
+      }
+
+      const plan = planTick(states, now, getTodayET());
+      for (const { state, reason } of plan.skip) {
+        const { error } = await updateStage(supabase, state, { status: "skipped", error: reason, next_attempt_at: null, finished_at: now.toISOString() });
+        if (error) throw error;
+        counts.skipped++;
+      }
+      const ready = plan.run.filter(s => !attempted.has(`${s.stage}:${s.sport_id}`));
+      if (!ready.length) {
+        // A skip can unblock nothing but further skips; take another pass for those
+        if (plan.skip.length) continue;
+        ctx.detail({ counts, waiting: plan.wait.map(w => ({ stage: w.state.stage, sport: w.state.sport_id, reason: w.reason, until: w.until ?? null })) });
+        break;
+      }
+
+      for (const state of ready) {
+        if (Date.now() > deadline) {
+          outOfTime = true;
+          break;
+        }
+        attempted.add(`${state.stage}:${state.sport_id}`);
+        await ctx.step(`${state.stage}:${state.sport_id}`, () => runStage(supabase, ctx, state), { optional: true, retry: false });
+        counts.ran++;
+      }
+      ctx.detail({ counts });
+      if (outOfTime) break;
+    }
+  });
+
+  console.log(`[PIPELINE] ${date}: ${job.status}${job.error ? ` (${job.error})` : ""}`);
+  if (outOfTime) await continueDate(date);
+}
+
+async function retryStage(supabase: any, date: string, stage: StageKey, sport: string): Promise<number> {
+  const states = await loadStates(supabase, date);
+  const targets = retryTargets(states, stage, sport);
+  if (targets.some(s => s.status === "running")) {
+    throw jobError("validation", `${stage} for ${sport} is running`);
+  }
+  for (const state of targets) {
+    const { error } = await updateStage(supabase, state, {
+      status: "pending",
+      attempts: 0,
+      next_attempt_at: null,
+      error: null,
+      failure_class: null,
+      started_at: null,
+      finished_at: null,
+      duration_ms: null,
+    });
+    if (error) throw error;
+  }
+  return targets.length;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  try {
+    let requestBody: { date?: string; retry?: { stage?: StageKey; sport?: string } } = {};
+    try {
+      requestBody = await req.json();
+    } catch {
+      // Empty body sweeps today and recent dates with pending stages
+    }
+
+    const today = getTodayET();
+    let dates: string[];
+
+    if (requestBody.date) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(requestBody.date)) {
+        return new Response(
+          JSON.stringify({ success: false, error: "date must be YYYY-MM-DD" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      dates = [requestBody.date];
+    } else {
+      const { data: pending } = await supabase
+        .from("pipeline_stage_runs")
+        .select("date_local")
+        .in("status", ["pending", "running"])
+        .gte("date_local", addDays(today, -SWEEP_DAYS));
+      dates = [...new Set([today, ...((pending || []) as Array<{ date_local: string }>).map(r => r.date_local)])].sort();
+    }
+
+    for (const date of dates) await seedDate(supabase, date);
+
+    let reset = 0;
+    const retry = requestBody.retry;
+    if (retry) {
+      if (!retry.stage || !retry.sport || !stageDefinition(retry.stage)) {
+        return new Response(
+          JSON.stringify({ success: false, error: "retry needs a known stage and a sport" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      reset = await retryStage(supabase, dates[0], retry.stage, retry.sport);
+      console.log(`[PIPELINE] Retrying ${retry.stage} for ${retry.sport} on ${dates[0]}: ${reset} stages reset`);
+    }
+
+    EdgeRuntime.waitUntil((async () => {
+      for (const date of dates) {
+        await runDate(supabase, date).catch((err) => console.error(`[PIPELINE] ${date} failed:`, err));
+      }
+    })());
+
+    return new Response(
+      JSON.stringify({ success: true, dates, sports: PIPELINE_SPORTS, reset }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("[PIPELINE] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const status = classifyFailure(error) === "validation" ? 400 : 500;
+    return new Response(
+      JSON.stringify({ success: false, error: message }),
+      { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,154 +1,12 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { teamKey } from "../_shared/teamRegistry.ts";
+import { ESPN_SPORT_PATHS, espnProvider, providerTransport, type SportsDataProvider } from "../_shared/providers.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// ESPN API URLs by sport
-const ESPN_API_URLS: Record<string, string> = {
-  nba: "https://site.api.espn.com/apis/site/v2/sports/basketball/nba/scoreboard",
-  nfl: "https://site.api.espn.com/apis/site/v2/sports/football/nfl/scoreboard",
-  nhl: "https://site.api.espn.com/apis/site/v2/sports/hockey/nhl/scoreboard",
-  mlb: "https://site.api.espn.com/apis/site/v2/sports/baseball/mlb/scoreboard",
-};
-
-// Team name mappings by sport (our DB name -> ESPN abbreviation)
-const TEAM_MAPPINGS: Record<string, Record<string, string>> = {
-  nba: {
-    "ATL": "ATL", "Hawks": "ATL",
-    "BOS": "BOS", "Celtics": "BOS",
-    "BKN": "BKN", "BRO": "BKN", "Nets": "BKN",
-    "CHA": "CHA", "CHO": "CHA", "Hornets": "CHA",
-    "CHI": "CHI", "Bulls": "CHI",
-    "CLE": "CLE", "Cavaliers": "CLE",
-    "DAL": "DAL", "Mavericks": "DAL",
-    "DEN": "DEN", "Nuggets": "DEN",
-    "DET": "DET", "Pistons": "DET",
-    "GSW": "GS", "GS": "GS", "Warriors": "GS",
-    "HOU": "HOU", "Rockets": "HOU",
-    "IND": "IND", "Pacers": "IND",
-    "LAC": "LAC", "Clippers": "LAC",
-    "LAL": "LAL", "Lakers": "LAL",
-    "MEM": "MEM", "Grizzlies": "MEM",
-    "MIA": "MIA", "Heat": "MIA",
-    "MIL": "MIL", "Bucks": "MIL",
-    "MIN": "MIN", "Timberwolves": "MIN",
-    "NOP": "NO", "NO": "NO", "Pelicans": "NO",
-    "NYK": "NY", "NY": "NY", "Knicks": "NY",
-    "OKC": "OKC", "Thunder": "OKC",
-    "ORL": "ORL", "Magic": "ORL",
-    "PHI": "PHI", "76ers": "PHI",
-    "PHX": "PHX", "PHO": "PHX", "Suns": "PHX",
-    "POR": "POR", "Trail Blazers": "POR", "Blazers": "POR",
-    "SAC": "SAC", "Kings": "SAC",
-    "SAS": "SA", "SA": "SA", "Spurs": "SA",
-    "TOR": "TOR", "Raptors": "TOR",
-    "UTA": "UTAH", "UTAH": "UTAH", "Jazz": "UTAH",
-    "WAS": "WSH", "WSH": "WSH", "Wizards": "WSH",
-  },
-  nfl: {
-    "ARI": "ARI", "Cardinals": "ARI",
-    "ATL": "ATL", "Falcons": "ATL",
-    "BAL": "BAL", "Ravens": "BAL",
-    "BUF": "BUF", "Bills": "BUF",
-    "CAR": "CAR", "Panthers": "CAR",
-    "CHI": "CHI", "Bears": "CHI",
-    "CIN": "CIN", "Bengals": "CIN",
-    "CLE": "CLE", "Browns": "CLE",
-    "DAL": "DAL", "Cowboys": "DAL",
-    "DEN": "DEN", "Broncos": "DEN",
-    "DET": "DET", "Lions": "DET",
-    "GB": "GB", "GNB": "GB", "Packers": "GB",
-    "HOU": "HOU", "Texans": "HOU",
-    "IND": "IND", "Colts": "IND",
-    "JAC": "JAX", "JAX": "JAX", "Jaguars": "JAX",
-    "KC": "KC", "KAN": "KC", "Chiefs": "KC",
-    "LV": "LV", "LVR": "LV", "Raiders": "LV",
-    "LAC": "LAC", "Chargers": "LAC",
-    "LAR": "LAR", "LA": "LAR", "Rams": "LAR",
-    "MIA": "MIA", "Dolphins": "MIA",
-    "MIN": "MIN", "Vikings": "MIN",
-    "NE": "NE", "NEP": "NE", "Patriots": "NE",
-    "NO": "NO", "NOR": "NO", "Saints": "NO",
-    "NYG": "NYG", "Giants": "NYG",
-    "NYJ": "NYJ", "Jets": "NYJ",
-    "PHI": "PHI", "Eagles": "PHI",
-    "PIT": "PIT", "Steelers": "PIT",
-    "SF": "SF", "SFO": "SF", "49ers": "SF",
-    "SEA": "SEA", "Seahawks": "SEA",
-    "TB": "TB", "TAM": "TB", "Buccaneers": "TB",
-    "TEN": "TEN", "Titans": "TEN",
-    "WAS": "WSH", "WSH": "WSH", "Commanders": "WSH",
-  },
-  nhl: {
-    "ANA": "ANA", "Ducks": "ANA",
-    "ARI": "ARI", "UTA": "UTAH", "Coyotes": "ARI", "Utah": "UTAH",
-    "BOS": "BOS", "Bruins": "BOS",
-    "BUF": "BUF", "Sabres": "BUF",
-    "CGY": "CGY", "CAL": "CGY", "Flames": "CGY",
-    "CAR": "CAR", "Hurricanes": "CAR",
-    "CHI": "CHI", "Blackhawks": "CHI",
-    "COL": "COL", "Avalanche": "COL",
-    "CBJ": "CBJ", "CLB": "CBJ", "Blue Jackets": "CBJ",
-    "DAL": "DAL", "Stars": "DAL",
-    "DET": "DET", "Red Wings": "DET",
-    "EDM": "EDM", "Oilers": "EDM",
-    "FLA": "FLA", "Panthers": "FLA",
-    "LA": "LA", "LAK": "LA", "Kings": "LA",
-    "MIN": "MIN", "Wild": "MIN",
-    "MTL": "MTL", "MON": "MTL", "Canadiens": "MTL",
-    "NSH": "NSH", "NAS": "NSH", "Predators": "NSH",
-    "NJ": "NJ", "NJD": "NJ", "Devils": "NJ",
-    "NYI": "NYI", "Islanders": "NYI",
-    "NYR": "NYR", "Rangers": "NYR",
-    "OTT": "OTT", "Senators": "OTT",
-    "PHI": "PHI", "Flyers": "PHI",
-    "PIT": "PIT", "Penguins": "PIT",
-    "SJ": "SJ", "SJS": "SJ", "Sharks": "SJ",
-    "SEA": "SEA", "Kraken": "SEA",
-    "STL": "STL", "Blues": "STL",
-    "TB": "TB", "TBL": "TB", "Lightning": "TB",
-    "TOR": "TOR", "Maple Leafs": "TOR",
-    "VAN": "VAN", "Canucks": "VAN",
-    "VGK": "VGK", "VEG": "VGK", "Golden Knights": "VGK",
-    "WPG": "WPG", "WIN": "WPG", "Jets": "WPG",
-    "WSH": "WSH", "WAS": "WSH", "Capitals": "WSH",
-  },
-  mlb: {
-    "ARI": "ARI", "Diamondbacks": "ARI", "D-backs": "ARI",
-    "ATL": "ATL", "Braves": "ATL",
-    "BAL": "BAL", "Orioles": "BAL",
-    "BOS": "BOS", "Red Sox": "BOS",
-    "CHC": "CHC", "Cubs": "CHC",
-    "CWS": "CHW", "CHW": "CHW", "White Sox": "CHW",
-    "CIN": "CIN", "Reds": "CIN",
-    "CLE": "CLE", "Guardians": "CLE", "Indians": "CLE",
-    "COL": "COL", "Rockies": "COL",
-    "DET": "DET", "Tigers": "DET",
-    "HOU": "HOU", "Astros": "HOU",
-    "KC": "KC", "KAN": "KC", "Royals": "KC",
-    "LAA": "LAA", "Angels": "LAA",
-    "LAD": "LAD", "LA": "LAD", "Dodgers": "LAD",
-    "MIA": "MIA", "Marlins": "MIA",
-    "MIL": "MIL", "Brewers": "MIL",
-    "MIN": "MIN", "Twins": "MIN",
-    "NYM": "NYM", "Mets": "NYM",
-    "NYY": "NYY", "Yankees": "NYY",
-    "OAK": "OAK", "Athletics": "OAK", "A's": "OAK",
-    "PHI": "PHI", "Phillies": "PHI",
-    "PIT": "PIT", "Pirates": "PIT",
-    "SD": "SD", "SDP": "SD", "Padres": "SD",
-    "SF": "SF", "SFG": "SF", "Giants": "SF",
-    "SEA": "SEA", "Mariners": "SEA",
-    "STL": "STL", "Cardinals": "STL",
-    "TB": "TB", "TBR": "TB", "Rays": "TB",
-    "TEX": "TEX", "Rangers": "TEX",
-    "TOR": "TOR", "Blue Jays": "TOR",
-    "WAS": "WSH", "WSH": "WSH", "Nationals": "WSH",
-  },
-};
-
 interface ESPNCompetitor {
   id: string;
   team: {
@@ -188,39 +46,22 @@ interface ParsedGame {
   isComplete: boolean;
 }
 
-function getTeamAbbrev(teamName: string, sport: string): string | null {
-  const mapping = TEAM_MAPPINGS[sport];
-  if (!mapping) return teamName.toUpperCase();
-  
-  if (mapping[teamName]) return mapping[teamName];
-  const upper = teamName.toUpperCase();
-  if (mapping[upper]) return mapping[upper];
-  
-  // Fallback: return the original name
-  return teamName.toUpperCase();
-}
-
-async function fetchESPNGames(sport: string, dateStr: string): Promise<ParsedGame[]> {
-  const baseUrl = ESPN_API_URLS[sport];
-  if (!baseUrl) {
+async function fetchESPNGames(espn: SportsDataProvider, sport: string, dateStr: string): Promise<ParsedGame[]> {
+  if (!ESPN_SPORT_PATHS[sport]) {
     console.log(`[VERIFY-SCORES] No ESPN URL for sport: ${sport}`);
     return [];
   }
 
-  const espnDate = dateStr.replace(/-/g, "");
-  const url = `${baseUrl}?dates=${espnDate}`;
   console.log(`[VERIFY-SCORES] Fetching ESPN ${sport} games for ${dateStr}`);
 
-  const response = await fetch(url, {
-    headers: { "Accept": "application/json" },
-  });
+  const response = await espn.scores({ sport, date: dateStr });
 
   if (!response.ok) {
     console.error(`[VERIFY-SCORES] ESPN API error for ${sport}: ${response.status}`);
     throw new Error(`ESPN API returned ${response.status}`);
   }
 
-  const data: ESPNResponse = await response.json();
+  const data = response.payload as ESPNResponse;
   const games: ParsedGame[] = [];
 
   for (const event of data.events || []) {
@@ -258,17 +99,18 @@ function matchGame(
   sport: string,
   espnGames: ParsedGame[]
 ): ParsedGame | null {
-  const ourHomeAbbrev = getTeamAbbrev(ourHomeTeam, sport);
-  const ourAwayAbbrev = getTeamAbbrev(ourAwayTeam, sport);
+  // Compare registry keys so "GSW", "GS" and "Warriors" all match
+  const ourHomeKey = teamKey(sport, ourHomeTeam);
+  const ourAwayKey = teamKey(sport, ourAwayTeam);
 
-  if (!ourHomeAbbrev || !ourAwayAbbrev) {
+  if (!ourHomeKey || !ourAwayKey) {
     return null;
   }
 
   for (const espnGame of espnGames) {
     if (
-      espnGame.homeTeamAbbrev === ourHomeAbbrev &&
-      espnGame.awayTeamAbbrev === ourAwayAbbrev
+      teamKey(sport, espnGame.homeTeamAbbrev) === ourHomeKey &&
+      teamKey(sport, espnGame.awayTeamAbbrev) === ourAwayKey
     ) {
       return espnGame;
     }
@@ -286,6 +128,7 @@ Deno.serve(async (req) => {
     Deno.env.get("SUPABASE_URL")!,
     Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
   );
+  const espn = espnProvider(providerTransport(Deno.env.get("PROVIDER_MODE"), supabase));
 
   try {
     let targetDates: string[] = [];
@@ -383,7 +226,7 @@ Deno.serve(async (req) => {
         // Fetch ESPN games for this date AND the previous day (for timezone handling)
         let espnGames: ParsedGame[] = [];
         try {
-          const currentGames = await fetchESPNGames(sport, dateStr);
+          const currentGames = await fetchESPNGames(espn, sport, dateStr);
           espnGames.push(...currentGames);
 
           // Also check previous day
@@ -394,7 +237,7 @@ Deno.serve(async (req) => {
           const prevDay = String(prevDate.getDate()).padStart(2, "0");
           const prevDateStr = `${prevYear}-${prevMonth}-${prevDay}`;
 
-          const prevGames = await fetchESPNGames(sport, prevDateStr);
+          const prevGames = await fetchESPNGames(espn, sport, prevDateStr);
           espnGames.push(...prevGames);
         } catch (e) {
           console.error(`[VERIFY-SCORES] Failed to fetch ESPN ${sport} games for ${dateStr}:`, e);
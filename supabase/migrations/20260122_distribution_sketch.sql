@@ -0,0 +1,10 @@
+-- Store the full quantile sketch (P0, P5, ... P100 plus sample sizes) alongside
+-- the headline P05/median/P95 so any alternate line can be priced later
+ALTER TABLE public.matchup_stats
+  ADD COLUMN IF NOT EXISTS distribution jsonb;
+
+ALTER TABLE public.daily_edges
+  ADD COLUMN IF NOT EXISTS distribution jsonb;
+
+COMMENT ON COLUMN public.matchup_stats.distribution IS 'Quantile sketch: {q: [P0..P100 every 5], n, n_eff}';
+COMMENT ON COLUMN public.daily_edges.distribution IS 'Quantile sketch of the segment used: {q: [P0..P100 every 5], n, n_eff}';
@@ -0,0 +1,11 @@
+-- Smoothed distribution models (empirical / kde / shrinkage), chosen per sport
+ALTER TABLE public.betting_config
+  ADD COLUMN IF NOT EXISTS distribution_models jsonb DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.betting_config.distribution_models IS 'sport_id -> empirical | kde | shrinkage; missing sports use empirical';
+
+-- Which estimator produced p05/p95/distribution on each edge
+ALTER TABLE public.daily_edges
+  ADD COLUMN IF NOT EXISTS model text DEFAULT 'empirical';
+
+CREATE INDEX IF NOT EXISTS idx_daily_edges_model ON public.daily_edges(model);
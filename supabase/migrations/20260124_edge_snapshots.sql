@@ -0,0 +1,52 @@
+-- Point-in-time edge snapshots
+-- daily_edges is overwritten by every compute/odds run; backtests need what we
+-- knew at bet time. Each compute-percentiles and refresh-odds write appends an
+-- immutable row here with the percentiles, line and prices as of that moment.
+
+CREATE TABLE IF NOT EXISTS edge_snapshots (
+  id BIGSERIAL PRIMARY KEY,
+  snapshot_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Which writer produced the snapshot: 'compute' or 'odds'
+  source TEXT NOT NULL CHECK (source IN ('compute', 'odds')),
+
+  game_id UUID NOT NULL REFERENCES games(id),
+  date_local DATE NOT NULL,
+  sport_id TEXT NOT NULL,
+
+  -- Percentile state
+  p05 NUMERIC,
+  p95 NUMERIC,
+  distribution JSONB,
+  segment_used TEXT,
+  n_used INTEGER,
+  model TEXT,
+
+  -- Market state
+  dk_offered BOOLEAN NOT NULL DEFAULT false,
+  dk_total_line NUMERIC,
+  dk_over_price INTEGER,
+  dk_under_price INTEGER,
+  dk_line_percentile NUMERIC,
+  odds_snapshot_id BIGINT REFERENCES odds_snapshots(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_edge_snapshots_game_time ON edge_snapshots(game_id, snapshot_at DESC);
+CREATE INDEX IF NOT EXISTS idx_edge_snapshots_date ON edge_snapshots(date_local DESC);
+
+-- Snapshots are append-only
+CREATE OR REPLACE FUNCTION reject_edge_snapshot_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'edge_snapshots is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_edge_snapshots_immutable ON edge_snapshots;
+CREATE TRIGGER trg_edge_snapshots_immutable
+  BEFORE UPDATE OR DELETE ON edge_snapshots
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_edge_snapshot_change();
+
+ALTER TABLE edge_snapshots ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public can read edge_snapshots" ON edge_snapshots FOR SELECT USING (true);
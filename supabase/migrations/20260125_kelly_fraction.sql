@@ -0,0 +1,7 @@
+-- Fractional Kelly staking for auto-bet and the simulator default
+-- (replaces the fixed strong/moderate/weak position_pct tiers)
+ALTER TABLE public.betting_config
+  ADD COLUMN IF NOT EXISTS kelly_fraction numeric DEFAULT 0.25
+  CHECK (kelly_fraction > 0 AND kelly_fraction <= 1);
+
+COMMENT ON COLUMN public.betting_config.kelly_fraction IS 'Multiplier on the full Kelly stake (0.25 = quarter Kelly); stakes are still capped by max_position_size_cents';
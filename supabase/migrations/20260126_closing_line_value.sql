@@ -0,0 +1,48 @@
+-- Closing line value
+-- refresh-odds marks the last odds snapshot before start as each game's close
+-- and scores every signal, lock-parlay leg and Kalshi order on the game
+-- against it.
+
+ALTER TABLE odds_snapshots ADD COLUMN IF NOT EXISTS is_closing BOOLEAN NOT NULL DEFAULT false;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_odds_snapshots_closing ON odds_snapshots(game_id) WHERE is_closing;
+
+-- DK line the order was priced off (Kalshi totals settle on it)
+ALTER TABLE kalshi_orders ADD COLUMN IF NOT EXISTS entry_line NUMERIC;
+
+CREATE TABLE IF NOT EXISTS closing_line_values (
+  id BIGSERIAL PRIMARY KEY,
+
+  -- What was scored: 'signal' (subject_id = game id), 'parlay_leg'
+  -- ('<parlay id>:<game id>') or 'kalshi_order' (kalshi_orders.id)
+  subject_type TEXT NOT NULL CHECK (subject_type IN ('signal', 'parlay_leg', 'kalshi_order')),
+  subject_id TEXT NOT NULL,
+
+  game_id UUID NOT NULL REFERENCES games(id),
+  sport_id TEXT NOT NULL,
+  side TEXT NOT NULL CHECK (side IN ('over', 'under')),
+  edge_strength TEXT,
+
+  -- Entry
+  entry_line NUMERIC NOT NULL,
+  entry_probability NUMERIC,
+
+  -- Close
+  closing_snapshot_id BIGINT REFERENCES odds_snapshots(id),
+  closing_line NUMERIC NOT NULL,
+  closing_probability NUMERIC,
+
+  -- Positive = beat the close
+  clv_points NUMERIC NOT NULL,
+  clv_prob NUMERIC,
+
+  game_start_utc TIMESTAMPTZ NOT NULL,
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE(subject_type, subject_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_clv_subject_start ON closing_line_values(subject_type, game_start_utc DESC);
+CREATE INDEX IF NOT EXISTS idx_clv_game ON closing_line_values(game_id);
+
+ALTER TABLE closing_line_values ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public can read closing_line_values" ON closing_line_values FOR SELECT USING (true);
@@ -0,0 +1,103 @@
+-- Unresolved entity review queue
+-- ingest-games, refresh-odds and kalshi-integration queue provider teams and
+-- events they couldn't map to our franchises or games, instead of dropping
+-- them. Confirming a candidate in FranchiseManagement (resolve-entity) writes
+-- the alias to team_version_map or odds_event_map and replays the records.
+
+CREATE TABLE IF NOT EXISTS unresolved_entities (
+  id BIGSERIAL PRIMARY KEY,
+
+  -- 'team': provider team key -> franchise; 'event': provider event -> game
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('team', 'event')),
+  -- Edge function that hit the failure
+  source TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  sport_id TEXT NOT NULL,
+  -- Team abbreviation, Odds API event id or Kalshi event ticker
+  provider_key TEXT NOT NULL,
+  label TEXT NOT NULL,
+  event_date DATE,
+
+  -- Payload of the latest occurrence
+  provider_raw_id BIGINT REFERENCES provider_raw(id),
+
+  -- [{ id, label, score }] best first; ids are franchise ids (team) or game ids (event)
+  candidates JSONB NOT NULL DEFAULT '[]',
+  best_score NUMERIC,
+  -- What a replay needs beyond the payload, e.g. { team_id }
+  context JSONB NOT NULL DEFAULT '{}',
+
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'ignored')),
+  occurrences INTEGER NOT NULL DEFAULT 1,
+  first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Set when resolved: confirmed franchise or game id, and records replayed
+  resolved_match_id TEXT,
+  resolved_at TIMESTAMPTZ,
+  replayed_count INTEGER,
+
+  UNIQUE(entity_type, provider, sport_id, provider_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_unresolved_entities_open ON unresolved_entities(sport_id, last_seen_at DESC) WHERE status = 'open';
+
+ALTER TABLE unresolved_entities ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public can read unresolved_entities" ON unresolved_entities FOR SELECT USING (true);
+
+-- Kalshi events map to games alongside Odds API events, so a game can hold
+-- one mapping per source rather than one overall
+ALTER TABLE odds_event_map DROP CONSTRAINT IF EXISTS odds_event_map_game_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_odds_event_map_source_game ON odds_event_map(odds_sport_key, game_id);
+
+-- Archive the payload and add or bump the queue row. A failure that comes
+-- back after being resolved reopens; an ignored one stays ignored.
+CREATE OR REPLACE FUNCTION record_unresolved_entity(p_entry JSONB, p_endpoint TEXT, p_payload JSONB)
+RETURNS BIGINT AS $$
+DECLARE
+  v_raw_id BIGINT;
+  v_id BIGINT;
+BEGIN
+  INSERT INTO provider_raw (provider, endpoint, params_hash, sport_id, payload_json)
+  VALUES (
+    p_entry->>'provider',
+    p_endpoint,
+    md5(p_entry->>'entity_type' || ':' || (p_entry->>'provider_key')),
+    p_entry->>'sport_id',
+    COALESCE(p_payload, 'null'::jsonb)
+  )
+  RETURNING id INTO v_raw_id;
+
+  INSERT INTO unresolved_entities (
+    entity_type, source, provider, sport_id, provider_key, label, event_date,
+    provider_raw_id, candidates, best_score, context
+  )
+  VALUES (
+    p_entry->>'entity_type',
+    p_entry->>'source',
+    p_entry->>'provider',
+    p_entry->>'sport_id',
+    p_entry->>'provider_key',
+    p_entry->>'label',
+    (p_entry->>'event_date')::DATE,
+    v_raw_id,
+    COALESCE(p_entry->'candidates', '[]'::jsonb),
+    (p_entry->>'best_score')::NUMERIC,
+    COALESCE(p_entry->'context', '{}'::jsonb)
+  )
+  ON CONFLICT (entity_type, provider, sport_id, provider_key) DO UPDATE SET
+    source = EXCLUDED.source,
+    label = EXCLUDED.label,
+    event_date = EXCLUDED.event_date,
+    provider_raw_id = EXCLUDED.provider_raw_id,
+    candidates = EXCLUDED.candidates,
+    best_score = EXCLUDED.best_score,
+    context = unresolved_entities.context || EXCLUDED.context,
+    occurrences = unresolved_entities.occurrences + 1,
+    last_seen_at = NOW(),
+    status = CASE WHEN unresolved_entities.status = 'ignored' THEN 'ignored' ELSE 'open' END
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql;
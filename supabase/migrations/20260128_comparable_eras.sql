@@ -0,0 +1,28 @@
+-- Comparable eras
+-- compute-percentiles weighs each head-to-head meeting by the era it was
+-- played in: 1 = comparable to today, 0 = excluded, between = down-weighted.
+-- Meetings before either franchise's latest relocation (team_versions) are
+-- always excluded. Edit these rows to change a sport's policy or to carve out
+-- a date range; a sport with no rows falls back to SPORT_ERAS in _shared/eras.ts.
+
+ALTER TABLE game_eras ADD COLUMN IF NOT EXISTS weight NUMERIC NOT NULL DEFAULT 1 CHECK (weight >= 0 AND weight <= 1);
+
+COMMENT ON COLUMN game_eras.end_date IS 'Exclusive; NULL for the current era';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_game_eras_sport_start ON game_eras(sport_id, start_date);
+
+-- Same policy as SPORT_ERAS
+INSERT INTO game_eras (sport_id, era_name, start_date, end_date, weight, description) VALUES
+  ('nfl', 'Short extra point', '1920-01-01', '2015-05-19', 0.5, 'Extra points snapped from the 2-yard line'),
+  ('nfl', 'Long extra point', '2015-05-19', '2024-03-26', 0.85, 'Extra points from the 15, touchback kickoffs'),
+  ('nfl', 'Dynamic kickoff', '2024-03-26', NULL, 1, 'Dynamic kickoff alignment adopted'),
+  ('mlb', 'Pre-testing', '1900-01-01', '2005-03-01', 0, 'Before suspensions for performance-enhancing drugs'),
+  ('mlb', 'No pitch clock', '2005-03-01', '2023-03-30', 0.6, 'Testing era without the pitch clock or shift limits'),
+  ('mlb', 'Pitch clock', '2023-03-30', NULL, 1, 'Pitch clock, larger bases and shift restrictions'),
+  ('nba', 'Hand-checking', '1946-01-01', '2004-11-02', 0, 'Before hand-checking was called on the perimeter'),
+  ('nba', 'Freedom of movement', '2004-11-02', '2018-10-16', 0.6, 'Hand-check ban, before the pace-and-space scoring jump'),
+  ('nba', 'Pace and space', '2018-10-16', NULL, 1, '14-second offensive rebound reset'),
+  ('nhl', 'Pre-lockout', '1917-01-01', '2005-10-05', 0, 'Two-line pass and no shootout'),
+  ('nhl', 'Shootout', '2005-10-05', '2015-10-07', 0.7, 'Post-lockout rules with 4-on-4 overtime'),
+  ('nhl', '3-on-3 overtime', '2015-10-07', NULL, 1, '3-on-3 overtime before the shootout')
+ON CONFLICT (sport_id, start_date) DO NOTHING;
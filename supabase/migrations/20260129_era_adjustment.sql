@@ -0,0 +1,32 @@
+-- Era scoring adjustment
+-- compute-percentiles rescales each head-to-head total from its season's
+-- league average to the current season's before computing percentiles,
+-- by ratio or by the additive gap, chosen per sport.
+
+-- League average final total per sport and season
+CREATE OR REPLACE VIEW public.league_season_totals
+WITH (security_invoker = true) AS
+SELECT
+  g.sport_id,
+  g.season_year,
+  COUNT(*) AS n_games,
+  ROUND(AVG(g.final_total), 2) AS avg_total
+FROM public.games g
+WHERE g.status = 'final'
+  AND g.final_total IS NOT NULL
+  AND g.season_year IS NOT NULL
+GROUP BY g.sport_id, g.season_year;
+
+ALTER TABLE public.betting_config
+  ADD COLUMN IF NOT EXISTS era_adjustments jsonb DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.betting_config.era_adjustments IS 'sport_id -> none | ratio | additive; missing sports are not adjusted';
+
+-- Scoring has drifted most in the NBA and MLB; start those on ratio
+UPDATE public.betting_config
+SET era_adjustments = '{"nba": "ratio", "mlb": "ratio"}'::jsonb
+WHERE name = 'default' AND (era_adjustments IS NULL OR era_adjustments = '{}'::jsonb);
+
+-- Which adjustment the totals behind p05/p95/distribution went through
+ALTER TABLE public.daily_edges
+  ADD COLUMN IF NOT EXISTS era_adjustment text DEFAULT 'none';
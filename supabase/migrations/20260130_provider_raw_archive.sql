@@ -0,0 +1,30 @@
+-- Provider payload archive
+-- Every live provider fetch lands in provider_raw with its request
+-- parameters and the game dates it covers, so `reprocess` can run a sport
+-- and date range back through the current parsers.
+
+ALTER TABLE public.provider_raw
+  ADD COLUMN IF NOT EXISTS params_json JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS date_from DATE,
+  ADD COLUMN IF NOT EXISTS date_to DATE;
+
+COMMENT ON COLUMN public.provider_raw.params_json IS 'Request parameters params_hash was computed from';
+COMMENT ON COLUMN public.provider_raw.date_from IS 'First game date (ET) the payload covers; NULL for a whole-season payload';
+COMMENT ON COLUMN public.provider_raw.date_to IS 'Last game date (ET) the payload covers; NULL for a whole-season payload';
+
+-- Replay looks up the latest payload for a request, reprocess a sport's date range
+CREATE INDEX IF NOT EXISTS idx_provider_raw_request
+  ON public.provider_raw(provider, endpoint, params_hash, fetched_at DESC);
+CREATE INDEX IF NOT EXISTS idx_provider_raw_sport_dates
+  ON public.provider_raw(sport_id, endpoint, date_from);
+
+-- Scoreboards archived by backfill-all before this name their day in the payload
+UPDATE public.provider_raw
+SET
+  date_from = (payload_json->'day'->>'date')::date,
+  date_to = (payload_json->'day'->>'date')::date,
+  params_json = jsonb_build_object('dates', REPLACE(payload_json->'day'->>'date', '-', ''))
+WHERE provider = 'espn'
+  AND endpoint LIKE '%/scoreboard'
+  AND date_from IS NULL
+  AND payload_json->'day'->>'date' ~ '^\d{4}-\d{2}-\d{2}$';
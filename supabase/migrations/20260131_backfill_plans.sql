@@ -0,0 +1,54 @@
+-- Resumable backfill plans
+-- The backfill orchestrator replaces the per-source backfill functions. A
+-- plan (sport, seasons, source, scope) is split into work units that record
+-- a checkpoint as they go, so a run cut off by the edge timeout resumes
+-- where it stopped instead of starting the season over.
+
+CREATE TABLE IF NOT EXISTS backfill_plans (
+  id BIGSERIAL PRIMARY KEY,
+  sport_id TEXT NOT NULL,
+  -- As the source numbers them; empty for stats plans and date-only plans
+  seasons INTEGER[] NOT NULL DEFAULT '{}',
+  source TEXT NOT NULL CHECK (source IN ('espn', 'balldontlie')),
+  scope TEXT NOT NULL CHECK (scope IN ('games', 'regular', 'playoffs', 'rosters', 'stats')),
+  date_from DATE,
+  date_to DATE,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'fail', 'canceled')),
+  -- job_runs row LiveJobProgress follows
+  job_run_id BIGINT REFERENCES job_runs(id),
+  -- Validation and mapping audit written when the plan finishes
+  summary JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS backfill_units (
+  id BIGSERIAL PRIMARY KEY,
+  plan_id BIGINT NOT NULL REFERENCES backfill_plans(id) ON DELETE CASCADE,
+  -- e.g. 'games:2024:2023-10-01', 'rosters:2024', 'stats'
+  unit_key TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('games', 'playoff_results', 'rosters', 'stats')),
+  season_year INTEGER,
+  date_from DATE,
+  date_to DATE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'done', 'failed')),
+  -- { next_date } for ESPN, { cursor } for BallDontLie, { offset } otherwise
+  checkpoint JSONB NOT NULL DEFAULT '{}',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  rows_written INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  started_at TIMESTAMPTZ,
+  -- Bumped at every checkpoint; a running unit whose heartbeat goes stale was cut off
+  heartbeat_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  UNIQUE(plan_id, unit_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_backfill_plans_running ON backfill_plans(updated_at) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_backfill_units_plan ON backfill_units(plan_id, status);
+
+ALTER TABLE backfill_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE backfill_units ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public can read backfill_plans" ON backfill_plans FOR SELECT USING (true);
+CREATE POLICY "Public can read backfill_units" ON backfill_units FOR SELECT USING (true);
@@ -0,0 +1,68 @@
+-- Job framework: leases per job key and structured run history
+--
+-- Edge functions started by cron (morning-refresh, prewarm-slate) call each
+-- other over HTTP, so two overlapping runs could both do the same work. A run
+-- now takes a lease on its job key first; a run that can't is recorded as
+-- skipped. job_runs gains the step list, metrics and a failure class.
+
+-- One row per held key; an expired lease can be taken over
+CREATE TABLE IF NOT EXISTS job_locks (
+  job_key TEXT PRIMARY KEY,
+  holder TEXT NOT NULL,
+  job_run_id BIGINT REFERENCES job_runs(id) ON DELETE SET NULL,
+  acquired_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+ALTER TABLE job_locks ENABLE ROW LEVEL SECURITY;
+
+-- Service role only, like job_runs
+CREATE POLICY "Service can read job_locks" ON job_locks FOR SELECT USING (false);
+
+ALTER TABLE job_runs ADD COLUMN IF NOT EXISTS job_key TEXT;
+ALTER TABLE job_runs ADD COLUMN IF NOT EXISTS steps JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE job_runs ADD COLUMN IF NOT EXISTS metrics JSONB;
+ALTER TABLE job_runs ADD COLUMN IF NOT EXISTS failure_class TEXT;
+ALTER TABLE job_runs ADD COLUMN IF NOT EXISTS error TEXT;
+
+-- 'partial' was already written by morning-refresh and prewarm-slate
+ALTER TABLE job_runs DROP CONSTRAINT IF EXISTS job_runs_status_check;
+ALTER TABLE job_runs ADD CONSTRAINT job_runs_status_check
+  CHECK (status IN ('running', 'success', 'partial', 'fail', 'skipped'));
+
+ALTER TABLE job_runs DROP CONSTRAINT IF EXISTS job_runs_failure_class_check;
+ALTER TABLE job_runs ADD CONSTRAINT job_runs_failure_class_check
+  CHECK (failure_class IS NULL OR failure_class IN (
+    'timeout', 'rate_limited', 'upstream', 'database', 'validation', 'lock_contention', 'unknown'
+  ));
+
+CREATE INDEX IF NOT EXISTS idx_job_runs_key_time ON job_runs(job_key, started_at DESC);
+
+-- Take or renew the lease on a key. Succeeds when the key is free, expired,
+-- or already held by the same holder.
+CREATE OR REPLACE FUNCTION acquire_job_lease(p_job_key TEXT, p_holder TEXT, p_ttl_seconds INTEGER, p_job_run_id BIGINT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_holder TEXT;
+BEGIN
+  INSERT INTO job_locks (job_key, holder, job_run_id, acquired_at, expires_at)
+  VALUES (p_job_key, p_holder, p_job_run_id, NOW(), NOW() + make_interval(secs => p_ttl_seconds))
+  ON CONFLICT (job_key) DO UPDATE SET
+    holder = EXCLUDED.holder,
+    job_run_id = EXCLUDED.job_run_id,
+    acquired_at = CASE WHEN job_locks.holder = EXCLUDED.holder THEN job_locks.acquired_at ELSE NOW() END,
+    expires_at = EXCLUDED.expires_at
+  WHERE job_locks.holder = EXCLUDED.holder OR job_locks.expires_at < NOW()
+  RETURNING holder INTO v_holder;
+
+  RETURN v_holder IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION release_job_lease(p_job_key TEXT, p_holder TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  DELETE FROM job_locks WHERE job_key = p_job_key AND holder = p_holder;
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
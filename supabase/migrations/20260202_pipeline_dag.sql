@@ -0,0 +1,34 @@
+-- Daily pipeline: stage state per date and sport
+--
+-- The daily flow (ingest schedule, refresh odds, hydrate matchups, compute
+-- percentiles, Kalshi signals, verify scores, update parlays) runs as a DAG
+-- from run-pipeline. Each row is one stage for one date and sport; stages
+-- that cover the whole date use sport_id 'all'. The stage graph itself lives
+-- in supabase/functions/_shared/pipelineDag.ts.
+
+CREATE TABLE IF NOT EXISTS pipeline_stage_runs (
+  id BIGSERIAL PRIMARY KEY,
+  date_local DATE NOT NULL,
+  sport_id TEXT NOT NULL,
+  stage TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'success', 'fail', 'skipped')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ,
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  duration_ms INTEGER,
+  error TEXT,
+  failure_class TEXT,
+  output JSONB,
+  job_run_id BIGINT REFERENCES job_runs(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (date_local, sport_id, stage)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_stage_runs_date ON pipeline_stage_runs(date_local, status);
+
+ALTER TABLE pipeline_stage_runs ENABLE ROW LEVEL SECURITY;
+
+-- Service role only, like job_runs; Status reads it through api-pipeline
+CREATE POLICY "Service can read pipeline_stage_runs" ON pipeline_stage_runs FOR SELECT USING (false);
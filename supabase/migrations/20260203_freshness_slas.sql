@@ -0,0 +1,60 @@
+-- Data freshness SLAs: declarative rules and the breaches they raise
+--
+-- check-freshness evaluates every enabled rule on a schedule (see
+-- supabase/functions/_shared/freshness.ts for the rule types and params),
+-- keeps one open breach per failing rule and posts breaches to the webhook
+-- in FRESHNESS_WEBHOOK_URL when they open and when they resolve.
+
+CREATE TABLE IF NOT EXISTS freshness_rules (
+  id TEXT PRIMARY KEY,
+  sport_id TEXT NOT NULL,
+  rule_type TEXT NOT NULL CHECK (rule_type IN ('odds_age', 'edges_deadline', 'unverified_finals')),
+  table_name TEXT NOT NULL,
+  params JSONB NOT NULL DEFAULT '{}'::jsonb,
+  severity TEXT NOT NULL DEFAULT 'warning' CHECK (severity IN ('warning', 'critical')),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS freshness_breaches (
+  id BIGSERIAL PRIMARY KEY,
+  rule_id TEXT NOT NULL REFERENCES freshness_rules(id) ON DELETE CASCADE,
+  sport_id TEXT NOT NULL,
+  rule_type TEXT NOT NULL,
+  severity TEXT NOT NULL,
+  message TEXT NOT NULL,
+  observed JSONB,
+  subjects TEXT[] NOT NULL DEFAULT '{}',
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ,
+  notified_at TIMESTAMPTZ
+);
+
+-- At most one open breach per rule
+CREATE UNIQUE INDEX IF NOT EXISTS idx_freshness_breaches_open ON freshness_breaches(rule_id) WHERE resolved_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_freshness_breaches_opened ON freshness_breaches(opened_at DESC);
+
+ALTER TABLE freshness_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE freshness_breaches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read freshness_rules" ON freshness_rules FOR SELECT USING (true);
+CREATE POLICY "Public can read freshness_breaches" ON freshness_breaches FOR SELECT USING (true);
+
+-- Defaults: odds no older than 2h before tip, today's edges by 10am ET,
+-- finals verified within 6h (NFL and MLB games run longer)
+INSERT INTO freshness_rules (id, sport_id, rule_type, table_name, params, severity) VALUES
+  ('odds_age:nba', 'nba', 'odds_age', 'odds_snapshots', '{"max_age_minutes": 120}', 'critical'),
+  ('odds_age:nfl', 'nfl', 'odds_age', 'odds_snapshots', '{"max_age_minutes": 120}', 'critical'),
+  ('odds_age:nhl', 'nhl', 'odds_age', 'odds_snapshots', '{"max_age_minutes": 120}', 'critical'),
+  ('odds_age:mlb', 'mlb', 'odds_age', 'odds_snapshots', '{"max_age_minutes": 120}', 'critical'),
+  ('edges_deadline:nba', 'nba', 'edges_deadline', 'daily_edges', '{"deadline_et": "10:00"}', 'critical'),
+  ('edges_deadline:nfl', 'nfl', 'edges_deadline', 'daily_edges', '{"deadline_et": "10:00"}', 'critical'),
+  ('edges_deadline:nhl', 'nhl', 'edges_deadline', 'daily_edges', '{"deadline_et": "10:00"}', 'critical'),
+  ('edges_deadline:mlb', 'mlb', 'edges_deadline', 'daily_edges', '{"deadline_et": "10:00"}', 'critical'),
+  ('unverified_finals:nba', 'nba', 'unverified_finals', 'games', '{"after_hours": 6, "lookback_days": 3}', 'warning'),
+  ('unverified_finals:nfl', 'nfl', 'unverified_finals', 'games', '{"after_hours": 8, "lookback_days": 3}', 'warning'),
+  ('unverified_finals:nhl', 'nhl', 'unverified_finals', 'games', '{"after_hours": 6, "lookback_days": 3}', 'warning'),
+  ('unverified_finals:mlb', 'mlb', 'unverified_finals', 'games', '{"after_hours": 8, "lookback_days": 3}', 'warning')
+ON CONFLICT (id) DO NOTHING;
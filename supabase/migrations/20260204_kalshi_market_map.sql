@@ -0,0 +1,38 @@
+-- Kalshi game-total markets mapped to games and lines
+--
+-- kalshi-integration (action discover_markets, and before get_signals)
+-- pulls the open markets of each sport's totals series and keeps one row per
+-- market: the game its event is for and the total line it settles on. See
+-- supabase/functions/_shared/kalshiMarkets.ts. Events it can't map go to the
+-- unresolved_entities queue; confirming one there writes odds_event_map under
+-- 'kalshi_totals' and fills game_id on the event's markets here.
+
+CREATE TABLE IF NOT EXISTS kalshi_market_map (
+  market_ticker TEXT PRIMARY KEY,
+  event_ticker TEXT NOT NULL,
+  sport_id TEXT NOT NULL,
+  game_id UUID REFERENCES games(id) ON DELETE SET NULL,
+  -- Date in the event ticker
+  event_date DATE,
+
+  -- YES wins when the final total is on yes_side of line
+  line NUMERIC,
+  yes_side TEXT CHECK (yes_side IN ('over', 'under')),
+  title TEXT NOT NULL,
+  market_status TEXT,
+  close_time TIMESTAMPTZ,
+
+  match_status TEXT NOT NULL CHECK (match_status IN ('matched', 'unmatched')),
+  -- 'unparsed_teams', 'no_game' or 'unparsed_strike'
+  unmatched_reason TEXT,
+
+  first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_kalshi_market_map_game ON kalshi_market_map(game_id) WHERE match_status = 'matched';
+CREATE INDEX IF NOT EXISTS idx_kalshi_market_map_event ON kalshi_market_map(event_ticker);
+CREATE INDEX IF NOT EXISTS idx_kalshi_market_map_unmatched ON kalshi_market_map(sport_id, last_seen_at DESC) WHERE match_status = 'unmatched';
+
+ALTER TABLE kalshi_market_map ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public can read kalshi_market_map" ON kalshi_market_map FOR SELECT USING (true);
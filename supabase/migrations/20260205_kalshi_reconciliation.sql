@@ -0,0 +1,43 @@
+-- Kalshi order reconciliation and settlement
+--
+-- reconcile-kalshi runs on a schedule: it syncs each order's status and
+-- fills from the exchange, settles filled orders once their market is
+-- determined (pnl_cents net of fees), flags orphans and rebuilds daily_pnl
+-- for the ET dates it touched. See supabase/functions/_shared/kalshiSettlement.ts.
+
+-- Exchange order status (resting, canceled, executed) as last polled
+ALTER TABLE kalshi_orders ADD COLUMN IF NOT EXISTS kalshi_status TEXT;
+ALTER TABLE kalshi_orders ADD COLUMN IF NOT EXISTS fees_cents INTEGER;
+ALTER TABLE kalshi_orders ADD COLUMN IF NOT EXISTS reconciled_at TIMESTAMPTZ;
+
+-- Orders the exchange and kalshi_orders disagree on
+ALTER TABLE kalshi_orders ADD COLUMN IF NOT EXISTS orphan_reason TEXT
+  CHECK (orphan_reason IN ('missing_order_id', 'missing_at_exchange', 'not_in_db'));
+ALTER TABLE kalshi_orders ADD COLUMN IF NOT EXISTS orphaned_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_kalshi_orders_order_id ON kalshi_orders(order_id);
+CREATE INDEX IF NOT EXISTS idx_kalshi_orders_orphaned ON kalshi_orders(orphaned_at DESC) WHERE orphan_reason IS NOT NULL;
+
+-- daily_pnl is keyed by the ET date an order was placed, like the rollup,
+-- so an evening order doesn't bump tomorrow's UTC row. Like the rollup, only
+-- orders the exchange accepted count as placed
+CREATE OR REPLACE FUNCTION update_daily_pnl()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT NEW.success THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO daily_pnl (date_local, orders_placed)
+  VALUES ((COALESCE(NEW.created_at, NOW()) AT TIME ZONE 'America/New_York')::DATE, 1)
+  ON CONFLICT (date_local) DO UPDATE
+  SET
+    orders_placed = daily_pnl.orders_placed + 1,
+    updated_at = NOW();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
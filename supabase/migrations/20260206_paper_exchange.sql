@@ -0,0 +1,54 @@
+-- Paper trading venue
+--
+-- betting_config.venue picks where auto-bet, kalshi-integration and
+-- reconcile-kalshi send orders: Kalshi ('live'), Kalshi's demo exchange
+-- ('demo') or the simulated exchange in
+-- supabase/functions/_shared/paperExchange.ts ('paper'). NULL keeps the
+-- KALSHI_USE_DEMO secret deciding between live and demo. The paper venue
+-- quotes markets from odds_snapshots, keeps its orders here and settles them
+-- on games.final_total.
+
+ALTER TABLE betting_config ADD COLUMN IF NOT EXISTS venue TEXT
+  CHECK (venue IN ('live', 'demo', 'paper'));
+-- Cash the paper account starts with
+ALTER TABLE betting_config ADD COLUMN IF NOT EXISTS paper_balance_cents INTEGER NOT NULL DEFAULT 100000;
+
+-- Venue each order went to; reconciliation and daily_pnl only look at the current one
+ALTER TABLE kalshi_orders ADD COLUMN IF NOT EXISTS venue TEXT
+  CHECK (venue IN ('live', 'demo', 'paper'));
+UPDATE kalshi_orders SET venue = CASE WHEN is_demo THEN 'demo' ELSE 'live' END WHERE venue IS NULL;
+CREATE INDEX IF NOT EXISTS idx_kalshi_orders_venue ON kalshi_orders(venue, created_at DESC);
+
+-- Orders on the paper venue, shaped like Kalshi's /portfolio/orders rows
+CREATE TABLE IF NOT EXISTS paper_orders (
+  order_id TEXT PRIMARY KEY,
+  ticker TEXT NOT NULL,
+  side TEXT NOT NULL CHECK (side IN ('yes', 'no')),
+  action TEXT NOT NULL DEFAULT 'buy',
+  type TEXT NOT NULL CHECK (type IN ('limit', 'market')),
+  -- resting, canceled or executed
+  status TEXT NOT NULL,
+  yes_price INTEGER,
+  no_price INTEGER,
+
+  fill_count INTEGER NOT NULL DEFAULT 0,
+  remaining_count INTEGER NOT NULL DEFAULT 0,
+  taker_fill_count INTEGER NOT NULL DEFAULT 0,
+  taker_fill_cost INTEGER NOT NULL DEFAULT 0,
+  taker_fees INTEGER NOT NULL DEFAULT 0,
+  maker_fill_count INTEGER NOT NULL DEFAULT 0,
+  maker_fill_cost INTEGER NOT NULL DEFAULT 0,
+  maker_fees INTEGER NOT NULL DEFAULT 0,
+
+  created_time TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expiration_time TIMESTAMPTZ,
+  -- fetched_at of the odds snapshot the order last matched against
+  quoted_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_paper_orders_created ON paper_orders(created_time DESC);
+CREATE INDEX IF NOT EXISTS idx_paper_orders_resting ON paper_orders(ticker) WHERE status = 'resting';
+
+ALTER TABLE paper_orders ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public can read paper_orders" ON paper_orders FOR SELECT USING (true);
@@ -0,0 +1,41 @@
+-- Portfolio risk limits
+--
+-- auto-bet checks each sized order against open exposure (kalshi_orders on
+-- the current venue and omen_positions) before placing it; see
+-- supabase/functions/_shared/portfolioRisk.ts. Orders are cut to the
+-- tightest limit, and anything left under one contract is rejected and
+-- logged in risk_rejections. NULL limits are off.
+
+-- sport_id -> cents at risk across that sport; sports not listed are unlimited
+ALTER TABLE betting_config ADD COLUMN IF NOT EXISTS sport_exposure_limits JSONB NOT NULL
+  DEFAULT '{"nba": 5000, "nfl": 5000, "nhl": 5000, "mlb": 5000}'::jsonb;
+-- Cents at risk on one ET slate date
+ALTER TABLE betting_config ADD COLUMN IF NOT EXISTS max_date_exposure_cents INTEGER DEFAULT 10000;
+-- Cents at risk on games involving one team
+ALTER TABLE betting_config ADD COLUMN IF NOT EXISTS max_team_exposure_cents INTEGER DEFAULT 2500;
+-- Cents at risk in the same direction in one sport on one date
+ALTER TABLE betting_config ADD COLUMN IF NOT EXISTS max_correlated_exposure_cents INTEGER DEFAULT 3000;
+-- Stop placing orders once cumulative daily_pnl is this far below its peak
+ALTER TABLE betting_config ADD COLUMN IF NOT EXISTS max_drawdown_cents INTEGER DEFAULT 15000;
+
+CREATE TABLE IF NOT EXISTS risk_rejections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  job_run_id BIGINT REFERENCES job_runs(id) ON DELETE SET NULL,
+  game_id UUID REFERENCES games(id) ON DELETE CASCADE,
+  sport_id TEXT NOT NULL,
+  venue TEXT CHECK (venue IN ('live', 'demo', 'paper')),
+  ticker TEXT,
+  signal_type TEXT,
+  edge_percentile NUMERIC,
+  requested_cents INTEGER NOT NULL,
+  -- [{reason, scope, limit_cents, exposure_cents}], reason being one of
+  -- sport_limit, date_limit, team_limit, correlation_limit, drawdown_breaker
+  reasons JSONB NOT NULL DEFAULT '[]'::jsonb,
+  dry_run BOOLEAN NOT NULL DEFAULT false
+);
+
+CREATE INDEX IF NOT EXISTS idx_risk_rejections_created ON risk_rejections(created_at DESC);
+
+ALTER TABLE risk_rejections ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public can read risk_rejections" ON risk_rejections FOR SELECT USING (true);
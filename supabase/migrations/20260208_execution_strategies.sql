@@ -0,0 +1,33 @@
+-- Order execution strategies
+--
+-- betting_config.execution_policies picks how auto-bet works an order for
+-- each edge strength: 'single', 'ladder' or 'reprice' (see
+-- supabase/functions/_shared/executionStrategy.ts). manage-orders runs on a
+-- schedule, reprices 'reprice' orders toward their max_price, cancels
+-- anything still resting cancel_before_start_minutes before the game starts
+-- and appends each amend and cancel to the order's execution_log.
+
+-- Edge strength (STRONG, MODERATE, WEAK) -> policy; strengths not listed use 'single'
+ALTER TABLE betting_config ADD COLUMN IF NOT EXISTS execution_policies JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE betting_config ADD COLUMN IF NOT EXISTS ladder_rungs INTEGER DEFAULT 3;
+-- Cents between ladder rungs, stepping down from the computed limit price
+ALTER TABLE betting_config ADD COLUMN IF NOT EXISTS ladder_step_cents INTEGER DEFAULT 2;
+ALTER TABLE betting_config ADD COLUMN IF NOT EXISTS reprice_step_cents INTEGER DEFAULT 1;
+ALTER TABLE betting_config ADD COLUMN IF NOT EXISTS reprice_interval_minutes INTEGER DEFAULT 15;
+-- NULL leaves unfilled orders resting until the market closes
+ALTER TABLE betting_config ADD COLUMN IF NOT EXISTS cancel_before_start_minutes INTEGER DEFAULT 10;
+
+ALTER TABLE kalshi_orders ADD COLUMN IF NOT EXISTS execution_policy TEXT
+  CHECK (execution_policy IN ('single', 'ladder', 'reprice'));
+-- Shared by the rungs of one ladder
+ALTER TABLE kalshi_orders ADD COLUMN IF NOT EXISTS ladder_group UUID;
+-- Ceiling a 'reprice' order is moved toward
+ALTER TABLE kalshi_orders ADD COLUMN IF NOT EXISTS max_price INTEGER;
+ALTER TABLE kalshi_orders ADD COLUMN IF NOT EXISTS cancel_at TIMESTAMPTZ;
+ALTER TABLE kalshi_orders ADD COLUMN IF NOT EXISTS last_amended_at TIMESTAMPTZ;
+ALTER TABLE kalshi_orders ADD COLUMN IF NOT EXISTS amend_count INTEGER NOT NULL DEFAULT 0;
+-- [{at, action, order_id, from_price, to_price, reason, filled_count, error}]
+ALTER TABLE kalshi_orders ADD COLUMN IF NOT EXISTS execution_log JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_kalshi_orders_working ON kalshi_orders(venue, cancel_at)
+  WHERE status IN ('pending', 'partial') AND result IS NULL;
@@ -0,0 +1,44 @@
+-- daily_pnl per venue
+--
+-- daily_pnl was keyed by date alone, so a paper or demo reconcile overwrote
+-- the live row for the same date and the insert trigger counted every
+-- venue's orders together. Rows are now keyed by (date_local, venue);
+-- reconcile-kalshi rebuilds its own venue's rows and auto-bet's daily loss
+-- limit and drawdown breaker only read the venue it trades on.
+
+-- Existing rows predate paper and demo rollups; the next reconcile of each
+-- date rebuilds them from that venue's orders
+ALTER TABLE daily_pnl ADD COLUMN IF NOT EXISTS venue TEXT NOT NULL DEFAULT 'live'
+  CHECK (venue IN ('live', 'demo', 'paper'));
+
+ALTER TABLE daily_pnl DROP CONSTRAINT IF EXISTS daily_pnl_date_local_key;
+ALTER TABLE daily_pnl DROP CONSTRAINT IF EXISTS daily_pnl_date_local_venue_key;
+ALTER TABLE daily_pnl ADD CONSTRAINT daily_pnl_date_local_venue_key UNIQUE (date_local, venue);
+
+CREATE INDEX IF NOT EXISTS idx_daily_pnl_venue_date ON daily_pnl(venue, date_local DESC);
+
+-- Count each accepted order toward its own venue's ET date
+CREATE OR REPLACE FUNCTION update_daily_pnl()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT NEW.success THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO daily_pnl (date_local, venue, orders_placed)
+  VALUES (
+    (COALESCE(NEW.created_at, NOW()) AT TIME ZONE 'America/New_York')::DATE,
+    COALESCE(NEW.venue, CASE WHEN NEW.is_demo THEN 'demo' ELSE 'live' END),
+    1
+  )
+  ON CONFLICT (date_local, venue) DO UPDATE
+  SET
+    orders_placed = daily_pnl.orders_placed + 1,
+    updated_at = NOW();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
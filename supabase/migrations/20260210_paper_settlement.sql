@@ -0,0 +1,26 @@
+-- Paper order settlement
+--
+-- A paper order records its market's result and payout when the market
+-- settles. The paper balance is the starting balance plus the settled
+-- orders' net (paper_settled_totals) and the unsettled orders' cost and
+-- collateral, so it no longer needs every market to stay listed or every
+-- order to be read.
+
+-- yes, no or void
+ALTER TABLE paper_orders ADD COLUMN IF NOT EXISTS result TEXT
+  CHECK (result IN ('yes', 'no', 'void'));
+-- $1 per winning contract; cost and fees back on a voided market
+ALTER TABLE paper_orders ADD COLUMN IF NOT EXISTS payout_cents INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE paper_orders ADD COLUMN IF NOT EXISTS settled_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_paper_orders_open ON paper_orders(created_time DESC) WHERE settled_at IS NULL;
+
+DROP VIEW IF EXISTS public.paper_settled_totals;
+
+CREATE VIEW public.paper_settled_totals
+WITH (security_invoker = true) AS
+SELECT
+  COUNT(*)::INTEGER AS orders,
+  COALESCE(SUM(payout_cents - taker_fill_cost - maker_fill_cost - taker_fees - maker_fees), 0)::INTEGER AS net_cents
+FROM paper_orders
+WHERE settled_at IS NOT NULL;